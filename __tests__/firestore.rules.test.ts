@@ -0,0 +1,422 @@
+// Firestore security rules tests. Requires the Firestore emulator:
+//   npm run test:rules
+// (firebase emulators:exec starts the emulator and sets FIRESTORE_EMULATOR_HOST.)
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  initializeTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, getDoc, getDocs, setDoc, updateDoc, deleteDoc, addDoc, collection, query, where } from 'firebase/firestore';
+
+const PROJECT_ID = 'demo-sanhome';
+
+const ADMIN = 'admin-uid';
+const NURSE = 'nurse-uid';
+const OTHER_NURSE = 'other-nurse-uid';
+const PATIENT = 'patient-uid';
+const OTHER_PATIENT = 'other-patient-uid';
+
+let testEnv: RulesTestEnvironment;
+
+function dbAs(uid: string) {
+  return testEnv.authenticatedContext(uid).firestore();
+}
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(path.resolve(__dirname, '../firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, 'users', ADMIN), { role: 'admin', email: 'admin@sanhome.com' });
+    await setDoc(doc(db, 'users', NURSE), { role: 'infirmiere', email: 'nurse@sanhome.com' });
+    await setDoc(doc(db, 'users', OTHER_NURSE), { role: 'nurse', email: 'other.nurse@sanhome.com' });
+    await setDoc(doc(db, 'users', PATIENT), { role: 'patient', email: 'patient@example.com' });
+    await setDoc(doc(db, 'users', OTHER_PATIENT), { role: 'patient', email: 'other.patient@example.com' });
+
+    await setDoc(doc(db, 'patients', PATIENT), { name: 'Ahmed Ben Salah', primaryNurseId: NURSE, careTeamIds: [NURSE] });
+    await setDoc(doc(db, 'patients', OTHER_PATIENT), { name: 'Fatima Bouaziz', primaryNurseId: OTHER_NURSE, careTeamIds: [OTHER_NURSE] });
+    await setDoc(doc(db, 'nurses', NURSE), { name: 'Leila Haddad' });
+    await setDoc(doc(db, 'careAssignments', 'assignment-1'), { patientId: PATIENT, clinicianId: NURSE, teamRole: 'primaryNurse', endDate: null });
+
+    await setDoc(doc(db, 'careLogs', 'log-1'), { patientId: PATIENT, careType: 'Vitals Check', notes: 'BP stable' });
+    await setDoc(doc(db, 'careLogs', 'log-1', 'revisions', '1'), { patientId: PATIENT, careType: 'Vitals Check', notes: 'BP high', version: 1 });
+    await setDoc(doc(db, 'medicationAdministrations', 'dose-1'), { patientId: PATIENT, prescriptionId: 'rx-1', status: 'administered', recordedBy: NURSE, version: 2 });
+    await setDoc(doc(db, 'medicationAdministrations', 'dose-1', 'revisions', '1'), { patientId: PATIENT, prescriptionId: 'rx-1', status: 'missed', recordedBy: NURSE, version: 1 });
+    await setDoc(doc(db, 'medicalFiles', 'file-1'), { patientId: PATIENT, fileName: 'labs.pdf', uploaderId: NURSE });
+    await setDoc(doc(db, 'appointments', 'appt-1'), { patientId: PATIENT, nurseId: NURSE, status: 'Scheduled' });
+    await setDoc(doc(db, 'appointmentSeries', 'series-1'), { patientId: PATIENT, nurseId: NURSE, rrule: 'FREQ=WEEKLY;INTERVAL=1;COUNT=6' });
+    await setDoc(doc(db, 'videoConsults', 'consult-1'), { patientId: PATIENT, nurseId: NURSE, status: 'scheduled' });
+    await setDoc(doc(db, 'calendarFeeds', 'feed-token-1'), { uid: NURSE });
+    await setDoc(doc(db, 'users', PATIENT, 'notifications', 'notif-1'), { userId: PATIENT, message: 'Hello', read: false });
+    await setDoc(doc(db, 'auditEvents', 'event-1'), { actorUid: NURSE, action: 'fetchPatientById', operation: 'read', patientId: PATIENT });
+  });
+});
+
+describe('unauthenticated access', () => {
+  it('denies every read', async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(db, 'patients', PATIENT)));
+    await assertFails(getDoc(doc(db, 'nurses', NURSE)));
+    await assertFails(getDoc(doc(db, 'careLogs', 'log-1')));
+  });
+});
+
+describe('server identity', () => {
+  it('may read and write any collection', async () => {
+    const db = testEnv.authenticatedContext('sanhome-server', { server: true }).firestore();
+    await assertSucceeds(getDoc(doc(db, 'patients', OTHER_PATIENT)));
+    await assertSucceeds(setDoc(doc(db, 'nurses', 'nurse-new'), { name: 'Karim Zayani' }));
+  });
+});
+
+describe('audit trail', () => {
+  it('is append-only, even for the server identity', async () => {
+    const server = testEnv.authenticatedContext('sanhome-server', { server: true }).firestore();
+    await assertSucceeds(setDoc(doc(server, 'auditEvents', 'event-2'), { actorUid: ADMIN, action: 'markCareLogEnteredInError', operation: 'delete' }));
+    await assertFails(updateDoc(doc(server, 'auditEvents', 'event-1'), { actorUid: ADMIN }));
+    await assertFails(deleteDoc(doc(server, 'auditEvents', 'event-1')));
+    await assertFails(deleteDoc(doc(dbAs(ADMIN), 'auditEvents', 'event-1')));
+  });
+
+  it('is readable by admins only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(ADMIN), 'auditEvents', 'event-1')));
+    await assertFails(getDoc(doc(dbAs(NURSE), 'auditEvents', 'event-1')));
+    await assertFails(getDoc(doc(dbAs(PATIENT), 'auditEvents', 'event-1')));
+  });
+});
+
+describe('users', () => {
+  it('lets a user read their own profile but not someone else\'s', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'users', PATIENT)));
+    await assertFails(getDoc(doc(dbAs(PATIENT), 'users', OTHER_PATIENT)));
+  });
+
+  it('lets admins read any profile', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(ADMIN), 'users', PATIENT)));
+  });
+
+  it('prevents users from changing their own role', async () => {
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'users', PATIENT), { role: 'admin' }));
+    await assertSucceeds(updateDoc(doc(dbAs(PATIENT), 'users', PATIENT), { phoneNumber: '+216 20 123 456' }));
+  });
+
+  it('only lets admins change roles', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(ADMIN), 'users', PATIENT), { role: 'infirmiere' }));
+    await assertFails(updateDoc(doc(dbAs(NURSE), 'users', PATIENT), { role: 'infirmiere' }));
+  });
+
+  it('forbids self-registration with a staff role', async () => {
+    for (const role of ['admin', 'nurse', 'infirmiere', 'medecin', 'sage-femme', 'aide-soignant', 'kinesitherapeute']) {
+      await assertFails(setDoc(doc(dbAs('new-uid'), 'users', 'new-uid'), { role }));
+    }
+  });
+
+  it('lets a new user register as a patient', async () => {
+    await assertSucceeds(setDoc(doc(dbAs('new-uid'), 'users', 'new-uid'), { role: 'patient' }));
+    await assertSucceeds(setDoc(doc(dbAs('new-uid-2'), 'users', 'new-uid-2'), { email: 'new@example.com' }));
+  });
+});
+
+describe('notifications', () => {
+  it('are private to their owner', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'users', PATIENT, 'notifications', 'notif-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'users', PATIENT, 'notifications', 'notif-1')));
+  });
+
+  it('cannot be written by clinicians', async () => {
+    await assertFails(setDoc(doc(dbAs(NURSE), 'users', PATIENT, 'notifications', 'notif-2'), { userId: PATIENT, message: 'Hello', read: false }));
+    await assertFails(setDoc(doc(dbAs(NURSE), 'users', OTHER_PATIENT, 'notifications', 'notif-2'), { userId: OTHER_PATIENT, message: 'Hello', read: false }));
+  });
+
+  it('only let the owner flip the read flag', async () => {
+    const ref = doc(dbAs(PATIENT), 'users', PATIENT, 'notifications', 'notif-1');
+    await assertSucceeds(updateDoc(ref, { read: true }));
+    await assertFails(updateDoc(ref, { message: 'Tampered' }));
+  });
+});
+
+describe('patients', () => {
+  it('lets a patient read only their own record', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'patients', PATIENT)));
+    await assertFails(getDoc(doc(dbAs(PATIENT), 'patients', OTHER_PATIENT)));
+  });
+
+  it('lets a nurse read only assigned patients', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'patients', PATIENT)));
+    await assertFails(getDoc(doc(dbAs(NURSE), 'patients', OTHER_PATIENT)));
+  });
+
+  it('prevents nurses from reassigning patients', async () => {
+    await assertFails(updateDoc(doc(dbAs(NURSE), 'patients', PATIENT), { primaryNurseId: OTHER_NURSE }));
+    await assertSucceeds(updateDoc(doc(dbAs(NURSE), 'patients', PATIENT), { mobilityStatus: 'Fauteuil roulant' }));
+    await assertSucceeds(updateDoc(doc(dbAs(ADMIN), 'patients', PATIENT), { primaryNurseId: OTHER_NURSE }));
+  });
+
+  it('only lets admins authorize family caregivers', async () => {
+    await assertFails(updateDoc(doc(dbAs(NURSE), 'patients', PATIENT), { caregiverIds: [OTHER_PATIENT] }));
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'patients', PATIENT), { caregiverIds: [OTHER_PATIENT] }));
+    await assertSucceeds(updateDoc(doc(dbAs(ADMIN), 'patients', PATIENT), { caregiverIds: [OTHER_PATIENT] }));
+  });
+
+  it('only lets admins archive patients', async () => {
+    await assertFails(updateDoc(doc(dbAs(NURSE), 'patients', PATIENT), { recordStatus: 'Discharged' }));
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'patients', PATIENT), { recordStatus: 'Inactive' }));
+    await assertSucceeds(updateDoc(doc(dbAs(ADMIN), 'patients', PATIENT), { recordStatus: 'Discharged' }));
+  });
+
+  it('limits patients to editing their contact details', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(PATIENT), 'patients', PATIENT), { phone: '+216 22 333 444' }));
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'patients', PATIENT), { status: 'Stable' }));
+  });
+
+  it('lets a new patient create only their own profile, linked to their own account', async () => {
+    await assertSucceeds(setDoc(doc(dbAs('new-uid'), 'patients', 'new-uid'), { name: 'Nour Trabelsi', userId: 'new-uid' }));
+    await assertFails(setDoc(doc(dbAs('new-uid-2'), 'patients', 'new-uid-2'), { name: 'Nour Trabelsi', userId: PATIENT }));
+    await assertFails(setDoc(doc(dbAs('new-uid-3'), 'patients', 'new-uid-3'), { name: 'Nour Trabelsi', primaryNurseId: NURSE }));
+  });
+
+  it('lets clinicians create patient records only without assignments', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(NURSE), 'patients', 'new-patient'), { name: 'Amine Gharbi' }));
+    await assertFails(setDoc(doc(dbAs(NURSE), 'patients', 'new-patient-2'), { name: 'Amine Gharbi', primaryNurseId: NURSE }));
+    await assertFails(setDoc(doc(dbAs(NURSE), 'patients', 'new-patient-3'), { name: 'Amine Gharbi', careTeamIds: [NURSE] }));
+    await assertSucceeds(setDoc(doc(dbAs(ADMIN), 'patients', 'new-patient-4'), { name: 'Amine Gharbi', primaryNurseId: NURSE, careTeamIds: [NURSE] }));
+  });
+
+  it('only lets admins delete patients', async () => {
+    await assertFails(deleteDoc(doc(dbAs(NURSE), 'patients', PATIENT)));
+    await assertSucceeds(deleteDoc(doc(dbAs(ADMIN), 'patients', PATIENT)));
+  });
+});
+
+describe('care assignments', () => {
+  it('are readable by the assigned clinician, the patient and admins only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'careAssignments', 'assignment-1')));
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'careAssignments', 'assignment-1')));
+    await assertSucceeds(getDoc(doc(dbAs(ADMIN), 'careAssignments', 'assignment-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_NURSE), 'careAssignments', 'assignment-1')));
+  });
+
+  it('are written by the server only', async () => {
+    await assertFails(updateDoc(doc(dbAs(ADMIN), 'careAssignments', 'assignment-1'), { endDate: new Date() }));
+    await assertFails(addDoc(collection(dbAs(NURSE), 'careAssignments'), { patientId: OTHER_PATIENT, clinicianId: NURSE, teamRole: 'nurse' }));
+  });
+});
+
+describe('nurses', () => {
+  it('are readable by any signed-in user', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'nurses', NURSE)));
+  });
+
+  it('are writable by admins only', async () => {
+    await assertFails(setDoc(doc(dbAs(NURSE), 'nurses', NURSE), { name: 'Changed' }));
+    await assertSucceeds(setDoc(doc(dbAs(ADMIN), 'nurses', 'nurse-2'), { name: 'Sana Mabrouk' }));
+  });
+});
+
+describe('care logs', () => {
+  it('are readable by the patient and assigned nurse only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'careLogs', 'log-1')));
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'careLogs', 'log-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_NURSE), 'careLogs', 'log-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'careLogs', 'log-1')));
+  });
+
+  it('can be written by assigned nurses but not by patients', async () => {
+    await assertSucceeds(addDoc(collection(dbAs(NURSE), 'careLogs'), { patientId: PATIENT, careType: 'Wound Care', notes: 'Dressing changed' }));
+    await assertFails(addDoc(collection(dbAs(OTHER_NURSE), 'careLogs'), { patientId: PATIENT, careType: 'Wound Care', notes: 'x' }));
+    await assertFails(addDoc(collection(dbAs(PATIENT), 'careLogs'), { patientId: PATIENT, careType: 'Wound Care', notes: 'x' }));
+  });
+
+  it('are never overwritten or deleted by clients, and their revisions follow the log', async () => {
+    await assertFails(updateDoc(doc(dbAs(NURSE), 'careLogs', 'log-1'), { notes: 'Rewritten' }));
+    await assertFails(deleteDoc(doc(dbAs(ADMIN), 'careLogs', 'log-1')));
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'careLogs', 'log-1', 'revisions', '1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_NURSE), 'careLogs', 'log-1', 'revisions', '1')));
+    await assertFails(setDoc(doc(dbAs(NURSE), 'careLogs', 'log-1', 'revisions', '2'), { notes: 'Forged' }));
+  });
+});
+
+describe('vital signs', () => {
+  it('follow the patient\'s care team', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(NURSE), 'vitalSigns', 'log-1'), { patientId: PATIENT, careLogId: 'log-1', heartRate: 72 }));
+    await assertFails(setDoc(doc(dbAs(OTHER_NURSE), 'vitalSigns', 'log-2'), { patientId: PATIENT, careLogId: 'log-2', heartRate: 72 }));
+    await assertFails(setDoc(doc(dbAs(PATIENT), 'vitalSigns', 'log-3'), { patientId: PATIENT, careLogId: 'log-3', heartRate: 72 }));
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'vitalSigns', 'log-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'vitalSigns', 'log-1')));
+  });
+});
+
+describe('medication administration record', () => {
+  it('lets only the care team prescribe and record doses', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(NURSE), 'prescriptions', 'rx-1'), { patientId: PATIENT, drug: 'Metformine', status: 'active' }));
+    await assertFails(setDoc(doc(dbAs(PATIENT), 'prescriptions', 'rx-2'), { patientId: PATIENT, drug: 'Metformine', status: 'active' }));
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'prescriptions', 'rx-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'prescriptions', 'rx-1')));
+
+    const doseRef = (uid: string) => doc(dbAs(uid), 'medicationAdministrations', 'rx-1_202401010800');
+    await assertFails(setDoc(doseRef(NURSE), { patientId: PATIENT, prescriptionId: 'rx-1', status: 'administered', recordedBy: OTHER_NURSE }));
+    await assertSucceeds(setDoc(doseRef(NURSE), { patientId: PATIENT, prescriptionId: 'rx-1', status: 'administered', recordedBy: NURSE }));
+    await assertFails(setDoc(doseRef(OTHER_NURSE), { patientId: PATIENT, prescriptionId: 'rx-1', status: 'missed', recordedBy: OTHER_NURSE }));
+  });
+
+  it('keeps dose records and their revisions out of client updates', async () => {
+    const doseRef = doc(dbAs(NURSE), 'medicationAdministrations', 'dose-1');
+    await assertFails(setDoc(doseRef, { patientId: PATIENT, prescriptionId: 'rx-1', status: 'refused', recordedBy: NURSE }));
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'medicationAdministrations', 'dose-1', 'revisions', '1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_NURSE), 'medicationAdministrations', 'dose-1', 'revisions', '1')));
+    await assertFails(setDoc(doc(dbAs(NURSE), 'medicationAdministrations', 'dose-1', 'revisions', '2'), { status: 'administered' }));
+  });
+});
+
+describe('medical files', () => {
+  it('are readable by the owner and assigned nurse only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'medicalFiles', 'file-1')));
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'medicalFiles', 'file-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'medicalFiles', 'file-1')));
+  });
+
+  it('must be uploaded under the caller\'s own uid', async () => {
+    await assertSucceeds(addDoc(collection(dbAs(PATIENT), 'medicalFiles'), { patientId: PATIENT, uploaderId: PATIENT, fileName: 'x.pdf' }));
+    await assertFails(addDoc(collection(dbAs(PATIENT), 'medicalFiles'), { patientId: PATIENT, uploaderId: NURSE, fileName: 'x.pdf' }));
+  });
+});
+
+describe('appointments and video consults', () => {
+  it('are visible to their participants only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'appointments', 'appt-1')));
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'videoConsults', 'consult-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'appointments', 'appt-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_NURSE), 'videoConsults', 'consult-1')));
+  });
+
+  it('let patients book only for themselves', async () => {
+    await assertSucceeds(addDoc(collection(dbAs(PATIENT), 'appointments'), { patientId: PATIENT, nurseId: NURSE }));
+    await assertFails(addDoc(collection(dbAs(PATIENT), 'appointments'), { patientId: OTHER_PATIENT, nurseId: NURSE }));
+  });
+
+  it('share the visibility of their recurring series', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'appointmentSeries', 'series-1')));
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'appointmentSeries', 'series-1')));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'appointmentSeries', 'series-1')));
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'appointmentSeries', 'series-1'), { rrule: 'FREQ=DAILY;INTERVAL=1;COUNT=30' }));
+  });
+
+  it('keep calendar feed tokens away from every client, including their owner', async () => {
+    await assertFails(getDoc(doc(dbAs(NURSE), 'calendarFeeds', 'feed-token-1')));
+    await assertFails(getDoc(doc(dbAs(ADMIN), 'calendarFeeds', 'feed-token-1')));
+    await assertFails(setDoc(doc(dbAs(PATIENT), 'calendarFeeds', 'guessed-token'), { uid: NURSE }));
+  });
+
+  it('leave the reminder delivery ledger to the server', async () => {
+    await assertFails(getDoc(doc(dbAs(ADMIN), 'reminderDeliveries', 'appointment_appt-1_0_1h_' + PATIENT)));
+    await assertFails(setDoc(doc(dbAs(NURSE), 'reminderDeliveries', 'appointment_appt-1_0_1h_' + NURSE), { status: 'sent' }));
+  });
+});
+
+describe('chats', () => {
+  const chatId = [PATIENT, NURSE].sort().join('_');
+
+  it('are readable by the two participants only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'chats', chatId)));
+    await assertFails(getDoc(doc(dbAs(OTHER_PATIENT), 'chats', chatId)));
+  });
+
+  it('require messages to be sent as the caller', async () => {
+    await assertSucceeds(addDoc(collection(dbAs(PATIENT), 'chats', chatId, 'messages'), { senderId: PATIENT, text: 'Bonjour' }));
+    await assertFails(addDoc(collection(dbAs(PATIENT), 'chats', chatId, 'messages'), { senderId: NURSE, text: 'Spoofed' }));
+    await assertFails(addDoc(collection(dbAs(OTHER_PATIENT), 'chats', chatId, 'messages'), { senderId: OTHER_PATIENT, text: 'Intruder' }));
+  });
+
+  it('leave messages with attachments to the server', async () => {
+    const attachment = { kind: 'image', url: 'https://example.com/wound.jpg', fileName: 'wound.jpg', fileType: 'image/jpeg', size: 1024 };
+    await assertFails(addDoc(collection(dbAs(PATIENT), 'chats', chatId, 'messages'), { senderId: PATIENT, text: '', attachment }));
+    const server = testEnv.authenticatedContext('sanhome-server', { server: true }).firestore();
+    await assertSucceeds(addDoc(collection(server, 'chats', chatId, 'messages'), { senderId: PATIENT, text: '', attachment }));
+  });
+
+  it('can be listed by participant only for the caller', async () => {
+    await setDoc(doc(dbAs(PATIENT), 'chats', chatId), { participants: [PATIENT, NURSE].sort(), unreadCounts: { [NURSE]: 1 } });
+    await assertSucceeds(getDocs(query(collection(dbAs(NURSE), 'chats'), where('participants', 'array-contains', NURSE))));
+    await assertFails(getDocs(query(collection(dbAs(OTHER_PATIENT), 'chats'), where('participants', 'array-contains', NURSE))));
+  });
+
+  it('leave message edits, deletions and retention to the server', async () => {
+    const messageRef = await addDoc(collection(dbAs(PATIENT), 'chats', chatId, 'messages'), { senderId: PATIENT, text: 'Bonjour' });
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'chats', chatId, 'messages', messageRef.id), { text: 'Bonsoir' }));
+    await assertFails(deleteDoc(doc(dbAs(PATIENT), 'chats', chatId, 'messages', messageRef.id)));
+    await assertFails(getDocs(collection(dbAs(PATIENT), 'chats', chatId, 'messages', messageRef.id, 'revisions')));
+    await assertFails(addDoc(collection(dbAs(PATIENT), 'chats', chatId, 'messages', messageRef.id, 'revisions'), { text: 'Forged' }));
+    await assertFails(getDoc(doc(dbAs(ADMIN), 'settings', 'chatRetention')));
+    await assertFails(setDoc(doc(dbAs(ADMIN), 'settings', 'chatRetention'), { enabled: true, mode: 'purge', retentionDays: 30 }));
+    await assertFails(getDoc(doc(dbAs(ADMIN), 'archivedChatMessages', `${chatId}_${messageRef.id}`)));
+  });
+});
+
+describe('group chats', () => {
+  const groupId = 'careteam-patient-uid';
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'chats', groupId), { type: 'careTeam', name: 'Care team', participants: [NURSE, PATIENT].sort() });
+    });
+  });
+
+  it('are readable and writable by their members only', async () => {
+    await assertSucceeds(getDoc(doc(dbAs(NURSE), 'chats', groupId)));
+    await assertFails(getDoc(doc(dbAs(OTHER_NURSE), 'chats', groupId)));
+    await assertSucceeds(addDoc(collection(dbAs(PATIENT), 'chats', groupId, 'messages'), { senderId: PATIENT, text: 'Bonjour', mentions: [NURSE] }));
+    await assertFails(addDoc(collection(dbAs(OTHER_NURSE), 'chats', groupId, 'messages'), { senderId: OTHER_NURSE, text: 'Intruder' }));
+    await assertFails(getDocs(collection(dbAs(OTHER_NURSE), 'chats', groupId, 'messages')));
+  });
+
+  it('let members update the read state but never the members or the name', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs(PATIENT), 'chats', groupId), { [`unreadCounts.${PATIENT}`]: 0 }));
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'chats', groupId), { participants: [NURSE, PATIENT, OTHER_PATIENT].sort() }));
+    await assertFails(updateDoc(doc(dbAs(NURSE), 'chats', groupId), { name: 'Renamed' }));
+    await assertFails(setDoc(doc(dbAs(OTHER_PATIENT), 'chats', 'new-group'), { participants: [OTHER_PATIENT, NURSE] }));
+  });
+});
+
+describe('presence', () => {
+  it('is readable by every signed-in user and written only by its owner', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(NURSE), 'presence', NURSE), { state: 'online' }));
+    await assertFails(setDoc(doc(dbAs(PATIENT), 'presence', NURSE), { state: 'offline' }));
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'presence', NURSE)));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'presence', NURSE)));
+  });
+});
+
+describe('video call rooms', () => {
+  it('let a user join by appending only themselves', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'videoCallRooms', 'room-1'), { participants: [NURSE], offer: { type: 'offer', sdp: 'x' } });
+    });
+    await assertFails(updateDoc(doc(dbAs(PATIENT), 'videoCallRooms', 'room-1'), { participants: [PATIENT] }));
+    await assertSucceeds(updateDoc(doc(dbAs(PATIENT), 'videoCallRooms', 'room-1'), { participants: [NURSE, PATIENT] }));
+  });
+
+  it('can be fetched by ID but not listed', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'videoCallRooms', 'room-1'), { participants: [NURSE], offer: { type: 'offer', sdp: 'x' } });
+    });
+    await assertSucceeds(getDoc(doc(dbAs(PATIENT), 'videoCallRooms', 'room-1')));
+    await assertFails(getDocs(collection(dbAs(PATIENT), 'videoCallRooms')));
+    await assertFails(getDocs(query(collection(dbAs(ADMIN), 'videoCallRooms'), where('participants', 'array-contains', NURSE))));
+  });
+});
@@ -0,0 +1,16 @@
+// Jest config for the unit tests of the shared logic (src/**/__tests__/*.test.ts).
+// Run with `npm test`. The Firestore security rules suite has its own config
+// (jest.rules.config.js) because it needs the emulator.
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    // Type errors are reported by `npm run typecheck`; the tests only need the code.
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', esModuleInterop: true, isolatedModules: true } }],
+  },
+};
@@ -0,0 +1,10 @@
+// Jest config for the Firestore security rules suite only.
+// Run with `npm run test:rules`, which starts the Firestore emulator first.
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/__tests__'],
+  testMatch: ['**/firestore.rules.test.ts'],
+  testTimeout: 20000,
+};
@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Uploads go through server actions: must exceed the largest chat attachment (lib/chat-attachments.ts).
+      bodySizeLimit: '12mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,25 @@
+// Service worker receiving Web Push notifications sent through Firebase Cloud Messaging
+// (see src/lib/notification-service.ts). Registered from the notification settings.
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (e) {
+    payload = { notification: { title: 'SanHome', body: event.data ? event.data.text() : '' } };
+  }
+  const notification = payload.notification || {};
+  const link = (payload.fcmOptions && payload.fcmOptions.link) || (payload.data && payload.data.link) || '/notifications';
+  event.waitUntil(
+    self.registration.showNotification(notification.title || 'SanHome', {
+      body: notification.body || '',
+      data: { link },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const link = (event.notification.data && event.notification.data.link) || '/notifications';
+  event.waitUntil(self.clients.openWindow(link));
+});
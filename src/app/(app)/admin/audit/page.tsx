@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import { AlertCircle, Loader2, ScrollText, Search } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import { AuditEventsTable } from "@/components/audit-log";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  fetchAuditEvents, fetchPatients, fetchUsersForAdmin,
+  type PatientListItem, type UserForAdminList,
+} from "@/app/actions";
+import type { ForbiddenError } from "@/lib/authz";
+import {
+  AUDITED_ACTIONS, AUDIT_OPERATIONS, AUDIT_OPERATION_LABELS,
+  type AuditEvent, type AuditEventFilters, type AuditedAction, type AuditOperation,
+} from "@/lib/audit";
+
+const ALL = "all"; // Select items cannot have an empty value
+
+export default function AuditTrailPage() {
+  const { loading: authLoading, userRole } = useAuth();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [patients, setPatients] = useState<PatientListItem[]>([]);
+  const [users, setUsers] = useState<UserForAdminList[]>([]);
+  const [patientId, setPatientId] = useState(ALL);
+  const [actorUid, setActorUid] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [operation, setOperation] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    const filters: AuditEventFilters = {
+      patientId: patientId !== ALL ? patientId : undefined,
+      actorUid: actorUid !== ALL ? actorUid : undefined,
+      action: action !== ALL ? action as AuditedAction : undefined,
+      operation: operation !== ALL ? operation as AuditOperation : undefined,
+      from: from ? startOfDay(parseISO(from)) : undefined,
+      to: to ? endOfDay(parseISO(to)) : undefined,
+      targetId: targetId.trim() || undefined,
+      search: search.trim() || undefined,
+    };
+    const result = await fetchAuditEvents(filters);
+    if (result.forbidden) setForbiddenError(result.forbidden);
+    setEvents(result.data || []);
+    setError(result.error ?? null);
+    setIsLoading(false);
+  }, [patientId, actorUid, action, operation, from, to, targetId, search]);
+
+  useEffect(() => {
+    if (authLoading || userRole !== 'admin') {
+      setIsLoading(false);
+      return;
+    }
+    fetchPatients({ includeArchived: true }).then(result => setPatients(result.data || []));
+    fetchUsersForAdmin().then(result => setUsers(result.data || []));
+    loadEvents();
+    // Filters apply on submit only, not on every change.
+  }, [authLoading, userRole]);
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+        <p>Loading audit trail...</p>
+      </div>
+    );
+  }
+
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
+  }
+
+  if (userRole !== 'admin') {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Access Denied</AlertTitle>
+        <AlertDescription>You do not have permission to view this page. Admin privileges required.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2"><ScrollText className="h-7 w-7 text-primary" />Audit Trail</h1>
+        <p className="text-muted-foreground">Who viewed or changed patient records, medical files, care logs and appointments. Events cannot be edited or deleted.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Shows the latest 200 matching events. Some filter combinations need a Firestore index.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end"
+            onSubmit={event => { event.preventDefault(); loadEvents(); }}
+          >
+            <div className="space-y-2">
+              <Label>Patient</Label>
+              <Select value={patientId} onValueChange={setPatientId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All patients</SelectItem>
+                  {patients.map(patient => <SelectItem key={patient.id} value={patient.id}>{patient.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={actorUid} onValueChange={setActorUid}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {users.map(user => <SelectItem key={user.id} value={user.id}>{user.name}{user.email ? ` (${user.email})` : ""}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {AUDITED_ACTIONS.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Operation</Label>
+              <Select value={operation} onValueChange={setOperation}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All operations</SelectItem>
+                  {AUDIT_OPERATIONS.map(op => <SelectItem key={op} value={op}>{AUDIT_OPERATION_LABELS[op]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-target">Target ID</Label>
+              <Input id="audit-target" placeholder="File, care log, appointment or message ID" value={targetId} onChange={e => setTargetId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input id="audit-search" placeholder="Email, patient, file name..." value={search} onChange={e => setSearch(e.target.value)} />
+            </div>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Search
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events</CardTitle>
+          <CardDescription>{isLoading ? "Loading..." : `${events.length} event(s), newest first.`}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {!isLoading && <AuditEventsTable events={events} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Archive, Loader2, Play, Save } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { fetchChatRetentionSettings, runChatRetentionNow, updateChatRetentionPolicy } from "@/app/actions";
+import type { ForbiddenError } from "@/lib/authz";
+import {
+  CHAT_RETENTION_MAX_DAYS, CHAT_RETENTION_MIN_DAYS, CHAT_RETENTION_MODES, CHAT_RETENTION_MODE_LABELS, DEFAULT_CHAT_RETENTION_POLICY,
+  type ChatRetentionMode, type ChatRetentionPolicy, type ChatRetentionSettings,
+} from "@/lib/chat-messages";
+
+export default function ChatRetentionPage() {
+  const { loading: authLoading, userRole } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<ChatRetentionSettings | null>(null);
+  const [policy, setPolicy] = useState<ChatRetentionPolicy>(DEFAULT_CHAT_RETENTION_POLICY);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchChatRetentionSettings();
+    if (result.forbidden) setForbiddenError(result.forbidden);
+    if (result.data) {
+      const { enabled, mode, retentionDays } = result.data;
+      setSettings(result.data);
+      setPolicy({ enabled, mode, retentionDays });
+    }
+    setError(result.error ?? null);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || userRole !== 'admin') {
+      setIsLoading(false);
+      return;
+    }
+    loadSettings();
+  }, [authLoading, userRole, loadSettings]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await updateChatRetentionPolicy(policy);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Retention Policy Saved", description: result.message });
+      loadSettings();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Save Policy", description: result.message });
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    const result = await runChatRetentionNow();
+    setIsRunning(false);
+    if (result.success) {
+      toast({ title: "Retention Policy Applied", description: result.message });
+      loadSettings();
+    } else {
+      toast({ variant: "destructive", title: "Retention Not Applied", description: result.message });
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+        <p>Loading chat retention policy...</p>
+      </div>
+    );
+  }
+
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
+  }
+
+  if (userRole !== 'admin') {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Access Denied</AlertTitle>
+        <AlertDescription>You do not have permission to view this page. Admin privileges required.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const isDirty = !!settings && (settings.enabled !== policy.enabled || settings.mode !== policy.mode || settings.retentionDays !== policy.retentionDays);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2"><Archive className="h-7 w-7 text-primary" />Chat Retention</h1>
+        <p className="text-muted-foreground">
+          How long chat messages stay in the conversations. The retention worker (<code>npm run chat-retention</code>) applies the policy every day.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>Retention Policy</CardTitle>
+          <CardDescription>
+            {settings?.updatedAt
+              ? `Last changed ${format(parseISO(settings.updatedAt), "PPp")}${settings.updatedBy ? ` by ${settings.updatedBy}` : ""}.`
+              : "Messages are kept indefinitely until a policy is enabled."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading policy...</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <Switch id="chat-retention-enabled" checked={policy.enabled} onCheckedChange={enabled => setPolicy(previous => ({ ...previous, enabled }))} />
+                <Label htmlFor="chat-retention-enabled">Apply a retention period to chat messages</Label>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="chat-retention-days">Keep messages for (days)</Label>
+                <Input
+                  id="chat-retention-days"
+                  type="number"
+                  className="w-40"
+                  min={CHAT_RETENTION_MIN_DAYS}
+                  max={CHAT_RETENTION_MAX_DAYS}
+                  value={policy.retentionDays}
+                  onChange={e => setPolicy(previous => ({ ...previous, retentionDays: Number(e.target.value) }))}
+                  disabled={!policy.enabled}
+                />
+                <p className="text-xs text-muted-foreground">Between {CHAT_RETENTION_MIN_DAYS} and {CHAT_RETENTION_MAX_DAYS} days.</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Older messages are</Label>
+                <RadioGroup
+                  value={policy.mode}
+                  onValueChange={mode => setPolicy(previous => ({ ...previous, mode: mode as ChatRetentionMode }))}
+                  disabled={!policy.enabled}
+                >
+                  {CHAT_RETENTION_MODES.map(mode => (
+                    <div key={mode} className="flex items-center gap-2">
+                      <RadioGroupItem value={mode} id={`chat-retention-${mode}`} />
+                      <Label htmlFor={`chat-retention-${mode}`} className="font-normal">{CHAT_RETENTION_MODE_LABELS[mode]}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {settings?.lastRun
+                  ? `Last applied ${format(parseISO(settings.lastRun.at), "PPp")}: ${settings.lastRun.archived} message(s) archived, ${settings.lastRun.purged} purged.`
+                  : "The policy has not been applied yet."}
+              </p>
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button onClick={handleSave} disabled={isLoading || isSaving || !isDirty}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Policy
+          </Button>
+          <Button variant="outline" onClick={handleRunNow} disabled={isLoading || isRunning || isDirty || !settings?.enabled}>
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Apply Now
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { useAuth } from "@/contexts/auth-context";
 import type { UserForAdminList, NurseListItem, PatientListItem } from "@/app/actions";
 import { fetchUsersForAdmin, fetchNurses, fetchPatients, fetchVideoConsults } from "@/app/actions";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import type { ForbiddenError } from "@/lib/authz";
 import { format, parseISO, isValid } from "date-fns"; // Added parseISO and isValid
 
 const chartConfigLine = {
@@ -43,6 +45,7 @@ export default function AdminDashboardPage() {
 
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
   const { currentUser, loading: authLoading, userRole } = useAuth();
 
   const loadAdminData = useCallback(async () => {
@@ -55,6 +58,7 @@ export default function AdminDashboardPage() {
     }
     setIsLoading(true);
     setError(null);
+    setForbiddenError(null);
     try {
       const [usersResult, nursesResult, patientsResult, consultsResult] = await Promise.all([
         fetchUsersForAdmin(),
@@ -63,6 +67,13 @@ export default function AdminDashboardPage() {
         fetchVideoConsults()
       ]);
 
+      // The server re-checks the role; surface its verdict if it disagrees with the client.
+      const forbiddenResult = [usersResult, nursesResult, patientsResult, consultsResult].find(r => r.forbidden);
+      if (forbiddenResult?.forbidden) {
+        setForbiddenError(forbiddenResult.forbidden);
+        return;
+      }
+
       if (usersResult.data) setUsers(usersResult.data);
       else setError(prev => `${prev ? prev + " " : ""}Failed to load users: ${usersResult.error || 'Unknown error'}`);
       
@@ -118,6 +129,10 @@ export default function AdminDashboardPage() {
     );
   }
 
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
+  }
+
   if (userRole !== 'admin' && !isLoading) {
      return (
         <Alert variant="destructive">
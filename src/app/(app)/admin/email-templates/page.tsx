@@ -0,0 +1,145 @@
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AlertCircle, Loader2, Mail } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import { useAuth } from "@/contexts/auth-context";
+import { previewEmailTemplate, type EmailTemplateSummary } from "@/app/actions";
+import type { ForbiddenError } from "@/lib/authz";
+import {
+  EMAIL_LOCALES, EMAIL_LOCALE_LABELS, EMAIL_TEMPLATE_IDS, type EmailLocale, type EmailTemplateId, type RenderedEmail,
+} from "@/lib/email-templates";
+
+export default function EmailTemplatesPage() {
+  const { loading: authLoading, userRole } = useAuth();
+  const [templateId, setTemplateId] = useState<EmailTemplateId>(EMAIL_TEMPLATE_IDS[0]);
+  const [locale, setLocale] = useState<EmailLocale>("en");
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
+
+  useEffect(() => {
+    if (authLoading || userRole !== 'admin') {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    previewEmailTemplate(templateId, locale).then(result => {
+      if (result.forbidden) setForbiddenError(result.forbidden);
+      if (result.data) {
+        const { templates: summaries, ...rendered } = result.data;
+        setPreview(rendered);
+        setTemplates(summaries);
+        setError(null);
+      }
+      if (result.error) setError(result.error);
+      setIsLoading(false);
+    });
+  }, [authLoading, userRole, templateId, locale]);
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+        <p>Loading email templates...</p>
+      </div>
+    );
+  }
+
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
+  }
+
+  if (userRole !== 'admin') {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Access Denied</AlertTitle>
+        <AlertDescription>You do not have permission to view this page. Admin privileges required.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const summary = templates.find(template => template.id === templateId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2"><Mail className="h-7 w-7 text-primary" />Email Templates</h1>
+        <p className="text-muted-foreground">Preview every transactional email in each language, rendered with sample values.</p>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <div className="space-y-2 w-64">
+          <Label>Template</Label>
+          <Select value={templateId} onValueChange={value => setTemplateId(value as EmailTemplateId)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {EMAIL_TEMPLATE_IDS.map(id => <SelectItem key={id} value={id}>{id}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 w-48">
+          <Label>Language</Label>
+          <Select value={locale} onValueChange={value => setLocale(value as EmailLocale)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {EMAIL_LOCALES.map(code => <SelectItem key={code} value={code}>{EMAIL_LOCALE_LABELS[code]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Preview Failed</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-lg">{preview?.subject ?? templateId}</CardTitle>
+          {summary && (
+            <CardDescription className="space-y-2">
+              <span className="block">{summary.description}</span>
+              <span className="flex flex-wrap gap-1">
+                {summary.variables.map(variable => <Badge key={variable} variant="secondary">{`{{${variable}}}`}</Badge>)}
+              </span>
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading || !preview ? (
+            <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Rendering...</p>
+          ) : (
+            <Tabs defaultValue="html">
+              <TabsList>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+                <TabsTrigger value="text">Plain text</TabsTrigger>
+              </TabsList>
+              <TabsContent value="html">
+                {/* Sandboxed: the rendered email must not run scripts in the admin session. */}
+                <iframe title="HTML preview" srcDoc={preview.html} sandbox="" className="w-full h-[520px] rounded-md border bg-white" />
+              </TabsContent>
+              <TabsContent value="text">
+                <pre dir={locale === "ar" ? "rtl" : "ltr"} className="whitespace-pre-wrap rounded-md border bg-muted p-4 text-sm">{preview.text}</pre>
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useState, useTransition, useEffect } from "react";
-import { format, parseISO } from "date-fns";
+import { format, parse, parseISO } from "date-fns";
 import { useRouter, useParams } from "next/navigation";
 
 import { Button } from "@/components/ui/button";
@@ -29,12 +29,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { fetchPatients, fetchNurses, fetchAppointmentById, updateAppointment, type PatientListItem, type NurseListItem, type AppointmentListItem, type UpdateAppointmentFormValues } from "@/app/actions";
 import { useAuth } from "@/contexts/auth-context";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { NurseFreeSlots, ScheduleConflictAlert } from "@/components/nurse-free-slots";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { describeRecurrence, type RecurrenceRule, type SeriesEditScope } from "@/lib/recurrence";
+import { APPOINTMENT_DURATIONS, DEFAULT_APPOINTMENT_DURATION_MINUTES, type ScheduleConflict, type SuggestedSlot } from "@/lib/availability";
 
 const appointmentFormSchema = z.object({
   patientId: z.string().min(1, { message: "Patient selection is required." }),
   nurseId: z.string().min(1, { message: "Nurse selection is required." }),
   appointmentDate: z.date({ required_error: "Appointment date is required." }),
   appointmentTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: "Invalid time format (HH:MM)."}),
+  durationMinutes: z.number(),
   appointmentType: z.string().min(3, { message: "Appointment type is required." }),
   status: z.enum(['Scheduled', 'Completed', 'Cancelled']),
 });
@@ -45,6 +51,11 @@ type ClientAppointmentFormValues = z.infer<typeof appointmentFormSchema>;
 
 const appointmentTypes = ["Check-up", "Medication Review", "Wound Care", "Vitals Check", "Consultation"];
 const appointmentStatuses: AppointmentListItem['status'][] = ['Scheduled', 'Completed', 'Cancelled'];
+const seriesEditScopes: Array<{ value: SeriesEditScope; label: string }> = [
+  { value: "this", label: "This occurrence" },
+  { value: "following", label: "This and following occurrences" },
+  { value: "series", label: "Whole series" },
+];
 
 export default function EditAppointmentPage() {
   const [isPending, startTransition] = useTransition();
@@ -58,6 +69,9 @@ export default function EditAppointmentPage() {
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [dataError, setDataError] = useState<string | null>(null);
   const { currentUser, loading: authLoading } = useAuth();
+  const [series, setSeries] = useState<{ id: string; recurrence?: RecurrenceRule } | null>(null);
+  const [editScope, setEditScope] = useState<SeriesEditScope>("this");
+  const [scheduleConflict, setScheduleConflict] = useState<{ conflicts: ScheduleConflict[]; suggestedSlots?: SuggestedSlot[] } | null>(null);
 
   const form = useForm<ClientAppointmentFormValues>({
     resolver: zodResolver(appointmentFormSchema),
@@ -66,10 +80,18 @@ export default function EditAppointmentPage() {
       nurseId: "",
       appointmentDate: undefined,
       appointmentTime: "",
+      durationMinutes: DEFAULT_APPOINTMENT_DURATION_MINUTES,
       appointmentType: "",
       status: "Scheduled",
     },
   });
+  const [selectedNurseId, selectedDate, selectedDuration, selectedTime, selectedStatus] = form.watch(["nurseId", "appointmentDate", "durationMinutes", "appointmentTime", "status"]);
+
+  function selectSuggestedSlot(slot: SuggestedSlot) {
+    form.setValue("appointmentDate", parse(slot.date, "yyyy-MM-dd", new Date()), { shouldValidate: true });
+    form.setValue("appointmentTime", slot.time, { shouldValidate: true });
+    setScheduleConflict(null);
+  }
 
   useEffect(() => {
     async function loadInitialData() {
@@ -95,11 +117,13 @@ export default function EditAppointmentPage() {
 
         if (appointmentResult.data) {
           const appt = appointmentResult.data;
+          setSeries(appt.seriesId ? { id: appt.seriesId, recurrence: appt.recurrence } : null);
           form.reset({
             patientId: appt.patientId,
             nurseId: appt.nurseId,
             appointmentDate: parseISO(appt.appointmentDate),
             appointmentTime: appt.appointmentTime,
+            durationMinutes: appt.durationMinutes,
             appointmentType: appt.appointmentType,
             status: appt.status,
           });
@@ -122,7 +146,8 @@ export default function EditAppointmentPage() {
     startTransition(async () => {
       // The server action `updateAppointment` expects UpdateAppointmentFormValues
       // which is compatible with ClientAppointmentFormValues here.
-      const result = await updateAppointment(appointmentId, values);
+      const result = await updateAppointment(appointmentId, values, series ? editScope : "this");
+      setScheduleConflict(result.conflicts?.length ? { conflicts: result.conflicts, suggestedSlots: result.suggestedSlots } : null);
       
       if (result.success) {
         toast({
@@ -286,6 +311,70 @@ export default function EditAppointmentPage() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="durationMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration</FormLabel>
+                    <Select onValueChange={value => field.onChange(Number(value))} value={String(field.value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select duration" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {APPOINTMENT_DURATIONS.map(minutes => <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {series && (
+                <div className="space-y-2 rounded-md border p-4">
+                  <p className="text-sm font-medium">
+                    Recurring appointment{series.recurrence ? ` — ${describeRecurrence(series.recurrence)}` : ""}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Apply changes (including cancellation) to:
+                  </p>
+                  <RadioGroup value={editScope} onValueChange={value => setEditScope(value as SeriesEditScope)}>
+                    {seriesEditScopes.map(scope => (
+                      <div key={scope.value} className="flex items-center gap-2">
+                        <RadioGroupItem value={scope.value} id={`scope-${scope.value}`} />
+                        <Label htmlFor={`scope-${scope.value}`}>{scope.label}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  {editScope !== "this" && (
+                    <p className="text-xs text-muted-foreground">
+                      Completed visits are left unchanged. A new date moves every affected visit by the same number of days.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {selectedStatus === "Scheduled" && (
+                <NurseFreeSlots
+                  nurseId={selectedNurseId}
+                  date={selectedDate}
+                  durationMinutes={selectedDuration}
+                  excludeAppointmentId={appointmentId}
+                  selectedTime={selectedTime}
+                  onSelectTime={time => form.setValue("appointmentTime", time, { shouldValidate: true })}
+                />
+              )}
+
+              {scheduleConflict && (
+                <ScheduleConflictAlert
+                  conflicts={scheduleConflict.conflicts}
+                  suggestedSlots={scheduleConflict.suggestedSlots}
+                  onSelectSlot={selectSuggestedSlot}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="appointmentType"
@@ -6,9 +6,10 @@ import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Loader2, AlertCircle, CalendarClock, User, Stethoscope, ListChecks, Edit } from 'lucide-react';
+import { Loader2, AlertCircle, CalendarClock, User, Stethoscope, ListChecks, Edit, Repeat } from 'lucide-react';
 import { fetchAppointmentById, type AppointmentListItem } from '@/app/actions';
 import { format, parseISO } from 'date-fns';
+import { describeRecurrence } from '@/lib/recurrence';
 import Link from 'next/link';
 
 export default function AppointmentDetailsPage() {
@@ -100,8 +101,14 @@ export default function AppointmentDetailsPage() {
             </div>
             <div>
               <p className="text-muted-foreground flex items-center"><CalendarClock className="mr-2 h-4 w-4" />Date & Time:</p>
-              <p className="font-medium text-base">{format(parseISO(appointment.appointmentDate), "PPP")} at {appointment.appointmentTime}</p>
+              <p className="font-medium text-base">{format(parseISO(appointment.appointmentDate), "PPP")} at {appointment.appointmentTime} ({appointment.durationMinutes} min)</p>
             </div>
+            {appointment.seriesId && (
+              <div>
+                <p className="text-muted-foreground flex items-center"><Repeat className="mr-2 h-4 w-4" />Repeats:</p>
+                <p className="font-medium text-base">{appointment.recurrence ? describeRecurrence(appointment.recurrence) : "Part of a recurring series"}</p>
+              </div>
+            )}
             <div>
               <p className="text-muted-foreground flex items-center"><ListChecks className="mr-2 h-4 w-4" />Type:</p>
               <p className="font-medium text-base">{appointment.appointmentType}</p>
@@ -5,7 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useState, useTransition, useEffect } from "react";
-import { format } from "date-fns";
+import { format, parse } from "date-fns";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -28,13 +28,38 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { fetchPatients, fetchNurses, addAppointment, type PatientListItem, type NurseListItem, type AddAppointmentFormValues } from "@/app/actions";
 import { useAuth } from "@/contexts/auth-context";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { NurseFreeSlots, ScheduleConflictAlert } from "@/components/nurse-free-slots";
+import { Checkbox } from "@/components/ui/checkbox";
+import { APPOINTMENT_DURATIONS, DEFAULT_APPOINTMENT_DURATION_MINUTES, WEEKDAYS, type ScheduleConflict, type SuggestedSlot } from "@/lib/availability";
+import { MAX_SERIES_OCCURRENCES, describeRecurrence, expandRecurrence, type RecurrenceRule } from "@/lib/recurrence";
 
 const appointmentFormSchema = z.object({
   patientId: z.string().min(1, { message: "Patient selection is required." }),
   nurseId: z.string().min(1, { message: "Nurse selection is required." }),
   appointmentDate: z.date({ required_error: "Appointment date is required." }),
   appointmentTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, { message: "Invalid time format (HH:MM)."}),
+  durationMinutes: z.number(),
   appointmentType: z.string().min(3, { message: "Appointment type is required." }),
+  repeat: z.enum(["none", "daily", "weekly"]),
+  repeatInterval: z.coerce.number().int().min(1, { message: "Must be at least 1." }).max(52),
+  repeatWeekdays: z.array(z.enum(WEEKDAYS)),
+  repeatEnd: z.enum(["until", "count"]),
+  repeatUntil: z.date().optional(),
+  repeatCount: z.coerce.number().int().min(1).max(MAX_SERIES_OCCURRENCES, { message: `At most ${MAX_SERIES_OCCURRENCES} visits.` }).optional(),
+}).superRefine((values, ctx) => {
+  if (values.repeat === "none") return;
+  if (values.repeat === "weekly" && values.repeatWeekdays.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Select at least one day.", path: ["repeatWeekdays"] });
+  }
+  if (values.repeatEnd === "until" && !values.repeatUntil) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date is required.", path: ["repeatUntil"] });
+  }
+  if (values.repeatEnd === "until" && values.repeatUntil && values.appointmentDate && values.repeatUntil < values.appointmentDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date must be after the first visit.", path: ["repeatUntil"] });
+  }
+  if (values.repeatEnd === "count" && !values.repeatCount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Number of visits is required.", path: ["repeatCount"] });
+  }
 });
 
 // This type is for the client-side form values which includes IDs for patient/nurse
@@ -42,6 +67,17 @@ type ClientAppointmentFormValues = z.infer<typeof appointmentFormSchema>;
 
 const appointmentTypes = ["Check-up", "Medication Review", "Wound Care", "Vitals Check", "Consultation"];
 
+function recurrenceFromForm(values: ClientAppointmentFormValues): RecurrenceRule | undefined {
+  if (values.repeat === "none") return undefined;
+  return {
+    frequency: values.repeat,
+    interval: values.repeatInterval,
+    ...(values.repeat === "weekly" ? { byWeekday: values.repeatWeekdays } : {}),
+    ...(values.repeatEnd === "until" && values.repeatUntil ? { until: format(values.repeatUntil, "yyyy-MM-dd") } : {}),
+    ...(values.repeatEnd === "count" && values.repeatCount ? { count: values.repeatCount } : {}),
+  };
+}
+
 export default function NewAppointmentPage() {
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
@@ -50,6 +86,7 @@ export default function NewAppointmentPage() {
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [dataError, setDataError] = useState<string | null>(null);
   const { currentUser, loading: authLoading } = useAuth();
+  const [scheduleConflict, setScheduleConflict] = useState<{ conflicts: ScheduleConflict[]; suggestedSlots?: SuggestedSlot[] } | null>(null);
 
   useEffect(() => {
     async function loadInitialData() {
@@ -87,22 +124,45 @@ export default function NewAppointmentPage() {
       nurseId: "",
       appointmentDate: undefined,
       appointmentTime: "",
+      durationMinutes: DEFAULT_APPOINTMENT_DURATION_MINUTES,
       appointmentType: "",
+      repeat: "none",
+      repeatInterval: 1,
+      repeatWeekdays: [],
+      repeatEnd: "count",
+      repeatUntil: undefined,
+      repeatCount: 10,
     },
   });
+  const [selectedNurseId, selectedDate, selectedDuration, selectedTime, repeat, repeatEnd] = form.watch(["nurseId", "appointmentDate", "durationMinutes", "appointmentTime", "repeat", "repeatEnd"]);
+  const watchedValues = form.watch();
+  const previewRule = recurrenceFromForm(watchedValues);
+  const recurrencePreview = previewRule && watchedValues.appointmentDate && (previewRule.until || previewRule.count)
+    ? { description: describeRecurrence(previewRule), occurrences: expandRecurrence(previewRule, watchedValues.appointmentDate).length }
+    : null;
+
+  function selectSuggestedSlot(slot: SuggestedSlot) {
+    form.setValue("appointmentDate", parse(slot.date, "yyyy-MM-dd", new Date()), { shouldValidate: true });
+    form.setValue("appointmentTime", slot.time, { shouldValidate: true });
+    setScheduleConflict(null);
+  }
 
   function onSubmit(values: ClientAppointmentFormValues) {
     startTransition(async () => {
       // The server action 'addAppointment' expects AddAppointmentFormValues
       // which includes patientId and nurseId.
-      const result = await addAppointment(values);
+      const { repeat: _repeat, repeatInterval, repeatWeekdays, repeatEnd: _repeatEnd, repeatUntil, repeatCount, ...appointmentValues } = values;
+      const result = await addAppointment({ ...appointmentValues, recurrence: recurrenceFromForm(values) });
+      setScheduleConflict(result.conflicts?.length ? { conflicts: result.conflicts, suggestedSlots: result.suggestedSlots } : null);
       
       if (result.success) {
         const selectedPatient = patients.find(p => p.id === values.patientId);
         const selectedNurse = nurses.find(n => n.id === values.nurseId);
         toast({
           title: "Appointment Scheduled",
-          description: `Appointment for ${selectedPatient?.name || 'Selected Patient'} with ${selectedNurse?.name || 'Selected Nurse'} on ${format(values.appointmentDate, "PPP")} at ${values.appointmentTime} has been scheduled.`,
+          description: result.seriesId
+            ? `${result.message} Patient: ${selectedPatient?.name || 'Selected Patient'}, nurse: ${selectedNurse?.name || 'Selected Nurse'}, at ${values.appointmentTime}.`
+            : `Appointment for ${selectedPatient?.name || 'Selected Patient'} with ${selectedNurse?.name || 'Selected Nurse'} on ${format(values.appointmentDate, "PPP")} at ${values.appointmentTime} has been scheduled.`,
         });
         form.reset();
 
@@ -266,6 +326,181 @@ export default function NewAppointmentPage() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="durationMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration</FormLabel>
+                    <Select onValueChange={value => field.onChange(Number(value))} value={String(field.value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select duration" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {APPOINTMENT_DURATIONS.map(minutes => <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="repeat"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Does not repeat</SelectItem>
+                            <SelectItem value="daily">Daily</SelectItem>
+                            <SelectItem value="weekly">Weekly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {repeat !== "none" && (
+                    <FormField
+                      control={form.control}
+                      name="repeatInterval"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Every</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} max={52} {...field} />
+                          </FormControl>
+                          <FormDescription>{repeat === "daily" ? "day(s)" : "week(s)"}</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                {repeat === "weekly" && (
+                  <FormField
+                    control={form.control}
+                    name="repeatWeekdays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>On</FormLabel>
+                        <div className="flex flex-wrap gap-4">
+                          {WEEKDAYS.map(day => (
+                            <label key={day} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(day)}
+                                onCheckedChange={checked => field.onChange(checked ? [...field.value, day] : field.value.filter(d => d !== day))}
+                              />
+                              {day.charAt(0).toUpperCase() + day.slice(1, 3)}
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {repeat !== "none" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="repeatEnd"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ends</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="count">After a number of visits</SelectItem>
+                              <SelectItem value="until">On a date</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {repeatEnd === "count" ? (
+                      <FormField
+                        control={form.control}
+                        name="repeatCount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Number of visits</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={1} max={MAX_SERIES_OCCURRENCES} {...field} value={field.value ?? ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ) : (
+                      <FormField
+                        control={form.control}
+                        name="repeatUntil"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-col">
+                            <FormLabel>End date</FormLabel>
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <FormControl>
+                                  <Button variant={"outline"} className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}>
+                                    {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                                    <CalendarIconLucide className="ml-auto h-4 w-4 opacity-50" />
+                                  </Button>
+                                </FormControl>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-auto p-0" align="start">
+                                <Calendar mode="single" selected={field.value} onSelect={field.onChange} disabled={(date) => !!selectedDate && date < selectedDate} initialFocus />
+                              </PopoverContent>
+                            </Popover>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {recurrencePreview && (
+                  <p className="text-sm text-muted-foreground">
+                    {recurrencePreview.description} — {recurrencePreview.occurrences} visit{recurrencePreview.occurrences === 1 ? "" : "s"}. Every visit is checked against the nurse&apos;s calendar.
+                  </p>
+                )}
+              </div>
+
+              <NurseFreeSlots
+                nurseId={selectedNurseId}
+                date={selectedDate}
+                durationMinutes={selectedDuration}
+                selectedTime={selectedTime}
+                onSelectTime={time => form.setValue("appointmentTime", time, { shouldValidate: true })}
+              />
+
+              {scheduleConflict && (
+                <ScheduleConflictAlert
+                  conflicts={scheduleConflict.conflicts}
+                  suggestedSlots={scheduleConflict.suggestedSlots}
+                  onSelectSlot={selectSuggestedSlot}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="appointmentType"
@@ -3,16 +3,22 @@
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar as CalendarIconLucide, PlusCircle, Clock, User, Loader2, AlertCircle } from "lucide-react";
+import { Calendar as CalendarIconLucide, PlusCircle, Clock, User, Loader2, AlertCircle, Repeat, XCircle } from "lucide-react";
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
-import React, { useState, useMemo, useEffect, useCallback } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import React, { Suspense, useState, useMemo, useEffect } from "react";
 import { format, parseISO, isSameDay } from "date-fns";
-import type { AppointmentListItem } from "@/app/actions";
-import { fetchAppointments } from "@/app/actions";
+import type { AppointmentListItem, NurseListItem } from "@/app/actions";
+import { fetchAppointments, fetchNurses } from "@/app/actions";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ListPagination } from "@/components/list-pagination";
 import { useAuth } from "@/contexts/auth-context";
+import { useListParams } from "@/hooks/use-list-params";
+import { APPOINTMENT_STATUSES, DEFAULT_PAGE_SIZE, SORT_DIRECTIONS, dateRangeFromParams, enumFromParam } from "@/lib/list-query";
 
 type AppointmentStatus = 'Scheduled' | 'Completed' | 'Cancelled';
 
@@ -43,56 +49,84 @@ const getStatusBadgeClassNames = (status: AppointmentStatus) => {
 }
 
 
+const ALL = "all"; // Select items cannot have an empty value
+
 export default function AppointmentsPage() {
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  // useListParams reads the URL query string, which needs a Suspense boundary.
+  return (
+    <Suspense fallback={<AppointmentsLoading message="Loading appointments..." />}>
+      <AppointmentsList />
+    </Suspense>
+  );
+}
+
+function AppointmentsLoading({ message }: { message: string }) {
+  return (
+    <div className="flex items-center justify-center h-64">
+      <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+      <p>{message}</p>
+    </div>
+  );
+}
+
+function AppointmentsList() {
   const [appointments, setAppointments] = useState<AppointmentListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [nurses, setNurses] = useState<NurseListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { currentUser, loading: authLoading } = useAuth();
+  const { params, cursor, queryKey, setParams, nextPage, previousPage, hasPreviousPage, pageNumber } =
+    useListParams(["status", "nurse", "from", "to", "sort"] as const);
 
-  const loadAppointments = useCallback(async () => {
+  // Picking a day on the calendar filters the list to that day.
+  const selectedDate = params.from && params.from === params.to ? parseISO(params.from) : undefined;
+  const hasFilters = Boolean(params.status || params.nurse || params.from || params.to || params.sort);
+
+  useEffect(() => {
+    if (authLoading || !currentUser) return;
+    fetchNurses({ includeArchived: true }).then(result => setNurses(result.data || []));
+  }, [authLoading, currentUser]);
+
+  useEffect(() => {
+    if (authLoading) return;
     if (!currentUser) {
       setError("Please log in to view appointments.");
       setIsLoading(false);
       setAppointments([]);
       return;
     }
+
+    let cancelled = false;
     setIsLoading(true);
     setError(null);
-    try {
-      const result = await fetchAppointments();
-      if (result.data) {
-        setAppointments(result.data);
-      } else {
-        setError(result.error || "Failed to load appointments.");
-        setAppointments([]); // Ensure appointments is empty on error
-      }
-    } catch (e: any) {
+    fetchAppointments({
+      pageSize: DEFAULT_PAGE_SIZE,
+      cursor,
+      status: enumFromParam(APPOINTMENT_STATUSES, params.status),
+      nurseId: params.nurse || undefined,
+      sortDirection: enumFromParam(SORT_DIRECTIONS, params.sort),
+      ...dateRangeFromParams(params.from, params.to),
+    }).then(result => {
+      if (cancelled) return;
+      setAppointments(result.data || []);
+      setNextCursor(result.nextCursor ?? null);
+      setError(result.data && !result.error ? null : result.error || "Failed to load appointments.");
+      setIsLoading(false);
+    }).catch((e: any) => {
+      if (cancelled) return;
       setError(e.message || "An unexpected error occurred.");
-      setAppointments([]); // Ensure appointments is empty on exception
-    } finally {
+      setAppointments([]);
       setIsLoading(false);
-    }
-  }, [currentUser]);
-
-  useEffect(() => {
-    if (!authLoading) {
-        loadAppointments();
-    }
-  }, [authLoading, loadAppointments]);
+    });
+    return () => { cancelled = true; };
+    // queryKey covers every URL parameter read above.
+  }, [authLoading, currentUser, queryKey]);
 
   const appointmentDates = useMemo(() => {
     return appointments.map(appt => parseISO(appt.appointmentDate));
   }, [appointments]);
 
-  const selectedDayAppointments = useMemo(() => {
-    if (!selectedDate) return [];
-    return appointments.filter(appt => {
-      const apptDate = parseISO(appt.appointmentDate);
-      return isSameDay(apptDate, selectedDate);
-    });
-  }, [selectedDate, appointments]);
-
   const modifiers = {
     hasAppointment: (date: Date) => appointmentDates.some(apptDate => isSameDay(date, apptDate)),
   };
@@ -113,13 +147,13 @@ export default function AppointmentsPage() {
     selected: selectedDate, 
   };
 
+  const handleSelectDate = (date: Date | undefined) => {
+    const day = date ? format(date, "yyyy-MM-dd") : "";
+    setParams({ from: day, to: day });
+  };
+
   if (authLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
-        <p>Authenticating...</p>
-      </div>
-    );
+    return <AppointmentsLoading message="Authenticating..." />;
   }
 
   return (
@@ -141,7 +175,9 @@ export default function AppointmentsPage() {
           <Card className="shadow-lg">
             <CardHeader>
               <CardTitle>Upcoming & Past Appointments</CardTitle>
-              <CardDescription>A log of all scheduled and completed appointments.</CardDescription>
+              <CardDescription>
+                {selectedDate ? `Appointments on ${format(selectedDate, "PPP")}.` : "A log of all scheduled and completed appointments."}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               {isLoading && (
@@ -161,7 +197,9 @@ export default function AppointmentsPage() {
                     <CalendarIconLucide className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
                     <h3 className="text-xl font-semibold mb-2">No Appointments</h3>
                     <p className="text-muted-foreground">
-                    There are no upcoming or past appointments. Use the button above to schedule one.
+                    {hasFilters
+                      ? "No appointments match these filters."
+                      : "There are no upcoming or past appointments. Use the button above to schedule one."}
                     </p>
                 </div>
               )}
@@ -187,6 +225,7 @@ export default function AppointmentsPage() {
                     <div className="flex items-center gap-2">
                       <CalendarIconLucide className="h-4 w-4" /> {format(parseISO(appt.appointmentDate), "PPP")}
                       <Clock className="h-4 w-4 ml-2" /> {appt.appointmentTime}
+                      {appt.seriesId && <Repeat className="h-4 w-4 ml-2" aria-label="Recurring" />}
                     </div>
                     <Button variant="outline" size="sm" asChild>
                         <Link href={`/appointments/${appt.id}`}>Details</Link>
@@ -194,20 +233,83 @@ export default function AppointmentsPage() {
                   </CardContent>
                 </Card>
               ))}
+              <ListPagination
+                pageNumber={pageNumber}
+                itemCount={appointments.length}
+                hasPreviousPage={hasPreviousPage}
+                nextCursor={nextCursor}
+                isLoading={isLoading}
+                onPrevious={previousPage}
+                onNext={nextPage}
+              />
             </CardContent>
           </Card>
         </div>
         <div className="lg:col-span-1 space-y-6"> 
+          <Card className="shadow-md">
+            <CardHeader>
+              <CardTitle>Filters</CardTitle>
+              <CardDescription>Filtered views can be bookmarked.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={params.status || ALL} onValueChange={value => setParams({ status: value === ALL ? "" : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    {APPOINTMENT_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Nurse</Label>
+                <Select value={params.nurse || ALL} onValueChange={value => setParams({ nurse: value === ALL ? "" : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All nurses</SelectItem>
+                    {nurses.map(nurse => <SelectItem key={nurse.id} value={nurse.id}>{nurse.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="appointments-from">From</Label>
+                  <Input id="appointments-from" type="date" value={params.from} onChange={e => setParams({ from: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="appointments-to">To</Label>
+                  <Input id="appointments-to" type="date" value={params.to} onChange={e => setParams({ to: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Order</Label>
+                <Select value={params.sort || "desc"} onValueChange={value => setParams({ sort: value === "desc" ? "" : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="desc">Latest date first</SelectItem>
+                    <SelectItem value="asc">Earliest date first</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={() => setParams({ status: "", nurse: "", from: "", to: "", sort: "" })}>
+                  <XCircle className="mr-2 h-4 w-4" /> Clear filters
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="shadow-md">
             <CardHeader>
               <CardTitle>Calendar View</CardTitle>
-              <CardDescription>Select a date to see appointments.</CardDescription>
+              <CardDescription>Select a date to see its appointments.</CardDescription>
             </CardHeader>
             <CardContent className="flex flex-col items-center"> 
               <Calendar
                 mode="single"
                 selected={selectedDate}
-                onSelect={setSelectedDate}
+                onSelect={handleSelectDate}
                 className="rounded-md border"
                 modifiers={combinedModifiers}
                 modifiersStyles={modifiersStyles}
@@ -215,35 +317,6 @@ export default function AppointmentsPage() {
               />
             </CardContent>
           </Card>
-
-          {selectedDate && (
-            <Card className="shadow-md">
-              <CardHeader>
-                <CardTitle>Appointments for {format(selectedDate, "PPP")}</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {selectedDayAppointments.length > 0 ? (
-                  selectedDayAppointments.map(appt => (
-                    <Card key={appt.id} className="text-sm">
-                      <CardContent className="p-3">
-                        <p className="font-semibold">{appt.appointmentType} - {appt.appointmentTime}</p>
-                        <p>Patient: {appt.patientName}</p>
-                        <p>Nurse: {appt.nurseName}</p>
-                        <Badge 
-                            variant={getStatusBadgeVariant(appt.status as AppointmentStatus)}
-                            className={`mt-1 ${getStatusBadgeClassNames(appt.status as AppointmentStatus)}`}
-                        >
-                            {appt.status}
-                        </Badge>
-                      </CardContent>
-                    </Card>
-                  ))
-                ) : (
-                  <p className="text-muted-foreground">No appointments scheduled for this day.</p>
-                )}
-              </CardContent>
-            </Card>
-          )}
         </div>
       </div>
     </div>
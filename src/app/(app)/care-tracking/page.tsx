@@ -2,21 +2,22 @@
 "use client";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { ListChecks, Activity, FileClock, PlusCircle, ListFilter, Loader2, AlertCircle, Eye, Edit, XCircle, Trash2 } from "lucide-react";
+import { ListChecks, Activity, FileClock, PlusCircle, ListFilter, Loader2, AlertCircle, Eye, Edit, XCircle, Ban, History, WifiOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import React, { useState, useEffect, useCallback } from "react";
+import React, { Suspense, useState, useEffect, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/auth-context";
 import type { CareLogItem, PatientListItem, AddCareLogFormValues, UpdateCareLogFormValues } from "@/app/actions";
-import { fetchCareLogs, fetchPatients, addCareLog, updateCareLog, deleteCareLog } from "@/app/actions";
+import { fetchCareLogs, fetchPatients, addCareLog, updateCareLog, markCareLogEnteredInError, fetchCareLogRevisions } from "@/app/actions";
 import { format, parseISO } from "date-fns";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -32,33 +33,87 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import type { ForbiddenError } from "@/lib/authz";
+import {
+  VITAL_SIGN_DEFINITIONS, VitalSignsSchema, vitalSignsFromInput, vitalSignsToInput, hasVitalSigns, formatVitalSign, formatBloodPressure,
+} from "@/lib/vitals";
+import type { CareLogVersion } from "@/lib/care-logs";
+import { DEFAULT_PAGE_SIZE, SORT_DIRECTIONS, dateRangeFromParams, enumFromParam } from "@/lib/list-query";
+import { ListPagination } from "@/components/list-pagination";
+import { useListParams } from "@/hooks/use-list-params";
+import { useOnlineStatus } from "@/hooks/use-outbox";
+import { addOutboxItem, readOutboxCache, saveOutboxCache } from "@/lib/outbox";
+import { PendingCareLogs } from "@/components/pending-care-logs";
 
 
 const careLogFormSchema = z.object({
   patientId: z.string().min(1, { message: "Patient selection is required." }),
   careType: z.string().min(1, { message: "Type of care is required." }),
   careDateTime: z.string().refine((val) => !isNaN(Date.parse(val)), { message: "Valid date and time are required."}),
-  notes: z.string().min(3, { message: "Notes must be at least 3 characters." }),
+  notes: z.string(),
+  vitals: z.record(z.string()),
+  amendmentReason: z.string(), // required when amending, checked on submit
+}).superRefine((values, ctx) => {
+  const vitals = vitalSignsFromInput(values.vitals);
+  const parsedVitals = VitalSignsSchema.safeParse(vitals);
+  if (!parsedVitals.success) {
+    parsedVitals.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ["vitals", ...issue.path] }));
+  }
+  if (values.notes.trim().length < 3 && !hasVitalSigns(vitals)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Notes must be at least 3 characters when no vitals are recorded.", path: ["notes"] });
+  }
+  if (values.careType === "Vitals Check" && !hasVitalSigns(vitals)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Record at least one vital sign for a vitals check.", path: ["careType"] });
+  }
 });
 
 type ClientCareLogFormValues = z.infer<typeof careLogFormSchema>;
 
 const careTypes = ["Vitals Check", "Medication Administered", "Wound Care", "General Observation", "Physical Therapy", "Consultation Note", "Personal Care", "Emergency Response"];
 
+const ALL = "all"; // Select items cannot have an empty value
+
 export default function CareTrackingPage() {
+  // useListParams reads the URL query string, which needs a Suspense boundary.
+  return (
+    <Suspense fallback={<CareTrackingLoading />}>
+      <CareTracking />
+    </Suspense>
+  );
+}
+
+function CareTrackingLoading() {
+  return (
+    <div className="flex items-center justify-center h-64">
+      <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+      <p>Loading authentication...</p>
+    </div>
+  );
+}
+
+function CareTracking() {
   const [careLogs, setCareLogs] = useState<CareLogItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [patients, setPatients] = useState<PatientListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [formIsLoading, setFormIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
   const { currentUser, loading: authLoading } = useAuth();
   const { toast } = useToast();
+  const isOnline = useOnlineStatus();
+  const { params, cursor, queryKey, setParams, nextPage, previousPage, hasPreviousPage, pageNumber } =
+    useListParams(["patient", "type", "from", "to", "sort"] as const);
+  const hasFilters = Boolean(params.patient || params.type || params.from || params.to || params.sort);
+  const [showFilters, setShowFilters] = useState(hasFilters);
 
   const [selectedLogForView, setSelectedLogForView] = useState<CareLogItem | null>(null);
   const [isViewLogDialogOpen, setIsViewLogDialogOpen] = useState(false);
   const [editingLogId, setEditingLogId] = useState<string | null>(null);
-  const [logToDeleteId, setLogToDeleteId] = useState<string | null>(null);
-  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [logToStrike, setLogToStrike] = useState<CareLogItem | null>(null);
+  const [strikeReason, setStrikeReason] = useState("");
+  const [logRevisions, setLogRevisions] = useState<CareLogVersion[] | null>(null);
 
 
   const defaultFormValues = {
@@ -66,6 +121,8 @@ export default function CareTrackingPage() {
     careType: "",
     careDateTime: new Date().toISOString().substring(0, 16), // Format for datetime-local
     notes: "",
+    vitals: vitalSignsToInput(undefined),
+    amendmentReason: "",
   };
 
   const form = useForm<ClientCareLogFormValues>({
@@ -83,16 +140,45 @@ export default function CareTrackingPage() {
     }
     setIsLoading(true);
     setError(null);
+    setForbiddenError(null);
+    // Offline, new care logs can still be written for the patients of the last visit online.
+    const patientsCacheKey = `patients:${currentUser.uid}`;
+    if (!isOnline) {
+      const cachedPatients = await readOutboxCache<PatientListItem[]>(patientsCacheKey).catch(() => undefined);
+      setPatients(cachedPatients ?? []);
+      setCareLogs([]);
+      setNextCursor(null);
+      setIsLoading(false);
+      return;
+    }
     try {
       const [logsResult, patientsResult] = await Promise.all([
-        fetchCareLogs(), 
+        fetchCareLogs({
+          pageSize: DEFAULT_PAGE_SIZE,
+          cursor,
+          patientId: params.patient || undefined,
+          careType: params.type || undefined,
+          sortDirection: enumFromParam(SORT_DIRECTIONS, params.sort),
+          ...dateRangeFromParams(params.from, params.to),
+        }),
         fetchPatients()
       ]);
 
-      if (logsResult.data) setCareLogs(logsResult.data);
+      if (patientsResult.forbidden) {
+        setForbiddenError(patientsResult.forbidden);
+        return;
+      }
+
+      if (logsResult.data) {
+        setCareLogs(logsResult.data);
+        setNextCursor(logsResult.nextCursor ?? null);
+      }
       else setError(prev => `${prev ? prev + " " : ""}Failed to load care logs: ${logsResult.error || 'Unknown error'}`);
       
-      if (patientsResult.data) setPatients(patientsResult.data);
+      if (patientsResult.data) {
+        setPatients(patientsResult.data);
+        saveOutboxCache(patientsCacheKey, patientsResult.data).catch(() => {});
+      }
       else setError(prev => `${prev ? prev + " " : ""}Failed to load patients: ${patientsResult.error || 'Unknown error'}`);
 
     } catch (e: any) {
@@ -100,7 +186,8 @@ export default function CareTrackingPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser]);
+    // queryKey covers every URL parameter read above.
+  }, [currentUser, queryKey, isOnline]);
 
   useEffect(() => {
     if(!authLoading){
@@ -113,33 +200,85 @@ export default function CareTrackingPage() {
       toast({ variant: "destructive", title: "Not Authenticated", description: "Please log in." });
       return;
     }
+    const { amendmentReason, ...logValues } = values;
+    if (editingLogId && amendmentReason.trim().length < 3) {
+      form.setError("amendmentReason", { message: "Please explain why this care log is being amended." });
+      return;
+    }
+    if (editingLogId && !isOnline) {
+      toast({ variant: "destructive", title: "Failed to Amend Log", description: "Amendments need a connection." });
+      return;
+    }
     setFormIsLoading(true);
     const actionValues: AddCareLogFormValues = { // Also compatible with UpdateCareLogFormValues
-      ...values,
+      ...logValues,
       careDateTime: new Date(values.careDateTime), 
+      vitals: vitalSignsFromInput(values.vitals),
     };
+    const loggedByName = currentUser.displayName || currentUser.email || "Unknown User";
+    if (!editingLogId && !isOnline) {
+      await saveCareLogOffline(currentUser.uid, actionValues, loggedByName);
+      return;
+    }
 
     let result;
-    if (editingLogId) {
-      result = await updateCareLog(editingLogId, actionValues);
-    } else {
-      result = await addCareLog(actionValues, currentUser.displayName || currentUser.email || "Unknown User");
+    try {
+      if (editingLogId) {
+        result = await updateCareLog(editingLogId, actionValues, amendmentReason);
+      } else {
+        result = await addCareLog(actionValues, loggedByName);
+      }
+    } catch (e: any) {
+      // The server could not be reached: a new care log waits in the outbox instead.
+      if (!editingLogId) {
+        await saveCareLogOffline(currentUser.uid, actionValues, loggedByName);
+        return;
+      }
+      result = { success: false, message: `Failed to amend care log: ${e.message}` };
     }
     
     if (result.success) {
-      toast({ title: editingLogId ? "Care Log Updated" : "Care Log Added", description: result.message });
+      toast({ title: editingLogId ? "Care Log Amended" : "Care Log Added", description: result.message });
       form.reset(defaultFormValues);
       setEditingLogId(null);
       loadData(); // Refresh logs
     } else {
-      toast({ variant: "destructive", title: editingLogId ? "Failed to Update Log" : "Failed to Add Log", description: result.message });
+      toast({ variant: "destructive", title: editingLogId ? "Failed to Amend Log" : "Failed to Add Log", description: result.message });
     }
     setFormIsLoading(false);
   }
   
+  // Queues a new care log in the outbox (lib/outbox.ts), which sends it when the connection is back.
+  async function saveCareLogOffline(uid: string, values: AddCareLogFormValues, loggedByName: string) {
+    const patientName = patients.find(p => p.id === values.patientId)?.name ?? "N/A";
+    try {
+      await addOutboxItem(uid, "careLog", { values, loggedByName, patientName });
+      toast({ title: "Care Log Saved Offline", description: "It is saved on this device and will be sent when the connection is back." });
+      form.reset(defaultFormValues);
+    } catch (e: any) {
+      toast({ variant: "destructive", title: "Failed to Add Log", description: `The care log could not be saved on this device: ${e.message}` });
+    } finally {
+      setFormIsLoading(false);
+    }
+  }
+
+  const handleEditPendingLog = (values: AddCareLogFormValues) => {
+    setEditingLogId(null);
+    form.reset({
+      patientId: values.patientId,
+      careType: values.careType,
+      careDateTime: format(values.careDateTime, "yyyy-MM-dd'T'HH:mm"),
+      notes: values.notes,
+      vitals: vitalSignsToInput(values.vitals),
+      amendmentReason: "",
+    });
+  };
+
   const handleViewLog = (log: CareLogItem) => {
     setSelectedLogForView(log);
     setIsViewLogDialogOpen(true);
+    setLogRevisions(null);
+    fetchCareLogRevisions(log.id).then(result => setLogRevisions(result.data || []));
   };
 
   const handleEditLog = (log: CareLogItem) => {
@@ -151,6 +290,8 @@ export default function CareTrackingPage() {
       careType: log.careType,
       careDateTime: formattedCareDate,
       notes: log.notes,
+      vitals: vitalSignsToInput(log.vitals),
+      amendmentReason: "",
     });
   };
 
@@ -159,34 +300,28 @@ export default function CareTrackingPage() {
     form.reset(defaultFormValues);
   };
 
-  const handleDeleteLog = (logId: string) => {
-    setLogToDeleteId(logId);
-    setIsDeleteConfirmOpen(true);
+  const handleStrikeLog = (log: CareLogItem) => {
+    setLogToStrike(log);
+    setStrikeReason("");
   };
 
-  const confirmDelete = async () => {
-    if (!logToDeleteId) return;
-    setFormIsLoading(true); // Can reuse formIsLoading or add a specific one for delete
-    const result = await deleteCareLog(logToDeleteId);
+  const confirmStrike = async () => {
+    if (!logToStrike) return;
+    setFormIsLoading(true); // Can reuse formIsLoading or add a specific one for the strike
+    const result = await markCareLogEnteredInError(logToStrike.id, strikeReason);
     if (result.success) {
-        toast({ title: "Care Log Deleted", description: result.message });
+        toast({ title: "Care Log Struck", description: result.message });
+        setLogToStrike(null);
         loadData(); // Refresh logs
     } else {
-        toast({ variant: "destructive", title: "Failed to Delete Log", description: result.message });
+        toast({ variant: "destructive", title: "Failed to Strike Log", description: result.message });
     }
     setFormIsLoading(false);
-    setIsDeleteConfirmOpen(false);
-    setLogToDeleteId(null);
   };
 
 
   if (authLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
-        <p>Loading authentication...</p>
-      </div>
-    );
+    return <CareTrackingLoading />;
   }
 
   return (
@@ -196,6 +331,18 @@ export default function CareTrackingPage() {
         <p className="text-muted-foreground">Record vitals, treatments, and follow-up logs for patients.</p>
       </div>
 
+      {forbiddenError && <ForbiddenAlert error={forbiddenError} />}
+
+      {!isOnline && (
+        <Alert>
+          <WifiOff className="h-4 w-4" />
+          <AlertTitle>You are offline</AlertTitle>
+          <AlertDescription>
+            New care logs are saved on this device and sent when the connection is back. Past logs, amendments and corrections need a connection.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {error && !isLoading && ( 
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -214,7 +361,7 @@ export default function CareTrackingPage() {
             <div className="md:col-span-1 space-y-4 p-4 border rounded-lg shadow-sm bg-card">
               <h3 className="text-lg font-semibold flex items-center">
                 {editingLogId ? <Edit className="mr-2 h-5 w-5 text-primary" /> : <PlusCircle className="mr-2 h-5 w-5 text-primary" />}
-                {editingLogId ? "Edit Care Activity" : "Log New Care Activity"}
+                {editingLogId ? "Amend Care Activity" : "Log New Care Activity"}
               </h3>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3">
@@ -265,19 +412,55 @@ export default function CareTrackingPage() {
                       </FormItem>
                     )}
                   />
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Vital Signs <span className="text-muted-foreground font-normal">(optional)</span></p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {VITAL_SIGN_DEFINITIONS.map(def => (
+                        <FormField
+                          key={def.key}
+                          control={form.control}
+                          name={`vitals.${def.key}`}
+                          render={({ field }) => (
+                            <FormItem className="space-y-1">
+                              <FormLabel htmlFor={`vital-${def.key}`} className="text-xs">{def.label} ({def.unit})</FormLabel>
+                              <FormControl>
+                                <Input type="number" inputMode="decimal" id={`vital-${def.key}`} min={def.min} max={def.max} step={def.step} {...field} value={field.value ?? ""} />
+                              </FormControl>
+                              <FormMessage className="text-xs" />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  </div>
                   <FormField
                     control={form.control}
                     name="notes"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel htmlFor="notes">Notes / Vitals</FormLabel>
+                        <FormLabel htmlFor="notes">Notes</FormLabel>
                         <FormControl>
-                          <Textarea id="notes" placeholder="Enter details, observations, vitals..." rows={4} {...field} />
+                          <Textarea id="notes" placeholder="Enter details and observations..." rows={4} {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  {editingLogId && (
+                    <FormField
+                      control={form.control}
+                      name="amendmentReason"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel htmlFor="amendment-reason">Reason for Amendment</FormLabel>
+                          <FormControl>
+                            <Textarea id="amendment-reason" placeholder="e.g. Wrong blood pressure transcribed" rows={2} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <div className="flex gap-2">
                     {editingLogId && (
                         <Button type="button" variant="outline" onClick={handleCancelEdit} className="w-1/2">
@@ -286,7 +469,7 @@ export default function CareTrackingPage() {
                     )}
                     <Button type="submit" className="w-full" disabled={formIsLoading || isLoading}>
                         {formIsLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        {editingLogId ? "Update Care Log" : "Add Care Log"}
+                        {editingLogId ? "Save Amendment" : "Add Care Log"}
                     </Button>
                   </div>
                 </form>
@@ -295,17 +478,65 @@ export default function CareTrackingPage() {
             <div className="md:col-span-2">
               <div className="flex justify-between items-center mb-3">
                 <h3 className="text-lg font-semibold">Recent Care Logs</h3>
-                <Button variant="outline" size="sm"><ListFilter className="mr-2 h-4 w-4" /> Filter Logs</Button>
+                <Button variant="outline" size="sm" onClick={() => setShowFilters(show => !show)}><ListFilter className="mr-2 h-4 w-4" /> Filter Logs</Button>
               </div>
+              <PendingCareLogs uid={currentUser?.uid} onEdit={handleEditPendingLog} />
+              {showFilters && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4 p-3 border rounded-lg">
+                  <div className="space-y-1">
+                    <Label>Patient</Label>
+                    <Select value={params.patient || ALL} onValueChange={value => setParams({ patient: value === ALL ? "" : value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All patients</SelectItem>
+                        {patients.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type of Care</Label>
+                    <Select value={params.type || ALL} onValueChange={value => setParams({ type: value === ALL ? "" : value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All types</SelectItem>
+                        {careTypes.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Order</Label>
+                    <Select value={params.sort || "desc"} onValueChange={value => setParams({ sort: value === "desc" ? "" : value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="desc">Latest first</SelectItem>
+                        <SelectItem value="asc">Earliest first</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="care-logs-from">From</Label>
+                    <Input id="care-logs-from" type="date" value={params.from} onChange={e => setParams({ from: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="care-logs-to">To</Label>
+                    <Input id="care-logs-to" type="date" value={params.to} onChange={e => setParams({ to: e.target.value })} />
+                  </div>
+                  {hasFilters && (
+                    <Button variant="ghost" size="sm" className="self-end" onClick={() => setParams({ patient: "", type: "", from: "", to: "", sort: "" })}>
+                      <XCircle className="mr-2 h-4 w-4" /> Clear filters
+                    </Button>
+                  )}
+                </div>
+              )}
               {isLoading && (
                 <div className="flex items-center justify-center p-8"><Loader2 className="mr-2 h-6 w-6 animate-spin" /> Loading logs...</div>
               )}
               {!isLoading && !error && careLogs.length === 0 && (
                 <div className="p-8 text-center bg-muted rounded-md mt-4">
                     <Activity className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-                    <h3 className="text-xl font-semibold mb-2">No Care Logs Yet</h3>
+                    <h3 className="text-xl font-semibold mb-2">{hasFilters ? "No Matching Care Logs" : "No Care Logs Yet"}</h3>
                     <p className="text-muted-foreground">
-                    Start by adding a new care activity using the form.
+                    {hasFilters ? "No care logs match these filters." : "Start by adding a new care activity using the form."}
                     </p>
                 </div>
                )}
@@ -323,21 +554,29 @@ export default function CareTrackingPage() {
                     </TableHeader>
                     <TableBody>
                       {careLogs.map(log => (
-                        <TableRow key={log.id}>
-                          <TableCell className="font-medium">{log.patientName}</TableCell>
-                          <TableCell>{format(parseISO(log.careDate), "PPpp")}</TableCell>
-                          <TableCell><Badge variant="secondary">{log.careType}</Badge></TableCell>
+                        <TableRow key={log.id} className={log.enteredInError ? "text-muted-foreground" : undefined}>
+                          <TableCell className={`font-medium ${log.enteredInError ? "line-through" : ""}`}>{log.patientName}</TableCell>
+                          <TableCell className={log.enteredInError ? "line-through" : undefined}>{format(parseISO(log.careDate), "PPpp")}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className={log.enteredInError ? "line-through" : undefined}>{log.careType}</Badge>
+                            {log.enteredInError && <Badge variant="destructive" className="ml-1">Entered in error</Badge>}
+                            {!log.enteredInError && log.version > 1 && <Badge variant="outline" className="ml-1">Amended (v{log.version})</Badge>}
+                          </TableCell>
                           <TableCell className="hidden sm:table-cell">{log.loggedBy}</TableCell>
                           <TableCell className="text-right space-x-1">
-                              <Button variant="ghost" size="icon" onClick={() => handleViewLog(log)} title="View Details">
+                              <Button variant="ghost" size="icon" onClick={() => handleViewLog(log)} title="View Details and History">
                                 <Eye className="h-4 w-4" />
                               </Button>
-                              <Button variant="ghost" size="icon" onClick={() => handleEditLog(log)} title="Edit Log">
-                                <Edit className="h-4 w-4" />
-                              </Button>
-                              <Button variant="ghost" size="icon" onClick={() => handleDeleteLog(log.id)} title="Delete Log" className="text-destructive hover:text-destructive/80">
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {!log.enteredInError && (
+                                <>
+                                  <Button variant="ghost" size="icon" onClick={() => handleEditLog(log)} title="Amend Log">
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="icon" onClick={() => handleStrikeLog(log)} title="Mark as Entered in Error" className="text-destructive hover:text-destructive/80">
+                                    <Ban className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -345,6 +584,15 @@ export default function CareTrackingPage() {
                   </Table>
                 </div>
               )}
+              <ListPagination
+                pageNumber={pageNumber}
+                itemCount={careLogs.length}
+                hasPreviousPage={hasPreviousPage}
+                nextCursor={nextCursor}
+                isLoading={isLoading}
+                onPrevious={previousPage}
+                onNext={nextPage}
+              />
             </div>
           </div>
         </CardContent>
@@ -360,16 +608,66 @@ export default function CareTrackingPage() {
               </AlertDialogDescription>
             </AlertDialogHeader>
             <div className="space-y-3 text-sm py-4 max-h-[60vh] overflow-y-auto pr-2">
+              {selectedLogForView.enteredInError && (
+                <Alert variant="destructive">
+                  <Ban className="h-4 w-4" />
+                  <AlertTitle>Entered in error</AlertTitle>
+                  <AlertDescription>
+                    Struck by {selectedLogForView.enteredInError.byName} on {format(parseISO(selectedLogForView.enteredInError.at), "PPp")}: {selectedLogForView.enteredInError.reason}
+                  </AlertDescription>
+                </Alert>
+              )}
               <p><strong>Patient:</strong> {selectedLogForView.patientName}</p>
               <p><strong>Date & Time:</strong> {format(parseISO(selectedLogForView.careDate), "PPPp")}</p>
               <p><strong>Type of Care:</strong> {selectedLogForView.careType}</p>
               <p><strong>Logged By:</strong> {selectedLogForView.loggedBy}</p>
+              {selectedLogForView.vitals && hasVitalSigns(selectedLogForView.vitals) && (
+                <div>
+                  <strong>Vital Signs:</strong>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-1 rounded-md border p-2 bg-muted/50">
+                    {selectedLogForView.vitals.bpSystolic !== undefined && (
+                      <><dt className="text-muted-foreground">Blood Pressure</dt><dd>{formatBloodPressure(selectedLogForView.vitals)}</dd></>
+                    )}
+                    {VITAL_SIGN_DEFINITIONS.filter(def => def.key !== "bpSystolic" && def.key !== "bpDiastolic" && selectedLogForView.vitals?.[def.key] !== undefined).map(def => (
+                      <React.Fragment key={def.key}>
+                        <dt className="text-muted-foreground">{def.label}</dt>
+                        <dd>{formatVitalSign(def.key, selectedLogForView.vitals?.[def.key])}</dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
+                </div>
+              )}
               <div>
-                <strong>Notes / Vitals:</strong>
+                <strong>Notes:</strong>
                 <ScrollArea className="h-32 mt-1 rounded-md border p-2 bg-muted/50">
                   <p className="whitespace-pre-wrap">{selectedLogForView.notes}</p>
                 </ScrollArea>
               </div>
+              <div>
+                <strong className="flex items-center gap-1"><History className="h-4 w-4" />Revision History</strong>
+                {logRevisions === null ? (
+                  <p className="text-muted-foreground flex items-center mt-1"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading history...</p>
+                ) : (
+                  <ol className="mt-1 space-y-2">
+                    {logRevisions.map(revision => (
+                      <li key={revision.version} className="rounded-md border p-2">
+                        <p className="font-medium">
+                          Version {revision.version}{revision.version === selectedLogForView.version ? " (current)" : ""}
+                          {" "}&middot; {revision.version === 1 ? "Logged" : "Amended"} by {revision.authorName} on {format(parseISO(revision.authoredAt), "PPp")}
+                        </p>
+                        {revision.reason && <p className="text-muted-foreground">Reason: {revision.reason}</p>}
+                        <p className="text-muted-foreground">{revision.careType} &middot; {format(parseISO(revision.careDate), "PPp")}</p>
+                        {revision.vitals && hasVitalSigns(revision.vitals) && (
+                          <p className="text-muted-foreground">
+                            {VITAL_SIGN_DEFINITIONS.filter(def => revision.vitals?.[def.key] !== undefined).map(def => `${def.label}: ${formatVitalSign(def.key, revision.vitals?.[def.key])}`).join(" · ")}
+                          </p>
+                        )}
+                        <p className="whitespace-pre-wrap">{revision.notes}</p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
             </div>
             <AlertDialogFooter>
               <AlertDialogAction onClick={() => setIsViewLogDialogOpen(false)}>Close</AlertDialogAction>
@@ -378,21 +676,25 @@ export default function CareTrackingPage() {
         </AlertDialog>
       )}
 
-      {isDeleteConfirmOpen && (
-        <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+      {logToStrike && (
+        <AlertDialog open={!!logToStrike} onOpenChange={open => { if (!open) setLogToStrike(null); }}>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+              <AlertDialogTitle>Mark as Entered in Error</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete this care log? This action cannot be undone.
+                The care log stays in the record, crossed out, with your name and reason. Its vitals are removed from the trends.
               </AlertDialogDescription>
             </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="strike-reason">Reason</Label>
+              <Textarea id="strike-reason" rows={3} maxLength={500} placeholder="e.g. Logged for the wrong patient" value={strikeReason} onChange={e => setStrikeReason(e.target.value)} />
+            </div>
             <AlertDialogFooter>
-              <AlertDialogCancel onClick={() => { setIsDeleteConfirmOpen(false); setLogToDeleteId(null); }}>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={confirmDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-                {formIsLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4"/>}
-                Delete
-              </AlertDialogAction>
+              <AlertDialogCancel onClick={() => setLogToStrike(null)}>Cancel</AlertDialogCancel>
+              <Button variant="destructive" onClick={confirmStrike} disabled={formIsLoading || strikeReason.trim().length < 3}>
+                {formIsLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4"/>}
+                Mark as Entered in Error
+              </Button>
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
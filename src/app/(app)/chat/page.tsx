@@ -3,29 +3,54 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send, MessageSquarePlus, Paperclip, Phone, Video, Loader2, AlertCircle, Users, Stethoscope } from "lucide-react";
+import { Send, MessageSquarePlus, Paperclip, Phone, Video, Loader2, AlertCircle, Users, Stethoscope, Mic, Square, X, FileText, Check, CheckCheck, Clock, HeartPulse, MoreVertical, Pencil, Trash2, WifiOff } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import React, { Suspense, useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/contexts/auth-context";
-import { fetchPatients, fetchNurses, fetchUsersForAdmin, fetchVideoConsults, fetchPatientById, type PatientListItem, type NurseListItem, type UserForAdminList, type VideoConsultListItem } from "@/app/actions";
+import { fetchPatients, fetchNurses, fetchUsersForAdmin, fetchAdminContacts, fetchCareTeam, notifyChatMessage, sendChatAttachment, saveChatAttachmentToMedicalFile, editChatMessage, deleteChatMessage, type PatientListItem, type NurseListItem, type UserForAdminList } from "@/app/actions";
+import { CARE_TEAM_ROLE_LABELS } from "@/lib/care-team";
+import {
+  CHAT_ATTACHMENT_ACCEPT, CHAT_CAPTION_MAX_LENGTH, VOICE_NOTE_MAX_SECONDS, chatAttachmentKind, formatAttachmentSize, formatVoiceNoteDuration, validateChatAttachment,
+  type ChatAttachment
+} from "@/lib/chat-attachments";
+import { ChatAttachmentPreview } from "@/components/chat-attachment";
+import { GroupChatDetailsDialog, NewGroupChatDialog } from "@/components/group-chat-dialogs";
+import { ChatMessageSearch } from "@/components/chat-message-search";
+import { CHAT_MESSAGE_MAX_LENGTH, canDeleteChatMessage, canEditChatMessage, type ChatSearchResult } from "@/lib/chat-messages";
+import { directChatId, directChatParticipants, findMentions, mentionQueryBeforeCaret, splitMentions, type ChatMember } from "@/lib/chat-groups";
+import { useVoiceRecorder } from "@/hooks/use-voice-recorder";
+import { useToast } from "@/hooks/use-toast";
+import { useChatInbox, usePresence } from "@/hooks/use-chat-status";
+import { useOnlineStatus } from "@/hooks/use-outbox";
+import { addOutboxItem } from "@/lib/outbox";
+import {
+  TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS, earliestCursor, formatUnreadCount, isTyping, lastMessagePreview, messageReceipt, type MessageReceipt
+} from "@/lib/chat-status";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
 import { db } from "@/lib/firebase";
 import {
   collection,
   query,
   orderBy,
   onSnapshot,
-  addDoc,
   serverTimestamp,
   doc,
   setDoc,
   Timestamp,
   where,
   getDocs,
-  writeBatch
+  writeBatch,
+  increment,
+  deleteField
 } from "firebase/firestore";
 import { formatDistanceToNow } from "date-fns";
 
@@ -34,28 +59,80 @@ interface Contact {
   id: string; // This will be the Firebase UID for users, or patient/nurse ID
   name: string;
   email: string | null;
-  role: 'patient' | 'nurse' | 'admin' | 'user'; // Broader role definition
+  role: 'patient' | 'nurse' | 'clinician' | 'admin' | 'user'; // Broader role definition
   avatarUrl: string;
   lastMessage?: string;
   unread?: number;
   online?: boolean;
   hint?: string;
+  lastActivity?: Date | null; // of the conversation with this contact, for ordering
 }
 
 interface Message {
   id: string;
   senderId: string;
-  text: string;
+  text: string; // the caption of an attachment, possibly empty
+  attachment?: ChatAttachment;
+  mentions: string[]; // members mentioned with @Name, in groups
   timestamp: Date | null; // Store as Date on client for easier formatting
+  editedAt: Date | null; // edits and deletions go through server actions (lib/chat-messages.ts)
+  deletedAt: Date | null;
+  isPending: boolean; // not yet written on the server
+}
+
+// A picked file or recorded voice note waiting for "Send".
+interface PendingAttachment {
+  file: File;
+  durationSeconds?: number;
+  previewUrl: string; // object URL, revoked when the attachment is sent or removed
 }
 
-const generateChatId = (uid1: string, uid2: string): string => {
-  return [uid1, uid2].sort().join('_');
-};
+const MENTION_SUGGESTIONS_LIMIT = 5;
+
+function ReceiptTicks({ receipt }: { receipt: MessageReceipt }) {
+  const label = { pending: "Sending", sent: "Sent", delivered: "Delivered", read: "Read" }[receipt];
+  const Icon = receipt === "pending" ? Clock : receipt === "sent" ? Check : CheckCheck;
+  return <Icon aria-label={label} className={`inline h-3 w-3 ml-1 ${receipt === "read" ? "text-blue-500" : ""}`} />;
+}
+
+// Message text with the @mentions of group members highlighted.
+function MessageText({ text, members, isOwn }: { text: string; members: ChatMember[]; isOwn: boolean }) {
+  return (
+    <>
+      {splitMentions(text, members).map((part, index) => part.isMention ? (
+        <span key={index} className={`font-semibold rounded px-0.5 ${isOwn ? 'bg-primary-foreground/20' : 'bg-primary/10 text-primary'}`}>{part.text}</span>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      ))}
+    </>
+  );
+}
 
 export default function ChatPage() {
+  // The conversation to open (`?chat=`, e.g. from a mention notification) is read from the
+  // URL query string, which needs a Suspense boundary.
+  return (
+    <Suspense fallback={<ChatLoading />}>
+      <ChatPageContent />
+    </Suspense>
+  );
+}
+
+function ChatLoading() {
+  return (
+    <div className="flex items-center justify-center h-[calc(100vh-100px)]">
+      <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+      <p>Loading chat...</p>
+    </div>
+  );
+}
+
+function ChatPageContent() {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
+  // A group or care team channel (lib/chat-groups.ts); exclusive with `selectedContact`.
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const searchParams = useSearchParams();
   const [isLoadingContacts, setIsLoadingContacts] = useState(true);
   const [errorContacts, setErrorContacts] = useState<string | null>(null);
   const { currentUser, userRole, loading: authLoading } = useAuth();
@@ -65,9 +142,64 @@ export default function ChatPage() {
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
+  const [caret, setCaret] = useState(0);
+  const messageInputRef = useRef<HTMLInputElement | null>(null);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [isSending, setIsSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
+  const { toast } = useToast();
+
+  const [pendingAttachment, setPendingAttachment] = useState<PendingAttachment | null>(null);
+  const [savingMessageId, setSavingMessageId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ messageId: string; text: string } | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [deletingMessageId, setDeletingMessageId] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null); // opened from the search
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const attachFile = useCallback((file: File, durationSeconds?: number) => {
+    const invalid = validateChatAttachment(file, durationSeconds);
+    if (invalid) {
+      toast({ variant: "destructive", title: "Cannot Attach File", description: invalid });
+      return;
+    }
+    setPendingAttachment(previous => {
+      if (previous) URL.revokeObjectURL(previous.previewUrl);
+      return { file, durationSeconds, previewUrl: URL.createObjectURL(file) };
+    });
+  }, [toast]);
+
+  const clearPendingAttachment = useCallback(() => {
+    setPendingAttachment(previous => {
+      if (previous) URL.revokeObjectURL(previous.previewUrl);
+      return null;
+    });
+  }, []);
+
+  const voiceRecorder = useVoiceRecorder(note => attachFile(note.file, note.durationSeconds));
+  const isOnline = useOnlineStatus();
+
+  // Unread counts, receipts and typing of every conversation, and contacts' presence (lib/chat-status.ts).
+  const inbox = useChatInbox(currentUser?.uid);
+  const selectedGroup = selectedGroupId ? inbox.chats[selectedGroupId] : undefined;
+  const presence = usePresence([...contacts.map(contact => contact.id), ...(selectedGroup?.participants ?? [])]);
+  const currentChat = currentChatId ? inbox.chats[currentChatId] : undefined;
+  const activeChatId = selectedGroupId ?? (currentUser && selectedContact ? directChatId(currentUser.uid, selectedContact.id) : null);
+  // The other members of the open conversation, for unread counts, receipts and typing.
+  const otherMemberIds = useMemo(() => {
+    if (!currentUser) return [];
+    if (selectedGroupId) return (selectedGroup?.participants ?? []).filter(uid => uid !== currentUser.uid);
+    return selectedContact ? [selectedContact.id] : [];
+  }, [currentUser, selectedGroupId, selectedGroup, selectedContact]);
+  const groupMembers: ChatMember[] = useMemo(
+    () => Object.entries(selectedGroup?.participantNames ?? {}).map(([uid, name]) => ({ uid, name })),
+    [selectedGroup]
+  );
+  const [isPageVisible, setIsPageVisible] = useState(true);
+  const lastReadMessageRef = useRef<string | null>(null);
+  const lastTypingWriteRef = useRef(0);
+  const [, setTypingClock] = useState(0);
 
 
   const loadContacts = useCallback(async () => {
@@ -84,77 +216,53 @@ export default function ChatPage() {
     try {
       if (userRole === 'patient') {
         console.log("[ChatPage PATIENT] Loading contacts for PATIENT. Current User UID:", currentUser.uid);
-        const [patientDetailsResult, videoConsultsResult, allNursesResult, allUsersResult] = await Promise.all([
-          fetchPatientById(currentUser.uid), 
-          fetchVideoConsults(),
-          fetchNurses(),
-          fetchUsersForAdmin()
+        const [careTeamResult, adminContactsResult] = await Promise.all([
+          fetchCareTeam(currentUser.uid),
+          fetchAdminContacts()
         ]);
 
-        const patient = patientDetailsResult.data;
-        const videoConsults = videoConsultsResult.data || [];
-        const allNurses = allNursesResult.data || [];
-        const allUsers = allUsersResult.data || [];
+        const careTeam = careTeamResult.data?.active || [];
+        const admins = adminContactsResult.data || [];
+        console.log("[ChatPage PATIENT] Active care team:", careTeam.map(a => ({ id: a.clinicianId, name: a.clinicianName, teamRole: a.teamRole })));
 
-        console.log("[ChatPage PATIENT] Fetched patient details:", patient);
-        console.log("[ChatPage PATIENT] Fetched video consults (filtered for current patient):", videoConsults.filter(c => c.patientId === currentUser.uid));
-        console.log("[ChatPage PATIENT] Fetched ALL nurses (before filtering):", allNurses.map(n => ({id: n.id, name: n.name})));
-        
-        const allowedNurseIds = new Set<string>();
-
-        // 1. Add primary nurse
-        if (patient && patient.primaryNurse) {
-          const primaryNurse = allNurses.find(n => n.name === patient.primaryNurse);
-          if (primaryNurse) {
-            allowedNurseIds.add(primaryNurse.id);
-            console.log(`[ChatPage PATIENT] Primary nurse "${primaryNurse.name}" (ID: ${primaryNurse.id}) added to allowedNurseIds.`);
-          } else {
-            console.warn(`[ChatPage PATIENT] Primary nurse named "${patient.primaryNurse}" not found in allNurses list. Searched for name: "${patient.primaryNurse}". Available nurse names: ${allNurses.map(n => n.name).join(', ')}`);
-          }
-        }
-
-        // 2. Add nurses from video consults
-        videoConsults.forEach(consult => {
-          if (consult.patientId === currentUser.uid && consult.nurseId) {
-            console.log(`[ChatPage PATIENT] Processing consult: Patient ${consult.patientName} with Nurse ${consult.nurseName} (Nurse ID: ${consult.nurseId}). Adding nurseId: ${consult.nurseId} to allowedNurseIds.`);
-            allowedNurseIds.add(consult.nurseId);
-          }
+        // Patients can reach the clinicians currently assigned to them (one contact per clinician).
+        const careTeamContactsMap = new Map<string, Contact>();
+        careTeam.forEach(assignment => {
+          if (careTeamContactsMap.has(assignment.clinicianId)) return;
+          const isNurse = assignment.teamRole === 'primaryNurse' || assignment.teamRole === 'nurse';
+          careTeamContactsMap.set(assignment.clinicianId, {
+            id: assignment.clinicianId, name: assignment.clinicianName, email: null,
+            role: isNurse ? 'nurse' as const : 'clinician' as const,
+            avatarUrl: `https://placehold.co/40x40.png`,
+            lastMessage: `${CARE_TEAM_ROLE_LABELS[assignment.teamRole]} - Click to chat`, hint: 'nurse medical'
+          });
         });
-        console.log("[ChatPage PATIENT] Allowed nurse IDs (after primary & consults):", Array.from(allowedNurseIds));
-        
-        const nurseContacts = allNurses
-          .filter(n => allowedNurseIds.has(n.id))
-          .map(n => ({
-            id: n.id, name: n.name, email: n.email, role: 'nurse' as const,
-            avatarUrl: n.avatar || `https://placehold.co/40x40.png`,
-            lastMessage: "Click to chat", hint: n.hint || 'nurse medical'
-          }));
-        console.log("[ChatPage PATIENT] Final nurseContacts list for patient (filtered by allowed IDs):", nurseContacts);
+        const careTeamContacts = Array.from(careTeamContactsMap.values());
+        console.log("[ChatPage PATIENT] Final care team contacts for patient:", careTeamContacts);
 
-        const adminContacts = allUsers
-          .filter(u => u.role === 'admin' && u.id !== currentUser.uid)
+        const adminContacts = admins
+          .filter(u => u.id !== currentUser.uid)
           .map(u => ({
             id: u.id, name: u.name, email: u.email, role: 'admin' as const,
-            avatarUrl: (u as any).avatarUrl || `https://placehold.co/40x40.png`,
-            lastMessage: "Click to chat", hint: (u as any).hint || 'admin support'
+            avatarUrl: `https://placehold.co/40x40.png`,
+            lastMessage: "Click to chat", hint: 'admin support'
           }));
         
-        combinedContacts = [...nurseContacts, ...adminContacts];
-        console.log("[ChatPage PATIENT] Combined contacts for patient (allowed nurses + admins):", combinedContacts);
+        combinedContacts = [...careTeamContacts, ...adminContacts];
+        console.log("[ChatPage PATIENT] Combined contacts for patient (care team + admins):", combinedContacts);
 
-      } else if (userRole === 'nurse') {
-        console.log("[ChatPage NURSE] Loading contacts for NURSE:", currentUser.uid, currentUser.displayName);
-        const [allNursesResult, allPatientsResult, videoConsultsResult, allUsersResult] = await Promise.all([
+      } else if (userRole && userRole !== 'admin') {
+        // Every clinician role: colleagues, admins and the patients they are assigned to.
+        console.log("[ChatPage CLINICIAN] Loading contacts for CLINICIAN:", currentUser.uid, currentUser.displayName);
+        const [allNursesResult, assignedPatientsResult, adminContactsResult] = await Promise.all([
           fetchNurses(),
-          fetchPatients(),
-          fetchVideoConsults(),
-          fetchUsersForAdmin()
+          fetchPatients(), // scoped to the patients this clinician is actively assigned to
+          fetchAdminContacts()
         ]);
 
         const allNurses = allNursesResult.data || [];
-        const allPatients = allPatientsResult.data || [];
-        const videoConsults = videoConsultsResult.data || [];
-        const allUsers = allUsersResult.data || [];
+        const assignedPatients = assignedPatientsResult.data || [];
+        const admins = adminContactsResult.data || [];
 
         const tempContactsMap = new Map<string, Contact>();
 
@@ -170,46 +278,26 @@ export default function ChatPage() {
         });
 
         // 2. Add admins
-        allUsers.forEach(u => {
-          if (u.role === 'admin' && u.id !== currentUser.uid) {
+        admins.forEach(u => {
+          if (u.id !== currentUser.uid) {
             tempContactsMap.set(u.id, {
               id: u.id, name: u.name, email: u.email, role: 'admin' as const,
-              avatarUrl: (u as any).avatarUrl || `https://placehold.co/40x40.png`,
-              lastMessage: "Click to chat", hint: (u as any).hint || 'admin support'
+              avatarUrl: `https://placehold.co/40x40.png`,
+              lastMessage: "Click to chat", hint: 'admin support'
             });
           }
         });
         
-        // 3. Add patients assigned to this nurse
-        allPatients.forEach(p => {
-          if (p.primaryNurse === currentUser.displayName) { 
-             tempContactsMap.set(p.id, {
-              id: p.id, name: p.name, email: p.email, role: 'patient' as const,
-              avatarUrl: p.avatarUrl || `https://placehold.co/40x40.png`,
-              lastMessage: "Click to chat", hint: p.hint || 'person face'
-            });
-          }
-        });
-
-        // 4. Add patients with appointments with this nurse
-        const patientIdsFromAppointments = new Set<string>();
-        videoConsults.forEach(consult => {
-          if (consult.nurseId === currentUser.uid && consult.patientId) {
-            patientIdsFromAppointments.add(consult.patientId);
-          }
-        });
-
-        allPatients.forEach(p => {
-          if (patientIdsFromAppointments.has(p.id)) {
-             tempContactsMap.set(p.id, { 
-              id: p.id, name: p.name, email: p.email, role: 'patient' as const,
-              avatarUrl: p.avatarUrl || `https://placehold.co/40x40.png`,
-              lastMessage: "Click to chat", hint: p.hint || 'person face'
-            });
-          }
+        // 3. Add patients this clinician is on the care team of
+        assignedPatients.forEach(p => {
+          tempContactsMap.set(p.id, {
+            id: p.id, name: p.name, email: p.email, role: 'patient' as const,
+            avatarUrl: p.avatarUrl || `https://placehold.co/40x40.png`,
+            lastMessage: "Click to chat", hint: p.hint || 'person face'
+          });
         });
         combinedContacts = Array.from(tempContactsMap.values());
-        console.log("[ChatPage NURSE] Final combined contacts for nurse:", combinedContacts);
+        console.log("[ChatPage CLINICIAN] Final combined contacts for clinician:", combinedContacts);
 
       } else if (userRole === 'admin') { 
         console.log("[ChatPage ADMIN] Loading contacts for ADMIN:", currentUser.uid);
@@ -249,7 +337,7 @@ export default function ChatPage() {
         let defaultContact: Contact | undefined;
          if (userRole === 'patient') {
           defaultContact = combinedContacts.find(c => c.role === 'nurse');
-        } else if (userRole === 'nurse') {
+        } else if (userRole !== 'admin') {
           defaultContact = combinedContacts.find(c => c.role === 'patient');
           if (!defaultContact) defaultContact = combinedContacts.find(c => c.role === 'admin');
           if (!defaultContact) defaultContact = combinedContacts.find(c => c.role === 'nurse'); 
@@ -277,30 +365,46 @@ export default function ChatPage() {
     }
   }, [authLoading, loadContacts, currentUser, userRole]); // Added currentUser and userRole to ensure loadContacts has the latest
 
-  // Effect to listen for messages when selectedContact (and thus currentChatId) changes
+  // Groups named in the URL open directly; direct conversations are picked from the contacts.
   useEffect(() => {
-    if (!currentUser || !selectedContact) {
+    const chatId = searchParams.get("chat");
+    if (chatId && !directChatParticipants(chatId)) {
+      setSelectedGroupId(chatId);
+      setSelectedContact(null);
+    }
+  }, [searchParams]);
+
+  // Effect to listen for messages when the open conversation (and thus currentChatId) changes
+  useEffect(() => {
+    if (!activeChatId) {
       setCurrentChatId(null);
       setMessages([]);
       return;
     }
-    const chatId = generateChatId(currentUser.uid, selectedContact.id);
+    const chatId = activeChatId;
     setCurrentChatId(chatId);
+    clearPendingAttachment();
+    setEditing(null);
 
     const messagesQuery = query(
       collection(db, "chats", chatId, "messages"),
       orderBy("timestamp", "asc")
     );
 
-    const unsubscribe = onSnapshot(messagesQuery, (querySnapshot) => {
+    const unsubscribe = onSnapshot(messagesQuery, { includeMetadataChanges: true }, (querySnapshot) => {
       const fetchedMessages: Message[] = [];
       querySnapshot.forEach((doc) => {
         const data = doc.data();
         fetchedMessages.push({
           id: doc.id,
           senderId: data.senderId,
-          text: data.text,
+          text: data.text || "",
+          attachment: data.attachment,
+          mentions: Array.isArray(data.mentions) ? data.mentions : [],
           timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(),
+          editedAt: data.editedAt instanceof Timestamp ? data.editedAt.toDate() : null,
+          deletedAt: data.deletedAt instanceof Timestamp ? data.deletedAt.toDate() : null,
+          isPending: doc.metadata.hasPendingWrites,
         });
       });
       setMessages(fetchedMessages);
@@ -311,43 +415,158 @@ export default function ChatPage() {
 
     return () => unsubscribe();
 
-  }, [currentUser, selectedContact]);
+  }, [activeChatId, clearPendingAttachment]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // A message opened from the search is scrolled to (after the scroll to the latest message)
+  // and highlighted for a moment once its conversation is loaded.
+  useEffect(() => {
+    if (!highlightedMessageId || !messages.some(msg => msg.id === highlightedMessageId)) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, messages]);
+
+  useEffect(() => {
+    const onVisibilityChange = () => setIsPageVisible(document.visibilityState === "visible");
+    onVisibilityChange();
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  // Messages shown in the open conversation count as read while the page is visible: move
+  // the read cursor and reset the unread count.
+  useEffect(() => {
+    if (!db || !currentUser || !currentChatId || !isPageVisible) return;
+    const lastIncoming = [...messages].reverse().find(msg => msg.senderId !== currentUser.uid && !msg.isPending);
+    if (!lastIncoming) return;
+    const readAt = currentChat?.readBy[currentUser.uid];
+    const alreadyRead = lastReadMessageRef.current === lastIncoming.id || (!!readAt && !!lastIncoming.timestamp && readAt >= lastIncoming.timestamp);
+    if (alreadyRead && !currentChat?.unreadCount) return;
+    lastReadMessageRef.current = lastIncoming.id;
+    setDoc(doc(db, "chats", currentChatId), {
+      readBy: { [currentUser.uid]: serverTimestamp() },
+      unreadCounts: { [currentUser.uid]: 0 },
+    }, { merge: true }).catch(error => console.warn("[ChatPage] Read receipt not saved:", error.code, error.message));
+  }, [messages, currentChatId, currentUser, isPageVisible, currentChat]);
+
+  // Re-render when the last typing indicator expires.
+  const typingMemberIds = otherMemberIds.filter(uid => isTyping(currentChat?.typing[uid]));
+  const lastTypingAt = otherMemberIds
+    .map(uid => currentChat?.typing[uid])
+    .reduce<Date | undefined>((latest, at) => (at && (!latest || at > latest) ? at : latest), undefined);
+  useEffect(() => {
+    if (!lastTypingAt || !isTyping(lastTypingAt)) return;
+    const timeout = setTimeout(() => setTypingClock(tick => tick + 1), lastTypingAt.getTime() + TYPING_TIMEOUT_MS - Date.now() + 50);
+    return () => clearTimeout(timeout);
+  }, [lastTypingAt]);
+  const isContactTyping = typingMemberIds.length > 0;
+
+  const setTypingState = (typing: boolean) => {
+    if (!db || !currentUser || !currentChatId || (!selectedContact && !selectedGroupId)) return;
+    lastTypingWriteRef.current = typing ? Date.now() : 0;
+    setDoc(doc(db, "chats", currentChatId), {
+      // Group members are written by the server only.
+      ...(selectedContact ? { participants: [currentUser.uid, selectedContact.id].sort() } : {}),
+      typing: { [currentUser.uid]: typing ? serverTimestamp() : deleteField() },
+    }, { merge: true }).catch(error => console.warn("[ChatPage] Typing state not saved:", error.code, error.message));
+  };
+
+  const handleMessageChange = (value: string, caretPosition: number | null) => {
+    setNewMessage(value);
+    setCaret(caretPosition ?? value.length);
+    if (value.trim() && Date.now() - lastTypingWriteRef.current > TYPING_THROTTLE_MS) {
+      setTypingState(true);
+    } else if (!value.trim() && lastTypingWriteRef.current) {
+      setTypingState(false);
+    }
+  };
+
+
+  // Keeps the conversation document (participants, names, last message, unread count of the
+  // receivers) up to date and notifies the other participant, or the mentioned group members,
+  // of a new message. Groups keep their members and names, which only the server writes.
+  // Like the message itself, the update waits in Firestore's cache while offline. `preview` is
+  // null for attachments, whose last message and unread counts sendChatAttachment writes.
+  const touchChat = (chatId: string, messageId: string, preview: string | null) => {
+    if (!currentUser) return;
+    const chatDocRef = doc(db, "chats", chatId);
+    lastTypingWriteRef.current = 0;
+    const contact = selectedGroupId ? null : selectedContact;
+    if (preview !== null || contact) setDoc(chatDocRef, {
+      ...(preview !== null ? {
+        lastActivity: serverTimestamp(),
+        lastMessage: { messageId, senderId: currentUser.uid, preview, at: serverTimestamp() },
+        unreadCounts: Object.fromEntries(otherMemberIds.map(uid => [uid, increment(1)])),
+        readBy: { [currentUser.uid]: serverTimestamp() },
+        typing: { [currentUser.uid]: deleteField() },
+      } : {}),
+      ...(contact ? {
+        participants: [currentUser.uid, contact.id].sort(),
+        participantNames: { 
+          [currentUser.uid]: currentUser.displayName || currentUser.email, 
+          [contact.id]: contact.name 
+        },
+        participantRoles: {
+          [currentUser.uid]: userRole,
+          [contact.id]: contact.role
+        }
+      } : {})
+    }, { merge: true }).catch(error => console.error("[ChatPage] Error updating chat:", error));
+
+    // Notifications are best-effort and must not block the conversation. The outbox sends them
+    // once the message has reached the server (lib/outbox.ts).
+    addOutboxItem(currentUser.uid, "chatNotification", { chatId, messageId }).catch(() => {
+      notifyChatMessage(chatId, messageId).then(result => {
+        if (!result.success) console.warn("[ChatPage] Chat notification not sent:", result.message);
+      });
+    });
+  };
 
   const handleSendMessage = async () => {
-    if (!currentUser || !selectedContact || !currentChatId || newMessage.trim() === "") {
+    if (!db || !currentUser || (!selectedContact && !selectedGroupId) || !currentChatId || (newMessage.trim() === "" && !pendingAttachment)) {
       return;
     }
+    if (pendingAttachment && !isOnline) return;
     setIsSending(true);
     const messageText = newMessage.trim();
     setNewMessage("");
 
     try {
-      const messagesColRef = collection(db, "chats", currentChatId, "messages");
-      await addDoc(messagesColRef, {
+      if (pendingAttachment) {
+        // Attachments are uploaded and their message written by the server.
+        const result = await sendChatAttachment(currentChatId, pendingAttachment.file, {
+          caption: messageText || undefined,
+          durationSeconds: pendingAttachment.durationSeconds,
+        });
+        if (!result.success || !result.messageId) {
+          toast({ variant: "destructive", title: "Attachment Not Sent", description: result.message });
+          setNewMessage(messageText);
+          return;
+        }
+        clearPendingAttachment();
+        touchChat(currentChatId, result.messageId, null);
+        return;
+      }
+
+      // Not awaited: offline, the write waits in Firestore's persistent cache (lib/firebase.ts)
+      // and the message shows as pending until the server has it.
+      const messageRef = doc(collection(db, "chats", currentChatId, "messages"));
+      const mentions = selectedGroupId ? findMentions(messageText, groupMembers.filter(member => member.uid !== currentUser.uid)) : [];
+      setDoc(messageRef, {
         senderId: currentUser.uid,
-        receiverId: selectedContact.id, 
+        ...(selectedContact ? { receiverId: selectedContact.id } : {}),
         text: messageText,
+        ...(mentions.length > 0 ? { mentions } : {}),
         timestamp: serverTimestamp(),
+      }).catch(error => {
+        console.error("[ChatPage] Error sending message:", error);
+        toast({ variant: "destructive", title: "Message Not Sent", description: error.message });
       });
-
-      const chatDocRef = doc(db, "chats", currentChatId);
-      await setDoc(chatDocRef, {
-        participants: [currentUser.uid, selectedContact.id].sort(),
-        lastActivity: serverTimestamp(),
-        participantNames: { 
-          [currentUser.uid]: currentUser.displayName || currentUser.email, 
-          [selectedContact.id]: selectedContact.name 
-        },
-        participantRoles: {
-          [currentUser.uid]: userRole,
-          [selectedContact.id]: selectedContact.role
-        }
-      }, { merge: true });
+      touchChat(currentChatId, messageRef.id, lastMessagePreview(messageText));
 
     } catch (error) {
       console.error("Error sending message:", error);
@@ -357,6 +576,142 @@ export default function ChatPage() {
     }
   };
 
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) attachFile(file);
+    event.target.value = "";
+  };
+
+  const handleSaveToMedicalFile = async (messageId: string) => {
+    if (!currentChatId) return;
+    setSavingMessageId(messageId);
+    const result = await saveChatAttachmentToMedicalFile(currentChatId, messageId);
+    setSavingMessageId(null);
+    if (result.success) {
+      toast({ title: "Saved to Medical File", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Not Saved", description: result.message });
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!currentChatId || !editing) return;
+    setIsSavingEdit(true);
+    const result = await editChatMessage(currentChatId, editing.messageId, { text: editing.text });
+    setIsSavingEdit(false);
+    if (result.success) {
+      setEditing(null);
+    } else {
+      toast({ variant: "destructive", title: "Message Not Edited", description: result.message });
+    }
+  };
+
+  const handleDeleteMessage = async () => {
+    if (!currentChatId || !deletingMessageId) return;
+    setIsDeleting(true);
+    const result = await deleteChatMessage(currentChatId, deletingMessageId);
+    setIsDeleting(false);
+    setDeletingMessageId(null);
+    if (!result.success) {
+      toast({ variant: "destructive", title: "Message Not Deleted", description: result.message });
+    }
+  };
+
+  // Contacts with their conversation status, most recent conversations first.
+  const contactsWithStatus = useMemo(() => {
+    if (!currentUser) return contacts;
+    return contacts
+      .map(contact => {
+        const summary = inbox.chats[directChatId(currentUser.uid, contact.id)];
+        return {
+          ...contact,
+          unread: summary?.unreadCount ?? 0,
+          online: presence.isOnline(contact.id),
+          lastMessage: summary?.lastMessage?.preview || contact.lastMessage,
+          lastActivity: summary?.lastMessage?.at ?? null,
+        };
+      })
+      .sort((a, b) => (b.lastActivity?.getTime() ?? 0) - (a.lastActivity?.getTime() ?? 0));
+  }, [contacts, currentUser, inbox.chats, presence]);
+
+  // Groups and care team channels of the user, most recent first.
+  const groupsWithStatus = useMemo(
+    () => Object.values(inbox.chats)
+      .filter(chat => chat.type !== "direct")
+      .sort((a, b) => (b.lastMessage?.at?.getTime() ?? 0) - (a.lastMessage?.at?.getTime() ?? 0)),
+    [inbox.chats]
+  );
+
+  const contactLastSeenAt = selectedContact ? presence.presences[selectedContact.id]?.lastSeenAt : null;
+  const typingNames = typingMemberIds.map(uid => selectedGroup?.participantNames[uid] || "Someone");
+  const contactStatus = selectedGroupId
+    ? (isContactTyping ? `${typingNames.join(", ")} ${typingNames.length > 1 ? "are" : "is"} typing...`
+      : `${selectedGroup?.participants.length ?? 0} members, ${otherMemberIds.filter(uid => presence.isOnline(uid)).length} online`)
+    : !selectedContact ? ""
+    : isContactTyping ? "typing..."
+    : presence.isOnline(selectedContact.id) ? "Online"
+    : contactLastSeenAt ? `Last seen ${formatDistanceToNow(contactLastSeenAt, { addSuffix: true })}`
+    : "Offline";
+
+  // Attachments of a conversation with a patient can be filed in that patient's medical file;
+  // for groups, the patient the group is about (not by caregivers, who cannot see the file).
+  const canSaveToMedicalFile = selectedGroupId
+    ? !!selectedGroup?.patientId && (userRole !== 'patient' || selectedGroup.patientId === currentUser?.uid)
+    : userRole === 'patient' || selectedContact?.role === 'patient';
+
+  // "@partial name" being typed in a group: members to complete it with.
+  const mentionQuery = useMemo(
+    () => (selectedGroupId ? mentionQueryBeforeCaret(newMessage, caret) : null),
+    [selectedGroupId, newMessage, caret]
+  );
+  const mentionSuggestions = useMemo(() => {
+    if (!mentionQuery || !currentUser) return [];
+    const needle = mentionQuery.query.trim().toLowerCase();
+    return groupMembers
+      .filter(member => member.uid !== currentUser.uid && member.name.toLowerCase().includes(needle))
+      .slice(0, MENTION_SUGGESTIONS_LIMIT);
+  }, [mentionQuery, groupMembers, currentUser]);
+
+  const insertMention = (member: ChatMember) => {
+    if (!mentionQuery) return;
+    const before = `${newMessage.slice(0, mentionQuery.start)}@${member.name} `;
+    setNewMessage(before + newMessage.slice(caret));
+    setCaret(before.length);
+    requestAnimationFrame(() => {
+      messageInputRef.current?.focus();
+      messageInputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSelectGroup = (chatId: string) => {
+    setSelectedGroupId(chatId);
+    setSelectedContact(null);
+    setSelectedPatientIdFromDropdown("");
+    setSelectedNurseIdFromDropdown("");
+  };
+
+  // Opens the conversation of a search result and scrolls to the message.
+  const handleOpenSearchResult = (result: ChatSearchResult) => {
+    if (result.isGroup) {
+      handleSelectGroup(result.chatId);
+    } else {
+      const contactId = directChatParticipants(result.chatId)?.find(uid => uid !== currentUser?.uid);
+      const contact = contacts.find(c => c.id === contactId);
+      if (!contact) {
+        toast({ variant: "destructive", title: "Conversation Unavailable", description: `${result.chatName} is no longer among your contacts.` });
+        return;
+      }
+      handleSelectContactFromList(contact);
+    }
+    setHighlightedMessageId(result.messageId);
+  };
+
+  // Contacts the user can add to a group: everyone they can chat with directly.
+  const groupCandidates = useMemo(
+    () => contacts.map(contact => ({ id: contact.id, name: contact.name, role: contact.role })),
+    [contacts]
+  );
+
   const patientContactsForDropdown = useMemo(() => {
     console.log("[ChatPage useMemo patientContactsForDropdown] Full 'contacts' list before filtering for patients:", contacts.map(c=> ({id: c.id, name: c.name, role: c.role})));
     const filtered = contacts.filter(contact => contact.role === 'patient' && contact.id !== currentUser?.uid);
@@ -375,6 +730,7 @@ export default function ChatPage() {
     const contact = contacts.find(c => c.id === patientId && c.role === 'patient');
     if (contact) {
       setSelectedContact(contact);
+      setSelectedGroupId(null);
       setSelectedPatientIdFromDropdown(patientId);
       setSelectedNurseIdFromDropdown(""); 
     }
@@ -384,6 +740,7 @@ export default function ChatPage() {
     const contact = contacts.find(c => c.id === nurseId && c.role === 'nurse');
     if (contact) {
       setSelectedContact(contact);
+      setSelectedGroupId(null);
       setSelectedNurseIdFromDropdown(nurseId);
       setSelectedPatientIdFromDropdown(""); 
     }
@@ -391,6 +748,7 @@ export default function ChatPage() {
   
   const handleSelectContactFromList = (contact: Contact) => {
     setSelectedContact(contact);
+    setSelectedGroupId(null);
     if (contact.role === 'patient') {
       setSelectedPatientIdFromDropdown(contact.id);
       setSelectedNurseIdFromDropdown("");
@@ -419,11 +777,21 @@ export default function ChatPage() {
         <CardHeader className="border-b">
           <CardTitle className="flex items-center justify-between">
             Conversations
-            <Button variant="ghost" size="icon" aria-label="New Conversation"><MessageSquarePlus className="h-5 w-5" /></Button>
+            <div className="flex items-center">
+              <ChatMessageSearch onOpenResult={handleOpenSearchResult} />
+              {userRole && userRole !== 'patient' && (
+                <NewGroupChatDialog
+                  candidates={groupCandidates}
+                  patients={patientContactsForDropdown.map(p => ({ id: p.id, name: p.name }))}
+                  onCreated={handleSelectGroup}
+                />
+              )}
+              <Button variant="ghost" size="icon" aria-label="New Conversation"><MessageSquarePlus className="h-5 w-5" /></Button>
+            </div>
           </CardTitle>
            <p className="text-xs text-muted-foreground pt-1">Select a user from the list or dropdowns to start chatting.</p>
            <div className="space-y-2 pt-2">
-            { (userRole === 'admin' || userRole === 'nurse') && (
+            { userRole && userRole !== 'patient' && (
               <Select value={selectedPatientIdFromDropdown} onValueChange={handleSelectPatientFromDropdown} disabled={isLoadingContacts}>
                 <SelectTrigger className="w-full">
                   <Users className="mr-2 h-4 w-4 text-muted-foreground" />
@@ -436,7 +804,7 @@ export default function ChatPage() {
                 </SelectContent>
               </Select>
             )}
-             { (userRole === 'admin' || userRole === 'nurse' || userRole === 'patient') && (
+             { userRole && (
                 <Select value={selectedNurseIdFromDropdown} onValueChange={handleSelectNurseFromDropdown} disabled={isLoadingContacts}>
                 <SelectTrigger className="w-full">
                     <Stethoscope className="mr-2 h-4 w-4 text-muted-foreground" />
@@ -453,6 +821,29 @@ export default function ChatPage() {
         </CardHeader>
         <ScrollArea className="flex-grow">
           <CardContent className="p-0">
+            {groupsWithStatus.map(group => (
+              <div
+                key={group.chatId}
+                className={`flex items-center gap-3 p-3 border-b hover:bg-accent/50 cursor-pointer ${selectedGroupId === group.chatId ? 'bg-accent' : ''}`}
+                onClick={() => handleSelectGroup(group.chatId)}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleSelectGroup(group.chatId)}
+              >
+                <Avatar className="h-10 w-10 shrink-0">
+                  <AvatarFallback>{group.type === 'careTeam' ? <HeartPulse className="h-5 w-5" /> : <Users className="h-5 w-5" />}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-sm truncate">{group.name || "Group"} <span className="text-xs text-muted-foreground">({group.participants.length})</span></p>
+                  <p className={`text-xs truncate ${group.unreadCount ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}>
+                    {group.lastMessage?.preview || (group.type === 'careTeam' ? "Care team channel" : "Group conversation")}
+                  </p>
+                </div>
+                {!!group.unreadCount && (
+                  <Badge variant="destructive" className="shrink-0" aria-label={`${group.unreadCount} unread`}>{formatUnreadCount(group.unreadCount)}</Badge>
+                )}
+              </div>
+            ))}
             {isLoadingContacts && (
               <div className="p-4 text-center text-muted-foreground">
                 <Loader2 className="mx-auto h-6 w-6 animate-spin mb-2" /> Loading contacts...
@@ -468,7 +859,7 @@ export default function ChatPage() {
             {!isLoadingContacts && !errorContacts && contacts.length === 0 && (
               <p className="p-4 text-center text-muted-foreground">No contacts available for chat based on your role and connections.</p>
             )}
-            {!isLoadingContacts && !errorContacts && contacts.map(contact => ( 
+            {!isLoadingContacts && !errorContacts && contactsWithStatus.map(contact => ( 
               <div
                 key={contact.id}
                 className={`flex items-center gap-3 p-3 border-b hover:bg-accent/50 cursor-pointer ${selectedContact?.id === contact.id ? 'bg-accent' : ''}`}
@@ -477,75 +868,277 @@ export default function ChatPage() {
                 tabIndex={0}
                 onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleSelectContactFromList(contact)}
               >
-                <Avatar className="h-10 w-10 relative">
-                  <AvatarImage src={contact.avatarUrl} alt={contact.name} data-ai-hint={contact.hint} />
-                  <AvatarFallback>{contact.name?.split(' ').map(n => n[0]).join('')}</AvatarFallback>
-                  {/* Add online indicator if needed */}
-                </Avatar>
-                <div className="flex-1">
+                <div className="relative shrink-0">
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={contact.avatarUrl} alt={contact.name} data-ai-hint={contact.hint} />
+                    <AvatarFallback>{contact.name?.split(' ').map(n => n[0]).join('')}</AvatarFallback>
+                  </Avatar>
+                  {contact.online && <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-background bg-green-500" aria-label="Online" />}
+                </div>
+                <div className="flex-1 min-w-0">
                   <p className="font-semibold text-sm">{contact.name} <span className="text-xs text-muted-foreground">({contact.role})</span></p>
-                  <p className="text-xs text-muted-foreground truncate">{contact.lastMessage}</p>
+                  <p className={`text-xs truncate ${contact.unread ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}>{contact.lastMessage}</p>
                 </div>
-                {/* Add unread count badge if needed */}
+                {!!contact.unread && (
+                  <Badge variant="destructive" className="shrink-0" aria-label={`${contact.unread} unread`}>{formatUnreadCount(contact.unread)}</Badge>
+                )}
               </div>
             ))}
           </CardContent>
         </ScrollArea>
       </Card>
 
-      {selectedContact && currentUser ? (
+      {(selectedContact || selectedGroupId) && currentUser ? (
         <Card className="flex-1 shadow-lg flex flex-col">
           <CardHeader className="border-b">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
-                <Avatar className="h-10 w-10 relative">
-                  <AvatarImage src={selectedContact.avatarUrl} alt={selectedContact.name} data-ai-hint={selectedContact.hint} />
-                  <AvatarFallback>{selectedContact.name?.split(' ').map(n => n[0]).join('')}</AvatarFallback>
-                </Avatar>
+                {selectedContact ? (
+                  <Avatar className="h-10 w-10 relative">
+                    <AvatarImage src={selectedContact.avatarUrl} alt={selectedContact.name} data-ai-hint={selectedContact.hint} />
+                    <AvatarFallback>{selectedContact.name?.split(' ').map(n => n[0]).join('')}</AvatarFallback>
+                  </Avatar>
+                ) : (
+                  <Avatar className="h-10 w-10">
+                    <AvatarFallback>{selectedGroup?.type === 'careTeam' ? <HeartPulse className="h-5 w-5" /> : <Users className="h-5 w-5" />}</AvatarFallback>
+                  </Avatar>
+                )}
                 <div>
-                  <CardTitle>{selectedContact.name}</CardTitle>
+                  <CardTitle>{selectedContact ? selectedContact.name : selectedGroup?.name || "Group"}</CardTitle>
                   <CardDescription className="text-muted-foreground">
-                    Chatting as {currentUser.displayName || currentUser.email} ({userRole})
+                    <span className={isContactTyping || contactStatus === "Online" ? "text-green-600" : ""}>{contactStatus}</span>
+                    {" "}&middot; Chatting as {currentUser.displayName || currentUser.email} ({userRole})
                   </CardDescription>
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                  {/* Add call/video call buttons if functionality is implemented */}
-                  <Button variant="ghost" size="icon" aria-label="Call"><Phone className="h-5 w-5"/></Button>
-                  <Button variant="ghost" size="icon" aria-label="Video Call"><Video className="h-5 w-5"/></Button>
+                {currentChatId && (
+                  <ChatMessageSearch
+                    key={currentChatId}
+                    chatId={currentChatId}
+                    chatName={selectedContact ? selectedContact.name : selectedGroup?.name ?? undefined}
+                    onOpenResult={result => setHighlightedMessageId(result.messageId)}
+                  />
+                )}
+                {selectedGroup ? (
+                  <GroupChatDetailsDialog
+                    key={selectedGroup.chatId}
+                    chat={selectedGroup}
+                    currentUid={currentUser.uid}
+                    canManage={userRole === 'admin' || selectedGroup.managers.includes(currentUser.uid)}
+                    candidates={groupCandidates}
+                    onLeft={() => setSelectedGroupId(null)}
+                  />
+                ) : (
+                  <>
+                    {/* Add call/video call buttons if functionality is implemented */}
+                    <Button variant="ghost" size="icon" aria-label="Call"><Phone className="h-5 w-5"/></Button>
+                    <Button variant="ghost" size="icon" aria-label="Video Call"><Video className="h-5 w-5"/></Button>
+                  </>
+                )}
               </div>
             </div>
           </CardHeader>
           <ScrollArea className="flex-grow p-4 space-y-4 bg-muted/30">
-              {messages.map(msg => (
-                   <div key={msg.id} className={`flex flex-col ${msg.senderId === currentUser.uid ? 'items-end' : 'items-start'}`}>
-                      <div className={`max-w-xs lg:max-w-md p-3 rounded-lg shadow-sm ${msg.senderId === currentUser.uid ? 'bg-primary text-primary-foreground' : 'bg-card text-card-foreground'}`}>
-                          <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+              {messages.map(msg => {
+                const isOwn = msg.senderId === currentUser.uid;
+                const isEditing = editing?.messageId === msg.id;
+                const canEdit = isOnline && isOwn && !msg.isPending && !msg.deletedAt && canEditChatMessage(msg.timestamp);
+                const canDelete = isOnline && isOwn && !msg.isPending && !msg.deletedAt && canDeleteChatMessage(msg.timestamp);
+                return (
+                   <div key={msg.id} id={`message-${msg.id}`} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                      <div className={`flex items-start gap-1 ${isOwn ? 'flex-row-reverse' : ''}`}>
+                        <div className={`max-w-xs lg:max-w-md p-3 rounded-lg shadow-sm ${isOwn ? 'bg-primary text-primary-foreground' : 'bg-card text-card-foreground'} ${highlightedMessageId === msg.id ? 'ring-2 ring-yellow-400' : ''}`}>
+                            {selectedGroupId && !isOwn && (
+                              <p className="text-xs font-semibold mb-1">{selectedGroup?.participantNames[msg.senderId] || "Former member"}</p>
+                            )}
+                            {msg.deletedAt ? (
+                              <p className="text-sm italic opacity-70">This message was deleted</p>
+                            ) : (
+                              <>
+                                {msg.attachment && (
+                                  <ChatAttachmentPreview
+                                    attachment={msg.attachment}
+                                    isOwn={isOwn}
+                                    canSaveToMedicalFile={canSaveToMedicalFile}
+                                    isSaving={savingMessageId === msg.id}
+                                    onSaveToMedicalFile={() => handleSaveToMedicalFile(msg.id)}
+                                  />
+                                )}
+                                {isEditing ? (
+                                  <form onSubmit={(e) => { e.preventDefault(); handleSaveEdit(); }} className={`flex items-center gap-1 ${msg.attachment ? 'mt-2' : ''}`}>
+                                    <Input
+                                      autoFocus
+                                      className="h-8 bg-background text-foreground"
+                                      value={editing?.text ?? ""}
+                                      maxLength={msg.attachment ? CHAT_CAPTION_MAX_LENGTH : CHAT_MESSAGE_MAX_LENGTH}
+                                      onChange={(e) => setEditing({ messageId: msg.id, text: e.target.value })}
+                                      onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                                      disabled={isSavingEdit}
+                                      aria-label="Edit message"
+                                    />
+                                    <Button type="submit" size="icon" variant="secondary" className="h-8 w-8 shrink-0" aria-label="Save edit" disabled={isSavingEdit || (!editing?.text.trim() && !msg.attachment)}>
+                                      {isSavingEdit ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                                    </Button>
+                                    <Button type="button" size="icon" variant="ghost" className="h-8 w-8 shrink-0" aria-label="Cancel edit" onClick={() => setEditing(null)} disabled={isSavingEdit}>
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  </form>
+                                ) : msg.text && (
+                                  <p className={`text-sm whitespace-pre-wrap ${msg.attachment ? 'mt-2' : ''}`}>
+                                    <MessageText text={msg.text} members={groupMembers} isOwn={isOwn} />
+                                  </p>
+                                )}
+                              </>
+                            )}
+                        </div>
+                        {(canEdit || canDelete) && !isEditing && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" aria-label="Message actions">
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {canEdit && (
+                                <DropdownMenuItem onClick={() => setEditing({ messageId: msg.id, text: msg.text })}>
+                                  <Pencil className="mr-2 h-4 w-4" />
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              {canDelete && (
+                                <DropdownMenuItem className="text-destructive focus:text-destructive" onClick={() => setDeletingMessageId(msg.id)}>
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete for Everyone
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </div>
                       {msg.timestamp && (
-                        <p className={`text-xs mt-1 ${msg.senderId === currentUser.uid ? 'text-muted-foreground text-right self-end' : 'text-muted-foreground text-left self-start'}`}>
+                        <p className={`text-xs mt-1 ${isOwn ? 'text-muted-foreground text-right self-end' : 'text-muted-foreground text-left self-start'}`}>
                            {formatDistanceToNow(msg.timestamp, { addSuffix: true })}
+                           {msg.editedAt && !msg.deletedAt && <span title={`Edited ${formatDistanceToNow(msg.editedAt, { addSuffix: true })}`}> &middot; edited</span>}
+                           {isOwn && msg.isPending && <span> &middot; {isOnline ? "sending..." : "waiting for connection"}</span>}
+                           {isOwn && (
+                             <ReceiptTicks receipt={messageReceipt(
+                               msg.isPending ? null : msg.timestamp,
+                               earliestCursor(currentChat?.deliveredTo ?? {}, otherMemberIds),
+                               earliestCursor(currentChat?.readBy ?? {}, otherMemberIds)
+                             )} />
+                           )}
                         </p>
                       )}
                   </div>
-              ))}
+                );
+              })}
               <div ref={messagesEndRef} />
           </ScrollArea>
-          <CardFooter className="p-4 border-t bg-background">
+          <CardFooter className="p-4 border-t bg-background flex-col items-stretch gap-2">
+            {!isOnline && (
+              <p className="flex items-center gap-2 rounded-md bg-muted px-3 py-2 text-xs text-muted-foreground">
+                <WifiOff className="h-4 w-4" />
+                You are offline. Messages are sent when the connection is back; attachments need a connection.
+              </p>
+            )}
+            {pendingAttachment && (
+              <div className="flex items-center gap-3 rounded-md border bg-muted/50 p-2">
+                {chatAttachmentKind(pendingAttachment.file.type) === 'image' && (
+                  // A local object URL, which next/image cannot optimize.
+                  <img src={pendingAttachment.previewUrl} alt="Attachment preview" className="h-12 w-12 rounded object-cover" />
+                )}
+                {chatAttachmentKind(pendingAttachment.file.type) === 'pdf' && <FileText className="h-8 w-8 text-muted-foreground" />}
+                {chatAttachmentKind(pendingAttachment.file.type) === 'voice' ? (
+                  <audio controls src={pendingAttachment.previewUrl} className="h-10 flex-1" />
+                ) : (
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{pendingAttachment.file.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatAttachmentSize(pendingAttachment.file.size)} &middot; add a caption below or send as is</p>
+                  </div>
+                )}
+                <Button variant="ghost" size="icon" aria-label="Remove attachment" type="button" onClick={clearPendingAttachment} disabled={isSending}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {voiceRecorder.error && <p className="text-xs text-destructive">{voiceRecorder.error}</p>}
+            {mentionSuggestions.length > 0 && (
+              <div className="rounded-md border bg-popover p-1 shadow-md" aria-label="Mention a member">
+                {mentionSuggestions.map(member => (
+                  <button
+                    key={member.uid}
+                    type="button"
+                    className="block w-full rounded px-2 py-1 text-left text-sm hover:bg-accent"
+                    onMouseDown={(e) => e.preventDefault()} // keep the focus (and the typing state) in the input
+                    onClick={() => insertMention(member)}
+                  >
+                    @{member.name}
+                  </button>
+                ))}
+              </div>
+            )}
             <form onSubmit={(e) => { e.preventDefault(); handleSendMessage(); }} className="flex items-center gap-2 w-full">
-              <Button variant="ghost" size="icon" aria-label="Attach file" type="button"><Paperclip className="h-5 w-5" /></Button>
-              <Input 
-                placeholder="Type your message..." 
-                className="flex-1" 
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                disabled={isSending || !currentChatId}
-              />
-              <Button aria-label="Send message" type="submit" disabled={isSending || !currentChatId || newMessage.trim() === ""}>
+              <input type="file" ref={fileInputRef} accept={CHAT_ATTACHMENT_ACCEPT} onChange={handleFileSelected} className="hidden" />
+              <Button
+                variant="ghost" size="icon" aria-label="Attach image or PDF" type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSending || !currentChatId || voiceRecorder.isRecording || !isOnline}
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+              {voiceRecorder.isRecording ? (
+                <div className="flex flex-1 items-center gap-2 rounded-md border border-destructive/50 px-3 h-10 text-sm">
+                  <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+                  Recording {formatVoiceNoteDuration(voiceRecorder.elapsedSeconds)} / {formatVoiceNoteDuration(VOICE_NOTE_MAX_SECONDS)}
+                  <Button variant="ghost" size="sm" type="button" className="ml-auto" onClick={voiceRecorder.cancel}>Cancel</Button>
+                </div>
+              ) : (
+                <Input 
+                  ref={messageInputRef}
+                  placeholder={pendingAttachment ? "Add a caption..." : selectedGroupId ? "Type your message, @ to mention..." : "Type your message..."}
+                  className="flex-1" 
+                  value={newMessage}
+                  maxLength={pendingAttachment ? CHAT_CAPTION_MAX_LENGTH : undefined}
+                  onChange={(e) => handleMessageChange(e.target.value, e.target.selectionStart)}
+                  onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+                  onBlur={() => lastTypingWriteRef.current && setTypingState(false)}
+                  disabled={isSending || !currentChatId}
+                />
+              )}
+              {voiceRecorder.isSupported && (
+                voiceRecorder.isRecording ? (
+                  <Button variant="destructive" size="icon" aria-label="Stop recording" type="button" onClick={voiceRecorder.stop}>
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button variant="ghost" size="icon" aria-label="Record voice note" type="button" onClick={voiceRecorder.start} disabled={isSending || !currentChatId || !isOnline}>
+                    <Mic className="h-5 w-5" />
+                  </Button>
+                )
+              )}
+              <Button aria-label="Send message" type="submit" disabled={isSending || !currentChatId || voiceRecorder.isRecording || (newMessage.trim() === "" && !pendingAttachment) || (!!pendingAttachment && !isOnline)}>
                 {isSending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
               </Button>
             </form>
           </CardFooter>
+          <AlertDialog open={!!deletingMessageId} onOpenChange={open => !open && setDeletingMessageId(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this message for everyone?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The message and its attachment disappear from the conversation for all participants. A copy already saved to a medical file is kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDeleteMessage} disabled={isDeleting}>
+                  {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Delete for Everyone
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </Card>
       ) : (
         <Card className="flex-1 shadow-lg flex flex-col items-center justify-center bg-muted/30">
@@ -219,12 +219,12 @@ export default function DashboardPage() {
         </Card>
         <Card className="hover:shadow-xl transition-shadow duration-300">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Care Quality Score</CardTitle>
+            <CardTitle className="text-sm font-medium">Consult Completion</CardTitle>
             <Activity className="h-5 w-5 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.careQualityScore}</div>
-            <p className="text-xs text-muted-foreground">{stats.careQualityScoreTrend}</p>
+            <div className="text-2xl font-bold">{stats.consultCompletionRate}</div>
+            <p className="text-xs text-muted-foreground">{stats.consultCompletionDetail}</p>
           </CardContent>
         </Card>
       </div>
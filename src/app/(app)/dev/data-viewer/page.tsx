@@ -10,6 +10,8 @@ import { fetchCollectionData } from "@/app/actions"; // Server action
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, DatabaseZap, AlertCircle } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import type { ForbiddenError } from "@/lib/authz";
 
 const KNOWN_COLLECTIONS = ["users", "patients", "nurses", "videoConsults"];
 
@@ -18,6 +20,7 @@ export default function DataViewerPage() {
   const [collectionData, setCollectionData] = useState<any[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
   const [isPending, startTransition] = useTransition();
 
   const handleFetchData = () => {
@@ -27,11 +30,14 @@ export default function DataViewerPage() {
     }
     setIsLoading(true);
     setError(null);
+    setForbiddenError(null);
     setCollectionData(null);
 
     startTransition(async () => {
       const result = await fetchCollectionData(selectedCollection);
-      if (result.data) {
+      if (result.forbidden) {
+        setForbiddenError(result.forbidden);
+      } else if (result.data) {
         setCollectionData(result.data);
       } else {
         setError(result.error || "Failed to fetch collection data.");
@@ -115,6 +121,8 @@ export default function DataViewerPage() {
             </Alert>
           )}
 
+          {forbiddenError && <ForbiddenAlert error={forbiddenError} />}
+
           {collectionData && (
             <Card className="mt-6">
               <CardHeader>
@@ -6,6 +6,7 @@ import { APP_NAME } from '@/lib/constants';
 import Link from 'next/link';
 import { Logo } from '@/components/logo';
 import { AppSidebarContent } from '@/components/app-sidebar-content';
+import { PatientSearch } from '@/components/patient-search';
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -30,6 +31,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
            </div>
           {/* Placeholder for breadcrumbs or page title */}
           <div className="ml-auto flex items-center gap-4">
+            <PatientSearch />
             <UserNav />
           </div>
         </header>
@@ -13,7 +13,9 @@ import 'jspdf-autotable'; // Import for side effects
 import { jsPDF } from 'jspdf'; // Default import
 import { useAuth } from "@/contexts/auth-context";
 import type { MedicalFileItem, PatientListItem } from "@/app/actions";
-import { fetchMedicalFiles, uploadMedicalFile, fetchPatients, fetchPatientById } from "@/app/actions";
+import { fetchMedicalFiles, uploadMedicalFile, fetchPatients, fetchPatientById, fetchPrescriptions, fetchMedicationAdministrations } from "@/app/actions";
+import type { PrescriptionItem, MedicationAdministrationItem } from "@/lib/medications";
+import Link from "next/link";
 import { format, parseISO, isValid } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
@@ -25,7 +27,7 @@ export default function MedicalFilesPage() {
   const [isLoadingFiles, setIsLoadingFiles] = useState(false);
   const [isLoadingPatients, setIsLoadingPatients] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { currentUser, loading: authLoading } = useAuth();
+  const { currentUser, userRole, loading: authLoading } = useAuth();
   const { toast } = useToast();
 
   const [patients, setPatients] = useState<PatientListItem[]>([]);
@@ -34,6 +36,8 @@ export default function MedicalFilesPage() {
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFilterType, setSelectedFilterType] = useState<string>("All");
+  const [activePrescriptions, setActivePrescriptions] = useState<PrescriptionItem[]>([]);
+  const [recentAdministrations, setRecentAdministrations] = useState<MedicationAdministrationItem[]>([]);
 
   // Effect to load patients for the dropdown
   useEffect(() => {
@@ -49,6 +53,17 @@ export default function MedicalFilesPage() {
       setIsLoadingPatients(true);
       setError(null); 
       try {
+        // Patients are not allowed to list other patients; they only manage their own file.
+        if (userRole === 'patient' && currentUser) {
+          const ownRecordResult = await fetchPatientById(currentUser.uid);
+          if (ownRecordResult.data) {
+            setPatients([ownRecordResult.data]);
+            setSelectedPatientId(ownRecordResult.data.id);
+          } else {
+            setError(ownRecordResult.error || "Failed to load your patient record.");
+          }
+          return;
+        }
         const patientsResult = await fetchPatients();
         if (patientsResult.data) {
           setPatients(patientsResult.data);
@@ -65,7 +80,7 @@ export default function MedicalFilesPage() {
       }
     }
     loadPatientsForDropdown();
-  }, [currentUser, authLoading]);
+  }, [currentUser, userRole, authLoading]);
 
   // Effect to load medical files when selectedPatientId changes
   useEffect(() => {
@@ -99,6 +114,24 @@ export default function MedicalFilesPage() {
     loadMedicalFilesForPatient();
   }, [currentUser, selectedPatientId]);
 
+  // Effect to load the medication history summary (from the MAR) for the selected patient
+  useEffect(() => {
+    async function loadMedicationHistory() {
+      if (!currentUser || !selectedPatientId) {
+        setActivePrescriptions([]);
+        setRecentAdministrations([]);
+        return;
+      }
+      const [prescriptionsResult, administrationsResult] = await Promise.all([
+        fetchPrescriptions(selectedPatientId),
+        fetchMedicationAdministrations(selectedPatientId, { limit: 5 }),
+      ]);
+      setActivePrescriptions((prescriptionsResult.data || []).filter(p => p.status === "active"));
+      setRecentAdministrations(administrationsResult.data || []);
+    }
+    loadMedicationHistory();
+  }, [currentUser, selectedPatientId]);
+
 
   const handleFileUploadClick = () => {
     if (!selectedPatientId) {
@@ -470,8 +503,29 @@ export default function MedicalFilesPage() {
                 <CardTitle className="text-base flex items-center"><Pill className="h-5 w-5 text-primary mr-2" /> Medication History</CardTitle>
               </CardHeader>
               <CardContent>
-                <p className="text-xs text-muted-foreground">Quick access to patient medication records.</p>
-                 <Button variant="link" size="sm" className="px-0">View All &rarr;</Button>
+                {!selectedPatientId ? (
+                  <p className="text-xs text-muted-foreground">Select a patient to see their medication record.</p>
+                ) : (
+                  <div className="space-y-2 text-xs">
+                    <p className="text-muted-foreground">
+                      {activePrescriptions.length} active prescription{activePrescriptions.length === 1 ? "" : "s"}
+                      {activePrescriptions.length > 0 && `: ${activePrescriptions.map(p => p.drug).join(", ")}`}
+                    </p>
+                    {recentAdministrations.length > 0 && (
+                      <ul className="space-y-1">
+                        {recentAdministrations.map(a => (
+                          <li key={a.id} className="flex justify-between gap-2">
+                            <span className="truncate">{a.drug} {a.dose}</span>
+                            <span className="text-muted-foreground whitespace-nowrap capitalize">{a.status}, {format(parseISO(a.scheduledFor), "dd/MM HH:mm")}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+                <Button variant="link" size="sm" className="px-0" asChild disabled={!selectedPatientId}>
+                  <Link href={selectedPatientId ? `/patients/${selectedPatientId}/medications` : "#"}>View All &rarr;</Link>
+                </Button>
               </CardContent>
             </Card>
             <Card className="hover:shadow-md transition-shadow">
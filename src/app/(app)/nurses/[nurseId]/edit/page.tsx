@@ -1,21 +1,283 @@
-import React from 'react';
+"use client";
 
-interface EditNurseProfilePageProps{
-  params: {
-    nurseId: string;
-  };
-}
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { useEffect, useState, useTransition } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Loader2, Pencil, Save, UploadCloud } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/auth-context";
+import { fetchNurses, updateNurse, type NurseListItem } from "@/app/actions";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+// Same fields and messages as the add form, minus the email (the nurse's login).
+const editNurseFormSchema = z.object({
+  fullName: z.string().min(2, { message: "Full name must be at least 2 characters." }),
+  specialty: z.string().min(3, { message: "Specialty is required." }),
+  location: z.string().min(3, { message: "Location is required." }),
+  phone: z.string().min(10, { message: "Phone number must be at least 10 digits." }),
+  avatarFile: z
+    .custom<File | undefined>()
+    .refine((file) => !file || file.size <= MAX_FILE_SIZE, `Max file size is 5MB.`)
+    .refine(
+      (file) => !file || ACCEPTED_IMAGE_TYPES.includes(file.type),
+      "Only .jpg, .jpeg, .png and .webp formats are supported."
+    ).optional(),
+});
+
+type EditNurseFormValues = z.infer<typeof editNurseFormSchema>;
+
+export default function EditNurseProfilePage() {
+  const { nurseId } = useParams<{ nurseId: string }>();
+  const { loading: authLoading, userRole } = useAuth();
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [nurse, setNurse] = useState<NurseListItem | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<EditNurseFormValues>({
+    resolver: zodResolver(editNurseFormSchema),
+    defaultValues: {
+      fullName: "",
+      specialty: "",
+      location: "",
+      phone: "",
+      avatarFile: undefined,
+    },
+  });
+
+  useEffect(() => {
+    if (authLoading || userRole !== 'admin') {
+      setIsLoading(false);
+      return;
+    }
+    fetchNurses({ includeArchived: true }).then(result => {
+      const found = result.data?.find(candidate => candidate.id === nurseId);
+      if (found) {
+        setNurse(found);
+        form.reset({
+          fullName: found.name,
+          specialty: found.specialty,
+          location: found.location,
+          phone: found.phone,
+          avatarFile: undefined,
+        });
+      } else {
+        setError(result.error || `Nurse with ID "${nurseId}" not found.`);
+      }
+      setIsLoading(false);
+    });
+  }, [authLoading, userRole, nurseId, form]);
 
-const EditNurseProfilePage: React.FC<EditNurseProfilePageProps> = ({ params }) => {
-  const { nurseId } = params;
+  function onSubmit(values: EditNurseFormValues) {
+    startTransition(async () => {
+      const result = await updateNurse(nurseId, values);
+      if (result.success) {
+        toast({ title: "Nurse Updated", description: result.message });
+        router.push(`/nurses/${nurseId}`);
+      } else {
+        toast({ variant: "destructive", title: "Failed to Update Nurse", description: result.message });
+      }
+    });
+  }
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+        <p>Loading nurse profile...</p>
+      </div>
+    );
+  }
+
+  if (userRole !== 'admin') {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Access Denied</AlertTitle>
+        <AlertDescription>You do not have permission to view this page. Admin privileges required.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (error || !nurse) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error Loading Nurse Profile</AlertTitle>
+        <AlertDescription>{error || "Nurse not found."}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (nurse.recordStatus !== "Active") {
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Inactive nurse</AlertTitle>
+        <AlertDescription>
+          {nurse.name} is inactive. Restore the profile from the{" "}
+          <Link href={`/nurses/${nurse.id}`} className="underline">nurse profile</Link> before editing it.
+        </AlertDescription>
+      </Alert>
+    );
+  }
 
   return (
-    <div>
-      <h1>Edit Nurse Profile</h1>
-      <p>Editing nurse with ID: {nurseId}</p>
-      {/* You will add the edit form and logic here */}
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Edit Nurse</h1>
+        <p className="text-muted-foreground">Update the details of {nurse.name}.</p>
+      </div>
+
+      <Card className="shadow-lg">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Pencil className="h-6 w-6 text-primary" />
+                Nurse Information
+              </CardTitle>
+              <CardDescription>
+                The email address ({nurse.email}) is the nurse&apos;s login and cannot be changed here.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="specialty"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Specialty</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location / Affiliated Clinic</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone Number</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="avatarFile"
+                render={({ field: { onChange, value, ref, ...restField } }) => (
+                  <FormItem>
+                    <FormLabel>Profile Picture</FormLabel>
+                    <div className="flex items-center gap-4">
+                      <Avatar className="h-20 w-20">
+                        <AvatarImage src={avatarPreview || nurse.avatar} alt="Avatar preview" data-ai-hint="nurse medical" />
+                        <AvatarFallback><UploadCloud className="h-8 w-8 text-muted-foreground" /></AvatarFallback>
+                      </Avatar>
+                      <FormControl>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          ref={ref}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            onChange(file);
+                            if (file) {
+                              const reader = new FileReader();
+                              reader.onloadend = () => {
+                                setAvatarPreview(reader.result as string);
+                              };
+                              reader.readAsDataURL(file);
+                            } else {
+                              setAvatarPreview(null);
+                            }
+                          }}
+                          {...restField}
+                          className="block w-full text-sm text-muted-foreground file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
+                        />
+                      </FormControl>
+                    </div>
+                    <FormDescription>Leave empty to keep the current picture (max 5MB, JPG/PNG/WEBP).</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+              <Button type="button" variant="outline" asChild>
+                <Link href={`/nurses/${nurse.id}`}>Cancel</Link>
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Changes
+                  </>
+                )}
+              </Button>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
     </div>
   );
-};
-
-export default EditNurseProfilePage;
\ No newline at end of file
+}
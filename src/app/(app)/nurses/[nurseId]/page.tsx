@@ -4,13 +4,18 @@ import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { deleteDoc } from 'firebase/firestore';
 import type { NurseListItem } from '@/app/actions'; // Import NurseListItem type
+import { deriveNurseStatus, nurseAvailabilityFromData } from '@/lib/availability';
+import { isArchivedRecord } from '@/lib/record-status';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { MapPin, Phone, Mail, Briefcase, AlertCircle, Loader2 } from "lucide-react";
+import { MapPin, Phone, Mail, Briefcase, AlertCircle, Archive, Loader2, Pencil } from "lucide-react";
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import Image from 'next/image';
+import { useAuth } from '@/contexts/auth-context';
+import { NurseAvailabilityCard } from '@/components/nurse-availability';
+import { ArchiveRecordButton } from '@/components/archive-record-button';
 
 interface NurseProfilePageProps {
   params: {
@@ -28,6 +33,10 @@ const NurseProfilePage: React.FC<NurseProfilePageProps> = ({ params }) => {
   const [nurse, setNurse] = useState<Nurse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0); // bumped after archive/restore to refetch
+  const { currentUser, userRole } = useAuth();
+  // Admins manage every calendar; a nurse whose profile is linked to their account manages their own.
+  const canEditAvailability = userRole === 'admin' || currentUser?.uid === nurseId;
 
   useEffect(() => {
     const fetchNurse = async () => {
@@ -47,7 +56,10 @@ const NurseProfilePage: React.FC<NurseProfilePageProps> = ({ params }) => {
             phone: data.phone || "N/A",
             email: data.email || "N/A",
             avatar: data.avatar || `https://placehold.co/100x100.png?text=N`,
-            status: data.status || "Available",
+            status: deriveNurseStatus(data.status, nurseAvailabilityFromData(data)),
+            availability: nurseAvailabilityFromData(data),
+            userId: data.userId ?? null,
+            recordStatus: isArchivedRecord(data) ? "Inactive" : "Active",
             hint: data.hint || 'nurse medical',
             createdAt: data.createdAt, // Include createdAt if needed for display or consistency
           } as Nurse);
@@ -72,7 +84,7 @@ const NurseProfilePage: React.FC<NurseProfilePageProps> = ({ params }) => {
       setNurse(null);
     }
 
-  }, [nurseId]);
+  }, [nurseId, reloadCount]);
 
   if (isLoading) {
     return (
@@ -110,15 +122,40 @@ const NurseProfilePage: React.FC<NurseProfilePageProps> = ({ params }) => {
   return (
     <div className="container mx-auto p-4 space-y-6">
       <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-semibold">Nurse Profile</h1>
-        <Link href={`/nurses/${nurseId}/edit`}>
-          <Button variant="outline" size="sm">
-            Edit Profile
-          </Button>
-        </Link>
-        <p className="text-muted-foreground">Details for {nurse.name}</p>
+        <div>
+          <h1 className="text-2xl font-semibold">Nurse Profile</h1>
+          <p className="text-muted-foreground">Details for {nurse.name}</p>
+        </div>
+        {userRole === 'admin' && (
+          <div className="flex gap-2">
+            {nurse.recordStatus === "Active" && (
+              <Link href={`/nurses/${nurseId}/edit`}>
+                <Button variant="outline" size="sm">
+                  <Pencil className="mr-2 h-4 w-4" /> Edit Profile
+                </Button>
+              </Link>
+            )}
+            <ArchiveRecordButton
+              kind="nurse"
+              id={nurse.id}
+              name={nurse.name}
+              recordStatus={nurse.recordStatus}
+              onChanged={() => setReloadCount(count => count + 1)}
+            />
+          </div>
+        )}
       </div>
 
+      {nurse.recordStatus !== "Active" && (
+        <Alert>
+          <Archive className="h-4 w-4" />
+          <AlertTitle>Inactive nurse</AlertTitle>
+          <AlertDescription>
+            This nurse is no longer active and cannot sign in. Their past care logs and consultations are kept.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card className="shadow-lg">
         <CardHeader className="flex flex-row items-center gap-4 pb-3">
            <Image src={nurse.avatar} alt={nurse.name} width={80} height={80} className="rounded-full border-2 border-primary/50" data-ai-hint={nurse.hint || 'nurse medical'} />
@@ -145,7 +182,14 @@ const NurseProfilePage: React.FC<NurseProfilePageProps> = ({ params }) => {
            {/* Add other nurse details as needed */}
         </CardContent>
       </Card>
-      {/* You can add sections for schedule, appointments, etc. here */}
+      {nurse.availability && (
+        <NurseAvailabilityCard
+          nurseId={nurseId}
+          availability={nurse.availability}
+          canEdit={canEditAvailability}
+          onSaved={availability => setNurse(prev => prev ? { ...prev, availability } : prev)}
+        />
+      )}
     </div>
   );
 };
@@ -75,7 +75,7 @@ export default function AddNursePage() {
       
       if (result.success) {
         toast({
-          title: "Nurse Added & Notified",
+          title: result.invitationSent ? "Nurse Added & Invited" : "Nurse Added",
           description: result.message,
         });
         form.reset();
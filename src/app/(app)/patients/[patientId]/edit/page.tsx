@@ -0,0 +1,358 @@
+
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { useEffect, useState, useTransition } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Loader2, Mail, Pencil, Save, UploadCloud } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import { fetchPatientById, updatePatient, type PatientListItem } from "@/app/actions";
+import type { ForbiddenError } from "@/lib/authz";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+// Same fields and messages as the add form, minus join date and primary nurse
+// (the care team is managed from the patient profile).
+const editPatientFormSchema = z.object({
+  fullName: z.string().min(2, { message: "Full name must be at least 2 characters." }),
+  age: z.coerce.number().int().positive({ message: "Age must be a positive number." }),
+  avatarFile: z
+    .custom<File | undefined>()
+    .refine((file) => !file || file.size <= MAX_FILE_SIZE, `Max file size is 5MB.`)
+    .refine(
+      (file) => !file || ACCEPTED_IMAGE_TYPES.includes(file.type),
+      "Only .jpg, .jpeg, .png and .webp formats are supported."
+    ).optional(),
+  phone: z.string().min(10, { message: "Phone number must be at least 10 digits." }),
+  email: z.string().email({ message: "Please enter a valid email address." }),
+  address: z.string().min(5, { message: "Address is required." }),
+  mobilityStatus: z.string().min(3, { message: "Mobility status is required." }),
+  pathologies: z.string().min(3, { message: "Pathologies are required (comma-separated)." }),
+  allergies: z.string().optional(),
+});
+
+type EditPatientFormValues = z.infer<typeof editPatientFormSchema>;
+
+export default function EditPatientPage() {
+  const { patientId } = useParams<{ patientId: string }>();
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [patient, setPatient] = useState<PatientListItem | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
+
+  const form = useForm<EditPatientFormValues>({
+    resolver: zodResolver(editPatientFormSchema),
+    defaultValues: {
+      fullName: "",
+      age: undefined,
+      avatarFile: undefined,
+      phone: "",
+      email: "",
+      address: "",
+      mobilityStatus: "",
+      pathologies: "",
+      allergies: "",
+    },
+  });
+
+  useEffect(() => {
+    fetchPatientById(patientId).then(result => {
+      if (result.forbidden) setForbiddenError(result.forbidden);
+      if (result.data) {
+        setPatient(result.data);
+        form.reset({
+          fullName: result.data.name,
+          age: result.data.age,
+          avatarFile: undefined,
+          phone: result.data.phone,
+          email: result.data.email,
+          address: result.data.address,
+          mobilityStatus: result.data.mobilityStatus,
+          pathologies: result.data.pathologies.join(", "),
+          allergies: result.data.allergies.join(", "),
+        });
+      } else {
+        setError(result.error || "Patient not found.");
+      }
+      setIsLoading(false);
+    });
+  }, [patientId, form]);
+
+  function onSubmit(values: EditPatientFormValues) {
+    startTransition(async () => {
+      const result = await updatePatient(patientId, values);
+      if (result.success) {
+        toast({ title: "Patient Updated", description: result.message });
+        router.push(`/patients/${patientId}`);
+        router.refresh();
+      } else {
+        toast({ variant: "destructive", title: "Failed to Update Patient", description: result.message });
+      }
+    });
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+        <p>Loading patient record...</p>
+      </div>
+    );
+  }
+
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
+  }
+
+  if (error || !patient) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error || "Patient not found."}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (patient.recordStatus !== "Active") {
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Archived record</AlertTitle>
+        <AlertDescription>
+          {patient.name} is archived ({patient.recordStatus}). An admin must restore the record from the{" "}
+          <Link href={`/patients/${patient.id}`} className="underline">patient profile</Link> before it can be edited.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Edit Patient</h1>
+        <p className="text-muted-foreground">Update the details of {patient.name}.</p>
+      </div>
+
+      <Card className="shadow-lg">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Pencil className="h-6 w-6 text-primary" />
+                Patient Information
+              </CardTitle>
+              <CardDescription>
+                The primary nurse and care team are managed from the patient profile.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="age"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Age</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field}
+                         onChange={e => field.onChange(e.target.value === '' ? undefined : +e.target.value)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="avatarFile"
+                render={({ field: { onChange, value, ref, ...restField } }) => (
+                  <FormItem>
+                    <FormLabel>Profile Picture</FormLabel>
+                    <div className="flex items-center gap-4">
+                      <Avatar className="h-20 w-20">
+                        <AvatarImage src={avatarPreview || patient.avatarUrl} alt="Avatar preview" data-ai-hint="person face" />
+                        <AvatarFallback><UploadCloud className="h-8 w-8 text-muted-foreground" /></AvatarFallback>
+                      </Avatar>
+                      <FormControl>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          ref={ref}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            onChange(file);
+                            if (file) {
+                              const reader = new FileReader();
+                              reader.onloadend = () => {
+                                setAvatarPreview(reader.result as string);
+                              };
+                              reader.readAsDataURL(file);
+                            } else {
+                              setAvatarPreview(null);
+                            }
+                          }}
+                          {...restField}
+                          className="block w-full text-sm text-muted-foreground file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
+                        />
+                      </FormControl>
+                    </div>
+                    <FormDescription>Leave empty to keep the current picture (max 5MB, JPG/PNG/WEBP).</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <CardTitle className="text-lg font-medium pt-4 border-t mt-2">Contact Details</CardTitle>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number</FormLabel>
+                      <FormControl>
+                        <Input type="tel" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email Address</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                          <Input type="email" {...field} className="pl-10" />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <CardTitle className="text-lg font-medium pt-4 border-t mt-2">Health Information</CardTitle>
+              <FormField
+                control={form.control}
+                name="mobilityStatus"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mobility Status</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pathologies"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pathologies</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormDescription>Comma-separated list of medical conditions. The first one is shown as the primary condition.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="allergies"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Allergies (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormDescription>Comma-separated list of known allergies.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+            <CardFooter className="flex justify-end gap-2">
+              <Button type="button" variant="outline" asChild>
+                <Link href={`/patients/${patient.id}`}>Cancel</Link>
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Changes
+                  </>
+                )}
+              </Button>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+}
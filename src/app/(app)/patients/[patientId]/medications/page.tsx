@@ -0,0 +1,625 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { addDays, format, isSameDay, parseISO } from "date-fns";
+import { ArrowLeft, ChevronLeft, ChevronRight, ClipboardList, Loader2, AlertCircle, AlertTriangle, Pill, PlusCircle, Edit, Ban, Check, X, Clock } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/auth-context";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import type { ForbiddenError } from "@/lib/authz";
+import {
+  fetchPatientById, fetchPrescriptions, fetchMedicationAdministrations, addPrescription, updatePrescription,
+  discontinuePrescription, recordMedicationAdministration, type PatientListItem, type PrescriptionFormValues,
+} from "@/app/actions";
+import {
+  MEDICATION_ROUTES, MEDICATION_FREQUENCIES, PRN_FREQUENCY, TIME_OF_DAY_REGEX, buildDoseSchedule, getDefaultScheduleTimes,
+  formatPrescriptionSummary, isPrescriptionActiveOn,
+  type PrescriptionItem, type MedicationAdministrationItem, type AdministrationStatus, type ScheduledDose,
+} from "@/lib/medications";
+import type { PrescriptionConflict } from "@/lib/drug-interactions";
+
+const prescriptionFormSchema = z.object({
+  drug: z.string().trim().min(2, { message: "Drug name is required." }),
+  dose: z.string().trim().min(1, { message: "Dose is required (e.g. 500 mg)." }),
+  route: z.enum(MEDICATION_ROUTES, { errorMap: () => ({ message: "Route is required." }) }),
+  frequency: z.string().min(1, { message: "Frequency is required." }),
+  scheduleTimes: z.string(),
+  startDate: z.string().min(1, { message: "Start date is required." }),
+  endDate: z.string().optional(),
+  prescriber: z.string().trim().min(2, { message: "Prescriber is required." }),
+  instructions: z.string().optional(),
+}).superRefine((values, ctx) => {
+  const times = parseScheduleTimes(values.scheduleTimes);
+  if (values.frequency !== PRN_FREQUENCY && times.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter at least one time (HH:MM).", path: ["scheduleTimes"] });
+  }
+  if (times.some(t => !TIME_OF_DAY_REGEX.test(t))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Times must use the HH:MM format, separated by commas.", path: ["scheduleTimes"] });
+  }
+  if (values.endDate && values.endDate < values.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date must be on or after the start date.", path: ["endDate"] });
+  }
+});
+
+type ClientPrescriptionFormValues = z.infer<typeof prescriptionFormSchema>;
+
+function parseScheduleTimes(value: string): string[] {
+  return value.split(",").map(t => t.trim()).filter(Boolean).map(t => (t.length === 4 ? `0${t}` : t));
+}
+
+const statusBadgeVariant: Record<AdministrationStatus, "default" | "secondary" | "destructive"> = {
+  administered: "default",
+  refused: "secondary",
+  missed: "destructive",
+};
+
+export default function MedicationRecordPage() {
+  const params = useParams();
+  const patientId = params.patientId as string;
+  const { currentUser, userRole, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  // Patients can view their record; prescribing and recording doses is for staff.
+  const canManage = !!userRole && userRole !== "patient";
+
+  const [patient, setPatient] = useState<PatientListItem | null>(null);
+  const [prescriptions, setPrescriptions] = useState<PrescriptionItem[]>([]);
+  const [administrations, setAdministrations] = useState<MedicationAdministrationItem[]>([]);
+  const [selectedDay, setSelectedDay] = useState<Date>(() => new Date());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
+
+  const [isPrescriptionDialogOpen, setIsPrescriptionDialogOpen] = useState(false);
+  const [editingPrescription, setEditingPrescription] = useState<PrescriptionItem | null>(null);
+  const [prescriptionToDiscontinue, setPrescriptionToDiscontinue] = useState<PrescriptionItem | null>(null);
+  const [discontinueReason, setDiscontinueReason] = useState("");
+  const [pendingDose, setPendingDose] = useState<{ dose: ScheduledDose | null; prescription: PrescriptionItem; status: AdministrationStatus } | null>(null);
+  const [doseNotes, setDoseNotes] = useState("");
+  const [correctionReason, setCorrectionReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadPatientAndPrescriptions = useCallback(async () => {
+    const [patientResult, prescriptionsResult] = await Promise.all([fetchPatientById(patientId), fetchPrescriptions(patientId)]);
+    const forbiddenResult = patientResult.forbidden || prescriptionsResult.forbidden;
+    if (forbiddenResult) {
+      setForbiddenError(forbiddenResult);
+      return;
+    }
+    if (patientResult.data) setPatient(patientResult.data);
+    else setError(prev => `${prev ? prev + " " : ""}Failed to load patient: ${patientResult.error || 'Unknown error'}`);
+    if (prescriptionsResult.data) setPrescriptions(prescriptionsResult.data);
+    if (prescriptionsResult.error) setError(prev => `${prev ? prev + " " : ""}${prescriptionsResult.error}`);
+  }, [patientId]);
+
+  const loadAdministrations = useCallback(async () => {
+    const dayStart = new Date(selectedDay.getFullYear(), selectedDay.getMonth(), selectedDay.getDate());
+    const result = await fetchMedicationAdministrations(patientId, {
+      from: dayStart.toISOString(),
+      to: addDays(dayStart, 1).toISOString(),
+    });
+    if (result.data) setAdministrations(result.data);
+    if (result.error) setError(prev => `${prev ? prev + " " : ""}${result.error}`);
+  }, [patientId, selectedDay]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!currentUser) {
+      setError("Please log in to view the medication record.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setForbiddenError(null);
+    loadPatientAndPrescriptions().finally(() => setIsLoading(false));
+  }, [authLoading, currentUser, loadPatientAndPrescriptions]);
+
+  useEffect(() => {
+    if (!authLoading && currentUser) loadAdministrations();
+  }, [authLoading, currentUser, loadAdministrations]);
+
+  const doses = useMemo(() => buildDoseSchedule(prescriptions, administrations, selectedDay), [prescriptions, administrations, selectedDay]);
+  const prnPrescriptions = prescriptions.filter(p => p.scheduleTimes.length === 0 && isPrescriptionActiveOn(p, selectedDay));
+  const prnAdministrations = administrations.filter(a => prnPrescriptions.some(p => p.id === a.prescriptionId));
+
+  const openDoseDialog = (prescription: PrescriptionItem, dose: ScheduledDose | null, status: AdministrationStatus) => {
+    setPendingDose({ prescription, dose, status });
+    setDoseNotes(dose?.administration?.notes || "");
+    setCorrectionReason("");
+  };
+  // Recording over an existing dose record is a correction and needs a reason.
+  const isCorrection = !!pendingDose?.dose?.administration;
+
+  const confirmDose = async () => {
+    if (!pendingDose) return;
+    setIsSubmitting(true);
+    const result = await recordMedicationAdministration({
+      prescriptionId: pendingDose.prescription.id,
+      scheduledFor: pendingDose.dose?.scheduledFor.toISOString(),
+      status: pendingDose.status,
+      notes: doseNotes,
+      correctionReason: isCorrection ? correctionReason : undefined,
+    });
+    setIsSubmitting(false);
+    if (result.success) {
+      toast({ title: "Dose Recorded", description: result.message });
+      setPendingDose(null);
+      loadAdministrations();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Record Dose", description: result.message });
+    }
+  };
+
+  const confirmDiscontinue = async () => {
+    if (!prescriptionToDiscontinue) return;
+    setIsSubmitting(true);
+    const result = await discontinuePrescription(prescriptionToDiscontinue.id, discontinueReason);
+    setIsSubmitting(false);
+    if (result.success) {
+      toast({ title: "Prescription Discontinued", description: result.message });
+      setPrescriptionToDiscontinue(null);
+      setDiscontinueReason("");
+      loadPatientAndPrescriptions();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Discontinue", description: result.message });
+    }
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+        <p>Loading medication record...</p>
+      </div>
+    );
+  }
+
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Button variant="link" className="px-0" asChild>
+            <Link href={`/patients/${patientId}`}><ArrowLeft className="mr-1 h-4 w-4" /> Back to patient</Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Medication Administration Record</h1>
+          <p className="text-muted-foreground">{patient?.name || "Patient"}{patient?.allergies.length ? ` • Allergies: ${patient.allergies.join(", ")}` : ""}</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => { setEditingPrescription(null); setIsPrescriptionDialogOpen(true); }}>
+            <PlusCircle className="mr-2 h-4 w-4" /> New Prescription
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center"><ClipboardList className="mr-2 h-5 w-5 text-primary" /> Dose Schedule</CardTitle>
+            <CardDescription>{format(selectedDay, "EEEE, PPP")}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setSelectedDay(d => addDays(d, -1))} title="Previous day"><ChevronLeft className="h-4 w-4" /></Button>
+            <Input
+              type="date"
+              className="w-[160px]"
+              aria-label="Schedule date"
+              value={format(selectedDay, "yyyy-MM-dd")}
+              onChange={e => e.target.value && setSelectedDay(parseISO(e.target.value))}
+            />
+            <Button variant="outline" size="icon" onClick={() => setSelectedDay(d => addDays(d, 1))} title="Next day"><ChevronRight className="h-4 w-4" /></Button>
+            {!isSameDay(selectedDay, new Date()) && <Button variant="ghost" size="sm" onClick={() => setSelectedDay(new Date())}>Today</Button>}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {doses.length === 0 && prnPrescriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center p-6">No doses scheduled for this day.</p>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Medication</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="text-right">Record</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {doses.map(dose => {
+                    const isOverdue = !dose.administration && dose.scheduledFor.getTime() < Date.now();
+                    return (
+                      <TableRow key={`${dose.prescription.id}-${dose.scheduledFor.toISOString()}`}>
+                        <TableCell className="font-medium whitespace-nowrap">{format(dose.scheduledFor, "HH:mm")}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{dose.prescription.drug}</div>
+                          <div className="text-xs text-muted-foreground">{formatPrescriptionSummary(dose.prescription)}</div>
+                        </TableCell>
+                        <TableCell>
+                          {dose.administration ? (
+                            <div>
+                              <Badge variant={statusBadgeVariant[dose.administration.status]} className="capitalize">{dose.administration.status}</Badge>
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {dose.administration.recordedByName}, {format(parseISO(dose.administration.recordedAt), "PPp")}
+                              </div>
+                              {dose.administration.notes && <div className="text-xs mt-1">{dose.administration.notes}</div>}
+                              {dose.administration.correctionReason && (
+                                <div className="text-xs text-muted-foreground mt-1">Corrected: {dose.administration.correctionReason}</div>
+                              )}
+                            </div>
+                          ) : (
+                            <Badge variant="outline" className={isOverdue ? "border-destructive text-destructive" : ""}>
+                              <Clock className="mr-1 h-3 w-3" /> {isOverdue ? "Overdue" : "Due"}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right space-x-1 whitespace-nowrap">
+                            <Button variant="ghost" size="icon" title="Administered" onClick={() => openDoseDialog(dose.prescription, dose, "administered")}><Check className="h-4 w-4 text-green-600" /></Button>
+                            <Button variant="ghost" size="icon" title="Refused" onClick={() => openDoseDialog(dose.prescription, dose, "refused")}><X className="h-4 w-4" /></Button>
+                            <Button variant="ghost" size="icon" title="Missed" onClick={() => openDoseDialog(dose.prescription, dose, "missed")}><Ban className="h-4 w-4 text-destructive" /></Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                  {prnPrescriptions.map(prescription => (
+                    <TableRow key={`prn-${prescription.id}`}>
+                      <TableCell className="font-medium">PRN</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{prescription.drug}</div>
+                        <div className="text-xs text-muted-foreground">{formatPrescriptionSummary(prescription)}</div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {prnAdministrations.filter(a => a.prescriptionId === prescription.id).map(a => (
+                          <div key={a.id}>{format(parseISO(a.scheduledFor), "HH:mm")} — <span className="capitalize">{a.status}</span> ({a.recordedByName})</div>
+                        ))}
+                        {!prnAdministrations.some(a => a.prescriptionId === prescription.id) && "Not given"}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          {isSameDay(selectedDay, new Date()) && (
+                            <Button variant="outline" size="sm" onClick={() => openDoseDialog(prescription, null, "administered")}>Give dose</Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center"><Pill className="mr-2 h-5 w-5 text-primary" /> Prescriptions</CardTitle>
+          <CardDescription>All prescriptions for this patient, including discontinued ones.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {prescriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center p-6">No prescriptions recorded.</p>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Medication</TableHead>
+                    <TableHead className="hidden md:table-cell">Schedule</TableHead>
+                    <TableHead className="hidden sm:table-cell">Period</TableHead>
+                    <TableHead className="hidden lg:table-cell">Prescriber</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {prescriptions.map(prescription => (
+                    <TableRow key={prescription.id}>
+                      <TableCell>
+                        <div className="font-medium">{prescription.drug}</div>
+                        <div className="text-xs text-muted-foreground">{prescription.dose}, {prescription.route}</div>
+                        {prescription.instructions && <div className="text-xs mt-1">{prescription.instructions}</div>}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-sm">
+                        {prescription.frequency}
+                        {prescription.scheduleTimes.length > 0 && <div className="text-xs text-muted-foreground">{prescription.scheduleTimes.join(", ")}</div>}
+                      </TableCell>
+                      <TableCell className="hidden sm:table-cell text-sm whitespace-nowrap">
+                        {format(parseISO(prescription.startDate), "PP")} – {prescription.endDate ? format(parseISO(prescription.endDate), "PP") : "ongoing"}
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell text-sm">{prescription.prescriber}</TableCell>
+                      <TableCell>
+                        <Badge variant={prescription.status === "active" ? "default" : "secondary"} className="capitalize">{prescription.status}</Badge>
+                        {prescription.discontinuedReason && <div className="text-xs text-muted-foreground mt-1">{prescription.discontinuedReason}</div>}
+                        {prescription.safetyOverride && (
+                          <div className="text-xs mt-1 text-amber-700" title={prescription.safetyOverride.conflicts.map(c => c.message).join("\n")}>
+                            <AlertTriangle className="inline h-3 w-3 mr-1" />
+                            Override by {prescription.safetyOverride.overriddenByName}: {prescription.safetyOverride.reason}
+                          </div>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                          {prescription.status === "active" && (
+                            <>
+                              <Button variant="ghost" size="icon" title="Edit prescription" onClick={() => { setEditingPrescription(prescription); setIsPrescriptionDialogOpen(true); }}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" title="Discontinue" className="text-destructive hover:text-destructive/80" onClick={() => setPrescriptionToDiscontinue(prescription)}>
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <PrescriptionDialog
+          open={isPrescriptionDialogOpen}
+          onOpenChange={setIsPrescriptionDialogOpen}
+          patientId={patientId}
+          canOverride={userRole !== "admin"}
+          prescription={editingPrescription}
+          onSaved={() => { setIsPrescriptionDialogOpen(false); loadPatientAndPrescriptions(); }}
+        />
+      )}
+
+      <Dialog open={!!pendingDose} onOpenChange={open => !open && setPendingDose(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="capitalize">{isCorrection ? "Correct dose to" : "Record dose as"} {pendingDose?.status}</DialogTitle>
+            <DialogDescription>
+              {pendingDose?.prescription.drug} ({pendingDose && formatPrescriptionSummary(pendingDose.prescription)})
+              {pendingDose?.dose ? ` scheduled at ${format(pendingDose.dose.scheduledFor, "PPp")}` : " given now"}.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder={pendingDose?.status === "administered" ? "Optional note" : "Reason (required)"}
+            value={doseNotes}
+            onChange={e => setDoseNotes(e.target.value)}
+            rows={3}
+          />
+          {isCorrection && (
+            <Input
+              placeholder="Reason for correcting this record (required)"
+              value={correctionReason}
+              onChange={e => setCorrectionReason(e.target.value)}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDose(null)}>Cancel</Button>
+            <Button onClick={confirmDose} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!prescriptionToDiscontinue} onOpenChange={open => !open && setPrescriptionToDiscontinue(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Discontinue {prescriptionToDiscontinue?.drug}?</DialogTitle>
+            <DialogDescription>No further doses will be scheduled after today. Past doses stay in the record.</DialogDescription>
+          </DialogHeader>
+          <Textarea placeholder="Reason for discontinuation" value={discontinueReason} onChange={e => setDiscontinueReason(e.target.value)} rows={3} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPrescriptionToDiscontinue(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={confirmDiscontinue} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Discontinue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type PrescriptionDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  prescription: PrescriptionItem | null;
+  canOverride: boolean;
+  onSaved: () => void;
+};
+
+function PrescriptionDialog({ open, onOpenChange, patientId, prescription, canOverride, onSaved }: PrescriptionDialogProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  // Allergy / interaction conflicts returned by the last save attempt.
+  const [conflicts, setConflicts] = useState<PrescriptionConflict[]>([]);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const form = useForm<ClientPrescriptionFormValues>({
+    resolver: zodResolver(prescriptionFormSchema),
+    defaultValues: {
+      drug: "", dose: "", route: "Oral", frequency: "Once daily", scheduleTimes: "08:00",
+      startDate: format(new Date(), "yyyy-MM-dd"), endDate: "", prescriber: "", instructions: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setConflicts([]);
+    setOverrideReason("");
+    form.reset(prescription ? {
+      drug: prescription.drug,
+      dose: prescription.dose,
+      route: prescription.route as ClientPrescriptionFormValues["route"],
+      frequency: prescription.frequency,
+      scheduleTimes: prescription.scheduleTimes.join(", "),
+      startDate: format(parseISO(prescription.startDate), "yyyy-MM-dd"),
+      endDate: prescription.endDate ? format(parseISO(prescription.endDate), "yyyy-MM-dd") : "",
+      prescriber: prescription.prescriber,
+      instructions: prescription.instructions || "",
+    } : {
+      drug: "", dose: "", route: "Oral", frequency: "Once daily", scheduleTimes: "08:00",
+      startDate: format(new Date(), "yyyy-MM-dd"), endDate: "", prescriber: "", instructions: "",
+    });
+  }, [open, prescription, form]);
+
+  async function onSubmit(values: ClientPrescriptionFormValues) {
+    const actionValues: PrescriptionFormValues = {
+      ...values,
+      patientId,
+      scheduleTimes: parseScheduleTimes(values.scheduleTimes),
+      // Date inputs are local calendar days.
+      startDate: parseISO(values.startDate),
+      endDate: values.endDate ? parseISO(values.endDate) : undefined,
+      overrideReason: conflicts.length > 0 ? overrideReason : undefined,
+    };
+    setIsSaving(true);
+    const result = prescription ? await updatePrescription(prescription.id, actionValues) : await addPrescription(actionValues);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: prescription ? "Prescription Updated" : "Prescription Added", description: result.message });
+      onSaved();
+    } else if (result.conflicts?.length) {
+      setConflicts(result.conflicts);
+      toast({ variant: "destructive", title: "Safety Check Failed", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: prescription ? "Failed to Update Prescription" : "Failed to Add Prescription", description: result.message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{prescription ? "Edit Prescription" : "New Prescription"}</DialogTitle>
+          <DialogDescription>Doses are scheduled daily at the listed times between the start and end dates.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3 max-h-[65vh] overflow-y-auto pr-2">
+            <div className="grid grid-cols-2 gap-3">
+              <FormField control={form.control} name="drug" render={({ field }) => (
+                <FormItem><FormLabel>Drug</FormLabel><FormControl><Input placeholder="e.g. Metformine" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="dose" render={({ field }) => (
+                <FormItem><FormLabel>Dose</FormLabel><FormControl><Input placeholder="e.g. 500 mg" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField control={form.control} name="route" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Route</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select route" /></SelectTrigger></FormControl>
+                    <SelectContent>{MEDICATION_ROUTES.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}</SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="frequency" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Frequency</FormLabel>
+                  <Select
+                    onValueChange={value => {
+                      field.onChange(value);
+                      form.setValue("scheduleTimes", getDefaultScheduleTimes(value).join(", "), { shouldValidate: true });
+                    }}
+                    value={field.value}
+                  >
+                    <FormControl><SelectTrigger><SelectValue placeholder="Select frequency" /></SelectTrigger></FormControl>
+                    <SelectContent>{MEDICATION_FREQUENCIES.map(f => <SelectItem key={f.value} value={f.value}>{f.value}</SelectItem>)}</SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </div>
+            <FormField control={form.control} name="scheduleTimes" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Administration times</FormLabel>
+                <FormControl><Input placeholder="08:00, 20:00" disabled={form.watch("frequency") === PRN_FREQUENCY} {...field} /></FormControl>
+                <FormDescription>Comma-separated, 24-hour clock. Not used for PRN medications.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )} />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField control={form.control} name="startDate" render={({ field }) => (
+                <FormItem><FormLabel>Start date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="endDate" render={({ field }) => (
+                <FormItem><FormLabel>End date (optional)</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+            </div>
+            <FormField control={form.control} name="prescriber" render={({ field }) => (
+              <FormItem><FormLabel>Prescriber</FormLabel><FormControl><Input placeholder="e.g. Dr. Ben Ali" {...field} /></FormControl><FormMessage /></FormItem>
+            )} />
+            <FormField control={form.control} name="instructions" render={({ field }) => (
+              <FormItem><FormLabel>Instructions (optional)</FormLabel><FormControl><Textarea rows={2} placeholder="e.g. Take with food" {...field} /></FormControl><FormMessage /></FormItem>
+            )} />
+            {conflicts.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Safety conflicts</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <ul className="list-disc list-inside space-y-1">
+                    {conflicts.map((conflict, index) => (
+                      <li key={index}><span className="font-semibold uppercase text-xs">{conflict.severity}</span> {conflict.message}</li>
+                    ))}
+                  </ul>
+                  {canOverride ? (
+                    <Textarea
+                      rows={2}
+                      placeholder="Clinical reason for overriding these warnings"
+                      value={overrideReason}
+                      onChange={e => setOverrideReason(e.target.value)}
+                    />
+                  ) : (
+                    <p>Only a clinician can override these warnings.</p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={isSaving || (conflicts.length > 0 && (!canOverride || overrideReason.trim().length < 10))}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {conflicts.length > 0 ? "Override and Save" : prescription ? "Save Changes" : "Add Prescription"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
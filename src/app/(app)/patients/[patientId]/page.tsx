@@ -2,11 +2,24 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { PersonalizedCareForm } from "@/components/personalized-care-form";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Briefcase, CalendarDays, Droplets, ShieldCheck, HeartPulse, Accessibility, Users, AlertCircle } from "lucide-react";
+import { Briefcase, CalendarDays, Droplets, ShieldCheck, HeartPulse, Accessibility, Users, AlertCircle, ClipboardList, Archive, Pencil } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import Image from "next/image";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
 import { fetchPatientById, type PatientListItem } from "@/app/actions"; // Import fetchPatientById
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ForbiddenAlert } from "@/components/forbidden-alert";
+import { VitalsTrends } from "@/components/vitals-trends";
+import { CareTeamCard } from "@/components/care-team-card";
+import { CareTeamChatButton } from "@/components/care-team-chat-button";
+import { FamilyCaregiversCard } from "@/components/family-caregivers-card";
+import { ArchiveRecordButton } from "@/components/archive-record-button";
+import { PatientAccessLogCard } from "@/components/audit-log";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { VITAL_SIGN_DEFINITIONS, formatVitalSign, formatBloodPressure, resolveVitalSignThresholds, findOutOfRangeVitalSigns } from "@/lib/vitals";
+import { getSessionUser, isStaffRole } from "@/lib/authz";
+import { format, parseISO } from "date-fns";
 
 // This MOCK_PATIENT is now a fallback or for structure reference, 
 // actual data comes from fetchPatientById
@@ -16,7 +29,10 @@ const MOCK_PATIENT_STRUCTURE: PatientListItem = {
   age: 72,
   avatarUrl: "https://placehold.co/150x150.png",
   joinDate: "2023-05-12",
+  primaryNurseId: null,
   primaryNurse: "Nurse Nightingale",
+  careTeamIds: [],
+  userId: null,
   phone: "+1 (555) 123-4567",
   email: "eleanor.vance@example.com",
   address: "456 Oak Avenue, Springfield, IL",
@@ -27,20 +43,8 @@ const MOCK_PATIENT_STRUCTURE: PatientListItem = {
   lastVisit: '2024-07-22', 
   condition: 'COPD', 
   status: 'Stable',
+  recordStatus: 'Active',
   hint: 'elderly person',
-  // Additional fields that were on PatientProfilePage
-  currentMedications: [ // This was on the original page, ensure it's part of PatientListItem or fetched separately
-    { name: "Lisinopril", dosage: "10mg daily" },
-    { name: "Metformin", dosage: "500mg twice daily" },
-    { name: "Acetaminophen", dosage: "500mg as needed for pain" },
-  ],
-  recentVitals: { // This also needs to be part of PatientListItem or fetched separately
-    date: "2024-07-28",
-    bp: "135/85 mmHg",
-    hr: "72 bpm",
-    temp: "36.8°C",
-    glucose: "110 mg/dL",
-  },
 };
 
 
@@ -49,7 +53,15 @@ type PatientProfilePageProps = {
 };
 
 export default async function PatientProfilePage({ params }: PatientProfilePageProps) {
-  const { data: patient, error } = await fetchPatientById(params.patientId);
+  const { data: patient, error, forbidden } = await fetchPatientById(params.patientId);
+
+  if (forbidden) {
+    return (
+        <div className="container mx-auto p-4">
+            <ForbiddenAlert error={forbidden} />
+        </div>
+    );
+  }
 
   if (error || !patient) {
     return (
@@ -63,15 +75,47 @@ export default async function PatientProfilePage({ params }: PatientProfilePageP
     );
   }
 
-  // Assuming currentMedications and recentVitals are part of the fetched patient data
-  // If not, they need to be added to PatientListItem and mockPatients in actions.ts
-  // For now, we'll use the structure from MOCK_PATIENT_STRUCTURE if not on 'patient'
-  const medications = (patient as any).currentMedications || MOCK_PATIENT_STRUCTURE.currentMedications;
-  const vitals = (patient as any).recentVitals || MOCK_PATIENT_STRUCTURE.recentVitals;
+  // currentMedications summarizes the active prescriptions of the medication record (MAR).
+  const medications = patient.currentMedications || [];
+  // recentVitals comes from the latest vitalSigns readings recorded in care tracking.
+  const vitals = patient.recentVitals;
+  const otherVitalDefinitions = VITAL_SIGN_DEFINITIONS.filter(def => def.key !== "bpSystolic" && def.key !== "bpDiastolic");
+  const outOfRangeKeys = new Set(
+    vitals ? findOutOfRangeVitalSigns(vitals, resolveVitalSignThresholds(patient.vitalThresholds)).map(v => v.key) : []
+  );
+  const sessionUser = await getSessionUser();
 
 
+  const isArchived = patient.recordStatus !== "Active";
+  // Same rule as fetchPatientAccessLog.
+  const canViewAccessLog = sessionUser?.role === "admin" || sessionUser?.uid === patient.id;
+
   return (
     <div className="space-y-6">
+      {isArchived && (
+        <Alert>
+          <Archive className="h-4 w-4" />
+          <AlertTitle>Archived record: {patient.recordStatus}</AlertTitle>
+          <AlertDescription>
+            {patient.archivedAt ? `Archived on ${format(parseISO(patient.archivedAt), "PPP")}. ` : ""}
+            {patient.archiveReason ? `Reason: ${patient.archiveReason}. ` : ""}
+            The record is hidden from lists and read-only until it is restored.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {!isArchived && <CareTeamChatButton patientId={patient.id} />}
+        {isStaffRole(sessionUser?.role) && !isArchived && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/patients/${patient.id}/edit`}><Pencil className="mr-2 h-4 w-4" />Edit Record</Link>
+          </Button>
+        )}
+        {sessionUser?.role === "admin" && (
+          <ArchiveRecordButton kind="patient" id={patient.id} name={patient.name} recordStatus={patient.recordStatus} />
+        )}
+      </div>
+
       <Card className="shadow-lg overflow-hidden">
         <div className="relative h-48 bg-gradient-to-r from-primary/80 to-secondary/80">
           <Image 
@@ -113,77 +157,105 @@ export default async function PatientProfilePage({ params }: PatientProfilePageP
         </CardContent>
       </Card>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <div className="lg:col-span-2 space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2"><HeartPulse className="h-5 w-5 text-primary" />Pathologies & Conditions</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ul className="list-disc list-inside space-y-1 text-sm">
-                {patient.pathologies.map((pathology, index) => (
-                  <li key={index}>{pathology}</li>
-                ))}
-                 {patient.pathologies.length === 0 && <li>No pathologies reported.</li>}
-              </ul>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2"><Briefcase className="h-5 w-5 text-primary" />Current Medications</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <ul className="space-y-2 text-sm">
-                {medications.map((med: {name: string, dosage: string}, index: number) => (
-                  <li key={index} className="flex justify-between">
-                    <span>{med.name}</span>
-                    <span className="text-muted-foreground">{med.dosage}</span>
-                  </li>
-                ))}
-                {medications.length === 0 && <li>No current medications reported.</li>}
-              </ul>
-            </CardContent>
-          </Card>
-        </div>
+      <Tabs defaultValue="overview" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          {canViewAccessLog && <TabsTrigger value="access-log">Access Log</TabsTrigger>}
+        </TabsList>
 
-        <Card className="lg:row-span-2">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5 text-primary" />Recent Vitals</CardTitle>
-            <CardDescription>As of {vitals.date}</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <div>
-              <p className="text-xs text-muted-foreground">Blood Pressure</p>
-              <p className="font-semibold">{vitals.bp}</p>
-            </div>
-            <Separator />
-            <div>
-              <p className="text-xs text-muted-foreground">Heart Rate</p>
-              <p className="font-semibold">{vitals.hr}</p>
-            </div>
-            <Separator />
-            <div>
-              <p className="text-xs text-muted-foreground">Temperature</p>
-              <p className="font-semibold">{vitals.temp}</p>
-            </div>
-            <Separator />
-            <div>
-              <p className="text-xs text-muted-foreground">Blood Glucose</p>
-              <p className="font-semibold">{vitals.glucose}</p>
+        <TabsContent value="overview" className="space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2"><HeartPulse className="h-5 w-5 text-primary" />Pathologies & Conditions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="list-disc list-inside space-y-1 text-sm">
+                    {patient.pathologies.map((pathology, index) => (
+                      <li key={index}>{pathology}</li>
+                    ))}
+                     {patient.pathologies.length === 0 && <li>No pathologies reported.</li>}
+                  </ul>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2"><Briefcase className="h-5 w-5 text-primary" />Current Medications</CardTitle>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/patients/${patient.id}/medications`}><ClipboardList className="mr-2 h-4 w-4" />Medication Record</Link>
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2 text-sm">
+                    {medications.map((med: {name: string, dosage: string}, index: number) => (
+                      <li key={index} className="flex justify-between">
+                        <span>{med.name}</span>
+                        <span className="text-muted-foreground">{med.dosage}</span>
+                      </li>
+                    ))}
+                    {medications.length === 0 && <li>No current medications reported.</li>}
+                  </ul>
+                </CardContent>
+              </Card>
+
+              <CareTeamCard patientId={patient.id} canManage={sessionUser?.role === "admin"} />
+
+              <FamilyCaregiversCard patientId={patient.id} canManage={sessionUser?.role === "admin" || sessionUser?.uid === patient.id} />
             </div>
-          </CardContent>
-        </Card>
-      </div>
 
-      <PersonalizedCareForm 
-        patient={{
-          id: patient.id,
-          name: patient.name,
-          mobility: patient.mobilityStatus,
-          pathologies: patient.pathologies,
-        }} 
-      />
+            <Card className="lg:row-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5 text-primary" />Recent Vitals</CardTitle>
+                <CardDescription>
+                  {vitals ? `As of ${format(parseISO(vitals.date), "PPp")}` : "No vitals recorded yet."}
+                </CardDescription>
+              </CardHeader>
+              {vitals && (
+                <CardContent className="space-y-3">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Blood Pressure</p>
+                    <p className={`font-semibold ${outOfRangeKeys.has("bpSystolic") || outOfRangeKeys.has("bpDiastolic") ? "text-destructive" : ""}`}>{formatBloodPressure(vitals)}</p>
+                  </div>
+                  {otherVitalDefinitions.map(def => (
+                    <div key={def.key} className="space-y-3">
+                      <Separator />
+                      <div>
+                        <p className="text-xs text-muted-foreground">{def.label}</p>
+                        <p className={`font-semibold ${outOfRangeKeys.has(def.key) ? "text-destructive" : ""}`}>{formatVitalSign(def.key, vitals[def.key])}</p>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              )}
+            </Card>
+          </div>
+
+          <VitalsTrends
+            patientId={patient.id}
+            thresholds={patient.vitalThresholds}
+            canEditThresholds={isStaffRole(sessionUser?.role)}
+          />
+
+          <PersonalizedCareForm 
+            patient={{
+              id: patient.id,
+              name: patient.name,
+              mobility: patient.mobilityStatus,
+              pathologies: patient.pathologies,
+            }} 
+          />
+        </TabsContent>
+
+        {canViewAccessLog && (
+          <TabsContent value="access-log">
+            <PatientAccessLogCard patientId={patient.id} />
+          </TabsContent>
+        )}
+      </Tabs>
     </div>
   );
 }
@@ -4,7 +4,7 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { useState, useTransition } from "react";
+import { useEffect, useState, useTransition } from "react";
 import { format } from "date-fns";
 import { useRouter } from "next/navigation"; 
 
@@ -28,7 +28,7 @@ import { cn } from "@/lib/utils";
 import { CalendarIcon, Loader2, UserPlus, UploadCloud, Mail, Users } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { addPatient, type AddPatientFormValues as ActionAddPatientFormValues } from "@/app/actions";
+import { addPatient, fetchNurses, type AddPatientFormValues as ActionAddPatientFormValues, type NurseListItem } from "@/app/actions";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
@@ -46,7 +46,7 @@ const patientFormSchema = z.object({
       "Only .jpg, .jpeg, .png and .webp formats are supported."
     ).optional(),
   joinDate: z.date({ required_error: "Join date is required." }),
-  primaryNurse: z.string().min(1, { message: "Primary nurse selection is required." }),
+  primaryNurseId: z.string().min(1, { message: "Primary nurse selection is required." }),
   phone: z.string().min(10, { message: "Phone number must be at least 10 digits." }),
   email: z.string().email({ message: "Please enter a valid email address." }),
   address: z.string().min(5, { message: "Address is required." }),
@@ -57,21 +57,21 @@ const patientFormSchema = z.object({
 
 type ClientPatientFormValues = z.infer<typeof patientFormSchema>;
 
-const mockNurses = [
-  { id: 'n1', name: 'Nurse Alex Ray' },
-  { id: 'n2', name: 'Nurse Betty Boo' },
-  { id: 'n3', name: 'Nurse Charles Xavier' },
-  { id: 'n4', name: 'Nurse Diana Prince' },
-  { id: 'n5', name: 'Nurse Nightingale'},
-];
-
 export default function AddPatientPage() {
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
   const router = useRouter();
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [nurses, setNurses] = useState<NurseListItem[]>([]);
   // No need for separate avatarFile state if form.watch or form.getValues is used for the file object
 
+  useEffect(() => {
+    fetchNurses().then(result => {
+      if (result.data) setNurses(result.data);
+      else toast({ variant: "destructive", title: "Error Loading Nurses", description: result.error || "Could not load the nurse list." });
+    });
+  }, [toast]);
+
   const form = useForm<ClientPatientFormValues>({
     resolver: zodResolver(patientFormSchema),
     defaultValues: {
@@ -79,7 +79,7 @@ export default function AddPatientPage() {
       age: undefined,
       avatarFile: undefined,
       joinDate: undefined,
-      primaryNurse: "",
+      primaryNurseId: "",
       phone: "",
       email: "",
       address: "",
@@ -258,7 +258,7 @@ export default function AddPatientPage() {
                 />
                 <FormField
                   control={form.control}
-                  name="primaryNurse"
+                  name="primaryNurseId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Primary Nurse</FormLabel>
@@ -270,8 +270,8 @@ export default function AddPatientPage() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {mockNurses.map(nurse => (
-                            <SelectItem key={nurse.id} value={nurse.name}>
+                          {nurses.map(nurse => (
+                            <SelectItem key={nurse.id} value={nurse.id}>
                               {nurse.name}
                             </SelectItem>
                           ))}
@@ -2,17 +2,25 @@
 "use client";
 
 import Link from 'next/link';
-import { useEffect, useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { PlusCircle, Eye, AlertCircle, Loader2 } from 'lucide-react';
+import { PlusCircle, Eye, AlertCircle, Loader2, Search } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import type { PatientListItem } from '@/app/actions'; // Keep type definition
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { NurseListItem, PatientListItem } from '@/app/actions';
+import { fetchNurses, fetchPatients } from '@/app/actions';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { ForbiddenAlert } from '@/components/forbidden-alert';
+import { ListPagination } from '@/components/list-pagination';
 import { useAuth } from '@/contexts/auth-context';
-import { db } from '@/lib/firebase'; // Import db
-import { collection, getDocs, Timestamp, query, orderBy } from 'firebase/firestore'; // Import Firestore functions
+import { useListParams } from '@/hooks/use-list-params';
+import type { ForbiddenError } from '@/lib/authz';
+import { DEFAULT_PAGE_SIZE, PATIENT_SORT_FIELDS, PATIENT_STATUSES, SORT_DIRECTIONS, enumFromParam } from '@/lib/list-query';
 
 type PatientStatus = 'Stable' | 'Needs Follow-up' | 'Improving' | string;
 
@@ -42,138 +50,99 @@ const getStatusBadgeClassNames = (status: PatientStatus) => {
     }
 }
 
+const ALL = "all"; // Select items cannot have an empty value
+
+const SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "name:asc", label: "Name (A-Z)" },
+  { value: "name:desc", label: "Name (Z-A)" },
+  { value: "lastVisit:desc", label: "Most recent visit" },
+  { value: "lastVisit:asc", label: "Least recent visit" },
+];
+
 export default function PatientsListPage() {
+  // useListParams reads the URL query string, which needs a Suspense boundary.
+  return (
+    <Suspense fallback={<PatientsLoading />}>
+      <PatientsList />
+    </Suspense>
+  );
+}
+
+function PatientsLoading() {
+  return (
+    <div className="flex items-center justify-center h-64">
+      <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
+      <p>Loading patient data...</p>
+    </div>
+  );
+}
+
+function PatientsList() {
   const { currentUser, loading: authLoading } = useAuth();
-  const [patients, setPatients] = useState<PatientListItem[] | null>(null);
+  const { params, cursor, queryKey, setParams, nextPage, previousPage, hasPreviousPage, pageNumber } =
+    useListParams(["q", "status", "nurse", "sort", "archived"] as const);
+  const [patients, setPatients] = useState<PatientListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [nurses, setNurses] = useState<NurseListItem[]>([]);
+  const [searchInput, setSearchInput] = useState(params.q);
   const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true); 
+  const [forbiddenError, setForbiddenError] = useState<ForbiddenError | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [sortBy, sortDirection] = params.sort.split(":");
+  const showArchived = params.archived === "1"; // archived records are hidden unless asked for
 
   useEffect(() => {
-    console.log("[CLIENT_LOG] PatientsListPage useEffect triggered. AuthLoading:", authLoading, "CurrentUser:", !!currentUser);
+    setSearchInput(params.q);
+  }, [params.q]);
 
-    async function loadPatientsDirectly() {
-      console.log("[CLIENT_LOG] PatientsListPage loadPatientsDirectly: Initiating direct Firestore fetch.");
-      setIsLoading(true);
-      setError(null);
-      setPatients(null);
-
-      try {
-        const patientsCollectionRef = collection(db, "patients");
-        // const q = query(patientsCollectionRef); // Simplified query
-        const q = query(patientsCollectionRef, orderBy("createdAt", "desc"));
-        console.log("[CLIENT_LOG] PatientsListPage loadPatientsDirectly: Created collection reference. Attempting getDocs...");
-        
-        const patientsSnapshot = await getDocs(q);
-        console.log(`[CLIENT_LOG] PatientsListPage loadPatientsDirectly: getDocs successful. Found ${patientsSnapshot.docs.length} documents.`);
-        
-        const patientsList = patientsSnapshot.docs.map(docSnap => {
-          const data = docSnap.data();
-          return {
-            id: docSnap.id,
-            name: data.name || "N/A",
-            age: data.age || 0,
-            avatarUrl: data.avatarUrl || `https://placehold.co/100x100.png?text=P`,
-            joinDate: data.joinDate instanceof Timestamp ? data.joinDate.toDate().toISOString().split('T')[0] : data.joinDate || new Date().toISOString().split('T')[0],
-            primaryNurse: data.primaryNurse || "N/A",
-            phone: data.phone || "N/A",
-            email: data.email || "N/A",
-            address: data.address || "N/A",
-            mobilityStatus: data.mobilityStatus || "N/A",
-            pathologies: Array.isArray(data.pathologies) ? data.pathologies : [],
-            allergies: Array.isArray(data.allergies) ? data.allergies : [],
-            lastVisit: data.lastVisit instanceof Timestamp ? data.lastVisit.toDate().toISOString().split('T')[0] : data.lastVisit || new Date().toISOString().split('T')[0],
-            condition: data.condition || "N/A",
-            status: data.status || "N/A",
-            hint: data.hint || 'person face',
-            createdAt: data.createdAt, // Keep original timestamp if needed for sorting, or convert
-          } as PatientListItem;
-        });
-        console.log("[CLIENT_LOG] PatientsListPage loadPatientsDirectly: Data mapping complete. Setting patients state.");
-        setPatients(patientsList);
-      } catch (e: any) {
-        console.error("[CLIENT_ERROR] PatientsListPage loadPatientsDirectly: Exception during direct Firestore fetch:", e);
-        setError(e.message || "An unexpected error occurred while fetching patients directly.");
-        setPatients(null);
-      } finally {
-        console.log("[CLIENT_LOG] PatientsListPage loadPatientsDirectly: Fetch finished, setting component isLoading to false.");
-        setIsLoading(false);
-      }
-    }
+  useEffect(() => {
+    if (authLoading || !currentUser) return;
+    fetchNurses({ includeArchived: true }).then(result => setNurses(result.data || []));
+  }, [authLoading, currentUser]);
 
+  useEffect(() => {
     if (authLoading) {
-      console.log("[CLIENT_LOG] PatientsListPage: Auth is loading, setting component isLoading to true.");
       setIsLoading(true);
       return;
     }
-
     if (!currentUser) {
-      console.log("[CLIENT_LOG] PatientsListPage: No current user. Setting error and stopping load.");
       setError("User not authenticated. Please log in to view patients.");
       setIsLoading(false);
-      setPatients(null); 
+      setPatients([]);
       return;
     }
-    
-    console.log("[CLIENT_LOG] PatientsListPage: User is authenticated (currentUser.uid:", currentUser.uid, "). Proceeding to load patients directly.");
-    loadPatientsDirectly();
-
-  }, [currentUser, authLoading]);
-
-  if (isLoading) {
-    console.log("[CLIENT_LOG] PatientsListPage render: isLoading is true. Showing loader.");
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="mr-2 h-8 w-8 animate-spin text-primary" />
-        <p>Loading patient data...</p>
-      </div>
-    );
-  }
 
-  if (error) {
-    console.log("[CLIENT_LOG] PatientsListPage render: error is present. Showing error alert:", error);
-    return (
-      <div className="container mx-auto p-4">
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertTitle>Error Loading Patients</AlertTitle>
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-         {/* <Button onClick={() => router.push('/dashboard')} className="mt-4">Go to Dashboard</Button> */}
-      </div>
-    );
-  }
-  
-  if (!patients || patients.length === 0) {
-    console.log("[CLIENT_LOG] PatientsListPage render: No patients data or empty array. Showing 'No patients found'.");
-     return (
-      <div className="space-y-6">
-        <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-2xl font-semibold">Patient Management</h1>
-            <p className="text-muted-foreground">View, add, and manage patient records.</p>
-          </div>
-          <Button asChild>
-            <Link href="/patients/new">
-              <PlusCircle className="mr-2 h-4 w-4" /> Add New Patient
-            </Link>
-          </Button>
-        </div>
-        <Card className="shadow-lg">
-          <CardHeader>
-            <CardTitle>All Patients</CardTitle>
-            <CardDescription>A list of all registered patients in the system.</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center py-10">
-              <p className="text-muted-foreground">No patients found. Get started by adding a new patient or ensure you are logged in and have the necessary permissions.</p>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    );
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchPatients({
+      pageSize: DEFAULT_PAGE_SIZE,
+      cursor,
+      search: params.q || undefined,
+      status: params.status || undefined,
+      nurseId: params.nurse || undefined,
+      sortBy: enumFromParam(PATIENT_SORT_FIELDS, sortBy),
+      sortDirection: enumFromParam(SORT_DIRECTIONS, sortDirection),
+      includeArchived: showArchived,
+    }).then(result => {
+      if (cancelled) return;
+      if (result.forbidden) setForbiddenError(result.forbidden);
+      setPatients(result.data || []);
+      setNextCursor(result.nextCursor ?? null);
+      setError(result.error ?? null);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+    // queryKey covers every URL parameter read above.
+  }, [currentUser, authLoading, queryKey]);
+
+  if (forbiddenError) {
+    return <ForbiddenAlert error={forbiddenError} />;
   }
 
-  console.log("[CLIENT_LOG] PatientsListPage render: Rendering patient table with", patients.length, "patients.");
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -189,51 +158,112 @@ export default function PatientsListPage() {
       </div>
 
       <Card className="shadow-lg">
-        <CardHeader>
-          <CardTitle>All Patients</CardTitle>
-          <CardDescription>A list of all registered patients in the system.</CardDescription>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle>All Patients</CardTitle>
+              <CardDescription>A list of all registered patients in the system.</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived-patients" checked={showArchived} onCheckedChange={checked => setParams({ archived: checked ? "1" : "" })} />
+              <Label htmlFor="show-archived-patients" className="text-sm whitespace-nowrap">Show archived</Label>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <form className="flex gap-2" onSubmit={event => { event.preventDefault(); setParams({ q: searchInput.trim() }); }}>
+              <Input placeholder="Name, email, phone, condition..." value={searchInput} onChange={e => setSearchInput(e.target.value)} aria-label="Search patients" />
+              <Button type="submit" variant="outline" size="icon" title="Search"><Search className="h-4 w-4" /></Button>
+            </form>
+            <Select value={params.status || ALL} onValueChange={value => setParams({ status: value === ALL ? "" : value })}>
+              <SelectTrigger aria-label="Status"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {PATIENT_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={params.nurse || ALL} onValueChange={value => setParams({ nurse: value === ALL ? "" : value })}>
+              <SelectTrigger aria-label="Primary nurse"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All primary nurses</SelectItem>
+                {nurses.map(nurse => <SelectItem key={nurse.id} value={nurse.id}>{nurse.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={params.sort || SORT_OPTIONS[0].value} onValueChange={value => setParams({ sort: value === SORT_OPTIONS[0].value ? "" : value })}>
+              <SelectTrigger aria-label="Sort"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Age</TableHead>
-                <TableHead>Last Visit</TableHead>
-                <TableHead>Primary Condition</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {patients.map((patient: PatientListItem) => (
-                <TableRow key={patient.id}>
-                  <TableCell className="font-medium">{patient.name}</TableCell>
-                  <TableCell>{patient.age}</TableCell>
-                  <TableCell>{patient.lastVisit}</TableCell>
-                  <TableCell>{patient.condition}</TableCell>
-                  <TableCell>
-                    <Badge 
-                        variant={getStatusBadgeVariant(patient.status)}
-                        className={getStatusBadgeClassNames(patient.status)}
-                    >
-                      {patient.status}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Button variant="outline" size="sm" asChild>
-                      <Link href={`/patients/${patient.id}`}>
-                        <Eye className="mr-2 h-3 w-3" /> View Profile
-                      </Link>
-                    </Button>
-                  </TableCell>
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error Loading Patients</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {isLoading ? (
+            <PatientsLoading />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Age</TableHead>
+                  <TableHead>Last Visit</TableHead>
+                  <TableHead>Primary Condition</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {patients.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">No patients match these filters.</TableCell>
+                  </TableRow>
+                )}
+                {patients.map((patient: PatientListItem) => (
+                  <TableRow key={patient.id} className={patient.recordStatus !== "Active" ? "opacity-60" : undefined}>
+                    <TableCell className="font-medium">{patient.name}</TableCell>
+                    <TableCell>{patient.age}</TableCell>
+                    <TableCell>{patient.lastVisit.split('T')[0]}</TableCell>
+                    <TableCell>{patient.condition}</TableCell>
+                    <TableCell>
+                      <Badge 
+                          variant={getStatusBadgeVariant(patient.status)}
+                          className={getStatusBadgeClassNames(patient.status)}
+                      >
+                        {patient.status}
+                      </Badge>
+                      {patient.recordStatus !== "Active" && (
+                        <Badge variant="outline" className="ml-2" title={patient.archiveReason}>{patient.recordStatus}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/patients/${patient.id}`}>
+                          <Eye className="mr-2 h-3 w-3" /> View Profile
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <ListPagination
+            pageNumber={pageNumber}
+            itemCount={patients.length}
+            hasPreviousPage={hasPreviousPage}
+            nextCursor={nextCursor}
+            isLoading={isLoading}
+            onPrevious={previousPage}
+            onNext={nextPage}
+          />
         </CardContent>
       </Card>
     </div>
   );
 }
-    
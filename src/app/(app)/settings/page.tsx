@@ -9,9 +9,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Checkbox } from "@/components/ui/checkbox";
-import { User, Bell, Shield, Palette, Sun, Moon, Laptop } from "lucide-react"; // Changed ShieldLock to Shield
+import { User, Bell, Shield, Palette, Sun, Moon, Laptop, CalendarDays } from "lucide-react"; // Changed ShieldLock to Shield
 import { cn } from "@/lib/utils"
+import { CalendarFeedCard } from "@/components/calendar-feed-card";
+import { NotificationPreferencesCard } from "@/components/notification-preferences-card";
 
 export default function SettingsPage() {
   const { setTheme, theme, resolvedTheme, themes } = useTheme()
@@ -42,9 +43,10 @@ export default function SettingsPage() {
       </div>
 
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 mb-6">
+        <TabsList className="grid w-full grid-cols-2 md:grid-cols-5 mb-6">
           <TabsTrigger value="profile"><User className="w-4 h-4 mr-2 inline-block" />Profile</TabsTrigger>
           <TabsTrigger value="notifications"><Bell className="w-4 h-4 mr-2 inline-block" />Notifications</TabsTrigger>
+          <TabsTrigger value="calendar"><CalendarDays className="w-4 h-4 mr-2 inline-block" />Calendar</TabsTrigger>
           <TabsTrigger value="security"><Shield className="w-4 h-4 mr-2 inline-block" />Security</TabsTrigger>
           <TabsTrigger value="appearance"><Palette className="w-4 h-4 mr-2 inline-block" />Appearance</TabsTrigger>
         </TabsList>
@@ -74,29 +76,13 @@ export default function SettingsPage() {
         </TabsContent>
 
         <TabsContent value="notifications">
-          <Card className="shadow-lg">
-            <CardHeader>
-              <CardTitle>Notification Preferences</CardTitle>
-              <CardDescription>Manage how you receive notifications.</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center space-x-2">
-                <Checkbox id="email-notifications" defaultChecked />
-                <Label htmlFor="email-notifications">Email Notifications</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox id="sms-notifications" />
-                <Label htmlFor="sms-notifications">SMS Notifications</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox id="inapp-notifications" defaultChecked />
-                <Label htmlFor="inapp-notifications">In-App Notifications</Label>
-              </div>
-              <Button>Save Preferences</Button>
-            </CardContent>
-          </Card>
+          <NotificationPreferencesCard />
         </TabsContent>
-        
+
+        <TabsContent value="calendar">
+          <CalendarFeedCard />
+        </TabsContent>
+
         <TabsContent value="security" id="security"> {/* Added id="security" for the anchor link */}
           <Card className="shadow-lg">
             <CardHeader>
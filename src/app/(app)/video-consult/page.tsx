@@ -1,21 +1,25 @@
 
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { Suspense, useState, useEffect, useCallback } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Video, LogIn, XCircle, AlertCircle, CalendarPlus, List, RefreshCw, User, BriefcaseMedical, Clock, PhoneOff } from "lucide-react";
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import Link from 'next/link';
-import { fetchVideoConsults, type VideoConsultListItem } from '@/app/actions';
+import { fetchNurses, fetchVideoConsults, type NurseListItem, type VideoConsultListItem } from '@/app/actions';
 import { Badge } from "@/components/ui/badge";
 import { format, parseISO } from 'date-fns';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAuth } from '@/contexts/auth-context'; // Use our AuthContext
 import VideoCall from '@/components/VideoCall'; // Our new WebRTC component
+import { ListPagination } from '@/components/list-pagination';
+import { useListParams } from '@/hooks/use-list-params';
+import { DEFAULT_PAGE_SIZE, SORT_DIRECTIONS, VIDEO_CONSULT_STATUSES, dateRangeFromParams, enumFromParam } from '@/lib/list-query';
 
 type CallStatus = 'scheduled' | 'completed' | 'cancelled';
 
@@ -41,22 +45,60 @@ const getStatusBadgeClassNames = (status: CallStatus) => {
   }
 };
 
+const ALL = "all"; // Select items cannot have an empty value
+
 export default function VideoConsultPage() {
+  // useListParams reads the URL query string, which needs a Suspense boundary.
+  return (
+    <Suspense fallback={<VideoConsultLoading />}>
+      <VideoConsultView />
+    </Suspense>
+  );
+}
+
+function VideoConsultLoading() {
+  return (
+    <div className="flex items-center justify-center h-64">
+      <RefreshCw className="mr-2 h-8 w-8 animate-spin text-primary" />
+      <p>Loading user authentication...</p>
+    </div>
+  );
+}
+
+function VideoConsultView() {
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [manualRoomIdInput, setManualRoomIdInput] = useState<string>('');
   const { toast } = useToast();
   const [scheduledConsults, setScheduledConsults] = useState<VideoConsultListItem[]>([]);
   const [isLoadingConsults, setIsLoadingConsults] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [nurses, setNurses] = useState<NurseListItem[]>([]);
   const { currentUser, loading: authLoading } = useAuth();
+  const { params, cursor, queryKey, setParams, nextPage, previousPage, hasPreviousPage, pageNumber } =
+    useListParams(["status", "nurse", "from", "to", "sort"] as const);
+
+  useEffect(() => {
+    if (authLoading || !currentUser) return;
+    fetchNurses({ includeArchived: true }).then(result => setNurses(result.data || []));
+  }, [authLoading, currentUser]);
 
+  // queryKey covers every URL parameter read below.
   const loadConsults = useCallback(async () => {
     setIsLoadingConsults(true);
     setErrorMsg(null);
     try {
-      const result = await fetchVideoConsults();
+      const result = await fetchVideoConsults({
+        pageSize: DEFAULT_PAGE_SIZE,
+        cursor,
+        status: enumFromParam(VIDEO_CONSULT_STATUSES, params.status),
+        nurseId: params.nurse || undefined,
+        sortDirection: enumFromParam(SORT_DIRECTIONS, params.sort),
+        ...dateRangeFromParams(params.from, params.to),
+      });
       if (result.data) {
         setScheduledConsults(result.data);
+        setNextCursor(result.nextCursor ?? null);
       } else {
         setErrorMsg(result.error || "Failed to load scheduled consultations.");
         toast({ variant: 'destructive', title: 'Error loading consults', description: result.error || "Failed to load consultations." });
@@ -67,7 +109,7 @@ export default function VideoConsultPage() {
     } finally {
       setIsLoadingConsults(false);
     }
-  }, [toast]);
+  }, [toast, queryKey]);
 
   useEffect(() => {
     if (!authLoading) { // Only load if auth state is resolved
@@ -100,12 +142,7 @@ export default function VideoConsultPage() {
   }, [toast]);
 
   if (authLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <RefreshCw className="mr-2 h-8 w-8 animate-spin text-primary" />
-        <p>Loading user authentication...</p>
-      </div>
-    );
+    return <VideoConsultLoading />;
   }
 
   return (
@@ -178,6 +215,31 @@ export default function VideoConsultPage() {
             </Button>
           </div>
           <CardDescription>Upcoming and past video consultations (using WebRTC/Firebase).</CardDescription>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 pt-2">
+            <Select value={params.status || ALL} onValueChange={value => setParams({ status: value === ALL ? "" : value })}>
+              <SelectTrigger aria-label="Status"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {VIDEO_CONSULT_STATUSES.map(status => <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={params.nurse || ALL} onValueChange={value => setParams({ nurse: value === ALL ? "" : value })}>
+              <SelectTrigger aria-label="Nurse"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All nurses</SelectItem>
+                {nurses.map(nurse => <SelectItem key={nurse.id} value={nurse.id}>{nurse.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input type="date" aria-label="From" value={params.from} onChange={e => setParams({ from: e.target.value })} />
+            <Input type="date" aria-label="To" value={params.to} onChange={e => setParams({ to: e.target.value })} />
+            <Select value={params.sort || "desc"} onValueChange={value => setParams({ sort: value === "desc" ? "" : value })}>
+              <SelectTrigger aria-label="Order"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="desc">Latest first</SelectItem>
+                <SelectItem value="asc">Earliest first</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
           {isLoadingConsults && (
@@ -194,7 +256,9 @@ export default function VideoConsultPage() {
             </Alert>
           )}
           {!isLoadingConsults && !errorMsg && scheduledConsults.length === 0 && (
-            <p className="text-muted-foreground text-center p-4">No video consultations scheduled yet.</p>
+            <p className="text-muted-foreground text-center p-4">
+              {params.status || params.nurse || params.from || params.to ? "No video consultations match these filters." : "No video consultations scheduled yet."}
+            </p>
           )}
           {!isLoadingConsults && scheduledConsults.length > 0 && (
             <ScrollArea className="h-[400px] pr-3">
@@ -236,6 +300,15 @@ export default function VideoConsultPage() {
               </div>
             </ScrollArea>
           )}
+          <ListPagination
+            pageNumber={pageNumber}
+            itemCount={scheduledConsults.length}
+            hasPreviousPage={hasPreviousPage}
+            nextCursor={nextCursor}
+            isLoading={isLoadingConsults}
+            onPrevious={previousPage}
+            onNext={nextPage}
+          />
         </CardContent>
       </Card>
     </div>
@@ -13,22 +13,105 @@
 // Ensure EMAIL_USER and EMAIL_PASS are correctly set in .env.
 // For Gmail, use an App Password if 2-Step Verification is ON.
 
+// For authorization:
+// Every exported action verifies the caller's Firebase ID token (session cookie) with the
+// Admin SDK and checks ACTION_POLICY in lib/authz.ts. Set FIREBASE_ADMIN_CLIENT_EMAIL and
+// FIREBASE_ADMIN_PRIVATE_KEY in .env (or point the Admin SDK at the emulators) so that roles
+// can be read from `users/{uid}`.
+
 import {
   getPersonalizedCareSuggestions,
   type PersonalizedCareSuggestionsInput,
   type PersonalizedCareSuggestionsOutput
 } from '@/ai/flows/personalized-care-suggestions';
 import { z } from 'zod';
-import { generateRandomPassword, generateRandomString, generatePhoneNumber, generateDateOfBirth } from '@/lib/utils';
+import { generateRandomString, generatePhoneNumber, generateDateOfBirth } from '@/lib/utils';
 import { auth as clientAuth, db as clientDb } from '@/lib/firebase'; 
 import {
   collection, addDoc, getDocs, doc, getDoc, serverTimestamp, Timestamp,
-  query, where, updateDoc, deleteDoc, writeBatch, getCountFromServer, orderBy, limit, setDoc, collectionGroup
+  query, where, updateDoc, deleteDoc, deleteField, writeBatch, getCountFromServer, orderBy, limit, setDoc, collectionGroup, increment,
+  arrayUnion, arrayRemove, startAfter, type Query, type QueryConstraint, type QueryDocumentSnapshot, type DocumentSnapshot, type DocumentReference, type WriteBatch
 } from 'firebase/firestore';
 import { createUserWithEmailAndPassword, sendEmailVerification } from 'firebase/auth';
-import nodemailer from 'nodemailer';
 import { format } from 'date-fns';
 import { v2 as cloudinary } from 'cloudinary';
+import { cookies } from 'next/headers';
+import { adminAuth, ensureServerIdentity } from '@/lib/firebase-admin';
+import {
+  SESSION_COOKIE_NAME, CLINICIAN_ROLES, authorizeAction, forbidden, canAccessPatient, getPatientScope, isInPatientScope, canAccessUserData, isStaffRole,
+  type AppRole, type ForbiddenError, type PatientScope, type SessionUser
+} from '@/lib/authz';
+import {
+  VitalSignsSchema, VitalSignThresholdsSchema, VITAL_SIGN_DEFINITIONS, compactVitalSigns, hasVitalSigns, vitalSignsFromData,
+  resolveVitalSignThresholds, findOutOfRangeVitalSigns, describeOutOfRangeVitalSign,
+  type VitalSigns, type VitalSignsReading, type VitalSignThresholds
+} from '@/lib/vitals';
+import {
+  MEDICATION_ROUTES, ADMINISTRATION_STATUSES, ADMINISTRATION_REVISIONS_SUBCOLLECTION, TIME_OF_DAY_REGEX, PRN_FREQUENCY, administrationId, formatPrescriptionSummary,
+  type PrescriptionItem, type MedicationAdministrationItem
+} from '@/lib/medications';
+import { checkPrescriptionConflicts, type PrescriptionConflict } from '@/lib/drug-interactions';
+import { buildIcsCalendar, icsUid } from '@/lib/ics';
+import { UNASSIGNED_NURSE_NAME } from '@/lib/identity';
+import {
+  CARE_TEAM_ROLE_LABELS, CareAssignmentInputSchema, SINGLE_HOLDER_CARE_TEAM_ROLES, canHoldCareTeamRole, isActiveAssignment,
+  type CareAssignment, type CareAssignmentInput
+} from '@/lib/care-team';
+import {
+  ArchiveRecordInputSchema, PATIENT_ARCHIVE_STATUSES, isArchivedRecord, recordStatusFromData,
+  type ArchiveRecordInput, type NurseArchiveStatus, type RecordStatus
+} from '@/lib/record-status';
+import { CALENDAR_FEEDS_COLLECTION, calendarFeedUrl, generateCalendarFeedToken } from '@/lib/calendar-feed';
+import {
+  CARE_LOG_REVISIONS_SUBCOLLECTION, CareLogChangeReasonSchema,
+  type CareLogEnteredInError, type CareLogVersion
+} from '@/lib/care-logs';
+import {
+  PatientListQuerySchema, NurseListQuerySchema, AppointmentListQuerySchema, CareLogListQuerySchema, VideoConsultListQuerySchema, matchesListSearch,
+  type PatientListQuery, type NurseListQuery, type AppointmentListQuery, type CareLogListQuery, type VideoConsultListQuery
+} from '@/lib/list-query';
+import {
+  PATIENT_SEARCH_MIN_QUERY_LENGTH, buildPatientSearchIndex, searchPatientIndex, tokenizeSearchText,
+  type PatientSearchDocument, type PatientSearchIndex, type PatientSearchResult
+} from '@/lib/patient-search';
+import {
+  CreateGroupChatSchema, UpdateGroupChatSchema, FamilyCaregiverInputSchema, CAREGIVER_RELATIONSHIP_LABELS, GROUP_CHAT_MAX_MEMBERS,
+  careTeamChannelId, careTeamChannelName, directChatParticipants, findMentions,
+  type CreateGroupChatInput, type UpdateGroupChatInput, type FamilyCaregiverInput, type FamilyCaregiver
+} from '@/lib/chat-groups';
+import {
+  CHAT_CAPTION_MAX_LENGTH, chatAttachmentKind, validateChatAttachment, voiceNoteFileName, type ChatAttachment
+} from '@/lib/chat-attachments';
+import {
+  CHAT_MESSAGE_EDIT_WINDOW_MS, CHAT_MESSAGE_DELETE_WINDOW_MS, CHAT_SEARCH_MIN_QUERY_LENGTH, CHAT_SEARCH_RESULT_LIMIT, CHAT_SEARCH_SCAN_LIMIT,
+  CHAT_MESSAGE_REVISIONS_SUBCOLLECTION, CHAT_RETENTION_SETTINGS_COLLECTION, CHAT_RETENTION_SETTINGS_ID, DELETED_MESSAGE_PREVIEW, EditChatMessageSchema, ChatRetentionPolicySchema,
+  canEditChatMessage, canDeleteChatMessage, chatMessageMatchScore, chatMessageSnippet, chatRetentionSettingsFromData,
+  type ChatSearchResult, type ChatRetentionPolicy, type ChatRetentionSettings
+} from '@/lib/chat-messages';
+import { runChatRetentionSweep, type ChatRetentionSweepResult } from '@/lib/chat-retention';
+import { PRESENCE_COLLECTION, isPresenceOnline, lastMessagePreview, presenceFromData } from '@/lib/chat-status';
+import {
+  AUDIT_EVENTS_COLLECTION, AUDITED_ACTIONS, AUDIT_OPERATIONS, diffAuditFields, matchesAuditSearch,
+  type AuditEvent, type AuditEventFilters, type AuditFieldChange
+} from '@/lib/audit';
+import {
+  notificationService, resolveProfileRecipient, resolveUserRecipient, describeNotificationDelivery, sendTemplatedEmail, appUrl,
+  type NotificationRecipient, type NotificationDeliveryResult
+} from '@/lib/notification-service';
+import {
+  EMAIL_TEMPLATES, EMAIL_TEMPLATE_IDS, renderEmail, resolveEmailLocale,
+  type EmailLocale, type EmailTemplateId, type RenderedEmail
+} from '@/lib/email-templates';
+import { NotificationPreferencesSchema, resolveNotificationPreferences, type NotificationPreferences } from '@/lib/notification-preferences';
+import {
+  RecurrenceRuleSchema, MAX_SERIES_OCCURRENCES, expandRecurrence, toRRule, shiftRecurrenceRule, describeRecurrence, planSeriesEdit,
+  type RecurrenceRule, type SeriesEditScope, type SeriesOccurrence
+} from '@/lib/recurrence';
+import {
+  NurseAvailabilitySchema, APPOINTMENT_DURATIONS, DEFAULT_APPOINTMENT_DURATION_MINUTES, VIDEO_CONSULT_DURATION_MINUTES,
+  nurseAvailabilityFromData, deriveNurseStatus, findScheduleConflicts, getWorkingHoursOn, listFreeSlots, suggestNearestSlots,
+  type NurseAvailability, type NurseStatus, type BusyInterval, type ScheduleConflict, type SuggestedSlot, type TimeRange
+} from '@/lib/availability';
 
 // Consistent instances for Firestore and Auth for use within this file
 const firestoreInstance = clientDb;
@@ -49,6 +132,114 @@ if (process.env.CLOUDINARY_CLOUD_NAME && process.env.CLOUDINARY_API_KEY && proce
 }
 
 
+// --- Session ---
+// The client calls establishSession whenever Firebase refreshes the user's ID token
+// (see AuthContext) so that every server action can verify who is calling.
+export async function establishSession(idToken: string): Promise<{ success: boolean; message?: string }> {
+  if (!adminAuth) {
+    console.error("[ACTION_ERROR] establishSession: Firebase Admin Auth is not available.");
+    return { success: false, message: "Server authentication is not configured." };
+  }
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE_NAME, idToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      // Firebase ID tokens are valid for one hour; the client refreshes the cookie on every token refresh.
+      maxAge: Math.max(0, decoded.exp - Math.floor(Date.now() / 1000)),
+    });
+    console.log(`[ACTION_LOG] establishSession: Session established for ${decoded.uid}.`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] establishSession: Invalid ID token:", error.code, error.message);
+    return { success: false, message: "Invalid or expired ID token." };
+  }
+}
+
+export async function clearSession(): Promise<{ success: boolean }> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+  return { success: true };
+}
+
+// Called right after signup, before the session cookie exists, so the caller proves who they
+// are with their ID token. Sent once: `users/{uid}.welcomeEmailSentAt` records it.
+export async function sendWelcomeEmail(idToken: string, locale?: string): Promise<{ success: boolean; message?: string }> {
+  if (!adminAuth || !firestoreInstance || !(await ensureServerIdentity())) {
+    console.error("[ACTION_ERROR] sendWelcomeEmail: Firebase services are not available.");
+    return { success: false, message: "Server authentication is not configured." };
+  }
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    const userRef = doc(firestoreInstance, "users", decoded.uid);
+    const userDoc = await getDoc(userRef);
+    if (!userDoc.exists()) {
+      return { success: false, message: "User profile not found." };
+    }
+    const userData = userDoc.data();
+    if (userData.welcomeEmailSentAt) {
+      return { success: true, message: "Welcome email already sent." };
+    }
+    const emailLocale = resolveEmailLocale(locale);
+    await sendTemplatedEmail({
+      to: userData.email || decoded.email,
+      name: [userData.firstName, userData.lastName].filter(Boolean).join(" ") || "there",
+      locale: emailLocale,
+      template: "welcome",
+      variables: { loginUrl: appUrl("/login") },
+    });
+    // The signup language also becomes the language of later emails.
+    await setDoc(userRef, { welcomeEmailSentAt: serverTimestamp(), notificationPreferences: { locale: emailLocale } }, { merge: true });
+    console.log(`[ACTION_LOG] sendWelcomeEmail: Welcome email sent to ${decoded.uid} (${emailLocale}).`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] sendWelcomeEmail:", error.code, error.message);
+    return { success: false, message: "Could not send the welcome email." };
+  }
+}
+
+const PASSWORD_RESET_MESSAGE = "If an account exists for this email, a password reset link is on its way.";
+
+// Public: the response is the same whether or not the account exists, so it cannot be used
+// to find out who has an account.
+export async function requestPasswordReset(email: string, locale?: string): Promise<{ success: boolean; message: string }> {
+  console.log("[ACTION_LOG] requestPasswordReset: Initiated.");
+  const parsedEmail = z.string().trim().email().safeParse(email);
+  if (!parsedEmail.success) {
+    return { success: false, message: "Please enter a valid email address." };
+  }
+  if (!adminAuth || !firestoreInstance || !(await ensureServerIdentity())) {
+    console.error("[ACTION_ERROR] requestPasswordReset: Firebase services are not available.");
+    return { success: false, message: "Password reset is not available right now. Please try again later." };
+  }
+  try {
+    const resetUrl = await adminAuth.generatePasswordResetLink(parsedEmail.data, { url: appUrl("/login") });
+    const user = await adminAuth.getUserByEmail(parsedEmail.data);
+    const userDoc = await getDoc(doc(firestoreInstance, "users", user.uid));
+    const userData = userDoc.exists() ? userDoc.data() : {};
+    const preferences = resolveNotificationPreferences(userData.notificationPreferences);
+    await sendTemplatedEmail({
+      to: parsedEmail.data,
+      name: [userData.firstName, userData.lastName].filter(Boolean).join(" ") || user.displayName || "there",
+      locale: resolveEmailLocale(preferences.locale ?? locale),
+      template: "passwordReset",
+      variables: { resetUrl },
+    });
+    console.log(`[ACTION_LOG] requestPasswordReset: Reset link sent to ${user.uid}.`);
+  } catch (error: any) {
+    if (error.code === 'auth/user-not-found' || error.code === 'auth/email-not-found') {
+      console.log("[ACTION_LOG] requestPasswordReset: No account for the requested email.");
+    } else {
+      console.error("[ACTION_ERROR] requestPasswordReset:", error.code, error.message);
+    }
+  }
+  return { success: true, message: PASSWORD_RESET_MESSAGE };
+}
+
+
 async function uploadToCloudinary(file: File, folder: string): Promise<string | null> {
   if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
     console.error("[ACTION_ERROR] Cloudinary not configured. Cannot upload file.");
@@ -90,7 +281,9 @@ const PersonalizedCareSuggestionsInputSchema = z.object({
 
 export async function fetchPersonalizedCareSuggestions(
   input: PersonalizedCareSuggestionsInput
-): Promise<{ data?: PersonalizedCareSuggestionsOutput; error?: string }> {
+): Promise<{ data?: PersonalizedCareSuggestionsOutput; error?: string; forbidden?: ForbiddenError }> {
+  const authz = await authorizeAction("fetchPersonalizedCareSuggestions");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
   try {
     const validatedInput = PersonalizedCareSuggestionsInputSchema.parse(input);
     const result = await getPersonalizedCareSuggestions(validatedInput);
@@ -105,13 +298,89 @@ export async function fetchPersonalizedCareSuggestions(
 }
 
 
+// --- List paging (lib/list-query.ts) ---
+
+// Firestore accepts at most 30 values in an `in` filter.
+const FIRESTORE_IN_LIMIT = 30;
+// ...and at most 500 writes in a batch.
+const FIRESTORE_BATCH_LIMIT = 500;
+
+// Reads one page of `baseQuery`, starting after the `cursor` document and keeping only the
+// documents accepted by `keep` (patient scope and filters the query cannot express). Reads
+// ahead until the page is full, so skipped documents do not shorten it. Without `pageSize`
+// the whole query is read.
+async function readListPage(
+  collectionName: string,
+  baseQuery: Query,
+  page: { pageSize?: number; cursor?: string | null },
+  keep: (docSnap: QueryDocumentSnapshot) => boolean = () => true,
+): Promise<{ docs: QueryDocumentSnapshot[]; nextCursor: string | null }> {
+  if (!page.pageSize) {
+    const snapshot = await getDocs(baseQuery);
+    return { docs: snapshot.docs.filter(keep), nextCursor: null };
+  }
+  if (!firestoreInstance) throw new Error("Firestore `firestoreInstance` instance is not available in readListPage.");
+
+  let startAfterDoc: DocumentSnapshot | null = null;
+  if (page.cursor) {
+    const cursorSnap = await getDoc(doc(firestoreInstance, collectionName, page.cursor));
+    if (cursorSnap.exists()) startAfterDoc = cursorSnap;
+    else console.warn(`[ACTION_WARN] readListPage: Cursor ${page.cursor} no longer exists in '${collectionName}', starting from the first page.`);
+  }
+
+  // One extra document tells whether another page follows.
+  const chunkSize = page.pageSize + 1;
+  const docs: QueryDocumentSnapshot[] = [];
+  while (true) {
+    const chunkQuery: Query = startAfterDoc
+      ? query(baseQuery, startAfter(startAfterDoc), limit(chunkSize))
+      : query(baseQuery, limit(chunkSize));
+    const snapshot = await getDocs(chunkQuery);
+    for (const docSnap of snapshot.docs) {
+      if (!keep(docSnap)) continue;
+      if (docs.length === page.pageSize) return { docs, nextCursor: docs[docs.length - 1].id };
+      docs.push(docSnap);
+    }
+    if (snapshot.docs.length < chunkSize) return { docs, nextCursor: null };
+    startAfterDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+// Narrows a query on `patientId` to a clinician's scope when Firestore can express it;
+// `readListPage` still checks the scope of every document.
+function patientScopeConstraints(scope: PatientScope): QueryConstraint[] {
+  if (scope.all || scope.patientIds.size === 0 || scope.patientIds.size > FIRESTORE_IN_LIMIT) return [];
+  return [where("patientId", "in", [...scope.patientIds])];
+}
+
+// The patients of a limited scope, in groups small enough for one `in` filter each, for
+// lists that must read only documents in scope. Empty for an unlimited scope.
+function patientScopeGroups(scope: PatientScope): string[][] {
+  if (scope.all) return [];
+  const patientIds = [...scope.patientIds];
+  const groups: string[][] = [];
+  for (let i = 0; i < patientIds.length; i += FIRESTORE_IN_LIMIT) groups.push(patientIds.slice(i, i + FIRESTORE_IN_LIMIT));
+  return groups;
+}
+
+function dateRangeConstraints(field: string, range: { from?: Date; to?: Date }): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+  if (range.from) constraints.push(where(field, ">=", Timestamp.fromDate(range.from)));
+  if (range.to) constraints.push(where(field, "<=", Timestamp.fromDate(range.to)));
+  return constraints;
+}
+
+
 export type PatientListItem = {
   id: string;
   name: string;
   age: number;
   avatarUrl: string;
   joinDate: string; // ISO string
-  primaryNurse: string;
+  primaryNurseId: string | null; // nurse profile ID (= the nurse's uid), see lib/identity.ts
+  primaryNurse: string; // display name of the primary nurse
+  careTeamIds: string[]; // clinicians with an active care assignment, see lib/care-team.ts
+  userId: string | null; // account of the patient, null when created by staff without one
   phone: string;
   email: string;
   address: string;
@@ -120,15 +389,61 @@ export type PatientListItem = {
   allergies: string[];
   lastVisit: string; // ISO string
   condition: string;
-  status: string;
+  status: string; // clinical status ("Stable", "Improving"...)
+  recordStatus: RecordStatus; // archival state, see lib/record-status.ts
+  archivedAt?: string; // ISO string
+  archiveReason?: string;
   hint?: string;
   currentMedications?: Array<{ name: string; dosage: string }>;
-  recentVitals?: { date: string; bp: string; hr: string; temp: string; glucose: string };
+  recentVitals?: RecentVitals | null;
+  vitalThresholds?: VitalSignThresholds; // Per-patient overrides of DEFAULT_VITAL_SIGN_THRESHOLDS
   createdAt?: string; // ISO string
 };
 
-export async function fetchPatientById(id: string): Promise<{ data?: PatientListItem, error?: string }> {
+// Latest known value of each vital sign, merged from the most recent readings.
+// `date` is the time of the newest reading that contributed a value.
+export type RecentVitals = VitalSigns & { date: string };
+
+async function fetchRecentVitals(patientId: string): Promise<RecentVitals | null> {
+  if (!firestoreInstance) return null;
+  try {
+    const q = query(
+      collection(firestoreInstance, "vitalSigns"),
+      where("patientId", "==", patientId),
+      orderBy("recordedAt", "desc"),
+      limit(20)
+    );
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) return null;
+
+    const merged: VitalSigns = {};
+    snapshot.docs.forEach(docSnap => {
+      const values = vitalSignsFromData(docSnap.data());
+      for (const { key } of VITAL_SIGN_DEFINITIONS) {
+        if (merged[key] === undefined && values[key] !== undefined) merged[key] = values[key];
+      }
+    });
+    const newest = snapshot.docs[0].data().recordedAt;
+    return { ...merged, date: newest instanceof Timestamp ? newest.toDate().toISOString() : new Date(0).toISOString() };
+  } catch (error: any) {
+    // Missing vitals must not prevent the patient record from loading.
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchRecentVitals: Query requires a composite index on 'vitalSigns' (patientId, recordedAt desc).");
+    } else {
+      console.error(`[ACTION_ERROR] fetchRecentVitals: Error fetching vitals for patient ${patientId}:`, error.code, error.message);
+    }
+    return null;
+  }
+}
+
+export async function fetchPatientById(id: string): Promise<{ data?: PatientListItem, error?: string, forbidden?: ForbiddenError }> {
   console.log(`[ACTION_LOG] fetchPatientById: Initiated for ID: ${id}`);
+  const authz = await authorizeAction("fetchPatientById");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, id))) {
+    const error = forbidden("fetchPatientById", authz.user, "You can only view your own record or those of your assigned patients.");
+    return { error: error.message, forbidden: error };
+  }
   try {
     if (!id) {
       console.error("[ACTION_ERROR] fetchPatientById: Patient ID is required.");
@@ -168,7 +483,10 @@ export async function fetchPatientById(id: string): Promise<{ data?: PatientList
         avatarUrl: data.avatarUrl || `https://placehold.co/100x100.png?text=P`,
         hint: data.hint || 'person face',
         joinDate: formatTimestampToISO(data.joinDate),
+        primaryNurseId: data.primaryNurseId || null,
+        careTeamIds: Array.isArray(data.careTeamIds) ? data.careTeamIds : [],
         primaryNurse: data.primaryNurse || "N/A",
+        userId: data.userId || null,
         phone: data.phone || "N/A",
         email: data.email || "N/A",
         address: data.address || "N/A",
@@ -178,15 +496,17 @@ export async function fetchPatientById(id: string): Promise<{ data?: PatientList
         lastVisit: formatTimestampToISO(data.lastVisit),
         condition: data.condition || "N/A",
         status: data.status || "N/A",
-        currentMedications: data.currentMedications || [
-            { name: "Lisinopril", dosage: "10mg daily" },
-            { name: "Metformin", dosage: "500mg twice daily" },
-        ],
-        recentVitals: data.recentVitals || {
-            date: "2024-07-30", bp: "140/90 mmHg", hr: "75 bpm", temp: "37.0°C", glucose: "120 mg/dL"
-        },
+        recordStatus: recordStatusFromData(data),
+        archivedAt: data.archivedAt instanceof Timestamp ? data.archivedAt.toDate().toISOString() : undefined,
+        archiveReason: data.archiveReason || undefined,
+        currentMedications: await fetchCurrentMedications(patientDoc.id),
+        recentVitals: await fetchRecentVitals(patientDoc.id),
+        vitalThresholds: data.vitalThresholds || undefined,
         createdAt: formatTimestampToISO(data.createdAt),
       } as PatientListItem;
+      await recordAuditEvents(authz.user, [{
+        action: "fetchPatientById", operation: "read", targetType: "patient", targetId: id, targetLabel: null, patientId: id, patientName: patientData.name,
+      }]);
       return { data: patientData };
     } else {
       console.warn(`[ACTION_WARN] fetchPatientById: Patient with ID ${id} not found.`);
@@ -203,7 +523,7 @@ const AddPatientInputSchema = z.object({
   age: z.coerce.number().int().positive(),
   avatarFile: z.custom<File | undefined>().optional(),
   joinDate: z.date(),
-  primaryNurse: z.string().min(1),
+  primaryNurseId: z.string().min(1),
   phone: z.string().min(10),
   email: z.string().email(),
   address: z.string().min(5),
@@ -216,14 +536,30 @@ export type AddPatientFormValues = z.infer<typeof AddPatientInputSchema>  & { av
 
 export async function addPatient(
   values: AddPatientFormValues
-): Promise<{ success?: boolean; message: string; patientId?: string }> {
+): Promise<{ success?: boolean; message: string; patientId?: string; forbidden?: ForbiddenError }> {
   console.log("[ACTION_LOG] addPatient: Initiated with values:", values.fullName);
+  const authz = await authorizeAction("addPatient");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] addPatient: Firestore instance is not available.");
       return { success: false, message: "Firebase services not initialized." };
     }
     const validatedValues = AddPatientInputSchema.parse(values);
+    // A nurse profile ID is also the uid of the nurse's account (lib/identity.ts), which holds the role.
+    const [nurseDoc, nurseUserDoc] = await Promise.all([
+      getDoc(doc(firestoreInstance, "nurses", validatedValues.primaryNurseId)),
+      getDoc(doc(firestoreInstance, "users", validatedValues.primaryNurseId)),
+    ]);
+    if (!nurseDoc.exists()) {
+      return { success: false, message: "The selected primary nurse does not exist." };
+    }
+    const nurseRole = nurseUserDoc.exists() ? nurseUserDoc.data().role : undefined;
+    if (!canHoldCareTeamRole(nurseRole, "primaryNurse")) {
+      return { success: false, message: nurseUserDoc.exists()
+        ? `A user with role '${nurseRole || 'unknown'}' cannot be assigned as ${CARE_TEAM_ROLE_LABELS.primaryNurse}.`
+        : "The selected primary nurse does not have an account." };
+    }
     let avatarUrlToStore = `https://placehold.co/100x100.png?text=${validatedValues.fullName.split(" ").map(n=>n[0]).join("")}`;
     let hint = 'person face';
 
@@ -247,7 +583,11 @@ export async function addPatient(
       avatarUrl: avatarUrlToStore,
       hint: hint,
       joinDate: Timestamp.fromDate(validatedValues.joinDate),
-      primaryNurse: validatedValues.primaryNurse,
+      primaryNurseId: nurseDoc.id,
+      primaryNurse: nurseDoc.data().name || "N/A",
+      careTeamIds: [nurseDoc.id],
+      // Staff-created records have no account; see lib/identity.ts.
+      userId: null,
       phone: validatedValues.phone,
       email: validatedValues.email,
       address: validatedValues.address,
@@ -260,7 +600,24 @@ export async function addPatient(
       createdAt: serverTimestamp(),
     };
 
-    const docRef = await addDoc(collection(firestoreInstance, "patients"), newPatientData);
+    // The primary nurse starts as the patient's first care team member (see lib/care-team.ts).
+    const docRef = doc(collection(firestoreInstance, "patients"));
+    const batch = writeBatch(firestoreInstance);
+    batch.set(docRef, newPatientData);
+    batch.set(doc(collection(firestoreInstance, "careAssignments")), {
+      patientId: docRef.id,
+      patientName: validatedValues.fullName,
+      clinicianId: nurseDoc.id,
+      clinicianName: nurseDoc.data().name || "N/A",
+      clinicianRole: nurseRole,
+      teamRole: "primaryNurse",
+      startDate: Timestamp.fromDate(new Date(Math.min(validatedValues.joinDate.getTime(), Date.now()))),
+      endDate: null,
+      assignedBy: authz.user.uid,
+      createdAt: serverTimestamp(),
+    });
+    await batch.commit();
+    invalidatePatientSearchIndex();
     console.log("[ACTION_LOG] addPatient: Patient added to Firestore with ID: ", docRef.id);
 
     return { success: true, message: `Patient ${validatedValues.fullName} added successfully.`, patientId: docRef.id };
@@ -273,6 +630,330 @@ export async function addPatient(
   }
 }
 
+const UpdatePatientInputSchema = AddPatientInputSchema.omit({ joinDate: true, primaryNurseId: true });
+export type UpdatePatientFormValues = z.infer<typeof UpdatePatientInputSchema>;
+
+// The primary nurse and the rest of the care team are changed through the care team actions below.
+export async function updatePatient(
+  patientId: string,
+  values: UpdatePatientFormValues
+): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] updatePatient: Initiated for patient ${patientId}`);
+  const authz = await authorizeAction("updatePatient");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("updatePatient", authz.user, "You can only edit the records of your assigned patients.");
+    return { success: false, message: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updatePatient: Firestore instance is not available.");
+      return { success: false, message: "Firebase services not initialized." };
+    }
+    const validatedValues = UpdatePatientInputSchema.parse(values);
+    const patientRef = doc(firestoreInstance, "patients", patientId);
+    const patientDoc = await getDoc(patientRef);
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    if (isArchivedRecord(patientDoc.data())) {
+      return { success: false, message: "This record is archived. Restore it before editing." };
+    }
+
+    const pathologies = validatedValues.pathologies.split(',').map(p => p.trim()).filter(p => p.length > 0);
+    const updates: Record<string, any> = {
+      name: validatedValues.fullName,
+      age: validatedValues.age,
+      phone: validatedValues.phone,
+      email: validatedValues.email,
+      address: validatedValues.address,
+      mobilityStatus: validatedValues.mobilityStatus,
+      pathologies,
+      allergies: validatedValues.allergies ? validatedValues.allergies.split(',').map(a => a.trim()).filter(a => a.length > 0) : [],
+      condition: pathologies[0] || 'N/A',
+      updatedAt: serverTimestamp(),
+      updatedBy: authz.user.uid,
+    };
+    if (validatedValues.avatarFile) {
+      const uploadedUrl = await uploadToCloudinary(validatedValues.avatarFile, "patient-avatars");
+      if (uploadedUrl) {
+        updates.avatarUrl = uploadedUrl;
+        updates.hint = `patient ${validatedValues.fullName}`;
+      } else {
+        console.warn("[ACTION_WARN] updatePatient: Cloudinary upload failed. Keeping the current avatar.");
+      }
+    }
+
+    await updateDoc(patientRef, updates);
+    invalidatePatientSearchIndex();
+    console.log(`[ACTION_LOG] updatePatient: Patient ${patientId} updated by ${authz.user.uid}.`);
+    return { success: true, message: `Patient ${validatedValues.fullName} updated successfully.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updatePatient for ${patientId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update patient: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Hides the patient from lists (see lib/record-status.ts); nothing is deleted.
+export async function archivePatient(patientId: string, values: ArchiveRecordInput): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] archivePatient: Initiated for patient ${patientId} with values:`, values);
+  const authz = await authorizeAction("archivePatient");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] archivePatient: Firestore instance is not available.");
+      return { success: false, message: "Firebase services not initialized." };
+    }
+    const validatedValues = ArchiveRecordInputSchema.parse(values);
+    const patientRef = doc(firestoreInstance, "patients", patientId);
+    const patientDoc = await getDoc(patientRef);
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    await updateDoc(patientRef, {
+      recordStatus: validatedValues.status,
+      archivedAt: serverTimestamp(),
+      archivedBy: authz.user.uid,
+      archiveReason: validatedValues.reason || deleteField(),
+    });
+    invalidatePatientSearchIndex();
+    console.log(`[ACTION_LOG] archivePatient: Patient ${patientId} archived as ${validatedValues.status} by ${authz.user.uid}.`);
+    return { success: true, message: `${patientDoc.data().name || "The patient"} was archived as ${validatedValues.status}.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] archivePatient for ${patientId}:`, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to archive patient: ${error.message}` };
+  }
+}
+
+export async function restorePatient(patientId: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] restorePatient: Initiated for patient ${patientId}`);
+  const authz = await authorizeAction("restorePatient");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] restorePatient: Firestore instance is not available.");
+      return { success: false, message: "Firebase services not initialized." };
+    }
+    const patientRef = doc(firestoreInstance, "patients", patientId);
+    const patientDoc = await getDoc(patientRef);
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    if (!isArchivedRecord(patientDoc.data())) {
+      return { success: false, message: "This record is not archived." };
+    }
+    await updateDoc(patientRef, {
+      recordStatus: "Active",
+      archivedAt: deleteField(),
+      archivedBy: deleteField(),
+      archiveReason: deleteField(),
+      restoredAt: serverTimestamp(),
+      restoredBy: authz.user.uid,
+    });
+    invalidatePatientSearchIndex();
+    console.log(`[ACTION_LOG] restorePatient: Patient ${patientId} restored by ${authz.user.uid}.`);
+    return { success: true, message: `${patientDoc.data().name || "The patient"} was restored.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] restorePatient for ${patientId}:`, error);
+    return { success: false, message: `Failed to restore patient: ${error.message}` };
+  }
+}
+
+
+// --- Care team ---
+// See lib/care-team.ts. Every write recomputes the patient's `careTeamIds` and primary nurse
+// fields in the same batch, so the security rules and `canAccessPatient` never lag behind;
+// the care team channel of the patient (lib/chat-groups.ts) is rewritten in that batch too.
+
+function careAssignmentFromDoc(docSnap: { id: string; data: () => Record<string, any> }): CareAssignment {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    patientId: data.patientId,
+    patientName: data.patientName || "N/A",
+    clinicianId: data.clinicianId,
+    clinicianName: data.clinicianName || "N/A",
+    clinicianRole: data.clinicianRole,
+    teamRole: data.teamRole,
+    startDate: data.startDate instanceof Timestamp ? data.startDate.toDate().toISOString() : new Date(0).toISOString(),
+    endDate: data.endDate instanceof Timestamp ? data.endDate.toDate().toISOString() : null,
+    assignedBy: data.assignedBy,
+    endedBy: data.endedBy || undefined,
+    endReason: data.endReason || undefined,
+    notes: data.notes || undefined,
+  };
+}
+
+// Patient fields derived from the active assignments that remain after a change.
+function careTeamPatientFields(active: CareAssignment[]): Record<string, any> {
+  const primaryNurse = active.find(assignment => assignment.teamRole === "primaryNurse");
+  return {
+    careTeamIds: [...new Set(active.map(assignment => assignment.clinicianId))],
+    primaryNurseId: primaryNurse?.clinicianId ?? null,
+    primaryNurse: primaryNurse?.clinicianName ?? UNASSIGNED_NURSE_NAME,
+  };
+}
+
+async function fetchActiveCareAssignments(patientId: string): Promise<CareAssignment[]> {
+  const snapshot = await getDocs(query(collection(firestoreInstance!, "careAssignments"), where("patientId", "==", patientId), where("endDate", "==", null)));
+  return snapshot.docs.map(careAssignmentFromDoc);
+}
+
+export type CareTeam = { active: CareAssignment[]; history: CareAssignment[] };
+
+export async function fetchCareTeam(patientId: string): Promise<{ data?: CareTeam; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchCareTeam: Initiated for patient ${patientId}`);
+  const authz = await authorizeAction("fetchCareTeam");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("fetchCareTeam", authz.user, "You can only view the care team of your own or assigned patients.");
+    return { error: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchCareTeam: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in fetchCareTeam.");
+    }
+    const snapshot = await getDocs(query(collection(firestoreInstance, "careAssignments"), where("patientId", "==", patientId)));
+    const assignments = snapshot.docs.map(careAssignmentFromDoc).sort((a, b) => b.startDate.localeCompare(a.startDate));
+    return {
+      data: {
+        active: assignments.filter(isActiveAssignment),
+        history: assignments.filter(assignment => !isActiveAssignment(assignment)),
+      },
+    };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] fetchCareTeam for ${patientId}:`, error);
+    return { error: `Failed to fetch the care team: ${error.message}` };
+  }
+}
+
+// Adds a clinician to the care team. Assigning a new primary nurse ends the current one.
+export async function assignCareTeamMember(values: CareAssignmentInput): Promise<{ success?: boolean; message: string; assignmentId?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] assignCareTeamMember: Initiated with values:", values);
+  const authz = await authorizeAction("assignCareTeamMember");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] assignCareTeamMember: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in assignCareTeamMember.");
+    }
+    const validatedValues = CareAssignmentInputSchema.parse(values);
+    const patientRef = doc(firestoreInstance, "patients", validatedValues.patientId);
+    const [patientDoc, clinicianDoc] = await Promise.all([
+      getDoc(patientRef),
+      getDoc(doc(firestoreInstance, "users", validatedValues.clinicianId)),
+    ]);
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    if (isArchivedRecord(patientDoc.data())) {
+      return { success: false, message: "This record is archived. Restore it before changing the care team." };
+    }
+    if (!clinicianDoc.exists()) {
+      return { success: false, message: "The selected clinician does not have an account." };
+    }
+    const clinician = clinicianDoc.data();
+    if (!canHoldCareTeamRole(clinician.role, validatedValues.teamRole)) {
+      return { success: false, message: `A user with role '${clinician.role || 'unknown'}' cannot be assigned as ${CARE_TEAM_ROLE_LABELS[validatedValues.teamRole]}.` };
+    }
+
+    const active = await fetchActiveCareAssignments(validatedValues.patientId);
+    if (active.some(assignment => assignment.clinicianId === validatedValues.clinicianId && assignment.teamRole === validatedValues.teamRole)) {
+      return { success: false, message: `This clinician is already the patient's ${CARE_TEAM_ROLE_LABELS[validatedValues.teamRole]}.` };
+    }
+    const replaced = SINGLE_HOLDER_CARE_TEAM_ROLES.includes(validatedValues.teamRole)
+      ? active.filter(assignment => assignment.teamRole === validatedValues.teamRole)
+      : [];
+
+    const batch = writeBatch(firestoreInstance);
+    const now = Timestamp.now();
+    replaced.forEach(assignment => {
+      batch.update(doc(firestoreInstance!, "careAssignments", assignment.id), { endDate: now, endedBy: authz.user.uid, endReason: "Reassigned" });
+    });
+    const assignmentRef = doc(collection(firestoreInstance, "careAssignments"));
+    const clinicianName = `${clinician.firstName || ''} ${clinician.lastName || ''}`.trim() || clinician.email || "N/A";
+    const assignmentData = {
+      patientId: validatedValues.patientId,
+      patientName: patientDoc.data().name || "N/A",
+      clinicianId: validatedValues.clinicianId,
+      clinicianName,
+      clinicianRole: clinician.role,
+      teamRole: validatedValues.teamRole,
+      assignedBy: authz.user.uid,
+      ...(validatedValues.notes ? { notes: validatedValues.notes } : {}),
+    };
+    batch.set(assignmentRef, {
+      ...assignmentData,
+      startDate: Timestamp.fromDate(validatedValues.startDate),
+      endDate: null,
+      createdAt: serverTimestamp(),
+    });
+    const assignment: CareAssignment = { id: assignmentRef.id, ...assignmentData, startDate: validatedValues.startDate.toISOString(), endDate: null };
+    const remaining = active.filter(existing => !replaced.includes(existing));
+    batch.update(patientRef, careTeamPatientFields([...remaining, assignment]));
+    await addCareTeamChannelToBatch(batch, validatedValues.patientId, patientDoc.data(), [...remaining, assignment]);
+    await batch.commit();
+
+    console.log(`[ACTION_LOG] assignCareTeamMember: ${validatedValues.clinicianId} assigned as ${validatedValues.teamRole} of patient ${validatedValues.patientId} (${assignmentRef.id}); ended ${replaced.length} previous assignment(s).`);
+    return { success: true, message: `${clinicianName} assigned as ${CARE_TEAM_ROLE_LABELS[validatedValues.teamRole]}.`, assignmentId: assignmentRef.id };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] assignCareTeamMember:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to assign the care team member: ${error.message}` };
+  }
+}
+
+export async function endCareAssignment(assignmentId: string, reason?: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] endCareAssignment: Initiated for ${assignmentId}`);
+  const authz = await authorizeAction("endCareAssignment");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] endCareAssignment: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in endCareAssignment.");
+    }
+    const assignmentRef = doc(firestoreInstance, "careAssignments", assignmentId);
+    const assignmentDoc = await getDoc(assignmentRef);
+    if (!assignmentDoc.exists()) {
+      return { success: false, message: "Care assignment not found." };
+    }
+    const assignment = careAssignmentFromDoc(assignmentDoc);
+    if (!isActiveAssignment(assignment)) {
+      return { success: false, message: "This assignment has already ended." };
+    }
+
+    const patientRef = doc(firestoreInstance, "patients", assignment.patientId);
+    const [remaining, patientDoc] = await Promise.all([
+      fetchActiveCareAssignments(assignment.patientId).then(active => active.filter(existing => existing.id !== assignmentId)),
+      getDoc(patientRef),
+    ]);
+    const batch = writeBatch(firestoreInstance);
+    batch.update(assignmentRef, {
+      endDate: Timestamp.now(),
+      endedBy: authz.user.uid,
+      endReason: reason?.trim() || "Ended",
+    });
+    batch.update(patientRef, careTeamPatientFields(remaining));
+    if (patientDoc.exists()) await addCareTeamChannelToBatch(batch, assignment.patientId, patientDoc.data(), remaining);
+    await batch.commit();
+
+    console.log(`[ACTION_LOG] endCareAssignment: Ended ${assignmentId} (${assignment.teamRole} ${assignment.clinicianId} of patient ${assignment.patientId}).`);
+    return { success: true, message: `${assignment.clinicianName} is no longer on the care team as ${CARE_TEAM_ROLE_LABELS[assignment.teamRole]}.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] endCareAssignment for ${assignmentId}:`, error);
+    return { success: false, message: `Failed to end the care assignment: ${error.message}` };
+  }
+}
+
 
 export type NurseListItem = {
   id: string;
@@ -282,7 +963,10 @@ export type NurseListItem = {
   phone: string;
   email: string;
   avatar: string;
-  status: 'Available' | 'On Duty' | 'Unavailable' | string;
+  status: NurseStatus;
+  availability?: NurseAvailability;
+  userId: string | null; // account of the nurse; equals `id` for nurses with an account
+  recordStatus: "Active" | NurseArchiveStatus; // see lib/record-status.ts
   hint?: string;
   createdAt?: string; // ISO string
 };
@@ -294,20 +978,37 @@ const AddNurseInputSchema = z.object({
   location: z.string().min(3, { message: "Location is required." }),
   phone: z.string().min(10, { message: "Phone number must be at least 10 digits." }),
   avatarFile: z.custom<File | undefined>().optional(),
+  locale: z.string().optional(), // language of the onboarding email
 });
 export type AddNurseFormValues = z.infer<typeof AddNurseInputSchema>;
 
 
+// Provisions the nurse's Firebase Auth account (Admin SDK; works against the Auth emulator
+// too) and links it to the profile: `nurses/{uid}` and `users/{uid}` share the account uid.
+// No password is ever generated or emailed: the nurse chooses one through the invitation
+// link, which is a password reset link of the new account.
 export async function addNurse(
   values: AddNurseFormValues
-): Promise<{ success?: boolean; message: string; nurseId?: string }> {
+): Promise<{ success?: boolean; message: string; nurseId?: string; invitationSent?: boolean; forbidden?: ForbiddenError }> {
   console.log("[ACTION_LOG] addNurse: Initiated with values:", values.fullName);
+  const authz = await authorizeAction("addNurse");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
    try {
-    if (!firestoreInstance) {
-      console.error("[ACTION_ERROR] addNurse: Firestore instance is not available.");
+    if (!firestoreInstance || !adminAuth) {
+      console.error("[ACTION_ERROR] addNurse: Firestore or Firebase Admin Auth is not available.");
       return { success: false, message: "Firebase services not initialized." };
     }
     const validatedValues = AddNurseInputSchema.parse(values);
+
+    const existingUser = await adminAuth.getUserByEmail(validatedValues.email).catch((lookupError: any) => {
+      if (lookupError.code === 'auth/user-not-found') return null;
+      throw lookupError;
+    });
+    if (existingUser) {
+      console.warn(`[ACTION_WARN] addNurse: An account already exists for ${validatedValues.email} (${existingUser.uid}).`);
+      return { success: false, message: `An account already exists for ${validatedValues.email}.` };
+    }
+
     let avatarUrlToStore = `https://placehold.co/100x100.png?text=${validatedValues.fullName.split(" ").map(n=>n[0]).join("")}`;
     let hint = 'nurse medical';
 
@@ -325,6 +1026,14 @@ export async function addNurse(
       console.log("[ACTION_LOG] addNurse: No avatar file provided. Using placeholder.");
     }
 
+    const authUser = await adminAuth.createUser({
+      email: validatedValues.email,
+      displayName: validatedValues.fullName,
+      emailVerified: false,
+    });
+    console.log(`[ACTION_LOG] addNurse: Auth account ${authUser.uid} created for ${validatedValues.email}.`);
+
+    const [firstName, ...lastNameParts] = validatedValues.fullName.trim().split(/\s+/);
     const newNurseData = {
       name: validatedValues.fullName,
       email: validatedValues.email,
@@ -334,71 +1043,276 @@ export async function addNurse(
       avatar: avatarUrlToStore,
       hint: hint,
       status: 'Available' as const,
+      userId: authUser.uid,
       createdAt: serverTimestamp(),
     };
+    const nurseRef = doc(firestoreInstance, "nurses", authUser.uid);
+    try {
+      const batch = writeBatch(firestoreInstance);
+      batch.set(nurseRef, newNurseData);
+      batch.set(doc(firestoreInstance, "users", authUser.uid), {
+        email: validatedValues.email,
+        firstName,
+        lastName: lastNameParts.join(" "),
+        role: 'nurse',
+        phoneNumber: validatedValues.phone,
+        invitedBy: authz.user.uid,
+        createdAt: serverTimestamp(),
+        ...(validatedValues.locale ? { notificationPreferences: { locale: resolveEmailLocale(validatedValues.locale) } } : {}),
+      });
+      await batch.commit();
+    } catch (writeError) {
+      // Without its profile the account would be an orphan that blocks a retry with the same email.
+      await adminAuth.deleteUser(authUser.uid).catch((deleteError: any) => {
+        console.error(`[ACTION_ERROR] addNurse: Failed to remove the orphaned account ${authUser.uid}:`, deleteError.message);
+      });
+      throw writeError;
+    }
+    console.log("[ACTION_LOG] addNurse: Nurse added to Firestore with ID: ", nurseRef.id);
 
-    const docRef = await addDoc(collection(firestoreInstance, "nurses"), newNurseData);
-    console.log("[ACTION_LOG] addNurse: Nurse added to Firestore with ID: ", docRef.id);
-
-    const randomPassword = generateRandomPassword(8);
-    console.log(`[ACTION_LOG] addNurse: Simulated - Email sent to ${validatedValues.email} with temporary password: ${randomPassword}`);
-    console.log(`[ACTION_LOG] addNurse: Simulated - Admin notified about new nurse registration: ${validatedValues.fullName}`);
+    try {
+      const inviteUrl = await adminAuth.generatePasswordResetLink(validatedValues.email, { url: appUrl("/login") });
+      await sendTemplatedEmail({
+        to: validatedValues.email,
+        name: validatedValues.fullName,
+        locale: resolveEmailLocale(validatedValues.locale),
+        template: "nurseOnboarding",
+        variables: { email: validatedValues.email, inviteUrl, loginUrl: appUrl("/login") },
+      });
+      await updateDoc(doc(firestoreInstance, "users", authUser.uid), { invitationSentAt: serverTimestamp() });
+    } catch (emailError: any) {
+      console.error(`[ACTION_ERROR] addNurse: Failed to send the invitation to ${validatedValues.email}:`, emailError.code, emailError.message);
+      return {
+        success: true,
+        message: `Nurse ${validatedValues.fullName} added, but the invitation email could not be sent. They can use "Forgot your password?" on the login page to set a password.`,
+        nurseId: nurseRef.id,
+        invitationSent: false,
+      };
+    }
 
-    return { success: true, message: `Nurse ${validatedValues.fullName} added successfully & notified.`, nurseId: docRef.id };
+    return { success: true, message: `Nurse ${validatedValues.fullName} added. An invitation to set a password was sent to ${validatedValues.email}.`, nurseId: nurseRef.id, invitationSent: true };
   } catch (error: any)
 {
-    console.error("[ACTION_ERROR] addNurse: Error adding nurse to Firestore: ", error.code, error.message, error);
+    console.error("[ACTION_ERROR] addNurse: Error adding nurse: ", error.code, error.message, error);
      if (error instanceof z.ZodError) {
       return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
     }
+    if (error.code === 'auth/email-already-exists') {
+      return { success: false, message: `An account already exists for ${values.email}.` };
+    }
     return { success: false, message: `Failed to add nurse: ${error.message} (Code: ${error.code || 'N/A'})` };
   }
 }
 
+// The email is the nurse's login and cannot be changed here.
+const UpdateNurseInputSchema = AddNurseInputSchema.omit({ email: true, locale: true });
+export type UpdateNurseFormValues = z.infer<typeof UpdateNurseInputSchema>;
+
+export async function updateNurse(
+  nurseId: string,
+  values: UpdateNurseFormValues
+): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] updateNurse: Initiated for nurse ${nurseId}`);
+  const authz = await authorizeAction("updateNurse");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updateNurse: Firestore instance is not available.");
+      return { success: false, message: "Firebase services not initialized." };
+    }
+    const validatedValues = UpdateNurseInputSchema.parse(values);
+    const nurseRef = doc(firestoreInstance, "nurses", nurseId);
+    const nurseDoc = await getDoc(nurseRef);
+    if (!nurseDoc.exists()) {
+      return { success: false, message: "Nurse not found." };
+    }
+    if (isArchivedRecord(nurseDoc.data())) {
+      return { success: false, message: "This nurse is inactive. Restore the profile before editing." };
+    }
 
-export type PatientRegistrationDataPoint = { month: string; newPatients: number };
-export type AppointmentStatusDataPoint = { status: string; count: number, fill: string };
-export type NursePerformanceDataPoint = { nurseName: string; consults: number, fill: string };
+    const updates: Record<string, any> = {
+      name: validatedValues.fullName,
+      specialty: validatedValues.specialty,
+      location: validatedValues.location,
+      phone: validatedValues.phone,
+      updatedAt: serverTimestamp(),
+      updatedBy: authz.user.uid,
+    };
+    if (validatedValues.avatarFile) {
+      const uploadedUrl = await uploadToCloudinary(validatedValues.avatarFile, "nurse-avatars");
+      if (uploadedUrl) {
+        updates.avatar = uploadedUrl;
+        updates.hint = `nurse ${validatedValues.fullName}`;
+      } else {
+        console.warn("[ACTION_WARN] updateNurse: Cloudinary upload failed. Keeping the current avatar.");
+      }
+    }
 
-export type DashboardStats = {
-  activePatients: number;
-  activePatientsChange: string;
-  upcomingAppointments: number;
-  upcomingAppointmentsToday: string;
-  availableNurses: number;
-  availableNursesOnline: string;
-  careQualityScore: string;
-  careQualityScoreTrend: string;
-  patientRegistrationsData: PatientRegistrationDataPoint[];
-  appointmentStatusData: AppointmentStatusDataPoint[];
-  nursePerformanceData: NursePerformanceDataPoint[];
-};
+    const batch = writeBatch(firestoreInstance);
+    batch.update(nurseRef, updates);
+    const userId: string | null = nurseDoc.data().userId || null;
+    if (userId) {
+      const [firstName, ...lastNameParts] = validatedValues.fullName.trim().split(/\s+/);
+      batch.update(doc(firestoreInstance, "users", userId), { firstName, lastName: lastNameParts.join(" "), phoneNumber: validatedValues.phone });
+    }
+    // `primaryNurse` is a display copy of the name (see lib/identity.ts).
+    if (nurseDoc.data().name !== validatedValues.fullName) {
+      const patientsSnapshot = await getDocs(query(collection(firestoreInstance, "patients"), where("primaryNurseId", "==", nurseId)));
+      patientsSnapshot.docs.forEach(patientDoc => batch.update(patientDoc.ref, { primaryNurse: validatedValues.fullName }));
+    }
+    await batch.commit();
+    if (userId && adminAuth) {
+      await adminAuth.updateUser(userId, { displayName: validatedValues.fullName }).catch((authError: any) => {
+        console.warn(`[ACTION_WARN] updateNurse: Could not update the display name of account ${userId}:`, authError.message);
+      });
+    }
 
-export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, error?: string}> {
-  console.log("[ACTION_LOG] fetchDashboardStats: Initiated.");
+    console.log(`[ACTION_LOG] updateNurse: Nurse ${nurseId} updated by ${authz.user.uid}.`);
+    return { success: true, message: `Nurse ${validatedValues.fullName} updated successfully.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updateNurse for ${nurseId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update nurse: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Marks the nurse Inactive and disables their account, so they can no longer sign in.
+// Their care assignments are kept; the message says how many patients still need reassigning.
+export async function archiveNurse(nurseId: string, reason?: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] archiveNurse: Initiated for nurse ${nurseId}`);
+  const authz = await authorizeAction("archiveNurse");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
-      console.error("[ACTION_ERROR] fetchDashboardStats: Firestore instance is not available.");
-      return { error: "Firestore not initialized." };
+      console.error("[ACTION_ERROR] archiveNurse: Firestore instance is not available.");
+      return { success: false, message: "Firebase services not initialized." };
+    }
+    const nurseRef = doc(firestoreInstance, "nurses", nurseId);
+    const nurseDoc = await getDoc(nurseRef);
+    if (!nurseDoc.exists()) {
+      return { success: false, message: "Nurse not found." };
+    }
+    const userId: string | null = nurseDoc.data().userId || null;
+    if (userId && userId === authz.user.uid) {
+      return { success: false, message: "You cannot deactivate your own account." };
+    }
+    const trimmedReason = reason?.trim().slice(0, 500);
+    await updateDoc(nurseRef, {
+      recordStatus: "Inactive",
+      archivedAt: serverTimestamp(),
+      archivedBy: authz.user.uid,
+      archiveReason: trimmedReason || deleteField(),
+    });
+    if (userId && adminAuth) {
+      await adminAuth.updateUser(userId, { disabled: true });
+    }
+
+    const assignedPatients = await getDocs(query(collection(firestoreInstance, "patients"), where("careTeamIds", "array-contains", nurseId)));
+    console.log(`[ACTION_LOG] archiveNurse: Nurse ${nurseId} archived by ${authz.user.uid}; still on ${assignedPatients.size} care team(s).`);
+    const name = nurseDoc.data().name || "The nurse";
+    return {
+      success: true,
+      message: assignedPatients.empty
+        ? `${name} is now inactive.`
+        : `${name} is now inactive but is still on the care team of ${assignedPatients.size} patient(s). Reassign them from the patient pages.`,
+    };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] archiveNurse for ${nurseId}:`, error);
+    return { success: false, message: `Failed to archive nurse: ${error.message}` };
+  }
+}
+
+export async function restoreNurse(nurseId: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] restoreNurse: Initiated for nurse ${nurseId}`);
+  const authz = await authorizeAction("restoreNurse");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] restoreNurse: Firestore instance is not available.");
+      return { success: false, message: "Firebase services not initialized." };
+    }
+    const nurseRef = doc(firestoreInstance, "nurses", nurseId);
+    const nurseDoc = await getDoc(nurseRef);
+    if (!nurseDoc.exists()) {
+      return { success: false, message: "Nurse not found." };
+    }
+    if (!isArchivedRecord(nurseDoc.data())) {
+      return { success: false, message: "This nurse is not inactive." };
+    }
+    await updateDoc(nurseRef, {
+      recordStatus: "Active",
+      archivedAt: deleteField(),
+      archivedBy: deleteField(),
+      archiveReason: deleteField(),
+      restoredAt: serverTimestamp(),
+      restoredBy: authz.user.uid,
+    });
+    const userId: string | null = nurseDoc.data().userId || null;
+    if (userId && adminAuth) {
+      await adminAuth.updateUser(userId, { disabled: false });
+    }
+    console.log(`[ACTION_LOG] restoreNurse: Nurse ${nurseId} restored by ${authz.user.uid}.`);
+    return { success: true, message: `${nurseDoc.data().name || "The nurse"} is active again.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] restoreNurse for ${nurseId}:`, error);
+    return { success: false, message: `Failed to restore nurse: ${error.message}` };
+  }
+}
+
+
+export type PatientRegistrationDataPoint = { month: string; newPatients: number };
+export type AppointmentStatusDataPoint = { status: string; count: number, fill: string };
+export type NursePerformanceDataPoint = { nurseName: string; consults: number, fill: string };
+
+export type DashboardStats = {
+  activePatients: number;
+  activePatientsChange: string;
+  upcomingAppointments: number;
+  upcomingAppointmentsToday: string;
+  availableNurses: number;
+  availableNursesOnline: string;
+  consultCompletionRate: string; // completed share of the consults that are over (completed or cancelled)
+  consultCompletionDetail: string;
+  patientRegistrationsData: PatientRegistrationDataPoint[];
+  appointmentStatusData: AppointmentStatusDataPoint[];
+  nursePerformanceData: NursePerformanceDataPoint[];
+};
+
+export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, error?: string, forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchDashboardStats: Initiated.");
+  const authz = await authorizeAction("fetchDashboardStats");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchDashboardStats: Firestore instance is not available.");
+      return { error: "Firestore not initialized." };
     }
     const patientsCollectionRef = collection(firestoreInstance, "patients");
     const nursesCollectionRef = collection(firestoreInstance, "nurses");
     const videoConsultsCollectionRef = collection(firestoreInstance, "videoConsults");
 
     console.log("[ACTION_LOG] fetchDashboardStats: Getting counts for patients, nurses, consults.");
+    // Admins see the whole agency; everyone else only the patients they are assigned to.
     const [
       patientCountSnapshot,
+      archivedPatientCountSnapshot,
       nursesSnapshot,
-      videoConsultsSnapshot
+      videoConsultsSnapshot,
+      scope
     ] = await Promise.all([
       getCountFromServer(patientsCollectionRef),
+      getCountFromServer(query(patientsCollectionRef, where("recordStatus", "in", [...PATIENT_ARCHIVE_STATUSES]))),
       getDocs(query(nursesCollectionRef)),
-      getDocs(query(videoConsultsCollectionRef))
+      getDocs(query(videoConsultsCollectionRef)),
+      getPatientScope(authz.user)
     ]);
     console.log("[ACTION_LOG] fetchDashboardStats: Counts and documents received.");
 
-    const activePatients = patientCountSnapshot.data().count;
-    const availableNurses = nursesSnapshot.docs.filter(doc => doc.data().status === 'Available').length;
+    const activePatients = scope.all ? patientCountSnapshot.data().count - archivedPatientCountSnapshot.data().count : scope.patientIds.size;
+    const availableNurseDocs = nursesSnapshot.docs.filter(doc => doc.data().status === 'Available' && !isArchivedRecord(doc.data()));
+    const availableNurses = availableNurseDocs.length;
 
     const todayStart = new Date();
     todayStart.setHours(0, 0, 0, 0);
@@ -410,6 +1324,7 @@ export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, er
 
     videoConsultsSnapshot.docs.forEach(docSnap => {
       const consultData = docSnap.data();
+      if (!isInPatientScope(scope, consultData.patientId)) return;
       const consultTime = consultData.consultationTime instanceof Timestamp ? consultData.consultationTime.toDate() : null;
 
 
@@ -433,20 +1348,27 @@ export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, er
     });
     console.log("[ACTION_LOG] fetchDashboardStats: Consults processed for upcoming, status, and performance.");
 
-    const activePatientsChange = activePatients > 0 ? `+${Math.floor(Math.random()*5 + 1)} since last week` : "N/A";
-    const availableNursesOnline = availableNurses > 0 ? `Online: ${Math.max(1,Math.floor(Math.random()*availableNurses))}` : "Online: 0";
-    const careQualityScore = `${Math.floor(Math.random() * 10 + 88)}%`;
-    const careQualityScoreTrend = `Up by ${Math.floor(Math.random()*3+1)}% from last month`;
+    // Online: the chat presence of the nurse's account (lib/chat-status.ts).
+    const availableNurseUids: string[] = availableNurseDocs.map(nurseDoc => nurseDoc.data().userId).filter(Boolean);
+    const presenceDocs = await Promise.all(availableNurseUids.map(uid => getDoc(doc(firestoreInstance!, PRESENCE_COLLECTION, uid))));
+    const availableNursesOnline = `Online: ${presenceDocs.filter(presenceDoc => isPresenceOnline(presenceFromData(presenceDoc.data()))).length}`;
+
+    const consultsOver = (statusCounts.completed || 0) + (statusCounts.cancelled || 0);
+    const consultCompletionRate = consultsOver > 0 ? `${Math.round(100 * (statusCounts.completed || 0) / consultsOver)}%` : "N/A";
+    const consultCompletionDetail = consultsOver > 0 ? `${statusCounts.completed || 0} of ${consultsOver} past consults completed` : "No past consults yet";
 
     console.log("[ACTION_LOG] fetchDashboardStats: Processing patient registrations data.");
     const patientsSnapshotForChart = await getDocs(query(patientsCollectionRef, orderBy("createdAt", "asc")));
     const monthlyRegistrations: { [key: string]: number } = {};
     const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    let newPatientsThisWeek = 0;
     patientsSnapshotForChart.docs.forEach(docSnap => {
       const data = docSnap.data();
-      if (data.createdAt instanceof Timestamp) {
+      if (isInPatientScope(scope, docSnap.id) && data.createdAt instanceof Timestamp) {
         const date = data.createdAt.toDate();
+        if (date >= weekAgo && !isArchivedRecord(data)) newPatientsThisWeek++;
         const displayMonthKey = `${monthNames[date.getMonth()]} '${String(date.getFullYear()).slice(-2)}`;
         monthlyRegistrations[displayMonthKey] = (monthlyRegistrations[displayMonthKey] || 0) + 1;
       }
@@ -462,6 +1384,7 @@ export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, er
             newPatients: monthlyRegistrations[displayMonthKey] || 0,
         });
     }
+    const activePatientsChange = `+${newPatientsThisWeek} since last week`;
     console.log("[ACTION_LOG] fetchDashboardStats: Patient registrations processed.");
 
     const appointmentStatusData: AppointmentStatusDataPoint[] = [
@@ -488,8 +1411,8 @@ export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, er
       upcomingAppointmentsToday: `${upcomingAppointmentsTodayCount} today`,
       availableNurses,
       availableNursesOnline,
-      careQualityScore,
-      careQualityScoreTrend,
+      consultCompletionRate,
+      consultCompletionDetail,
       patientRegistrationsData,
       appointmentStatusData,
       nursePerformanceData,
@@ -504,7 +1427,7 @@ export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, er
         activePatients: 0, activePatientsChange: "N/A",
         upcomingAppointments: 0, upcomingAppointmentsToday: "N/A",
         availableNurses: 0, availableNursesOnline: "N/A",
-        careQualityScore: "N/A", careQualityScoreTrend: "N/A",
+        consultCompletionRate: "N/A", consultCompletionDetail: "N/A",
         patientRegistrationsData: Array(6).fill(null).map((_, i) => ({ month: new Date(0, i).toLocaleString('default', { month: 'short' }), newPatients: 0 })),
         appointmentStatusData: [],
         nursePerformanceData: [],
@@ -514,82 +1437,51 @@ export async function fetchDashboardStats(): Promise<{ data?: DashboardStats, er
 }
 
 
-// For email notifications
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASS, // Ensure this is an App Password for Gmail if 2FA is ON
-  },
-});
 
-interface SendConsultScheduledEmailProps {
-  toEmail: string;
-  toName: string;
+type ConsultScheduledDetails = {
   patientName: string;
   nurseName: string;
   consultationDateTime: Date;
   roomId: string; // Changed from roomUrl
-}
-async function sendConsultScheduledEmail({
-  toEmail,
-  toName,
+  consultId: string; // used as the UID of the attached calendar invitation
+};
+
+// Sent to the patient and the nurse through the NotificationService; the email carries a
+// calendar invitation.
+async function notifyConsultScheduled(recipient: NotificationRecipient, {
   patientName,
   nurseName,
   consultationDateTime,
-  roomId, // Changed from roomUrl
-}: SendConsultScheduledEmailProps) {
-  // Reminder: Ensure EMAIL_USER and EMAIL_PASS (App Password for Gmail) are correctly set in .env.
-  console.log(`[ACTION_LOG] Attempting to send consultation email to ${toEmail} for room ID: ${roomId}`);
-  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS || process.env.EMAIL_USER === 'your-email@example.com') {
-    console.warn("[EMAIL_WARN] EMAIL_USER or EMAIL_PASS not set or using placeholder in .env. Skipping actual email sending.");
-    // Simulate email content
-    const joinLink = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/video-consult?roomId=${roomId}`; // Construct a join link
-    console.log(`[EMAIL_SIMULATION] Would send email to ${toEmail} for ${toName}:`);
-    console.log(`  Subject: SanHome - Video Consultation Scheduled`);
-    console.log(`  Body: Hello ${toName},\nA video consultation has been scheduled for you${toName === patientName ? '' : ' with ' + patientName} with ${nurseName}.\nTime: ${format(consultationDateTime, "eeee, MMMM d, yyyy 'at' h:mm a")}\nJoin via app with Room ID: ${roomId}\nOr click here: ${joinLink}\nBest regards,\nSanHome Team`);
-    return { success: true, message: "Email sending simulated due to missing/placeholder credentials." };
-  }
-
+  roomId,
+  consultId,
+}: ConsultScheduledDetails): Promise<NotificationDeliveryResult> {
   const formattedConsultationTime = format(consultationDateTime, "eeee, MMMM d, yyyy 'at' h:mm a");
-  const joinLink = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/video-consult?roomId=${roomId}`;
-
-  const mailOptions = {
-    from: process.env.EMAIL_USER,
-    to: toEmail,
-    subject: 'SanHome - Video Consultation Scheduled (WebRTC/Firestore)',
-    html: `
-      <div style="font-family: Arial, sans-serif; line-height: 1.6;">
-        <h2 style="color: #122e4b;">SanHome - Video Consultation Scheduled</h2>
-        <p>Hello ${toName},</p>
-        <p>A video consultation has been scheduled using our new WebRTC system:</p>
-        <ul>
-          <li><strong>Patient:</strong> ${patientName}</li>
-          <li><strong>Nurse:</strong> ${nurseName}</li>
-          <li><strong>Time:</strong> ${formattedConsultationTime}</li>
-          <li><strong>Room ID (for in-app join):</strong> ${roomId}</li>
-        </ul>
-        <p>You can join the call directly in the app using the Room ID, or by clicking this link (if app deep linking is set up):</p>
-        <p><a href="${joinLink}" style="color: #007bff; text-decoration: none;">Join Call (Room ID: ${roomId})</a></p>
-        <p>If you have any questions, please contact our support.</p>
-        <p>Best regards,</p>
-        <p>The SanHome Team</p>
-      </div>
-    `,
-  };
-
-  try {
-    const info = await transporter.sendMail(mailOptions);
-    console.log(`[EMAIL_LOG] Consultation scheduled email sent successfully to ${toEmail}. Message ID: ${info.messageId}`);
-    return { success: true, message: `Email sent to ${toEmail}` };
-  } catch (error: any) {
-    console.error(`[EMAIL_ERROR] Error sending consultation scheduled email to ${toEmail}:`, error);
-    let specificError = `Failed to send email to ${toEmail}: ${error.message}`;
-     if (error.code === 535 && error.command === 'AUTH PLAIN') {
-      specificError = `Failed to send email to ${toEmail}: Invalid login: 535-5.7.8 Username and Password not accepted. Please check your EMAIL_USER and EMAIL_PASS in .env. For Gmail, consider using an App Password. Google Support: https://support.google.com/mail/?p=BadCredentials`;
-    }
-    return { success: false, message: specificError };
-  }
+  const joinPath = `/video-consult?roomId=${roomId}`;
+  const joinLink = appUrl(joinPath);
+  const invitation = buildIcsCalendar([{
+    uid: icsUid("videoConsult", consultId),
+    start: consultationDateTime,
+    end: new Date(consultationDateTime.getTime() + VIDEO_CONSULT_DURATION_MINUTES * 60_000),
+    summary: `SanHome video consult – ${patientName} with ${nurseName}`,
+    description: `Room ID: ${roomId}\nJoin: ${joinLink}`,
+    location: joinLink,
+    url: joinLink,
+    status: "CONFIRMED",
+    ...(process.env.EMAIL_USER ? { organizer: { name: "SanHome", email: process.env.EMAIL_USER } } : {}),
+  }], { method: "REQUEST" });
+
+  return notificationService.notify(recipient, {
+    event: "consultScheduled",
+    type: "Update",
+    title: "Video Consultation Scheduled",
+    body: `A video consultation between ${patientName} and ${nurseName} is scheduled for ${formattedConsultationTime}.`,
+    link: joinPath,
+    email: {
+      template: "consultScheduled",
+      variables: { patientName, nurseName, dateTime: consultationDateTime, roomId, joinUrl: joinLink },
+      icalEvent: { filename: 'consultation.ics', method: 'REQUEST', content: invitation },
+    },
+  });
 }
 
 const ScheduleVideoConsultInputSchema = z.object({
@@ -613,16 +1505,22 @@ export type VideoConsultListItem = {
 
 export async function scheduleVideoConsult(
   values: ScheduleVideoConsultFormServerValues
-): Promise<{ success?: boolean; message: string; consultId?: string; roomId?: string }> {
+): Promise<AppointmentSaveResult & { consultId?: string; roomId?: string }> {
   console.log("[ACTION_LOG] scheduleVideoConsult (WebRTC/Firestore Version): Initiated with values:", values);
   // This version does NOT use Whereby API. It just generates a roomId for Firestore signaling.
-  
+  const authz = await authorizeAction("scheduleVideoConsult");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] scheduleVideoConsult: Firestore instance is not available.");
       return { success: false, message: "Firestore not initialized." };
     }
     const validatedValues = ScheduleVideoConsultInputSchema.parse(values);
+    if (!(await canAccessPatient(authz.user, validatedValues.patientId))) {
+      const error = forbidden("scheduleVideoConsult", authz.user, "You can only schedule consults for your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
 
     if (!(validatedValues.consultationDateTime instanceof Date) || isNaN(validatedValues.consultationDateTime.getTime())) {
       console.error("[ACTION_ERROR] scheduleVideoConsult: Invalid consultationDateTime provided.", validatedValues.consultationDateTime);
@@ -649,6 +1547,12 @@ export async function scheduleVideoConsult(
     const patient = patientDocSnap.data() as Omit<PatientListItem, 'id'>;
     const nurse = nurseDocSnap.data() as Omit<NurseListItem, 'id'>;
 
+    const schedule = await checkNurseSchedule(validatedValues.nurseId, nurseDocSnap.data(), [validatedValues.consultationDateTime], VIDEO_CONSULT_DURATION_MINUTES, authz.user);
+    if (schedule.conflicts.length > 0) {
+      console.warn(`[ACTION_WARN] scheduleVideoConsult: Nurse ${validatedValues.nurseId} is not available at ${validatedValues.consultationDateTime.toISOString()}.`, schedule.conflicts);
+      return { success: false, message: describeScheduleConflicts(schedule), ...schedule };
+    }
+
     const newRoomId = `sanhome-webrtc-${generateRandomString(8)}`;
     console.log("[ACTION_LOG] scheduleVideoConsult: Generated new WebRTC Room ID:", newRoomId);
 
@@ -659,6 +1563,7 @@ export async function scheduleVideoConsult(
       nurseName: nurse.name,
       consultationTime: Timestamp.fromDate(validatedValues.consultationDateTime),
       roomId: newRoomId, // Storing the generated room ID
+      durationMinutes: VIDEO_CONSULT_DURATION_MINUTES,
       status: 'scheduled' as const,
       createdAt: serverTimestamp(),
     };
@@ -666,44 +1571,29 @@ export async function scheduleVideoConsult(
     const docRef = await addDoc(collection(firestoreInstance, "videoConsults"), newVideoConsultData);
     console.log("[ACTION_LOG] scheduleVideoConsult: Video consult metadata added to Firestore with ID:", docRef.id);
 
-    // Send email notifications with the new roomId
-    let patientEmailResult = { success: false, message: "Patient email not found or sending skipped." };
-    let nurseEmailResult = { success: false, message: "Nurse email not found or sending skipped." };
-
-    if (patient.email) {
-        patientEmailResult = await sendConsultScheduledEmail({
-            toEmail: patient.email,
-            toName: patient.name,
-            patientName: patient.name,
-            nurseName: nurse.name,
-            consultationDateTime: validatedValues.consultationDateTime,
-            roomId: newRoomId,
-        });
-    } else {
-        console.warn(`[ACTION_WARN] scheduleVideoConsult: Patient ${patient.name} has no email address.`);
-        patientEmailResult.message = `Patient ${patient.name} has no email.`;
-    }
-
-    if (nurse.email) {
-        nurseEmailResult = await sendConsultScheduledEmail({
-            toEmail: nurse.email,
-            toName: nurse.name,
-            patientName: patient.name,
-            nurseName: nurse.name,
-            consultationDateTime: validatedValues.consultationDateTime,
-            roomId: newRoomId,
-        });
-    } else {
-        console.warn(`[ACTION_WARN] scheduleVideoConsult: Nurse ${nurse.name} has no email address.`);
-        nurseEmailResult.message = `Nurse ${nurse.name} has no email.`;
+    // Notify both participants on their preferred channels
+    const consultDetails: ConsultScheduledDetails = {
+      patientName: patient.name,
+      nurseName: nurse.name,
+      consultationDateTime: validatedValues.consultationDateTime,
+      roomId: newRoomId,
+      consultId: docRef.id,
+    };
+    const [patientRecipient, nurseRecipient] = await Promise.all([
+      resolveProfileRecipient("patients", validatedValues.patientId, patient.name),
+      resolveProfileRecipient("nurses", validatedValues.nurseId, nurse.name),
+    ]);
+    const deliveryNotes: string[] = [];
+    for (const [recipient, label] of [[patientRecipient, `Patient ${patient.name}`], [nurseRecipient, `Nurse ${nurse.name}`]] as const) {
+      if (!recipient) {
+        console.warn(`[ACTION_WARN] scheduleVideoConsult: ${label} has no account or email address.`);
+        deliveryNotes.push(`${label}: no account or email address.`);
+        continue;
+      }
+      deliveryNotes.push(describeNotificationDelivery(label, await notifyConsultScheduled(recipient, consultDetails)));
     }
 
-    let finalMessage = `Video consult (WebRTC) scheduled for ${patient.name} with ${nurse.name}. Room ID: ${newRoomId}.`;
-    if (!patientEmailResult.success || !nurseEmailResult.success) {
-      finalMessage += ` Email notifications: Patient - ${patientEmailResult.message} Nurse - ${nurseEmailResult.message}`;
-    } else {
-      finalMessage += ` Emails sent successfully to patient and nurse.`;
-    }
+    const finalMessage = `Video consult (WebRTC) scheduled for ${patient.name} with ${nurse.name}. Room ID: ${newRoomId}. Notifications: ${deliveryNotes.join(" ")}`;
 
     return {
       success: true,
@@ -721,18 +1611,28 @@ export async function scheduleVideoConsult(
   }
 }
 
-export async function fetchVideoConsults(): Promise<{ data?: VideoConsultListItem[], error?: string }> {
-  console.log("[ACTION_LOG] fetchVideoConsults: Initiated.");
+// Paged and filtered as described in lib/list-query.ts, sorted by consultation time.
+export async function fetchVideoConsults(options: VideoConsultListQuery = {}): Promise<{ data?: VideoConsultListItem[], nextCursor?: string | null, error?: string, forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchVideoConsults: Initiated with options:", options);
+  const authz = await authorizeAction("fetchVideoConsults");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchVideoConsults: Firestore instance is not available.");
       return { error: "Firestore not initialized." };
     }
-    const consultsCollectionRef = collection(firestoreInstance, "videoConsults");
-    const q = query(consultsCollectionRef, orderBy("consultationTime", "desc"));
-    const consultsSnapshot = await getDocs(q);
-
-    const consultsList = consultsSnapshot.docs.map(docSnap => {
+    const listQuery = VideoConsultListQuerySchema.parse(options);
+    const scope = await getPatientScope(authz.user);
+    if (!scope.all && scope.patientIds.size === 0) return { data: [], nextCursor: null };
+
+    const constraints = patientScopeConstraints(scope);
+    if (listQuery.status) constraints.push(where("status", "==", listQuery.status));
+    if (listQuery.nurseId) constraints.push(where("nurseId", "==", listQuery.nurseId));
+    constraints.push(...dateRangeConstraints("consultationTime", listQuery), orderBy("consultationTime", listQuery.sortDirection ?? "desc"));
+    const q = query(collection(firestoreInstance, "videoConsults"), ...constraints);
+    const { docs, nextCursor } = await readListPage("videoConsults", q, listQuery, docSnap => isInPatientScope(scope, docSnap.data().patientId));
+
+    const consultsList = docs.map(docSnap => {
       const data = docSnap.data();
       return {
         id: docSnap.id,
@@ -746,13 +1646,16 @@ export async function fetchVideoConsults(): Promise<{ data?: VideoConsultListIte
         createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
       } as VideoConsultListItem;
     });
-    return { data: consultsList };
+    return { data: consultsList, nextCursor };
   } catch (error: any)
 {
     console.error("[ACTION_ERROR] fetchVideoConsults: Error fetching video consults from Firestore:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
     if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
-        console.warn("[ACTION_WARN] fetchVideoConsults: Query requires a composite index on 'videoConsults' for 'consultationTime desc'.");
-        return { data: [], error: "Query requires an index. Please create it in Firestore for 'videoConsults' collection on 'consultationTime' descending." };
+        console.warn(`[ACTION_WARN] fetchVideoConsults: Query requires a composite index on 'videoConsults'. Link to create: ${error.message.substring(error.message.indexOf("https://"))}`);
+        return { data: [], error: "Query requires an index. Please create the composite index for these 'videoConsults' filters on 'consultationTime' in Firestore (the server log contains a link)." };
     }
     return { error: `Failed to fetch video consults: ${error.message} (Code: ${error.code || 'N/A'})` };
   }
@@ -773,26 +1676,52 @@ export type MedicalFileItem = {
   createdAt: string; // ISO string
 };
 
-export async function fetchMedicalFiles(patientId?: string): Promise<{ data?: MedicalFileItem[]; error?: string }> {
+// Files listed when no patient is selected.
+const ALL_FILES_LIST_LIMIT = 50;
+
+export async function fetchMedicalFiles(patientId?: string): Promise<{ data?: MedicalFileItem[]; error?: string; forbidden?: ForbiddenError }> {
   console.log(`[ACTION_LOG] fetchMedicalFiles: Initiated. PatientId: ${patientId || 'all'}`);
+  const authz = await authorizeAction("fetchMedicalFiles");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  if (patientId && !(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("fetchMedicalFiles", authz.user, "You can only view the medical files of your own or assigned patients.");
+    return { data: [], error: error.message, forbidden: error };
+  }
+  // Patients are always scoped to their own files.
+  if (authz.user.role === 'patient') patientId = authz.user.uid;
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchMedicalFiles: Firestore instance is not available.");
       throw new Error("Firestore `firestoreInstance` instance is not available in fetchMedicalFiles.");
     }
     const filesCollectionRef = collection(firestoreInstance, "medicalFiles");
-    let q;
+    let fileDocs: QueryDocumentSnapshot[];
     if (patientId) {
       console.log(`[ACTION_LOG] fetchMedicalFiles: Querying for patientId: ${patientId}`);
-      q = query(filesCollectionRef, where("patientId", "==", patientId), orderBy("uploadDate", "desc"));
+      fileDocs = (await getDocs(query(filesCollectionRef, where("patientId", "==", patientId), orderBy("uploadDate", "desc")))).docs;
     } else {
-      console.log(`[ACTION_LOG] fetchMedicalFiles: Querying for all files (consider pagination for production).`);
-      q = query(filesCollectionRef, orderBy("uploadDate", "desc"), limit(50));
+      // The newest files of the user's scope: one query per group of assigned patients for
+      // clinicians, so files of other patients never crowd theirs out of the list.
+      const scope = await getPatientScope(authz.user);
+      console.log(`[ACTION_LOG] fetchMedicalFiles: Querying the ${ALL_FILES_LIST_LIMIT} newest files of the user's scope.`);
+      if (scope.all) {
+        fileDocs = (await getDocs(query(filesCollectionRef, orderBy("uploadDate", "desc"), limit(ALL_FILES_LIST_LIMIT)))).docs;
+      } else {
+        const snapshots = await Promise.all(patientScopeGroups(scope).map(group =>
+          getDocs(query(filesCollectionRef, where("patientId", "in", group), orderBy("uploadDate", "desc"), limit(ALL_FILES_LIST_LIMIT)))
+        ));
+        const uploadTime = (docSnap: QueryDocumentSnapshot) => {
+          const uploadDate = docSnap.data().uploadDate;
+          return uploadDate instanceof Timestamp ? uploadDate.toMillis() : 0;
+        };
+        fileDocs = snapshots.flatMap(snapshot => snapshot.docs)
+          .filter(docSnap => isInPatientScope(scope, docSnap.data().patientId))
+          .sort((a, b) => uploadTime(b) - uploadTime(a))
+          .slice(0, ALL_FILES_LIST_LIMIT);
+      }
     }
-
-    const snapshot = await getDocs(q);
-    console.log(`[ACTION_LOG] fetchMedicalFiles: Found ${snapshot.docs.length} files for query.`);
-    const files = snapshot.docs.map(docSnap => {
+    console.log(`[ACTION_LOG] fetchMedicalFiles: Found ${fileDocs.length} files for query.`);
+    const files = fileDocs.map(docSnap => {
         const data = docSnap.data();
         return {
             id: docSnap.id,
@@ -808,6 +1737,10 @@ export async function fetchMedicalFiles(patientId?: string): Promise<{ data?: Me
             createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
         } as MedicalFileItem
     });
+    await recordAuditEvents(authz.user, files.map(file => ({
+      action: "fetchMedicalFiles", operation: "read", targetType: "medicalFile", targetId: file.id, targetLabel: file.fileName,
+      patientId: file.patientId, patientName: file.patientName,
+    })));
     return { data: files };
   } catch (error: any) {
     console.error("[ACTION_ERROR] fetchMedicalFiles:", error);
@@ -819,16 +1752,51 @@ export async function fetchMedicalFiles(patientId?: string): Promise<{ data?: Me
   }
 }
 
+// The patient and their primary nurse hear about new files, except whoever uploaded it.
+// Failures are logged and never fail the upload.
+async function notifyFileUploaded(patientId: string, patientData: Record<string, any>, fileName: string, uploaderName: string, uploader: SessionUser): Promise<void> {
+  try {
+    const patientName = patientData.name || "the patient";
+    const nurseUid = await resolvePrimaryNurseUid(patientData);
+    const [patientRecipient, nurseRecipient] = await Promise.all([
+      resolveProfileRecipient("patients", patientId, patientName),
+      nurseUid ? resolveUserRecipient(nurseUid, patientData.primaryNurse || "Nurse") : Promise.resolve(null),
+    ]);
+    const recipients = [patientRecipient, nurseRecipient].filter(
+      (recipient, index, all): recipient is NotificationRecipient =>
+        !!recipient && recipient.uid !== uploader.uid && (!recipient.uid || all.findIndex(other => other?.uid === recipient.uid) === index)
+    );
+    await Promise.all(recipients.map(recipient => notificationService.notify(recipient, {
+      event: "fileUploaded",
+      type: "Update",
+      title: "New Medical File",
+      body: `${uploaderName} uploaded "${fileName}" to the medical record of ${patientName}.`,
+      link: "/medical-files",
+      email: { template: "fileUploaded", variables: { uploaderName, fileName, patientName, filesUrl: appUrl("/medical-files") } },
+    })));
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] notifyFileUploaded: Failed to notify about a file of patient ${patientId}:`, error.code, error.message);
+  }
+}
+
 export async function uploadMedicalFile(
   patientId: string,
   fileNameUnused: string, // This parameter is not used as we get filename from File object
   fileTypeUnused: string, // This parameter is not used as we get filetype from File object
   fileSizeUnused: number, // This parameter is not used as we get size from File object
   uploaderId: string,
-  uploaderName: string,
+  uploaderNameUnused: string, // This parameter is not used as the uploader's name is read on the server
   file: File 
-): Promise<{ success?: boolean; message: string; fileId?: string; fileUrl?: string }> {
-  console.log(`[ACTION_LOG] uploadMedicalFile: Uploading for patient ${patientId}, file ${file.name}, uploader ${uploaderName} (${uploaderId})`);
+): Promise<{ success?: boolean; message: string; fileId?: string; fileUrl?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] uploadMedicalFile: Uploading for patient ${patientId}, file ${file.name}, uploader ${uploaderId}`);
+  const authz = await authorizeAction("uploadMedicalFile");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("uploadMedicalFile", authz.user, "You can only upload files to your own or your assigned patients' medical records.");
+    return { success: false, message: error.message, forbidden: error };
+  }
+  // The uploader is always the verified caller, whatever the client sent.
+  uploaderId = authz.user.uid;
   if (!firestoreInstance) {
     console.error("[ACTION_ERROR] uploadMedicalFile: Firestore instance not available.");
     return { success: false, message:"Firestore instance not available in uploadMedicalFile."};
@@ -851,6 +1819,7 @@ export async function uploadMedicalFile(
     const patientDoc = await getDoc(doc(firestoreInstance, "patients", patientId));
     if (patientDoc.exists()) patientName = patientDoc.data().name;
     console.log(`[ACTION_LOG] uploadMedicalFile: Patient name for file metadata: ${patientName}`);
+    const uploaderName = await fetchUserDisplayName(authz.user);
 
     const newFileData = {
         patientId,
@@ -865,8 +1834,17 @@ export async function uploadMedicalFile(
         createdAt: serverTimestamp(),
     };
     console.log("[ACTION_LOG] uploadMedicalFile: Preparing to save metadata to Firestore:", newFileData);
-    const docRef = await addDoc(collection(firestoreInstance, "medicalFiles"), newFileData);
+    const docRef = doc(collection(firestoreInstance, "medicalFiles"));
+    const batch = writeBatch(firestoreInstance);
+    batch.set(docRef, newFileData);
+    addAuditEventToBatch(batch, authz.user, {
+      action: "uploadMedicalFile", operation: "create", targetType: "medicalFile", targetId: docRef.id, targetLabel: file.name,
+      patientId, patientName,
+      changes: diffAuditFields(null, newFileData, ["fileName", "fileType", "fileUrl", "size", "uploaderId"]),
+    });
+    await batch.commit();
     console.log("[ACTION_LOG] uploadMedicalFile: File metadata added to Firestore with ID:", docRef.id);
+    await notifyFileUploaded(patientId, patientDoc.exists() ? patientDoc.data() : {}, file.name, uploaderName, authz.user);
     return { success: true, message: "File uploaded and metadata saved successfully.", fileId: docRef.id, fileUrl: uploadedUrl };
 
   } catch (error: any) {
@@ -887,8 +1865,14 @@ export type NotificationItem = {
   createdAt: string; // ISO string
 };
 
-export async function fetchNotifications(userId: string): Promise<{ data?: NotificationItem[]; error?: string }> {
+export async function fetchNotifications(userId: string): Promise<{ data?: NotificationItem[]; error?: string; forbidden?: ForbiddenError }> {
   console.log(`[ACTION_LOG] fetchNotifications: Initiated for user ${userId}.`);
+  const authz = await authorizeAction("fetchNotifications");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  if (!canAccessUserData(authz.user, userId)) {
+    const error = forbidden("fetchNotifications", authz.user, "You can only view your own notifications.");
+    return { data: [], error: error.message, forbidden: error };
+  }
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchNotifications: Firestore instance is not available.");
@@ -920,8 +1904,14 @@ export async function fetchNotifications(userId: string): Promise<{ data?: Notif
   }
 }
 
-export async function markNotificationAsRead(userId: string, notificationId: string): Promise<{ success: boolean; message?: string }> {
+export async function markNotificationAsRead(userId: string, notificationId: string): Promise<{ success: boolean; message?: string; forbidden?: ForbiddenError }> {
     console.log(`[ACTION_LOG] markNotificationAsRead: User ${userId}, Notification ${notificationId}`);
+    const authz = await authorizeAction("markNotificationAsRead");
+    if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+    if (!canAccessUserData(authz.user, userId)) {
+      const error = forbidden("markNotificationAsRead", authz.user, "You can only update your own notifications.");
+      return { success: false, message: error.message, forbidden: error };
+    }
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] markNotificationAsRead: Firestore instance is not available.");
       return { success: false, message: "Firestore `firestoreInstance` instance is not available in markNotificationAsRead." };
@@ -936,8 +1926,14 @@ export async function markNotificationAsRead(userId: string, notificationId: str
     }
 }
 
-export async function markAllNotificationsAsRead(userId: string): Promise<{ success: boolean; message?: string }> {
+export async function markAllNotificationsAsRead(userId: string): Promise<{ success: boolean; message?: string; forbidden?: ForbiddenError }> {
     console.log(`[ACTION_LOG] markAllNotificationsAsRead: User ${userId}`);
+    const authz = await authorizeAction("markAllNotificationsAsRead");
+    if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+    if (!canAccessUserData(authz.user, userId)) {
+      const error = forbidden("markAllNotificationsAsRead", authz.user, "You can only update your own notifications.");
+      return { success: false, message: error.message, forbidden: error };
+    }
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] markAllNotificationsAsRead: Firestore instance is not available.");
       return { success: false, message: "Firestore `firestoreInstance` instance is not available in markAllNotificationsAsRead." };
@@ -963,129 +1959,1411 @@ export async function markAllNotificationsAsRead(userId: string): Promise<{ succ
 }
 
 
+// --- Notification preferences ---
 
-export type UserForAdminList = {
-    id: string;
-    email: string | null;
-    name: string;
-    role: string | null;
-    status: 'Active' | 'Suspended' | string;
-    joined: string; // ISO string
-    createdAt: string; // ISO string
+export type NotificationSettings = {
+  preferences: NotificationPreferences;
+  pushDevices: number; // browsers registered for Web Push
 };
 
-export async function fetchUsersForAdmin(): Promise<{ data?: UserForAdminList[]; error?: string }> {
-    console.log("[ACTION_LOG] fetchUsersForAdmin: Initiated.");
-    try {
-        if (!firestoreInstance) {
-          console.error("[ACTION_ERROR] fetchUsersForAdmin: Firestore instance is not available.");
-          throw new Error("Firestore `firestoreInstance` instance is not available in fetchUsersForAdmin.");
-        }
-        const usersCollectionRef = collection(firestoreInstance, "users");
-        const q = query(usersCollectionRef, orderBy("createdAt", "desc"));
-        const snapshot = await getDocs(q);
-        const usersList = snapshot.docs.map(docSnap => {
-            const data = docSnap.data();
-            console.log(`[ACTION_LOG] fetchUsersForAdmin: Raw data from Firestore doc ${docSnap.id}:`, data);
-            let name = "N/A";
-            if (data.firstName && data.lastName) {
-              name = `${data.firstName} ${data.lastName}`;
-            } else if (data.firstName) {
-              name = data.firstName;
-            } else if (data.lastName) {
-              name = data.lastName;
-            } else if (data.email) {
-              name = data.email; 
-            } else {
-              name = "Unknown User";
-            }
+export async function fetchNotificationPreferences(): Promise<{ data?: NotificationSettings; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchNotificationPreferences: Initiated.");
+  const authz = await authorizeAction("fetchNotificationPreferences");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchNotificationPreferences: Firestore instance is not available.");
+      return { error: "Firestore not initialized." };
+    }
+    const userDoc = await getDoc(doc(firestoreInstance, "users", authz.user.uid));
+    const userData = userDoc.exists() ? userDoc.data() : {};
+    return {
+      data: {
+        preferences: resolveNotificationPreferences(userData.notificationPreferences),
+        pushDevices: Array.isArray(userData.pushTokens) ? userData.pushTokens.length : 0,
+      },
+    };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchNotificationPreferences:", error.code, error.message, error);
+    return { error: `Failed to fetch notification preferences: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
 
-            const mappedUser = {
-                id: docSnap.id,
-                email: data.email || null,
-                name: name,
-                role: data.role || 'patient', // Default to patient if role not set
-                status: 'Active', 
-                joined: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
-                createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
-            } as UserForAdminList;
-            console.log(`[ACTION_LOG] fetchUsersForAdmin: Mapped user for chat:`, mappedUser);
-            return mappedUser;
-        });
-        return { data: usersList };
-    } catch (error: any) {
-        console.error("[ACTION_ERROR] fetchUsersForAdmin:", error);
-        if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
-            console.warn("[ACTION_WARN] fetchUsersForAdmin: Query requires a composite index on 'users' for 'createdAt desc'.");
-            return { data: [], error: "Query requires an index. Please create it in Firestore for 'users' collection on 'createdAt' descending." };
-        }
-        return { data: [], error: `Failed to fetch users: ${error.message}` };
+export async function updateNotificationPreferences(values: NotificationPreferences): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] updateNotificationPreferences: Initiated with values:", values);
+  const authz = await authorizeAction("updateNotificationPreferences");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updateNotificationPreferences: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const validatedValues = NotificationPreferencesSchema.parse(values);
+    await setDoc(doc(firestoreInstance, "users", authz.user.uid), {
+      notificationPreferences: {
+        channels: validatedValues.channels,
+        ...(validatedValues.smsPhone ? { smsPhone: validatedValues.smsPhone } : {}),
+        ...(validatedValues.locale ? { locale: validatedValues.locale } : {}),
+      },
+    }, { merge: true });
+    console.log(`[ACTION_LOG] updateNotificationPreferences: Preferences of ${authz.user.uid} updated.`);
+    return { success: true, message: "Notification preferences saved." };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] updateNotificationPreferences:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
     }
+    return { success: false, message: `Failed to save notification preferences: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
 }
 
+// Firebase Cloud Messaging registration tokens of the caller's browsers.
+export async function registerPushToken(token: string, enabled: boolean = true): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] registerPushToken: ${enabled ? "Registering" : "Removing"} a push token.`);
+  const authz = await authorizeAction("registerPushToken");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] registerPushToken: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    if (!token || token.length > 4096) {
+      return { success: false, message: "Invalid push token." };
+    }
+    await setDoc(doc(firestoreInstance, "users", authz.user.uid), {
+      pushTokens: enabled ? arrayUnion(token) : arrayRemove(token),
+    }, { merge: true });
+    return { success: true, message: enabled ? "This browser will receive push notifications." : "Push notifications turned off for this browser." };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] registerPushToken:", error.code, error.message, error);
+    return { success: false, message: `Failed to update push registration: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
 
-// --- Start of Seed Database Logic ---
-// IMPORTANT REMINDER:
-// For this to work, ensure your Firestore rules allow writes.
-// During development, you might temporarily use `allow read, write: if true;`.
-// For production, ensure your rules are secure (e.g., `allow write: if request.auth != null;` and you are logged in).
-// Also, ensure Firebase Authentication "Email/Password" sign-in provider is ENABLED in the Firebase console.
-// The Cloud Firestore API MUST be enabled in your Google Cloud project.
+// Called by the chat page after writing a message. Email, SMS and push only say that a
+// message arrived; the text itself stays in the app. In groups and care team channels only
+// the members mentioned in the message are notified (lib/chat-groups.ts).
+export async function notifyChatMessage(chatId: string, messageId: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] notifyChatMessage: Chat ${chatId}, message ${messageId}.`);
+  const authz = await authorizeAction("notifyChatMessage");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] notifyChatMessage: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const [chatDoc, messageDoc] = await Promise.all([
+      getDoc(doc(firestoreInstance, "chats", chatId)),
+      getDoc(doc(firestoreInstance, "chats", chatId, "messages", messageId)),
+    ]);
+    if (!chatDoc.exists() || !messageDoc.exists()) {
+      return { success: false, message: "Message not found." };
+    }
+    const chat = chatDoc.data();
+    const message = messageDoc.data();
+    if (message.senderId !== authz.user.uid || !Array.isArray(chat.participants) || !chat.participants.includes(authz.user.uid)) {
+      const error = forbidden("notifyChatMessage", authz.user, "You can only send notifications for your own messages.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const senderName: string = chat.participantNames?.[authz.user.uid] || authz.user.email || "Someone";
+    const isGroup = !directChatParticipants(chatId);
+    const mentions: string[] = Array.isArray(message.mentions) ? message.mentions : [];
+    const receiverIds = (chat.participants as string[])
+      .filter(uid => uid !== authz.user.uid && (!isGroup || mentions.includes(uid)));
+    const link = isGroup ? `/chat?chat=${encodeURIComponent(chatId)}` : "/chat";
+    await Promise.all(receiverIds.map(async receiverId => {
+      const recipient = await resolveUserRecipient(receiverId, chat.participantNames?.[receiverId] || "there");
+      if (!recipient) return;
+      await notificationService.notify(recipient, {
+        event: "chatMessage",
+        type: "Update",
+        title: isGroup ? "You Were Mentioned" : "New Message",
+        body: isGroup ? `${senderName} mentioned you in ${chat.name || "a group conversation"}.` : `You have a new message from ${senderName}.`,
+        link,
+        // One entry per conversation, refreshed by every new message.
+        notificationId: `chat-${chatId}`,
+        email: { template: "chatMessage", variables: { senderName, chatUrl: appUrl(link) } },
+      });
+    }));
+    return { success: true, message: receiverIds.length > 0 ? "Participants notified." : "No one to notify." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] notifyChatMessage for chat ${chatId}:`, error.code, error.message, error);
+    return { success: false, message: `Failed to notify chat participants: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
 
-// For email notifications from seeding:
-// Ensure EMAIL_USER and EMAIL_PASS (App Password for Gmail) are correctly set in .env.
+// --- Chat attachments (lib/chat-attachments.ts) ---
+
+// Members of a conversation: the two UIDs of a direct conversation ID (as in the security
+// rules), or the participants of a group or care team channel (lib/chat-groups.ts).
+async function fetchChatMembers(chatId: string): Promise<{ members: string[]; chat: Record<string, any> | null }> {
+  const direct = directChatParticipants(chatId);
+  if (!firestoreInstance) return { members: direct ?? [], chat: null };
+  const chatDoc = await getDoc(doc(firestoreInstance, "chats", chatId));
+  const chat = chatDoc.exists() ? chatDoc.data() : null;
+  if (direct) return { members: direct, chat };
+  return { members: Array.isArray(chat?.participants) ? chat!.participants : [], chat };
+}
 
-const firstNames = [
-  "Foulen", "Amina", "Mohamed", "Fatma", "Ali", "Sarah", "Youssef", "Hiba", "Ahmed", "Nour",
-  "Khaled", "Lina", "Omar", "Zahra", "Hassan", "Mariem", "Ibrahim", "Sana", "Tarek", "Leila"
-];
-const lastNames = [
-  "Ben Foulen", "Trabelsi", "Jlassi", "Gharbi", "Mabrouk", "Saidi", "Baccouche", "Hammami",
-  "Chakroun", "Ben Ammar", "Dridi", "Sassi", "Kooli", "Mansouri", "Ayari", "Feki", "Belhadj",
-  "Khemiri", "Zouari", "Gargouri"
-];
-const tunisianRoles = ["sage-femme", "patient", "infirmiere", "medecin", "aide-soignant", "kinesitherapeute", "admin"];
-const addresses = [
-  "Avenue Habib Bourguiba, Tunis", "Rue de la Liberté, Sfax", "Boulevard 7 Novembre, Sousse",
-  "Rue Farhat Hached, Ariana", "Avenue Taieb Mhiri, Nabeul", "Rue de Carthage, Bizerte",
-  "Avenue de la République, Monastir", "Rue Jamel Abdennasser, Kairouan",
-  "Avenue Mohamed V, Gabès", "Rue Ibn Khaldoun, Gafsa", "Avenue Ali Belhouane, Mahdia",
-  "Rue 18 Janvier, Djerba", "Avenue Hédi Chaker, Kasserine",
-  "Rue de l'Indépendance, Sidi Bouzid", "Avenue de l'Environnement, Tozeur"
-];
-const genders = ["homme", "femme"];
+const ChatAttachmentOptionsSchema = z.object({
+  caption: z.string().trim().max(CHAT_CAPTION_MAX_LENGTH, `Captions must be ${CHAT_CAPTION_MAX_LENGTH} characters or fewer.`).optional(),
+  durationSeconds: z.number().positive("The voice note duration must be positive.").optional(),
+});
+type ChatAttachmentOptions = z.infer<typeof ChatAttachmentOptionsSchema>;
+
+// Uploads an image, PDF or voice note and writes the message carrying it, with the last message
+// and unread counts of the conversation. Messages with an attachment can only be written here,
+// so their file has always passed the type and size checks.
+export async function sendChatAttachment(
+  chatId: string,
+  file: File,
+  options: ChatAttachmentOptions = {}
+): Promise<{ success?: boolean; message: string; messageId?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] sendChatAttachment: Chat ${chatId}, file ${file.name} (${file.type}, ${file.size} bytes).`);
+  const authz = await authorizeAction("sendChatAttachment");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    const { members } = await fetchChatMembers(chatId);
+    if (!members.includes(authz.user.uid)) {
+      const error = forbidden("sendChatAttachment", authz.user, "You can only send attachments in your own conversations.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const { caption, durationSeconds } = ChatAttachmentOptionsSchema.parse(options);
+    const invalid = validateChatAttachment(file, durationSeconds);
+    if (invalid) return { success: false, message: invalid };
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] sendChatAttachment: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    if (!process.env.CLOUDINARY_CLOUD_NAME) {
+      console.error("[ACTION_ERROR] sendChatAttachment: Cloudinary not configured. Cannot upload file.");
+      return { success: false, message: "Cloudinary not configured. File upload failed." };
+    }
 
-const mockTunisianPatients = [
-  {
-    name: "Ahmed Ben Salah", age: 68,
-    phone: generatePhoneNumber(), emailSuffix: `ahmed.bensalah`, address: addresses[Math.floor(Math.random() * addresses.length)],
-    mobilityStatus: "Ambulatoire avec canne", pathologies: ["Diabète", "Hypertension"], allergies: ["Pénicilline"],
-    lastVisitDate: "2024-07-15", condition: "Diabète de type 2", status: "Stable", hint: "elderly man tunisian"
-  },
-  {
-    name: "Fatima Bouaziz", age: 75,
-    phone: generatePhoneNumber(), emailSuffix: `fatima.bouaziz`, address: addresses[Math.floor(Math.random() * addresses.length)],
-    mobilityStatus: "Fauteuil roulant", pathologies: ["Arthrose", "Problèmes cardiaques"], allergies: ["Aspirine"],
-    lastVisitDate: "2024-07-20", condition: "Arthrose sévère", status: "Needs Follow-up", hint: "elderly woman tunisian"
-  },
-   {
-    name: "Youssef Jlassi", age: 55,
-    phone: generatePhoneNumber(), emailSuffix: `youssef.jlassi`, address: addresses[Math.floor(Math.random() * addresses.length)],
-    mobilityStatus: "Mobile", pathologies: ["Asthme"], allergies: [],
-    lastVisitDate: "2024-06-10", condition: "Asthme chronique", status: "Stable", hint: "man tunisian"
-  },
-  {
-    name: "Mariem Saidi", age: 62,
-    phone: generatePhoneNumber(), emailSuffix: `mariem.saidi`, address: addresses[Math.floor(Math.random() * addresses.length)],
-    mobilityStatus: "Limitée, utilise un déambulateur", pathologies: ["Ostéoporose", "Hypertension"], allergies: ["Sulfamides"],
-    lastVisitDate: "2024-07-01", condition: "Ostéoporose", status: "Needs Follow-up", hint: "woman tunisian"
-  },
-  {
-    name: "Ali Trabelsi", age: 71,
-    phone: generatePhoneNumber(), emailSuffix: `ali.trabelsi`, address: addresses[Math.floor(Math.random() * addresses.length)],
-    mobilityStatus: "Mobile avec aide occasionnelle", pathologies: ["Insuffisance rénale légère"], allergies: [],
-    lastVisitDate: "2024-05-25", condition: "Insuffisance rénale", status: "Stable", hint: "senior man tunisian"
-  },
+    const uploadedUrl = await uploadToCloudinary(file, `chat-attachments/${chatId}`);
+    if (!uploadedUrl) {
+      console.error("[ACTION_ERROR] sendChatAttachment: Cloudinary upload returned no URL for chat", chatId);
+      return { success: false, message: "File upload to Cloudinary failed: No URL returned." };
+    }
+    const kind = chatAttachmentKind(file.type)!;
+    const attachment: ChatAttachment = {
+      kind,
+      url: uploadedUrl,
+      fileName: kind === "voice" ? voiceNoteFileName(file.type, new Date()) : file.name,
+      fileType: file.type,
+      size: file.size,
+      ...(kind === "voice" && durationSeconds !== undefined ? { durationSeconds: Math.round(durationSeconds) } : {}),
+    };
+    const direct = directChatParticipants(chatId);
+    const batch = writeBatch(firestoreInstance);
+    const messageRef = doc(collection(firestoreInstance, "chats", chatId, "messages"));
+    batch.set(messageRef, {
+      senderId: authz.user.uid,
+      ...(direct ? { receiverId: direct.find(uid => uid !== authz.user.uid) ?? authz.user.uid } : {}),
+      text: caption ?? "",
+      attachment,
+      timestamp: serverTimestamp(),
+    });
+    batch.set(doc(firestoreInstance, "chats", chatId), {
+      ...(direct ? { participants: [...direct].sort() } : {}),
+      lastActivity: serverTimestamp(),
+      lastMessage: { messageId: messageRef.id, senderId: authz.user.uid, preview: lastMessagePreview(caption ?? "", kind), at: serverTimestamp() },
+      unreadCounts: Object.fromEntries(members.filter(uid => uid !== authz.user.uid).map(uid => [uid, increment(1)])),
+      readBy: { [authz.user.uid]: serverTimestamp() },
+      typing: { [authz.user.uid]: deleteField() },
+    }, { merge: true });
+    await batch.commit();
+    console.log(`[ACTION_LOG] sendChatAttachment: Message ${messageRef.id} with a ${kind} attachment written to chat ${chatId}.`);
+    return { success: true, message: "Attachment sent.", messageId: messageRef.id };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] sendChatAttachment for chat ${chatId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to send attachment: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Files a chat attachment under the medical files of the patient taking part in the
+// conversation. The uploaded file is reused; the new medical file credits the sender of the
+// message as uploader and the message keeps its ID, so an attachment is only filed once.
+export async function saveChatAttachmentToMedicalFile(
+  chatId: string,
+  messageId: string
+): Promise<{ success?: boolean; message: string; fileId?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] saveChatAttachmentToMedicalFile: Chat ${chatId}, message ${messageId}.`);
+  const authz = await authorizeAction("saveChatAttachmentToMedicalFile");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] saveChatAttachmentToMedicalFile: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const { members, chat } = await fetchChatMembers(chatId);
+    if (!members.includes(authz.user.uid)) {
+      const error = forbidden("saveChatAttachmentToMedicalFile", authz.user, "You can only file attachments from your own conversations.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    // Groups name their patient; in a direct conversation it is the participant with a patient
+    // profile (profiles share the UID of their account).
+    const candidatePatientIds: string[] = chat?.patientId ? [chat.patientId] : members;
+    const messageRef = doc(firestoreInstance, "chats", chatId, "messages", messageId);
+    const [messageDoc, ...patientDocs] = await Promise.all([
+      getDoc(messageRef),
+      ...candidatePatientIds.map(uid => getDoc(doc(firestoreInstance!, "patients", uid))),
+    ]);
+    const attachment = messageDoc.exists() ? (messageDoc.data().attachment as ChatAttachment | undefined) : undefined;
+    if (!attachment) {
+      return { success: false, message: "This message has no attachment." };
+    }
+    if (attachment.medicalFileId) {
+      return { success: true, message: "This attachment is already in the patient's medical file.", fileId: attachment.medicalFileId };
+    }
+    const patientDocsFound = patientDocs.filter(patientDoc => patientDoc.exists());
+    if (patientDocsFound.length !== 1) {
+      return { success: false, message: "Only attachments from a conversation with a patient can be saved to a medical file." };
+    }
+    const patientDoc = patientDocsFound[0];
+    const patientId = patientDoc.id;
+    if (!(await canAccessPatient(authz.user, patientId))) {
+      const error = forbidden("saveChatAttachmentToMedicalFile", authz.user, "You can only file attachments in the medical records of your own or your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+
+    const senderId: string = messageDoc.data()!.senderId;
+    const patientName: string = patientDoc.data()!.name || "N/A";
+    // The sender's name from their account, not the names the clients keep on the conversation.
+    const [sender] = await fetchGroupChatMembers([senderId]);
+    const newFileData = {
+      patientId,
+      patientName,
+      fileName: attachment.fileName,
+      fileType: attachment.fileType,
+      fileUrl: attachment.url,
+      uploadDate: Timestamp.now(),
+      uploaderId: senderId,
+      uploaderName: sender?.name || "Chat participant",
+      size: attachment.size,
+      createdAt: serverTimestamp(),
+      source: { chatId, messageId, filedBy: authz.user.uid },
+    };
+    const fileRef = doc(collection(firestoreInstance, "medicalFiles"));
+    const batch = writeBatch(firestoreInstance);
+    batch.set(fileRef, newFileData);
+    batch.update(messageRef, { "attachment.medicalFileId": fileRef.id });
+    addAuditEventToBatch(batch, authz.user, {
+      action: "saveChatAttachmentToMedicalFile", operation: "create", targetType: "medicalFile", targetId: fileRef.id, targetLabel: attachment.fileName,
+      patientId, patientName,
+      changes: diffAuditFields(null, newFileData, ["fileName", "fileType", "fileUrl", "size", "uploaderId"]),
+    });
+    await batch.commit();
+    console.log(`[ACTION_LOG] saveChatAttachmentToMedicalFile: Attachment of message ${messageId} filed as medical file ${fileRef.id} of patient ${patientId}.`);
+    return { success: true, message: `Saved to the medical file of ${patientName}.`, fileId: fileRef.id };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] saveChatAttachmentToMedicalFile for message ${messageId} of chat ${chatId}:`, error.code, error.message, error);
+    return { success: false, message: `Failed to save the attachment to the medical file: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// --- Group chats (lib/chat-groups.ts) ---
+// Groups and care team channels are created and their members changed only here; the security
+// rules let members update the read state of a conversation, never its name or members.
+
+type GroupChatMember = { uid: string; name: string; role: AppRole };
+
+// Members with an account; unknown UIDs are left out.
+async function fetchGroupChatMembers(uids: string[]): Promise<GroupChatMember[]> {
+  const userDocs = await Promise.all([...new Set(uids)].map(uid => getDoc(doc(firestoreInstance!, "users", uid))));
+  return userDocs.filter(userDoc => userDoc.exists()).map(userDoc => {
+    const data = userDoc.data()!;
+    return { uid: userDoc.id, name: `${data.firstName || ''} ${data.lastName || ''}`.trim() || data.email || "Unknown User", role: data.role || "patient" };
+  });
+}
+
+// Written as a whole, so that removed members also leave the name and role maps.
+function groupChatMemberFields(members: GroupChatMember[]): Record<string, any> {
+  return {
+    participants: members.map(member => member.uid).sort(),
+    participantNames: Object.fromEntries(members.map(member => [member.uid, member.name])),
+    participantRoles: Object.fromEntries(members.map(member => [member.uid, member.role])),
+  };
+}
+
+// Patients and family caregivers only join groups about their own care: the first member who
+// is neither staff, the group's patient nor one of the patient's caregivers.
+function findOutsideMember(members: GroupChatMember[], patientId: string | null, patientData: Record<string, any> | null): GroupChatMember | undefined {
+  const seats = new Set<string>(patientId ? [patientData?.userId || patientId, ...(patientData?.caregiverIds ?? [])] : []);
+  return members.find(member => !isStaffRole(member.role) && !seats.has(member.uid));
+}
+
+// The accounts of the care team channel of a patient: their own, the active care team and the
+// family caregivers.
+function careTeamChannelMemberIds(patientData: Record<string, any>, active: CareAssignment[]): string[] {
+  return [
+    ...(patientData.userId ? [patientData.userId] : []),
+    ...active.map(assignment => assignment.clinicianId),
+    ...(Array.isArray(patientData.caregiverIds) ? patientData.caregiverIds : []),
+  ];
+}
+
+// Rewrites the care team channel of a patient in `batch` from the data the batch leaves on the
+// patient (careTeamChannelMemberIds). Returns the members.
+async function addCareTeamChannelToBatch(batch: WriteBatch, patientId: string, patientData: Record<string, any>, active: CareAssignment[]): Promise<string[]> {
+  const members = await fetchGroupChatMembers(careTeamChannelMemberIds(patientData, active));
+  batch.set(doc(firestoreInstance!, "chats", careTeamChannelId(patientId)), {
+    type: "careTeam",
+    name: careTeamChannelName(patientData.name || "N/A"),
+    patientId,
+    managers: [],
+    ...groupChatMemberFields(members),
+  }, { mergeFields: ["type", "name", "patientId", "managers", "participants", "participantNames", "participantRoles"] });
+  return members.map(member => member.uid);
+}
+
+export async function createGroupChat(values: CreateGroupChatInput): Promise<{ success?: boolean; message: string; chatId?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] createGroupChat: Initiated with values:", values);
+  const authz = await authorizeAction("createGroupChat");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] createGroupChat: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const validatedValues = CreateGroupChatSchema.parse(values);
+    const patientId = validatedValues.patientId ?? null;
+    let patientData: Record<string, any> | null = null;
+    if (patientId) {
+      if (!(await canAccessPatient(authz.user, patientId))) {
+        const error = forbidden("createGroupChat", authz.user, "You can only create groups about your own or your assigned patients.");
+        return { success: false, message: error.message, forbidden: error };
+      }
+      const patientDoc = await getDoc(doc(firestoreInstance, "patients", patientId));
+      if (!patientDoc.exists()) {
+        return { success: false, message: "Patient not found." };
+      }
+      patientData = patientDoc.data();
+    }
+    const memberIds = new Set([authz.user.uid, ...validatedValues.memberIds]);
+    const members = await fetchGroupChatMembers([...memberIds]);
+    if (members.length !== memberIds.size) {
+      return { success: false, message: "Some of the selected members do not have an account." };
+    }
+    const outsider = findOutsideMember(members, patientId, patientData);
+    if (outsider) {
+      return { success: false, message: `${outsider.name} can only join groups about their own care or the care of a patient who authorized them.` };
+    }
+
+    const chatRef = doc(collection(firestoreInstance, "chats"));
+    await setDoc(chatRef, {
+      type: "group",
+      name: validatedValues.name,
+      patientId,
+      managers: [authz.user.uid],
+      ...groupChatMemberFields(members),
+      createdBy: authz.user.uid,
+      createdAt: serverTimestamp(),
+      lastActivity: serverTimestamp(),
+    });
+    console.log(`[ACTION_LOG] createGroupChat: Group ${chatRef.id} created by ${authz.user.uid} with ${members.length} members.`);
+    return { success: true, message: `Group "${validatedValues.name}" created.`, chatId: chatRef.id };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] createGroupChat:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to create the group: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Renames a group or changes its members. Managers (the creator, then whoever remains) and
+// admins only; care team channels follow the care team instead.
+export async function updateGroupChat(chatId: string, values: UpdateGroupChatInput): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] updateGroupChat: Initiated for ${chatId} with values:`, values);
+  const authz = await authorizeAction("updateGroupChat");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updateGroupChat: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const validatedValues = UpdateGroupChatSchema.parse(values);
+    const chatRef = doc(firestoreInstance, "chats", chatId);
+    const chatDoc = await getDoc(chatRef);
+    const chat = chatDoc.exists() ? chatDoc.data() : null;
+    if (chat?.type === "careTeam") {
+      return { success: false, message: "Care team channels follow the patient's care team and cannot be edited." };
+    }
+    if (chat?.type !== "group") {
+      return { success: false, message: "Group not found." };
+    }
+    const managers: string[] = Array.isArray(chat.managers) ? chat.managers : [];
+    if (authz.user.role !== "admin" && !managers.includes(authz.user.uid)) {
+      const error = forbidden("updateGroupChat", authz.user, "Only the managers of a group can rename it or change its members.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+
+    const removed = new Set(validatedValues.removeMemberIds ?? []);
+    const current: string[] = Array.isArray(chat.participants) ? chat.participants : [];
+    const added = (validatedValues.addMemberIds ?? []).filter(uid => !current.includes(uid));
+    const memberIds = new Set([...current.filter(uid => !removed.has(uid)), ...added]);
+    if (memberIds.size < 2) {
+      return { success: false, message: "A group needs at least two members." };
+    }
+    if (memberIds.size > GROUP_CHAT_MAX_MEMBERS) {
+      return { success: false, message: `Groups have at most ${GROUP_CHAT_MAX_MEMBERS} members.` };
+    }
+    const members = await fetchGroupChatMembers([...memberIds]);
+    const addedMembers = members.filter(member => added.includes(member.uid));
+    if (addedMembers.length !== added.length) {
+      return { success: false, message: "Some of the selected members do not have an account." };
+    }
+    if (addedMembers.length > 0) {
+      const patientDoc = chat.patientId ? await getDoc(doc(firestoreInstance, "patients", chat.patientId)) : null;
+      const outsider = findOutsideMember(addedMembers, chat.patientId ?? null, patientDoc?.exists() ? patientDoc.data() : null);
+      if (outsider) {
+        return { success: false, message: `${outsider.name} can only join groups about their own care or the care of a patient who authorized them.` };
+      }
+    }
+    const remainingManagers = managers.filter(uid => memberIds.has(uid));
+
+    await updateDoc(chatRef, {
+      ...(validatedValues.name ? { name: validatedValues.name } : {}),
+      ...groupChatMemberFields(members),
+      managers: remainingManagers.length > 0 ? remainingManagers : [members[0].uid],
+    });
+    console.log(`[ACTION_LOG] updateGroupChat: Group ${chatId} updated by ${authz.user.uid}: ${added.length} added, ${current.length + added.length - memberIds.size} removed.`);
+    return { success: true, message: "Group updated." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updateGroupChat for ${chatId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update the group: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// The last manager to leave hands the group over to the longest-standing remaining member.
+export async function leaveGroupChat(chatId: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] leaveGroupChat: Initiated for ${chatId}`);
+  const authz = await authorizeAction("leaveGroupChat");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] leaveGroupChat: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const chatRef = doc(firestoreInstance, "chats", chatId);
+    const chatDoc = await getDoc(chatRef);
+    const chat = chatDoc.exists() ? chatDoc.data() : null;
+    if (chat?.type === "careTeam") {
+      return { success: false, message: "You leave a care team channel by leaving the patient's care team." };
+    }
+    const participants: string[] = Array.isArray(chat?.participants) ? chat!.participants : [];
+    if (chat?.type !== "group" || !participants.includes(authz.user.uid)) {
+      return { success: false, message: "You are not a member of this group." };
+    }
+    const remaining = participants.filter(uid => uid !== authz.user.uid);
+    const managers = (Array.isArray(chat.managers) ? chat.managers as string[] : []).filter(uid => uid !== authz.user.uid);
+    await updateDoc(chatRef, {
+      participants: remaining,
+      [`participantNames.${authz.user.uid}`]: deleteField(),
+      [`participantRoles.${authz.user.uid}`]: deleteField(),
+      managers: managers.length > 0 || remaining.length === 0 ? managers : [remaining[0]],
+    });
+    console.log(`[ACTION_LOG] leaveGroupChat: ${authz.user.uid} left group ${chatId}.`);
+    return { success: true, message: `You left "${chat.name || "the group"}".` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] leaveGroupChat for ${chatId}:`, error.code, error.message, error);
+    return { success: false, message: `Failed to leave the group: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Brings the patient's care team channel up to date (creating it for patients whose care team
+// predates channels) and returns its ID, for the members of the channel.
+export async function openCareTeamChannel(patientId: string): Promise<{ success?: boolean; message: string; chatId?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] openCareTeamChannel: Initiated for patient ${patientId}`);
+  const authz = await authorizeAction("openCareTeamChannel");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] openCareTeamChannel: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const patientDoc = await getDoc(doc(firestoreInstance, "patients", patientId));
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    const patientData = patientDoc.data();
+    const isCaregiver = Array.isArray(patientData.caregiverIds) && patientData.caregiverIds.includes(authz.user.uid);
+    if (!isCaregiver && !(await canAccessPatient(authz.user, patientId))) {
+      const error = forbidden("openCareTeamChannel", authz.user, "You can only open the care team channel of your own or your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const active = await fetchActiveCareAssignments(patientId);
+    if (!careTeamChannelMemberIds(patientData, active).includes(authz.user.uid)) {
+      const error = forbidden("openCareTeamChannel", authz.user, "Only the patient, their care team and their family caregivers are members of the care team channel.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const batch = writeBatch(firestoreInstance);
+    await addCareTeamChannelToBatch(batch, patientId, patientData, active);
+    await batch.commit();
+    return { success: true, message: "Care team channel ready.", chatId: careTeamChannelId(patientId) };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] openCareTeamChannel for patient ${patientId}:`, error.code, error.message, error);
+    return { success: false, message: `Failed to open the care team channel: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// --- Family caregivers ---
+// Authorized by the patient or an admin; stored on the patient (`caregivers` by UID and the
+// `caregiverIds` the rules and queries use) and seated in the care team channel in the same batch.
+
+function familyCaregiversFromData(patientData: Record<string, any>): FamilyCaregiver[] {
+  const caregivers = patientData.caregivers && typeof patientData.caregivers === "object" ? patientData.caregivers : {};
+  return Object.entries(caregivers as Record<string, any>)
+    .map(([uid, caregiver]) => ({
+      uid,
+      name: caregiver.name || "Unknown User",
+      email: caregiver.email || null,
+      relationship: caregiver.relationship in CAREGIVER_RELATIONSHIP_LABELS ? caregiver.relationship : "other",
+      authorizedAt: caregiver.authorizedAt instanceof Timestamp ? caregiver.authorizedAt.toDate().toISOString() : new Date(0).toISOString(),
+      authorizedBy: caregiver.authorizedBy,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function canManageFamilyCaregivers(user: SessionUser, patientId: string): boolean {
+  return user.role === "admin" || (user.role === "patient" && user.uid === patientId);
+}
+
+export async function fetchFamilyCaregivers(patientId: string): Promise<{ data?: FamilyCaregiver[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchFamilyCaregivers: Initiated for patient ${patientId}`);
+  const authz = await authorizeAction("fetchFamilyCaregivers");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("fetchFamilyCaregivers", authz.user, "You can only view the caregivers of your own or your assigned patients.");
+    return { error: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchFamilyCaregivers: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in fetchFamilyCaregivers.");
+    }
+    const patientDoc = await getDoc(doc(firestoreInstance, "patients", patientId));
+    if (!patientDoc.exists()) {
+      return { error: "Patient not found." };
+    }
+    return { data: familyCaregiversFromData(patientDoc.data()) };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] fetchFamilyCaregivers for ${patientId}:`, error);
+    return { error: `Failed to fetch the family caregivers: ${error.message}` };
+  }
+}
+
+// The caregiver needs their own patient account; it is looked up by email.
+export async function authorizeFamilyCaregiver(patientId: string, values: FamilyCaregiverInput): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] authorizeFamilyCaregiver: Initiated for patient ${patientId} with values:`, values);
+  const authz = await authorizeAction("authorizeFamilyCaregiver");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!canManageFamilyCaregivers(authz.user, patientId)) {
+    const error = forbidden("authorizeFamilyCaregiver", authz.user, "Only the patient or an admin can authorize family caregivers.");
+    return { success: false, message: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance || !adminAuth) {
+      console.error("[ACTION_ERROR] authorizeFamilyCaregiver: Firestore or Admin Auth is not available.");
+      return { success: false, message: "Server not initialized." };
+    }
+    const validatedValues = FamilyCaregiverInputSchema.parse(values);
+    const patientRef = doc(firestoreInstance, "patients", patientId);
+    const [patientDoc, account] = await Promise.all([
+      getDoc(patientRef),
+      adminAuth.getUserByEmail(validatedValues.email).catch((lookupError: any) => {
+        if (lookupError.code === 'auth/user-not-found') return null;
+        throw lookupError;
+      }),
+    ]);
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    if (isArchivedRecord(patientDoc.data())) {
+      return { success: false, message: "This record is archived. Restore it before changing the caregivers." };
+    }
+    const [caregiver] = account ? await fetchGroupChatMembers([account.uid]) : [];
+    if (!caregiver) {
+      return { success: false, message: "No account uses this email address. Ask the caregiver to sign up first." };
+    }
+    const patientData = patientDoc.data();
+    if (caregiver.uid === (patientData.userId || patientId)) {
+      return { success: false, message: "Patients cannot be their own caregiver." };
+    }
+    if (caregiver.role !== "patient") {
+      return { success: false, message: "Staff members join the care team through care team assignments, not as family caregivers." };
+    }
+
+    const caregiverIds: string[] = Array.isArray(patientData.caregiverIds) ? patientData.caregiverIds : [];
+    const nextCaregiverIds = [...new Set([...caregiverIds, caregiver.uid])];
+    const caregiverData = {
+      name: caregiver.name,
+      email: account!.email ?? validatedValues.email,
+      relationship: validatedValues.relationship,
+      authorizedAt: Timestamp.now(),
+      authorizedBy: authz.user.uid,
+    };
+    const batch = writeBatch(firestoreInstance);
+    batch.update(patientRef, { caregiverIds: nextCaregiverIds, [`caregivers.${caregiver.uid}`]: caregiverData });
+    await addCareTeamChannelToBatch(batch, patientId, { ...patientData, caregiverIds: nextCaregiverIds }, await fetchActiveCareAssignments(patientId));
+    addAuditEventToBatch(batch, authz.user, {
+      action: "authorizeFamilyCaregiver", operation: "update", targetType: "patient", targetId: patientId, targetLabel: caregiver.name,
+      patientId, patientName: patientData.name || "N/A",
+      changes: diffAuditFields({ caregiverIds }, { caregiverIds: nextCaregiverIds }, ["caregiverIds"]),
+    });
+    await batch.commit();
+    console.log(`[ACTION_LOG] authorizeFamilyCaregiver: ${caregiver.uid} authorized as ${validatedValues.relationship} caregiver of patient ${patientId}.`);
+    return { success: true, message: `${caregiver.name} can now follow the care team conversation as ${CAREGIVER_RELATIONSHIP_LABELS[validatedValues.relationship]}.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] authorizeFamilyCaregiver for patient ${patientId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to authorize the caregiver: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+export async function revokeFamilyCaregiver(patientId: string, caregiverId: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] revokeFamilyCaregiver: Initiated for caregiver ${caregiverId} of patient ${patientId}`);
+  const authz = await authorizeAction("revokeFamilyCaregiver");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!canManageFamilyCaregivers(authz.user, patientId)) {
+    const error = forbidden("revokeFamilyCaregiver", authz.user, "Only the patient or an admin can revoke family caregivers.");
+    return { success: false, message: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] revokeFamilyCaregiver: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const patientRef = doc(firestoreInstance, "patients", patientId);
+    const patientDoc = await getDoc(patientRef);
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    const patientData = patientDoc.data();
+    const caregiverIds: string[] = Array.isArray(patientData.caregiverIds) ? patientData.caregiverIds : [];
+    if (!caregiverIds.includes(caregiverId)) {
+      return { success: false, message: "This person is not a caregiver of the patient." };
+    }
+    const nextCaregiverIds = caregiverIds.filter(uid => uid !== caregiverId);
+    const caregiverName: string = patientData.caregivers?.[caregiverId]?.name || "The caregiver";
+    const batch = writeBatch(firestoreInstance);
+    batch.update(patientRef, { caregiverIds: nextCaregiverIds, [`caregivers.${caregiverId}`]: deleteField() });
+    await addCareTeamChannelToBatch(batch, patientId, { ...patientData, caregiverIds: nextCaregiverIds }, await fetchActiveCareAssignments(patientId));
+    addAuditEventToBatch(batch, authz.user, {
+      action: "revokeFamilyCaregiver", operation: "update", targetType: "patient", targetId: patientId, targetLabel: caregiverName,
+      patientId, patientName: patientData.name || "N/A",
+      changes: diffAuditFields({ caregiverIds }, { caregiverIds: nextCaregiverIds }, ["caregiverIds"]),
+    });
+    await batch.commit();
+    console.log(`[ACTION_LOG] revokeFamilyCaregiver: ${caregiverId} is no longer a caregiver of patient ${patientId}.`);
+    return { success: true, message: `${caregiverName} no longer has access to the care team conversation.` };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] revokeFamilyCaregiver for patient ${patientId}:`, error.code, error.message, error);
+    return { success: false, message: `Failed to revoke the caregiver: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// --- Chat message search, edits and retention (lib/chat-messages.ts) ---
+
+const ChatSearchQuerySchema = z.string().trim()
+  .min(CHAT_SEARCH_MIN_QUERY_LENGTH, `Type at least ${CHAT_SEARCH_MIN_QUERY_LENGTH} characters to search.`)
+  .max(100, "Search terms must be 100 characters or fewer.");
+
+// Searches one conversation, or every conversation of the caller when no chatId is given.
+// Deleted messages are never returned.
+export async function searchChatMessages(queryText: string, chatId?: string): Promise<{ data?: ChatSearchResult[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] searchChatMessages: Initiated${chatId ? ` in chat ${chatId}` : ""}.`);
+  const authz = await authorizeAction("searchChatMessages");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] searchChatMessages: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in searchChatMessages.");
+    }
+    const queryTerms = [...new Set(tokenizeSearchText(ChatSearchQuerySchema.parse(queryText)))];
+    let chats: Array<{ id: string; data: Record<string, any> }>;
+    if (chatId) {
+      const { members, chat } = await fetchChatMembers(chatId);
+      if (!members.includes(authz.user.uid)) {
+        const error = forbidden("searchChatMessages", authz.user, "You can only search your own conversations.");
+        return { error: error.message, forbidden: error };
+      }
+      chats = [{ id: chatId, data: chat ?? {} }];
+    } else {
+      const chatsSnapshot = await getDocs(query(collection(firestoreInstance, "chats"), where("participants", "array-contains", authz.user.uid)));
+      chats = chatsSnapshot.docs.map(chatDoc => ({ id: chatDoc.id, data: chatDoc.data() }));
+    }
+
+    const perChat = await Promise.all(chats.map(async chat => {
+      const messagesSnapshot = await getDocs(query(
+        collection(firestoreInstance!, "chats", chat.id, "messages"), orderBy("timestamp", "desc"), limit(CHAT_SEARCH_SCAN_LIMIT)
+      ));
+      const names: Record<string, string> = chat.data.participantNames ?? {};
+      const direct = directChatParticipants(chat.id);
+      const otherUid = direct?.find(uid => uid !== authz.user.uid);
+      const chatName = direct ? (otherUid && names[otherUid]) || "Direct conversation" : chat.data.name || "Group";
+      return messagesSnapshot.docs.flatMap((messageDoc): ChatSearchResult[] => {
+        const message = messageDoc.data();
+        if (message.deletedAt || !message.text) return [];
+        const score = chatMessageMatchScore(queryTerms, message.text);
+        if (score === 0) return [];
+        return [{
+          chatId: chat.id,
+          chatName,
+          isGroup: !direct,
+          messageId: messageDoc.id,
+          senderId: message.senderId,
+          senderName: names[message.senderId] || "Former member",
+          snippet: chatMessageSnippet(queryTerms, message.text),
+          sentAt: message.timestamp instanceof Timestamp ? message.timestamp.toDate().toISOString() : null,
+          score,
+        }];
+      });
+    }));
+    const results = perChat.flat()
+      .sort((a, b) => b.score - a.score || (b.sentAt ?? "").localeCompare(a.sentAt ?? ""))
+      .slice(0, CHAT_SEARCH_RESULT_LIMIT);
+    return { data: results };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] searchChatMessages:", error);
+    if (error instanceof z.ZodError) {
+      return { error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { error: `Failed to search messages: ${error.message}` };
+  }
+}
+
+type OwnChatMessage = {
+  chat: Record<string, any> | null;
+  members: string[];
+  messageRef: DocumentReference;
+  message: Record<string, any>;
+  sentAt: Date | null;
+};
+
+// A message the user sent in one of their conversations, or why they cannot change it.
+async function fetchOwnChatMessage(user: SessionUser, chatId: string, messageId: string): Promise<OwnChatMessage | "notFound" | "notOwn"> {
+  const { members, chat } = await fetchChatMembers(chatId);
+  if (!members.includes(user.uid)) return "notOwn";
+  const messageRef = doc(firestoreInstance!, "chats", chatId, "messages", messageId);
+  const messageDoc = await getDoc(messageRef);
+  if (!messageDoc.exists()) return "notFound";
+  const message = messageDoc.data();
+  if (message.senderId !== user.uid) return "notOwn";
+  return { chat, members, messageRef, message, sentAt: message.timestamp instanceof Timestamp ? message.timestamp.toDate() : null };
+}
+
+// Keeps the conversation list preview in step when the last message changes.
+function addLastMessagePreviewToBatch(batch: WriteBatch, chatId: string, chat: Record<string, any> | null, messageId: string, preview: string): void {
+  if (chat?.lastMessage?.messageId !== messageId) return;
+  batch.update(doc(firestoreInstance!, "chats", chatId), { "lastMessage.preview": preview });
+}
+
+// Only the sender, within CHAT_MESSAGE_EDIT_WINDOW_MS of sending. Mentions follow the new text.
+export async function editChatMessage(chatId: string, messageId: string, values: { text: string }): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] editChatMessage: Chat ${chatId}, message ${messageId}.`);
+  const authz = await authorizeAction("editChatMessage");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] editChatMessage: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const { text } = EditChatMessageSchema.parse(values);
+    const own = await fetchOwnChatMessage(authz.user, chatId, messageId);
+    if (own === "notFound") return { success: false, message: "Message not found." };
+    if (own === "notOwn") {
+      const error = forbidden("editChatMessage", authz.user, "You can only edit your own messages.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const { chat, members, messageRef, message, sentAt } = own;
+    if (message.deletedAt) {
+      return { success: false, message: "This message was deleted." };
+    }
+    if (!canEditChatMessage(sentAt)) {
+      return { success: false, message: `Messages can only be edited within ${CHAT_MESSAGE_EDIT_WINDOW_MS / 3_600_000} hours of sending.` };
+    }
+    const attachment = message.attachment as ChatAttachment | undefined;
+    if (!text && !attachment) {
+      return { success: false, message: "A message cannot be empty. Delete it instead." };
+    }
+    if (attachment && text.length > CHAT_CAPTION_MAX_LENGTH) {
+      return { success: false, message: `Captions must be ${CHAT_CAPTION_MAX_LENGTH} characters or fewer.` };
+    }
+    if (text === message.text) {
+      return { success: true, message: "No changes to save." };
+    }
+
+    const names: Record<string, string> = chat?.participantNames ?? {};
+    const mentions = directChatParticipants(chatId)
+      ? []
+      : findMentions(text, members.filter(uid => uid !== authz.user.uid).map(uid => ({ uid, name: names[uid] || "" })));
+    const batch = writeBatch(firestoreInstance);
+    // The replaced text stays with the message, server-only, until the message is deleted
+    // or removed by the retention policy.
+    batch.set(doc(collection(messageRef, CHAT_MESSAGE_REVISIONS_SUBCOLLECTION)), {
+      text: message.text ?? "",
+      writtenAt: message.editedAt ?? message.timestamp ?? null,
+      replacedAt: serverTimestamp(),
+    });
+    batch.update(messageRef, { text, editedAt: serverTimestamp(), mentions: mentions.length > 0 ? mentions : deleteField() });
+    addLastMessagePreviewToBatch(batch, chatId, chat, messageId, lastMessagePreview(text, attachment?.kind));
+    addAuditEventToBatch(batch, authz.user, {
+      // Only which message changed: the audit trail is never purged, so it must not keep
+      // a copy of the text (see the chat retention policy).
+      action: "editChatMessage", operation: "update", targetType: "chatMessage", targetId: `${chatId}/${messageId}`, targetLabel: chat?.name || "Direct conversation",
+      patientId: chat?.patientId ?? null, patientName: null,
+      changes: diffAuditFields({ edited: false }, { edited: true }),
+    });
+    await batch.commit();
+    console.log(`[ACTION_LOG] editChatMessage: Message ${messageId} of chat ${chatId} edited.`);
+    return { success: true, message: "Message edited." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] editChatMessage for message ${messageId} of chat ${chatId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to edit the message: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Deletes for everyone: the message stays as a tombstone without text, attachment or edit
+// revisions. A copy
+// already saved to a medical file is kept.
+export async function deleteChatMessage(chatId: string, messageId: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] deleteChatMessage: Chat ${chatId}, message ${messageId}.`);
+  const authz = await authorizeAction("deleteChatMessage");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] deleteChatMessage: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const own = await fetchOwnChatMessage(authz.user, chatId, messageId);
+    if (own === "notFound") return { success: false, message: "Message not found." };
+    if (own === "notOwn") {
+      const error = forbidden("deleteChatMessage", authz.user, "You can only delete your own messages.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const { chat, messageRef, message, sentAt } = own;
+    if (message.deletedAt) {
+      return { success: true, message: "This message was already deleted." };
+    }
+    if (!canDeleteChatMessage(sentAt)) {
+      return { success: false, message: `Messages can only be deleted for everyone within ${CHAT_MESSAGE_DELETE_WINDOW_MS / 60_000} minutes of sending.` };
+    }
+
+    const revisions = await getDocs(collection(messageRef, CHAT_MESSAGE_REVISIONS_SUBCOLLECTION));
+    const batch = writeBatch(firestoreInstance);
+    batch.update(messageRef, { text: "", attachment: deleteField(), mentions: deleteField(), deletedAt: serverTimestamp(), deletedBy: authz.user.uid });
+    revisions.forEach(revision => batch.delete(revision.ref));
+    addLastMessagePreviewToBatch(batch, chatId, chat, messageId, DELETED_MESSAGE_PREVIEW);
+    addAuditEventToBatch(batch, authz.user, {
+      // Like edits, without the content of the message.
+      action: "deleteChatMessage", operation: "delete", targetType: "chatMessage", targetId: `${chatId}/${messageId}`, targetLabel: chat?.name || "Direct conversation",
+      patientId: chat?.patientId ?? null, patientName: null,
+      changes: diffAuditFields({ deleted: false }, { deleted: true }),
+    });
+    await batch.commit();
+    console.log(`[ACTION_LOG] deleteChatMessage: Message ${messageId} of chat ${chatId} deleted for everyone.`);
+    return { success: true, message: "Message deleted for everyone." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] deleteChatMessage for message ${messageId} of chat ${chatId}:`, error.code, error.message, error);
+    return { success: false, message: `Failed to delete the message: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+export async function fetchChatRetentionSettings(): Promise<{ data?: ChatRetentionSettings; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchChatRetentionSettings: Initiated.");
+  const authz = await authorizeAction("fetchChatRetentionSettings");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchChatRetentionSettings: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in fetchChatRetentionSettings.");
+    }
+    const settingsDoc = await getDoc(doc(firestoreInstance, CHAT_RETENTION_SETTINGS_COLLECTION, CHAT_RETENTION_SETTINGS_ID));
+    return { data: chatRetentionSettingsFromData(settingsDoc.data()) };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchChatRetentionSettings:", error);
+    return { error: `Failed to fetch the chat retention policy: ${error.message}` };
+  }
+}
+
+export async function updateChatRetentionPolicy(values: ChatRetentionPolicy): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] updateChatRetentionPolicy: Initiated with values:", values);
+  const authz = await authorizeAction("updateChatRetentionPolicy");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updateChatRetentionPolicy: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const policy = ChatRetentionPolicySchema.parse(values);
+    await setDoc(doc(firestoreInstance, CHAT_RETENTION_SETTINGS_COLLECTION, CHAT_RETENTION_SETTINGS_ID), {
+      ...policy,
+      updatedAt: serverTimestamp(),
+      updatedBy: authz.user.email,
+    }, { merge: true });
+    console.log(`[ACTION_LOG] updateChatRetentionPolicy: Policy set to ${policy.enabled ? `${policy.mode} after ${policy.retentionDays} days` : "disabled"}.`);
+    return {
+      success: true,
+      message: policy.enabled
+        ? `Messages older than ${policy.retentionDays} days will be ${policy.mode === "archive" ? "archived" : "purged"} by the retention worker.`
+        : "Chat retention is turned off. Messages are kept indefinitely.",
+    };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] updateChatRetentionPolicy:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to save the chat retention policy: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// Runs a sweep of the retention worker right away.
+export async function runChatRetentionNow(): Promise<{ success?: boolean; message: string; data?: ChatRetentionSweepResult; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] runChatRetentionNow: Initiated.");
+  const authz = await authorizeAction("runChatRetentionNow");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    const result = await runChatRetentionSweep();
+    if (!result.enabled) {
+      return { success: false, message: "Chat retention is turned off. Enable the policy first.", data: result };
+    }
+    console.log(`[ACTION_LOG] runChatRetentionNow: ${result.archived} archived, ${result.purged} purged in ${result.chats} conversation(s).`);
+    return {
+      success: true,
+      message: `${result.archived + result.purged} message(s) ${result.mode === "archive" ? "archived" : "purged"} in ${result.chats} conversation(s).`,
+      data: result,
+    };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] runChatRetentionNow:", error.code, error.message, error);
+    return { success: false, message: `Failed to apply the chat retention policy: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+// --- Email templates ---
+
+export type EmailTemplateSummary = {
+  id: EmailTemplateId;
+  description: string;
+  variables: string[];
+};
+
+const EmailPreviewSchema = z.object({
+  templateId: z.enum(EMAIL_TEMPLATE_IDS),
+  locale: z.string(),
+});
+
+// Renders a template with its sample values, for the admin preview page.
+export async function previewEmailTemplate(templateId: EmailTemplateId, locale: EmailLocale): Promise<{ data?: RenderedEmail & { templates: EmailTemplateSummary[] }; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] previewEmailTemplate: ${templateId} (${locale}).`);
+  const authz = await authorizeAction("previewEmailTemplate");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    const validatedValues = EmailPreviewSchema.parse({ templateId, locale });
+    const template = EMAIL_TEMPLATES[validatedValues.templateId];
+    const rendered = renderEmail(validatedValues.templateId, resolveEmailLocale(validatedValues.locale), { ...template.sample });
+    const templates = EMAIL_TEMPLATE_IDS.map(id => ({ id, description: EMAIL_TEMPLATES[id].description, variables: [...EMAIL_TEMPLATES[id].variables] }));
+    return { data: { ...rendered, templates } };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] previewEmailTemplate:", error.message);
+    if (error instanceof z.ZodError) {
+      return { error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { error: `Failed to render the email template: ${error.message}` };
+  }
+}
+
+
+
+export type UserForAdminList = {
+    id: string;
+    email: string | null;
+    name: string;
+    role: string | null;
+    status: 'Active' | 'Suspended' | string;
+    joined: string; // ISO string
+    createdAt: string; // ISO string
+};
+
+export async function fetchUsersForAdmin(): Promise<{ data?: UserForAdminList[]; error?: string; forbidden?: ForbiddenError }> {
+    console.log("[ACTION_LOG] fetchUsersForAdmin: Initiated.");
+    const authz = await authorizeAction("fetchUsersForAdmin");
+    if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+    try {
+        if (!firestoreInstance) {
+          console.error("[ACTION_ERROR] fetchUsersForAdmin: Firestore instance is not available.");
+          throw new Error("Firestore `firestoreInstance` instance is not available in fetchUsersForAdmin.");
+        }
+        const usersCollectionRef = collection(firestoreInstance, "users");
+        const q = query(usersCollectionRef, orderBy("createdAt", "desc"));
+        const snapshot = await getDocs(q);
+        const usersList = snapshot.docs.map(docSnap => {
+            const data = docSnap.data();
+            console.log(`[ACTION_LOG] fetchUsersForAdmin: Raw data from Firestore doc ${docSnap.id}:`, data);
+            let name = "N/A";
+            if (data.firstName && data.lastName) {
+              name = `${data.firstName} ${data.lastName}`;
+            } else if (data.firstName) {
+              name = data.firstName;
+            } else if (data.lastName) {
+              name = data.lastName;
+            } else if (data.email) {
+              name = data.email; 
+            } else {
+              name = "Unknown User";
+            }
+
+            const mappedUser = {
+                id: docSnap.id,
+                email: data.email || null,
+                name: name,
+                role: data.role || 'patient', // Default to patient if role not set
+                status: 'Active', 
+                joined: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+                createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+            } as UserForAdminList;
+            console.log(`[ACTION_LOG] fetchUsersForAdmin: Mapped user for chat:`, mappedUser);
+            return mappedUser;
+        });
+        return { data: usersList };
+    } catch (error: any) {
+        console.error("[ACTION_ERROR] fetchUsersForAdmin:", error);
+        if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+            console.warn("[ACTION_WARN] fetchUsersForAdmin: Query requires a composite index on 'users' for 'createdAt desc'.");
+            return { data: [], error: "Query requires an index. Please create it in Firestore for 'users' collection on 'createdAt' descending." };
+        }
+        return { data: [], error: `Failed to fetch users: ${error.message}` };
+    }
+}
+
+export type AdminContact = {
+    id: string;
+    name: string;
+    email: string | null;
+};
+
+// Lets non-admin users find support contacts without exposing the full user list.
+export async function fetchAdminContacts(): Promise<{ data?: AdminContact[]; error?: string; forbidden?: ForbiddenError }> {
+    console.log("[ACTION_LOG] fetchAdminContacts: Initiated.");
+    const authz = await authorizeAction("fetchAdminContacts");
+    if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+    try {
+        if (!firestoreInstance) {
+          console.error("[ACTION_ERROR] fetchAdminContacts: Firestore instance is not available.");
+          throw new Error("Firestore `firestoreInstance` instance is not available in fetchAdminContacts.");
+        }
+        const q = query(collection(firestoreInstance, "users"), where("role", "==", "admin"));
+        const snapshot = await getDocs(q);
+        const admins = snapshot.docs.map(docSnap => {
+            const data = docSnap.data();
+            const name = `${data.firstName || ''} ${data.lastName || ''}`.trim() || data.email || "Administrator";
+            return { id: docSnap.id, name, email: data.email || null } as AdminContact;
+        });
+        return { data: admins };
+    } catch (error: any) {
+        console.error("[ACTION_ERROR] fetchAdminContacts:", error);
+        return { data: [], error: `Failed to fetch admin contacts: ${error.message}` };
+    }
+}
+
+
+// --- Patient search (lib/patient-search.ts) ---
+
+// The index is rebuilt from Firestore when it is older than PATIENT_SEARCH_INDEX_TTL_MS, or
+// after this process wrote to a patient or care log (other server instances catch up within
+// the TTL).
+const PATIENT_SEARCH_INDEX_TTL_MS = 5 * 60 * 1000;
+let patientSearchIndexCache: { index: PatientSearchIndex; builtAt: number } | null = null;
+let patientSearchIndexBuild: Promise<PatientSearchIndex> | null = null;
+let patientSearchIndexGeneration = 0;
+
+function invalidatePatientSearchIndex() {
+  patientSearchIndexCache = null;
+  patientSearchIndexGeneration++;
+}
+
+async function readPatientSearchDocuments(): Promise<PatientSearchDocument[]> {
+  if (!firestoreInstance) throw new Error("Firestore `firestoreInstance` instance is not available in readPatientSearchDocuments.");
+  const [patientsSnapshot, careLogsSnapshot] = await Promise.all([
+    getDocs(collection(firestoreInstance, "patients")),
+    getDocs(collection(firestoreInstance, "careLogs")),
+  ]);
+
+  const careNotesByPatient = new Map<string, string[]>();
+  careLogsSnapshot.docs.forEach(logDoc => {
+    const data = logDoc.data();
+    if (!data.patientId || !data.notes || careLogEnteredInErrorFromData(data)) return;
+    careNotesByPatient.set(data.patientId, [...(careNotesByPatient.get(data.patientId) ?? []), data.notes]);
+  });
+
+  return patientsSnapshot.docs.map(patientDoc => {
+    const data = patientDoc.data();
+    return {
+      patientId: patientDoc.id,
+      name: data.name || "",
+      phone: data.phone || "",
+      email: data.email || "",
+      condition: data.condition || "",
+      pathologies: Array.isArray(data.pathologies) ? data.pathologies : (typeof data.pathologies === 'string' ? data.pathologies.split(',').map((p: string) => p.trim()).filter(Boolean) : []),
+      careNotes: careNotesByPatient.get(patientDoc.id) ?? [],
+      avatarUrl: data.avatarUrl || `https://placehold.co/100x100.png?text=P`,
+      recordStatus: recordStatusFromData(data),
+    };
+  });
+}
+
+async function getPatientSearchIndex(): Promise<PatientSearchIndex> {
+  if (patientSearchIndexCache && Date.now() - patientSearchIndexCache.builtAt < PATIENT_SEARCH_INDEX_TTL_MS) {
+    return patientSearchIndexCache.index;
+  }
+  // Concurrent searches share one rebuild; a write during the rebuild makes its result stale.
+  if (!patientSearchIndexBuild) {
+    const generation = patientSearchIndexGeneration;
+    const startedAt = Date.now();
+    patientSearchIndexBuild = readPatientSearchDocuments()
+      .then(documents => {
+        const index = buildPatientSearchIndex(documents);
+        if (generation === patientSearchIndexGeneration) patientSearchIndexCache = { index, builtAt: startedAt };
+        console.log(`[ACTION_LOG] getPatientSearchIndex: Indexed ${documents.length} patients in ${Date.now() - startedAt} ms.`);
+        return index;
+      })
+      .finally(() => { patientSearchIndexBuild = null; });
+  }
+  return patientSearchIndexBuild;
+}
+
+const PatientSearchQuerySchema = z.string().trim()
+  .min(PATIENT_SEARCH_MIN_QUERY_LENGTH, `Type at least ${PATIENT_SEARCH_MIN_QUERY_LENGTH} characters to search.`)
+  .max(100, "Search terms must be 100 characters or fewer.");
+
+// Clinicians only find the patients they are assigned to.
+export async function searchPatients(queryText: string): Promise<{ data?: PatientSearchResult[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] searchPatients: Initiated.");
+  const authz = await authorizeAction("searchPatients");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    const validatedQuery = PatientSearchQuerySchema.parse(queryText);
+    const [index, scope] = await Promise.all([getPatientSearchIndex(), getPatientScope(authz.user)]);
+    const results = searchPatientIndex(index, validatedQuery, { isAllowed: patientId => isInPatientScope(scope, patientId) });
+    return { data: results };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] searchPatients:", error);
+    if (error instanceof z.ZodError) {
+      return { error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { error: `Failed to search patients: ${error.message}` };
+  }
+}
+
+
+// --- Audit trail ---
+// See lib/audit.ts. Reads record their events after the fact (a failure is logged and does
+// not fail the read); writes add them to the batch of the change with `addAuditEventToBatch`.
+
+const AUDIT_EVENTS_LIMIT = 200;
+
+type AuditEventInput = Omit<AuditEvent, "id" | "at" | "actorUid" | "actorEmail" | "actorRole" | "changes"> & {
+  changes?: AuditFieldChange[];
+};
+
+function addAuditEventToBatch(batch: WriteBatch, actor: SessionUser, event: AuditEventInput): void {
+  batch.set(doc(collection(firestoreInstance!, AUDIT_EVENTS_COLLECTION)), {
+    ...event,
+    changes: event.changes ?? [],
+    actorUid: actor.uid,
+    actorEmail: actor.email,
+    actorRole: actor.role,
+    at: serverTimestamp(),
+  });
+}
+
+async function recordAuditEvents(actor: SessionUser, events: AuditEventInput[]): Promise<void> {
+  if (!firestoreInstance || events.length === 0) return;
+  try {
+    for (let i = 0; i < events.length; i += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(firestoreInstance);
+      events.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach(event => addAuditEventToBatch(batch, actor, event));
+      await batch.commit();
+    }
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] recordAuditEvents: Failed to record ${events.length} ${events[0].action} event(s) by ${actor.uid}:`, error.code, error.message);
+  }
+}
+
+function auditEventFromDoc(docSnap: { id: string; data: () => Record<string, any> }): AuditEvent {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    at: data.at instanceof Timestamp ? data.at.toDate().toISOString() : new Date().toISOString(),
+    actorUid: data.actorUid,
+    actorEmail: data.actorEmail ?? null,
+    actorRole: data.actorRole,
+    action: data.action,
+    operation: data.operation,
+    targetType: data.targetType,
+    targetId: data.targetId,
+    targetLabel: data.targetLabel ?? null,
+    patientId: data.patientId ?? null,
+    patientName: data.patientName ?? null,
+    changes: Array.isArray(data.changes) ? data.changes : [],
+  };
+}
+
+const AuditEventFiltersSchema = z.object({
+  patientId: z.string().trim().optional(),
+  actorUid: z.string().trim().optional(),
+  action: z.enum(AUDITED_ACTIONS).optional(),
+  operation: z.enum(AUDIT_OPERATIONS).optional(),
+  targetId: z.string().trim().optional(),
+  from: z.date().optional(),
+  to: z.date().optional(),
+  search: z.string().max(200).optional(),
+});
+
+// Every filter but `search` is a Firestore filter. The free-text search cannot be, so it
+// reads ahead until AUDIT_EVENTS_LIMIT events match instead of searching only the latest ones.
+async function queryAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+  const constraints: QueryConstraint[] = [];
+  if (filters.patientId) constraints.push(where("patientId", "==", filters.patientId));
+  if (filters.actorUid) constraints.push(where("actorUid", "==", filters.actorUid));
+  if (filters.action) constraints.push(where("action", "==", filters.action));
+  if (filters.operation) constraints.push(where("operation", "==", filters.operation));
+  if (filters.targetId) constraints.push(where("targetId", "==", filters.targetId));
+  constraints.push(...dateRangeConstraints("at", filters));
+  const { docs } = await readListPage(
+    AUDIT_EVENTS_COLLECTION,
+    query(collection(firestoreInstance!, AUDIT_EVENTS_COLLECTION), ...constraints, orderBy("at", "desc")),
+    { pageSize: AUDIT_EVENTS_LIMIT },
+    docSnap => !filters.search || matchesAuditSearch(auditEventFromDoc(docSnap), filters.search)
+  );
+  return docs.map(auditEventFromDoc);
+}
+
+// The latest AUDIT_EVENTS_LIMIT events matching the filters, newest first.
+export async function fetchAuditEvents(filters: AuditEventFilters = {}): Promise<{ data?: AuditEvent[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchAuditEvents: Initiated with filters:", filters);
+  const authz = await authorizeAction("fetchAuditEvents");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchAuditEvents: Firestore instance is not available.");
+      return { data: [], error: "Firestore not initialized." };
+    }
+    const validatedFilters = AuditEventFiltersSchema.parse(filters);
+    return { data: await queryAuditEvents(validatedFilters) };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchAuditEvents:", error);
+    if (error instanceof z.ZodError) {
+      return { data: [], error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchAuditEvents: Query requires a composite index on 'auditEvents' (filtered fields, at desc).");
+      return { data: [], error: "This combination of filters requires a Firestore index on 'auditEvents'. Please create it." };
+    }
+    return { data: [], error: `Failed to fetch audit events: ${error.message}` };
+  }
+}
+
+// Who viewed or changed a patient's data: admins, and patients for their own record.
+export async function fetchPatientAccessLog(patientId: string): Promise<{ data?: AuditEvent[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchPatientAccessLog: Initiated for patient ${patientId}.`);
+  const authz = await authorizeAction("fetchPatientAccessLog");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  if (authz.user.role !== 'admin' && authz.user.uid !== patientId) {
+    const error = forbidden("fetchPatientAccessLog", authz.user, "Only admins and the patient can view a patient's access log.");
+    return { data: [], error: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchPatientAccessLog: Firestore instance is not available.");
+      return { data: [], error: "Firestore not initialized." };
+    }
+    return { data: await queryAuditEvents({ patientId }) };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] fetchPatientAccessLog for ${patientId}:`, error);
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchPatientAccessLog: Query requires a composite index on 'auditEvents' (patientId, at desc).");
+      return { data: [], error: "Query requires an index. Please create it in Firestore for 'auditEvents' (patientId, at desc)." };
+    }
+    return { data: [], error: `Failed to fetch the access log: ${error.message}` };
+  }
+}
+
+
+// --- Start of Seed Database Logic ---
+// IMPORTANT REMINDER:
+// For this to work, ensure your Firestore rules allow writes.
+// During development, you might temporarily use `allow read, write: if true;`.
+// For production, ensure your rules are secure (e.g., `allow write: if request.auth != null;` and you are logged in).
+// Also, ensure Firebase Authentication "Email/Password" sign-in provider is ENABLED in the Firebase console.
+// The Cloud Firestore API MUST be enabled in your Google Cloud project.
+
+// For email notifications from seeding:
+// Ensure EMAIL_USER and EMAIL_PASS (App Password for Gmail) are correctly set in .env.
+
+const firstNames = [
+  "Foulen", "Amina", "Mohamed", "Fatma", "Ali", "Sarah", "Youssef", "Hiba", "Ahmed", "Nour",
+  "Khaled", "Lina", "Omar", "Zahra", "Hassan", "Mariem", "Ibrahim", "Sana", "Tarek", "Leila"
+];
+const lastNames = [
+  "Ben Foulen", "Trabelsi", "Jlassi", "Gharbi", "Mabrouk", "Saidi", "Baccouche", "Hammami",
+  "Chakroun", "Ben Ammar", "Dridi", "Sassi", "Kooli", "Mansouri", "Ayari", "Feki", "Belhadj",
+  "Khemiri", "Zouari", "Gargouri"
+];
+const tunisianRoles = ["sage-femme", "patient", "infirmiere", "medecin", "aide-soignant", "kinesitherapeute", "admin"];
+const addresses = [
+  "Avenue Habib Bourguiba, Tunis", "Rue de la Liberté, Sfax", "Boulevard 7 Novembre, Sousse",
+  "Rue Farhat Hached, Ariana", "Avenue Taieb Mhiri, Nabeul", "Rue de Carthage, Bizerte",
+  "Avenue de la République, Monastir", "Rue Jamel Abdennasser, Kairouan",
+  "Avenue Mohamed V, Gabès", "Rue Ibn Khaldoun, Gafsa", "Avenue Ali Belhouane, Mahdia",
+  "Rue 18 Janvier, Djerba", "Avenue Hédi Chaker, Kasserine",
+  "Rue de l'Indépendance, Sidi Bouzid", "Avenue de l'Environnement, Tozeur"
+];
+const genders = ["homme", "femme"];
+
+const mockTunisianPatients = [
+  {
+    name: "Ahmed Ben Salah", age: 68,
+    phone: generatePhoneNumber(), emailSuffix: `ahmed.bensalah`, address: addresses[Math.floor(Math.random() * addresses.length)],
+    mobilityStatus: "Ambulatoire avec canne", pathologies: ["Diabète", "Hypertension"], allergies: ["Pénicilline"],
+    lastVisitDate: "2024-07-15", condition: "Diabète de type 2", status: "Stable", hint: "elderly man tunisian"
+  },
+  {
+    name: "Fatima Bouaziz", age: 75,
+    phone: generatePhoneNumber(), emailSuffix: `fatima.bouaziz`, address: addresses[Math.floor(Math.random() * addresses.length)],
+    mobilityStatus: "Fauteuil roulant", pathologies: ["Arthrose", "Problèmes cardiaques"], allergies: ["Aspirine"],
+    lastVisitDate: "2024-07-20", condition: "Arthrose sévère", status: "Needs Follow-up", hint: "elderly woman tunisian"
+  },
+   {
+    name: "Youssef Jlassi", age: 55,
+    phone: generatePhoneNumber(), emailSuffix: `youssef.jlassi`, address: addresses[Math.floor(Math.random() * addresses.length)],
+    mobilityStatus: "Mobile", pathologies: ["Asthme"], allergies: [],
+    lastVisitDate: "2024-06-10", condition: "Asthme chronique", status: "Stable", hint: "man tunisian"
+  },
+  {
+    name: "Mariem Saidi", age: 62,
+    phone: generatePhoneNumber(), emailSuffix: `mariem.saidi`, address: addresses[Math.floor(Math.random() * addresses.length)],
+    mobilityStatus: "Limitée, utilise un déambulateur", pathologies: ["Ostéoporose", "Hypertension"], allergies: ["Sulfamides"],
+    lastVisitDate: "2024-07-01", condition: "Ostéoporose", status: "Needs Follow-up", hint: "woman tunisian"
+  },
+  {
+    name: "Ali Trabelsi", age: 71,
+    phone: generatePhoneNumber(), emailSuffix: `ali.trabelsi`, address: addresses[Math.floor(Math.random() * addresses.length)],
+    mobilityStatus: "Mobile avec aide occasionnelle", pathologies: ["Insuffisance rénale légère"], allergies: [],
+    lastVisitDate: "2024-05-25", condition: "Insuffisance rénale", status: "Stable", hint: "senior man tunisian"
+  },
 ];
 
 const mockTunisianNurses = [
@@ -1107,8 +3385,10 @@ const mockTunisianNurses = [
   },
 ];
 
-export async function seedDatabase(): Promise<{ success: boolean; message: string; details?: Record<string, string> }> {
+export async function seedDatabase(): Promise<{ success: boolean; message: string; details?: Record<string, string>; forbidden?: ForbiddenError }> {
   console.log("[ACTION_LOG] seedDatabase: Action invoked.");
+  const authz = await authorizeAction("seedDatabase");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
   console.log(`[ACTION_LOG] seedDatabase: Firebase db object initialized? ${!!firestoreInstance}`);
   console.log(`[ACTION_LOG] seedDatabase: Firebase auth object initialized? ${!!firebaseAuthInstance}`);
   
@@ -1177,6 +3457,8 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
               console.log(`[ACTION_LOG] seedDatabase: Auth user ${userData.email} created with UID ${user.uid}. Attempting to send verification email.`);
               await sendEmailVerification(user);
               console.log(`[ACTION_LOG] seedDatabase: Verification email sent to ${userData.email}.`);
+              // Creating an auth user signs the server's client SDK in as that user; switch back.
+              await ensureServerIdentity();
 
               const userProfile = {
                 email: userData.email,
@@ -1262,9 +3544,9 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
           const { lastVisitDate, emailSuffix, ...restData } = patientData;
           const email = `${emailSuffix}-${generateRandomString(3)}@example.com`; // Unique email for patient, not necessarily an Auth user
           
-          const primaryNurseName = availableNursesForAssignment.length > 0 
-            ? availableNursesForAssignment[Math.floor(Math.random() * availableNursesForAssignment.length)].name 
-            : "Infirmière Non Assignée";
+          const primaryNurseUser = availableNursesForAssignment.length > 0 
+            ? availableNursesForAssignment[Math.floor(Math.random() * availableNursesForAssignment.length)]
+            : null;
 
           // If this patient was also created as an Auth user, use their UID as patient ID
           const existingAuthUserAsPatient = userRefs.find(u => u.email === email && u.role === 'patient');
@@ -1274,7 +3556,10 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
           const newPatient = {
             ...restData,
             email: email,
-            primaryNurse: primaryNurseName,
+            primaryNurseId: primaryNurseUser ? primaryNurseUser.uid : null,
+            primaryNurse: primaryNurseUser ? primaryNurseUser.name : UNASSIGNED_NURSE_NAME,
+            careTeamIds: primaryNurseUser ? [primaryNurseUser.uid] : [],
+            userId: existingAuthUserAsPatient ? existingAuthUserAsPatient.uid : null,
             avatarUrl: `https://placehold.co/100x100.png?text=${patientData.name.split(" ").map(n=>n[0]).join("")}`,
             joinDate: Timestamp.fromDate(new Date(Date.now() - Math.floor(Math.random() * 365 * 24 * 60 * 60 * 1000))),
             lastVisit: Timestamp.fromDate(new Date(lastVisitDate)),
@@ -1337,6 +3622,7 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
             ...restData,
             email: email,
             avatar: `https://placehold.co/100x100.png?text=${nurseData.name.split(" ").map(n=>n[0]).join("")}`,
+            userId: existingAuthUserAsNurse ? existingAuthUserAsNurse.uid : null,
             createdAt: serverTimestamp(),
           };
           const nurseDocRef = doc(firestoreInstance, "nurses", nurseDocId);
@@ -1373,7 +3659,20 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
                  if (nurseRefs.length > 0) { // Ensure nurseRefs is populated
                     const randomNurse = nurseRefs[Math.floor(Math.random() * nurseRefs.length)];
                     const patientDocRefToUpdate = doc(firestoreInstance, "patients", patientRef.id);
-                    batch.update(patientDocRefToUpdate, { primaryNurse: randomNurse.name });
+                    batch.update(patientDocRefToUpdate, { primaryNurseId: randomNurse.id, primaryNurse: randomNurse.name, careTeamIds: [randomNurse.id] });
+                    // The final primary nurse gets the patient's first care assignment (see lib/care-team.ts).
+                    batch.set(doc(collection(firestoreInstance, "careAssignments")), {
+                      patientId: patientRef.id,
+                      patientName: patientRef.name,
+                      clinicianId: randomNurse.id,
+                      clinicianName: randomNurse.name,
+                      clinicianRole: "nurse",
+                      teamRole: "primaryNurse",
+                      startDate: Timestamp.now(),
+                      endDate: null,
+                      assignedBy: authz.user.uid,
+                      createdAt: serverTimestamp(),
+                    });
                     updateCount++;
                 }
             }
@@ -1522,6 +3821,7 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
 
 
     console.log("[ACTION_LOG] seedDatabase: Seeding process completed with allSuccess =", allSuccess);
+    invalidatePatientSearchIndex();
     if (allSuccess && (results.users.includes("Seeded") || results.patients.includes("Seeded") || results.nurses.includes("Seeded") || results.videoConsults.includes("Seeded") || results.appointments.includes("Seeded") )) {
       return { success: true, message: "Database seeding process finished successfully.", details: results };
     } else if (!allSuccess) {
@@ -1561,22 +3861,38 @@ export async function seedDatabase(): Promise<{ success: boolean; message: strin
 }
 
 
-export async function fetchPatients(): Promise<{ data?: PatientListItem[], error?: string }> {
-  console.log("[ACTION_LOG] fetchPatients: Initiated from Firestore.");
+// Paged, filtered and sorted as described in lib/list-query.ts. Archived records
+// (lib/record-status.ts) are left out unless `includeArchived` is set.
+export async function fetchPatients(options: PatientListQuery = {}): Promise<{ data?: PatientListItem[], nextCursor?: string | null, error?: string, forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchPatients: Initiated from Firestore with options:", options);
+  const authz = await authorizeAction("fetchPatients");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchPatients: Firestore instance is not available.");
       throw new Error("Firestore `firestoreInstance` instance is not available in fetchPatients.");
     }
-    const patientsCollectionRef = collection(firestoreInstance, "patients");
-
-    const q = query(patientsCollectionRef, orderBy("createdAt", "desc"));
-    console.log("[ACTION_LOG] fetchPatients: Created collection reference. Attempting getDocs...");
-
-    const patientsSnapshot = await getDocs(q);
-    console.log(`[ACTION_LOG] fetchPatients: Firestore getDocs successful. Found ${patientsSnapshot.docs.length} documents.`);
+    const listQuery = PatientListQuerySchema.parse(options);
+    const scope = await getPatientScope(authz.user);
+    if (!scope.all && scope.patientIds.size === 0) return { data: [], nextCursor: null };
+
+    const constraints: QueryConstraint[] = [];
+    if (listQuery.status) constraints.push(where("status", "==", listQuery.status));
+    if (listQuery.nurseId) constraints.push(where("primaryNurseId", "==", listQuery.nurseId));
+    constraints.push(orderBy(listQuery.sortBy ?? "createdAt", listQuery.sortDirection ?? (listQuery.sortBy === "name" ? "asc" : "desc")));
+    const q = query(collection(firestoreInstance, "patients"), ...constraints);
+    console.log("[ACTION_LOG] fetchPatients: Created query. Reading page...");
+
+    // Clinicians only list the patients they are assigned to.
+    const { docs, nextCursor } = await readListPage("patients", q, listQuery, docSnap => {
+      const data = docSnap.data();
+      return isInPatientScope(scope, docSnap.id)
+        && (listQuery.includeArchived || !isArchivedRecord(data))
+        && matchesListSearch(listQuery.search, [data.name, data.email, data.phone, data.condition]);
+    });
+    console.log(`[ACTION_LOG] fetchPatients: Read ${docs.length} documents. More: ${!!nextCursor}.`);
 
-    const patientsList = patientsSnapshot.docs.map(docSnap => {
+    const patientsList = docs.map(docSnap => {
       const data = docSnap.data();
       const formatTimestampToISO = (timestampField: any): string => {
         if (timestampField instanceof Timestamp) {
@@ -1601,7 +3917,10 @@ export async function fetchPatients(): Promise<{ data?: PatientListItem[], error
         age: data.age || 0,
         avatarUrl: data.avatarUrl || `https://placehold.co/100x100.png?text=P`,
         joinDate: formatTimestampToISO(data.joinDate),
+        primaryNurseId: data.primaryNurseId || null,
+        careTeamIds: Array.isArray(data.careTeamIds) ? data.careTeamIds : [],
         primaryNurse: data.primaryNurse || "N/A",
+        userId: data.userId || null,
         phone: data.phone || "N/A",
         email: data.email || "N/A",
         address: data.address || "N/A",
@@ -1611,38 +3930,57 @@ export async function fetchPatients(): Promise<{ data?: PatientListItem[], error
         lastVisit: formatTimestampToISO(data.lastVisit),
         condition: data.condition || "N/A",
         status: data.status || "N/A",
+        recordStatus: recordStatusFromData(data),
+        archivedAt: data.archivedAt instanceof Timestamp ? data.archivedAt.toDate().toISOString() : undefined,
+        archiveReason: data.archiveReason || undefined,
         hint: data.hint || 'person face',
         createdAt: formatTimestampToISO(data.createdAt),
       } as PatientListItem;
     });
     console.log("[ACTION_LOG] fetchPatients: Firestore data mapping complete. Returning data.");
-    return { data: patientsList };
+    return { data: patientsList, nextCursor };
   } catch (error: any) {
     console.error("[ACTION_ERROR] fetchPatients: Error fetching patients from Firestore:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
     if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
-        console.warn("[ACTION_WARN] fetchPatients: Query requires a composite index on 'patients' for 'createdAt desc'.");
-        return { data: [], error: "Query requires an index. Please create it in Firestore for 'patients' collection on 'createdAt' descending." };
+        console.warn(`[ACTION_WARN] fetchPatients: Query requires a composite index on 'patients'. Link to create: ${error.message.substring(error.message.indexOf("https://"))}`);
+        return { data: [], error: "Query requires an index. Please create the composite index for these 'patients' filters and sort order in Firestore (the server log contains a link)." };
     }
     return { error: `Failed to fetch patients: ${error.message} (Code: ${error.code || 'N/A'})` };
   }
 }
 
-export async function fetchNurses(): Promise<{ data?: NurseListItem[], error?: string }> {
-  console.log("[ACTION_LOG] fetchNurses: Initiated from Firestore.");
+// Paged, filtered and sorted as described in lib/list-query.ts. Inactive nurses
+// (lib/record-status.ts) are left out unless `includeArchived` is set.
+export async function fetchNurses(options: NurseListQuery = {}): Promise<{ data?: NurseListItem[], nextCursor?: string | null, error?: string, forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchNurses: Initiated from Firestore with options:", options);
+  const authz = await authorizeAction("fetchNurses");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchNurses: Firestore instance is not available.");
       throw new Error("Firestore `firestoreInstance` instance is not available in fetchNurses.");
     }
-    const nursesCollectionRef = collection(firestoreInstance, "nurses");
-    const q = query(nursesCollectionRef, orderBy("createdAt", "desc"));
-    console.log("[ACTION_LOG] fetchNurses: Created query. Attempting getDocs...");
-    const nursesSnapshot = await getDocs(q);
-    console.log(`[ACTION_LOG] fetchNurses: Firestore getDocs successful. Found ${nursesSnapshot.docs.length} documents.`);
+    const listQuery = NurseListQuerySchema.parse(options);
+    const sortBy = listQuery.sortBy ?? "createdAt";
+    const q = query(collection(firestoreInstance, "nurses"), orderBy(sortBy, listQuery.sortDirection ?? (sortBy === "name" ? "asc" : "desc")));
+    console.log("[ACTION_LOG] fetchNurses: Created query. Reading page...");
 
-    const nursesList = nursesSnapshot.docs.map(docSnap => {
+    // The status shown in lists is derived from the nurse's working hours, so it is filtered here.
+    const { docs, nextCursor } = await readListPage("nurses", q, listQuery, docSnap => {
+      const data = docSnap.data();
+      return (listQuery.includeArchived || !isArchivedRecord(data))
+        && (!listQuery.status || deriveNurseStatus(data.status, nurseAvailabilityFromData(data)) === listQuery.status)
+        && matchesListSearch(listQuery.search, [data.name, data.email, data.specialty, data.location]);
+    });
+    console.log(`[ACTION_LOG] fetchNurses: Read ${docs.length} documents. More: ${!!nextCursor}.`);
+
+    const nursesList = docs.map(docSnap => {
       const data = docSnap.data();
       const createdAt = data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : (typeof data.createdAt === 'string' ? data.createdAt : new Date(0).toISOString());
+      const availability = nurseAvailabilityFromData(data);
       return {
         id: docSnap.id,
         name: data.name || "N/A",
@@ -1651,18 +3989,24 @@ export async function fetchNurses(): Promise<{ data?: NurseListItem[], error?: s
         phone: data.phone || "N/A",
         email: data.email || "N/A",
         avatar: data.avatar || `https://placehold.co/100x100.png?text=N`,
-        status: data.status || "Available",
+        status: deriveNurseStatus(data.status, availability),
+        availability,
+        userId: data.userId || null,
+        recordStatus: isArchivedRecord(data) ? "Inactive" : "Active",
         hint: data.hint || 'nurse medical',
         createdAt: createdAt,
       } as NurseListItem;
     });
     console.log("[ACTION_LOG] fetchNurses: Firestore data mapping complete. Returning data.");
-    return { data: nursesList };
+    return { data: nursesList, nextCursor };
   } catch (error: any) {
     console.error("[ACTION_ERROR] fetchNurses: Error fetching nurses from Firestore:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
     if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
-        console.warn("[ACTION_WARN] fetchNurses: Query requires a composite index on 'nurses' for 'createdAt desc'.");
-        return { data: [], error: "Query requires an index. Please create it in Firestore for 'nurses' collection on 'createdAt' descending." };
+        console.warn(`[ACTION_WARN] fetchNurses: Query requires an index on 'nurses'. Link to create: ${error.message.substring(error.message.indexOf("https://"))}`);
+        return { data: [], error: "Query requires an index. Please create the index for this 'nurses' sort order in Firestore (the server log contains a link)." };
     }
     return { error: `Failed to fetch nurses: ${error.message} (Code: ${error.code || 'N/A'})` };
   }
@@ -1671,14 +4015,16 @@ export async function fetchNurses(): Promise<{ data?: NurseListItem[], error?: s
 
 export async function fetchCollectionData(
   collectionName: string
-): Promise<{ data?: any[]; error?: string }> {
+): Promise<{ data?: any[]; error?: string; forbidden?: ForbiddenError }> {
   console.log(`[ACTION_LOG] fetchCollectionData: Initiated for collection: ${collectionName}`);
+  const authz = await authorizeAction("fetchCollectionData");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error(`[ACTION_ERROR] fetchCollectionData: Firestore instance is not available for ${collectionName}.`);
       throw new Error(`Firestore \`firestoreInstance\` instance is not available in fetchCollectionData for ${collectionName}.`);
     }
-    const validCollections = ["users", "patients", "nurses", "videoConsults", "appointments", "careLogs", "medicalFiles", "videoCallRooms"];
+    const validCollections = ["users", "patients", "nurses", "videoConsults", "appointments", "appointmentSeries", "careLogs", "vitalSigns", "medicalFiles", "videoCallRooms"];
     if (!validCollections.includes(collectionName)) {
       console.error(`[ACTION_ERROR] fetchCollectionData: Invalid collection name: ${collectionName}`);
       return { error: "Invalid collection name provided." };
@@ -1744,22 +4090,39 @@ export type AppointmentListItem = {
   nurseName: string;
   appointmentDate: string; // ISO string
   appointmentTime: string;
+  durationMinutes: number;
   appointmentType: string;
   status: 'Scheduled' | 'Completed' | 'Cancelled';
+  seriesId?: string; // set on occurrences of a recurring appointment
+  recurrence?: RecurrenceRule; // only loaded by fetchAppointmentById
   createdAt: string; // ISO string
 };
 
-export async function fetchAppointments(): Promise<{ data?: AppointmentListItem[]; error?: string }> {
-  console.log("[ACTION_LOG] fetchAppointments: Initiated.");
+// Paged and filtered as described in lib/list-query.ts, sorted by appointment date.
+export async function fetchAppointments(options: AppointmentListQuery = {}): Promise<{ data?: AppointmentListItem[]; nextCursor?: string | null; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchAppointments: Initiated with options:", options);
+  const authz = await authorizeAction("fetchAppointments");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchAppointments: Firestore instance is not available.");
       throw new Error("Firestore `firestoreInstance` instance is not available in fetchAppointments.");
     }
-    const appointmentsCollectionRef = collection(firestoreInstance, "appointments");
-    const q = query(appointmentsCollectionRef, orderBy("appointmentDate", "desc"));
-    const snapshot = await getDocs(q);
-    const appointmentsList = snapshot.docs.map(docSnap => {
+    const listQuery = AppointmentListQuerySchema.parse(options);
+    const scope = await getPatientScope(authz.user);
+    if (listQuery.patientId && !isInPatientScope(scope, listQuery.patientId)) {
+      const error = forbidden("fetchAppointments", authz.user, "You can only view the appointments of your own or assigned patients.");
+      return { data: [], error: error.message, forbidden: error };
+    }
+    if (!scope.all && scope.patientIds.size === 0) return { data: [], nextCursor: null };
+
+    const constraints: QueryConstraint[] = listQuery.patientId ? [where("patientId", "==", listQuery.patientId)] : patientScopeConstraints(scope);
+    if (listQuery.status) constraints.push(where("status", "==", listQuery.status));
+    if (listQuery.nurseId) constraints.push(where("nurseId", "==", listQuery.nurseId));
+    constraints.push(...dateRangeConstraints("appointmentDate", listQuery), orderBy("appointmentDate", listQuery.sortDirection ?? "desc"));
+    const q = query(collection(firestoreInstance, "appointments"), ...constraints);
+    const { docs, nextCursor } = await readListPage("appointments", q, listQuery, docSnap => isInPatientScope(scope, docSnap.data().patientId));
+    const appointmentsList = docs.map(docSnap => {
         const data = docSnap.data();
         return {
             id: docSnap.id,
@@ -1769,24 +4132,31 @@ export async function fetchAppointments(): Promise<{ data?: AppointmentListItem[
             nurseName: data.nurseName,
             appointmentDate: data.appointmentDate instanceof Timestamp ? data.appointmentDate.toDate().toISOString() : new Date(0).toISOString(),
             appointmentTime: data.appointmentTime,
+            durationMinutes: data.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES,
             appointmentType: data.appointmentType,
             status: data.status as AppointmentListItem['status'],
+            seriesId: data.seriesId || undefined,
             createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date(0).toISOString(),
         } as AppointmentListItem
     });
-    return { data: appointmentsList };
+    return { data: appointmentsList, nextCursor };
   } catch (error: any) {
     console.error("[ACTION_ERROR] fetchAppointments:", error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { data: [], error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
     if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
-        console.warn("[ACTION_WARN] fetchAppointments: Query requires a composite index on 'appointments' for 'appointmentDate desc'.");
-        return { data: [], error: "Query requires an index. Please create it in Firestore for 'appointments' collection on 'appointmentDate' descending." };
+        console.warn(`[ACTION_WARN] fetchAppointments: Query requires a composite index on 'appointments'. Link to create: ${error.message.substring(error.message.indexOf("https://"))}`);
+        return { data: [], error: "Query requires an index. Please create the composite index for these 'appointments' filters on 'appointmentDate' in Firestore (the server log contains a link)." };
     }
     return { data: [], error: `Failed to fetch appointments: ${error.message}` };
   }
 }
 
-export async function fetchAppointmentById(appointmentId: string): Promise<{ data?: AppointmentListItem, error?: string }> {
+export async function fetchAppointmentById(appointmentId: string): Promise<{ data?: AppointmentListItem, error?: string, forbidden?: ForbiddenError }> {
   console.log(`[ACTION_LOG] fetchAppointmentById: Initiated for ID: ${appointmentId}`);
+  const authz = await authorizeAction("fetchAppointmentById");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
   try {
     if (!appointmentId) {
       console.error("[ACTION_ERROR] fetchAppointmentById: Appointment ID is required.");
@@ -1809,10 +4179,20 @@ export async function fetchAppointmentById(appointmentId: string): Promise<{ dat
         nurseName: data.nurseName || "N/A",
         appointmentDate: data.appointmentDate instanceof Timestamp ? data.appointmentDate.toDate().toISOString() : new Date(0).toISOString(),
         appointmentTime: data.appointmentTime || "N/A",
+        durationMinutes: data.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES,
         appointmentType: data.appointmentType || "N/A",
         status: (data.status as AppointmentListItem['status']) || "Scheduled",
+        seriesId: data.seriesId || undefined,
         createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date(0).toISOString(),
       };
+      if (!(await canAccessPatient(authz.user, appointmentData.patientId))) {
+        const error = forbidden("fetchAppointmentById", authz.user, "You can only view your own appointments or those of your assigned patients.");
+        return { error: error.message, forbidden: error };
+      }
+      if (appointmentData.seriesId) {
+        const seriesDoc = await getDoc(doc(firestoreInstance, "appointmentSeries", appointmentData.seriesId));
+        if (seriesDoc.exists()) appointmentData.recurrence = seriesDoc.data().recurrence;
+      }
       console.log("[ACTION_LOG] fetchAppointmentById: Appointment found and mapped:", appointmentData);
       return { data: appointmentData };
     } else {
@@ -1831,12 +4211,100 @@ const AddAppointmentInputSchema = z.object({
   nurseId: z.string().min(1, "Nurse ID is required."),
   appointmentDate: z.date(),
   appointmentTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  durationMinutes: z.number().refine(value => (APPOINTMENT_DURATIONS as readonly number[]).includes(value), "Select a valid appointment duration.").optional(),
   appointmentType: z.string().min(3, "Appointment type is required."),
+  recurrence: RecurrenceRuleSchema.optional(),
 });
 export type AddAppointmentFormValues = z.infer<typeof AddAppointmentInputSchema>;
 
-export async function addAppointment(values: AddAppointmentFormValues): Promise<{ success?: boolean; message: string; appointmentId?: string }> {
+// Returned instead of saving when the nurse is not free at the requested time.
+export type AppointmentSaveResult = {
+  success?: boolean;
+  message: string;
+  conflicts?: ScheduleConflict[];
+  suggestedSlots?: SuggestedSlot[];
+  forbidden?: ForbiddenError;
+};
+
+// Firestore rejects `undefined`, so optional rule fields are only written when set.
+function recurrenceRuleToData(rule: RecurrenceRule): RecurrenceRule {
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    ...(rule.frequency === 'weekly' && rule.byWeekday?.length ? { byWeekday: rule.byWeekday } : {}),
+    ...(rule.until ? { until: rule.until } : {}),
+    ...(rule.count ? { count: rule.count } : {}),
+  };
+}
+
+type AppointmentChange = {
+  kind: "scheduled" | "updated" | "cancelled";
+  appointmentId: string;
+  patientId: string;
+  patientName: string;
+  nurseId: string;
+  nurseName: string;
+  appointmentType: string;
+  start: Date; // first visit for a series
+  visitCount?: number; // set when the change covers several visits of a series
+  summary: string; // e.g. "Wound Care on Monday, June 2 at 9:00 AM" or "6 visits from ..."
+};
+
+const APPOINTMENT_CHANGE_TITLES: Record<AppointmentChange["kind"], string> = {
+  scheduled: "Appointment Scheduled",
+  updated: "Appointment Updated",
+  cancelled: "Appointment Cancelled",
+};
+
+const APPOINTMENT_CHANGE_TEMPLATES: Record<AppointmentChange["kind"], EmailTemplateId> = {
+  scheduled: "appointmentBooked",
+  updated: "appointmentChanged",
+  cancelled: "appointmentCancelled",
+};
+
+// Tells the patient and the nurse about the change, except whoever made it. Failures are
+// logged and never fail the appointment write.
+async function notifyAppointmentChange(change: AppointmentChange, actor: SessionUser): Promise<void> {
+  try {
+    const [patientRecipient, nurseRecipient] = await Promise.all([
+      resolveProfileRecipient("patients", change.patientId, change.patientName),
+      resolveProfileRecipient("nurses", change.nurseId, change.nurseName),
+    ]);
+    const verb = change.kind === "scheduled" ? "scheduled" : change.kind === "cancelled" ? "cancelled" : "changed";
+    await Promise.all([patientRecipient, nurseRecipient].map(recipient => {
+      if (!recipient || recipient.uid === actor.uid) return null;
+      return notificationService.notify(recipient, {
+        event: "appointmentChanged",
+        type: "Update",
+        title: APPOINTMENT_CHANGE_TITLES[change.kind],
+        body: `The appointment of ${change.patientName} with ${change.nurseName} was ${verb}: ${change.summary}.`,
+        link: `/appointments/${change.appointmentId}`,
+        email: {
+          template: APPOINTMENT_CHANGE_TEMPLATES[change.kind],
+          variables: {
+            appointmentType: change.appointmentType,
+            patientName: change.patientName,
+            nurseName: change.nurseName,
+            dateTime: change.start,
+            visitCount: change.visitCount,
+            detailsUrl: appUrl(`/appointments/${change.appointmentId}`),
+          },
+        },
+      });
+    }));
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] notifyAppointmentChange: Failed to notify about appointment ${change.appointmentId}:`, error.code, error.message);
+  }
+}
+
+export async function addAppointment(values: AddAppointmentFormValues): Promise<AppointmentSaveResult & { appointmentId?: string; seriesId?: string }> {
   console.log("[ACTION_LOG] addAppointment: Initiated with values:", values);
+  const authz = await authorizeAction("addAppointment");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, values.patientId))) {
+    const error = forbidden("addAppointment", authz.user, "You can only book appointments for yourself or your assigned patients.");
+    return { success: false, message: error.message, forbidden: error };
+  }
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] addAppointment: Firestore instance is not available.");
@@ -1855,21 +4323,78 @@ export async function addAppointment(values: AddAppointmentFormValues): Promise<
     const nurseDoc = await getDoc(doc(firestoreInstance, "nurses", validatedValues.nurseId));
     if (nurseDoc.exists()) nurseName = nurseDoc.data().name;
 
-    const newAppointmentData = {
+    const durationMinutes = validatedValues.durationMinutes ?? DEFAULT_APPOINTMENT_DURATION_MINUTES;
+    const occurrences = validatedValues.recurrence ? expandRecurrence(validatedValues.recurrence, appointmentDateTime) : [appointmentDateTime];
+    if (occurrences.length === 0) {
+      return { success: false, message: "The repeat settings do not produce any appointment on or after the selected date." };
+    }
+    const schedule = await checkNurseSchedule(validatedValues.nurseId, nurseDoc.exists() ? nurseDoc.data() : {}, occurrences, durationMinutes, authz.user);
+    if (schedule.conflicts.length > 0) {
+      console.warn(`[ACTION_WARN] addAppointment: Nurse ${validatedValues.nurseId} is not available for ${occurrences.length} occurrence(s) from ${appointmentDateTime.toISOString()}.`, schedule.conflicts);
+      return { success: false, message: describeScheduleConflicts(schedule), ...schedule };
+    }
+
+    const sharedAppointmentData = {
       patientId: validatedValues.patientId,
       patientName,
       nurseId: validatedValues.nurseId,
       nurseName,
-      appointmentDate: Timestamp.fromDate(appointmentDateTime),
       appointmentTime: validatedValues.appointmentTime,
+      durationMinutes,
       appointmentType: validatedValues.appointmentType,
-      status: 'Scheduled' as const,
-      createdAt: serverTimestamp(),
     };
 
-    const docRef = await addDoc(collection(firestoreInstance, "appointments"), newAppointmentData);
-    console.log("[ACTION_LOG] addAppointment: Appointment added to Firestore with ID:", docRef.id);
-    return { success: true, message: "Appointment scheduled successfully.", appointmentId: docRef.id };
+    if (!validatedValues.recurrence) {
+      const newAppointmentData = {
+        ...sharedAppointmentData,
+        appointmentDate: Timestamp.fromDate(appointmentDateTime),
+        status: 'Scheduled' as const,
+        createdAt: serverTimestamp(),
+      };
+      const docRef = await addDoc(collection(firestoreInstance, "appointments"), newAppointmentData);
+      console.log("[ACTION_LOG] addAppointment: Appointment added to Firestore with ID:", docRef.id);
+      await notifyAppointmentChange({
+        kind: "scheduled", appointmentId: docRef.id, ...sharedAppointmentData, start: appointmentDateTime,
+        summary: `${validatedValues.appointmentType} on ${format(appointmentDateTime, "eeee, MMMM d 'at' h:mm a")}`,
+      }, authz.user);
+      return { success: true, message: "Appointment scheduled successfully.", appointmentId: docRef.id };
+    }
+
+    const recurrence = recurrenceRuleToData(validatedValues.recurrence);
+    const batch = writeBatch(firestoreInstance);
+    const seriesRef = doc(collection(firestoreInstance, "appointmentSeries"));
+    batch.set(seriesRef, {
+      ...sharedAppointmentData,
+      recurrence,
+      rrule: toRRule(recurrence),
+      startDate: Timestamp.fromDate(occurrences[0]),
+      createdBy: authz.user.uid,
+      createdAt: serverTimestamp(),
+    });
+    const occurrenceRefs = occurrences.map(start => {
+      const occurrenceRef = doc(collection(firestoreInstance!, "appointments"));
+      batch.set(occurrenceRef, {
+        ...sharedAppointmentData,
+        appointmentDate: Timestamp.fromDate(start),
+        seriesId: seriesRef.id,
+        status: 'Scheduled' as const,
+        createdAt: serverTimestamp(),
+      });
+      return occurrenceRef;
+    });
+    await batch.commit();
+    console.log(`[ACTION_LOG] addAppointment: Series ${seriesRef.id} added with ${occurrences.length} occurrences.`);
+    await notifyAppointmentChange({
+      kind: "scheduled", appointmentId: occurrenceRefs[0].id, ...sharedAppointmentData,
+      start: occurrences[0], visitCount: occurrences.length,
+      summary: `${validatedValues.appointmentType}, ${occurrences.length} visits from ${format(occurrences[0], "PPP")} (${describeRecurrence(recurrence).toLowerCase()})`,
+    }, authz.user);
+    return {
+      success: true,
+      message: `Recurring appointment scheduled: ${occurrences.length} visits from ${format(occurrences[0], "PPP")} to ${format(occurrences[occurrences.length - 1], "PPP")}.`,
+      appointmentId: occurrenceRefs[0].id,
+      seriesId: seriesRef.id,
+    };
 
   } catch (error: any) {
     console.error("[ACTION_ERROR] addAppointment:", error.code, error.message, error);
@@ -1880,13 +4405,22 @@ export async function addAppointment(values: AddAppointmentFormValues): Promise<
   }
 }
 
-const UpdateAppointmentInputSchema = AddAppointmentInputSchema.extend({
+const UpdateAppointmentInputSchema = AddAppointmentInputSchema.omit({ recurrence: true }).extend({
   status: z.enum(['Scheduled', 'Completed', 'Cancelled']),
 });
 export type UpdateAppointmentFormValues = z.infer<typeof UpdateAppointmentInputSchema>;
 
-export async function updateAppointment(appointmentId: string, values: UpdateAppointmentFormValues): Promise<{ success?: boolean; message: string }> {
+// For occurrences of a series, `scope` selects which occurrences receive the changes.
+// "following" and "series" leave completed occurrences untouched, move the others by the
+// same number of days as this one, and "following" splits them into a new series.
+export async function updateAppointment(
+  appointmentId: string,
+  values: UpdateAppointmentFormValues,
+  scope: SeriesEditScope = "this"
+): Promise<AppointmentSaveResult> {
   console.log(`[ACTION_LOG] updateAppointment: Initiated for ID: ${appointmentId} with values:`, values);
+  const authz = await authorizeAction("updateAppointment");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] updateAppointment: Firestore instance is not available.");
@@ -1905,34 +4439,433 @@ export async function updateAppointment(appointmentId: string, values: UpdateApp
     const nurseDoc = await getDoc(doc(firestoreInstance, "nurses", validatedValues.nurseId));
     if (nurseDoc.exists()) nurseName = nurseDoc.data().name;
 
-    const [hours, minutes] = validatedValues.appointmentTime.split(':').map(Number);
-    const appointmentDateTime = new Date(validatedValues.appointmentDate);
-    appointmentDateTime.setHours(hours, minutes, 0, 0);
+    const [hours, minutes] = validatedValues.appointmentTime.split(':').map(Number);
+    const appointmentDateTime = new Date(validatedValues.appointmentDate);
+    appointmentDateTime.setHours(hours, minutes, 0, 0);
+
+    const durationMinutes = validatedValues.durationMinutes ?? DEFAULT_APPOINTMENT_DURATION_MINUTES;
+    const appointmentRef = doc(firestoreInstance, "appointments", appointmentId);
+    const existingDoc = await getDoc(appointmentRef);
+    if (!existingDoc.exists()) {
+      return { success: false, message: "Appointment not found." };
+    }
+    const existing = existingDoc.data();
+    // Both the patient the appointment is for and the one it is moved to, when they differ.
+    const patientIds = new Set<string>([existing.patientId, validatedValues.patientId].filter(Boolean));
+    for (const patientId of patientIds) {
+      if (!(await canAccessPatient(authz.user, patientId))) {
+        const error = forbidden("updateAppointment", authz.user, "You can only change appointments of yourself or your assigned patients.");
+        return { success: false, message: error.message, forbidden: error };
+      }
+    }
+    const existingDate: Date = existing.appointmentDate instanceof Timestamp ? existing.appointmentDate.toDate() : appointmentDateTime;
+
+    // Occurrences receiving the changes, with their new start times.
+    const previousById = new Map<string, Record<string, any>>([[appointmentId, existing]]); // for the audit trail
+    const occurrences: SeriesOccurrence[] = [];
+    if (existing.seriesId && scope !== "this") {
+      const seriesSnapshot = await getDocs(query(collection(firestoreInstance, "appointments"), where("seriesId", "==", existing.seriesId)));
+      for (const occurrenceDoc of seriesSnapshot.docs) {
+        const occurrence = occurrenceDoc.data();
+        previousById.set(occurrenceDoc.id, occurrence);
+        if (!(occurrence.appointmentDate instanceof Timestamp)) continue;
+        occurrences.push({ id: occurrenceDoc.id, start: occurrence.appointmentDate.toDate(), status: occurrence.status });
+      }
+    }
+    const { targets, earlierOccurrences, dayDelta } = planSeriesEdit(
+      occurrences, appointmentId, existingDate, appointmentDateTime, existing.seriesId ? scope : "this"
+    );
+    // Each occurrence takes two writes (update and audit event) in the single batch below, so
+    // the series cap keeps it within FIRESTORE_BATCH_LIMIT.
+    if (targets.length > MAX_SERIES_OCCURRENCES) {
+      return { success: false, message: `A series change can cover at most ${MAX_SERIES_OCCURRENCES} occurrences. Edit this occurrence only, or split the series.` };
+    }
+
+    // Completed or cancelled appointments no longer block the nurse's time.
+    if (validatedValues.status === 'Scheduled') {
+      const schedule = await checkNurseSchedule(
+        validatedValues.nurseId, nurseDoc.exists() ? nurseDoc.data() : {}, targets.map(t => t.start), durationMinutes, authz.user,
+        { excludeAppointmentIds: targets.map(t => t.id) }
+      );
+      if (schedule.conflicts.length > 0) {
+        console.warn(`[ACTION_WARN] updateAppointment: Nurse ${validatedValues.nurseId} is not available for ${targets.length} occurrence(s).`, schedule.conflicts);
+        return { success: false, message: describeScheduleConflicts(schedule), ...schedule };
+      }
+    }
+
+    const sharedData = {
+      patientId: validatedValues.patientId,
+      patientName,
+      nurseId: validatedValues.nurseId,
+      nurseName,
+      appointmentTime: validatedValues.appointmentTime,
+      durationMinutes,
+      appointmentType: validatedValues.appointmentType,
+      status: validatedValues.status,
+      // We typically don't update createdAt, but we might add an updatedAt field
+      // updatedAt: serverTimestamp(), 
+    };
+
+    const batch = writeBatch(firestoreInstance);
+    let seriesIdForTargets: string | undefined;
+    if (existing.seriesId && scope !== "this") {
+      const seriesRef = doc(firestoreInstance, "appointmentSeries", existing.seriesId);
+      const seriesDoc = await getDoc(seriesRef);
+      const rule: RecurrenceRule | undefined = seriesDoc.exists() ? seriesDoc.data().recurrence : undefined;
+      const shiftedRule = rule ? recurrenceRuleToData(shiftRecurrenceRule(rule, dayDelta)) : undefined;
+      const { status: _status, ...seriesFields } = sharedData;
+      if (scope === "following" && earlierOccurrences > 0) {
+        // Split: the original series now ends the day before this occurrence.
+        const lastDayOfOriginal = new Date(existingDate.getFullYear(), existingDate.getMonth(), existingDate.getDate() - 1);
+        if (rule) {
+          const truncatedRule = recurrenceRuleToData({ ...rule, count: undefined, until: format(lastDayOfOriginal, "yyyy-MM-dd") });
+          batch.update(seriesRef, { recurrence: truncatedRule, rrule: toRRule(truncatedRule) });
+        }
+        const newSeriesRef = doc(collection(firestoreInstance, "appointmentSeries"));
+        const newRule = shiftedRule && shiftedRule.count ? { ...shiftedRule, count: targets.length } : shiftedRule;
+        batch.set(newSeriesRef, {
+          ...seriesFields,
+          ...(newRule ? { recurrence: newRule, rrule: toRRule(newRule) } : {}),
+          startDate: Timestamp.fromDate(targets[0].start),
+          splitFromSeriesId: existing.seriesId,
+          createdBy: authz.user.uid,
+          createdAt: serverTimestamp(),
+        });
+        seriesIdForTargets = newSeriesRef.id;
+      } else if (seriesDoc.exists()) {
+        batch.update(seriesRef, {
+          ...seriesFields,
+          ...(shiftedRule ? { recurrence: shiftedRule, rrule: toRRule(shiftedRule) } : {}),
+        });
+      }
+    }
+    for (const target of targets) {
+      batch.update(doc(firestoreInstance, "appointments", target.id), {
+        ...sharedData,
+        appointmentDate: Timestamp.fromDate(target.start),
+        ...(seriesIdForTargets ? { seriesId: seriesIdForTargets } : {}),
+        // Calendar apps only apply an update to an existing event when SEQUENCE grows.
+        sequence: increment(1),
+        updatedAt: serverTimestamp(),
+      });
+      addAuditEventToBatch(batch, authz.user, {
+        action: "updateAppointment", operation: "update", targetType: "appointment", targetId: target.id,
+        targetLabel: `${validatedValues.appointmentType} on ${format(target.start, "PP")}`,
+        patientId: validatedValues.patientId, patientName,
+        changes: diffAuditFields(
+          previousById.get(target.id) ?? null,
+          { ...sharedData, appointmentDate: target.start },
+          ["patientId", "nurseId", "appointmentDate", "appointmentTime", "durationMinutes", "appointmentType", "status"]
+        ),
+      });
+    }
+    await batch.commit();
+    console.log(`[ACTION_LOG] updateAppointment: Appointment ${appointmentId} updated successfully (scope: ${scope}, ${targets.length} occurrence(s)).`);
+    // Marking a visit as completed is bookkeeping, not news for the participants.
+    if (validatedValues.status !== 'Completed') {
+      await notifyAppointmentChange({
+        kind: validatedValues.status === 'Cancelled' ? "cancelled" : "updated",
+        appointmentId,
+        ...sharedData,
+        start: targets.length > 1 ? targets[0].start : appointmentDateTime,
+        ...(targets.length > 1 ? { visitCount: targets.length } : {}),
+        summary: targets.length > 1
+          ? `${validatedValues.appointmentType}, ${targets.length} visits from ${format(targets[0].start, "PPP")} at ${validatedValues.appointmentTime}`
+          : `${validatedValues.appointmentType} on ${format(appointmentDateTime, "eeee, MMMM d 'at' h:mm a")}`,
+      }, authz.user);
+    }
+    return {
+      success: true,
+      message: targets.length > 1 ? `${targets.length} appointments of the series updated successfully.` : "Appointment updated successfully.",
+    };
+
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updateAppointment for ${appointmentId}:`, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update appointment: ${error.message}` };
+  }
+}
+
+
+// --- Nurse availability ---
+
+export type NurseDaySchedule = {
+  availability: NurseAvailability;
+  workingHours: TimeRange[];
+  busy: BusyInterval[];
+  freeSlots: string[]; // local "HH:mm" start times
+};
+
+const SUGGESTION_SEARCH_DAYS = 7;
+
+// Appointments and video consults of the nurse overlapping [from, to). Patients only see
+// that the nurse is busy, not with whom.
+async function fetchNurseBusyIntervals(
+  nurseId: string,
+  from: Date,
+  to: Date,
+  user: SessionUser,
+  exclude: { excludeAppointmentIds?: string[]; excludeConsultId?: string } = {}
+): Promise<BusyInterval[]> {
+  if (!firestoreInstance) throw new Error("Firestore `firestoreInstance` instance is not available in fetchNurseBusyIntervals.");
+  const detailed = isStaffRole(user.role);
+  const longestAppointmentMs = Math.max(...APPOINTMENT_DURATIONS) * 60_000;
+  const [appointmentsSnapshot, consultsSnapshot] = await Promise.all([
+    getDocs(query(
+      collection(firestoreInstance, "appointments"),
+      where("nurseId", "==", nurseId),
+      where("appointmentDate", ">=", Timestamp.fromMillis(from.getTime() - longestAppointmentMs)),
+      where("appointmentDate", "<", Timestamp.fromDate(to))
+    )),
+    getDocs(query(
+      collection(firestoreInstance, "videoConsults"),
+      where("nurseId", "==", nurseId),
+      where("consultationTime", ">=", Timestamp.fromMillis(from.getTime() - VIDEO_CONSULT_DURATION_MINUTES * 60_000)),
+      where("consultationTime", "<", Timestamp.fromDate(to))
+    )),
+  ]);
+
+  const busy: BusyInterval[] = [];
+  for (const docSnap of appointmentsSnapshot.docs) {
+    const data = docSnap.data();
+    if (exclude.excludeAppointmentIds?.includes(docSnap.id) || data.status === 'Cancelled' || !(data.appointmentDate instanceof Timestamp)) continue;
+    const start = data.appointmentDate.toDate();
+    busy.push({
+      id: docSnap.id,
+      source: "appointment",
+      start: start.toISOString(),
+      end: new Date(start.getTime() + (data.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES) * 60_000).toISOString(),
+      label: detailed ? `${data.appointmentType || "an appointment"} with ${data.patientName || "a patient"} at ${data.appointmentTime}` : "another appointment",
+    });
+  }
+  for (const docSnap of consultsSnapshot.docs) {
+    const data = docSnap.data();
+    if (docSnap.id === exclude.excludeConsultId || data.status === 'cancelled' || !(data.consultationTime instanceof Timestamp)) continue;
+    const start = data.consultationTime.toDate();
+    busy.push({
+      id: docSnap.id,
+      source: "videoConsult",
+      start: start.toISOString(),
+      end: new Date(start.getTime() + (data.durationMinutes || VIDEO_CONSULT_DURATION_MINUTES) * 60_000).toISOString(),
+      label: detailed ? `a video consult with ${data.patientName || "a patient"} at ${format(start, "HH:mm")}` : "a video consult",
+    });
+  }
+  return busy.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+// Checks every start time (one per occurrence, sorted) against the nurse's calendar.
+// Nearest free slots are only suggested for a single appointment.
+async function checkNurseSchedule(
+  nurseId: string,
+  nurseData: Record<string, any>,
+  starts: Date[],
+  durationMinutes: number,
+  user: SessionUser,
+  exclude: { excludeAppointmentIds?: string[]; excludeConsultId?: string } = {}
+): Promise<{ conflicts: ScheduleConflict[]; suggestedSlots?: SuggestedSlot[] }> {
+  const availability = nurseAvailabilityFromData(nurseData);
+  const first = starts[0];
+  const last = starts[starts.length - 1];
+  const searchFrom = new Date(first.getFullYear(), first.getMonth(), first.getDate() - SUGGESTION_SEARCH_DAYS);
+  const searchTo = new Date(last.getFullYear(), last.getMonth(), last.getDate() + SUGGESTION_SEARCH_DAYS + 1);
+  const busy = await fetchNurseBusyIntervals(nurseId, searchFrom, searchTo, user, exclude);
+
+  if (starts.length > 1) {
+    const conflicts = starts.flatMap(start =>
+      findScheduleConflicts(availability, busy, start, durationMinutes)
+        .map(conflict => ({ ...conflict, message: `${format(start, "EEE d MMM yyyy")}: ${conflict.message}` }))
+    );
+    return { conflicts };
+  }
+  const conflicts = findScheduleConflicts(availability, busy, first, durationMinutes);
+  if (conflicts.length === 0) return { conflicts, suggestedSlots: [] };
+  return {
+    conflicts,
+    suggestedSlots: suggestNearestSlots(availability, busy, first, durationMinutes, { searchDays: SUGGESTION_SEARCH_DAYS }),
+  };
+}
+
+function describeScheduleConflicts({ conflicts, suggestedSlots }: { conflicts: ScheduleConflict[]; suggestedSlots?: SuggestedSlot[] }): string {
+  let suggestions = "";
+  if (suggestedSlots) {
+    suggestions = suggestedSlots.length > 0
+      ? ` Nearest free slots: ${suggestedSlots.map(slot => `${slot.date} ${slot.time}`).join(", ")}.`
+      : " No free slot was found in the surrounding week.";
+  }
+  return `The nurse is not available at this time. ${conflicts.map(c => c.message).join(" ")}${suggestions}`;
+}
+
+export async function fetchNurseSchedule(
+  nurseId: string,
+  day: Date,
+  durationMinutes: number = DEFAULT_APPOINTMENT_DURATION_MINUTES,
+  excludeAppointmentId?: string
+): Promise<{ data?: NurseDaySchedule; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchNurseSchedule: Initiated for nurse ${nurseId} on ${day}`);
+  const authz = await authorizeAction("fetchNurseSchedule");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchNurseSchedule: Firestore instance is not available.");
+      return { error: "Firestore not initialized." };
+    }
+    const nurseDoc = await getDoc(doc(firestoreInstance, "nurses", nurseId));
+    if (!nurseDoc.exists()) {
+      console.warn(`[ACTION_WARN] fetchNurseSchedule: Nurse ${nurseId} not found.`);
+      return { error: "Nurse not found." };
+    }
+    const availability = nurseAvailabilityFromData(nurseDoc.data());
+    const dayStart = new Date(day);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+    const busy = await fetchNurseBusyIntervals(nurseId, dayStart, dayEnd, authz.user, { excludeAppointmentIds: excludeAppointmentId ? [excludeAppointmentId] : [] });
+    return {
+      data: {
+        availability,
+        workingHours: getWorkingHoursOn(availability, dayStart),
+        busy: busy.filter(interval => new Date(interval.end) > dayStart),
+        freeSlots: listFreeSlots(availability, busy, dayStart, durationMinutes, new Date()),
+      },
+    };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] fetchNurseSchedule for ${nurseId}:`, error.code, error.message, error);
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchNurseSchedule: Query requires composite indexes on 'appointments' (nurseId, appointmentDate) and 'videoConsults' (nurseId, consultationTime).");
+      return { error: "Query requires an index. Please create it in Firestore for 'appointments' on 'nurseId' and 'appointmentDate', and for 'videoConsults' on 'nurseId' and 'consultationTime'." };
+    }
+    return { error: `Failed to fetch nurse schedule: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+export async function updateNurseAvailability(
+  nurseId: string,
+  values: NurseAvailability
+): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] updateNurseAvailability: Initiated for nurse ${nurseId}`);
+  const authz = await authorizeAction("updateNurseAvailability");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  // Nurses whose profile is linked to their account (same ID) manage their own calendar.
+  if (authz.user.role !== "admin" && authz.user.uid !== nurseId) {
+    const error = forbidden("updateNurseAvailability", authz.user, "You can only edit your own availability.");
+    return { success: false, message: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updateNurseAvailability: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const validatedValues = NurseAvailabilitySchema.parse(values);
+    const nurseRef = doc(firestoreInstance, "nurses", nurseId);
+    const nurseDoc = await getDoc(nurseRef);
+    if (!nurseDoc.exists()) {
+      return { success: false, message: "Nurse not found." };
+    }
+    await updateDoc(nurseRef, {
+      workingHours: validatedValues.workingHours,
+      timeOff: validatedValues.timeOff.map(period => ({
+        start: Timestamp.fromDate(new Date(period.start)),
+        end: Timestamp.fromDate(new Date(period.end)),
+        ...(period.reason ? { reason: period.reason } : {}),
+      })),
+    });
+    console.log(`[ACTION_LOG] updateNurseAvailability: Availability of nurse ${nurseId} updated.`);
+    return { success: true, message: "Availability updated successfully." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updateNurseAvailability for ${nurseId}:`, error.code, error.message, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update availability: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+
+// --- Calendar feeds ---
+
+export type CalendarFeedInfo = {
+  url: string;
+  createdAt: string; // ISO string
+  lastAccessedAt?: string; // ISO string
+};
+
+// The caller's active feed, if any. Each user has at most one token at a time.
+export async function fetchCalendarFeed(): Promise<{ data?: CalendarFeedInfo | null; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchCalendarFeed: Initiated.");
+  const authz = await authorizeAction("fetchCalendarFeed");
+  if (!authz.ok) return { error: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchCalendarFeed: Firestore instance is not available.");
+      return { error: "Firestore not initialized." };
+    }
+    const snapshot = await getDocs(query(collection(firestoreInstance, CALENDAR_FEEDS_COLLECTION), where("uid", "==", authz.user.uid), limit(1)));
+    if (snapshot.empty) return { data: null };
+    const feedDoc = snapshot.docs[0];
+    const data = feedDoc.data();
+    return {
+      data: {
+        url: calendarFeedUrl(feedDoc.id),
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
+        lastAccessedAt: data.lastAccessedAt instanceof Timestamp ? data.lastAccessedAt.toDate().toISOString() : undefined,
+      },
+    };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchCalendarFeed:", error.code, error.message, error);
+    return { error: `Failed to fetch calendar feed: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
+
+async function deleteCalendarFeedsOf(uid: string): Promise<number> {
+  if (!firestoreInstance) throw new Error("Firestore `firestoreInstance` instance is not available in deleteCalendarFeedsOf.");
+  const snapshot = await getDocs(query(collection(firestoreInstance, CALENDAR_FEEDS_COLLECTION), where("uid", "==", uid)));
+  if (snapshot.empty) return 0;
+  const batch = writeBatch(firestoreInstance);
+  snapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+  await batch.commit();
+  return snapshot.size;
+}
 
-    const appointmentRef = doc(firestoreInstance, "appointments", appointmentId);
-    const dataToUpdate = {
-      patientId: validatedValues.patientId,
-      patientName,
-      nurseId: validatedValues.nurseId,
-      nurseName,
-      appointmentDate: Timestamp.fromDate(appointmentDateTime),
-      appointmentTime: validatedValues.appointmentTime,
-      appointmentType: validatedValues.appointmentType,
-      status: validatedValues.status,
-      // We typically don't update createdAt, but we might add an updatedAt field
-      // updatedAt: serverTimestamp(), 
+// Creates a new feed URL for the caller. Any previous URL stops working.
+export async function createCalendarFeed(): Promise<{ success?: boolean; message: string; data?: CalendarFeedInfo; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] createCalendarFeed: Initiated.");
+  const authz = await authorizeAction("createCalendarFeed");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] createCalendarFeed: Firestore instance is not available.");
+      return { success: false, message: "Firestore not initialized." };
+    }
+    const revoked = await deleteCalendarFeedsOf(authz.user.uid);
+    const token = generateCalendarFeedToken();
+    await setDoc(doc(firestoreInstance, CALENDAR_FEEDS_COLLECTION, token), {
+      uid: authz.user.uid,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`[ACTION_LOG] createCalendarFeed: Feed created for user ${authz.user.uid} (${revoked} previous feed(s) revoked).`);
+    return {
+      success: true,
+      message: revoked > 0 ? "A new calendar link was created. The previous link no longer works." : "Calendar link created.",
+      data: { url: calendarFeedUrl(token), createdAt: new Date().toISOString() },
     };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] createCalendarFeed:", error.code, error.message, error);
+    return { success: false, message: `Failed to create calendar link: ${error.message} (Code: ${error.code || 'N/A'})` };
+  }
+}
 
-    await updateDoc(appointmentRef, dataToUpdate);
-    console.log(`[ACTION_LOG] updateAppointment: Appointment ${appointmentId} updated successfully.`);
-    return { success: true, message: "Appointment updated successfully." };
-
+export async function revokeCalendarFeed(): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] revokeCalendarFeed: Initiated.");
+  const authz = await authorizeAction("revokeCalendarFeed");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    const revoked = await deleteCalendarFeedsOf(authz.user.uid);
+    console.log(`[ACTION_LOG] revokeCalendarFeed: ${revoked} feed(s) revoked for user ${authz.user.uid}.`);
+    return { success: true, message: revoked > 0 ? "Calendar link revoked." : "There was no active calendar link." };
   } catch (error: any) {
-    console.error(`[ACTION_ERROR] updateAppointment for ${appointmentId}:`, error);
-    if (error instanceof z.ZodError) {
-      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
-    }
-    return { success: false, message: `Failed to update appointment: ${error.message}` };
+    console.error("[ACTION_ERROR] revokeCalendarFeed:", error.code, error.message, error);
+    return { success: false, message: `Failed to revoke calendar link: ${error.message} (Code: ${error.code || 'N/A'})` };
   }
 }
 
@@ -1946,35 +4879,67 @@ export type CareLogItem = {
   careDate: string; // ISO string
   careType: string;
   notes: string;
+  vitals?: VitalSigns;
   loggedBy: string;
   createdAt: string; // ISO string
+  version: number; // see lib/care-logs.ts
+  amendedBy?: string;
+  amendedAt?: string; // ISO string
+  amendmentReason?: string;
+  enteredInError?: CareLogEnteredInError;
 };
 
 const AddCareLogInputSchema = z.object({
   patientId: z.string().min(1, "Patient is required."),
   careType: z.string().min(1, "Type of care is required."),
   careDateTime: z.date(),
-  notes: z.string().min(3, "Notes are required."), 
+  notes: z.string(),
+  vitals: VitalSignsSchema.optional(),
+}).refine(v => v.notes.trim().length >= 3 || hasVitalSigns(v.vitals), {
+  message: "Notes are required when no vitals are recorded.",
+  path: ["notes"],
+}).refine(v => v.careType !== "Vitals Check" || hasVitalSigns(v.vitals), {
+  message: "A vitals check must record at least one vital sign.",
+  path: ["vitals"],
 });
 export type AddCareLogFormValues = z.infer<typeof AddCareLogInputSchema>;
 
-export async function fetchCareLogs(patientId?: string): Promise<{ data?: CareLogItem[]; error?: string }> {
-  console.log(`[ACTION_LOG] fetchCareLogs: Initiated. Patient ID: ${patientId || 'all'}`);
+// A care log saved offline (lib/outbox.ts): its client-generated ID becomes the care log ID,
+// so sending it twice records it once.
+const OfflineCareLogSchema = z.object({
+  clientId: z.string().regex(/^[A-Za-z0-9-]{16,64}$/, "Invalid offline care log ID."),
+  queuedAt: z.date(),
+}).optional();
+
+// Paged and filtered as described in lib/list-query.ts, sorted by care date.
+export async function fetchCareLogs(options: CareLogListQuery = {}): Promise<{ data?: CareLogItem[]; nextCursor?: string | null; error?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] fetchCareLogs: Initiated with options:", options);
+  const authz = await authorizeAction("fetchCareLogs");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] fetchCareLogs: Firestore instance is not available.");
       throw new Error("Firestore `firestoreInstance` instance is not available in fetchCareLogs.");
     }
-    const careLogsCollectionRef = collection(firestoreInstance, "careLogs");
-    let q;
-    if (patientId) {
-      q = query(careLogsCollectionRef, where("patientId", "==", patientId), orderBy("careDate", "desc"));
-    } else {
-      q = query(careLogsCollectionRef, orderBy("careDate", "desc"));
+    const listQuery = CareLogListQuerySchema.parse(options);
+    let patientId = listQuery.patientId;
+    if (patientId && !(await canAccessPatient(authz.user, patientId))) {
+      const error = forbidden("fetchCareLogs", authz.user, "You can only view the care logs of your own or assigned patients.");
+      return { data: [], error: error.message, forbidden: error };
     }
-
-    const snapshot = await getDocs(q);
-    const logs = snapshot.docs.map(docSnap => {
+    // Patients are always scoped to their own care logs.
+    if (authz.user.role === 'patient') patientId = authz.user.uid;
+    // Clinicians listing all care logs only see those of their assigned patients.
+    const scope = patientId ? null : await getPatientScope(authz.user);
+    if (scope && !scope.all && scope.patientIds.size === 0) return { data: [], nextCursor: null };
+
+    const constraints: QueryConstraint[] = patientId ? [where("patientId", "==", patientId)] : patientScopeConstraints(scope!);
+    if (listQuery.careType) constraints.push(where("careType", "==", listQuery.careType));
+    constraints.push(...dateRangeConstraints("careDate", listQuery), orderBy("careDate", listQuery.sortDirection ?? "desc"));
+    const q = query(collection(firestoreInstance, "careLogs"), ...constraints);
+
+    const { docs, nextCursor } = await readListPage("careLogs", q, listQuery, docSnap => !scope || isInPatientScope(scope, docSnap.data().patientId));
+    const logs = docs.map(docSnap => {
         const data = docSnap.data();
         return {
             id: docSnap.id,
@@ -1983,46 +4948,102 @@ export async function fetchCareLogs(patientId?: string): Promise<{ data?: CareLo
             careDate: data.careDate instanceof Timestamp ? data.careDate.toDate().toISOString() : new Date(0).toISOString(),
             careType: data.careType,
             notes: data.notes || "No notes provided.", // Ensured notes fallback
+            vitals: data.vitals ? vitalSignsFromData(data.vitals) : undefined,
             loggedBy: data.loggedBy,
             createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date(0).toISOString(),
+            version: data.version ?? 1,
+            amendedBy: data.amendedByName || undefined,
+            amendedAt: data.amendedAt instanceof Timestamp ? data.amendedAt.toDate().toISOString() : undefined,
+            amendmentReason: data.amendmentReason || undefined,
+            enteredInError: careLogEnteredInErrorFromData(data),
         } as CareLogItem
     });
-    return { data: logs };
+    return { data: logs, nextCursor };
   } catch (error: any) {
     console.error("[ACTION_ERROR] fetchCareLogs:", error);
+    if (error instanceof z.ZodError) {
+      return { data: [], error: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
     if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
-        console.warn("[ACTION_WARN] fetchCareLogs: Query requires a composite index.");
-        return { data: [], error: "Query requires an index. Please create it in Firestore for 'careLogs'." };
+        console.warn(`[ACTION_WARN] fetchCareLogs: Query requires a composite index on 'careLogs'. Link to create: ${error.message.substring(error.message.indexOf("https://"))}`);
+        return { data: [], error: "Query requires an index. Please create the composite index for these 'careLogs' filters on 'careDate' in Firestore (the server log contains a link)." };
     }
     return { data: [], error: `Failed to fetch care logs: ${error.message}` };
   }
 }
 
-export async function addCareLog(values: AddCareLogFormValues, loggedByName: string): Promise<{ success?: boolean; message: string; logId?: string }> {
+export async function addCareLog(values: AddCareLogFormValues, loggedByName: string, offline?: { clientId: string; queuedAt: Date }): Promise<{ success?: boolean; message: string; logId?: string; forbidden?: ForbiddenError }> {
   console.log("[ACTION_LOG] addCareLog: Initiated with values:", values);
+  const authz = await authorizeAction("addCareLog");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] addCareLog: Firestore instance is not available.");
       throw new Error("Firestore `firestoreInstance` instance is not available in addCareLog.");
     }
     const validatedValues = AddCareLogInputSchema.parse(values);
+    const validatedOffline = OfflineCareLogSchema.parse(offline);
+    if (!(await canAccessPatient(authz.user, validatedValues.patientId))) {
+      const error = forbidden("addCareLog", authz.user, "You can only log care for your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+
+    const docRef = validatedOffline
+      ? doc(firestoreInstance, "careLogs", validatedOffline.clientId)
+      : doc(collection(firestoreInstance, "careLogs"));
+    if (validatedOffline) {
+      const existingDoc = await getDoc(docRef);
+      if (existingDoc.exists()) {
+        if (existingDoc.data().loggedById !== authz.user.uid) {
+          return { success: false, message: "A different care log already uses this ID." };
+        }
+        console.log("[ACTION_LOG] addCareLog: Offline care log already synced:", docRef.id);
+        return { success: true, message: "Care log already synced.", logId: docRef.id };
+      }
+    }
 
     let patientName = "N/A";
     const patientDoc = await getDoc(doc(firestoreInstance, "patients", validatedValues.patientId));
     if (patientDoc.exists()) patientName = patientDoc.data().name;
+    if (patientDoc.exists() && isArchivedRecord(patientDoc.data())) {
+      return { success: false, message: "This record is archived. Restore it before adding care logs." };
+    }
 
+    const vitals = compactVitalSigns(validatedValues.vitals);
     const newCareLogData = {
       patientId: validatedValues.patientId,
       patientName, 
       notes: validatedValues.notes, // Notes are explicitly included
       careType: validatedValues.careType,
       careDate: Timestamp.fromDate(validatedValues.careDateTime),
+      ...(hasVitalSigns(vitals) && { vitals }),
       loggedBy: loggedByName,
+      loggedById: authz.user.uid,
+      version: 1,
       createdAt: serverTimestamp(),
+      ...(validatedOffline && { queuedOfflineAt: Timestamp.fromDate(validatedOffline.queuedAt) }),
     };
 
-    const docRef = await addDoc(collection(firestoreInstance, "careLogs"), newCareLogData);
+    // The care log and its vitals reading are written together so the time series
+    // never references a missing log.
+    const batch = writeBatch(firestoreInstance);
+    batch.set(docRef, newCareLogData);
+    if (hasVitalSigns(vitals)) {
+      batch.set(doc(firestoreInstance, "vitalSigns", docRef.id), {
+        ...vitals,
+        patientId: validatedValues.patientId,
+        careLogId: docRef.id,
+        recordedAt: Timestamp.fromDate(validatedValues.careDateTime),
+        recordedBy: loggedByName,
+        createdAt: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+    invalidatePatientSearchIndex();
     console.log("[ACTION_LOG] addCareLog: Care log added to Firestore with ID:", docRef.id);
+    if (hasVitalSigns(vitals) && patientDoc.exists()) {
+      await raiseVitalSignAlerts(docRef.id, patientDoc.id, patientDoc.data(), vitals);
+    }
     return { success: true, message: "Care log added successfully.", logId: docRef.id };
 
   } catch (error: any) {
@@ -2037,8 +5058,48 @@ export async function addCareLog(values: AddCareLogFormValues, loggedByName: str
 const UpdateCareLogInputSchema = AddCareLogInputSchema;
 export type UpdateCareLogFormValues = AddCareLogFormValues;
 
-export async function updateCareLog(logId: string, values: UpdateCareLogFormValues): Promise<{ success?: boolean; message: string }> {
+// Care log versions (see lib/care-logs.ts). Revision documents are copies of the care log
+// document they superseded, so both are read the same way.
+function careLogVersionFromData(data: Record<string, any>): CareLogVersion {
+  const version: number = data.version ?? 1;
+  const authoredAt = version > 1 ? data.amendedAt : data.createdAt;
+  return {
+    version,
+    careType: data.careType,
+    careDate: data.careDate instanceof Timestamp ? data.careDate.toDate().toISOString() : new Date(0).toISOString(),
+    notes: data.notes || "",
+    vitals: data.vitals ? vitalSignsFromData(data.vitals) : undefined,
+    authorId: (version > 1 ? data.amendedById : data.loggedById) ?? null,
+    authorName: (version > 1 ? data.amendedByName : data.loggedBy) || "Unknown User",
+    authoredAt: authoredAt instanceof Timestamp ? authoredAt.toDate().toISOString() : new Date(0).toISOString(),
+    reason: version > 1 ? data.amendmentReason ?? null : null,
+  };
+}
+
+function careLogEnteredInErrorFromData(data: Record<string, any>): CareLogEnteredInError | undefined {
+  const strike = data.enteredInError;
+  if (!strike) return undefined;
+  return {
+    at: strike.at instanceof Timestamp ? strike.at.toDate().toISOString() : new Date(0).toISOString(),
+    byId: strike.byId,
+    byName: strike.byName || "Unknown User",
+    reason: strike.reason || "",
+  };
+}
+
+// Display name of the caller, for authorship recorded by the server.
+async function fetchUserDisplayName(user: SessionUser): Promise<string> {
+  const userDoc = await getDoc(doc(firestoreInstance!, "users", user.uid));
+  const userData = userDoc.exists() ? userDoc.data() : {};
+  return `${userData.firstName || ''} ${userData.lastName || ''}`.trim() || user.email || "Unknown User";
+}
+
+// Amends a care log: the current version is kept as a revision and `values` become the
+// next version, authored by the caller, with `reason`.
+export async function updateCareLog(logId: string, values: UpdateCareLogFormValues, reason: string): Promise<{ success?: boolean; message: string; forbidden?: ForbiddenError }> {
   console.log(`[ACTION_LOG] updateCareLog: Initiated for log ID: ${logId} with values:`, values);
+  const authz = await authorizeAction("updateCareLog");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
   try {
     if (!firestoreInstance) {
       console.error("[ACTION_ERROR] updateCareLog: Firestore instance is not available.");
@@ -2048,6 +5109,11 @@ export async function updateCareLog(logId: string, values: UpdateCareLogFormValu
       return { success: false, message: "Care log ID is required for update." };
     }
     const validatedValues = UpdateCareLogInputSchema.parse(values);
+    const amendmentReason = CareLogChangeReasonSchema.parse(reason);
+    if (!(await canAccessPatient(authz.user, validatedValues.patientId))) {
+      const error = forbidden("updateCareLog", authz.user, "You can only edit care logs of your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
 
     let patientName = "N/A";
     const patientDoc = await getDoc(doc(firestoreInstance, "patients", validatedValues.patientId));
@@ -2058,18 +5124,72 @@ export async function updateCareLog(logId: string, values: UpdateCareLogFormValu
     }
 
     const careLogRef = doc(firestoreInstance, "careLogs", logId);
+    const existingLog = await getDoc(careLogRef);
+    if (!existingLog.exists()) {
+      return { success: false, message: "Care log not found." };
+    }
+    const existing = existingLog.data();
+    if (existing.enteredInError) {
+      return { success: false, message: "This care log was marked as entered in error and can no longer be amended." };
+    }
+    if (existing.patientId !== validatedValues.patientId) {
+      return { success: false, message: "A care log cannot be moved to another patient. Mark it as entered in error and log it for the right patient." };
+    }
+    const previousVersion: number = existing.version ?? 1;
+    const vitals = compactVitalSigns(validatedValues.vitals);
     const updatedCareLogData = {
       patientId: validatedValues.patientId, 
       patientName, 
       notes: validatedValues.notes, // Notes are explicitly included
       careType: validatedValues.careType,
       careDate: Timestamp.fromDate(validatedValues.careDateTime),
-      // loggedBy is not updated, as it typically refers to the original logger
+      vitals: hasVitalSigns(vitals) ? vitals : deleteField(),
+      // loggedBy keeps the original author; the amendment has its own author.
+      version: previousVersion + 1,
+      amendedById: authz.user.uid,
+      amendedByName: await fetchUserDisplayName(authz.user),
+      amendedAt: serverTimestamp(),
+      amendmentReason,
     };
 
-    await updateDoc(careLogRef, updatedCareLogData);
-    console.log(`[ACTION_LOG] updateCareLog: Care log ${logId} updated successfully.`);
-    return { success: true, message: "Care log updated successfully." };
+    const batch = writeBatch(firestoreInstance);
+    batch.set(doc(careLogRef, CARE_LOG_REVISIONS_SUBCOLLECTION, String(previousVersion)), {
+      ...existing,
+      version: previousVersion,
+      supersededAt: serverTimestamp(),
+      supersededById: authz.user.uid,
+    });
+    batch.update(careLogRef, updatedCareLogData);
+    addAuditEventToBatch(batch, authz.user, {
+      action: "updateCareLog", operation: "update", targetType: "careLog", targetId: logId,
+      targetLabel: `${validatedValues.careType} on ${format(validatedValues.careDateTime, "PP")}`,
+      patientId: validatedValues.patientId, patientName,
+      changes: diffAuditFields(
+        existing,
+        { ...updatedCareLogData, vitals: hasVitalSigns(vitals) ? vitals : null },
+        ["careType", "careDate", "notes", "vitals", "version", "amendmentReason"]
+      ),
+    });
+    const vitalsRef = doc(firestoreInstance, "vitalSigns", logId);
+    if (hasVitalSigns(vitals)) {
+      batch.set(vitalsRef, {
+        ...vitals,
+        patientId: validatedValues.patientId,
+        careLogId: logId,
+        recordedAt: Timestamp.fromDate(validatedValues.careDateTime),
+        recordedBy: existing.loggedBy || "Unknown User",
+        createdAt: existing.createdAt || serverTimestamp(),
+      });
+    } else {
+      batch.delete(vitalsRef);
+    }
+    await batch.commit();
+    invalidatePatientSearchIndex();
+    if (patientDoc.exists()) {
+      await raiseVitalSignAlerts(logId, patientDoc.id, patientDoc.data(), hasVitalSigns(vitals) ? vitals : null);
+    }
+    console.log(`[ACTION_LOG] updateCareLog: Care log ${logId} amended to version ${previousVersion + 1}.`);
+    return { success: true, message: `Care log amended (version ${previousVersion + 1}).` };
 
   } catch (error: any) {
     console.error(`[ACTION_ERROR] updateCareLog for ${logId}:`, error);
@@ -2080,25 +5200,676 @@ export async function updateCareLog(logId: string, values: UpdateCareLogFormValu
   }
 }
 
-export async function deleteCareLog(logId: string): Promise<{ success: boolean; message?: string }> {
-    console.log(`[ACTION_LOG] deleteCareLog: Attempting to delete log ID: ${logId}`);
+// Strikes a care log written by mistake. Nothing is deleted except its vitals reading and the
+// alert it raised, which would otherwise keep feeding the vitals trends and alerts.
+export async function markCareLogEnteredInError(logId: string, reason: string): Promise<{ success: boolean; message: string; forbidden?: ForbiddenError }> {
+    console.log(`[ACTION_LOG] markCareLogEnteredInError: Initiated for log ID: ${logId}`);
+    const authz = await authorizeAction("markCareLogEnteredInError");
+    if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
     if (!firestoreInstance) {
-        console.error("[ACTION_ERROR] deleteCareLog: Firestore instance is not available.");
+        console.error("[ACTION_ERROR] markCareLogEnteredInError: Firestore instance is not available.");
         return { success: false, message: "Database service not available." };
     }
     if (!logId) {
-        console.error("[ACTION_ERROR] deleteCareLog: Log ID is required.");
-        return { success: false, message: "Log ID is required for deletion." };
+        console.error("[ACTION_ERROR] markCareLogEnteredInError: Log ID is required.");
+        return { success: false, message: "Log ID is required." };
+    }
+    try {
+        const strikeReason = CareLogChangeReasonSchema.parse(reason);
+        const careLogRef = doc(firestoreInstance, "careLogs", logId);
+        const existingLog = await getDoc(careLogRef);
+        if (!existingLog.exists()) {
+            return { success: false, message: "Care log not found." };
+        }
+        const log = existingLog.data();
+        if (!(await canAccessPatient(authz.user, log.patientId))) {
+            const error = forbidden("markCareLogEnteredInError", authz.user, "You can only strike care logs of your assigned patients.");
+            return { success: false, message: error.message, forbidden: error };
+        }
+        if (log.enteredInError) {
+            return { success: false, message: "This care log is already marked as entered in error." };
+        }
+        const batch = writeBatch(firestoreInstance);
+        batch.update(careLogRef, {
+            enteredInError: { at: serverTimestamp(), byId: authz.user.uid, byName: await fetchUserDisplayName(authz.user), reason: strikeReason },
+        });
+        batch.delete(doc(firestoreInstance, "vitalSigns", logId));
+        addAuditEventToBatch(batch, authz.user, {
+            action: "markCareLogEnteredInError", operation: "update", targetType: "careLog", targetId: logId,
+            targetLabel: log.careDate instanceof Timestamp ? `${log.careType} on ${format(log.careDate.toDate(), "PP")}` : log.careType ?? null,
+            patientId: log.patientId ?? null, patientName: log.patientName ?? null,
+            changes: [{ field: "enteredInError", before: null, after: strikeReason }],
+        });
+        await batch.commit();
+        invalidatePatientSearchIndex();
+        const patientDoc = await getDoc(doc(firestoreInstance, "patients", log.patientId));
+        if (patientDoc.exists()) {
+            await raiseVitalSignAlerts(logId, patientDoc.id, patientDoc.data(), null);
+        }
+        console.log(`[ACTION_LOG] markCareLogEnteredInError: Care log ${logId} marked as entered in error.`);
+        return { success: true, message: "Care log marked as entered in error." };
+    } catch (error: any) {
+        console.error(`[ACTION_ERROR] markCareLogEnteredInError: Error striking care log ${logId}:`, error);
+        if (error instanceof z.ZodError) {
+            return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+        }
+        return { success: false, message: `Failed to mark the care log as entered in error: ${error.message}` };
     }
+}
+
+// Every version of a care log, newest (current) first.
+export async function fetchCareLogRevisions(logId: string): Promise<{ data?: CareLogVersion[]; error?: string; forbidden?: ForbiddenError }> {
+    console.log(`[ACTION_LOG] fetchCareLogRevisions: Initiated for log ID: ${logId}`);
+    const authz = await authorizeAction("fetchCareLogRevisions");
+    if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
     try {
+        if (!firestoreInstance) {
+            console.error("[ACTION_ERROR] fetchCareLogRevisions: Firestore instance is not available.");
+            return { data: [], error: "Firestore not initialized." };
+        }
         const careLogRef = doc(firestoreInstance, "careLogs", logId);
-        await deleteDoc(careLogRef);
-        console.log(`[ACTION_LOG] deleteCareLog: Successfully deleted care log ${logId}.`);
-        return { success: true, message: "Care log deleted successfully." };
+        const careLogDoc = await getDoc(careLogRef);
+        if (!careLogDoc.exists()) {
+            return { data: [], error: "Care log not found." };
+        }
+        if (!(await canAccessPatient(authz.user, careLogDoc.data().patientId))) {
+            const error = forbidden("fetchCareLogRevisions", authz.user, "You can only view the care logs of your own or assigned patients.");
+            return { data: [], error: error.message, forbidden: error };
+        }
+        const revisionsSnapshot = await getDocs(collection(careLogRef, CARE_LOG_REVISIONS_SUBCOLLECTION));
+        const versions = [careLogDoc, ...revisionsSnapshot.docs].map(versionDoc => careLogVersionFromData(versionDoc.data()!));
+        return { data: versions.sort((a, b) => b.version - a.version) };
     } catch (error: any) {
-        console.error(`[ACTION_ERROR] deleteCareLog: Error deleting care log ${logId}:`, error);
-        return { success: false, message: `Failed to delete care log: ${error.message}` };
+        console.error(`[ACTION_ERROR] fetchCareLogRevisions for ${logId}:`, error);
+        return { data: [], error: `Failed to fetch the care log history: ${error.message}` };
+    }
+}
+
+    
+
+// --- Vital Signs ---
+
+export async function fetchVitalSigns(patientId: string, days?: number): Promise<{ data?: VitalSignsReading[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchVitalSigns: Initiated for patient ${patientId}, window: ${days ? `${days} days` : 'all'}`);
+  const authz = await authorizeAction("fetchVitalSigns");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("fetchVitalSigns", authz.user, "You can only view the vital signs of your own or assigned patients.");
+    return { data: [], error: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchVitalSigns: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in fetchVitalSigns.");
+    }
+    const vitalSignsRef = collection(firestoreInstance, "vitalSigns");
+    const q = days
+      ? query(vitalSignsRef, where("patientId", "==", patientId), where("recordedAt", ">=", Timestamp.fromMillis(Date.now() - days * 24 * 60 * 60 * 1000)), orderBy("recordedAt", "asc"))
+      : query(vitalSignsRef, where("patientId", "==", patientId), orderBy("recordedAt", "asc"));
+
+    const snapshot = await getDocs(q);
+    const readings = snapshot.docs.map(docSnap => {
+      const data = docSnap.data();
+      return {
+        ...vitalSignsFromData(data),
+        id: docSnap.id,
+        patientId: data.patientId,
+        careLogId: data.careLogId || docSnap.id,
+        recordedAt: data.recordedAt instanceof Timestamp ? data.recordedAt.toDate().toISOString() : new Date(0).toISOString(),
+        recordedBy: data.recordedBy || "N/A",
+      } as VitalSignsReading;
+    });
+    return { data: readings };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchVitalSigns:", error);
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchVitalSigns: Query requires a composite index.");
+      return { data: [], error: "Query requires an index. Please create it in Firestore for 'vitalSigns' (patientId, recordedAt)." };
+    }
+    return { data: [], error: `Failed to fetch vital signs: ${error.message}` };
+  }
+}
+
+export async function updateVitalThresholds(patientId: string, thresholds: VitalSignThresholds): Promise<{ success: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] updateVitalThresholds: Initiated for patient ${patientId} with values:`, thresholds);
+  const authz = await authorizeAction("updateVitalThresholds");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("updateVitalThresholds", authz.user, "You can only change thresholds for your assigned patients.");
+    return { success: false, message: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updateVitalThresholds: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in updateVitalThresholds.");
+    }
+    const validated = VitalSignThresholdsSchema.parse(thresholds);
+    // Store only the bounds that were actually set; missing ones fall back to the defaults.
+    const overrides: VitalSignThresholds = {};
+    for (const { key } of VITAL_SIGN_DEFINITIONS) {
+      const { low, high } = validated[key] || {};
+      if (low !== undefined || high !== undefined) {
+        overrides[key] = { ...(low !== undefined && { low }), ...(high !== undefined && { high }) };
+      }
+    }
+    await updateDoc(doc(firestoreInstance, "patients", patientId), { vitalThresholds: overrides });
+    console.log(`[ACTION_LOG] updateVitalThresholds: Thresholds updated for patient ${patientId}.`);
+    return { success: true, message: "Alert thresholds updated successfully." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updateVitalThresholds for ${patientId}:`, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update alert thresholds: ${error.message}` };
+  }
+}
+
+// The primary nurse's account uid, or null when no nurse is assigned or the nurse has no
+// account. Records written before `primaryNurseId` existed are converted by
+// `npm run migrate:identity`.
+async function resolvePrimaryNurseUid(patientData: Record<string, any>): Promise<string | null> {
+  if (!firestoreInstance || !patientData.primaryNurseId) return null;
+  const nurseDoc = await getDoc(doc(firestoreInstance, "nurses", patientData.primaryNurseId));
+  return nurseDoc.exists() ? nurseDoc.data().userId || null : null;
+}
+
+// Creates (or refreshes, when the log is edited) one Alert notification per care log
+// for the patient's primary nurse. `vitals` is null when the log no longer has any, after an
+// amendment removed them or the log was struck: its alert is withdrawn. Failures are logged
+// and never fail the care log write.
+async function raiseVitalSignAlerts(careLogId: string, patientId: string, patientData: Record<string, any>, vitals: VitalSigns | null): Promise<void> {
+  if (!firestoreInstance) return;
+  const outOfRange = vitals ? findOutOfRangeVitalSigns(vitals, resolveVitalSignThresholds(patientData.vitalThresholds)) : [];
+  const notificationId = `vitals-${careLogId}`;
+  try {
+    const nurseUid = await resolvePrimaryNurseUid(patientData);
+    if (!nurseUid) {
+      if (outOfRange.length > 0) {
+        console.warn(`[ACTION_WARN] raiseVitalSignAlerts: No primary nurse account found for patient ${patientId}; ${outOfRange.length} out-of-range vital(s) not notified.`);
+      }
+      return;
+    }
+    const notificationRef = doc(firestoreInstance, "users", nurseUid, "notifications", notificationId);
+    if (outOfRange.length === 0) {
+      // An amendment may have corrected the values that raised the alert.
+      await deleteDoc(notificationRef);
+      return;
+    }
+    await setDoc(notificationRef, {
+      userId: nurseUid,
+      type: "Alert",
+      message: `Out-of-range vitals for ${patientData.name || "a patient"}: ${outOfRange.map(describeOutOfRangeVitalSign).join("; ")}.`,
+      read: false,
+      link: `/patients/${patientId}`,
+      patientId,
+      careLogId,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`[ACTION_LOG] raiseVitalSignAlerts: Alert ${notificationId} sent to ${nurseUid} for patient ${patientId}.`);
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] raiseVitalSignAlerts: Failed to notify primary nurse of patient ${patientId}:`, error.code, error.message);
+  }
+}
+
+// --- Medications (MAR) ---
+
+function toPrescriptionItem(docSnap: { id: string; data: () => Record<string, any> }): PrescriptionItem {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    patientId: data.patientId,
+    patientName: data.patientName || "N/A",
+    drug: data.drug,
+    dose: data.dose,
+    route: data.route,
+    frequency: data.frequency,
+    scheduleTimes: Array.isArray(data.scheduleTimes) ? data.scheduleTimes : [],
+    startDate: data.startDate instanceof Timestamp ? data.startDate.toDate().toISOString() : new Date(0).toISOString(),
+    endDate: data.endDate instanceof Timestamp ? data.endDate.toDate().toISOString() : undefined,
+    prescriber: data.prescriber || "N/A",
+    instructions: data.instructions || undefined,
+    status: data.status === "discontinued" ? "discontinued" : "active",
+    discontinuedReason: data.discontinuedReason || undefined,
+    safetyOverride: data.safetyOverride ? {
+      reason: data.safetyOverride.reason,
+      conflicts: data.safetyOverride.conflicts || [],
+      overriddenBy: data.safetyOverride.overriddenBy,
+      overriddenByName: data.safetyOverride.overriddenByName || "N/A",
+      overriddenAt: data.safetyOverride.overriddenAt instanceof Timestamp ? data.safetyOverride.overriddenAt.toDate().toISOString() : new Date(0).toISOString(),
+    } : undefined,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date(0).toISOString(),
+  };
+}
+
+function toMedicationAdministrationItem(docSnap: { id: string; data: () => Record<string, any> }): MedicationAdministrationItem {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    prescriptionId: data.prescriptionId,
+    patientId: data.patientId,
+    drug: data.drug || "N/A",
+    dose: data.dose || "",
+    scheduledFor: data.scheduledFor instanceof Timestamp ? data.scheduledFor.toDate().toISOString() : new Date(0).toISOString(),
+    status: data.status,
+    notes: data.notes || undefined,
+    recordedBy: data.recordedBy,
+    recordedByName: data.recordedByName || "N/A",
+    recordedAt: data.recordedAt instanceof Timestamp ? data.recordedAt.toDate().toISOString() : new Date(0).toISOString(),
+    version: data.version ?? 1,
+    correctionReason: data.correctionReason || undefined,
+  };
+}
+
+// Summary of the prescriptions active today, in the legacy `currentMedications` shape.
+async function fetchCurrentMedications(patientId: string): Promise<Array<{ name: string; dosage: string }>> {
+  if (!firestoreInstance) return [];
+  try {
+    const snapshot = await getDocs(query(
+      collection(firestoreInstance, "prescriptions"),
+      where("patientId", "==", patientId),
+      where("status", "==", "active")
+    ));
+    const todayStart = new Date();
+    todayStart.setHours(0, 0, 0, 0);
+    return snapshot.docs
+      .map(toPrescriptionItem)
+      .filter(p => !p.endDate || new Date(p.endDate) >= todayStart)
+      .map(p => ({ name: p.drug, dosage: formatPrescriptionSummary(p) }));
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] fetchCurrentMedications: Error fetching prescriptions for patient ${patientId}:`, error.code, error.message);
+    return [];
+  }
+}
+
+export async function fetchPrescriptions(patientId: string): Promise<{ data?: PrescriptionItem[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchPrescriptions: Initiated for patient ${patientId}`);
+  const authz = await authorizeAction("fetchPrescriptions");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("fetchPrescriptions", authz.user, "You can only view the prescriptions of your own or assigned patients.");
+    return { data: [], error: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchPrescriptions: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in fetchPrescriptions.");
+    }
+    const q = query(collection(firestoreInstance, "prescriptions"), where("patientId", "==", patientId), orderBy("startDate", "desc"));
+    const snapshot = await getDocs(q);
+    return { data: snapshot.docs.map(toPrescriptionItem) };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchPrescriptions:", error);
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchPrescriptions: Query requires a composite index.");
+      return { data: [], error: "Query requires an index. Please create it in Firestore for 'prescriptions' (patientId, startDate desc)." };
+    }
+    return { data: [], error: `Failed to fetch prescriptions: ${error.message}` };
+  }
+}
+
+const PrescriptionInputSchema = z.object({
+  patientId: z.string().min(1, "Patient is required."),
+  drug: z.string().trim().min(2, "Drug name is required."),
+  dose: z.string().trim().min(1, "Dose is required."),
+  route: z.enum(MEDICATION_ROUTES, { errorMap: () => ({ message: "Select a valid route." }) }),
+  frequency: z.string().min(1, "Frequency is required."),
+  scheduleTimes: z.array(z.string().regex(TIME_OF_DAY_REGEX, "Invalid time format (HH:MM).")),
+  startDate: z.date({ required_error: "Start date is required." }),
+  endDate: z.date().optional(),
+  prescriber: z.string().trim().min(2, "Prescriber is required."),
+  instructions: z.string().optional(),
+  // Required to save despite allergy or interaction conflicts.
+  overrideReason: z.string().optional(),
+}).refine(v => !v.endDate || v.endDate >= v.startDate, {
+  message: "End date must be on or after the start date.",
+  path: ["endDate"],
+}).refine(v => v.frequency === PRN_FREQUENCY || v.scheduleTimes.length > 0, {
+  message: "At least one administration time is required for scheduled medications.",
+  path: ["scheduleTimes"],
+});
+export type PrescriptionFormValues = z.infer<typeof PrescriptionInputSchema>;
+
+type PrescriptionSaveResult = { success?: boolean; message: string; conflicts?: PrescriptionConflict[]; forbidden?: ForbiddenError };
+
+function parseAllergies(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.filter((a): a is string => typeof a === "string");
+  if (typeof raw === "string") return raw.split(",").map(a => a.trim()).filter(Boolean);
+  return [];
+}
+
+// Checks the drug against the patient's allergies and other active prescriptions.
+// Returns `blocked` when the save must stop, or the override to store with the prescription.
+async function evaluatePrescriptionSafety(
+  user: SessionUser,
+  patientData: Record<string, any>,
+  values: PrescriptionFormValues,
+  existing?: PrescriptionItem
+): Promise<{ blocked?: PrescriptionSaveResult; safetyOverride?: Record<string, unknown> | null }> {
+  const activeSnapshot = await getDocs(query(
+    collection(firestoreInstance!, "prescriptions"),
+    where("patientId", "==", values.patientId),
+    where("status", "==", "active")
+  ));
+  const currentDrugs = activeSnapshot.docs.filter(d => d.id !== existing?.id).map(d => d.data().drug as string);
+  const conflicts = checkPrescriptionConflicts(values.drug, parseAllergies(patientData.allergies), currentDrugs);
+  if (conflicts.length === 0) {
+    return { safetyOverride: null };
+  }
+
+  const overrideReason = values.overrideReason?.trim();
+  if (!overrideReason) {
+    // Editing dose or times of an already overridden prescription does not require a new reason.
+    const previouslyOverridden = existing?.safetyOverride?.conflicts.map(c => c.message) || [];
+    if (conflicts.every(c => previouslyOverridden.includes(c.message))) {
+      return {};
+    }
+    console.warn(`[ACTION_WARN] evaluatePrescriptionSafety: ${conflicts.length} conflict(s) for ${values.drug} (patient ${values.patientId}).`);
+    return { blocked: { success: false, message: "Safety check failed. Review the conflicts below; a clinician may override them with a reason.", conflicts } };
+  }
+  if (!CLINICIAN_ROLES.includes(user.role)) {
+    return { blocked: { success: false, message: "Only clinicians can override allergy or interaction warnings.", conflicts } };
+  }
+  if (overrideReason.length < 10) {
+    return { blocked: { success: false, message: "The override reason must be at least 10 characters.", conflicts } };
+  }
+
+  const userDoc = await getDoc(doc(firestoreInstance!, "users", user.uid));
+  const userData = userDoc.exists() ? userDoc.data() : null;
+  const overriddenByName = userData ? `${userData.firstName || ''} ${userData.lastName || ''}`.trim() : "";
+  console.warn(`[ACTION_WARN] evaluatePrescriptionSafety: ${user.uid} overrode ${conflicts.length} conflict(s) for ${values.drug} (patient ${values.patientId}).`);
+  return {
+    safetyOverride: {
+      reason: overrideReason,
+      conflicts,
+      overriddenBy: user.uid,
+      overriddenByName: overriddenByName || user.email || "Unknown User",
+      overriddenAt: serverTimestamp(),
+    },
+  };
+}
+
+function prescriptionDataFromValues(values: PrescriptionFormValues) {
+  return {
+    patientId: values.patientId,
+    drug: values.drug,
+    dose: values.dose,
+    route: values.route,
+    frequency: values.frequency,
+    // PRN medications have no schedule; duplicate times would collide on administration IDs.
+    scheduleTimes: values.frequency === PRN_FREQUENCY ? [] : Array.from(new Set(values.scheduleTimes)).sort(),
+    startDate: Timestamp.fromDate(values.startDate),
+    endDate: values.endDate ? Timestamp.fromDate(values.endDate) : null,
+    prescriber: values.prescriber,
+    instructions: values.instructions || "",
+  };
+}
+
+export async function addPrescription(values: PrescriptionFormValues): Promise<PrescriptionSaveResult & { prescriptionId?: string }> {
+  console.log("[ACTION_LOG] addPrescription: Initiated with values:", values);
+  const authz = await authorizeAction("addPrescription");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] addPrescription: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in addPrescription.");
+    }
+    const validatedValues = PrescriptionInputSchema.parse(values);
+    if (!(await canAccessPatient(authz.user, validatedValues.patientId))) {
+      const error = forbidden("addPrescription", authz.user, "You can only prescribe for your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const patientDoc = await getDoc(doc(firestoreInstance, "patients", validatedValues.patientId));
+    if (!patientDoc.exists()) {
+      return { success: false, message: "Patient not found." };
+    }
+    const safety = await evaluatePrescriptionSafety(authz.user, patientDoc.data(), validatedValues);
+    if (safety.blocked) return safety.blocked;
+
+    const docRef = await addDoc(collection(firestoreInstance, "prescriptions"), {
+      ...prescriptionDataFromValues(validatedValues),
+      patientName: patientDoc.data().name || "N/A",
+      ...(safety.safetyOverride && { safetyOverride: safety.safetyOverride }),
+      status: "active",
+      createdBy: authz.user.uid,
+      createdAt: serverTimestamp(),
+    });
+    console.log("[ACTION_LOG] addPrescription: Prescription added with ID:", docRef.id);
+    return { success: true, message: "Prescription added successfully.", prescriptionId: docRef.id };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] addPrescription:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to add prescription: ${error.message}` };
+  }
+}
+
+export async function updatePrescription(prescriptionId: string, values: PrescriptionFormValues): Promise<PrescriptionSaveResult> {
+  console.log(`[ACTION_LOG] updatePrescription: Initiated for ${prescriptionId} with values:`, values);
+  const authz = await authorizeAction("updatePrescription");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] updatePrescription: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in updatePrescription.");
+    }
+    const validatedValues = PrescriptionInputSchema.parse(values);
+    const prescriptionRef = doc(firestoreInstance, "prescriptions", prescriptionId);
+    const existing = await getDoc(prescriptionRef);
+    if (!existing.exists()) {
+      return { success: false, message: "Prescription not found." };
+    }
+    if (existing.data().patientId !== validatedValues.patientId) {
+      return { success: false, message: "A prescription cannot be moved to another patient." };
+    }
+    if (!(await canAccessPatient(authz.user, validatedValues.patientId))) {
+      const error = forbidden("updatePrescription", authz.user, "You can only update prescriptions of your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    if (existing.data().status === "discontinued") {
+      return { success: false, message: "Discontinued prescriptions cannot be edited. Create a new prescription instead." };
+    }
+    const patientDoc = await getDoc(doc(firestoreInstance, "patients", validatedValues.patientId));
+    const safety = await evaluatePrescriptionSafety(authz.user, patientDoc.exists() ? patientDoc.data() : {}, validatedValues, toPrescriptionItem(existing));
+    if (safety.blocked) return safety.blocked;
+
+    await updateDoc(prescriptionRef, {
+      ...prescriptionDataFromValues(validatedValues),
+      // undefined: keep the existing override; null: no conflicts remain.
+      ...(safety.safetyOverride !== undefined && { safetyOverride: safety.safetyOverride ?? deleteField() }),
+      updatedBy: authz.user.uid,
+      updatedAt: serverTimestamp(),
+    });
+    console.log(`[ACTION_LOG] updatePrescription: Prescription ${prescriptionId} updated.`);
+    return { success: true, message: "Prescription updated successfully." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] updatePrescription for ${prescriptionId}:`, error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to update prescription: ${error.message}` };
+  }
+}
+
+export async function discontinuePrescription(prescriptionId: string, reason: string): Promise<{ success: boolean; message: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] discontinuePrescription: Initiated for ${prescriptionId}`);
+  const authz = await authorizeAction("discontinuePrescription");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  if (!reason || reason.trim().length < 3) {
+    return { success: false, message: "A reason is required to discontinue a prescription." };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] discontinuePrescription: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in discontinuePrescription.");
+    }
+    const prescriptionRef = doc(firestoreInstance, "prescriptions", prescriptionId);
+    const existing = await getDoc(prescriptionRef);
+    if (!existing.exists()) {
+      return { success: false, message: "Prescription not found." };
+    }
+    if (!(await canAccessPatient(authz.user, existing.data().patientId))) {
+      const error = forbidden("discontinuePrescription", authz.user, "You can only discontinue prescriptions of your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    const now = new Date();
+    const currentEnd = existing.data().endDate;
+    await updateDoc(prescriptionRef, {
+      status: "discontinued",
+      discontinuedReason: reason.trim(),
+      discontinuedBy: authz.user.uid,
+      discontinuedAt: serverTimestamp(),
+      // Keep an earlier planned end date; otherwise the schedule stops today.
+      endDate: currentEnd instanceof Timestamp && currentEnd.toDate() < now ? currentEnd : Timestamp.fromDate(now),
+    });
+    console.log(`[ACTION_LOG] discontinuePrescription: Prescription ${prescriptionId} discontinued.`);
+    return { success: true, message: "Prescription discontinued." };
+  } catch (error: any) {
+    console.error(`[ACTION_ERROR] discontinuePrescription for ${prescriptionId}:`, error);
+    return { success: false, message: `Failed to discontinue prescription: ${error.message}` };
+  }
+}
+
+// Administration records for a patient, newest first. `from`/`to` are ISO strings
+// bounding `scheduledFor` (the MAR page passes the local day it displays).
+export async function fetchMedicationAdministrations(
+  patientId: string,
+  range?: { from?: string; to?: string; limit?: number }
+): Promise<{ data?: MedicationAdministrationItem[]; error?: string; forbidden?: ForbiddenError }> {
+  console.log(`[ACTION_LOG] fetchMedicationAdministrations: Initiated for patient ${patientId}`, range || {});
+  const authz = await authorizeAction("fetchMedicationAdministrations");
+  if (!authz.ok) return { data: [], error: authz.error.message, forbidden: authz.error };
+  if (!(await canAccessPatient(authz.user, patientId))) {
+    const error = forbidden("fetchMedicationAdministrations", authz.user, "You can only view the medication record of your own or assigned patients.");
+    return { data: [], error: error.message, forbidden: error };
+  }
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] fetchMedicationAdministrations: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in fetchMedicationAdministrations.");
+    }
+    const constraints = [where("patientId", "==", patientId)];
+    if (range?.from) constraints.push(where("scheduledFor", ">=", Timestamp.fromDate(new Date(range.from))));
+    if (range?.to) constraints.push(where("scheduledFor", "<", Timestamp.fromDate(new Date(range.to))));
+    const q = range?.limit
+      ? query(collection(firestoreInstance, "medicationAdministrations"), ...constraints, orderBy("scheduledFor", "desc"), limit(range.limit))
+      : query(collection(firestoreInstance, "medicationAdministrations"), ...constraints, orderBy("scheduledFor", "desc"));
+    const snapshot = await getDocs(q);
+    return { data: snapshot.docs.map(toMedicationAdministrationItem) };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] fetchMedicationAdministrations:", error);
+    if (error.code === 'failed-precondition' && error.message.includes('indexes?create_composite=')) {
+      console.warn("[ACTION_WARN] fetchMedicationAdministrations: Query requires a composite index.");
+      return { data: [], error: "Query requires an index. Please create it in Firestore for 'medicationAdministrations' (patientId, scheduledFor desc)." };
     }
+    return { data: [], error: `Failed to fetch medication administrations: ${error.message}` };
+  }
 }
 
-    
\ No newline at end of file
+const RecordAdministrationInputSchema = z.object({
+  prescriptionId: z.string().min(1, "Prescription is required."),
+  // Omitted for PRN doses, which are recorded at the time they are given.
+  scheduledFor: z.string().refine(val => !isNaN(Date.parse(val)), "Invalid scheduled time.").optional(),
+  status: z.enum(ADMINISTRATION_STATUSES),
+  notes: z.string().optional(),
+  // Required to replace a dose that was already recorded.
+  correctionReason: CareLogChangeReasonSchema.optional(),
+}).refine(v => v.status === "administered" || (v.notes && v.notes.trim().length >= 3), {
+  message: "A note is required when a dose is refused or missed.",
+  path: ["notes"],
+});
+export type RecordAdministrationFormValues = z.infer<typeof RecordAdministrationInputSchema>;
+
+export async function recordMedicationAdministration(values: RecordAdministrationFormValues): Promise<{ success: boolean; message: string; administrationId?: string; forbidden?: ForbiddenError }> {
+  console.log("[ACTION_LOG] recordMedicationAdministration: Initiated with values:", values);
+  const authz = await authorizeAction("recordMedicationAdministration");
+  if (!authz.ok) return { success: false, message: authz.error.message, forbidden: authz.error };
+  try {
+    if (!firestoreInstance) {
+      console.error("[ACTION_ERROR] recordMedicationAdministration: Firestore instance is not available.");
+      throw new Error("Firestore `firestoreInstance` instance is not available in recordMedicationAdministration.");
+    }
+    const validatedValues = RecordAdministrationInputSchema.parse(values);
+    const prescriptionDoc = await getDoc(doc(firestoreInstance, "prescriptions", validatedValues.prescriptionId));
+    if (!prescriptionDoc.exists()) {
+      return { success: false, message: "Prescription not found." };
+    }
+    const prescription = toPrescriptionItem(prescriptionDoc);
+    if (!(await canAccessPatient(authz.user, prescription.patientId))) {
+      const error = forbidden("recordMedicationAdministration", authz.user, "You can only record doses for your assigned patients.");
+      return { success: false, message: error.message, forbidden: error };
+    }
+    if (prescription.status === "discontinued") {
+      return { success: false, message: "This prescription is discontinued. Doses can no longer be recorded." };
+    }
+    const isPrn = prescription.scheduleTimes.length === 0;
+    if (!isPrn && !validatedValues.scheduledFor) {
+      return { success: false, message: "The scheduled dose time is required." };
+    }
+    const scheduledFor = validatedValues.scheduledFor ? new Date(validatedValues.scheduledFor) : new Date();
+    if (scheduledFor.getTime() - Date.now() > 60 * 60 * 1000) {
+      return { success: false, message: "Doses can be recorded at most one hour before they are due." };
+    }
+    if (scheduledFor < new Date(prescription.startDate) && !isPrn) {
+      // startDate is stored at local midnight, so any dose before it is outside the prescription.
+      return { success: false, message: "This dose is before the prescription start date." };
+    }
+    // endDate is stored at local midnight of the last day, which is included.
+    if (prescription.endDate && scheduledFor.getTime() >= new Date(prescription.endDate).getTime() + 24 * 60 * 60 * 1000) {
+      return { success: false, message: "This dose is after the prescription end date." };
+    }
+
+    const recordedByName = authz.user.email || "Unknown User";
+    const userDoc = await getDoc(doc(firestoreInstance, "users", authz.user.uid));
+    const userData = userDoc.exists() ? userDoc.data() : null;
+    const displayName = userData ? `${userData.firstName || ''} ${userData.lastName || ''}`.trim() : "";
+
+    const id = administrationId(prescription.id, scheduledFor);
+    const administrationRef = doc(firestoreInstance, "medicationAdministrations", id);
+    const existingRecord = await getDoc(administrationRef);
+    const existing = existingRecord.exists() ? existingRecord.data() : null;
+    if (existing && !validatedValues.correctionReason) {
+      return { success: false, message: "This dose has already been recorded. Give a reason to correct it." };
+    }
+    const previousVersion: number = existing ? existing.version ?? 1 : 0;
+    const administrationData = {
+      prescriptionId: prescription.id,
+      patientId: prescription.patientId,
+      drug: prescription.drug,
+      dose: prescription.dose,
+      scheduledFor: Timestamp.fromDate(scheduledFor),
+      status: validatedValues.status,
+      notes: validatedValues.notes || "",
+      recordedBy: authz.user.uid,
+      recordedByName: displayName || recordedByName,
+      recordedAt: serverTimestamp(),
+      version: previousVersion + 1,
+      ...(existing ? { correctionReason: validatedValues.correctionReason } : {}),
+    };
+
+    // A correction keeps the record it replaces, as care log amendments do.
+    const batch = writeBatch(firestoreInstance);
+    if (existing) {
+      batch.set(doc(administrationRef, ADMINISTRATION_REVISIONS_SUBCOLLECTION, String(previousVersion)), {
+        ...existing,
+        version: previousVersion,
+        supersededAt: serverTimestamp(),
+        supersededById: authz.user.uid,
+      });
+    }
+    batch.set(administrationRef, administrationData);
+    await batch.commit();
+    if (existing) {
+      console.log(`[ACTION_LOG] recordMedicationAdministration: Corrected dose ${id} to ${validatedValues.status} (version ${previousVersion + 1}).`);
+      return { success: true, message: `Dose record corrected to ${validatedValues.status}.`, administrationId: id };
+    }
+    console.log(`[ACTION_LOG] recordMedicationAdministration: Recorded ${validatedValues.status} dose ${id}.`);
+    return { success: true, message: `Dose recorded as ${validatedValues.status}.`, administrationId: id };
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] recordMedicationAdministration:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, message: `Validation failed: ${error.errors.map(e => e.message).join(', ')}` };
+    }
+    return { success: false, message: `Failed to record dose: ${error.message}` };
+  }
+}
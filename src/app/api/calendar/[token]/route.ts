@@ -0,0 +1,33 @@
+// Subscribable iCalendar feed: GET /api/calendar/{token}.ics
+// The token is the only credential (calendar apps cannot send the session cookie), so an
+// unknown or revoked token gets a plain 404.
+
+import { buildCalendarFeed } from '@/lib/calendar-feed';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/, '');
+  if (!/^[A-Za-z0-9_-]{20,}$/.test(token)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  try {
+    const calendar = await buildCalendarFeed(token);
+    if (calendar === null) {
+      console.warn("[ACTION_WARN] calendar feed: Unknown or revoked token requested.");
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="sanhome.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error: any) {
+    console.error("[ACTION_ERROR] calendar feed: Failed to build feed:", error.message, error);
+    return new Response('Calendar feed unavailable', { status: 503 });
+  }
+}
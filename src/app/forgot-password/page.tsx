@@ -0,0 +1,103 @@
+
+"use client";
+
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Logo } from "@/components/logo";
+import { APP_NAME } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { requestPasswordReset } from "@/app/actions";
+import { Loader2, MailCheck } from "lucide-react";
+
+const forgotPasswordFormSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." }),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordFormSchema>;
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordFormSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onSubmit(values: ForgotPasswordFormValues) {
+    setIsLoading(true);
+    const result = await requestPasswordReset(values.email, navigator.language);
+    setIsLoading(false);
+
+    if (result.success) {
+      setSentMessage(result.message);
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Password Reset Failed",
+        description: result.message,
+      });
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/40 p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center items-center gap-2 mb-4">
+            <Logo />
+            <CardTitle className="text-3xl font-bold text-primary">{APP_NAME}</CardTitle>
+          </div>
+          <CardDescription>Enter your email and we will send you a link to reset your password</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentMessage ? (
+            <div className="flex flex-col items-center gap-3 text-center text-sm text-muted-foreground">
+              <MailCheck className="h-10 w-10 text-primary" />
+              <p>{sentMessage}</p>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="m@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={isLoading}>
+                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Send Reset Link
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <div className="mt-4 p-6 pt-0 text-center text-sm">
+          Remembered it?{" "}
+          <Link href="/login" className="underline text-primary">
+            Back to login
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+}
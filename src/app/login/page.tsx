@@ -99,7 +99,7 @@ export default function LoginPage() {
                   <FormItem>
                     <div className="flex items-center">
                       <FormLabel>Password</FormLabel>
-                      <Link href="#" className="ml-auto inline-block text-sm underline">
+                      <Link href="/forgot-password" className="ml-auto inline-block text-sm underline">
                         Forgot your password?
                       </Link>
                     </div>
@@ -14,7 +14,6 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
@@ -27,7 +26,6 @@ import { useAuth } from "@/contexts/auth-context";
 import { useToast } from "@/hooks/use-toast";
 
 const signupFormSchema = z.object({
-  role: z.string().min(1, { message: "Veuillez sélectionner un rôle." }),
   email: z.string().email({ message: "Veuillez entrer une adresse e-mail valide." }),
   phoneNumber: z.string().min(8, { message: "Le numéro de téléphone est requis." }), 
   address: z.string().min(5, { message: "L'adresse est requise." }),
@@ -44,16 +42,6 @@ const signupFormSchema = z.object({
 
 type SignupFormValues = z.infer<typeof signupFormSchema>;
 
-const roles = [
-  { value: "sage-femme", label: "Sage femme" },
-  { value: "patient", label: "Patient" },
-  { value: "infirmiere", label: "Infirmière" },
-  { value: "medecin", label: "Medecin" },
-  { value: "aide-soignant", label: "Aide soignant" },
-  { value: "kinesitherapeute", label: "Kinesitherapeute" },
-  { value: "admin", label: "Administrateur (Dev)"},
-];
-
 export default function SignupPage() {
   const router = useRouter();
   const { signup } = useAuth();
@@ -63,7 +51,6 @@ export default function SignupPage() {
   const form = useForm<SignupFormValues>({
     resolver: zodResolver(signupFormSchema),
     defaultValues: {
-      role: "",
       email: "m@example.com", 
       phoneNumber: "", 
       address: "", 
@@ -85,7 +72,6 @@ export default function SignupPage() {
       password: values.password,
       firstName: values.firstName,
       lastName: values.lastName,
-      role: values.role,
       phoneNumber: values.phoneNumber,
       address: values.address,
       dateOfBirth: values.dateOfBirth,
@@ -121,33 +107,11 @@ export default function SignupPage() {
             <Logo />
             <CardTitle className="text-3xl font-bold text-primary">{APP_NAME}</CardTitle>
           </div>
-          <CardDescription>Créez votre compte SanHome pour commencer.</CardDescription>
+          <CardDescription>Créez votre compte patient SanHome pour commencer. Les comptes des soignants sont créés par un administrateur.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Vous êtes ?</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Sélectionnez votre rôle" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {roles.map(role => (
-                          <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
               <FormField
                 control={form.control}
                 name="email"
@@ -1,8 +1,11 @@
 
 "use client"
 
+import * as React from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
+import { collection, onSnapshot, query, where } from "firebase/firestore"
+import { endOfDay, startOfDay } from "date-fns"
 import {
   LayoutDashboard,
   Users,
@@ -16,6 +19,9 @@ import {
   Activity,
   Shield,
   DatabaseZap,
+  Mail,
+  ScrollText,
+  Archive,
 } from "lucide-react"
 
 import { APP_NAME } from "@/lib/constants"
@@ -32,33 +38,90 @@ import { Logo } from "./logo"
 import { Separator } from "./ui/separator"
 import { Badge } from "./ui/badge"
 import { useAuth } from "@/contexts/auth-context" // Import useAuth
+import { db } from "@/lib/firebase"
+import { fetchAppointments } from "@/app/actions"
+import { formatUnreadCount } from "@/lib/chat-status"
+import { useChatInbox, usePresenceHeartbeat } from "@/hooks/use-chat-status"
+import { useOutboxSync } from "@/hooks/use-outbox"
 
 const menuItems = [
   { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
   { href: "/patients", label: "Patients", icon: Users },
   { href: "/nurses", label: "Nurses", icon: Stethoscope },
-  { href: "/appointments", label: "Appointments", icon: CalendarDays, badge: "3" },
+  { href: "/appointments", label: "Appointments", icon: CalendarDays },
 ]
 
 const secondaryMenuItems = [
   { href: "/care-tracking", label: "Care Tracking", icon: Activity },
   { href: "/medical-files", label: "Medical Files", icon: FileText },
-  { href: "/notifications", label: "Notifications", icon: Bell, badge: "New" },
+  { href: "/notifications", label: "Notifications", icon: Bell },
   { href: "/chat", label: "Chat", icon: MessageSquare },
   { href: "/video-consult", label: "Video Consult", icon: Video },
 ]
 
 const adminMenuItems = [
   { href: "/admin/dashboard", label: "Admin Dashboard", icon: Shield },
+  { href: "/admin/email-templates", label: "Email Templates", icon: Mail },
+  { href: "/admin/audit", label: "Audit Trail", icon: ScrollText },
+  { href: "/admin/chat-retention", label: "Chat Retention", icon: Archive },
   { href: "/dev/data-viewer", label: "Data Viewer", icon: DatabaseZap },
 ]
 
+// Unread notifications of the signed-in user, live.
+function useUnreadNotificationCount(uid: string | undefined) {
+  const [count, setCount] = React.useState(0)
+  React.useEffect(() => {
+    setCount(0)
+    if (!db || !uid) return
+    const unreadQuery = query(collection(db, "users", uid, "notifications"), where("read", "==", false))
+    return onSnapshot(unreadQuery, snapshot => setCount(snapshot.size), error =>
+      console.warn("[AppSidebarContent] Notification listener failed:", error.code, error.message))
+  }, [uid])
+  return count
+}
+
+// Appointments still scheduled today (within the caller's scope), refreshed on navigation.
+function useTodayAppointmentCount(uid: string | undefined, pathname: string) {
+  const [count, setCount] = React.useState(0)
+  React.useEffect(() => {
+    if (!uid) {
+      setCount(0)
+      return
+    }
+    let cancelled = false
+    const now = new Date()
+    fetchAppointments({ from: startOfDay(now), to: endOfDay(now), status: "Scheduled" }).then(result => {
+      if (!cancelled) setCount(result.data?.length ?? 0)
+    })
+    return () => { cancelled = true }
+  }, [uid, pathname])
+  return count
+}
 
 export function AppSidebarContent() {
   const pathname = usePathname()
-  const { userRole } = useAuth(); // Get userRole from AuthContext
+  const { currentUser, userRole } = useAuth(); // Get userRole from AuthContext
   console.log("[AppSidebarContent] User role:", userRole); // Added for debugging
 
+  // The sidebar is on every app page: it keeps the user's presence and chat delivery receipts up to date.
+  usePresenceHeartbeat(currentUser?.uid)
+  useOutboxSync(currentUser?.uid)
+  const { totalUnread: unreadMessages } = useChatInbox(currentUser?.uid)
+  const unreadNotifications = useUnreadNotificationCount(currentUser?.uid)
+  const todayAppointments = useTodayAppointmentCount(currentUser?.uid, pathname)
+
+  // Counts shown next to menu items, by href; nothing is shown for zero.
+  const badges: Record<string, { count: number; variant: "secondary" | "destructive" }> = {
+    "/appointments": { count: todayAppointments, variant: "secondary" },
+    "/notifications": { count: unreadNotifications, variant: "destructive" },
+    "/chat": { count: unreadMessages, variant: "destructive" },
+  }
+  const renderBadge = (href: string) => {
+    const badge = badges[href]
+    if (!badge?.count) return null
+    return <Badge variant={badge.variant} className="ml-auto group-data-[collapsible=icon]:hidden">{formatUnreadCount(badge.count)}</Badge>
+  }
+
   const isActive = (path: string) => pathname === path || (path !== "/dashboard" && pathname.startsWith(path))
 
   return (
@@ -90,7 +153,7 @@ export function AppSidebarContent() {
                   <a>
                     <item.icon className="mr-2" />
                     <span className="group-data-[collapsible=icon]:hidden truncate">{item.label}</span>
-                    {item.badge && <Badge variant="secondary" className="ml-auto group-data-[collapsible=icon]:hidden">{item.badge}</Badge>}
+                    {renderBadge(item.href)}
                   </a>
                 </SidebarMenuButton>
               </Link>
@@ -116,7 +179,7 @@ export function AppSidebarContent() {
                   <a>
                     <item.icon className="mr-2" />
                     <span className="group-data-[collapsible=icon]:hidden truncate">{item.label}</span>
-                     {item.badge && <Badge variant={item.label === "Notifications" ? "destructive" : "secondary"} className="ml-auto group-data-[collapsible=icon]:hidden">{item.badge}</Badge>}
+                    {renderBadge(item.href)}
                   </a>
                 </SidebarMenuButton>
               </Link>
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Archive, ArchiveRestore, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { archivePatient, restorePatient, archiveNurse, restoreNurse } from "@/app/actions";
+import { PATIENT_ARCHIVE_STATUSES, type PatientArchiveStatus, type RecordStatus } from "@/lib/record-status";
+
+type ArchiveRecordButtonProps = {
+  kind: "patient" | "nurse";
+  id: string;
+  name: string;
+  recordStatus: RecordStatus;
+  onChanged?: () => void;
+};
+
+// Archive (with a status and reason) or restore a patient or nurse record; admins only.
+export function ArchiveRecordButton({ kind, id, name, recordStatus, onChanged }: ArchiveRecordButtonProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<PatientArchiveStatus>(kind === "patient" ? "Discharged" : "Inactive");
+  const [reason, setReason] = useState("");
+
+  const handleResult = (result: { success?: boolean; message: string }, title: string) => {
+    if (result.success) {
+      toast({ title, description: result.message });
+      setOpen(false);
+      setReason("");
+      onChanged?.();
+      router.refresh();
+    } else {
+      toast({ variant: "destructive", title: `Failed: ${title}`, description: result.message });
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsSaving(true);
+    const result = kind === "patient" ? await restorePatient(id) : await restoreNurse(id);
+    setIsSaving(false);
+    handleResult(result, "Record Restored");
+  };
+
+  const handleArchive = async () => {
+    setIsSaving(true);
+    const result = kind === "patient"
+      ? await archivePatient(id, { status, reason: reason || undefined })
+      : await archiveNurse(id, reason || undefined);
+    setIsSaving(false);
+    handleResult(result, "Record Archived");
+  };
+
+  if (recordStatus !== "Active") {
+    return (
+      <Button variant="outline" size="sm" onClick={handleRestore} disabled={isSaving}>
+        {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArchiveRestore className="mr-2 h-4 w-4" />}
+        Restore
+      </Button>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm"><Archive className="mr-2 h-4 w-4" /> Archive</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Archive {name}</DialogTitle>
+          <DialogDescription>
+            {kind === "patient"
+              ? "The patient disappears from lists and pickers. Their history stays available and the record can be restored."
+              : "The nurse disappears from lists and pickers and can no longer sign in. The profile can be restored."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {kind === "patient" && (
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={value => setStatus(value as PatientArchiveStatus)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PATIENT_ARCHIVE_STATUSES.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="archive-reason">Reason (optional)</Label>
+            <Textarea id="archive-reason" maxLength={500} value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={handleArchive} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Archive
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
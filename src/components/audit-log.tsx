@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Loader2, ScrollText } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { fetchPatientAccessLog } from "@/app/actions";
+import { AUDIT_OPERATION_LABELS, type AuditEvent, type AuditValue } from "@/lib/audit";
+
+function formatAuditValue(value: AuditValue): string {
+  if (value === null) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+const TARGET_TYPE_LABELS: Record<AuditEvent["targetType"], string> = {
+  patient: "Patient record",
+  medicalFile: "Medical file",
+  careLog: "Care log",
+  appointment: "Appointment",
+  chatMessage: "Chat message",
+};
+
+type AuditEventsTableProps = {
+  events: AuditEvent[];
+  showPatient?: boolean; // off on a patient's own access log
+};
+
+export function AuditEventsTable({ events, showPatient = true }: AuditEventsTableProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No audit events found.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Who</TableHead>
+          <TableHead>What</TableHead>
+          {showPatient && <TableHead>Patient</TableHead>}
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {events.map(event => (
+          <TableRow key={event.id}>
+            <TableCell className="whitespace-nowrap">{format(parseISO(event.at), "PP p")}</TableCell>
+            <TableCell>
+              <span className="block">{event.actorEmail ?? event.actorUid}</span>
+              <Badge variant="outline" className="text-xs">{event.actorRole}</Badge>
+            </TableCell>
+            <TableCell>
+              <Badge variant={event.operation === "read" ? "secondary" : event.operation === "delete" ? "destructive" : "default"}>
+                {AUDIT_OPERATION_LABELS[event.operation]}
+              </Badge>
+              <span className="block text-sm mt-1">{TARGET_TYPE_LABELS[event.targetType]}{event.targetLabel ? `: ${event.targetLabel}` : ""}</span>
+              <span className="block text-xs text-muted-foreground">{event.action} &middot; {event.targetId}</span>
+            </TableCell>
+            {showPatient && <TableCell>{event.patientName ?? event.patientId ?? "—"}</TableCell>}
+            <TableCell className="text-xs">
+              {event.changes.length === 0 ? (
+                <span className="text-muted-foreground">—</span>
+              ) : (
+                <ul className="space-y-1">
+                  {event.changes.map(change => (
+                    <li key={change.field} className="break-words">
+                      <span className="font-semibold">{change.field}:</span>{" "}
+                      <span className="line-through text-muted-foreground">{formatAuditValue(change.before)}</span>{" "}
+                      &rarr; {formatAuditValue(change.after)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function PatientAccessLogCard({ patientId }: { patientId: string }) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchPatientAccessLog(patientId).then(result => {
+      setEvents(result.data || []);
+      setError(result.error ?? null);
+      setIsLoading(false);
+    });
+  }, [patientId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ScrollText className="h-5 w-5 text-primary" />Access Log</CardTitle>
+        <CardDescription>Everyone who viewed or changed this patient&apos;s record, files, care logs and appointments (latest first).</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading access log...</p>
+        ) : (
+          <AuditEventsTable events={events} showPatient={false} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
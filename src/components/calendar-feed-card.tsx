@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarPlus, Copy, Loader2, RefreshCw, Trash2 } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { createCalendarFeed, fetchCalendarFeed, revokeCalendarFeed, type CalendarFeedInfo } from "@/app/actions";
+
+// Lets the user subscribe to their appointments and video consults from Google Calendar,
+// Outlook or Apple Calendar through a private link.
+export function CalendarFeedCard() {
+  const { toast } = useToast();
+  const [feed, setFeed] = useState<CalendarFeedInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    fetchCalendarFeed().then(result => {
+      if (result.error) {
+        toast({ variant: "destructive", title: "Error Loading Calendar Link", description: result.error });
+      }
+      setFeed(result.data ?? null);
+      setIsLoading(false);
+    });
+  }, [toast]);
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    const result = await createCalendarFeed();
+    setIsWorking(false);
+    if (result.success && result.data) {
+      setFeed(result.data);
+      toast({ title: "Calendar Link Ready", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Calendar Link Failed", description: result.message });
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsWorking(true);
+    const result = await revokeCalendarFeed();
+    setIsWorking(false);
+    if (result.success) {
+      setFeed(null);
+      toast({ title: "Calendar Link Revoked", description: result.message });
+    } else {
+      toast({ variant: "destructive", title: "Revoke Failed", description: result.message });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Copied", description: "The calendar link was copied to the clipboard." });
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><CalendarPlus className="h-5 w-5 text-primary" />Calendar Subscription</CardTitle>
+        <CardDescription>
+          Subscribe to your appointments and video consults from your calendar app. Reschedules and cancellations are picked up on the next refresh.
+          Anyone with the link can see your schedule, so keep it private and revoke it if it leaks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading...</p>
+        ) : feed ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={e => e.target.select()} />
+              <Button type="button" variant="outline" size="icon" onClick={handleCopy} aria-label="Copy calendar link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Created {format(parseISO(feed.createdAt), "PPp")}
+              {feed.lastAccessedAt ? ` · last synced ${format(parseISO(feed.lastAccessedAt), "PPp")}` : " · not synced yet"}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="default">
+                <a href={feed.url.replace(/^https?:/, "webcal:")}>Open in Calendar App</a>
+              </Button>
+              <Button type="button" variant="outline" onClick={handleCreate} disabled={isWorking}>
+                <RefreshCw className="mr-2 h-4 w-4" />Regenerate Link
+              </Button>
+              <Button type="button" variant="destructive" onClick={handleRevoke} disabled={isWorking}>
+                <Trash2 className="mr-2 h-4 w-4" />Revoke
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button type="button" onClick={handleCreate} disabled={isWorking}>
+            {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Calendar Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
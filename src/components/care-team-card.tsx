@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, History, Loader2, UserMinus, UserPlus, Users } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchCareTeam, assignCareTeamMember, endCareAssignment, fetchUsersForAdmin,
+  type CareTeam, type UserForAdminList,
+} from "@/app/actions";
+import { CARE_TEAM_ROLES, CARE_TEAM_ROLE_LABELS, canHoldCareTeamRole, type CareAssignment, type CareTeamRole } from "@/lib/care-team";
+
+type CareTeamCardProps = {
+  patientId: string;
+  canManage: boolean; // admins assign and end assignments
+};
+
+function formatAssignmentDate(iso: string | null): string {
+  return iso ? format(parseISO(iso), "PP") : "—";
+}
+
+export function CareTeamCard({ patientId, canManage }: CareTeamCardProps) {
+  const [careTeam, setCareTeam] = useState<CareTeam>({ active: [], history: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCareTeam = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchCareTeam(patientId);
+    if (result.data) setCareTeam(result.data);
+    setError(result.error ?? null);
+    setIsLoading(false);
+  }, [patientId]);
+
+  useEffect(() => {
+    loadCareTeam();
+  }, [loadCareTeam]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Users className="h-5 w-5 text-primary" />Care Team</CardTitle>
+            <CardDescription>Clinicians currently assigned to this patient. Only they can access the patient&apos;s records.</CardDescription>
+          </div>
+          {canManage && <AssignCareTeamDialog patientId={patientId} onAssigned={loadCareTeam} />}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading care team...</p>
+        ) : (
+          <>
+            <CareAssignmentsTable assignments={careTeam.active} canManage={canManage} onEnded={loadCareTeam} />
+            {careTeam.history.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-muted-foreground flex items-center gap-2"><History className="h-4 w-4" />Assignment History</h4>
+                <CareAssignmentsTable assignments={careTeam.history} canManage={false} onEnded={loadCareTeam} />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type CareAssignmentsTableProps = {
+  assignments: CareAssignment[];
+  canManage: boolean;
+  onEnded: () => void;
+};
+
+function CareAssignmentsTable({ assignments, canManage, onEnded }: CareAssignmentsTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [endingId, setEndingId] = useState<string | null>(null);
+
+  if (assignments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No clinician is assigned to this patient.</p>;
+  }
+
+  const handleEnd = async (assignment: CareAssignment) => {
+    setEndingId(assignment.id);
+    const result = await endCareAssignment(assignment.id);
+    setEndingId(null);
+    if (result.success) {
+      toast({ title: "Assignment Ended", description: result.message });
+      onEnded();
+      router.refresh();
+    } else {
+      toast({ variant: "destructive", title: "Failed to End Assignment", description: result.message });
+    }
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Clinician</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Start</TableHead>
+          <TableHead>End</TableHead>
+          {canManage && <TableHead className="text-right">Actions</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {assignments.map(assignment => (
+          <TableRow key={assignment.id}>
+            <TableCell className="font-medium">{assignment.clinicianName}</TableCell>
+            <TableCell>
+              <Badge variant={assignment.teamRole === "primaryNurse" ? "default" : "secondary"}>{CARE_TEAM_ROLE_LABELS[assignment.teamRole]}</Badge>
+            </TableCell>
+            <TableCell>{formatAssignmentDate(assignment.startDate)}</TableCell>
+            <TableCell>
+              {formatAssignmentDate(assignment.endDate)}
+              {assignment.endReason && <span className="block text-xs text-muted-foreground">{assignment.endReason}</span>}
+            </TableCell>
+            {canManage && (
+              <TableCell className="text-right">
+                <Button variant="ghost" size="sm" onClick={() => handleEnd(assignment)} disabled={endingId === assignment.id}>
+                  {endingId === assignment.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserMinus className="mr-2 h-4 w-4" />}
+                  End
+                </Button>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+type AssignCareTeamDialogProps = {
+  patientId: string;
+  onAssigned: () => void;
+};
+
+// Assigning a new Primary Nurse ends the current one; other roles can have several holders.
+function AssignCareTeamDialog({ patientId, onAssigned }: AssignCareTeamDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [users, setUsers] = useState<UserForAdminList[]>([]);
+  const [teamRole, setTeamRole] = useState<CareTeamRole>("primaryNurse");
+  const [clinicianId, setClinicianId] = useState("");
+  const [startDate, setStartDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  useEffect(() => {
+    if (!open) return;
+    fetchUsersForAdmin().then(result => setUsers(result.data || []));
+  }, [open]);
+
+  const candidates = useMemo(() => users.filter(user => canHoldCareTeamRole(user.role, teamRole)), [users, teamRole]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await assignCareTeamMember({ patientId, clinicianId, teamRole, startDate: parseISO(startDate) });
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Care Team Updated", description: result.message });
+      setOpen(false);
+      setClinicianId("");
+      onAssigned();
+      router.refresh();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Assign", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm"><UserPlus className="mr-2 h-4 w-4" /> Assign</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Assign Care Team Member</DialogTitle>
+          <DialogDescription>
+            Assigning a Primary Nurse replaces the current one, who stays in the assignment history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={teamRole} onValueChange={value => { setTeamRole(value as CareTeamRole); setClinicianId(""); }}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CARE_TEAM_ROLES.map(role => <SelectItem key={role} value={role}>{CARE_TEAM_ROLE_LABELS[role]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Clinician</Label>
+            <Select value={clinicianId} onValueChange={setClinicianId}>
+              <SelectTrigger><SelectValue placeholder={candidates.length ? "Select a clinician" : "No clinician with this role"} /></SelectTrigger>
+              <SelectContent>
+                {candidates.map(user => <SelectItem key={user.id} value={user.id}>{user.name}{user.email ? ` (${user.email})` : ""}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="care-team-start">Start date</Label>
+            <Input id="care-team-start" type="date" value={startDate} max={format(new Date(), "yyyy-MM-dd")} onChange={e => setStartDate(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !clinicianId || !startDate}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, MessagesSquare } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { openCareTeamChannel } from "@/app/actions";
+
+// Opens the patient's care team channel (lib/chat-groups.ts) on the chat page.
+export function CareTeamChatButton({ patientId }: { patientId: string }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpening, setIsOpening] = useState(false);
+
+  const handleOpen = async () => {
+    setIsOpening(true);
+    const result = await openCareTeamChannel(patientId);
+    setIsOpening(false);
+    if (result.success && result.chatId) {
+      router.push(`/chat?chat=${encodeURIComponent(result.chatId)}`);
+    } else {
+      toast({ variant: "destructive", title: "Cannot Open Care Team Chat", description: result.message });
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleOpen} disabled={isOpening}>
+      {isOpening ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessagesSquare className="mr-2 h-4 w-4" />}
+      Care Team Chat
+    </Button>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { ExternalLink, FileText, FolderInput, FolderCheck, Loader2, Mic } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatAttachmentSize, formatVoiceNoteDuration, type ChatAttachment } from "@/lib/chat-attachments";
+import { cn } from "@/lib/utils";
+
+type ChatAttachmentPreviewProps = {
+  attachment: ChatAttachment;
+  isOwn: boolean; // sent by the current user (shown on the primary colour)
+  canSaveToMedicalFile: boolean;
+  isSaving?: boolean;
+  onSaveToMedicalFile?: () => void;
+};
+
+// Inline preview of a chat attachment: images and PDFs open larger in a dialog, voice notes
+// play in place. Attachments of a conversation with a patient can be filed in their medical file.
+export function ChatAttachmentPreview({ attachment, isOwn, canSaveToMedicalFile, isSaving, onSaveToMedicalFile }: ChatAttachmentPreviewProps) {
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const mutedText = isOwn ? "text-primary-foreground/80" : "text-muted-foreground";
+
+  return (
+    <div className="space-y-2">
+      {attachment.kind === "image" && (
+        <button type="button" onClick={() => setIsPreviewOpen(true)} aria-label={`View ${attachment.fileName}`} className="block">
+          <Image src={attachment.url} alt={attachment.fileName} width={240} height={180} className="max-h-60 w-auto rounded-md object-cover" />
+        </button>
+      )}
+      {attachment.kind === "pdf" && (
+        <button
+          type="button"
+          onClick={() => setIsPreviewOpen(true)}
+          className={cn("flex w-full items-center gap-3 rounded-md border p-2 text-left", isOwn ? "border-primary-foreground/30" : "bg-muted/50")}
+        >
+          <FileText className="h-8 w-8 shrink-0" />
+          <span className="min-w-0">
+            <span className="block truncate text-sm font-medium">{attachment.fileName}</span>
+            <span className={cn("block text-xs", mutedText)}>PDF &middot; {formatAttachmentSize(attachment.size)} &middot; Click to preview</span>
+          </span>
+        </button>
+      )}
+      {attachment.kind === "voice" && (
+        <div className="flex items-center gap-2">
+          <Mic className="h-4 w-4 shrink-0" />
+          <audio controls preload="metadata" src={attachment.url} className="h-10 max-w-[240px]" />
+          {attachment.durationSeconds !== undefined && (
+            <span className={cn("text-xs", mutedText)}>{formatVoiceNoteDuration(attachment.durationSeconds)}</span>
+          )}
+        </div>
+      )}
+
+      {attachment.medicalFileId ? (
+        <p className={cn("flex items-center text-xs", mutedText)}><FolderCheck className="mr-1 h-3 w-3" />Saved to medical file</p>
+      ) : canSaveToMedicalFile && onSaveToMedicalFile && (
+        <Button
+          variant={isOwn ? "secondary" : "outline"}
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={onSaveToMedicalFile}
+          disabled={isSaving}
+        >
+          {isSaving ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <FolderInput className="mr-1 h-3 w-3" />}
+          Save to medical file
+        </Button>
+      )}
+
+      {attachment.kind !== "voice" && (
+        <Dialog open={isPreviewOpen} onOpenChange={setIsPreviewOpen}>
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle className="truncate pr-6">{attachment.fileName}</DialogTitle>
+              <DialogDescription>
+                {formatAttachmentSize(attachment.size)} &middot;{" "}
+                <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center underline">
+                  Open in a new tab <ExternalLink className="ml-1 h-3 w-3" />
+                </a>
+              </DialogDescription>
+            </DialogHeader>
+            {attachment.kind === "image" ? (
+              <Image src={attachment.url} alt={attachment.fileName} width={1200} height={900} className="max-h-[70vh] w-full rounded-md object-contain" />
+            ) : (
+              <iframe src={attachment.url} title={attachment.fileName} className="h-[70vh] w-full rounded-md border" />
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Loader2, Search, Users } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { searchChatMessages } from "@/app/actions";
+import { CHAT_SEARCH_MIN_QUERY_LENGTH, type ChatSearchResult } from "@/lib/chat-messages";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+type ChatMessageSearchProps = {
+  chatId?: string; // search this conversation only; every conversation of the user otherwise
+  chatName?: string;
+  onOpenResult: (result: ChatSearchResult) => void;
+};
+
+// Full-text search of chat messages (lib/chat-messages.ts); arrow keys move through the
+// results and Enter opens the message in its conversation.
+export function ChatMessageSearch({ chatId, chatName, onOpenResult }: ChatMessageSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [queryText, setQueryText] = useState("");
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const trimmed = queryText.trim();
+    if (!open || trimmed.length < CHAT_SEARCH_MIN_QUERY_LENGTH) {
+      latestRequest.current++; // drop any search still under way
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+    const request = ++latestRequest.current;
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const result = await searchChatMessages(trimmed, chatId);
+      if (request !== latestRequest.current) return; // a newer search is under way
+      setResults(result.data || []);
+      setError(result.error ?? null);
+      setActiveIndex(0);
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [queryText, chatId, open]);
+
+  const openResult = (result: ChatSearchResult) => {
+    setOpen(false);
+    setQueryText("");
+    onOpenResult(result);
+  };
+
+  const onInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % results.length);
+    } else if (event.key === "ArrowUp" && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + results.length) % results.length);
+    } else if (event.key === "Enter" && results[activeIndex]) {
+      event.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  const label = chatId ? "Search this conversation" : "Search all conversations";
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" aria-label={label} onClick={() => setOpen(true)}><Search className="h-5 w-5" /></Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-xl p-0 gap-0">
+          <DialogHeader className="p-4 pb-2">
+            <DialogTitle>{chatId ? `Search ${chatName || "this conversation"}` : "Search Messages"}</DialogTitle>
+            <DialogDescription>
+              {chatId ? "Messages of this conversation." : "Messages of all your conversations."} Small typos are tolerated.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="px-4 pb-2 relative">
+            <Search className="absolute left-7 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              className="pl-9"
+              placeholder="e.g. pansement, rendez-vous..."
+              value={queryText}
+              onChange={e => setQueryText(e.target.value)}
+              onKeyDown={onInputKeyDown}
+              aria-label={label}
+            />
+          </div>
+          <div className="max-h-[60vh] overflow-y-auto border-t" role="listbox">
+            {isSearching && (
+              <p className="p-4 text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Searching...</p>
+            )}
+            {!isSearching && error && <p className="p-4 text-sm text-destructive">{error}</p>}
+            {!isSearching && !error && queryText.trim().length >= CHAT_SEARCH_MIN_QUERY_LENGTH && results.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">No messages found.</p>
+            )}
+            {!isSearching && results.map((result, index) => (
+              <button
+                key={`${result.chatId}/${result.messageId}`}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn("block w-full px-4 py-3 text-left text-sm hover:bg-muted", index === activeIndex && "bg-muted")}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => openResult(result)}
+              >
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  {!chatId && (
+                    <>
+                      {result.isGroup && <Users className="h-3 w-3" />}
+                      <span className="font-semibold text-foreground">{result.chatName}</span> &middot;
+                    </>
+                  )}
+                  <span>{result.senderName}</span>
+                  {result.sentAt && <span className="ml-auto">{formatDistanceToNow(parseISO(result.sentAt), { addSuffix: true })}</span>}
+                </p>
+                <p className="mt-1 line-clamp-2">{result.snippet}</p>
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, HeartHandshake, Loader2, UserMinus, UserPlus } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { authorizeFamilyCaregiver, fetchFamilyCaregivers, revokeFamilyCaregiver } from "@/app/actions";
+import { CAREGIVER_RELATIONSHIPS, CAREGIVER_RELATIONSHIP_LABELS, type CaregiverRelationship, type FamilyCaregiver } from "@/lib/chat-groups";
+
+type FamilyCaregiversCardProps = {
+  patientId: string;
+  canManage: boolean; // the patient and admins authorize and revoke caregivers
+};
+
+// Family caregivers join the patient's care team conversation; they get no access to the record.
+export function FamilyCaregiversCard({ patientId, canManage }: FamilyCaregiversCardProps) {
+  const { toast } = useToast();
+  const [caregivers, setCaregivers] = useState<FamilyCaregiver[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadCaregivers = useCallback(async () => {
+    setIsLoading(true);
+    const result = await fetchFamilyCaregivers(patientId);
+    if (result.data) setCaregivers(result.data);
+    setError(result.error ?? null);
+    setIsLoading(false);
+  }, [patientId]);
+
+  useEffect(() => {
+    loadCaregivers();
+  }, [loadCaregivers]);
+
+  const handleRevoke = async (caregiver: FamilyCaregiver) => {
+    setRevokingId(caregiver.uid);
+    const result = await revokeFamilyCaregiver(patientId, caregiver.uid);
+    setRevokingId(null);
+    if (result.success) {
+      toast({ title: "Caregiver Removed", description: result.message });
+      loadCaregivers();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Remove Caregiver", description: result.message });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2"><HeartHandshake className="h-5 w-5 text-primary" />Family Caregivers</CardTitle>
+            <CardDescription>Relatives who take part in the care team conversation. They cannot see the medical record.</CardDescription>
+          </div>
+          {canManage && <AuthorizeCaregiverDialog patientId={patientId} onAuthorized={loadCaregivers} />}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading caregivers...</p>
+        ) : caregivers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No family caregiver is authorized.</p>
+        ) : (
+          <ul className="space-y-2">
+            {caregivers.map(caregiver => (
+              <li key={caregiver.uid} className="flex items-center justify-between gap-2 text-sm">
+                <div>
+                  <span className="font-medium">{caregiver.name}</span>
+                  <span className="text-muted-foreground"> &middot; {CAREGIVER_RELATIONSHIP_LABELS[caregiver.relationship]}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {caregiver.email ? `${caregiver.email} · ` : ""}since {format(parseISO(caregiver.authorizedAt), "PP")}
+                  </span>
+                </div>
+                {canManage && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(caregiver)} disabled={revokingId === caregiver.uid}>
+                    {revokingId === caregiver.uid ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserMinus className="mr-2 h-4 w-4" />}
+                    Remove
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type AuthorizeCaregiverDialogProps = {
+  patientId: string;
+  onAuthorized: () => void;
+};
+
+function AuthorizeCaregiverDialog({ patientId, onAuthorized }: AuthorizeCaregiverDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [email, setEmail] = useState("");
+  const [relationship, setRelationship] = useState<CaregiverRelationship>("child");
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await authorizeFamilyCaregiver(patientId, { email, relationship });
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Caregiver Authorized", description: result.message });
+      setOpen(false);
+      setEmail("");
+      onAuthorized();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Authorize", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm"><UserPlus className="mr-2 h-4 w-4" /> Authorize</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Authorize a Family Caregiver</DialogTitle>
+          <DialogDescription>
+            The caregiver signs in with their own account and joins the care team conversation.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="caregiver-email">Email of their account</Label>
+            <Input id="caregiver-email" type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="name@example.com" />
+          </div>
+          <div className="space-y-2">
+            <Label>Relationship</Label>
+            <Select value={relationship} onValueChange={value => setRelationship(value as CaregiverRelationship)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CAREGIVER_RELATIONSHIPS.map(value => <SelectItem key={value} value={value}>{CAREGIVER_RELATIONSHIP_LABELS[value]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !email.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Authorize
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+import { ShieldAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { ForbiddenError } from "@/lib/authz";
+
+// Renders the `forbidden` error returned by server actions when the caller's role
+// or ownership does not allow the requested operation.
+export function ForbiddenAlert({ error, className }: { error: ForbiddenError; className?: string }) {
+  return (
+    <Alert variant="destructive" className={className}>
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>{error.code === "unauthenticated" ? "Sign-in Required" : "Access Denied"}</AlertTitle>
+      <AlertDescription>{error.message}</AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Loader2, LogOut, Settings, UserMinus, UserPlus, Users } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createGroupChat, leaveGroupChat, updateGroupChat } from "@/app/actions";
+import { GROUP_CHAT_MAX_MEMBERS, GROUP_CHAT_NAME_MAX_LENGTH } from "@/lib/chat-groups";
+import type { ChatSummary } from "@/lib/chat-status";
+
+// Someone the current user can add to a group (their chat contacts).
+export type GroupChatCandidate = {
+  id: string;
+  name: string;
+  role: string;
+};
+
+const NO_PATIENT = "none";
+
+type MemberPickerProps = {
+  candidates: GroupChatCandidate[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+};
+
+function MemberPicker({ candidates, selectedIds, onChange }: MemberPickerProps) {
+  const [search, setSearch] = useState("");
+  const visible = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return candidates.filter(candidate => !needle || candidate.name.toLowerCase().includes(needle));
+  }, [candidates, search]);
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input placeholder="Search contacts..." value={search} onChange={e => setSearch(e.target.value)} />
+      <ScrollArea className="h-48 rounded-md border">
+        <div className="p-2 space-y-1">
+          {visible.length === 0 && <p className="p-2 text-sm text-muted-foreground">No contacts found.</p>}
+          {visible.map(candidate => (
+            <label key={candidate.id} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-accent cursor-pointer">
+              <Checkbox checked={selectedIds.includes(candidate.id)} onCheckedChange={checked => toggle(candidate.id, checked === true)} />
+              <span className="flex-1 truncate">{candidate.name}</span>
+              <span className="text-xs text-muted-foreground">{candidate.role}</span>
+            </label>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
+
+type NewGroupChatDialogProps = {
+  candidates: GroupChatCandidate[];
+  patients: Array<{ id: string; name: string }>; // the patients the group can be about
+  onCreated: (chatId: string) => void;
+};
+
+// Staff create named groups; a group about a patient may also include the patient and the
+// family caregivers they authorized (checked by createGroupChat).
+export function NewGroupChatDialog({ candidates, patients, onCreated }: NewGroupChatDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [patientId, setPatientId] = useState(NO_PATIENT);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    const result = await createGroupChat({ name, memberIds, patientId: patientId === NO_PATIENT ? undefined : patientId });
+    setIsSaving(false);
+    if (result.success && result.chatId) {
+      toast({ title: "Group Created", description: result.message });
+      setOpen(false);
+      setName("");
+      setPatientId(NO_PATIENT);
+      setMemberIds([]);
+      onCreated(result.chatId);
+    } else {
+      toast({ variant: "destructive", title: "Failed to Create Group", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="New Group"><Users className="h-5 w-5" /></Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Group</DialogTitle>
+          <DialogDescription>Members mentioned with @Name in the group are notified.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-chat-name">Name</Label>
+            <Input id="group-chat-name" value={name} maxLength={GROUP_CHAT_NAME_MAX_LENGTH} onChange={e => setName(e.target.value)} placeholder="e.g. Wound care coordination" />
+          </div>
+          <div className="space-y-2">
+            <Label>About patient (optional)</Label>
+            <Select value={patientId} onValueChange={setPatientId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PATIENT}>No specific patient</SelectItem>
+                {patients.map(patient => <SelectItem key={patient.id} value={patient.id}>{patient.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Members ({memberIds.length})</Label>
+            <MemberPicker candidates={candidates} selectedIds={memberIds} onChange={setMemberIds} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={isSaving || !name.trim() || memberIds.length === 0 || memberIds.length >= GROUP_CHAT_MAX_MEMBERS}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type GroupChatDetailsDialogProps = {
+  chat: ChatSummary;
+  currentUid: string;
+  canManage: boolean; // group managers and admins
+  candidates: GroupChatCandidate[];
+  onLeft: () => void;
+};
+
+// Members of a group or care team channel. Managers rename groups and change their members;
+// care team channels follow the patient's care team and caregivers and are read-only here.
+export function GroupChatDetailsDialog({ chat, currentUid, canManage, candidates, onLeft }: GroupChatDetailsDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState(chat.name ?? "");
+  const [addIds, setAddIds] = useState<string[]>([]);
+  const isCareTeam = chat.type === "careTeam";
+  const isEditable = canManage && !isCareTeam;
+
+  const members = useMemo(
+    () => chat.participants
+      .map(uid => ({ uid, name: chat.participantNames[uid] || "Unknown User" }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [chat.participants, chat.participantNames]
+  );
+  const addableCandidates = useMemo(() => candidates.filter(candidate => !chat.participants.includes(candidate.id)), [candidates, chat.participants]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setName(chat.name ?? "");
+      setAddIds([]);
+    }
+  };
+
+  const save = async (values: Parameters<typeof updateGroupChat>[1]) => {
+    setIsSaving(true);
+    const result = await updateGroupChat(chat.chatId, values);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Group Updated", description: result.message });
+      setAddIds([]);
+    } else {
+      toast({ variant: "destructive", title: "Failed to Update Group", description: result.message });
+    }
+  };
+
+  const handleLeave = async () => {
+    setIsSaving(true);
+    const result = await leaveGroupChat(chat.chatId);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Left Group", description: result.message });
+      setOpen(false);
+      onLeft();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Leave Group", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Group details"><Settings className="h-5 w-5" /></Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{chat.name || "Group"}</DialogTitle>
+          <DialogDescription>
+            {isCareTeam
+              ? "Members follow the patient's care team and the family caregivers the patient authorized."
+              : `${members.length} members.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isEditable && (
+            <div className="space-y-2">
+              <Label htmlFor="group-chat-rename">Name</Label>
+              <div className="flex gap-2">
+                <Input id="group-chat-rename" value={name} maxLength={GROUP_CHAT_NAME_MAX_LENGTH} onChange={e => setName(e.target.value)} />
+                <Button variant="outline" onClick={() => save({ name })} disabled={isSaving || !name.trim() || name.trim() === chat.name}>Rename</Button>
+              </div>
+            </div>
+          )}
+          <ScrollArea className="max-h-56 rounded-md border">
+            <ul className="p-2 space-y-1">
+              {members.map(member => (
+                <li key={member.uid} className="flex items-center gap-2 px-2 py-1 text-sm">
+                  <span className="flex-1 truncate">{member.name}{member.uid === currentUid ? " (you)" : ""}</span>
+                  {chat.managers.includes(member.uid) && <Badge variant="secondary">Manager</Badge>}
+                  {isEditable && member.uid !== currentUid && (
+                    <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Remove ${member.name}`} onClick={() => save({ removeMemberIds: [member.uid] })} disabled={isSaving}>
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+          {isEditable && (
+            <div className="space-y-2">
+              <Label>Add members</Label>
+              <MemberPicker candidates={addableCandidates} selectedIds={addIds} onChange={setAddIds} />
+              <Button variant="outline" size="sm" onClick={() => save({ addMemberIds: addIds })} disabled={isSaving || addIds.length === 0}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                Add {addIds.length || ""}
+              </Button>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          {!isCareTeam && (
+            <Button variant="destructive" onClick={handleLeave} disabled={isSaving}>
+              <LogOut className="mr-2 h-4 w-4" />Leave Group
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
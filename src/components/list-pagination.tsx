@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+type ListPaginationProps = {
+  pageNumber: number | null; // null on a bookmarked page reached without its history
+  itemCount: number;
+  hasPreviousPage: boolean;
+  nextCursor: string | null;
+  isLoading?: boolean;
+  onPrevious: () => void;
+  onNext: (nextCursor: string) => void;
+};
+
+export function ListPagination({ pageNumber, itemCount, hasPreviousPage, nextCursor, isLoading, onPrevious, onNext }: ListPaginationProps) {
+  if (!hasPreviousPage && !nextCursor) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 pt-4">
+      <p className="text-sm text-muted-foreground">
+        {pageNumber ? `Page ${pageNumber}` : "Bookmarked page"} &middot; {itemCount} item(s)
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={onPrevious} disabled={!hasPreviousPage || isLoading}>
+          <ChevronLeft className="mr-1 h-4 w-4" /> {pageNumber === null ? "First" : "Previous"}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => nextCursor && onNext(nextCursor)} disabled={!nextCursor || isLoading}>
+          Next <ChevronRight className="ml-1 h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
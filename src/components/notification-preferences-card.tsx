@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { isSupported, getMessaging, getToken, deleteToken } from "firebase/messaging";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { app } from "@/lib/firebase";
+import { fetchNotificationPreferences, registerPushToken, updateNotificationPreferences } from "@/app/actions";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES, NOTIFICATION_CHANNELS, NOTIFICATION_CHANNEL_LABELS,
+  type NotificationChannel, type NotificationPreferences,
+} from "@/lib/notification-preferences";
+import { DEFAULT_EMAIL_LOCALE, EMAIL_LOCALES, EMAIL_LOCALE_LABELS, type EmailLocale } from "@/lib/email-templates";
+
+const PUSH_SERVICE_WORKER = "/firebase-messaging-sw.js";
+
+// Asks for permission and returns this browser's FCM token, or an error message.
+async function subscribeToPush(): Promise<{ token?: string; error?: string }> {
+  if (!app || !(await isSupported())) return { error: "This browser does not support push notifications." };
+  if (!process.env.NEXT_PUBLIC_FIREBASE_VAPID_KEY) return { error: "Push notifications are not configured (NEXT_PUBLIC_FIREBASE_VAPID_KEY)." };
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return { error: "Notifications are blocked for this site in the browser settings." };
+  const registration = await navigator.serviceWorker.register(PUSH_SERVICE_WORKER);
+  const token = await getToken(getMessaging(app), {
+    vapidKey: process.env.NEXT_PUBLIC_FIREBASE_VAPID_KEY,
+    serviceWorkerRegistration: registration,
+  });
+  return token ? { token } : { error: "The browser did not return a push subscription." };
+}
+
+async function unsubscribeFromPush(): Promise<string | null> {
+  if (!app || !(await isSupported())) return null;
+  const registration = await navigator.serviceWorker.getRegistration(PUSH_SERVICE_WORKER);
+  if (!registration) return null;
+  const messaging = getMessaging(app);
+  const token = await getToken(messaging, { vapidKey: process.env.NEXT_PUBLIC_FIREBASE_VAPID_KEY, serviceWorkerRegistration: registration }).catch(() => null);
+  await deleteToken(messaging).catch(() => undefined);
+  return token;
+}
+
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchNotificationPreferences().then(result => {
+      if (result.data) setPreferences(result.data.preferences);
+      if (result.error) toast({ variant: "destructive", title: "Error Loading Preferences", description: result.error });
+      setIsLoading(false);
+    });
+  }, [toast]);
+
+  const setChannel = (channel: NotificationChannel, enabled: boolean) => {
+    setPreferences(prev => ({ ...prev, channels: { ...prev.channels, [channel]: enabled } }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Push needs this browser's subscription; other channels are plain flags.
+      if (preferences.channels.push) {
+        const subscription = await subscribeToPush();
+        if (!subscription.token) {
+          toast({ variant: "destructive", title: "Push Notifications Unavailable", description: subscription.error });
+          return;
+        }
+        await registerPushToken(subscription.token, true);
+      } else {
+        const token = await unsubscribeFromPush();
+        if (token) await registerPushToken(token, false);
+      }
+      const result = await updateNotificationPreferences(preferences);
+      if (result.success) {
+        toast({ title: "Preferences Saved", description: result.message });
+      } else {
+        toast({ variant: "destructive", title: "Save Failed", description: result.message });
+      }
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Save Failed", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Notification Preferences</CardTitle>
+        <CardDescription>Manage how you receive notifications about appointments, consultations, messages and medical files.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading...</p>
+        ) : (
+          <>
+            {NOTIFICATION_CHANNELS.map(channel => (
+              <div key={channel} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${channel}-notifications`}
+                  checked={preferences.channels[channel]}
+                  onCheckedChange={checked => setChannel(channel, checked === true)}
+                />
+                <Label htmlFor={`${channel}-notifications`}>{NOTIFICATION_CHANNEL_LABELS[channel]}</Label>
+              </div>
+            ))}
+            {preferences.channels.sms && (
+              <div className="space-y-2 max-w-sm">
+                <Label htmlFor="sms-phone">SMS phone number</Label>
+                <Input
+                  id="sms-phone"
+                  placeholder="Defaults to the phone number of your profile"
+                  value={preferences.smsPhone ?? ""}
+                  onChange={e => setPreferences(prev => ({ ...prev, smsPhone: e.target.value }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="email-locale">Email language</Label>
+              <Select
+                value={preferences.locale ?? DEFAULT_EMAIL_LOCALE}
+                onValueChange={value => setPreferences(prev => ({ ...prev, locale: value as EmailLocale }))}
+              >
+                <SelectTrigger id="email-locale"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EMAIL_LOCALES.map(locale => <SelectItem key={locale} value={locale}>{EMAIL_LOCALE_LABELS[locale]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Preferences
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
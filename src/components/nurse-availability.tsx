@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, Loader2, Plus, Trash2 } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { updateNurseAvailability } from "@/app/actions";
+import { WEEKDAYS, type NurseAvailability, type TimeRange, type Weekday } from "@/lib/availability";
+
+type NurseAvailabilityCardProps = {
+  nurseId: string;
+  availability: NurseAvailability;
+  canEdit: boolean;
+  onSaved: (availability: NurseAvailability) => void;
+};
+
+function formatRanges(ranges: TimeRange[]): string {
+  return ranges.map(range => `${range.start}-${range.end}`).join(", ");
+}
+
+// "08:00-12:00, 14:00-18:00" -> ranges; the server validates the times themselves.
+function parseRanges(value: string): TimeRange[] {
+  return value.split(",").map(part => part.trim()).filter(Boolean).map(part => {
+    const [start = "", end = ""] = part.split("-").map(t => t.trim());
+    return { start, end };
+  });
+}
+
+function capitalize(day: Weekday): string {
+  return day.charAt(0).toUpperCase() + day.slice(1);
+}
+
+export function NurseAvailabilityCard({ nurseId, availability, canEdit, onSaved }: NurseAvailabilityCardProps) {
+  const upcomingTimeOff = availability.timeOff
+    .filter(period => parseISO(period.end) > new Date())
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2"><CalendarClock className="h-5 w-5 text-primary" />Availability</CardTitle>
+          <CardDescription>Working hours and time off used when booking appointments.</CardDescription>
+        </div>
+        {canEdit && <NurseAvailabilityDialog nurseId={nurseId} availability={availability} onSaved={onSaved} />}
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {WEEKDAYS.map(day => (
+            <div key={day}>
+              <p className="font-medium">{capitalize(day)}</p>
+              <p className="text-muted-foreground">{availability.workingHours[day].length > 0 ? formatRanges(availability.workingHours[day]) : "Off"}</p>
+            </div>
+          ))}
+        </div>
+        <div>
+          <p className="font-medium">Upcoming time off</p>
+          {upcomingTimeOff.length > 0 ? (
+            <ul className="text-muted-foreground list-disc list-inside">
+              {upcomingTimeOff.map((period, index) => (
+                <li key={index}>
+                  {format(parseISO(period.start), "PPp")} – {format(parseISO(period.end), "PPp")}{period.reason ? ` (${period.reason})` : ""}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">None planned.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type TimeOffDraft = { start: string; end: string; reason: string }; // datetime-local values
+
+function NurseAvailabilityDialog({ nurseId, availability, onSaved }: Omit<NurseAvailabilityCardProps, "canEdit">) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hours, setHours] = useState<Record<Weekday, string>>({} as Record<Weekday, string>);
+  const [timeOff, setTimeOff] = useState<TimeOffDraft[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setHours(Object.fromEntries(WEEKDAYS.map(day => [day, formatRanges(availability.workingHours[day])])) as Record<Weekday, string>);
+    setTimeOff(availability.timeOff.map(period => ({
+      start: format(parseISO(period.start), "yyyy-MM-dd'T'HH:mm"),
+      end: format(parseISO(period.end), "yyyy-MM-dd'T'HH:mm"),
+      reason: period.reason || "",
+    })));
+  }, [open, availability]);
+
+  const handleSave = async () => {
+    const invalidTimeOff = timeOff.some(period => !period.start || !period.end);
+    if (invalidTimeOff) {
+      toast({ variant: "destructive", title: "Invalid time off", description: "Every time off period needs a start and an end." });
+      return;
+    }
+    const values: NurseAvailability = {
+      workingHours: Object.fromEntries(WEEKDAYS.map(day => [day, parseRanges(hours[day] || "")])) as NurseAvailability["workingHours"],
+      timeOff: timeOff.map(period => ({
+        start: new Date(period.start).toISOString(),
+        end: new Date(period.end).toISOString(),
+        ...(period.reason.trim() ? { reason: period.reason.trim() } : {}),
+      })),
+    };
+    setIsSaving(true);
+    const result = await updateNurseAvailability(nurseId, values);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Availability Updated", description: result.message });
+      onSaved(values);
+      setOpen(false);
+    } else {
+      toast({ variant: "destructive", title: "Update Failed", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Edit Availability</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Availability</DialogTitle>
+          <DialogDescription>Enter working hours as comma-separated ranges (e.g. 08:00-12:00, 14:00-18:00). Leave a day empty when off.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="space-y-1">
+              <Label htmlFor={`hours-${day}`}>{capitalize(day)}</Label>
+              <Input
+                id={`hours-${day}`}
+                placeholder="Off"
+                value={hours[day] ?? ""}
+                onChange={e => setHours(prev => ({ ...prev, [day]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Time off</Label>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setTimeOff(prev => [...prev, { start: "", end: "", reason: "" }])}>
+              <Plus className="mr-1 h-4 w-4" />Add
+            </Button>
+          </div>
+          {timeOff.map((period, index) => (
+            <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <Input type="datetime-local" value={period.start} onChange={e => setTimeOff(prev => prev.map((p, i) => i === index ? { ...p, start: e.target.value } : p))} />
+              <Input type="datetime-local" value={period.end} onChange={e => setTimeOff(prev => prev.map((p, i) => i === index ? { ...p, end: e.target.value } : p))} />
+              <Input placeholder="Reason (optional)" value={period.reason} onChange={e => setTimeOff(prev => prev.map((p, i) => i === index ? { ...p, reason: e.target.value } : p))} />
+              <Button type="button" variant="ghost" size="icon" onClick={() => setTimeOff(prev => prev.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
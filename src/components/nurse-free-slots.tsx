@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { format, parse, parseISO } from "date-fns";
+import { AlertTriangle, CalendarClock, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { fetchNurseSchedule, type NurseDaySchedule } from "@/app/actions";
+import type { ScheduleConflict, SuggestedSlot } from "@/lib/availability";
+
+type NurseFreeSlotsProps = {
+  nurseId?: string;
+  date?: Date;
+  durationMinutes: number;
+  excludeAppointmentId?: string;
+  selectedTime?: string;
+  onSelectTime: (time: string) => void;
+};
+
+// Free start times of the selected nurse on the selected day, as clickable chips.
+export function NurseFreeSlots({ nurseId, date, durationMinutes, excludeAppointmentId, selectedTime, onSelectTime }: NurseFreeSlotsProps) {
+  const [schedule, setSchedule] = useState<NurseDaySchedule | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dayKey = date ? format(date, "yyyy-MM-dd") : null;
+
+  useEffect(() => {
+    if (!nurseId || !dayKey) {
+      setSchedule(null);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchNurseSchedule(nurseId, parse(dayKey, "yyyy-MM-dd", new Date()), durationMinutes, excludeAppointmentId).then(result => {
+      if (cancelled) return;
+      setSchedule(result.data ?? null);
+      setError(result.error ?? null);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [nurseId, dayKey, durationMinutes, excludeAppointmentId]);
+
+  if (!nurseId || !date) {
+    return <p className="text-sm text-muted-foreground">Select a nurse and a date to see free slots.</p>;
+  }
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading the nurse&apos;s schedule...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  if (!schedule) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        {schedule.workingHours.length > 0
+          ? `Working hours: ${schedule.workingHours.map(range => `${range.start}–${range.end}`).join(", ")}`
+          : "The nurse does not work on this day."}
+      </p>
+      {schedule.busy.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Busy: {schedule.busy.map(interval => `${format(parseISO(interval.start), "HH:mm")}–${format(parseISO(interval.end), "HH:mm")}`).join(", ")}
+        </p>
+      )}
+      {schedule.freeSlots.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {schedule.freeSlots.map(time => (
+            <Button
+              key={time}
+              type="button"
+              size="sm"
+              variant={time === selectedTime ? "default" : "outline"}
+              onClick={() => onSelectTime(time)}
+            >
+              {time}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No free slot of {durationMinutes} minutes on this day.</p>
+      )}
+    </div>
+  );
+}
+
+type ScheduleConflictAlertProps = {
+  conflicts: ScheduleConflict[];
+  suggestedSlots?: SuggestedSlot[]; // absent for recurring appointments
+  onSelectSlot: (slot: SuggestedSlot) => void;
+};
+
+export function ScheduleConflictAlert({ conflicts, suggestedSlots, onSelectSlot }: ScheduleConflictAlertProps) {
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>The nurse is not available at this time</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <ul className="list-disc list-inside">
+          {conflicts.map((conflict, index) => <li key={index}>{conflict.message}</li>)}
+        </ul>
+        {suggestedSlots && (suggestedSlots.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Nearest free slots:</span>
+            {suggestedSlots.map(slot => (
+              <Button key={`${slot.date}-${slot.time}`} type="button" size="sm" variant="outline" onClick={() => onSelectSlot(slot)}>
+                {format(parse(slot.date, "yyyy-MM-dd", new Date()), "EEE d MMM")} {slot.time}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p>No free slot was found in the surrounding week.</p>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Loader2, Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/auth-context";
+import { searchPatients } from "@/app/actions";
+import {
+  PATIENT_SEARCH_FIELD_LABELS, PATIENT_SEARCH_MIN_QUERY_LENGTH,
+  type PatientSearchResult,
+} from "@/lib/patient-search";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+// Global patient search in the app header, for staff. Opens with Ctrl+K / Cmd+K, or "/"
+// outside of text fields; arrow keys move through the results and Enter opens the patient.
+export function PatientSearch() {
+  const { currentUser, userRole } = useAuth();
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [queryText, setQueryText] = useState("");
+  const [results, setResults] = useState<PatientSearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const canSearch = !!currentUser && !!userRole && userRole !== "patient";
+
+  useEffect(() => {
+    if (!canSearch) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.key === "k" && (event.metaKey || event.ctrlKey)) || (event.key === "/" && !isTypingTarget(event.target))) {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [canSearch]);
+
+  useEffect(() => {
+    const trimmed = queryText.trim();
+    if (trimmed.length < PATIENT_SEARCH_MIN_QUERY_LENGTH) {
+      latestRequest.current++; // drop any search still under way
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+    const request = ++latestRequest.current;
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const result = await searchPatients(trimmed);
+      if (request !== latestRequest.current) return; // a newer search is under way
+      setResults(result.data || []);
+      setError(result.error ?? null);
+      setActiveIndex(0);
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [queryText]);
+
+  const openPatient = (patientId: string) => {
+    setOpen(false);
+    setQueryText("");
+    router.push(`/patients/${patientId}`);
+  };
+
+  const onInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % results.length);
+    } else if (event.key === "ArrowUp" && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + results.length) % results.length);
+    } else if (event.key === "Enter" && results[activeIndex]) {
+      event.preventDefault();
+      openPatient(results[activeIndex].patientId);
+    }
+  };
+
+  if (!canSearch) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="h-9 w-9 p-0 sm:w-64 sm:justify-start sm:px-3 text-muted-foreground"
+        onClick={() => setOpen(true)}
+        aria-label="Search patients"
+      >
+        <Search className="h-4 w-4 sm:mr-2" />
+        <span className="hidden sm:inline">Search patients...</span>
+        <kbd className="ml-auto hidden sm:inline-flex h-5 items-center rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-xl p-0 gap-0">
+          <DialogHeader className="p-4 pb-2">
+            <DialogTitle>Search Patients</DialogTitle>
+            <DialogDescription>Name, phone, email, condition, pathologies or care log notes. Small typos are tolerated.</DialogDescription>
+          </DialogHeader>
+          <div className="px-4 pb-2 relative">
+            <Search className="absolute left-7 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              className="pl-9"
+              placeholder="e.g. diabete, Ben Ali, 98 765..."
+              value={queryText}
+              onChange={e => setQueryText(e.target.value)}
+              onKeyDown={onInputKeyDown}
+              aria-label="Search patients"
+            />
+          </div>
+          <div className="max-h-[60vh] overflow-y-auto border-t" role="listbox">
+            {isSearching && (
+              <p className="p-4 text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Searching...</p>
+            )}
+            {!isSearching && error && <p className="p-4 text-sm text-destructive">{error}</p>}
+            {!isSearching && !error && queryText.trim().length >= PATIENT_SEARCH_MIN_QUERY_LENGTH && results.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">No patients found.</p>
+            )}
+            {!isSearching && results.map((result, index) => (
+              <button
+                key={result.patientId}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn("flex w-full items-start gap-3 px-4 py-3 text-left text-sm hover:bg-muted", index === activeIndex && "bg-muted")}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => openPatient(result.patientId)}
+              >
+                <Image src={result.avatarUrl} alt={result.name} width={32} height={32} className="rounded-full" />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">
+                    {result.name}
+                    {result.recordStatus !== "Active" && <Badge variant="outline" className="ml-2 text-xs">{result.recordStatus}</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{result.condition}</p>
+                  {result.matches.filter(match => match.field !== "name").map(match => (
+                    <p key={match.field} className="text-xs truncate">
+                      <span className="font-semibold">{PATIENT_SEARCH_FIELD_LABELS[match.field]}:</span> {match.snippet}
+                    </p>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
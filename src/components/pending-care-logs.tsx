@@ -0,0 +1,68 @@
+"use client";
+
+import React from "react";
+import { format } from "date-fns";
+import { CloudOff, Pencil, RotateCw, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useOnlineStatus, useOutboxItems } from "@/hooks/use-outbox";
+import { removeOutboxItem, retryOutboxItem, type OutboxItemOf } from "@/lib/outbox";
+import type { AddCareLogFormValues } from "@/app/actions";
+
+type PendingCareLogsProps = {
+  uid: string | null | undefined;
+  onEdit: (values: AddCareLogFormValues) => void; // loads the care log into the form
+};
+
+// Care logs saved on this device and not yet recorded (lib/outbox.ts). Those the server did not
+// accept show why, and can be sent again, corrected or discarded. Pending ones can only be
+// changed while offline, when nothing is sending them.
+export function PendingCareLogs({ uid, onEdit }: PendingCareLogsProps) {
+  const isOnline = useOnlineStatus();
+  const items = useOutboxItems(uid, "careLog").filter((item): item is OutboxItemOf<"careLog"> => item.kind === "careLog");
+
+  if (items.length === 0) return null;
+
+  const run = (action: Promise<void>) => action.catch(error => console.warn("[PendingCareLogs] Outbox not updated:", error.message));
+
+  return (
+    <div className="mb-4 rounded-lg border border-dashed p-3">
+      <h4 className="flex items-center text-sm font-semibold">
+        <CloudOff className="mr-2 h-4 w-4 text-muted-foreground" />
+        Saved on This Device ({items.length})
+      </h4>
+      <ul className="divide-y">
+        {items.map(item => {
+          const { values, patientName } = item.payload;
+          const isConflict = item.status === "conflict";
+          return (
+            <li key={item.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">{patientName} &middot; {values.careType}</p>
+                <p className="text-xs text-muted-foreground">{format(values.careDateTime, "PPp")}</p>
+                {isConflict && item.lastError && <p className="text-xs text-destructive">{item.lastError}</p>}
+              </div>
+              {isConflict ? <Badge variant="destructive">Not accepted</Badge> : <Badge variant="secondary">Pending sync</Badge>}
+              {isConflict && (
+                <Button variant="ghost" size="icon" aria-label="Send again" onClick={() => run(retryOutboxItem(item))}>
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+              )}
+              {(isConflict || !isOnline) && (
+                <>
+                  <Button variant="ghost" size="icon" aria-label="Edit" onClick={() => { onEdit(values); run(removeOutboxItem(item.id)); }}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label="Discard" className="text-destructive" onClick={() => run(removeOutboxItem(item.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
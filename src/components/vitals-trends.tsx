@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Activity, AlertCircle, Loader2, SlidersHorizontal } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { fetchVitalSigns, updateVitalThresholds } from "@/app/actions";
+import {
+  VITAL_SIGN_DEFINITIONS, DEFAULT_VITAL_SIGN_THRESHOLDS, resolveVitalSignThresholds,
+  type VitalSignKey, type VitalSignsReading, type VitalSignThresholds,
+} from "@/lib/vitals";
+
+const WINDOWS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+  { value: "all", label: "All time" },
+];
+
+// Blood pressure is drawn as one chart with two lines; every other metric gets its own chart.
+const CHARTS: Array<{ id: string; title: string; keys: VitalSignKey[] }> = [
+  { id: "bp", title: "Blood Pressure (mmHg)", keys: ["bpSystolic", "bpDiastolic"] },
+  ...VITAL_SIGN_DEFINITIONS
+    .filter(def => def.key !== "bpSystolic" && def.key !== "bpDiastolic")
+    .map(def => ({ id: def.key, title: `${def.label} (${def.unit})`, keys: [def.key] as VitalSignKey[] })),
+];
+
+const chartConfig = Object.fromEntries(
+  VITAL_SIGN_DEFINITIONS.map((def, index) => [def.key, { label: def.label, color: `hsl(var(--chart-${(index % 5) + 1}))` }])
+) satisfies ChartConfig;
+
+type VitalsTrendsProps = {
+  patientId: string;
+  thresholds?: VitalSignThresholds;
+  canEditThresholds: boolean;
+};
+
+export function VitalsTrends({ patientId, thresholds, canEditThresholds }: VitalsTrendsProps) {
+  const [windowDays, setWindowDays] = useState("30");
+  const [readings, setReadings] = useState<VitalSignsReading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const effectiveThresholds = useMemo(() => resolveVitalSignThresholds(thresholds), [thresholds]);
+
+  const loadReadings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await fetchVitalSigns(patientId, windowDays === "all" ? undefined : Number(windowDays));
+    if (result.error) {
+      setError(result.error);
+      setReadings([]);
+    } else {
+      setReadings(result.data || []);
+    }
+    setIsLoading(false);
+  }, [patientId, windowDays]);
+
+  useEffect(() => {
+    loadReadings();
+  }, [loadReadings]);
+
+  const chartData = useMemo(
+    () => readings.map(reading => ({ ...reading, time: parseISO(reading.recordedAt).getTime() })),
+    [readings]
+  );
+  const visibleCharts = CHARTS.filter(chart => chart.keys.some(key => readings.some(reading => reading[key] !== undefined)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Activity className="h-5 w-5 text-primary" />Vitals Trends</CardTitle>
+          <CardDescription>Dashed lines mark the alert thresholds for this patient.</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {canEditThresholds && <VitalThresholdsDialog patientId={patientId} thresholds={thresholds} />}
+          <Select value={windowDays} onValueChange={setWindowDays}>
+            <SelectTrigger className="w-[150px]" aria-label="Time window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOWS.map(w => <SelectItem key={w.value} value={w.value}>{w.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center justify-center p-8"><Loader2 className="mr-2 h-6 w-6 animate-spin" /> Loading vitals...</div>
+        )}
+        {!isLoading && error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {!isLoading && !error && visibleCharts.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center p-8">No vitals recorded in this period.</p>
+        )}
+        {!isLoading && !error && visibleCharts.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {visibleCharts.map(chart => (
+              <div key={chart.id}>
+                <h4 className="text-sm font-medium mb-2">{chart.title}</h4>
+                <ChartContainer config={chartConfig} className="h-[200px] w-full">
+                  <LineChart data={chartData} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      scale="time"
+                      domain={["dataMin", "dataMax"]}
+                      tickFormatter={(time: number) => format(time, "dd/MM")}
+                      tickLine={false}
+                      axisLine={false}
+                      tickMargin={8}
+                      fontSize={12}
+                    />
+                    <YAxis tickLine={false} axisLine={false} tickMargin={8} fontSize={12} domain={["auto", "auto"]} />
+                    <ChartTooltip
+                      cursor={false}
+                      content={<ChartTooltipContent indicator="line" labelFormatter={(_, payload) => payload?.[0] ? format(payload[0].payload.time, "PPp") : ""} />}
+                    />
+                    {chart.keys.map(key => (
+                      <React.Fragment key={key}>
+                        {effectiveThresholds[key]?.low !== undefined && (
+                          <ReferenceLine y={effectiveThresholds[key]!.low} stroke={`var(--color-${key})`} strokeDasharray="4 4" />
+                        )}
+                        {effectiveThresholds[key]?.high !== undefined && (
+                          <ReferenceLine y={effectiveThresholds[key]!.high} stroke={`var(--color-${key})`} strokeDasharray="4 4" />
+                        )}
+                        <Line type="monotone" dataKey={key} stroke={`var(--color-${key})`} strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 5 }} connectNulls />
+                      </React.Fragment>
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type VitalThresholdsDialogProps = {
+  patientId: string;
+  thresholds?: VitalSignThresholds;
+};
+
+// Edits the per-patient overrides. Blank inputs fall back to DEFAULT_VITAL_SIGN_THRESHOLDS.
+function VitalThresholdsDialog({ patientId, thresholds }: VitalThresholdsDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const initial: Record<string, string> = {};
+    for (const { key } of VITAL_SIGN_DEFINITIONS) {
+      initial[`${key}.low`] = thresholds?.[key]?.low?.toString() ?? "";
+      initial[`${key}.high`] = thresholds?.[key]?.high?.toString() ?? "";
+    }
+    setValues(initial);
+  }, [open, thresholds]);
+
+  const handleSave = async () => {
+    const overrides: VitalSignThresholds = {};
+    for (const { key } of VITAL_SIGN_DEFINITIONS) {
+      const low = values[`${key}.low`]?.trim();
+      const high = values[`${key}.high`]?.trim();
+      if (low || high) {
+        overrides[key] = {
+          ...(low && { low: Number(low.replace(",", ".")) }),
+          ...(high && { high: Number(high.replace(",", ".")) }),
+        };
+      }
+    }
+    setIsSaving(true);
+    const result = await updateVitalThresholds(patientId, overrides);
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Thresholds Updated", description: result.message });
+      setOpen(false);
+      router.refresh();
+    } else {
+      toast({ variant: "destructive", title: "Failed to Update Thresholds", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm"><SlidersHorizontal className="mr-2 h-4 w-4" /> Thresholds</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Alert Thresholds</DialogTitle>
+          <DialogDescription>
+            Readings outside these bounds notify the primary nurse. Leave a field blank to use the default shown.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto pr-2 space-y-2">
+          <div className="grid grid-cols-[1fr_90px_90px] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Vital sign</span><span>Low</span><span>High</span>
+          </div>
+          {VITAL_SIGN_DEFINITIONS.map(def => (
+            <div key={def.key} className="grid grid-cols-[1fr_90px_90px] gap-2 items-center">
+              <span className="text-sm">{def.label} <span className="text-muted-foreground">({def.unit})</span></span>
+              {(["low", "high"] as const).map(bound => (
+                <Input
+                  key={bound}
+                  type="number"
+                  inputMode="decimal"
+                  step={def.step}
+                  min={def.min}
+                  max={def.max}
+                  aria-label={`${def.label} ${bound} threshold`}
+                  placeholder={DEFAULT_VITAL_SIGN_THRESHOLDS[def.key]?.[bound]?.toString() ?? "—"}
+                  value={values[`${def.key}.${bound}`] ?? ""}
+                  onChange={e => setValues(prev => ({ ...prev, [`${def.key}.${bound}`]: e.target.value }))}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Thresholds
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
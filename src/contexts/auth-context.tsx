@@ -10,7 +10,7 @@ import {
   type ReactNode 
 } from "react";
 import { 
-  onAuthStateChanged, 
+  onIdTokenChanged, 
   createUserWithEmailAndPassword, 
   signInWithEmailAndPassword, 
   signOut,
@@ -18,6 +18,8 @@ import {
 } from "firebase/auth";
 import { auth, db } from '@/lib/firebase'; // Import db
 import { doc, getDoc, setDoc, serverTimestamp, Timestamp } from "firebase/firestore"; // Import Firestore functions
+import { establishSession, clearSession, sendWelcomeEmail } from "@/app/actions";
+import { UNASSIGNED_NURSE_NAME } from "@/lib/identity";
 
 // Define types for login and signup form values if not already available
 // For now, using simple email/password structure
@@ -38,7 +40,6 @@ interface AuthContextType {
   signup: (values: AuthFormValues & { // Include additional signup fields
     firstName: string;
     lastName: string;
-    role: string;
     phoneNumber: string;
     address: string;
     dateOfBirth: Date;
@@ -64,8 +65,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+    // onIdTokenChanged fires on sign-in, sign-out AND on every ID token refresh (about hourly),
+    // which keeps the server session cookie used by the server actions up to date.
+    const unsubscribe = onIdTokenChanged(auth, async (user) => {
       if (user) {
+        const sessionResult = await establishSession(await user.getIdToken());
+        if (!sessionResult.success) {
+          console.error(`[AuthContext] Could not establish server session for ${user.uid}: ${sessionResult.message}`);
+        }
         // User is signed in, now fetch their role from Firestore
         // The 'role' field is expected in the 'users' collection, document ID = user.uid
         const userDocRef = doc(db, "users", user.uid);
@@ -85,6 +92,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
       } else {
         // User is signed out
+        await clearSession();
         setCurrentUser(null);
         setUserRole(null);
       }
@@ -96,7 +104,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signup = async (values: AuthFormValues & { 
     firstName: string; 
     lastName: string; 
-    role: string;
     phoneNumber: string;
     address: string;
     dateOfBirth: Date;
@@ -113,55 +120,60 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           email: values.email,
           firstName: values.firstName,
           lastName: values.lastName,
-          role: values.role, // This is the role selected during signup
+          // Self-registration only creates patient accounts; staff accounts come from an admin (addNurse)
+          // and the security rules reject any other role here.
+          role: 'patient',
           phoneNumber: values.phoneNumber,
           address: values.address,
           dateOfBirth: Timestamp.fromDate(values.dateOfBirth), // Store as Firestore Timestamp
           gender: values.gender,
           createdAt: serverTimestamp(),
         });
-        setCurrentUser({ ...fbUser, appRole: values.role } as AppUser);
-        setUserRole(values.role);
-
-        // If the user signed up as a patient, create a corresponding record in the "patients" collection
-        if (values.role === 'patient') {
-          const patientDocRef = doc(db, "patients", fbUser.uid); // Use UID as patient doc ID for easy linking
-          
-          // Calculate age
-          const today = new Date();
-          const birthDate = values.dateOfBirth;
-          let age = today.getFullYear() - birthDate.getFullYear();
-          const m = today.getMonth() - birthDate.getMonth();
-          if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
-              age--;
-          }
-
-          const patientData = {
-            name: `${values.firstName} ${values.lastName}`,
-            age: age,
-            avatarUrl: `https://placehold.co/100x100.png?text=${values.firstName[0] || 'P'}${values.lastName[0] || ''}`,
-            hint: "person face",
-            joinDate: Timestamp.now(), // Or Timestamp.fromDate(new Date())
-            primaryNurse: "Not Assigned",
-            phone: values.phoneNumber,
-            email: values.email,
-            address: values.address,
-            mobilityStatus: "Unknown",
-            pathologies: [],
-            allergies: [],
-            lastVisit: Timestamp.now(), // Or Timestamp.fromDate(new Date())
-            condition: "General Checkup", 
-            status: "Active", 
-            createdAt: serverTimestamp(),
-            // Ensure all fields expected by PatientListItem are present, even if with default values
-            // For fields not collected at signup (e.g. currentMedications, recentVitals), they can be omitted
-            // or added later through a profile editing feature.
-          };
-          await setDoc(patientDocRef, patientData);
-          console.log(`[AuthContext] Created patient record for ${fbUser.uid} in 'patients' collection.`);
+        setCurrentUser({ ...fbUser, appRole: 'patient' } as AppUser);
+        setUserRole('patient');
+
+        // Create the patient's record in the "patients" collection
+        const patientDocRef = doc(db, "patients", fbUser.uid); // Use UID as patient doc ID for easy linking
+        
+        // Calculate age
+        const today = new Date();
+        const birthDate = values.dateOfBirth;
+        let age = today.getFullYear() - birthDate.getFullYear();
+        const m = today.getMonth() - birthDate.getMonth();
+        if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
+            age--;
         }
 
+        const patientData = {
+          name: `${values.firstName} ${values.lastName}`,
+          age: age,
+          avatarUrl: `https://placehold.co/100x100.png?text=${values.firstName[0] || 'P'}${values.lastName[0] || ''}`,
+          hint: "person face",
+          joinDate: Timestamp.now(), // Or Timestamp.fromDate(new Date())
+          primaryNurse: UNASSIGNED_NURSE_NAME,
+          userId: fbUser.uid, // profile and account share the uid, see lib/identity.ts
+          phone: values.phoneNumber,
+          email: values.email,
+          address: values.address,
+          mobilityStatus: "Unknown",
+          pathologies: [],
+          allergies: [],
+          lastVisit: Timestamp.now(), // Or Timestamp.fromDate(new Date())
+          condition: "General Checkup", 
+          status: "Active", 
+          createdAt: serverTimestamp(),
+          // Ensure all fields expected by PatientListItem are present, even if with default values
+          // For fields not collected at signup (e.g. currentMedications, recentVitals), they can be omitted
+          // or added later through a profile editing feature.
+        };
+        await setDoc(patientDocRef, patientData);
+        console.log(`[AuthContext] Created patient record for ${fbUser.uid} in 'patients' collection.`);
+
         await sendEmailVerification(fbUser);
+        // Best effort: a missing welcome email must not fail the signup.
+        sendWelcomeEmail(await fbUser.getIdToken(), navigator.language).catch(err => {
+          console.error("[AuthContext] Failed to send the welcome email:", err);
+        });
       }
       return { user: fbUser };
     } catch (error) {
@@ -0,0 +1,105 @@
+"use client"
+
+import * as React from "react"
+import {
+  collection, doc, documentId, onSnapshot, query, serverTimestamp, setDoc, updateDoc, where,
+} from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import {
+  PRESENCE_COLLECTION, PRESENCE_HEARTBEAT_MS, chatSummaryFromData, isPresenceOnline, needsDeliveryReceipt, presenceFromData,
+  type ChatSummary, type Presence,
+} from "@/lib/chat-status"
+
+const FIRESTORE_IN_LIMIT = 30
+
+// Keeps presence/{uid} up to date while the app is open (see lib/chat-status.ts).
+export function usePresenceHeartbeat(uid: string | null | undefined) {
+  React.useEffect(() => {
+    if (!db || !uid) return
+    const presenceRef = doc(db, PRESENCE_COLLECTION, uid)
+    const write = (state: "online" | "offline") => {
+      setDoc(presenceRef, { state, lastSeenAt: serverTimestamp() }).catch(error =>
+        console.warn("[usePresenceHeartbeat] Presence update failed:", error.code, error.message))
+    }
+    const beat = () => write(document.visibilityState === "visible" ? "online" : "offline")
+    beat()
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") write("online")
+    }, PRESENCE_HEARTBEAT_MS)
+    const goOffline = () => write("offline")
+    document.addEventListener("visibilitychange", beat)
+    window.addEventListener("pagehide", goOffline)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener("visibilitychange", beat)
+      window.removeEventListener("pagehide", goOffline)
+      goOffline()
+    }
+  }, [uid])
+}
+
+// Live presence of the given users. `isOnline` is re-evaluated periodically so that a missed
+// heartbeat turns a user offline without any new snapshot.
+export function usePresence(uids: string[]) {
+  const [presences, setPresences] = React.useState<Record<string, Presence>>({})
+  const [now, setNow] = React.useState(() => Date.now())
+  const key = [...new Set(uids)].sort().join(",")
+
+  React.useEffect(() => {
+    const firestore = db
+    if (!firestore || !key) return
+    const ids = key.split(",")
+    const unsubscribes: Array<() => void> = []
+    for (let start = 0; start < ids.length; start += FIRESTORE_IN_LIMIT) {
+      const chunk = ids.slice(start, start + FIRESTORE_IN_LIMIT)
+      const presenceQuery = query(collection(firestore, PRESENCE_COLLECTION), where(documentId(), "in", chunk))
+      unsubscribes.push(onSnapshot(presenceQuery, snapshot => {
+        setPresences(previous => {
+          const next = { ...previous }
+          chunk.forEach(id => delete next[id])
+          snapshot.forEach(presenceDoc => { next[presenceDoc.id] = presenceFromData(presenceDoc.data()) })
+          return next
+        })
+      }, error => console.warn("[usePresence] Presence listener failed:", error.code, error.message)))
+    }
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe())
+  }, [key])
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT_MS / 2)
+    return () => clearInterval(interval)
+  }, [])
+
+  const isOnline = React.useCallback((uid: string) => isPresenceOnline(presences[uid], now), [presences, now])
+  return { presences, isOnline }
+}
+
+// The signed-in user's conversations with their unread counts. Also acknowledges delivery:
+// new messages reach the user's app wherever it is open, not only on the chat page.
+export function useChatInbox(uid: string | null | undefined) {
+  const [chats, setChats] = React.useState<Record<string, ChatSummary>>({})
+  const acknowledged = React.useRef(new Set<string>()) // chatId@lastMessageTime already written
+
+  React.useEffect(() => {
+    setChats({})
+    if (!db || !uid) return
+    const chatsQuery = query(collection(db, "chats"), where("participants", "array-contains", uid))
+    return onSnapshot(chatsQuery, snapshot => {
+      const next: Record<string, ChatSummary> = {}
+      snapshot.forEach(chatDoc => {
+        const summary = chatSummaryFromData(chatDoc.id, chatDoc.data(), uid)
+        next[chatDoc.id] = summary
+        const receiptKey = `${chatDoc.id}@${summary.lastMessage?.at?.getTime()}`
+        if (needsDeliveryReceipt(summary, uid) && !acknowledged.current.has(receiptKey)) {
+          acknowledged.current.add(receiptKey)
+          updateDoc(chatDoc.ref, { [`deliveredTo.${uid}`]: serverTimestamp() }).catch(error =>
+            console.warn("[useChatInbox] Delivery receipt failed:", error.code, error.message))
+        }
+      })
+      setChats(next)
+    }, error => console.warn("[useChatInbox] Conversation listener failed:", error.code, error.message))
+  }, [uid])
+
+  const totalUnread = Object.values(chats).reduce((total, chat) => total + chat.unreadCount, 0)
+  return { chats, totalUnread }
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import * as React from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+const CURSOR_PARAM = "after"
+
+// Filters, sort and page cursor of a list page, kept in the URL query string so that
+// filtered views can be bookmarked (see lib/list-query.ts). Changing a filter goes back to
+// the first page. Pages visited since then are remembered so "Previous" can step back; a
+// bookmarked page without that history goes back to the first page.
+export function useListParams<K extends string>(keys: readonly K[]) {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const [previousCursors, setPreviousCursors] = React.useState<Array<string | null>>([])
+
+  const cursor = searchParams.get(CURSOR_PARAM)
+  const params = Object.fromEntries(keys.map(key => [key, searchParams.get(key) ?? ""])) as Record<K, string>
+
+  const navigate = React.useCallback((next: URLSearchParams) => {
+    const queryString = next.toString()
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
+  }, [router, pathname])
+
+  const setParams = React.useCallback((changes: Partial<Record<K, string>>) => {
+    const next = new URLSearchParams(searchParams.toString())
+    for (const [key, value] of Object.entries(changes) as Array<[K, string | undefined]>) {
+      if (value) next.set(key, value)
+      else next.delete(key)
+    }
+    next.delete(CURSOR_PARAM)
+    setPreviousCursors([])
+    navigate(next)
+  }, [searchParams, navigate])
+
+  const goToCursor = React.useCallback((target: string | null) => {
+    const next = new URLSearchParams(searchParams.toString())
+    if (target) next.set(CURSOR_PARAM, target)
+    else next.delete(CURSOR_PARAM)
+    navigate(next)
+  }, [searchParams, navigate])
+
+  const nextPage = React.useCallback((nextCursor: string) => {
+    setPreviousCursors(stack => [...stack, cursor])
+    goToCursor(nextCursor)
+  }, [cursor, goToCursor])
+
+  const previousPage = React.useCallback(() => {
+    setPreviousCursors(stack => stack.slice(0, -1))
+    goToCursor(previousCursors.length > 0 ? previousCursors[previousCursors.length - 1] : null)
+  }, [previousCursors, goToCursor])
+
+  return {
+    params,
+    cursor,
+    queryKey: searchParams.toString(), // changes whenever a filter, the sort or the page changes
+    setParams,
+    nextPage,
+    previousPage,
+    hasPreviousPage: cursor !== null,
+    pageNumber: cursor === null ? 1 : previousCursors.length > 0 ? previousCursors.length + 1 : null, // unknown on a bookmarked page
+  }
+}
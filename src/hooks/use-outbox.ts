@@ -0,0 +1,111 @@
+"use client"
+
+import * as React from "react"
+import { doc, getDocFromServer } from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import { addCareLog, notifyChatMessage } from "@/app/actions"
+import {
+  OUTBOX_RETRY_BASE_MS, isOutboxAvailable, listOutboxItems, subscribeOutbox, syncOutboxItems,
+  type OutboxItem, type OutboxKind, type OutboxSendOutcome,
+} from "@/lib/outbox"
+
+const OUTBOX_LOCK = "sanhome-outbox-sync"
+
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = React.useState(true)
+  React.useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+    window.addEventListener("online", update)
+    window.addEventListener("offline", update)
+    return () => {
+      window.removeEventListener("online", update)
+      window.removeEventListener("offline", update)
+    }
+  }, [])
+  return isOnline
+}
+
+// The outbox items of the signed-in user (lib/outbox.ts), live.
+export function useOutboxItems(uid: string | null | undefined, kind?: OutboxKind): OutboxItem[] {
+  const [items, setItems] = React.useState<OutboxItem[]>([])
+  React.useEffect(() => {
+    setItems([])
+    if (!uid || !isOutboxAvailable()) return
+    let cancelled = false
+    const load = () => listOutboxItems(uid)
+      .then(all => { if (!cancelled) setItems(kind ? all.filter(item => item.kind === kind) : all) })
+      .catch(error => console.warn("[useOutboxItems] Outbox not readable:", error.message))
+    load()
+    const unsubscribe = subscribeOutbox(load)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [uid, kind])
+  return items
+}
+
+// Throws when the request could not be made; returns the server's answer otherwise.
+async function sendOutboxItem(item: OutboxItem): Promise<OutboxSendOutcome> {
+  switch (item.kind) {
+    case "careLog": {
+      const { values, loggedByName } = item.payload
+      const result = await addCareLog(values, loggedByName, { clientId: item.id, queuedAt: item.createdAt })
+      return result.success ? { ok: true } : { ok: false, rejection: result.message }
+    }
+    case "chatNotification": {
+      // The message may still be waiting in Firestore's own queue.
+      const { chatId, messageId } = item.payload
+      if (!db) throw new Error("Firestore is not available.")
+      const messageDoc = await getDocFromServer(doc(db, "chats", chatId, "messages", messageId))
+      if (!messageDoc.exists()) throw new Error("The message has not reached the server yet.")
+      const result = await notifyChatMessage(chatId, messageId)
+      return result.success ? { ok: true } : { ok: false, rejection: result.message }
+    }
+  }
+}
+
+let passRunning = false
+
+// One pass at a time, across tabs where the browser supports locks; a busy outbox is looked
+// at again shortly.
+async function exclusiveSyncOutbox(uid: string): Promise<number | null> {
+  const busy = Date.now() + OUTBOX_RETRY_BASE_MS
+  if (passRunning) return busy
+  passRunning = true
+  try {
+    return navigator.locks
+      ? await navigator.locks.request(OUTBOX_LOCK, { ifAvailable: true }, lock => (lock ? syncOutboxItems(uid, sendOutboxItem) : busy))
+      : await syncOutboxItems(uid, sendOutboxItem)
+  } finally {
+    passRunning = false
+  }
+}
+
+// Sends the outbox of the signed-in user while the app is open (mounted once, in the sidebar).
+export function useOutboxSync(uid: string | null | undefined) {
+  const isOnline = useOnlineStatus()
+  const [changes, setChanges] = React.useState(0)
+
+  React.useEffect(() => subscribeOutbox(() => setChanges(count => count + 1)), [])
+
+  React.useEffect(() => {
+    if (!uid || !isOnline || !isOutboxAvailable()) return
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const run = async () => {
+      try {
+        const nextDueAt = await exclusiveSyncOutbox(uid)
+        if (!cancelled && nextDueAt !== null) timer = setTimeout(run, Math.max(nextDueAt - Date.now(), 1_000))
+      } catch (error: any) {
+        console.warn("[useOutboxSync] Outbox sync failed:", error.message)
+      }
+    }
+    run()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [uid, isOnline, changes])
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import * as React from "react"
+import { CHAT_ATTACHMENT_TYPES, VOICE_NOTE_MAX_SECONDS } from "@/lib/chat-attachments"
+
+export type RecordedVoiceNote = {
+  file: File
+  durationSeconds: number
+}
+
+// The first voice note format this browser can record (see lib/chat-attachments.ts).
+function supportedMimeType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined
+  return CHAT_ATTACHMENT_TYPES.voice.find(type => MediaRecorder.isTypeSupported(type))
+}
+
+// Records a voice note from the microphone. Recording stops by itself after
+// VOICE_NOTE_MAX_SECONDS; `onRecorded` receives the note unless it was cancelled.
+export function useVoiceRecorder(onRecorded: (note: RecordedVoiceNote) => void) {
+  const [isRecording, setIsRecording] = React.useState(false)
+  const [elapsedSeconds, setElapsedSeconds] = React.useState(0)
+  const [error, setError] = React.useState<string | null>(null)
+  const recorderRef = React.useRef<MediaRecorder | null>(null)
+  const cancelledRef = React.useRef(false)
+  const onRecordedRef = React.useRef(onRecorded)
+  onRecordedRef.current = onRecorded
+
+  const [isSupported, setIsSupported] = React.useState(false)
+
+  // Known only in the browser, after hydration.
+  React.useEffect(() => {
+    setIsSupported(!!navigator.mediaDevices?.getUserMedia && !!supportedMimeType())
+  }, [])
+
+  const stop = React.useCallback(() => {
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+  }, [])
+
+  const cancel = React.useCallback(() => {
+    cancelledRef.current = true
+    stop()
+  }, [stop])
+
+  const start = React.useCallback(async () => {
+    const mimeType = supportedMimeType()
+    if (!mimeType || !navigator.mediaDevices?.getUserMedia) {
+      setError("Voice notes are not supported by this browser.")
+      return
+    }
+    setError(null)
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch (e: any) {
+      console.error("[useVoiceRecorder] Microphone access failed:", e)
+      setError("Microphone access was denied. Allow it in your browser settings to record voice notes.")
+      return
+    }
+    const recorder = new MediaRecorder(stream, { mimeType })
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+    cancelledRef.current = false
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop())
+      recorderRef.current = null
+      setIsRecording(false)
+      if (cancelledRef.current || chunks.length === 0) return
+      const type = recorder.mimeType || mimeType
+      const durationSeconds = Math.min((Date.now() - startedAt) / 1000, VOICE_NOTE_MAX_SECONDS)
+      onRecordedRef.current({ file: new File(chunks, "voice-note", { type }), durationSeconds })
+    }
+    recorderRef.current = recorder
+    recorder.start()
+    setElapsedSeconds(0)
+    setIsRecording(true)
+  }, [])
+
+  // Elapsed time display and the automatic stop at the maximum duration.
+  React.useEffect(() => {
+    if (!isRecording) return
+    const startedAt = Date.now()
+    const interval = setInterval(() => {
+      const elapsed = (Date.now() - startedAt) / 1000
+      setElapsedSeconds(elapsed)
+      if (elapsed >= VOICE_NOTE_MAX_SECONDS) stop()
+    }, 250)
+    return () => clearInterval(interval)
+  }, [isRecording, stop])
+
+  // Release the microphone if the component goes away mid-recording.
+  React.useEffect(() => () => {
+    cancelledRef.current = true
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+  }, [])
+
+  return { isSupported, isRecording, elapsedSeconds, error, start, stop, cancel }
+}
@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Fail at startup rather than on every server action (see lib/firebase-admin.ts).
+    const { assertServerCredentials } = await import("@/lib/firebase-admin");
+    assertServerCredentials();
+  }
+}
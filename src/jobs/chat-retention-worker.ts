@@ -0,0 +1,58 @@
+// Background worker applying the chat retention policy (see lib/chat-retention.ts).
+//
+//   npm run chat-retention          # sweeps every CHAT_RETENTION_INTERVAL_HOURS (default 24)
+//   npm run chat-retention -- --once
+//
+// The policy itself (on or off, archive or purge, retention period) is set by admins on the
+// chat retention page and read at every sweep.
+import 'dotenv/config';
+
+import { runChatRetentionSweep } from '@/lib/chat-retention';
+import { assertServerCredentials } from '@/lib/firebase-admin';
+
+const intervalHours = Math.max(1, Number(process.env.CHAT_RETENTION_INTERVAL_HOURS) || 24);
+const runOnce = process.argv.includes('--once');
+
+async function sweep(): Promise<boolean> {
+  const startedAt = new Date();
+  try {
+    const result = await runChatRetentionSweep(startedAt);
+    if (!result.enabled) {
+      console.log(`[CHAT_RETENTION_LOG] Sweep at ${startedAt.toISOString()}: retention policy disabled, nothing to do.`);
+    } else {
+      console.log(`[CHAT_RETENTION_LOG] Sweep at ${startedAt.toISOString()}: ${result.archived} message(s) archived, ${result.purged} purged in ${result.chats} conversation(s).`);
+    }
+    return true;
+  } catch (error: any) {
+    console.error('[CHAT_RETENTION_ERROR] Sweep failed:', error.message, error);
+    return false;
+  }
+}
+
+async function main() {
+  assertServerCredentials();
+  console.log(`[CHAT_RETENTION_LOG] Chat retention worker started${runOnce ? ' (single sweep)' : `, every ${intervalHours} hour(s)`}.`);
+  if (runOnce) {
+    process.exit((await sweep()) ? 0 : 1);
+  }
+
+  let running = false;
+  const tick = async () => {
+    // A slow sweep is never overlapped by the next one.
+    if (running) return;
+    running = true;
+    await sweep();
+    running = false;
+  };
+  await tick();
+  const timer = setInterval(tick, intervalHours * 60 * 60_000);
+  const stop = () => {
+    console.log('[CHAT_RETENTION_LOG] Chat retention worker stopping.');
+    clearInterval(timer);
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main();
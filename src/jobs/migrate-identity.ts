@@ -0,0 +1,34 @@
+// One-off migration to the identity model of lib/identity.ts (see lib/identity-migration.ts).
+//
+//   npm run migrate:identity             # dry run: prints what would change
+//   npm run migrate:identity -- --apply  # writes the changes
+//
+// Safe to run more than once.
+import 'dotenv/config';
+
+import { runIdentityMigration } from '@/lib/identity-migration';
+
+const apply = process.argv.includes('--apply');
+
+async function main() {
+  console.log(`[MIGRATION_LOG] Identity migration started${apply ? '' : ' (dry run, pass --apply to write)'}.`);
+  try {
+    const report = await runIdentityMigration({ apply });
+    console.log(`[MIGRATION_LOG] Nurse profiles linked to their account: ${report.nursesLinked}.`);
+    console.log(`[MIGRATION_LOG] Nurse profiles re-keyed to their account uid: ${report.nursesRekeyed.length}.`);
+    report.nursesRekeyed.forEach(({ from, to }) => console.log(`[MIGRATION_LOG]   nurses/${from} -> nurses/${to}`));
+    console.log(`[MIGRATION_LOG] Nurse profiles created for nurse accounts: ${report.nurseProfilesCreated}.`);
+    console.log(`[MIGRATION_LOG] Patient profiles linked to their account: ${report.patientsLinked}.`);
+    console.log(`[MIGRATION_LOG] Primary nurse names converted to IDs: ${report.primaryNursesResolved}.`);
+    console.log(`[MIGRATION_LOG] Primary nurse care assignments created: ${report.careAssignmentsCreated}.`);
+    console.log(`[MIGRATION_LOG] Appointment / series / consult / care assignment references rewritten: ${report.referencesRewritten}.`);
+    report.warnings.forEach(warning => console.warn(`[MIGRATION_WARN] ${warning}`));
+    console.log(`[MIGRATION_LOG] ${report.applied ? 'Changes written.' : 'Dry run finished; nothing was written.'}`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error('[MIGRATION_ERROR] Identity migration failed:', error.message, error);
+    process.exit(1);
+  }
+}
+
+main();
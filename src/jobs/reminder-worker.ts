@@ -0,0 +1,55 @@
+// Background worker sending appointment and video consult reminders (see lib/reminders.ts).
+//
+//   npm run reminders          # sweeps every REMINDER_INTERVAL_MINUTES (default 5)
+//   npm run reminders -- --once
+//
+// Offsets are read from REMINDER_OFFSETS (default "24h,1h"). Running several workers, or
+// restarting one, is safe: each reminder is claimed before it is delivered.
+import 'dotenv/config';
+
+import { parseReminderOffsets, runReminderSweep } from '@/lib/reminders';
+import { assertServerCredentials } from '@/lib/firebase-admin';
+
+const offsets = parseReminderOffsets(process.env.REMINDER_OFFSETS);
+const intervalMinutes = Math.max(1, Number(process.env.REMINDER_INTERVAL_MINUTES) || 5);
+const runOnce = process.argv.includes('--once');
+
+async function sweep(): Promise<boolean> {
+  const startedAt = new Date();
+  try {
+    const result = await runReminderSweep(offsets, startedAt);
+    console.log(`[REMINDER_LOG] Sweep at ${startedAt.toISOString()}: ${result.scanned} upcoming event(s), ${result.delivered} reminder(s) delivered, ${result.skipped} already sent, ${result.failed} failed.`);
+    return result.failed === 0;
+  } catch (error: any) {
+    console.error('[REMINDER_ERROR] Sweep failed:', error.message, error);
+    return false;
+  }
+}
+
+async function main() {
+  assertServerCredentials();
+  console.log(`[REMINDER_LOG] Reminder worker started. Offsets: ${offsets.map(minutes => `${minutes}m`).join(', ')}${runOnce ? ' (single sweep)' : `, every ${intervalMinutes} minute(s)`}.`);
+  if (runOnce) {
+    process.exit((await sweep()) ? 0 : 1);
+  }
+
+  let running = false;
+  const tick = async () => {
+    // A slow sweep is never overlapped by the next one.
+    if (running) return;
+    running = true;
+    await sweep();
+    running = false;
+  };
+  await tick();
+  const timer = setInterval(tick, intervalMinutes * 60_000);
+  const stop = () => {
+    console.log('[REMINDER_LOG] Reminder worker stopping.');
+    clearInterval(timer);
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main();
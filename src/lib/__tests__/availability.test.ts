@@ -0,0 +1,92 @@
+import {
+  DEFAULT_WORKING_HOURS, NurseAvailabilitySchema, deriveNurseStatus, findScheduleConflicts, listFreeSlots, resolveNurseAvailability,
+  suggestNearestSlots, type BusyInterval, type NurseAvailability,
+} from '@/lib/availability';
+
+// Dates are local, like appointment times. 5 January 2026 is a Monday.
+const monday = (hours: number, minutes = 0) => new Date(2026, 0, 5, hours, minutes);
+const sunday = new Date(2026, 0, 4);
+
+const availability: NurseAvailability = {
+  workingHours: { ...DEFAULT_WORKING_HOURS, monday: [{ start: '08:00', end: '12:00' }, { start: '14:00', end: '16:00' }] },
+  timeOff: [],
+};
+
+const busy = (id: string, start: Date, end: Date, source: BusyInterval['source'] = 'appointment'): BusyInterval => ({
+  id, source, start: start.toISOString(), end: end.toISOString(), label: `${source} ${id}`,
+});
+
+describe('findScheduleConflicts', () => {
+  it('accepts a slot within working hours', () => {
+    expect(findScheduleConflicts(availability, [], monday(9), 30)).toEqual([]);
+    expect(findScheduleConflicts(availability, [], monday(11, 30), 30)).toEqual([]);
+  });
+
+  it('rejects a slot that runs past or falls between working hours', () => {
+    expect(findScheduleConflicts(availability, [], monday(11, 45), 30).map(c => c.type)).toEqual(['outside-working-hours']);
+    expect(findScheduleConflicts(availability, [], monday(13), 30).map(c => c.type)).toEqual(['outside-working-hours']);
+    expect(findScheduleConflicts(availability, [], new Date(2026, 0, 4, 9), 30).map(c => c.type)).toEqual(['outside-working-hours']);
+  });
+
+  it('reports time off and overlapping appointments and consults', () => {
+    const withTimeOff = { ...availability, timeOff: [{ start: monday(9).toISOString(), end: monday(10).toISOString(), reason: 'Training' }] };
+    const conflicts = findScheduleConflicts(withTimeOff, [
+      busy('a', monday(9, 15), monday(9, 45)),
+      busy('v', monday(9, 30), monday(10), 'videoConsult'),
+    ], monday(9), 45);
+    expect(conflicts).toEqual([
+      { type: 'time-off', message: 'The nurse is on time off (Training).' },
+      { type: 'appointment', message: 'Overlaps with appointment a.' },
+      { type: 'videoConsult', message: 'Overlaps with videoConsult v.' },
+    ]);
+  });
+
+  it('does not treat back-to-back intervals as overlapping', () => {
+    expect(findScheduleConflicts(availability, [busy('a', monday(8, 30), monday(9))], monday(9), 30)).toEqual([]);
+  });
+});
+
+describe('listFreeSlots', () => {
+  it('lists the starts on the slot grid that fit around busy intervals', () => {
+    const slots = listFreeSlots(availability, [busy('a', monday(8, 30), monday(11, 30))], monday(0), 30);
+    expect(slots).toEqual(['08:00', '11:30', '14:00', '14:15', '14:30', '14:45', '15:00', '15:15', '15:30']);
+  });
+
+  it('skips slots before notBefore and days without working hours', () => {
+    expect(listFreeSlots(availability, [], monday(0), 60, monday(14, 50))).toEqual(['15:00']);
+    expect(listFreeSlots(availability, [], sunday, 30)).toEqual([]);
+  });
+});
+
+describe('suggestNearestSlots', () => {
+  it('offers the free slots closest to the requested time, in order', () => {
+    const slots = suggestNearestSlots(availability, [busy('a', monday(9), monday(10))], monday(9, 20), 30, { count: 3, now: sunday });
+    expect(slots).toEqual([
+      { date: '2026-01-05', time: '08:30' },
+      { date: '2026-01-05', time: '10:00' },
+      { date: '2026-01-05', time: '10:15' },
+    ]);
+  });
+});
+
+describe('nurse availability', () => {
+  it('fills missing weekdays with the defaults', () => {
+    const resolved = resolveNurseAvailability({ workingHours: { monday: [] } });
+    expect(resolved.workingHours.monday).toEqual([]);
+    expect(resolved.workingHours.tuesday).toEqual(DEFAULT_WORKING_HOURS.tuesday);
+    expect(resolved.timeOff).toEqual([]);
+  });
+
+  it('shows a nurse on time off as unavailable', () => {
+    const onLeave = { ...availability, timeOff: [{ start: monday(0).toISOString(), end: monday(23).toISOString() }] };
+    expect(deriveNurseStatus('On Duty', onLeave, monday(9))).toBe('Unavailable');
+    expect(deriveNurseStatus('On Duty', availability, monday(9))).toBe('On Duty');
+    expect(deriveNurseStatus('Unknown', availability, monday(9))).toBe('Available');
+  });
+
+  it('rejects working hours that end before they start', () => {
+    const workingHours = { ...DEFAULT_WORKING_HOURS, monday: [{ start: '12:00', end: '08:00' }] };
+    expect(NurseAvailabilitySchema.safeParse({ workingHours, timeOff: [] }).success).toBe(false);
+    expect(NurseAvailabilitySchema.safeParse({ workingHours: DEFAULT_WORKING_HOURS, timeOff: [] }).success).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { checkDrugAllergies, checkDrugInteractions, checkPrescriptionConflicts, getDrugClasses, normalizeDrugName } from '@/lib/drug-interactions';
+
+describe('getDrugClasses', () => {
+  it('matches generic and brand names regardless of case, accents and dosage', () => {
+    expect(normalizeDrugName('  Ibuprofène 400mg ')).toBe('ibuprofene 400mg');
+    expect(getDrugClasses('Amoxicilline 1g')).toEqual(['penicillins']);
+    expect(getDrugClasses('KARDEGIC 75')).toEqual(['aspirin']);
+  });
+
+  it('matches whole words only', () => {
+    expect(getDrugClasses('Lithiumcarbonate')).toEqual([]);
+  });
+});
+
+describe('checkDrugAllergies', () => {
+  it('reports a drug of the class the patient is allergic to as major', () => {
+    const [conflict] = checkDrugAllergies('Augmentin', ['Pénicilline']);
+    expect(conflict).toMatchObject({ type: 'allergy', severity: 'major', conflictsWith: 'Pénicilline' });
+  });
+
+  it('reports a cross-reactive class as moderate', () => {
+    const [conflict] = checkDrugAllergies('Ceftriaxone', ['penicillin']);
+    expect(conflict).toMatchObject({ type: 'allergy', severity: 'moderate', conflictsWith: 'penicillin' });
+  });
+
+  it('ignores unrelated and blank allergies', () => {
+    expect(checkDrugAllergies('Paracetamol', ['pollen', ' ', 'penicillin'])).toEqual([]);
+  });
+});
+
+describe('checkDrugInteractions', () => {
+  it('reports a known interaction whichever drug is prescribed first', () => {
+    expect(checkDrugInteractions('Warfarine', ['Aspirine 100mg'])).toEqual([
+      { type: 'interaction', severity: 'major', conflictsWith: 'Aspirine 100mg', message: 'Warfarine + Aspirine 100mg: increased bleeding risk.' },
+    ]);
+    expect(checkDrugInteractions('Aspirine 100mg', ['Warfarine'])[0]).toMatchObject({ severity: 'major', conflictsWith: 'Warfarine' });
+  });
+
+  it('reports a duplicated therapeutic class as moderate', () => {
+    expect(checkDrugInteractions('Sertraline', ['Fluoxetine'])[0]).toMatchObject({
+      severity: 'moderate',
+      message: 'Sertraline duplicates the therapeutic class of Fluoxetine.',
+    });
+  });
+
+  it('ignores drugs that are not in the table', () => {
+    expect(checkDrugInteractions('Unknownazole', ['Unknownazole'])).toEqual([]);
+    expect(checkDrugInteractions('Paracetamol', ['Warfarine'])).toEqual([]);
+  });
+});
+
+describe('checkPrescriptionConflicts', () => {
+  it('lists allergies before interactions', () => {
+    const conflicts = checkPrescriptionConflicts('Ibuprofene', ['aspirin'], ['Warfarine']);
+    expect(conflicts.map(c => c.type)).toEqual(['allergy', 'interaction']);
+  });
+});
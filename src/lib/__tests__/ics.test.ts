@@ -0,0 +1,57 @@
+import { buildIcsCalendar, icsUid, type IcsEvent } from '@/lib/ics';
+
+const now = new Date(Date.UTC(2026, 0, 1, 12, 0, 0));
+const event: IcsEvent = {
+  uid: icsUid('appointment', 'abc'),
+  start: new Date(Date.UTC(2026, 0, 5, 8, 30)),
+  end: new Date(Date.UTC(2026, 0, 5, 9, 0)),
+  summary: 'Wound care',
+  status: 'CONFIRMED',
+};
+
+// Content lines without the folding.
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildIcsCalendar', () => {
+  it('writes a published calendar with CRLF line endings', () => {
+    const ics = buildIcsCalendar([event], { name: 'My visits', refreshIntervalMinutes: 60 }, now);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:My visits',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT60M',
+      'UID:appointment-abc@sanhome',
+      'DTSTAMP:20260101T120000Z',
+      'DTSTART:20260105T083000Z',
+      'DTEND:20260105T090000Z',
+      'STATUS:CONFIRMED',
+      'SEQUENCE:0',
+    ]));
+  });
+
+  it('escapes backslashes, semicolons, commas and newlines in text', () => {
+    const lines = unfold(buildIcsCalendar([{
+      ...event,
+      summary: 'Dressing; left leg, ankle',
+      description: 'Line 1\nLine 2\r\nC:\\notes',
+      organizer: { name: 'Doe, Jane', email: 'jane@example.com' },
+    }], {}, now));
+    expect(lines).toContain('SUMMARY:Dressing\\; left leg\\, ankle');
+    expect(lines).toContain('DESCRIPTION:Line 1\\nLine 2\\nC:\\\\notes');
+    expect(lines).toContain('ORGANIZER;CN=Doe\\, Jane:mailto:jane@example.com');
+  });
+
+  it('cancels an event under the same UID with a higher sequence', () => {
+    const lines = unfold(buildIcsCalendar([{ ...event, status: 'CANCELLED', sequence: 3 }], { method: 'CANCEL' }, now));
+    expect(lines).toEqual(expect.arrayContaining(['METHOD:CANCEL', 'UID:appointment-abc@sanhome', 'STATUS:CANCELLED', 'SEQUENCE:3']));
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const summary = 'Soins à domicile — '.repeat(6);
+    const ics = buildIcsCalendar([{ ...event, summary }], {}, now);
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  APPOINTMENT_STATUSES, AppointmentListQuerySchema, MAX_PAGE_SIZE, PatientListQuerySchema, dateRangeFromParams, enumFromParam, matchesListSearch,
+} from '@/lib/list-query';
+
+describe('dateRangeFromParams', () => {
+  it('turns the dates into the start and end of those local days', () => {
+    expect(dateRangeFromParams('2026-01-05', '2026-01-09')).toEqual({
+      from: new Date(2026, 0, 5, 0, 0, 0, 0),
+      to: new Date(2026, 0, 9, 23, 59, 59, 999),
+    });
+  });
+
+  it('drops blank and invalid dates', () => {
+    expect(dateRangeFromParams('', 'not-a-date')).toEqual({ from: undefined, to: undefined });
+  });
+});
+
+describe('enumFromParam', () => {
+  it('keeps known values and drops the others', () => {
+    expect(enumFromParam(APPOINTMENT_STATUSES, 'Cancelled')).toBe('Cancelled');
+    expect(enumFromParam(APPOINTMENT_STATUSES, 'cancelled')).toBeUndefined();
+    expect(enumFromParam(APPOINTMENT_STATUSES, '')).toBeUndefined();
+  });
+});
+
+describe('matchesListSearch', () => {
+  it('matches any field without case and everything without a search', () => {
+    expect(matchesListSearch('DUP', ['Jean Dupont', null])).toBe(true);
+    expect(matchesListSearch('martin', ['Jean Dupont', undefined])).toBe(false);
+    expect(matchesListSearch(undefined, [])).toBe(true);
+  });
+});
+
+describe('list query schemas', () => {
+  it(`limits pages to ${MAX_PAGE_SIZE} items`, () => {
+    expect(PatientListQuerySchema.safeParse({ pageSize: MAX_PAGE_SIZE }).success).toBe(true);
+    expect(PatientListQuerySchema.safeParse({ pageSize: MAX_PAGE_SIZE + 1 }).success).toBe(false);
+    expect(PatientListQuerySchema.safeParse({ pageSize: 0 }).success).toBe(false);
+  });
+
+  it('trims the search and rejects unknown sort fields', () => {
+    expect(PatientListQuerySchema.parse({ search: '  dupont ' }).search).toBe('dupont');
+    expect(PatientListQuerySchema.safeParse({ sortBy: 'password' }).success).toBe(false);
+  });
+
+  it('rejects a date range that ends before it starts', () => {
+    const result = AppointmentListQuerySchema.safeParse({ from: new Date(2026, 0, 9), to: new Date(2026, 0, 5) });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ message: 'The start date must be before the end date.', path: ['to'] });
+    expect(AppointmentListQuerySchema.safeParse({ from: new Date(2026, 0, 5), to: new Date(2026, 0, 5) }).success).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import 'fake-indexeddb/auto';
+import {
+  CHAT_NOTIFICATION_MAX_AGE_MS, OUTBOX_RETRY_BASE_MS, OUTBOX_RETRY_MAX_MS, addOutboxItem, listOutboxItems, outboxRetryDelayMs, retryOutboxItem,
+  syncOutboxItems, type OutboxSendOutcome,
+} from '@/lib/outbox';
+import type { AddCareLogFormValues } from '@/app/actions';
+
+// Other tabs are not under test, and an open BroadcastChannel would keep Jest from exiting.
+(globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = undefined;
+
+const careLog = {
+  values: { patientId: 'p1', careType: 'Wound care', careDateTime: new Date(2026, 0, 5, 9), notes: 'Dressing changed.' } as AddCareLogFormValues,
+  loggedByName: 'Nurse Joy',
+  patientName: 'Jeanne Dupont',
+};
+const chatNotification = { chatId: 'chat1', messageId: 'm1' };
+
+const accepted = async (): Promise<OutboxSendOutcome> => ({ ok: true });
+const rejected = async (): Promise<OutboxSendOutcome> => ({ ok: false, rejection: 'The care team has ended.' });
+const unreachable = async (): Promise<OutboxSendOutcome> => { throw new Error('Failed to fetch'); };
+
+// Each test uses its own user so that the items of the others stay out of the way.
+let testCount = 0;
+let uid: string;
+beforeEach(() => {
+  uid = `user-${++testCount}`;
+  jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'] });
+  jest.setSystemTime(new Date(2026, 0, 5, 10));
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('outboxRetryDelayMs', () => {
+  it('doubles from the base delay up to the maximum', () => {
+    expect([1, 2, 3].map(outboxRetryDelayMs)).toEqual([OUTBOX_RETRY_BASE_MS, 2 * OUTBOX_RETRY_BASE_MS, 4 * OUTBOX_RETRY_BASE_MS]);
+    expect(outboxRetryDelayMs(20)).toBe(OUTBOX_RETRY_MAX_MS);
+  });
+});
+
+describe('syncOutboxItems', () => {
+  it('sends the items of the user and removes the accepted ones', async () => {
+    const item = await addOutboxItem(uid, 'careLog', careLog);
+    await addOutboxItem('someone-else', 'careLog', careLog);
+    const send = jest.fn(accepted);
+
+    expect(await syncOutboxItems(uid, send)).toBeNull();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: item.id, payload: careLog }));
+    expect(await listOutboxItems(uid)).toEqual([]);
+  });
+
+  it('keeps a rejected care log as a conflict and does not send it again', async () => {
+    await addOutboxItem(uid, 'careLog', careLog);
+
+    expect(await syncOutboxItems(uid, rejected)).toBeNull();
+    const [item] = await listOutboxItems(uid);
+    expect(item).toMatchObject({ status: 'conflict', lastError: 'The care team has ended.', attempts: 0 });
+
+    const send = jest.fn(accepted);
+    await syncOutboxItems(uid, send);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('drops a rejected chat notification', async () => {
+    await addOutboxItem(uid, 'chatNotification', chatNotification);
+    await syncOutboxItems(uid, rejected);
+    expect(await listOutboxItems(uid)).toEqual([]);
+  });
+
+  it('retries an item that could not be sent with exponential backoff', async () => {
+    await addOutboxItem(uid, 'careLog', careLog);
+    const start = Date.now();
+
+    expect(await syncOutboxItems(uid, unreachable)).toBe(start + OUTBOX_RETRY_BASE_MS);
+    expect((await listOutboxItems(uid))[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Failed to fetch' });
+
+    // Not due yet: left alone.
+    const send = jest.fn(unreachable);
+    await syncOutboxItems(uid, send);
+    expect(send).not.toHaveBeenCalled();
+
+    jest.setSystemTime(start + OUTBOX_RETRY_BASE_MS);
+    expect(await syncOutboxItems(uid, unreachable)).toBe(start + 3 * OUTBOX_RETRY_BASE_MS);
+    expect((await listOutboxItems(uid))[0].attempts).toBe(2);
+
+    jest.setSystemTime(start + 3 * OUTBOX_RETRY_BASE_MS);
+    expect(await syncOutboxItems(uid, accepted)).toBeNull();
+    expect(await listOutboxItems(uid)).toEqual([]);
+  });
+
+  it('gives up on a chat notification that could not be sent within a day', async () => {
+    await addOutboxItem(uid, 'chatNotification', chatNotification);
+    jest.setSystemTime(Date.now() + CHAT_NOTIFICATION_MAX_AGE_MS + 1);
+    await syncOutboxItems(uid, unreachable);
+    expect(await listOutboxItems(uid)).toEqual([]);
+  });
+});
+
+describe('retryOutboxItem', () => {
+  it('queues a conflict again as a new pending item', async () => {
+    await addOutboxItem(uid, 'careLog', careLog);
+    await syncOutboxItems(uid, rejected);
+    const [conflict] = await listOutboxItems(uid);
+
+    await retryOutboxItem(conflict);
+    expect((await listOutboxItems(uid))[0]).toMatchObject({ id: conflict.id, status: 'pending', attempts: 0, lastError: null });
+    await syncOutboxItems(uid, accepted);
+    expect(await listOutboxItems(uid)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  buildPatientSearchIndex, normalizeSearchText, searchPatientIndex, termMatchQuality, tokenizeSearchText, type PatientSearchDocument,
+} from '@/lib/patient-search';
+
+const patient = (patientId: string, fields: Partial<PatientSearchDocument>): PatientSearchDocument => ({
+  patientId, name: '', phone: '', email: '', condition: '', pathologies: [], careNotes: [], avatarUrl: '', recordStatus: 'Active', ...fields,
+});
+
+const index = buildPatientSearchIndex([
+  patient('p1', { name: 'Jeanne Dupont', phone: '06 12 34 56 78', condition: 'Ostéoporose', careNotes: ['Pansement refait, plaie propre au talon gauche.'] }),
+  patient('p2', { name: 'Marc Duval', pathologies: ['Diabète de type 2', 'Hypertension'], recordStatus: 'Discharged' }),
+  patient('p3', { name: 'Paul Martin', careNotes: ['Contrôle de la tension, pas de dupont ici.'] }),
+]);
+
+const search = (query: string, options?: Parameters<typeof searchPatientIndex>[2]) => searchPatientIndex(index, query, options).map(r => r.patientId);
+
+describe('tokenizeSearchText', () => {
+  it('lowercases, strips accents and drops one-letter words', () => {
+    expect(normalizeSearchText('Ostéoporose')).toBe('osteoporose');
+    expect(tokenizeSearchText("Diabète de type 2, l'HTA")).toEqual(['diabete', 'de', 'type', 'hta']);
+  });
+});
+
+describe('termMatchQuality', () => {
+  it('ranks exact, prefix and typo matches', () => {
+    expect(termMatchQuality('dupont', 'dupont')).toBe(1);
+    expect(termMatchQuality('dup', 'dupont')).toBe(0.8);
+    expect(termMatchQuality('dupnot', 'dupont')).toBeCloseTo(0.7); // swapped letters count as one typo
+    expect(termMatchQuality('hypertensoin', 'hypertension')).toBeCloseTo(0.7);
+    expect(termMatchQuality('hipertensoin', 'hypertension')).toBeCloseTo(0.5);
+  });
+
+  it('tolerates no typo below 4 letters, one below 8 and two from 8', () => {
+    expect(termMatchQuality('mrc', 'marc')).toBe(0);
+    expect(termMatchQuality('dupomt', 'dupont')).toBeGreaterThan(0);
+    expect(termMatchQuality('dupmmt', 'dupont')).toBe(0);
+    expect(termMatchQuality('osteoprse', 'osteoporose')).toBeGreaterThan(0);
+  });
+});
+
+describe('searchPatientIndex', () => {
+  it('finds patients despite accents and typos', () => {
+    expect(search('ostéoporose')).toEqual(['p1']);
+    expect(search('diabte')).toEqual(['p2']);
+  });
+
+  it('requires every query word to match', () => {
+    expect(search('jeanne dupont')).toEqual(['p1']);
+    expect(search('jeanne duval')).toEqual([]);
+  });
+
+  it('ranks a name match above a care log note match', () => {
+    const results = searchPatientIndex(index, 'dupont');
+    expect(results.map(r => r.patientId)).toEqual(['p1', 'p3']);
+    expect(results[1].matches).toEqual([{ field: 'careNotes', snippet: 'Contrôle de la tension, pas de dupont ici.' }]);
+  });
+
+  it('matches phone digits whatever their formatting', () => {
+    expect(search('3456')).toEqual(['p1']);
+  });
+
+  it('keeps archived patients findable, with their record status', () => {
+    const [result] = searchPatientIndex(index, 'duval');
+    expect(result).toMatchObject({ patientId: 'p2', recordStatus: 'Discharged' });
+  });
+
+  it('leaves out patients the caller may not see', () => {
+    expect(search('dupont', { isAllowed: patientId => patientId !== 'p1' })).toEqual(['p3']);
+  });
+
+  it('ignores queries without searchable words', () => {
+    expect(search('a ')).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  MAX_SERIES_OCCURRENCES, RecurrenceRuleSchema, describeRecurrence, expandRecurrence, planSeriesEdit, shiftRecurrenceRule, toRRule,
+  type SeriesOccurrence,
+} from '@/lib/recurrence';
+
+// Dates are local. 5 January 2026 is a Monday.
+const jan = (day: number, hours = 9, minutes = 0) => new Date(2026, 0, day, hours, minutes);
+const days = (dates: Date[]) => dates.map(date => `${date.getMonth() + 1}/${date.getDate()} ${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`);
+
+describe('expandRecurrence', () => {
+  it('repeats daily every interval days until the count is reached', () => {
+    expect(days(expandRecurrence({ frequency: 'daily', interval: 2, count: 3 }, jan(5)))).toEqual(['1/5 9:00', '1/7 9:00', '1/9 9:00']);
+  });
+
+  it('includes occurrences on the until date', () => {
+    expect(expandRecurrence({ frequency: 'daily', interval: 1, until: '2026-01-08' }, jan(5))).toHaveLength(4);
+  });
+
+  it('repeats weekly on the selected weekdays of every interval-th week', () => {
+    const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: ['monday' as const, 'thursday' as const], count: 4 };
+    expect(days(expandRecurrence(rule, jan(5)))).toEqual(['1/5 9:00', '1/8 9:00', '1/19 9:00', '1/22 9:00']);
+  });
+
+  it('starts a weekly series without weekdays on the weekday of the first occurrence', () => {
+    expect(days(expandRecurrence({ frequency: 'weekly', interval: 1, count: 2 }, jan(7)))).toEqual(['1/7 9:00', '1/14 9:00']);
+  });
+
+  it('skips selected weekdays before the first occurrence', () => {
+    const rule = { frequency: 'weekly' as const, interval: 1, byWeekday: ['monday' as const, 'friday' as const], count: 2 };
+    expect(days(expandRecurrence(rule, jan(7)))).toEqual(['1/9 9:00', '1/12 9:00']);
+  });
+
+  it(`never generates more than ${MAX_SERIES_OCCURRENCES} occurrences`, () => {
+    expect(expandRecurrence({ frequency: 'daily', interval: 1, count: 500 }, jan(5))).toHaveLength(MAX_SERIES_OCCURRENCES);
+    expect(expandRecurrence({ frequency: 'weekly', interval: 1, until: '2040-01-01' }, jan(5))).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+});
+
+describe('RecurrenceRuleSchema', () => {
+  it('needs exactly one of an end date or a count', () => {
+    expect(RecurrenceRuleSchema.safeParse({ frequency: 'daily', interval: 1 }).success).toBe(false);
+    expect(RecurrenceRuleSchema.safeParse({ frequency: 'daily', interval: 1, count: 3, until: '2026-02-01' }).success).toBe(false);
+    expect(RecurrenceRuleSchema.safeParse({ frequency: 'daily', interval: 1, count: 3 }).success).toBe(true);
+  });
+
+  it(`rejects counts above ${MAX_SERIES_OCCURRENCES} and weekly rules without weekdays`, () => {
+    expect(RecurrenceRuleSchema.safeParse({ frequency: 'daily', interval: 1, count: MAX_SERIES_OCCURRENCES + 1 }).success).toBe(false);
+    expect(RecurrenceRuleSchema.safeParse({ frequency: 'weekly', interval: 1, byWeekday: [], count: 3 }).success).toBe(false);
+  });
+});
+
+describe('toRRule and describeRecurrence', () => {
+  it('formats a rule', () => {
+    const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: ['monday' as const, 'thursday' as const], until: '2026-03-31' };
+    expect(toRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260331');
+    expect(describeRecurrence(rule)).toBe('Every 2 weeks on Mon, Thu until 2026-03-31');
+    expect(describeRecurrence({ frequency: 'daily', interval: 1, count: 1 })).toBe('Every day, 1 time');
+  });
+});
+
+describe('shiftRecurrenceRule', () => {
+  it('moves the weekdays with the occurrence, wrapping around the week', () => {
+    const rule = { frequency: 'weekly' as const, interval: 1, byWeekday: ['friday' as const, 'saturday' as const], count: 4 };
+    expect(shiftRecurrenceRule(rule, 2).byWeekday).toEqual(['sunday', 'monday']);
+    expect(shiftRecurrenceRule(rule, -1).byWeekday).toEqual(['thursday', 'friday']);
+    expect(shiftRecurrenceRule(rule, 14)).toBe(rule);
+  });
+});
+
+describe('planSeriesEdit', () => {
+  // A weekly series on Mondays; the second occurrence is already completed.
+  const series: SeriesOccurrence[] = [
+    { id: 'a', start: jan(5) },
+    { id: 'b', start: jan(12), status: 'Completed' },
+    { id: 'c', start: jan(19) },
+    { id: 'd', start: jan(26) },
+  ];
+
+  it('changes only the edited occurrence for "this"', () => {
+    expect(planSeriesEdit(series, 'c', jan(19), jan(20, 10), 'this')).toEqual({
+      targets: [{ id: 'c', start: jan(20, 10) }], earlierOccurrences: 0, dayDelta: 1,
+    });
+  });
+
+  it('moves the edited and later occurrences for "following", counting the earlier ones', () => {
+    const plan = planSeriesEdit(series, 'c', jan(19), jan(20, 10, 30), 'following');
+    expect(plan.targets).toEqual([{ id: 'c', start: jan(20, 10, 30) }, { id: 'd', start: jan(27, 10, 30) }]);
+    expect(plan.earlierOccurrences).toBe(2);
+  });
+
+  it('moves every occurrence but the completed ones for "series"', () => {
+    const plan = planSeriesEdit(series, 'c', jan(19), jan(18, 8), 'series');
+    expect(plan.targets.map(t => t.id)).toEqual(['a', 'c', 'd']);
+    expect(days(plan.targets.map(t => t.start))).toEqual(['1/4 8:00', '1/18 8:00', '1/25 8:00']);
+    expect(plan).toMatchObject({ earlierOccurrences: 0, dayDelta: -1 });
+  });
+
+  it('still changes the edited occurrence when it is completed', () => {
+    expect(planSeriesEdit(series, 'b', jan(12), jan(12, 11), 'series').targets.map(t => t.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
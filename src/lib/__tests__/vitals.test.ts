@@ -0,0 +1,109 @@
+import {
+  DEFAULT_VITAL_SIGN_THRESHOLDS, VitalSignThresholdsSchema, VitalSignsSchema, compactVitalSigns, describeOutOfRangeVitalSign,
+  findOutOfRangeVitalSigns, formatBloodPressure, formatVitalSign, hasVitalSigns, resolveVitalSignThresholds, vitalSignsFromData,
+  vitalSignsFromInput, vitalSignsToInput,
+} from '@/lib/vitals';
+
+describe('vitalSignsFromInput', () => {
+  it('converts filled inputs, accepting a decimal comma, and omits blank ones', () => {
+    expect(vitalSignsFromInput({ temperature: '37,8', heartRate: ' 72 ', spo2: '', glucose: '   ' })).toEqual({ temperature: 37.8, heartRate: 72 });
+  });
+
+  it('turns anything that is not a number into NaN for the schema to reject', () => {
+    const vitals = vitalSignsFromInput({ heartRate: 'abc' });
+    expect(vitals.heartRate).toBeNaN();
+    expect(VitalSignsSchema.safeParse(vitals).success).toBe(false);
+  });
+
+  it('round-trips through the form inputs', () => {
+    const vitals = { bpSystolic: 130, bpDiastolic: 85, weight: 71.5 };
+    expect(vitalSignsFromInput(vitalSignsToInput(vitals))).toEqual(vitals);
+    expect(vitalSignsToInput(undefined).heartRate).toBe('');
+  });
+});
+
+describe('VitalSignsSchema', () => {
+  it('accepts plausible readings', () => {
+    expect(VitalSignsSchema.safeParse({ bpSystolic: 120, bpDiastolic: 80, temperature: 36.9, painScore: 3 }).success).toBe(true);
+  });
+
+  it('rejects values outside the plausible range', () => {
+    expect(VitalSignsSchema.safeParse({ spo2: 101 }).success).toBe(false);
+    expect(VitalSignsSchema.safeParse({ heartRate: 10 }).success).toBe(false);
+  });
+
+  it('requires both blood pressure values, systolic above diastolic', () => {
+    expect(VitalSignsSchema.safeParse({ bpSystolic: 120 }).success).toBe(false);
+    expect(VitalSignsSchema.safeParse({ bpSystolic: 80, bpDiastolic: 90 }).success).toBe(false);
+  });
+
+  it('only accepts whole pain scores', () => {
+    expect(VitalSignsSchema.safeParse({ painScore: 4.5 }).success).toBe(false);
+  });
+});
+
+describe('compactVitalSigns', () => {
+  it('keeps known numeric values only', () => {
+    expect(compactVitalSigns({ heartRate: 80, spo2: undefined })).toEqual({ heartRate: 80 });
+    expect(vitalSignsFromData({ heartRate: 80, glucose: '95', unknown: 5 })).toEqual({ heartRate: 80 });
+    expect(hasVitalSigns({ heartRate: 80 })).toBe(true);
+    expect(hasVitalSigns({})).toBe(false);
+    expect(hasVitalSigns(null)).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('formats units and blood pressure', () => {
+    expect(formatVitalSign('heartRate', 72)).toBe('72 bpm');
+    expect(formatVitalSign('painScore', 4)).toBe('4/10');
+    expect(formatVitalSign('spo2', undefined)).toBe('—');
+    expect(formatBloodPressure({ bpSystolic: 120, bpDiastolic: 80 })).toBe('120/80 mmHg');
+    expect(formatBloodPressure({ bpSystolic: 120 })).toBe('—');
+  });
+});
+
+describe('resolveVitalSignThresholds', () => {
+  it('uses the defaults without overrides', () => {
+    expect(resolveVitalSignThresholds(null)).toEqual(DEFAULT_VITAL_SIGN_THRESHOLDS);
+  });
+
+  it('replaces only the overridden side of a bound', () => {
+    const thresholds = resolveVitalSignThresholds({ heartRate: { high: 130 }, spo2: { low: 88 }, weight: { high: 120 } });
+    expect(thresholds.heartRate).toEqual({ low: 50, high: 130 });
+    expect(thresholds.spo2).toEqual({ low: 88 });
+    expect(thresholds.weight).toEqual({ high: 120 });
+    expect(thresholds.temperature).toEqual(DEFAULT_VITAL_SIGN_THRESHOLDS.temperature);
+  });
+});
+
+describe('findOutOfRangeVitalSigns', () => {
+  it('reports readings below or above their threshold', () => {
+    const found = findOutOfRangeVitalSigns({ heartRate: 130, spo2: 89, temperature: 37 }, DEFAULT_VITAL_SIGN_THRESHOLDS);
+    expect(found).toEqual([
+      { key: 'heartRate', value: 130, bound: 'high', threshold: 110 },
+      { key: 'spo2', value: 89, bound: 'low', threshold: 92 },
+    ]);
+  });
+
+  it('does not alert on a reading equal to its threshold or without one', () => {
+    expect(findOutOfRangeVitalSigns({ heartRate: 110, spo2: 92, weight: 300 }, DEFAULT_VITAL_SIGN_THRESHOLDS)).toEqual([]);
+  });
+
+  it('describes an out-of-range reading', () => {
+    expect(describeOutOfRangeVitalSign({ key: 'heartRate', value: 130, bound: 'high', threshold: 110 })).toBe('Heart Rate 130 bpm (above 110 bpm)');
+  });
+});
+
+describe('VitalSignThresholdsSchema', () => {
+  it('accepts one-sided and two-sided thresholds', () => {
+    expect(VitalSignThresholdsSchema.safeParse({ spo2: { low: 88 }, heartRate: { low: 40, high: 120 } }).success).toBe(true);
+  });
+
+  it('rejects a low threshold that is not below the high one', () => {
+    expect(VitalSignThresholdsSchema.safeParse({ heartRate: { low: 120, high: 120 } }).success).toBe(false);
+  });
+
+  it('rejects a threshold outside the plausible range', () => {
+    expect(VitalSignThresholdsSchema.safeParse({ spo2: { low: 150 } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+// Audit trail of clinical data access and changes, shared by the audit viewers (client) and
+// the server actions that record events.
+//
+// The server actions listed in AUDITED_ACTIONS (patient record reads, medical files, care
+// log amendments, appointment changes, family caregiver access, chat message edits and
+// deletions) append one event per patient to `auditEvents`: who (actor), what (action +
+// target), when, and for changes the before/after values of each changed field. Other
+// writes, such as prescriptions, dose records, vital signs and care team changes, are not
+// audited and only carry their own authorship fields. The collection is append-only: the
+// security rules deny every update and delete, even to the server identity, and reads to
+// everyone but admins. Write actions add their event to the same batch as the change itself,
+// so a change is never committed without its audit event.
+
+import { Timestamp } from "firebase/firestore";
+import type { AppRole } from "@/lib/authz";
+
+export const AUDIT_EVENTS_COLLECTION = "auditEvents";
+
+// Server actions that record audit events (the `action` of an event).
+export const AUDITED_ACTIONS = [
+  "fetchPatientById", "fetchMedicalFiles", "uploadMedicalFile", "saveChatAttachmentToMedicalFile", "updateCareLog", "markCareLogEnteredInError",
+  "updateAppointment", "authorizeFamilyCaregiver", "revokeFamilyCaregiver", "editChatMessage", "deleteChatMessage",
+] as const;
+export type AuditedAction = (typeof AUDITED_ACTIONS)[number];
+
+export const AUDIT_OPERATIONS = ["read", "create", "update", "delete"] as const;
+export type AuditOperation = (typeof AUDIT_OPERATIONS)[number];
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  read: "Viewed",
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+export type AuditTargetType = "patient" | "medicalFile" | "careLog" | "appointment" | "chatMessage";
+
+// Firestore-safe JSON: Timestamps and Dates are stored as ISO strings.
+export type AuditValue = string | number | boolean | null | AuditValue[] | { [key: string]: AuditValue };
+
+export type AuditFieldChange = {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+};
+
+export type AuditEvent = {
+  id: string;
+  at: string; // ISO string
+  actorUid: string;
+  actorEmail: string | null;
+  actorRole: AppRole;
+  action: AuditedAction;
+  operation: AuditOperation;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel: string | null; // e.g. the file name, for display only
+  patientId: string | null;
+  patientName: string | null;
+  changes: AuditFieldChange[]; // empty for reads
+};
+
+export type AuditEventFilters = {
+  patientId?: string;
+  actorUid?: string;
+  action?: AuditedAction;
+  operation?: AuditOperation;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  search?: string; // matched against actor email, patient, action and target
+};
+
+export function toAuditValue(value: unknown): AuditValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, toAuditValue(entry)])
+    );
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return String(value);
+}
+
+// Fields of `fields` (default: every field of either side) whose value differs.
+export function diffAuditFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  fields?: readonly string[]
+): AuditFieldChange[] {
+  const keys = fields ?? Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])).sort();
+  return keys.flatMap(field => {
+    const beforeValue = toAuditValue(before?.[field]);
+    const afterValue = toAuditValue(after?.[field]);
+    return JSON.stringify(beforeValue) === JSON.stringify(afterValue) ? [] : [{ field, before: beforeValue, after: afterValue }];
+  });
+}
+
+export function matchesAuditSearch(event: AuditEvent, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [event.actorEmail, event.patientName, event.patientId, event.action, event.targetId, event.targetLabel]
+    .some(value => value?.toLowerCase().includes(needle));
+}
@@ -0,0 +1,233 @@
+// Server-side authorization for server actions.
+// The browser keeps a Firebase ID token in the SESSION_COOKIE_NAME cookie (see
+// `establishSession` in app/actions.ts). Every action calls `authorizeAction` with
+// its own name; the token is verified with the Admin SDK, the caller's role is read
+// from `users/{uid}` and checked against ACTION_POLICY below.
+// IMPORTANT: Server-only. Client components may only `import type` from this file.
+
+import { cookies } from "next/headers";
+import { adminAuth, adminDb, ensureServerIdentity } from "@/lib/firebase-admin";
+
+export const SESSION_COOKIE_NAME = "__session";
+
+export type AppRole =
+  | "admin"
+  | "patient"
+  | "nurse"
+  | "infirmiere"
+  | "medecin"
+  | "sage-femme"
+  | "aide-soignant"
+  | "kinesitherapeute";
+
+const KNOWN_ROLES: readonly AppRole[] = ["admin", "patient", "nurse", "infirmiere", "medecin", "sage-femme", "aide-soignant", "kinesitherapeute"];
+
+// Everyone who delivers care (all roles except patients and admins).
+export const CLINICIAN_ROLES: readonly AppRole[] = ["nurse", "infirmiere", "medecin", "sage-femme", "aide-soignant", "kinesitherapeute"];
+export const STAFF_ROLES: readonly AppRole[] = ["admin", ...CLINICIAN_ROLES];
+export const ALL_ROLES: readonly AppRole[] = KNOWN_ROLES;
+export const ADMIN_ONLY: readonly AppRole[] = ["admin"];
+
+// Which roles may invoke each server action. Actions marked ALL_ROLES still apply
+// ownership checks inside the action (e.g. a patient only sees their own records).
+export const ACTION_POLICY = {
+  fetchPersonalizedCareSuggestions: STAFF_ROLES,
+  fetchPatientById: ALL_ROLES,
+  fetchPatients: STAFF_ROLES,
+  searchPatients: STAFF_ROLES,
+  addPatient: STAFF_ROLES,
+  updatePatient: STAFF_ROLES,
+  archivePatient: ADMIN_ONLY,
+  restorePatient: ADMIN_ONLY,
+  fetchCareTeam: ALL_ROLES,
+  assignCareTeamMember: ADMIN_ONLY,
+  endCareAssignment: ADMIN_ONLY,
+  fetchNurses: ALL_ROLES,
+  addNurse: ADMIN_ONLY,
+  updateNurse: ADMIN_ONLY,
+  archiveNurse: ADMIN_ONLY,
+  restoreNurse: ADMIN_ONLY,
+  fetchDashboardStats: ALL_ROLES,
+  scheduleVideoConsult: STAFF_ROLES,
+  fetchVideoConsults: ALL_ROLES,
+  fetchMedicalFiles: ALL_ROLES,
+  uploadMedicalFile: ALL_ROLES,
+  fetchNotifications: ALL_ROLES,
+  markNotificationAsRead: ALL_ROLES,
+  markAllNotificationsAsRead: ALL_ROLES,
+  fetchNotificationPreferences: ALL_ROLES,
+  updateNotificationPreferences: ALL_ROLES,
+  registerPushToken: ALL_ROLES,
+  notifyChatMessage: ALL_ROLES,
+  sendChatAttachment: ALL_ROLES,
+  saveChatAttachmentToMedicalFile: ALL_ROLES,
+  createGroupChat: STAFF_ROLES,
+  updateGroupChat: STAFF_ROLES,
+  leaveGroupChat: ALL_ROLES,
+  openCareTeamChannel: ALL_ROLES,
+  fetchFamilyCaregivers: ALL_ROLES,
+  authorizeFamilyCaregiver: ALL_ROLES,
+  revokeFamilyCaregiver: ALL_ROLES,
+  searchChatMessages: ALL_ROLES,
+  editChatMessage: ALL_ROLES,
+  deleteChatMessage: ALL_ROLES,
+  fetchChatRetentionSettings: ADMIN_ONLY,
+  updateChatRetentionPolicy: ADMIN_ONLY,
+  runChatRetentionNow: ADMIN_ONLY,
+  previewEmailTemplate: ADMIN_ONLY,
+  fetchUsersForAdmin: ADMIN_ONLY,
+  fetchAdminContacts: ALL_ROLES,
+  fetchAuditEvents: ADMIN_ONLY,
+  fetchPatientAccessLog: ALL_ROLES,
+  seedDatabase: ADMIN_ONLY,
+  fetchCollectionData: ADMIN_ONLY,
+  fetchAppointments: ALL_ROLES,
+  fetchAppointmentById: ALL_ROLES,
+  addAppointment: ALL_ROLES,
+  updateAppointment: STAFF_ROLES,
+  fetchNurseSchedule: ALL_ROLES,
+  updateNurseAvailability: STAFF_ROLES,
+  fetchCalendarFeed: ALL_ROLES,
+  createCalendarFeed: ALL_ROLES,
+  revokeCalendarFeed: ALL_ROLES,
+  fetchCareLogs: ALL_ROLES,
+  addCareLog: STAFF_ROLES,
+  updateCareLog: STAFF_ROLES,
+  markCareLogEnteredInError: STAFF_ROLES,
+  fetchCareLogRevisions: ALL_ROLES,
+  fetchVitalSigns: ALL_ROLES,
+  updateVitalThresholds: STAFF_ROLES,
+  fetchPrescriptions: ALL_ROLES,
+  addPrescription: STAFF_ROLES,
+  updatePrescription: STAFF_ROLES,
+  discontinuePrescription: STAFF_ROLES,
+  fetchMedicationAdministrations: ALL_ROLES,
+  recordMedicationAdministration: STAFF_ROLES,
+} satisfies Record<string, readonly AppRole[]>;
+
+export type ActionName = keyof typeof ACTION_POLICY;
+
+export type SessionUser = {
+  uid: string;
+  email: string | null;
+  role: AppRole;
+};
+
+// Returned (never thrown) by server actions so pages can render it.
+export type ForbiddenError = {
+  code: "unauthenticated" | "forbidden";
+  action: ActionName;
+  role: AppRole | null;
+  message: string;
+};
+
+export type AuthorizationResult =
+  | { ok: true; user: SessionUser }
+  | { ok: false; error: ForbiddenError };
+
+export function isStaffRole(role: AppRole | null | undefined): boolean {
+  return !!role && STAFF_ROLES.includes(role);
+}
+
+function normalizeRole(rawRole: unknown): AppRole {
+  if (typeof rawRole === "string" && (KNOWN_ROLES as readonly string[]).includes(rawRole)) {
+    return rawRole as AppRole;
+  }
+  // Same default as AuthContext: unknown or missing roles get the least privileged role.
+  return "patient";
+}
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  if (!adminAuth) {
+    console.error("[AUTHZ_ERROR] getSessionUser: Firebase Admin Auth is not available. Cannot verify session.");
+    return null;
+  }
+  const cookieStore = await cookies();
+  const idToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!idToken) {
+    return null;
+  }
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    let role: AppRole = "patient";
+    if (adminDb) {
+      const userDoc = await adminDb.collection("users").doc(decoded.uid).get();
+      role = normalizeRole(userDoc.exists ? userDoc.data()?.role : undefined);
+    } else {
+      console.warn(`[AUTHZ_WARN] getSessionUser: Admin Firestore not available, defaulting role of ${decoded.uid} to 'patient'.`);
+    }
+    return { uid: decoded.uid, email: decoded.email ?? null, role };
+  } catch (error: any) {
+    console.warn("[AUTHZ_WARN] getSessionUser: ID token verification failed:", error.code, error.message);
+    return null;
+  }
+}
+
+export async function authorizeAction(action: ActionName): Promise<AuthorizationResult> {
+  const user = await getSessionUser();
+  if (!user) {
+    console.warn(`[AUTHZ_WARN] ${action}: Rejected unauthenticated call.`);
+    return {
+      ok: false,
+      error: { code: "unauthenticated", action, role: null, message: "You must be signed in to perform this action." },
+    };
+  }
+  const allowedRoles: readonly AppRole[] = ACTION_POLICY[action];
+  if (!allowedRoles.includes(user.role)) {
+    console.warn(`[AUTHZ_WARN] ${action}: Rejected call from ${user.uid} with role '${user.role}'.`);
+    return { ok: false, error: forbidden(action, user, "Your role is not allowed to perform this action.") };
+  }
+  // The caller is authorized; let the action's Firestore calls through the security rules.
+  // Without the server identity every one of them would be rejected.
+  if (!(await ensureServerIdentity())) {
+    throw new Error(`${action}: the server could not sign in as the server identity. Check the Firebase Admin credentials.`);
+  }
+  return { ok: true, user };
+}
+
+export function forbidden(action: ActionName, user: SessionUser, message: string): ForbiddenError {
+  return { code: "forbidden", action, role: user.role, message };
+}
+
+// Patients may only touch their own record (patients/{uid}); admins may access any patient;
+// clinicians only the patients they are actively assigned to, like the Firestore rules:
+// primary nurse (`primaryNurseId`) or care team member (`careTeamIds`, see lib/care-team.ts).
+export async function canAccessPatient(user: SessionUser, patientId: string): Promise<boolean> {
+  if (user.role === "admin") return true;
+  if (user.role === "patient") return user.uid === patientId;
+  if (!patientId) return false;
+  if (!adminDb) {
+    console.warn(`[AUTHZ_WARN] canAccessPatient: Admin Firestore not available, denying ${user.uid} access to patient ${patientId}.`);
+    return false;
+  }
+  const patient = (await adminDb.collection("patients").doc(patientId).get()).data();
+  if (!patient) return false;
+  return patient.primaryNurseId === user.uid || (Array.isArray(patient.careTeamIds) && patient.careTeamIds.includes(user.uid));
+}
+
+// The patients a caller may see, for filtering lists. `all` is only true for admins.
+export type PatientScope = { all: boolean; patientIds: ReadonlySet<string> };
+
+export async function getPatientScope(user: SessionUser): Promise<PatientScope> {
+  if (user.role === "admin") return { all: true, patientIds: new Set() };
+  if (user.role === "patient") return { all: false, patientIds: new Set([user.uid]) };
+  if (!adminDb) {
+    console.warn(`[AUTHZ_WARN] getPatientScope: Admin Firestore not available, ${user.uid} sees no patients.`);
+    return { all: false, patientIds: new Set() };
+  }
+  const patients = adminDb.collection("patients");
+  const [careTeamSnapshot, primarySnapshot] = await Promise.all([
+    patients.where("careTeamIds", "array-contains", user.uid).select().get(),
+    patients.where("primaryNurseId", "==", user.uid).select().get(),
+  ]);
+  return { all: false, patientIds: new Set([...careTeamSnapshot.docs, ...primarySnapshot.docs].map(patientDoc => patientDoc.id)) };
+}
+
+export function isInPatientScope(scope: PatientScope, patientId: string): boolean {
+  return scope.all || scope.patientIds.has(patientId);
+}
+
+// Notifications live under users/{uid}; only the owner (or an admin) may read or update them.
+export function canAccessUserData(user: SessionUser, userId: string): boolean {
+  return user.role === "admin" || user.uid === userId;
+}
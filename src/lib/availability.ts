@@ -0,0 +1,226 @@
+// Nurse availability model shared by the scheduling forms (client) and the appointment /
+// video consult server actions.
+//
+// A nurse document (`nurses/{id}`) may carry `workingHours` (weekly "HH:mm" ranges) and
+// `timeOff` (absolute periods). Nurses without `workingHours` use DEFAULT_WORKING_HOURS.
+// Times of day are interpreted in the server's local time zone, like `appointmentTime`.
+
+import { z } from "zod";
+import { TIME_OF_DAY_REGEX } from "@/lib/medications";
+
+export const NURSE_STATUSES = ["Available", "On Duty", "Unavailable"] as const;
+export type NurseStatus = (typeof NURSE_STATUSES)[number];
+
+// Indexed like Date.getDay().
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const APPOINTMENT_DURATIONS = [15, 30, 45, 60, 90, 120] as const;
+export const DEFAULT_APPOINTMENT_DURATION_MINUTES = 30;
+export const VIDEO_CONSULT_DURATION_MINUTES = 30;
+// Free slots are offered on this grid.
+export const SLOT_STEP_MINUTES = 15;
+
+export type TimeRange = { start: string; end: string }; // local "HH:mm"
+export type WeeklyWorkingHours = Record<Weekday, TimeRange[]>;
+
+export type TimeOffPeriod = {
+  start: string; // ISO string
+  end: string; // ISO string, exclusive
+  reason?: string;
+};
+
+export type NurseAvailability = {
+  workingHours: WeeklyWorkingHours;
+  timeOff: TimeOffPeriod[];
+};
+
+export const DEFAULT_WORKING_HOURS: WeeklyWorkingHours = {
+  sunday: [],
+  monday: [{ start: "08:00", end: "18:00" }],
+  tuesday: [{ start: "08:00", end: "18:00" }],
+  wednesday: [{ start: "08:00", end: "18:00" }],
+  thursday: [{ start: "08:00", end: "18:00" }],
+  friday: [{ start: "08:00", end: "18:00" }],
+  saturday: [],
+};
+
+// Something already occupying the nurse's time.
+export type BusyInterval = {
+  id: string;
+  source: "appointment" | "videoConsult";
+  start: string; // ISO string
+  end: string; // ISO string
+  label: string;
+};
+
+export type ScheduleConflictType = "outside-working-hours" | "time-off" | "appointment" | "videoConsult";
+
+export type ScheduleConflict = {
+  type: ScheduleConflictType;
+  message: string;
+};
+
+// A slot expressed the same way the appointment form submits it.
+export type SuggestedSlot = {
+  date: string; // "yyyy-MM-dd"
+  time: string; // "HH:mm"
+};
+
+const TimeRangeSchema = z.object({
+  start: z.string().regex(TIME_OF_DAY_REGEX, "Working hours must use the HH:MM format."),
+  end: z.string().regex(TIME_OF_DAY_REGEX, "Working hours must use the HH:MM format."),
+}).refine(range => timeToMinutes(range.start) < timeToMinutes(range.end), {
+  message: "Working hours must end after they start.",
+});
+
+export const NurseAvailabilitySchema = z.object({
+  workingHours: z.object(
+    Object.fromEntries(WEEKDAYS.map(day => [day, z.array(TimeRangeSchema)])) as Record<Weekday, z.ZodArray<typeof TimeRangeSchema>>
+  ),
+  timeOff: z.array(z.object({
+    start: z.string().datetime({ message: "Time off start must be a valid date." }),
+    end: z.string().datetime({ message: "Time off end must be a valid date." }),
+    reason: z.string().trim().max(200).optional(),
+  }).refine(period => period.start < period.end, { message: "Time off must end after it starts." })),
+});
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesToTime(totalMinutes: number): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(totalMinutes / 60))}:${pad(totalMinutes % 60)}`;
+}
+
+export function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+}
+
+export function toSuggestedSlot(date: Date): SuggestedSlot {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+  };
+}
+
+function overlaps(startA: number, endA: number, startB: number, endB: number): boolean {
+  return startA < endB && startB < endA;
+}
+
+export function getWorkingHoursOn(availability: NurseAvailability, day: Date): TimeRange[] {
+  return availability.workingHours[WEEKDAYS[day.getDay()]] ?? [];
+}
+
+export function resolveNurseAvailability(data: { workingHours?: Partial<WeeklyWorkingHours>; timeOff?: TimeOffPeriod[] }): NurseAvailability {
+  return {
+    workingHours: data.workingHours ? { ...DEFAULT_WORKING_HOURS, ...data.workingHours } : DEFAULT_WORKING_HOURS,
+    timeOff: data.timeOff ?? [],
+  };
+}
+
+// Reads the availability fields of a nurse document. Time-off bounds are Firestore
+// Timestamps in the database and ISO strings once serialized.
+export function nurseAvailabilityFromData(data: Record<string, any>): NurseAvailability {
+  const toIso = (value: any) => (typeof value?.toDate === "function" ? value.toDate().toISOString() : String(value));
+  return resolveNurseAvailability({
+    workingHours: data.workingHours,
+    timeOff: Array.isArray(data.timeOff)
+      ? data.timeOff.map((period: Record<string, any>) => ({
+          start: toIso(period.start),
+          end: toIso(period.end),
+          ...(period.reason ? { reason: period.reason } : {}),
+        }))
+      : [],
+  });
+}
+
+// A nurse on time off right now is shown as unavailable whatever the stored status says.
+export function deriveNurseStatus(storedStatus: string | undefined, availability: NurseAvailability, now: Date = new Date()): NurseStatus {
+  const onTimeOff = availability.timeOff.some(period =>
+    new Date(period.start).getTime() <= now.getTime() && now.getTime() < new Date(period.end).getTime()
+  );
+  if (onTimeOff) return "Unavailable";
+  return (NURSE_STATUSES as readonly string[]).includes(storedStatus ?? "") ? (storedStatus as NurseStatus) : "Available";
+}
+
+export function findScheduleConflicts(
+  availability: NurseAvailability,
+  busy: BusyInterval[],
+  start: Date,
+  durationMinutes: number
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const startMs = start.getTime();
+  const endMs = startMs + durationMinutes * 60_000;
+
+  const startOfDayMs = atTimeOfDay(start, "00:00").getTime();
+  const fitsWorkingHours = getWorkingHoursOn(availability, start).some(range =>
+    startOfDayMs + timeToMinutes(range.start) * 60_000 <= startMs && endMs <= startOfDayMs + timeToMinutes(range.end) * 60_000
+  );
+  if (!fitsWorkingHours) {
+    conflicts.push({ type: "outside-working-hours", message: "The nurse is not working at this time." });
+  }
+
+  for (const period of availability.timeOff) {
+    if (overlaps(startMs, endMs, new Date(period.start).getTime(), new Date(period.end).getTime())) {
+      conflicts.push({ type: "time-off", message: `The nurse is on time off${period.reason ? ` (${period.reason})` : ""}.` });
+    }
+  }
+
+  for (const interval of busy) {
+    if (overlaps(startMs, endMs, new Date(interval.start).getTime(), new Date(interval.end).getTime())) {
+      conflicts.push({ type: interval.source, message: `Overlaps with ${interval.label}.` });
+    }
+  }
+  return conflicts;
+}
+
+// Start times ("HH:mm") on `day` at which an appointment of `durationMinutes` fits.
+export function listFreeSlots(
+  availability: NurseAvailability,
+  busy: BusyInterval[],
+  day: Date,
+  durationMinutes: number,
+  notBefore?: Date
+): string[] {
+  const slots: string[] = [];
+  for (const range of getWorkingHoursOn(availability, day)) {
+    const firstSlot = Math.ceil(timeToMinutes(range.start) / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+    for (let minutes = firstSlot; minutes + durationMinutes <= timeToMinutes(range.end); minutes += SLOT_STEP_MINUTES) {
+      const start = atTimeOfDay(day, minutesToTime(minutes));
+      if (notBefore && start.getTime() < notBefore.getTime()) continue;
+      if (findScheduleConflicts(availability, busy, start, durationMinutes).length === 0) {
+        slots.push(minutesToTime(minutes));
+      }
+    }
+  }
+  return Array.from(new Set(slots)).sort();
+}
+
+// The free slots closest to `requested` (before or after it), searching `searchDays` days
+// either side but never in the past.
+export function suggestNearestSlots(
+  availability: NurseAvailability,
+  busy: BusyInterval[],
+  requested: Date,
+  durationMinutes: number,
+  { count = 3, searchDays = 7, now = new Date() }: { count?: number; searchDays?: number; now?: Date } = {}
+): SuggestedSlot[] {
+  const candidates: Date[] = [];
+  for (let offset = -searchDays; offset <= searchDays; offset++) {
+    const day = new Date(requested.getFullYear(), requested.getMonth(), requested.getDate() + offset);
+    for (const time of listFreeSlots(availability, busy, day, durationMinutes, now)) {
+      candidates.push(atTimeOfDay(day, time));
+    }
+  }
+  return candidates
+    .sort((a, b) => Math.abs(a.getTime() - requested.getTime()) - Math.abs(b.getTime() - requested.getTime()))
+    .slice(0, count)
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map(toSuggestedSlot);
+}
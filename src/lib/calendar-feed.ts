@@ -0,0 +1,114 @@
+// Server-only: per-user iCalendar feeds of appointments and video consults.
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Each feed is addressed by a random token, stored as `calendarFeeds/{token}` with the
+// owner's uid. Clients can never read that collection (see firestore.rules); revoking a
+// feed deletes the document, after which the URL returns 404.
+
+import { randomBytes } from "crypto";
+import { collection, doc, getDoc, getDocs, query, where, Timestamp, updateDoc, serverTimestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ensureServerIdentity } from "@/lib/firebase-admin";
+import { buildIcsCalendar, icsUid, type IcsEvent } from "@/lib/ics";
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES, VIDEO_CONSULT_DURATION_MINUTES } from "@/lib/availability";
+
+export const CALENDAR_FEEDS_COLLECTION = "calendarFeeds";
+
+// Past events older than this are left out of the feed.
+const FEED_HISTORY_DAYS = 90;
+
+function appUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+}
+
+export function generateCalendarFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function calendarFeedUrl(token: string): string {
+  return `${appUrl()}/api/calendar/${token}.ics`;
+}
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+// `viewerUid` decides whose name appears in the title: nurses see the patient, patients the nurse.
+export function appointmentToIcsEvent(id: string, data: Record<string, any>, viewerUid?: string): IcsEvent | null {
+  const start = toDate(data.appointmentDate);
+  if (!start) return null;
+  const counterpart = viewerUid && viewerUid === data.patientId ? `with ${data.nurseName}` : `– ${data.patientName}`;
+  return {
+    uid: icsUid("appointment", id),
+    start,
+    end: new Date(start.getTime() + (data.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES) * 60_000),
+    summary: `${data.appointmentType || "Appointment"} ${counterpart}`,
+    description: `SanHome home-care visit.\nPatient: ${data.patientName}\nNurse: ${data.nurseName}\nStatus: ${data.status}`,
+    url: `${appUrl()}/appointments/${id}`,
+    status: data.status === "Cancelled" ? "CANCELLED" : "CONFIRMED",
+    sequence: data.sequence || 0,
+    lastModified: toDate(data.updatedAt) ?? toDate(data.createdAt) ?? undefined,
+  };
+}
+
+export function videoConsultToIcsEvent(id: string, data: Record<string, any>, viewerUid?: string): IcsEvent | null {
+  const start = toDate(data.consultationTime);
+  if (!start) return null;
+  const counterpart = viewerUid && viewerUid === data.patientId ? `with ${data.nurseName}` : `– ${data.patientName}`;
+  const joinLink = `${appUrl()}/video-consult?roomId=${data.roomId}`;
+  return {
+    uid: icsUid("videoConsult", id),
+    start,
+    end: new Date(start.getTime() + (data.durationMinutes || VIDEO_CONSULT_DURATION_MINUTES) * 60_000),
+    summary: `Video consult ${counterpart}`,
+    description: `SanHome video consultation.\nPatient: ${data.patientName}\nNurse: ${data.nurseName}\nRoom ID: ${data.roomId}\nJoin: ${joinLink}`,
+    location: joinLink,
+    url: joinLink,
+    status: data.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    sequence: data.sequence || 0,
+    lastModified: toDate(data.updatedAt) ?? toDate(data.createdAt) ?? undefined,
+  };
+}
+
+// Returns null when the token is unknown or revoked.
+export async function buildCalendarFeed(token: string): Promise<string | null> {
+  if (!db || !(await ensureServerIdentity())) {
+    throw new Error("Firestore is not available for calendar feeds.");
+  }
+  const feedRef = doc(db, CALENDAR_FEEDS_COLLECTION, token);
+  const feedDoc = await getDoc(feedRef);
+  if (!feedDoc.exists()) return null;
+  const uid: string = feedDoc.data().uid;
+
+  // Equality-only queries, so no composite index is needed; the time window is applied here.
+  const [nurseAppointments, patientAppointments, nurseConsults, patientConsults] = await Promise.all([
+    getDocs(query(collection(db, "appointments"), where("nurseId", "==", uid))),
+    getDocs(query(collection(db, "appointments"), where("patientId", "==", uid))),
+    getDocs(query(collection(db, "videoConsults"), where("nurseId", "==", uid))),
+    getDocs(query(collection(db, "videoConsults"), where("patientId", "==", uid))),
+  ]);
+
+  const since = Date.now() - FEED_HISTORY_DAYS * 86_400_000;
+  const events = new Map<string, IcsEvent>();
+  for (const snapshot of [nurseAppointments, patientAppointments]) {
+    for (const docSnap of snapshot.docs) {
+      const event = appointmentToIcsEvent(docSnap.id, docSnap.data(), uid);
+      if (event && event.end.getTime() >= since) events.set(event.uid, event);
+    }
+  }
+  for (const snapshot of [nurseConsults, patientConsults]) {
+    for (const docSnap of snapshot.docs) {
+      const event = videoConsultToIcsEvent(docSnap.id, docSnap.data(), uid);
+      if (event && event.end.getTime() >= since) events.set(event.uid, event);
+    }
+  }
+
+  await updateDoc(feedRef, { lastAccessedAt: serverTimestamp() }).catch(error =>
+    console.warn("[CALENDAR_FEED_WARN] Failed to record feed access:", error.message)
+  );
+
+  return buildIcsCalendar(
+    Array.from(events.values()).sort((a, b) => a.start.getTime() - b.start.getTime()),
+    { name: "SanHome", refreshIntervalMinutes: 60 }
+  );
+}
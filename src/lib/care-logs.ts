@@ -0,0 +1,43 @@
+// Versioned care logs, shared by the care tracking page (client) and the care log server
+// actions.
+//
+// Clinical notes are never overwritten or deleted:
+// - `careLogs/{logId}` holds the current version (`version`, starting at 1), its author
+//   (`loggedBy*` for the original, `amendedBy*` for amendments) and, for amendments, the
+//   reason.
+// - Amending copies the current version to `careLogs/{logId}/revisions/{version}` before
+//   writing the new one, in the same batch, so the full history stays readable.
+// - A log written by mistake is struck as "entered in error" (with a reason) instead of
+//   being deleted; it stays visible, crossed out, and can no longer be amended. Its
+//   vitals reading is removed from the vitals time series.
+
+import { z } from "zod";
+import type { VitalSigns } from "@/lib/vitals";
+
+export const CARE_LOG_REVISIONS_SUBCOLLECTION = "revisions";
+
+// One version of a care log: a superseded revision or the current content.
+export type CareLogVersion = {
+  version: number;
+  careType: string;
+  careDate: string; // ISO string
+  notes: string;
+  vitals?: VitalSigns;
+  authorId: string | null; // null for logs written before versioning
+  authorName: string;
+  authoredAt: string; // ISO string
+  reason: string | null; // why this version amended the previous one; null for the original
+};
+
+export type CareLogEnteredInError = {
+  at: string; // ISO string
+  byId: string;
+  byName: string;
+  reason: string;
+};
+
+export const CareLogChangeReasonSchema = z
+  .string()
+  .trim()
+  .min(3, "Please give a reason of at least 3 characters.")
+  .max(500, "The reason must be 500 characters or fewer.");
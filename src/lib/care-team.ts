@@ -0,0 +1,71 @@
+// Care team model shared by the patient page (client) and the care team server actions.
+//
+// Each clinician on a patient's care team has one assignment in `careAssignments`, with a
+// team role, a start date and, once it ended, an end date. Ended assignments are kept as
+// the assignment history. An assignment takes effect when it is written and ends when it
+// is ended (start dates may be backdated, never set in the future), so the denormalized
+// copies on the patient document are always current:
+// - `patients.careTeamIds`: clinicians with an active assignment; the security rules,
+//   `canAccessPatient` (lib/authz.ts), chat contacts and the dashboard derive from it.
+// - `patients.primaryNurseId` / `primaryNurse`: the active "primaryNurse" assignment.
+
+import { z } from "zod";
+import type { AppRole } from "@/lib/authz";
+
+export const CARE_TEAM_ROLES = ["primaryNurse", "nurse", "physician", "physio", "midwife", "careAide"] as const;
+export type CareTeamRole = (typeof CARE_TEAM_ROLES)[number];
+
+export const CARE_TEAM_ROLE_LABELS: Record<CareTeamRole, string> = {
+  primaryNurse: "Primary Nurse",
+  nurse: "Nurse",
+  physician: "Physician",
+  physio: "Physiotherapist",
+  midwife: "Midwife",
+  careAide: "Care Aide",
+};
+
+// Which account roles may hold each team role.
+export const CARE_TEAM_ROLE_ACCOUNT_ROLES: Record<CareTeamRole, readonly AppRole[]> = {
+  primaryNurse: ["nurse", "infirmiere"],
+  nurse: ["nurse", "infirmiere"],
+  physician: ["medecin"],
+  physio: ["kinesitherapeute"],
+  midwife: ["sage-femme"],
+  careAide: ["aide-soignant"],
+};
+
+// Only one active assignment of these roles per patient: assigning a new one ends the previous.
+export const SINGLE_HOLDER_CARE_TEAM_ROLES: readonly CareTeamRole[] = ["primaryNurse"];
+
+export type CareAssignment = {
+  id: string;
+  patientId: string;
+  patientName: string;
+  clinicianId: string; // uid of the clinician's account
+  clinicianName: string;
+  clinicianRole: AppRole;
+  teamRole: CareTeamRole;
+  startDate: string; // ISO string
+  endDate: string | null; // ISO string; null while active
+  assignedBy: string;
+  endedBy?: string;
+  endReason?: string;
+  notes?: string;
+};
+
+export const CareAssignmentInputSchema = z.object({
+  patientId: z.string().min(1, "Patient ID is required."),
+  clinicianId: z.string().min(1, "Select a clinician."),
+  teamRole: z.enum(CARE_TEAM_ROLES),
+  startDate: z.date().refine(date => date.getTime() <= Date.now() + 60_000, "The start date cannot be in the future."),
+  notes: z.string().trim().max(500).optional(),
+});
+export type CareAssignmentInput = z.infer<typeof CareAssignmentInputSchema>;
+
+export function canHoldCareTeamRole(accountRole: string | null | undefined, teamRole: CareTeamRole): boolean {
+  return !!accountRole && (CARE_TEAM_ROLE_ACCOUNT_ROLES[teamRole] as readonly string[]).includes(accountRole);
+}
+
+export function isActiveAssignment(assignment: Pick<CareAssignment, "endDate">): boolean {
+  return assignment.endDate === null;
+}
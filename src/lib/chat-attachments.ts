@@ -0,0 +1,91 @@
+// Attachments of chat messages (images, PDFs and voice notes), shared by the chat page
+// (client) and the `sendChatAttachment` / `saveChatAttachmentToMedicalFile` server actions.
+//
+// - Files are uploaded by the server action through the same Cloudinary upload as medical
+//   files, then the action writes the message itself: the security rules refuse messages
+//   with an `attachment` written by clients, so every attachment has passed the checks below.
+// - Limits are checked in the browser before uploading (for a quick error) and again on the
+//   server. The server action body limit in next.config.ts must stay above the largest one.
+// - "Save to medical file" files an attachment under the patient's `medicalFiles`, reusing
+//   the uploaded file; the message keeps the ID of that medical file.
+
+export const CHAT_ATTACHMENT_KINDS = ["image", "pdf", "voice"] as const;
+export type ChatAttachmentKind = (typeof CHAT_ATTACHMENT_KINDS)[number];
+
+export const CHAT_ATTACHMENT_KIND_LABELS: Record<ChatAttachmentKind, string> = {
+  image: "Image",
+  pdf: "PDF document",
+  voice: "Voice note",
+};
+
+const MB = 1024 * 1024;
+
+export const CHAT_ATTACHMENT_TYPES: Record<ChatAttachmentKind, readonly string[]> = {
+  image: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+  pdf: ["application/pdf"],
+  // What MediaRecorder produces in Chrome/Firefox (webm, ogg) and Safari (mp4).
+  voice: ["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg"],
+};
+
+export const CHAT_ATTACHMENT_MAX_BYTES: Record<ChatAttachmentKind, number> = {
+  image: 8 * MB,
+  pdf: 10 * MB,
+  voice: 5 * MB,
+};
+
+export const VOICE_NOTE_MAX_SECONDS = 120;
+export const CHAT_CAPTION_MAX_LENGTH = 1000;
+
+// File picker filter; voice notes come from the recorder only.
+export const CHAT_ATTACHMENT_ACCEPT = [...CHAT_ATTACHMENT_TYPES.image, ...CHAT_ATTACHMENT_TYPES.pdf].join(",");
+
+export type ChatAttachment = {
+  kind: ChatAttachmentKind;
+  url: string;
+  fileName: string;
+  fileType: string;
+  size: number;
+  durationSeconds?: number; // voice notes only
+  medicalFileId?: string; // set once saved to the patient's medical file
+};
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+function baseMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+export function chatAttachmentKind(mimeType: string): ChatAttachmentKind | null {
+  const type = baseMimeType(mimeType);
+  return CHAT_ATTACHMENT_KINDS.find(kind => CHAT_ATTACHMENT_TYPES[kind].includes(type)) ?? null;
+}
+
+// Null when the file may be sent, otherwise the reason it may not.
+export function validateChatAttachment(file: { type: string; size: number }, durationSeconds?: number): string | null {
+  const kind = chatAttachmentKind(file.type);
+  if (!kind) return "Only images (JPEG, PNG, WebP, GIF), PDF documents and voice notes can be sent.";
+  if (file.size === 0) return "The file is empty.";
+  if (file.size > CHAT_ATTACHMENT_MAX_BYTES[kind]) {
+    return `${CHAT_ATTACHMENT_KIND_LABELS[kind]}s must be ${formatAttachmentSize(CHAT_ATTACHMENT_MAX_BYTES[kind])} or smaller.`;
+  }
+  if (kind === "voice" && durationSeconds !== undefined && durationSeconds > VOICE_NOTE_MAX_SECONDS + 1) {
+    return `Voice notes must be ${VOICE_NOTE_MAX_SECONDS / 60} minutes or shorter.`;
+  }
+  return null;
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes >= MB) return `${(bytes / MB).toFixed(bytes % MB === 0 ? 0 : 1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+export function formatVoiceNoteDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+// Voice notes get a readable file name once filed in a medical record.
+export function voiceNoteFileName(mimeType: string, recordedAt: Date): string {
+  const subtype = baseMimeType(mimeType).split("/")[1];
+  const extension = subtype === "mpeg" ? "mp3" : subtype;
+  return `voice-note-${recordedAt.toISOString().slice(0, 19).replace(/[T:]/g, "-")}.${extension}`;
+}
@@ -0,0 +1,138 @@
+// Group conversations, per-patient care team channels, family caregivers and @mentions,
+// shared by the chat page and patient page (client) and the group chat server actions.
+//
+// - Direct conversations keep their ID made of the two participant UIDs (`directChatId`).
+//   Groups have a generated ID and care team channels `careteam-{patientId}`; their members
+//   are the `participants` of the conversation document, which only server actions change.
+// - A care team channel exists for every patient whose care team or caregivers changed, or
+//   whose channel was opened: the patient (when they have an account), the clinicians of the
+//   active care team and the family caregivers the patient authorized. It is rewritten in the
+//   same batch as those changes, so its membership never lags behind; nobody manages it by hand.
+// - Family caregivers are accounts (`patient` role) that a patient or an admin authorized on
+//   the patient record (`patients.caregivers` / `caregiverIds`). Authorization only gives a
+//   seat in the care team channel, never access to the medical record.
+// - Mentions are written "@Full Name" in the text; the sender's app stores the mentioned
+//   members in the message (`mentions`) and `notifyChatMessage` notifies them. Group messages
+//   notify mentioned members only; direct messages notify the other participant as before.
+
+import { z } from "zod";
+
+export const CHAT_TYPES = ["direct", "group", "careTeam"] as const;
+export type ChatType = (typeof CHAT_TYPES)[number];
+
+export const GROUP_CHAT_NAME_MAX_LENGTH = 80;
+export const GROUP_CHAT_MAX_MEMBERS = 50;
+
+const CARE_TEAM_CHANNEL_PREFIX = "careteam-";
+
+export function directChatId(uid1: string, uid2: string): string {
+  return [uid1, uid2].sort().join("_");
+}
+
+// The two participants of a direct conversation, or null for any other conversation ID.
+export function directChatParticipants(chatId: string): [string, string] | null {
+  const participants = chatId.split("_");
+  return participants.length === 2 && participants.every(uid => uid.length > 0) ? [participants[0], participants[1]] : null;
+}
+
+export function careTeamChannelId(patientId: string): string {
+  return `${CARE_TEAM_CHANNEL_PREFIX}${patientId}`;
+}
+
+export function careTeamChannelName(patientName: string): string {
+  return `Care team · ${patientName}`;
+}
+
+export const CreateGroupChatSchema = z.object({
+  name: z.string().trim().min(1, "Give the group a name.").max(GROUP_CHAT_NAME_MAX_LENGTH, `Group names must be ${GROUP_CHAT_NAME_MAX_LENGTH} characters or fewer.`),
+  memberIds: z.array(z.string().min(1)).min(1, "Add at least one member.").max(GROUP_CHAT_MAX_MEMBERS - 1, `Groups have at most ${GROUP_CHAT_MAX_MEMBERS} members.`),
+  patientId: z.string().min(1).optional(), // the patient whose care the group is about, if any
+});
+export type CreateGroupChatInput = z.infer<typeof CreateGroupChatSchema>;
+
+export const UpdateGroupChatSchema = z.object({
+  name: CreateGroupChatSchema.shape.name.optional(),
+  addMemberIds: z.array(z.string().min(1)).max(GROUP_CHAT_MAX_MEMBERS).optional(),
+  removeMemberIds: z.array(z.string().min(1)).max(GROUP_CHAT_MAX_MEMBERS).optional(),
+});
+export type UpdateGroupChatInput = z.infer<typeof UpdateGroupChatSchema>;
+
+// --- Family caregivers ---
+
+export const CAREGIVER_RELATIONSHIPS = ["spouse", "child", "parent", "sibling", "relative", "friend", "other"] as const;
+export type CaregiverRelationship = (typeof CAREGIVER_RELATIONSHIPS)[number];
+
+export const CAREGIVER_RELATIONSHIP_LABELS: Record<CaregiverRelationship, string> = {
+  spouse: "Spouse / Partner",
+  child: "Child",
+  parent: "Parent",
+  sibling: "Sibling",
+  relative: "Other relative",
+  friend: "Friend",
+  other: "Other",
+};
+
+export type FamilyCaregiver = {
+  uid: string;
+  name: string;
+  email: string | null;
+  relationship: CaregiverRelationship;
+  authorizedAt: string; // ISO string
+  authorizedBy: string; // uid
+};
+
+export const FamilyCaregiverInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter the email address of the caregiver's account."),
+  relationship: z.enum(CAREGIVER_RELATIONSHIPS),
+});
+export type FamilyCaregiverInput = z.infer<typeof FamilyCaregiverInputSchema>;
+
+// --- Mentions ---
+
+export type ChatMember = { uid: string; name: string };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "@Name" followed by anything but a letter or digit; longest names first so that
+// "@Amira Ben Ali" is not read as "@Amira".
+function mentionPattern(members: ChatMember[]): RegExp | null {
+  const names = [...new Set(members.map(member => member.name.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (names.length === 0) return null;
+  return new RegExp(`@(${names.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+// Members mentioned in a message text.
+export function findMentions(text: string, members: ChatMember[]): string[] {
+  const pattern = mentionPattern(members);
+  if (!pattern) return [];
+  const mentioned = new Set<string>();
+  for (const match of text.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    members.filter(member => member.name.trim().toLowerCase() === name).forEach(member => mentioned.add(member.uid));
+  }
+  return [...mentioned];
+}
+
+// The text split into plain parts and mentions, for highlighting.
+export function splitMentions(text: string, members: ChatMember[]): Array<{ text: string; isMention: boolean }> {
+  const pattern = mentionPattern(members);
+  if (!pattern) return [{ text, isMention: false }];
+  const parts: Array<{ text: string; isMention: boolean }> = [];
+  let position = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > position) parts.push({ text: text.slice(position, match.index), isMention: false });
+    parts.push({ text: match[0], isMention: true });
+    position = match.index! + match[0].length;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), isMention: false });
+  return parts;
+}
+
+// The partial "@name" being typed just before the caret, for mention suggestions.
+export function mentionQueryBeforeCaret(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([\p{L}\p{N}' -]{0,40})$/u.exec(text.slice(0, caret));
+  if (!match || /\s{2}/.test(match[2])) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
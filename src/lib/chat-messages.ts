@@ -0,0 +1,141 @@
+// Search, edits, deletion and retention of chat messages, shared by the chat page and the
+// chat retention admin page (client), the chat message server actions and the retention
+// worker.
+//
+// - Search runs on the server over the conversations of the caller, looking at the most
+//   recent CHAT_SEARCH_SCAN_LIMIT messages of each, with the word matching of the patient
+//   search (lib/patient-search.ts): accents and case ignored, prefixes and small typos.
+// - The sender edits a message within CHAT_MESSAGE_EDIT_WINDOW_MS and deletes it for everyone
+//   within CHAT_MESSAGE_DELETE_WINDOW_MS of sending, through server actions only. An edited
+//   message keeps `editedAt` (the "edited" marker) and each text it replaced in
+//   `chats/{chatId}/messages/{messageId}/revisions`, which only the server reads. A deleted
+//   one stays as a tombstone with `deletedAt`, no text or attachment, and no revisions. The
+//   audit trail (lib/audit.ts) records that a message was edited or deleted, never its text.
+// - Retention: admins set the policy (`settings/chatRetention`). The retention worker
+//   (src/jobs/chat-retention-worker.ts, `npm run chat-retention`) moves the messages older
+//   than the retention period to `archivedChatMessages`, or purges them. Their revisions
+//   are purged in both cases.
+
+import { z } from "zod";
+import { termMatchQuality, tokenizeSearchText } from "@/lib/patient-search";
+
+export const CHAT_MESSAGE_MAX_LENGTH = 4000;
+export const CHAT_MESSAGE_EDIT_WINDOW_MS = 24 * 60 * 60_000;
+export const CHAT_MESSAGE_DELETE_WINDOW_MS = 60 * 60_000;
+
+export const DELETED_MESSAGE_PREVIEW = "Message deleted";
+
+export const CHAT_MESSAGE_REVISIONS_SUBCOLLECTION = "revisions";
+
+export function canEditChatMessage(sentAt: Date | null, now: Date = new Date()): boolean {
+  return !!sentAt && now.getTime() - sentAt.getTime() <= CHAT_MESSAGE_EDIT_WINDOW_MS;
+}
+
+export function canDeleteChatMessage(sentAt: Date | null, now: Date = new Date()): boolean {
+  return !!sentAt && now.getTime() - sentAt.getTime() <= CHAT_MESSAGE_DELETE_WINDOW_MS;
+}
+
+export const EditChatMessageSchema = z.object({
+  text: z.string().trim().max(CHAT_MESSAGE_MAX_LENGTH, `Messages must be ${CHAT_MESSAGE_MAX_LENGTH} characters or fewer.`),
+});
+
+// --- Search ---
+
+export const CHAT_SEARCH_MIN_QUERY_LENGTH = 2;
+export const CHAT_SEARCH_RESULT_LIMIT = 30;
+export const CHAT_SEARCH_SCAN_LIMIT = 500; // most recent messages searched per conversation
+
+export type ChatSearchResult = {
+  chatId: string;
+  chatName: string; // the group name, or the other participant of a direct conversation
+  isGroup: boolean;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  snippet: string;
+  sentAt: string | null; // ISO string
+  score: number;
+};
+
+// Score of a message text for the query words (every word must match), or 0.
+export function chatMessageMatchScore(queryTerms: string[], text: string): number {
+  const words = [...new Set(tokenizeSearchText(text))];
+  let score = 0;
+  for (const queryTerm of queryTerms) {
+    const best = words.reduce((max, word) => Math.max(max, termMatchQuality(queryTerm, word)), 0);
+    if (best === 0) return 0;
+    score += best;
+  }
+  return score;
+}
+
+// A few words around the first matching word.
+export function chatMessageSnippet(queryTerms: string[], text: string): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const position = words.findIndex(word =>
+    tokenizeSearchText(word).some(token => queryTerms.some(queryTerm => termMatchQuality(queryTerm, token) > 0)));
+  const start = Math.max(0, position - 8);
+  const end = Math.min(words.length, Math.max(position, 0) + 12);
+  return `${start > 0 ? "… " : ""}${words.slice(start, end).join(" ")}${end < words.length ? " …" : ""}`;
+}
+
+// --- Retention ---
+
+export const CHAT_RETENTION_SETTINGS_COLLECTION = "settings";
+export const CHAT_RETENTION_SETTINGS_ID = "chatRetention";
+export const ARCHIVED_CHAT_MESSAGES_COLLECTION = "archivedChatMessages";
+
+export const CHAT_RETENTION_MODES = ["archive", "purge"] as const;
+export type ChatRetentionMode = (typeof CHAT_RETENTION_MODES)[number];
+
+export const CHAT_RETENTION_MODE_LABELS: Record<ChatRetentionMode, string> = {
+  archive: "Archive (kept out of the conversations, readable by admins)",
+  purge: "Purge (deleted permanently)",
+};
+
+export const CHAT_RETENTION_MIN_DAYS = 30;
+export const CHAT_RETENTION_MAX_DAYS = 3650;
+
+export const ChatRetentionPolicySchema = z.object({
+  enabled: z.boolean(),
+  mode: z.enum(CHAT_RETENTION_MODES),
+  retentionDays: z.coerce.number().int("The retention period is a whole number of days.")
+    .min(CHAT_RETENTION_MIN_DAYS, `Keep messages for at least ${CHAT_RETENTION_MIN_DAYS} days.`)
+    .max(CHAT_RETENTION_MAX_DAYS, `Keep messages for at most ${CHAT_RETENTION_MAX_DAYS} days.`),
+});
+export type ChatRetentionPolicy = z.infer<typeof ChatRetentionPolicySchema>;
+
+export const DEFAULT_CHAT_RETENTION_POLICY: ChatRetentionPolicy = { enabled: false, mode: "archive", retentionDays: 365 };
+
+export type ChatRetentionRun = {
+  at: string; // ISO string
+  mode: ChatRetentionMode;
+  archived: number;
+  purged: number;
+};
+
+export type ChatRetentionSettings = ChatRetentionPolicy & {
+  updatedAt: string | null; // ISO string
+  updatedBy: string | null; // email of the admin
+  lastRun: ChatRetentionRun | null;
+};
+
+// Messages sent before this date fall under the policy.
+export function chatRetentionCutoff(policy: ChatRetentionPolicy, now: Date = new Date()): Date {
+  return new Date(now.getTime() - policy.retentionDays * 24 * 60 * 60_000);
+}
+
+export function chatRetentionSettingsFromData(data: Record<string, any> | undefined): ChatRetentionSettings {
+  const parsed = ChatRetentionPolicySchema.safeParse(data ?? {});
+  const policy = parsed.success ? parsed.data : DEFAULT_CHAT_RETENTION_POLICY;
+  const toIso = (value: any): string | null => (value && typeof value.toDate === "function" ? value.toDate().toISOString() : null);
+  const lastRun = data?.lastRun;
+  return {
+    ...policy,
+    updatedAt: toIso(data?.updatedAt),
+    updatedBy: data?.updatedBy ?? null,
+    lastRun: lastRun && toIso(lastRun.at)
+      ? { at: toIso(lastRun.at)!, mode: lastRun.mode === "purge" ? "purge" : "archive", archived: lastRun.archived ?? 0, purged: lastRun.purged ?? 0 }
+      : null,
+  };
+}
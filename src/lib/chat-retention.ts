@@ -0,0 +1,85 @@
+// Server-only: the chat retention policy (lib/chat-messages.ts), applied by the retention
+// worker (src/jobs/chat-retention-worker.ts, `npm run chat-retention`) and by admins from
+// the chat retention page.
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Each sweep reads the policy and, when it is enabled, goes through every conversation and
+// handles its messages sent before the cutoff in batches: "archive" copies each message to
+// `archivedChatMessages/{chatId}_{messageId}` and removes it from the conversation in the same
+// batch, "purge" removes it. Either way the edit revisions of each message are purged first,
+// in their own batches. Both are idempotent, so an interrupted sweep is simply resumed by the
+// next one. Uploaded attachment files are not deleted; only the messages pointing to them.
+
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, serverTimestamp, setDoc, where, writeBatch, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ensureServerIdentity } from "@/lib/firebase-admin";
+import {
+  ARCHIVED_CHAT_MESSAGES_COLLECTION, CHAT_MESSAGE_REVISIONS_SUBCOLLECTION, CHAT_RETENTION_SETTINGS_COLLECTION, CHAT_RETENTION_SETTINGS_ID, chatRetentionCutoff, chatRetentionSettingsFromData,
+  type ChatRetentionMode,
+} from "@/lib/chat-messages";
+
+// Each archived message takes two writes (copy and delete); Firestore batches hold 500.
+const RETENTION_BATCH_SIZE = 200;
+const FIRESTORE_BATCH_LIMIT = 500;
+
+export type ChatRetentionSweepResult = {
+  enabled: boolean;
+  mode: ChatRetentionMode;
+  chats: number;
+  archived: number;
+  purged: number;
+};
+
+export async function runChatRetentionSweep(now: Date = new Date()): Promise<ChatRetentionSweepResult> {
+  if (!db || !(await ensureServerIdentity())) {
+    throw new Error("Firestore is not available for chat retention. Check the Firebase client and Admin SDK configuration.");
+  }
+  const firestore = db;
+  const settingsRef = doc(firestore, CHAT_RETENTION_SETTINGS_COLLECTION, CHAT_RETENTION_SETTINGS_ID);
+  const policy = chatRetentionSettingsFromData((await getDoc(settingsRef)).data());
+  const result: ChatRetentionSweepResult = { enabled: policy.enabled, mode: policy.mode, chats: 0, archived: 0, purged: 0 };
+  if (!policy.enabled) return result;
+
+  const cutoff = Timestamp.fromDate(chatRetentionCutoff(policy, now));
+  const chatsSnapshot = await getDocs(collection(firestore, "chats"));
+  for (const chatDoc of chatsSnapshot.docs) {
+    const messagesRef = collection(firestore, "chats", chatDoc.id, "messages");
+    const expiredQuery = query(messagesRef, where("timestamp", "<", cutoff), orderBy("timestamp", "asc"), limit(RETENTION_BATCH_SIZE));
+    let touched = false;
+    for (;;) {
+      const expired = await getDocs(expiredQuery);
+      if (expired.empty) break;
+      touched = true;
+      const revisionSnapshots = await Promise.all(
+        expired.docs.map(messageDoc => getDocs(collection(messageDoc.ref, CHAT_MESSAGE_REVISIONS_SUBCOLLECTION)))
+      );
+      const revisionRefs = revisionSnapshots.flatMap(snapshot => snapshot.docs.map(revisionDoc => revisionDoc.ref));
+      for (let i = 0; i < revisionRefs.length; i += FIRESTORE_BATCH_LIMIT) {
+        const revisionBatch = writeBatch(firestore);
+        revisionRefs.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach(ref => revisionBatch.delete(ref));
+        await revisionBatch.commit();
+      }
+      const batch = writeBatch(firestore);
+      expired.forEach(messageDoc => {
+        if (policy.mode === "archive") {
+          batch.set(doc(firestore, ARCHIVED_CHAT_MESSAGES_COLLECTION, `${chatDoc.id}_${messageDoc.id}`), {
+            ...messageDoc.data(),
+            chatId: chatDoc.id,
+            messageId: messageDoc.id,
+            archivedAt: serverTimestamp(),
+          });
+        }
+        batch.delete(messageDoc.ref);
+      });
+      await batch.commit();
+      if (policy.mode === "archive") result.archived += expired.size;
+      else result.purged += expired.size;
+    }
+    if (touched) result.chats++;
+  }
+
+  await setDoc(settingsRef, {
+    lastRun: { at: Timestamp.fromDate(now), mode: policy.mode, archived: result.archived, purged: result.purged },
+  }, { merge: true });
+  return result;
+}
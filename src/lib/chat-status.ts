@@ -0,0 +1,138 @@
+// Read receipts, typing indicators, presence and unread counts of the chat, shared by the
+// chat page and the sidebar (both client; everything is read and written with the client SDK
+// under the security rules).
+//
+// Conversation document `chats/{chatId}`, besides participants and names:
+// - `lastMessage` {messageId, senderId, preview, at}: written by the sender with every message;
+//   its preview follows edits and deletions (lib/chat-messages.ts).
+// - `unreadCounts.{uid}`: incremented for the receiver by the sender, reset by the reader.
+// - `deliveredTo.{uid}` / `readBy.{uid}`: per-participant cursors, the server time up to which
+//   messages reached the participant's app (any page) or were seen in the open conversation.
+//   A message is delivered / read when its timestamp is at or before the cursor.
+// - `typing.{uid}`: when the participant last typed; stale after TYPING_TIMEOUT_MS.
+// Groups and care team channels (lib/chat-groups.ts) keep the same fields for every member;
+// a message is delivered / read once it is for all the other members.
+//
+// Presence `presence/{uid}`: a heartbeat every PRESENCE_HEARTBEAT_MS while the app is open and
+// visible, "offline" when the tab is hidden or closed. A missed heartbeat (crash, lost
+// connection) counts as offline after PRESENCE_STALE_MS.
+
+import { Timestamp } from "firebase/firestore";
+import { CHAT_ATTACHMENT_KIND_LABELS, type ChatAttachmentKind } from "@/lib/chat-attachments";
+import { CHAT_TYPES, type ChatType } from "@/lib/chat-groups";
+
+export const PRESENCE_COLLECTION = "presence";
+export const PRESENCE_HEARTBEAT_MS = 60_000;
+export const PRESENCE_STALE_MS = 2.5 * PRESENCE_HEARTBEAT_MS;
+
+export const TYPING_TIMEOUT_MS = 8_000;
+export const TYPING_THROTTLE_MS = 3_000; // at most one typing write per interval
+
+export const LAST_MESSAGE_PREVIEW_LENGTH = 80;
+
+export type PresenceState = "online" | "offline";
+
+export type Presence = {
+  state: PresenceState;
+  lastSeenAt: Date | null;
+};
+
+export type ChatLastMessage = {
+  senderId: string;
+  preview: string;
+  at: Date | null;
+};
+
+// One conversation of the signed-in user, as listed in the inbox.
+export type ChatSummary = {
+  chatId: string;
+  type: ChatType;
+  name: string | null; // groups and care team channels only
+  patientId: string | null; // the patient a group is about, if any
+  managers: string[];
+  participants: string[];
+  participantNames: Record<string, string>;
+  lastMessage: ChatLastMessage | null;
+  unreadCount: number;
+  deliveredTo: Record<string, Date>;
+  readBy: Record<string, Date>;
+  typing: Record<string, Date>;
+};
+
+export type MessageReceipt = "pending" | "sent" | "delivered" | "read";
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+function toDateMap(value: unknown): Record<string, Date> {
+  if (!value || typeof value !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .map(([uid, at]) => [uid, toDate(at)] as const)
+      .filter((entry): entry is readonly [string, Date] => entry[1] !== null)
+  );
+}
+
+export function chatSummaryFromData(chatId: string, data: Record<string, any>, uid: string): ChatSummary {
+  return {
+    chatId,
+    type: CHAT_TYPES.includes(data.type) ? data.type : "direct",
+    name: data.name || null,
+    patientId: data.patientId || null,
+    managers: Array.isArray(data.managers) ? data.managers : [],
+    participants: Array.isArray(data.participants) ? data.participants : [],
+    participantNames: data.participantNames && typeof data.participantNames === "object" ? data.participantNames : {},
+    lastMessage: data.lastMessage
+      ? { senderId: data.lastMessage.senderId, preview: data.lastMessage.preview || "", at: toDate(data.lastMessage.at) }
+      : null,
+    unreadCount: Math.max(0, Number(data.unreadCounts?.[uid]) || 0),
+    deliveredTo: toDateMap(data.deliveredTo),
+    readBy: toDateMap(data.readBy),
+    typing: toDateMap(data.typing),
+  };
+}
+
+export function presenceFromData(data: Record<string, any> | undefined): Presence {
+  return { state: data?.state === "online" ? "online" : "offline", lastSeenAt: toDate(data?.lastSeenAt) };
+}
+
+export function isPresenceOnline(presence: Presence | undefined, now: number = Date.now()): boolean {
+  return !!presence && presence.state === "online" && !!presence.lastSeenAt && now - presence.lastSeenAt.getTime() < PRESENCE_STALE_MS;
+}
+
+export function isTyping(typingAt: Date | undefined, now: number = Date.now()): boolean {
+  return !!typingAt && now - typingAt.getTime() < TYPING_TIMEOUT_MS;
+}
+
+// Ticks of a message sent by the current user, from the other participant's cursors.
+export function messageReceipt(sentAt: Date | null, deliveredAt: Date | undefined, readAt: Date | undefined): MessageReceipt {
+  if (!sentAt) return "pending"; // not yet acknowledged by the server
+  if (readAt && readAt >= sentAt) return "read";
+  if (deliveredAt && deliveredAt >= sentAt) return "delivered";
+  return "sent";
+}
+
+// The cursor all of `uids` have reached: the earliest of theirs, none if one is missing.
+export function earliestCursor(cursors: Record<string, Date>, uids: string[]): Date | undefined {
+  if (uids.length === 0 || uids.some(uid => !cursors[uid])) return undefined;
+  return uids.map(uid => cursors[uid]).reduce((earliest, at) => (at < earliest ? at : earliest));
+}
+
+// A message from someone else has arrived since the participant's app last acknowledged it.
+export function needsDeliveryReceipt(summary: ChatSummary, uid: string): boolean {
+  const last = summary.lastMessage;
+  if (!last || !last.at || last.senderId === uid) return false;
+  const deliveredAt = summary.deliveredTo[uid];
+  return !deliveredAt || deliveredAt < last.at;
+}
+
+export function lastMessagePreview(text: string, attachmentKind?: ChatAttachmentKind): string {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  const preview = attachmentKind ? `[${CHAT_ATTACHMENT_KIND_LABELS[attachmentKind]}]${trimmed ? ` ${trimmed}` : ""}` : trimmed;
+  return preview.length > LAST_MESSAGE_PREVIEW_LENGTH ? `${preview.slice(0, LAST_MESSAGE_PREVIEW_LENGTH - 1)}…` : preview;
+}
+
+export function formatUnreadCount(count: number): string {
+  return count > 99 ? "99+" : String(count);
+}
@@ -0,0 +1,167 @@
+// Bundled drug–allergy and drug–drug interaction table used when prescribing.
+// This is a deliberately small, local reference covering drugs commonly prescribed in
+// home care; it is a safety net, not a substitute for clinical judgement or a full
+// drug database. Names are matched without case or accents, in French and English.
+
+export type ConflictSeverity = "major" | "moderate";
+
+export type PrescriptionConflict = {
+  type: "allergy" | "interaction";
+  severity: ConflictSeverity;
+  // The allergy or the current medication the new drug conflicts with.
+  conflictsWith: string;
+  message: string;
+};
+
+// Drug classes and the drug names (generic and common brand names) they contain.
+const DRUG_CLASSES = {
+  penicillins: ["penicillin", "penicilline", "amoxicillin", "amoxicilline", "ampicillin", "ampicilline", "augmentin", "piperacillin", "piperacilline", "cloxacillin", "cloxacilline", "oxacillin", "oxacilline"],
+  cephalosporins: ["cefalexin", "cefalexine", "cephalexin", "cefuroxime", "ceftriaxone", "cefixime", "cefazolin", "cefazoline", "cefotaxime", "cefepime"],
+  sulfonamides: ["sulfamethoxazole", "cotrimoxazole", "co-trimoxazole", "bactrim", "sulfadiazine", "sulfasalazine"],
+  aspirin: ["aspirin", "aspirine", "acetylsalicylic", "acetylsalicylique", "aspegic", "kardegic"],
+  nsaids: ["ibuprofen", "ibuprofene", "diclofenac", "naproxen", "naproxene", "ketoprofen", "ketoprofene", "indomethacin", "indometacine", "piroxicam", "meloxicam", "celecoxib", "voltarene", "profenid", "brufen"],
+  opioids: ["morphine", "codeine", "tramadol", "oxycodone", "fentanyl", "hydromorphone"],
+  anticoagulants: ["warfarin", "warfarine", "acenocoumarol", "sintrom", "coumadine", "apixaban", "rivaroxaban", "dabigatran", "heparin", "heparine", "enoxaparin", "enoxaparine", "lovenox"],
+  antiplatelets: ["clopidogrel", "plavix", "ticagrelor", "prasugrel"],
+  aceInhibitors: ["lisinopril", "enalapril", "ramipril", "captopril", "perindopril", "coversyl"],
+  arbs: ["losartan", "valsartan", "irbesartan", "candesartan", "telmisartan"],
+  potassiumSparing: ["spironolactone", "aldactone", "eplerenone", "amiloride", "triamterene"],
+  potassiumSupplements: ["potassium chloride", "chlorure de potassium", "diffu-k", "kaleorid"],
+  ssris: ["fluoxetine", "sertraline", "paroxetine", "citalopram", "escitalopram", "fluvoxamine"],
+  maois: ["phenelzine", "tranylcypromine", "selegiline", "moclobemide"],
+  nitrates: ["nitroglycerin", "nitroglycerine", "trinitrine", "isosorbide"],
+  pde5Inhibitors: ["sildenafil", "tadalafil", "vardenafil", "viagra", "cialis"],
+  macrolides: ["clarithromycin", "clarithromycine", "erythromycin", "erythromycine"],
+  statins: ["simvastatin", "simvastatine", "atorvastatin", "atorvastatine", "lovastatin", "lovastatine"],
+  benzodiazepines: ["diazepam", "lorazepam", "alprazolam", "bromazepam", "clonazepam", "oxazepam", "valium", "lexomil", "xanax"],
+  iodinatedContrast: ["iodinated contrast", "produit de contraste iode"],
+  fluoroquinolones: ["ciprofloxacin", "ciprofloxacine", "levofloxacin", "levofloxacine", "ofloxacin", "ofloxacine", "moxifloxacin", "moxifloxacine"],
+  metformin: ["metformin", "metformine", "glucophage"],
+  digoxin: ["digoxin", "digoxine"],
+  amiodarone: ["amiodarone", "cordarone"],
+  methotrexate: ["methotrexate"],
+  allopurinol: ["allopurinol", "zyloric"],
+  azathioprine: ["azathioprine", "imurel"],
+  lithium: ["lithium", "teralithe"],
+  omeprazole: ["omeprazole", "esomeprazole", "mopral", "inexium"],
+  paracetamol: ["paracetamol", "acetaminophen", "doliprane", "efferalgan", "dafalgan"],
+  insulin: ["insulin", "insuline", "lantus", "novorapid", "humalog", "levemir"],
+  sulfonylureas: ["glibenclamide", "gliclazide", "glimepiride", "diamicron", "daonil"],
+} satisfies Record<string, string[]>;
+
+type DrugClass = keyof typeof DRUG_CLASSES;
+
+// Allergy keywords (as written in patients' `allergies`) and the classes they rule out.
+// `crossReactive` classes are reported as moderate (caution) rather than major.
+const ALLERGY_RULES: Array<{ keywords: string[]; classes: DrugClass[]; crossReactive?: DrugClass[] }> = [
+  { keywords: ["penicillin", "penicilline", "amoxicillin", "amoxicilline", "betalactam", "beta-lactam", "betalactamine"], classes: ["penicillins"], crossReactive: ["cephalosporins"] },
+  { keywords: ["cephalosporin", "cephalosporine"], classes: ["cephalosporins"], crossReactive: ["penicillins"] },
+  { keywords: ["sulfa", "sulfamide", "sulfonamide", "sulfamides", "bactrim"], classes: ["sulfonamides"] },
+  { keywords: ["aspirin", "aspirine", "salicylate", "salicyles"], classes: ["aspirin"], crossReactive: ["nsaids"] },
+  { keywords: ["nsaid", "ains", "anti-inflammatoire", "ibuprofen", "ibuprofene"], classes: ["nsaids", "aspirin"] },
+  { keywords: ["codeine", "morphine", "opioid", "opiace", "opiaces"], classes: ["opioids"] },
+  { keywords: ["iode", "iodine", "contrast", "contraste"], classes: ["iodinatedContrast"] },
+  { keywords: ["quinolone", "fluoroquinolone", "ciprofloxacin", "ciprofloxacine"], classes: ["fluoroquinolones"] },
+  { keywords: ["paracetamol", "acetaminophen"], classes: ["paracetamol"] },
+  { keywords: ["heparin", "heparine"], classes: ["anticoagulants"] },
+  { keywords: ["insulin", "insuline"], classes: ["insulin"] },
+];
+
+const INTERACTION_RULES: Array<{ a: DrugClass; b: DrugClass; severity: ConflictSeverity; effect: string }> = [
+  { a: "anticoagulants", b: "aspirin", severity: "major", effect: "increased bleeding risk" },
+  { a: "anticoagulants", b: "nsaids", severity: "major", effect: "increased bleeding risk" },
+  { a: "anticoagulants", b: "antiplatelets", severity: "major", effect: "increased bleeding risk" },
+  { a: "anticoagulants", b: "amiodarone", severity: "major", effect: "potentiated anticoagulation (INR rise)" },
+  { a: "anticoagulants", b: "macrolides", severity: "moderate", effect: "potentiated anticoagulation" },
+  { a: "anticoagulants", b: "fluoroquinolones", severity: "moderate", effect: "potentiated anticoagulation" },
+  { a: "anticoagulants", b: "sulfonamides", severity: "major", effect: "potentiated anticoagulation" },
+  { a: "aceInhibitors", b: "potassiumSparing", severity: "major", effect: "risk of hyperkalaemia" },
+  { a: "aceInhibitors", b: "potassiumSupplements", severity: "major", effect: "risk of hyperkalaemia" },
+  { a: "arbs", b: "potassiumSparing", severity: "major", effect: "risk of hyperkalaemia" },
+  { a: "aceInhibitors", b: "arbs", severity: "moderate", effect: "dual RAS blockade (hyperkalaemia, renal failure)" },
+  { a: "aceInhibitors", b: "nsaids", severity: "moderate", effect: "reduced antihypertensive effect and renal risk" },
+  { a: "aceInhibitors", b: "lithium", severity: "major", effect: "lithium toxicity" },
+  { a: "nsaids", b: "lithium", severity: "major", effect: "lithium toxicity" },
+  { a: "aspirin", b: "nsaids", severity: "moderate", effect: "gastrointestinal bleeding risk" },
+  { a: "nsaids", b: "methotrexate", severity: "major", effect: "methotrexate toxicity" },
+  { a: "sulfonamides", b: "methotrexate", severity: "major", effect: "bone marrow suppression" },
+  { a: "ssris", b: "maois", severity: "major", effect: "serotonin syndrome" },
+  { a: "ssris", b: "opioids", severity: "moderate", effect: "serotonin syndrome (notably with tramadol)" },
+  { a: "ssris", b: "nsaids", severity: "moderate", effect: "gastrointestinal bleeding risk" },
+  { a: "ssris", b: "anticoagulants", severity: "moderate", effect: "increased bleeding risk" },
+  { a: "nitrates", b: "pde5Inhibitors", severity: "major", effect: "severe hypotension" },
+  { a: "statins", b: "macrolides", severity: "major", effect: "rhabdomyolysis risk" },
+  { a: "statins", b: "amiodarone", severity: "moderate", effect: "myopathy risk" },
+  { a: "digoxin", b: "amiodarone", severity: "major", effect: "digoxin toxicity" },
+  { a: "digoxin", b: "macrolides", severity: "moderate", effect: "digoxin toxicity" },
+  { a: "antiplatelets", b: "omeprazole", severity: "moderate", effect: "reduced clopidogrel efficacy" },
+  { a: "antiplatelets", b: "nsaids", severity: "moderate", effect: "increased bleeding risk" },
+  { a: "opioids", b: "benzodiazepines", severity: "major", effect: "respiratory depression" },
+  { a: "metformin", b: "iodinatedContrast", severity: "major", effect: "lactic acidosis risk" },
+  { a: "allopurinol", b: "azathioprine", severity: "major", effect: "bone marrow suppression" },
+  { a: "insulin", b: "sulfonylureas", severity: "moderate", effect: "hypoglycaemia risk" },
+  { a: "fluoroquinolones", b: "amiodarone", severity: "major", effect: "QT prolongation" },
+  { a: "macrolides", b: "amiodarone", severity: "major", effect: "QT prolongation" },
+];
+
+export function normalizeDrugName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\- ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Whole-word (or whole-phrase) match so that "Amoxicilline 1g" matches "amoxicilline".
+function containsTerm(text: string, term: string): boolean {
+  return ` ${text} `.includes(` ${term} `);
+}
+
+export function getDrugClasses(drug: string): DrugClass[] {
+  const normalized = normalizeDrugName(drug);
+  return (Object.keys(DRUG_CLASSES) as DrugClass[]).filter(cls => DRUG_CLASSES[cls].some(name => containsTerm(normalized, name)));
+}
+
+export function checkDrugAllergies(drug: string, allergies: string[]): PrescriptionConflict[] {
+  const drugClasses = getDrugClasses(drug);
+  const conflicts: PrescriptionConflict[] = [];
+  for (const allergy of allergies) {
+    const normalizedAllergy = normalizeDrugName(allergy);
+    if (!normalizedAllergy) continue;
+    for (const rule of ALLERGY_RULES) {
+      if (!rule.keywords.some(keyword => containsTerm(normalizedAllergy, keyword))) continue;
+      if (rule.classes.some(cls => drugClasses.includes(cls))) {
+        conflicts.push({ type: "allergy", severity: "major", conflictsWith: allergy, message: `${drug} is contraindicated: patient is allergic to ${allergy}.` });
+        break;
+      }
+      if (rule.crossReactive?.some(cls => drugClasses.includes(cls))) {
+        conflicts.push({ type: "allergy", severity: "moderate", conflictsWith: allergy, message: `${drug} may cross-react with the patient's ${allergy} allergy.` });
+        break;
+      }
+    }
+  }
+  return conflicts;
+}
+
+export function checkDrugInteractions(drug: string, currentDrugs: string[]): PrescriptionConflict[] {
+  const drugClasses = getDrugClasses(drug);
+  const conflicts: PrescriptionConflict[] = [];
+  for (const current of currentDrugs) {
+    const currentClasses = getDrugClasses(current);
+    const rule = INTERACTION_RULES.find(r =>
+      (drugClasses.includes(r.a) && currentClasses.includes(r.b)) || (drugClasses.includes(r.b) && currentClasses.includes(r.a))
+    );
+    if (rule) {
+      conflicts.push({ type: "interaction", severity: rule.severity, conflictsWith: current, message: `${drug} + ${current}: ${rule.effect}.` });
+    } else if (drugClasses.length > 0 && drugClasses.some(cls => currentClasses.includes(cls))) {
+      conflicts.push({ type: "interaction", severity: "moderate", conflictsWith: current, message: `${drug} duplicates the therapeutic class of ${current}.` });
+    }
+  }
+  return conflicts;
+}
+
+export function checkPrescriptionConflicts(drug: string, allergies: string[], currentDrugs: string[]): PrescriptionConflict[] {
+  return [...checkDrugAllergies(drug, allergies), ...checkDrugInteractions(drug, currentDrugs)];
+}
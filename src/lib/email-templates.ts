@@ -0,0 +1,322 @@
+// Transactional email templates with English, French and Arabic copy. Each template
+// renders to a subject plus HTML and plain-text parts; the locale comes from the
+// recipient's preferences (see lib/notification-preferences.ts).
+//
+// Copy is written as short structured blocks (paragraphs, a detail list, a call to action)
+// so that the HTML and text parts can never drift apart. `{{variable}}` placeholders are
+// HTML-escaped in the HTML part. Date variables are formatted in the recipient's locale.
+
+import { format } from "date-fns";
+import { ar, fr, enUS, type Locale } from "date-fns/locale";
+
+export const EMAIL_LOCALES = ["en", "fr", "ar"] as const;
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = "en";
+
+export const EMAIL_LOCALE_LABELS: Record<EmailLocale, string> = {
+  en: "English",
+  fr: "Français",
+  ar: "العربية",
+};
+
+export const EMAIL_TEMPLATE_IDS = [
+  "welcome",
+  "nurseOnboarding",
+  "appointmentBooked",
+  "appointmentChanged",
+  "appointmentCancelled",
+  "consultScheduled",
+  "reminder",
+  "chatMessage",
+  "fileUploaded",
+  "passwordReset",
+] as const;
+export type EmailTemplateId = (typeof EMAIL_TEMPLATE_IDS)[number];
+
+export type EmailVariables = Record<string, string | number | Date | undefined>;
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+type TemplateCopy = {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  details?: Array<[label: string, value: string]>;
+  action?: { label: string; url: string };
+};
+
+type EmailTemplate = {
+  description: string;
+  variables: readonly string[];
+  // Used by the admin preview.
+  sample: EmailVariables;
+  copy: Record<EmailLocale, TemplateCopy>;
+};
+
+const DATE_LOCALES: Record<EmailLocale, Locale> = { en: enUS, fr, ar };
+
+const LAYOUT_COPY: Record<EmailLocale, { greeting: string; signOff: string; team: string; footer: string }> = {
+  en: {
+    greeting: "Hello {{name}},",
+    signOff: "Best regards,",
+    team: "The SanHome Team",
+    footer: "You receive this email because you have a SanHome account. Manage your notification preferences in Settings.",
+  },
+  fr: {
+    greeting: "Bonjour {{name}},",
+    signOff: "Cordialement,",
+    team: "L'équipe SanHome",
+    footer: "Vous recevez cet e-mail car vous avez un compte SanHome. Gérez vos préférences de notification dans les Paramètres.",
+  },
+  ar: {
+    greeting: "مرحبًا {{name}}،",
+    signOff: "مع أطيب التحيات،",
+    team: "فريق SanHome",
+    footer: "تصلك هذه الرسالة لأن لديك حسابًا في SanHome. يمكنك إدارة تفضيلات الإشعارات من الإعدادات.",
+  },
+};
+
+const SAMPLE_DATE = new Date(2025, 5, 2, 9, 30);
+
+const appointmentDetails = {
+  en: [["Type", "{{appointmentType}}"], ["Patient", "{{patientName}}"], ["Nurse", "{{nurseName}}"], ["When", "{{dateTime}}"], ["Visits in the series", "{{visitCount}}"]],
+  fr: [["Type", "{{appointmentType}}"], ["Patient", "{{patientName}}"], ["Infirmier(ère)", "{{nurseName}}"], ["Date", "{{dateTime}}"], ["Visites de la série", "{{visitCount}}"]],
+  ar: [["النوع", "{{appointmentType}}"], ["المريض", "{{patientName}}"], ["الممرض(ة)", "{{nurseName}}"], ["الموعد", "{{dateTime}}"], ["عدد زيارات السلسلة", "{{visitCount}}"]],
+} satisfies Record<EmailLocale, Array<[string, string]>>;
+
+// `visitCount` is only set for recurring series; `dateTime` is then the first visit.
+const APPOINTMENT_VARIABLES = ["name", "appointmentType", "patientName", "nurseName", "dateTime", "visitCount", "detailsUrl"] as const;
+const APPOINTMENT_SAMPLE: EmailVariables = {
+  name: "Ahmed Ben Salah", appointmentType: "Wound Care", patientName: "Ahmed Ben Salah", nurseName: "Leila Haddad",
+  dateTime: SAMPLE_DATE, detailsUrl: "http://localhost:3000/appointments/sample",
+};
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateId, EmailTemplate> = {
+  welcome: {
+    description: "Sent once after a user signs up.",
+    variables: ["name", "loginUrl"],
+    sample: { name: "Ahmed Ben Salah", loginUrl: "http://localhost:3000/login" },
+    copy: {
+      en: {
+        subject: "Welcome to SanHome",
+        heading: "Welcome to SanHome",
+        paragraphs: ["Your account is ready. You can now follow your care plan, book home visits and talk to your care team.", "Please confirm your email address with the verification email we sent separately."],
+        action: { label: "Sign in to SanHome", url: "{{loginUrl}}" },
+      },
+      fr: {
+        subject: "Bienvenue sur SanHome",
+        heading: "Bienvenue sur SanHome",
+        paragraphs: ["Votre compte est prêt. Vous pouvez désormais suivre votre plan de soins, réserver des visites à domicile et échanger avec votre équipe soignante.", "Merci de confirmer votre adresse e-mail grâce à l'e-mail de vérification envoyé séparément."],
+        action: { label: "Se connecter à SanHome", url: "{{loginUrl}}" },
+      },
+      ar: {
+        subject: "مرحبًا بك في SanHome",
+        heading: "مرحبًا بك في SanHome",
+        paragraphs: ["حسابك جاهز. يمكنك الآن متابعة خطة رعايتك وحجز الزيارات المنزلية والتواصل مع فريق الرعاية.", "يرجى تأكيد بريدك الإلكتروني عبر رسالة التحقق التي أرسلناها بشكل منفصل."],
+        action: { label: "تسجيل الدخول إلى SanHome", url: "{{loginUrl}}" },
+      },
+    },
+  },
+  nurseOnboarding: {
+    description: "Sent to a nurse added by an administrator, with a link to choose their password.",
+    variables: ["name", "email", "inviteUrl", "loginUrl"],
+    sample: { name: "Leila Haddad", email: "leila.haddad@sanhome.com", inviteUrl: "http://localhost:3000/__/auth/action?mode=resetPassword&oobCode=sample", loginUrl: "http://localhost:3000/login" },
+    copy: {
+      en: {
+        subject: "You are invited to join SanHome",
+        heading: "Your nurse account is ready",
+        paragraphs: [
+          "An administrator added you to the SanHome care team. Choose your password with the button below, then sign in with your email address.",
+          "The link expires after one hour. If it has expired, use \"Forgot your password?\" on the sign-in page ({{loginUrl}}) to get a new one.",
+        ],
+        details: [["Email", "{{email}}"]],
+        action: { label: "Choose my password", url: "{{inviteUrl}}" },
+      },
+      fr: {
+        subject: "Vous êtes invité(e) à rejoindre SanHome",
+        heading: "Votre compte infirmier est prêt",
+        paragraphs: [
+          "Un administrateur vous a ajouté(e) à l'équipe soignante SanHome. Choisissez votre mot de passe avec le bouton ci-dessous, puis connectez-vous avec votre adresse e-mail.",
+          "Le lien expire au bout d'une heure. S'il a expiré, utilisez « Mot de passe oublié ? » sur la page de connexion ({{loginUrl}}) pour en obtenir un nouveau.",
+        ],
+        details: [["E-mail", "{{email}}"]],
+        action: { label: "Choisir mon mot de passe", url: "{{inviteUrl}}" },
+      },
+      ar: {
+        subject: "دعوة للانضمام إلى SanHome",
+        heading: "حسابك كممرض(ة) جاهز",
+        paragraphs: [
+          "أضافك أحد المسؤولين إلى فريق الرعاية في SanHome. اختر كلمة المرور عبر الزر أدناه، ثم سجّل الدخول باستخدام بريدك الإلكتروني.",
+          "تنتهي صلاحية الرابط بعد ساعة واحدة. إذا انتهت صلاحيته، استخدم \"نسيت كلمة المرور؟\" في صفحة تسجيل الدخول ({{loginUrl}}) للحصول على رابط جديد.",
+        ],
+        details: [["البريد الإلكتروني", "{{email}}"]],
+        action: { label: "اختيار كلمة المرور", url: "{{inviteUrl}}" },
+      },
+    },
+  },
+  appointmentBooked: {
+    description: "Sent to the patient and the nurse when an appointment is booked.",
+    variables: APPOINTMENT_VARIABLES,
+    sample: APPOINTMENT_SAMPLE,
+    copy: {
+      en: { subject: "Appointment booked: {{appointmentType}} on {{dateTime}}", heading: "Appointment booked", paragraphs: ["A home visit has been booked."], details: appointmentDetails.en, action: { label: "View appointment", url: "{{detailsUrl}}" } },
+      fr: { subject: "Rendez-vous réservé : {{appointmentType}} le {{dateTime}}", heading: "Rendez-vous réservé", paragraphs: ["Une visite à domicile a été réservée."], details: appointmentDetails.fr, action: { label: "Voir le rendez-vous", url: "{{detailsUrl}}" } },
+      ar: { subject: "تم حجز موعد: {{appointmentType}} بتاريخ {{dateTime}}", heading: "تم حجز الموعد", paragraphs: ["تم حجز زيارة منزلية."], details: appointmentDetails.ar, action: { label: "عرض الموعد", url: "{{detailsUrl}}" } },
+    },
+  },
+  appointmentChanged: {
+    description: "Sent when an appointment is rescheduled or edited.",
+    variables: APPOINTMENT_VARIABLES,
+    sample: APPOINTMENT_SAMPLE,
+    copy: {
+      en: { subject: "Appointment changed: {{appointmentType}} on {{dateTime}}", heading: "Appointment changed", paragraphs: ["An appointment was updated. Here are the new details."], details: appointmentDetails.en, action: { label: "View appointment", url: "{{detailsUrl}}" } },
+      fr: { subject: "Rendez-vous modifié : {{appointmentType}} le {{dateTime}}", heading: "Rendez-vous modifié", paragraphs: ["Un rendez-vous a été modifié. Voici les nouvelles informations."], details: appointmentDetails.fr, action: { label: "Voir le rendez-vous", url: "{{detailsUrl}}" } },
+      ar: { subject: "تم تعديل موعد: {{appointmentType}} بتاريخ {{dateTime}}", heading: "تم تعديل الموعد", paragraphs: ["تم تحديث أحد المواعيد. إليك التفاصيل الجديدة."], details: appointmentDetails.ar, action: { label: "عرض الموعد", url: "{{detailsUrl}}" } },
+    },
+  },
+  appointmentCancelled: {
+    description: "Sent when an appointment is cancelled.",
+    variables: APPOINTMENT_VARIABLES,
+    sample: APPOINTMENT_SAMPLE,
+    copy: {
+      en: { subject: "Appointment cancelled: {{appointmentType}} on {{dateTime}}", heading: "Appointment cancelled", paragraphs: ["The following appointment was cancelled. Contact your care team to book a new visit."], details: appointmentDetails.en, action: { label: "View appointment", url: "{{detailsUrl}}" } },
+      fr: { subject: "Rendez-vous annulé : {{appointmentType}} le {{dateTime}}", heading: "Rendez-vous annulé", paragraphs: ["Le rendez-vous suivant a été annulé. Contactez votre équipe soignante pour réserver une nouvelle visite."], details: appointmentDetails.fr, action: { label: "Voir le rendez-vous", url: "{{detailsUrl}}" } },
+      ar: { subject: "تم إلغاء موعد: {{appointmentType}} بتاريخ {{dateTime}}", heading: "تم إلغاء الموعد", paragraphs: ["تم إلغاء الموعد التالي. تواصل مع فريق الرعاية لحجز زيارة جديدة."], details: appointmentDetails.ar, action: { label: "عرض الموعد", url: "{{detailsUrl}}" } },
+    },
+  },
+  consultScheduled: {
+    description: "Sent to the patient and the nurse when a video consultation is scheduled. Carries a calendar invitation.",
+    variables: ["name", "patientName", "nurseName", "dateTime", "roomId", "joinUrl"],
+    sample: { name: "Ahmed Ben Salah", patientName: "Ahmed Ben Salah", nurseName: "Leila Haddad", dateTime: SAMPLE_DATE, roomId: "sanhome-webrtc-a1b2c3d4", joinUrl: "http://localhost:3000/video-consult?roomId=sanhome-webrtc-a1b2c3d4" },
+    copy: {
+      en: {
+        subject: "Video consultation scheduled on {{dateTime}}",
+        heading: "Video consultation scheduled",
+        paragraphs: ["A video consultation has been scheduled. Join it from the app with the room ID or the button below."],
+        details: [["Patient", "{{patientName}}"], ["Nurse", "{{nurseName}}"], ["When", "{{dateTime}}"], ["Room ID", "{{roomId}}"]],
+        action: { label: "Join the call", url: "{{joinUrl}}" },
+      },
+      fr: {
+        subject: "Téléconsultation prévue le {{dateTime}}",
+        heading: "Téléconsultation prévue",
+        paragraphs: ["Une téléconsultation a été planifiée. Rejoignez-la depuis l'application avec l'identifiant de salle ou le bouton ci-dessous."],
+        details: [["Patient", "{{patientName}}"], ["Infirmier(ère)", "{{nurseName}}"], ["Date", "{{dateTime}}"], ["Salle", "{{roomId}}"]],
+        action: { label: "Rejoindre l'appel", url: "{{joinUrl}}" },
+      },
+      ar: {
+        subject: "تم تحديد استشارة بالفيديو بتاريخ {{dateTime}}",
+        heading: "تم تحديد استشارة بالفيديو",
+        paragraphs: ["تم تحديد موعد استشارة بالفيديو. انضم إليها من التطبيق باستخدام رمز الغرفة أو الزر أدناه."],
+        details: [["المريض", "{{patientName}}"], ["الممرض(ة)", "{{nurseName}}"], ["الموعد", "{{dateTime}}"], ["رمز الغرفة", "{{roomId}}"]],
+        action: { label: "الانضمام إلى المكالمة", url: "{{joinUrl}}" },
+      },
+    },
+  },
+  reminder: {
+    description: "Sent by the reminder worker before appointments and video consultations.",
+    variables: ["name", "eventTitle", "patientName", "nurseName", "dateTime", "detailsUrl"],
+    sample: { name: "Ahmed Ben Salah", eventTitle: "Wound Care", patientName: "Ahmed Ben Salah", nurseName: "Leila Haddad", dateTime: SAMPLE_DATE, detailsUrl: "http://localhost:3000/appointments/sample" },
+    copy: {
+      en: { subject: "Reminder: {{eventTitle}} on {{dateTime}}", heading: "Upcoming visit", paragraphs: ["This is a reminder of your upcoming {{eventTitle}}."], details: [["Patient", "{{patientName}}"], ["Nurse", "{{nurseName}}"], ["When", "{{dateTime}}"]], action: { label: "View details", url: "{{detailsUrl}}" } },
+      fr: { subject: "Rappel : {{eventTitle}} le {{dateTime}}", heading: "Visite à venir", paragraphs: ["Ceci est un rappel pour votre prochain rendez-vous : {{eventTitle}}."], details: [["Patient", "{{patientName}}"], ["Infirmier(ère)", "{{nurseName}}"], ["Date", "{{dateTime}}"]], action: { label: "Voir les détails", url: "{{detailsUrl}}" } },
+      ar: { subject: "تذكير: {{eventTitle}} بتاريخ {{dateTime}}", heading: "زيارة قادمة", paragraphs: ["هذا تذكير بموعدك القادم: {{eventTitle}}."], details: [["المريض", "{{patientName}}"], ["الممرض(ة)", "{{nurseName}}"], ["الموعد", "{{dateTime}}"]], action: { label: "عرض التفاصيل", url: "{{detailsUrl}}" } },
+    },
+  },
+  chatMessage: {
+    description: "Sent when a chat message arrives. Never includes the message itself.",
+    variables: ["name", "senderName", "chatUrl"],
+    sample: { name: "Leila Haddad", senderName: "Ahmed Ben Salah", chatUrl: "http://localhost:3000/chat" },
+    copy: {
+      en: { subject: "New message from {{senderName}}", heading: "New message", paragraphs: ["{{senderName}} sent you a message on SanHome."], action: { label: "Open the chat", url: "{{chatUrl}}" } },
+      fr: { subject: "Nouveau message de {{senderName}}", heading: "Nouveau message", paragraphs: ["{{senderName}} vous a envoyé un message sur SanHome."], action: { label: "Ouvrir la messagerie", url: "{{chatUrl}}" } },
+      ar: { subject: "رسالة جديدة من {{senderName}}", heading: "رسالة جديدة", paragraphs: ["أرسل لك {{senderName}} رسالة على SanHome."], action: { label: "فتح المحادثة", url: "{{chatUrl}}" } },
+    },
+  },
+  fileUploaded: {
+    description: "Sent to the patient and their primary nurse when a medical file is uploaded.",
+    variables: ["name", "uploaderName", "fileName", "patientName", "filesUrl"],
+    sample: { name: "Ahmed Ben Salah", uploaderName: "Leila Haddad", fileName: "blood-test.pdf", patientName: "Ahmed Ben Salah", filesUrl: "http://localhost:3000/medical-files" },
+    copy: {
+      en: { subject: "New medical file for {{patientName}}", heading: "New medical file", paragraphs: ["{{uploaderName}} added \"{{fileName}}\" to the medical record of {{patientName}}."], action: { label: "View medical files", url: "{{filesUrl}}" } },
+      fr: { subject: "Nouveau document médical pour {{patientName}}", heading: "Nouveau document médical", paragraphs: ["{{uploaderName}} a ajouté « {{fileName}} » au dossier médical de {{patientName}}."], action: { label: "Voir les documents", url: "{{filesUrl}}" } },
+      ar: { subject: "ملف طبي جديد لـ {{patientName}}", heading: "ملف طبي جديد", paragraphs: ["أضاف {{uploaderName}} الملف \"{{fileName}}\" إلى الملف الطبي لـ {{patientName}}."], action: { label: "عرض الملفات الطبية", url: "{{filesUrl}}" } },
+    },
+  },
+  passwordReset: {
+    description: "Sent when a user asks to reset a forgotten password.",
+    variables: ["name", "resetUrl"],
+    sample: { name: "Ahmed Ben Salah", resetUrl: "http://localhost:3000/__/auth/action?mode=resetPassword&oobCode=sample" },
+    copy: {
+      en: { subject: "Reset your SanHome password", heading: "Reset your password", paragraphs: ["We received a request to reset the password of your SanHome account. The link below expires in one hour.", "If you did not ask for this, you can ignore this email: your password stays the same."], action: { label: "Choose a new password", url: "{{resetUrl}}" } },
+      fr: { subject: "Réinitialisez votre mot de passe SanHome", heading: "Réinitialisation du mot de passe", paragraphs: ["Nous avons reçu une demande de réinitialisation du mot de passe de votre compte SanHome. Le lien ci-dessous expire dans une heure.", "Si vous n'êtes pas à l'origine de cette demande, ignorez cet e-mail : votre mot de passe reste inchangé."], action: { label: "Choisir un nouveau mot de passe", url: "{{resetUrl}}" } },
+      ar: { subject: "إعادة تعيين كلمة مرور SanHome", heading: "إعادة تعيين كلمة المرور", paragraphs: ["تلقينا طلبًا لإعادة تعيين كلمة مرور حسابك في SanHome. تنتهي صلاحية الرابط أدناه خلال ساعة واحدة.", "إذا لم تطلب ذلك، يمكنك تجاهل هذه الرسالة: ستبقى كلمة المرور كما هي."], action: { label: "اختيار كلمة مرور جديدة", url: "{{resetUrl}}" } },
+    },
+  },
+};
+
+// Accepts "fr", "fr-FR", "ar-TN"...; anything else falls back to the default locale.
+export function resolveEmailLocale(value: unknown): EmailLocale {
+  if (typeof value !== "string") return DEFAULT_EMAIL_LOCALE;
+  const language = value.toLowerCase().split(/[-_]/)[0];
+  return (EMAIL_LOCALES as readonly string[]).includes(language) ? (language as EmailLocale) : DEFAULT_EMAIL_LOCALE;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+function formatVariable(value: EmailVariables[string], locale: EmailLocale): string {
+  if (value instanceof Date) return format(value, "PPPPp", { locale: DATE_LOCALES[locale] });
+  return value === undefined ? "" : String(value);
+}
+
+function interpolate(template: string, variables: EmailVariables, locale: EmailLocale, escape: boolean): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+    const value = formatVariable(variables[key], locale);
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+export function renderEmail(templateId: EmailTemplateId, locale: EmailLocale, variables: EmailVariables): RenderedEmail {
+  const template = EMAIL_TEMPLATES[templateId];
+  const copy = template.copy[locale];
+  const layout = LAYOUT_COPY[locale];
+  const html = (value: string) => interpolate(value, variables, locale, true);
+  const text = (value: string) => interpolate(value, variables, locale, false);
+  const direction = locale === "ar" ? "rtl" : "ltr";
+  // Rows whose value is empty (an optional variable) are left out.
+  const details = copy.details?.filter(([, value]) => text(value).trim() !== "");
+
+  const htmlParts = [
+    `<div dir="${direction}" lang="${locale}" style="font-family: Arial, sans-serif; line-height: 1.6; text-align: ${direction === "rtl" ? "right" : "left"};">`,
+    `<h2 style="color: #122e4b;">${html(copy.heading)}</h2>`,
+    `<p>${html(layout.greeting)}</p>`,
+    ...copy.paragraphs.map(paragraph => `<p>${html(paragraph)}</p>`),
+  ];
+  if (details?.length) {
+    htmlParts.push(`<ul>${details.map(([label, value]) => `<li><strong>${html(label)}:</strong> ${html(value)}</li>`).join("")}</ul>`);
+  }
+  if (copy.action) {
+    htmlParts.push(`<p><a href="${html(copy.action.url)}" style="display: inline-block; padding: 10px 16px; background: #122e4b; color: #ffffff; border-radius: 6px; text-decoration: none;">${html(copy.action.label)}</a></p>`);
+  }
+  htmlParts.push(
+    `<p>${html(layout.signOff)}<br />${html(layout.team)}</p>`,
+    `<p style="color: #6b7280; font-size: 12px;">${html(layout.footer)}</p>`,
+    `</div>`,
+  );
+
+  const textParts = [text(layout.greeting), "", ...copy.paragraphs.map(text)];
+  if (details?.length) textParts.push("", ...details.map(([label, value]) => `- ${text(label)}: ${text(value)}`));
+  if (copy.action) textParts.push("", `${text(copy.action.label)}: ${text(copy.action.url)}`);
+  textParts.push("", text(layout.signOff), text(layout.team), "", text(layout.footer));
+
+  return {
+    subject: `SanHome - ${text(copy.subject)}`,
+    html: htmlParts.join("\n"),
+    text: textParts.join("\n"),
+  };
+}
@@ -0,0 +1,104 @@
+// Server-only Firebase Admin SDK initialization.
+// Used to verify the ID tokens sent by the browser and, where needed, to perform
+// privileged operations that must not depend on the caller's Firestore rules.
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Credentials are read from environment variables:
+// - FIREBASE_ADMIN_CLIENT_EMAIL / FIREBASE_ADMIN_PRIVATE_KEY (service account), or
+// - GOOGLE_APPLICATION_CREDENTIALS (application default credentials).
+// When FIREBASE_AUTH_EMULATOR_HOST / FIRESTORE_EMULATOR_HOST are set, the Admin SDK
+// talks to the local emulators and no credentials are required.
+//
+// Server actions and workers sign the client SDK in as the server identity below, which
+// needs credentials to mint its token: the server refuses to start without them
+// (assertServerCredentials, called from src/instrumentation.ts).
+
+import { initializeApp, getApps, cert, applicationDefault, type App } from "firebase-admin/app";
+import { getAuth, type Auth } from "firebase-admin/auth";
+import { getFirestore, type Firestore } from "firebase-admin/firestore";
+import { signInWithCustomToken } from "firebase/auth";
+import { auth as clientAuth } from "@/lib/firebase";
+
+const projectId = process.env.FIREBASE_ADMIN_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+// Private keys stored in .env usually have their newlines escaped.
+const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, "\n");
+const usingEmulators = !!process.env.FIREBASE_AUTH_EMULATOR_HOST || !!process.env.FIRESTORE_EMULATOR_HOST;
+
+let adminApp: App | null = null;
+let adminAuth: Auth | null = null;
+let adminDb: Firestore | null = null;
+
+if (!projectId) {
+  console.error("[Firebase Admin CRITICAL ERROR] No project ID found (FIREBASE_ADMIN_PROJECT_ID or NEXT_PUBLIC_FIREBASE_PROJECT_ID). Server-side session verification WILL FAIL.");
+} else {
+  const existingApp = getApps().find(a => a.name === "sanhome-admin");
+  if (existingApp) {
+    adminApp = existingApp;
+  } else {
+    try {
+      if (clientEmail && privateKey) {
+        adminApp = initializeApp({ credential: cert({ projectId, clientEmail, privateKey }), projectId }, "sanhome-admin");
+        console.log("[Firebase Admin] Initialized with service account credentials.");
+      } else if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+        adminApp = initializeApp({ credential: applicationDefault(), projectId }, "sanhome-admin");
+        console.log("[Firebase Admin] Initialized with application default credentials.");
+      } else {
+        // Without credentials the Admin SDK can still verify ID tokens (public keys are
+        // fetched from Google) and talk to the emulators, but privileged calls will fail.
+        adminApp = initializeApp({ projectId }, "sanhome-admin");
+        console.warn(`[Firebase Admin] Initialized WITHOUT credentials${usingEmulators ? " (emulator mode)" : ""}. Only ID token verification is guaranteed to work.`);
+      }
+    } catch (e: any) {
+      console.error("[Firebase Admin CRITICAL ERROR] Failed to initialize Admin SDK:", e.message, e);
+      adminApp = null;
+    }
+  }
+
+  if (adminApp) {
+    adminAuth = getAuth(adminApp);
+    adminDb = getFirestore(adminApp);
+  }
+}
+
+// Server actions still use the client SDK (`db` from lib/firebase). Firestore rules only
+// let it through when it is signed in as this identity, which carries the `server` claim.
+export const SERVER_IDENTITY_UID = "sanhome-server";
+
+// Why the server identity cannot be created, if it cannot.
+export function serverCredentialsError(): string | null {
+  if (!projectId) return "No Firebase project ID is configured (FIREBASE_ADMIN_PROJECT_ID or NEXT_PUBLIC_FIREBASE_PROJECT_ID).";
+  if (!adminApp) return "The Firebase Admin SDK failed to initialize.";
+  if (!usingEmulators && !(clientEmail && privateKey) && !process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+    return "No Firebase Admin credentials are configured (FIREBASE_ADMIN_CLIENT_EMAIL and FIREBASE_ADMIN_PRIVATE_KEY, or GOOGLE_APPLICATION_CREDENTIALS).";
+  }
+  return null;
+}
+
+export function assertServerCredentials(): void {
+  const error = serverCredentialsError();
+  if (error) {
+    throw new Error(`[Firebase Admin CRITICAL ERROR] ${error} Server actions cannot reach Firestore without them.`);
+  }
+}
+
+export async function ensureServerIdentity(): Promise<boolean> {
+  if (!clientAuth || !adminAuth) {
+    console.error("[Firebase Admin] ensureServerIdentity: Client or Admin Auth is not available.");
+    return false;
+  }
+  if (clientAuth.currentUser?.uid === SERVER_IDENTITY_UID) {
+    return true;
+  }
+  try {
+    const customToken = await adminAuth.createCustomToken(SERVER_IDENTITY_UID, { server: true });
+    await signInWithCustomToken(clientAuth, customToken);
+    console.log("[Firebase Admin] Server actions signed in as the server identity.");
+    return true;
+  } catch (e: any) {
+    console.error("[Firebase Admin] ensureServerIdentity: Failed to sign in as server identity:", e.code, e.message);
+    return false;
+  }
+}
+
+export { adminApp, adminAuth, adminDb };
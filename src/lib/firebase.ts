@@ -1,7 +1,9 @@
 
 import { initializeApp, getApps, type FirebaseApp } from "firebase/app";
 import { getAuth, type Auth, connectAuthEmulator } from "firebase/auth";
-import { getFirestore, type Firestore, connectFirestoreEmulator } from "firebase/firestore";
+import {
+  getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager, type Firestore, connectFirestoreEmulator
+} from "firebase/firestore";
 import { getAnalytics, type Analytics } from "firebase/analytics";
 
 // Your web app's Firebase configuration
@@ -33,6 +35,18 @@ if (firebaseConfig.measurementId && !firebaseConfig.measurementId.startsWith("YO
   console.log("[Firebase Lib] Measurement ID: NOT SET or using placeholder (Analytics will not be initialized if measurementId is required by your setup).");
 }
 
+// In the browser, Firestore keeps its cache and pending writes in IndexedDB, shared by every
+// open tab: the app keeps working offline and queued writes survive a reload (see lib/outbox.ts).
+function initializePersistentFirestore(firebaseApp: FirebaseApp): Firestore {
+  try {
+    return initializeFirestore(firebaseApp, { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) });
+  } catch (e: any) {
+    // Already initialized, e.g. after a hot reload: reuse that instance.
+    console.warn("[Firebase Lib] Firestore persistence not configured, using the existing instance:", e.message);
+    return getFirestore(firebaseApp);
+  }
+}
+
 let app: FirebaseApp | null = null;
 let auth: Auth | null = null;
 let db: Firestore | null = null;
@@ -64,7 +78,7 @@ if (
   if (app) {
     try {
       auth = getAuth(app);
-      db = getFirestore(app);
+      db = typeof window !== 'undefined' ? initializePersistentFirestore(app) : getFirestore(app);
       console.log("[Firebase Lib] Auth and Firestore services obtained from app.");
     } catch (e: any) {
         console.error("[Firebase Lib CRITICAL ERROR] Failed to get Auth or Firestore service from app:", e.message, e);
@@ -0,0 +1,103 @@
+// Minimal iCalendar (RFC 5545) writer used for the per-user calendar feed and for the
+// invitations attached to scheduling emails.
+//
+// Every appointment / video consult keeps the same UID for its whole life, so calendar
+// apps update the existing event on reschedule (higher SEQUENCE) and remove it when it
+// is cancelled (STATUS:CANCELLED).
+
+export type IcsEventStatus = "CONFIRMED" | "CANCELLED";
+
+export type IcsEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: IcsEventStatus;
+  sequence?: number;
+  lastModified?: Date;
+  organizer?: { name: string; email: string };
+};
+
+export type IcsCalendarOptions = {
+  name?: string;
+  // "REQUEST" for email invitations; feeds are plain published calendars.
+  method?: "PUBLISH" | "REQUEST" | "CANCEL";
+  refreshIntervalMinutes?: number;
+};
+
+const PRODUCT_ID = "-//SanHome//Home Care Scheduling//EN";
+
+export function icsUid(kind: "appointment" | "videoConsult", id: string): string {
+  return `${kind}-${id}@sanhome`;
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets are folded with CRLF + a space.
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = new TextEncoder().encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: IcsEvent, now: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+  if (event.organizer) lines.push(`ORGANIZER;CN=${escapeIcsText(event.organizer.name)}:mailto:${event.organizer.email}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}, now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${options.method ?? "PUBLISH"}`,
+  ];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  if (options.refreshIntervalMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshIntervalMinutes}M`);
+  }
+  for (const event of events) lines.push(...eventLines(event, now));
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
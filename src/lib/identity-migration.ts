@@ -0,0 +1,268 @@
+// Server-only: brings existing data in line with the identity model of lib/identity.ts.
+// Run through `npm run migrate:identity` (src/jobs/migrate-identity.ts).
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Uses the Admin SDK, so the security rules do not apply. The migration is idempotent: a
+// second run finds nothing left to do. Steps:
+// 1. Nurse profiles are linked to their account. A profile with a generated ID whose email
+//    belongs to exactly one nurse account is re-keyed to `nurses/{uid}`, and every
+//    `nurseId` / `primaryNurseId` / `careTeamIds` reference to the old ID is rewritten.
+// 2. Nurse accounts without a profile get a minimal `nurses/{uid}`.
+// 3. Patient profiles get `userId`, and `primaryNurse` names are converted to
+//    `primaryNurseId`. Names that match no nurse, or several, are reported, not guessed.
+// 4. Patients with a primary nurse but no active "primaryNurse" care assignment get one
+//    (lib/care-team.ts), and the nurse is added to `careTeamIds`.
+// Anything that needs a human decision (e.g. a staff-created patient whose email belongs
+// to an account with its own profile) is only reported as a warning.
+
+import { FieldValue, type DocumentData, type DocumentReference, type Firestore } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { UNASSIGNED_NURSE_NAME, profileCollectionForRole } from "@/lib/identity";
+
+// Collections whose documents point at a nurse through `nurseId`.
+const NURSE_REFERENCE_COLLECTIONS = ["appointments", "appointmentSeries", "videoConsults"] as const;
+
+// Display names that mean "no nurse", written by older versions.
+const UNASSIGNED_NURSE_NAMES = new Set(["", "n/a", UNASSIGNED_NURSE_NAME.toLowerCase(), "infirmière non assignée"]);
+
+export type IdentityMigrationReport = {
+  applied: boolean; // false for a dry run
+  nursesLinked: number;
+  nursesRekeyed: { from: string; to: string }[];
+  nurseProfilesCreated: number;
+  patientsLinked: number;
+  primaryNursesResolved: number;
+  careAssignmentsCreated: number;
+  referencesRewritten: number;
+  warnings: string[];
+};
+
+type PendingWrite =
+  | { kind: "set"; ref: DocumentReference; data: DocumentData }
+  | { kind: "update"; ref: DocumentReference; data: DocumentData }
+  | { kind: "delete"; ref: DocumentReference };
+
+function normalizeName(name: unknown): string {
+  return typeof name === "string" ? name.trim().replace(/\s+/g, " ").toLowerCase() : "";
+}
+
+function normalizeEmail(email: unknown): string {
+  return typeof email === "string" ? email.trim().toLowerCase() : "";
+}
+
+async function commitWrites(db: Firestore, writes: PendingWrite[]): Promise<void> {
+  // Firestore batches hold at most 500 writes.
+  for (let start = 0; start < writes.length; start += 400) {
+    const batch = db.batch();
+    for (const write of writes.slice(start, start + 400)) {
+      if (write.kind === "set") batch.set(write.ref, write.data);
+      else if (write.kind === "update") batch.update(write.ref, write.data);
+      else batch.delete(write.ref);
+    }
+    await batch.commit();
+  }
+}
+
+export async function runIdentityMigration({ apply }: { apply: boolean }): Promise<IdentityMigrationReport> {
+  const db = adminDb;
+  if (!db) throw new Error("Firebase Admin Firestore is not available. Check the Admin SDK configuration.");
+
+  const report: IdentityMigrationReport = {
+    applied: apply,
+    nursesLinked: 0,
+    nursesRekeyed: [],
+    nurseProfilesCreated: 0,
+    patientsLinked: 0,
+    primaryNursesResolved: 0,
+    careAssignmentsCreated: 0,
+    referencesRewritten: 0,
+    warnings: [],
+  };
+  const writes: PendingWrite[] = [];
+
+  const [usersSnapshot, nursesSnapshot, patientsSnapshot, activeAssignmentsSnapshot] = await Promise.all([
+    db.collection("users").get(),
+    db.collection("nurses").get(),
+    db.collection("patients").get(),
+    db.collection("careAssignments").where("endDate", "==", null).get(),
+  ]);
+  const usersById = new Map(usersSnapshot.docs.map(userDoc => [userDoc.id, userDoc.data()]));
+  const usersByEmail = new Map<string, { id: string; data: DocumentData }[]>();
+  for (const userDoc of usersSnapshot.docs) {
+    const email = normalizeEmail(userDoc.data().email);
+    if (!email) continue;
+    usersByEmail.set(email, [...(usersByEmail.get(email) ?? []), { id: userDoc.id, data: userDoc.data() }]);
+  }
+
+  // --- 1. Nurse profiles ---
+  const nurseIds = new Set(nursesSnapshot.docs.map(nurseDoc => nurseDoc.id));
+  const rekeyed = new Map<string, string>(); // old nurse ID -> uid
+  // Final ID -> display name, used to resolve `primaryNurse` names below.
+  const finalNurses = new Map<string, string>();
+
+  for (const nurseDoc of nursesSnapshot.docs) {
+    const nurse = nurseDoc.data();
+    if (usersById.has(nurseDoc.id)) {
+      if (nurse.userId !== nurseDoc.id) {
+        writes.push({ kind: "update", ref: nurseDoc.ref, data: { userId: nurseDoc.id } });
+        report.nursesLinked++;
+      }
+      finalNurses.set(nurseDoc.id, nurse.name);
+      continue;
+    }
+
+    const accounts = usersByEmail.get(normalizeEmail(nurse.email)) ?? [];
+    const nurseAccounts = accounts.filter(account => profileCollectionForRole(account.data.role) === "nurses");
+    if (nurseAccounts.length === 1 && !nurseIds.has(nurseAccounts[0].id) && ![...rekeyed.values()].includes(nurseAccounts[0].id)) {
+      const uid = nurseAccounts[0].id;
+      rekeyed.set(nurseDoc.id, uid);
+      report.nursesRekeyed.push({ from: nurseDoc.id, to: uid });
+      writes.push(
+        { kind: "set", ref: db.collection("nurses").doc(uid), data: { ...nurse, userId: uid, legacyIds: FieldValue.arrayUnion(nurseDoc.id) } },
+        { kind: "delete", ref: nurseDoc.ref },
+      );
+      finalNurses.set(uid, nurse.name);
+      continue;
+    }
+
+    if (nurseAccounts.length > 1) {
+      report.warnings.push(`nurses/${nurseDoc.id} (${nurse.email}): several nurse accounts share this email; link it manually.`);
+    } else if (nurseAccounts.length === 1) {
+      report.warnings.push(`nurses/${nurseDoc.id} (${nurse.email}): the matching account ${nurseAccounts[0].id} already has a nurse profile; merge them manually.`);
+    } else if (accounts.length > 0) {
+      report.warnings.push(`nurses/${nurseDoc.id} (${nurse.email}): the account with this email has role '${accounts[0].data.role}', not a nurse role.`);
+    }
+    if (nurse.userId !== null) {
+      writes.push({ kind: "update", ref: nurseDoc.ref, data: { userId: null } });
+    }
+    finalNurses.set(nurseDoc.id, nurse.name);
+  }
+
+  // --- 2. Nurse accounts without a profile ---
+  for (const userDoc of usersSnapshot.docs) {
+    const user = userDoc.data();
+    if (profileCollectionForRole(user.role) !== "nurses" || finalNurses.has(userDoc.id)) continue;
+    const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Nurse";
+    writes.push({
+      kind: "set",
+      ref: db.collection("nurses").doc(userDoc.id),
+      data: {
+        name,
+        email: user.email || "",
+        phone: user.phoneNumber || "N/A",
+        specialty: "General Nursing",
+        location: "N/A",
+        avatar: `https://placehold.co/100x100.png?text=${name.split(" ").map((part: string) => part[0]).join("")}`,
+        hint: "nurse medical",
+        status: "Available",
+        userId: userDoc.id,
+        createdAt: FieldValue.serverTimestamp(),
+      },
+    });
+    finalNurses.set(userDoc.id, name);
+    report.nurseProfilesCreated++;
+  }
+
+  // --- 3. Patient profiles ---
+  const patientsWithPrimaryAssignment = new Set(
+    activeAssignmentsSnapshot.docs.filter(assignmentDoc => assignmentDoc.data().teamRole === "primaryNurse").map(assignmentDoc => assignmentDoc.data().patientId),
+  );
+  const nursesByName = new Map<string, string[]>();
+  for (const [id, name] of finalNurses) {
+    const key = normalizeName(name);
+    if (key) nursesByName.set(key, [...(nursesByName.get(key) ?? []), id]);
+  }
+
+  for (const patientDoc of patientsSnapshot.docs) {
+    const patient = patientDoc.data();
+    const updates: DocumentData = {};
+
+    const userId = usersById.has(patientDoc.id) ? patientDoc.id : null;
+    if (patient.userId !== userId) {
+      updates.userId = userId;
+      if (userId) report.patientsLinked++;
+    }
+    if (!userId) {
+      const account = (usersByEmail.get(normalizeEmail(patient.email)) ?? []).find(candidate => candidate.data.role === "patient");
+      if (account) {
+        report.warnings.push(`patients/${patientDoc.id} (${patient.email}): created by staff, but account ${account.id} uses the same email; merge the records manually.`);
+      }
+    }
+
+    if (patient.primaryNurseId) {
+      const primaryNurseId = rekeyed.get(patient.primaryNurseId);
+      if (primaryNurseId) updates.primaryNurseId = primaryNurseId;
+    } else if (!UNASSIGNED_NURSE_NAMES.has(normalizeName(patient.primaryNurse))) {
+      const matches = nursesByName.get(normalizeName(patient.primaryNurse)) ?? [];
+      if (matches.length === 1) {
+        updates.primaryNurseId = matches[0];
+        updates.primaryNurse = finalNurses.get(matches[0]);
+        report.primaryNursesResolved++;
+      } else {
+        report.warnings.push(`patients/${patientDoc.id}: primary nurse "${patient.primaryNurse}" ${matches.length === 0 ? "matches no nurse" : `matches ${matches.length} nurses`}; assign it manually.`);
+      }
+    }
+
+    const careTeamIds: string[] = Array.isArray(patient.careTeamIds) ? patient.careTeamIds.map((id: string) => rekeyed.get(id) ?? id) : [];
+    if (Array.isArray(patient.careTeamIds) && patient.careTeamIds.some((id: string) => rekeyed.has(id))) {
+      updates.careTeamIds = careTeamIds;
+    }
+
+    // --- 4. Primary nurse care assignment ---
+    const primaryNurseId: string | undefined = updates.primaryNurseId ?? patient.primaryNurseId;
+    if (primaryNurseId && !patientsWithPrimaryAssignment.has(patientDoc.id)) {
+      writes.push({
+        kind: "set",
+        ref: db.collection("careAssignments").doc(),
+        data: {
+          patientId: patientDoc.id,
+          patientName: patient.name || "N/A",
+          clinicianId: primaryNurseId,
+          clinicianName: finalNurses.get(primaryNurseId) || patient.primaryNurse || "N/A",
+          clinicianRole: usersById.get(primaryNurseId)?.role ?? "nurse",
+          teamRole: "primaryNurse",
+          startDate: patient.joinDate ?? FieldValue.serverTimestamp(),
+          endDate: null,
+          assignedBy: "migration",
+          createdAt: FieldValue.serverTimestamp(),
+        },
+      });
+      report.careAssignmentsCreated++;
+      if (!careTeamIds.includes(primaryNurseId)) {
+        updates.careTeamIds = [...careTeamIds, primaryNurseId];
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      writes.push({ kind: "update", ref: patientDoc.ref, data: updates });
+    }
+  }
+
+  // --- References to re-keyed nurses ---
+  for (const assignmentDoc of activeAssignmentsSnapshot.docs) {
+    const to = rekeyed.get(assignmentDoc.data().clinicianId);
+    if (to) {
+      writes.push({ kind: "update", ref: assignmentDoc.ref, data: { clinicianId: to } });
+      report.referencesRewritten++;
+    }
+  }
+  for (const [from, to] of rekeyed) {
+    for (const collectionName of NURSE_REFERENCE_COLLECTIONS) {
+      const snapshot = await db.collection(collectionName).where("nurseId", "==", from).get();
+      for (const referenceDoc of snapshot.docs) {
+        writes.push({ kind: "update", ref: referenceDoc.ref, data: { nurseId: to } });
+        report.referencesRewritten++;
+      }
+    }
+    // Chat IDs are built from both participants' IDs, so old conversations cannot move.
+    const chats = await db.collection("chats").where("participants", "array-contains", from).get();
+    if (!chats.empty) {
+      report.warnings.push(`nurses/${from} -> ${to}: ${chats.size} conversation(s) stay under the old ID.`);
+    }
+  }
+
+  if (apply) {
+    await commitWrites(db, writes);
+  }
+  return report;
+}
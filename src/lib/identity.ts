@@ -0,0 +1,29 @@
+// Identity model shared by the client, the server actions and the identity migration
+// (src/jobs/migrate-identity.ts).
+//
+// - Every account is `users/{uid}`; `role` decides which profile collection, if any, holds
+//   the person's profile (admins and other staff only have the user document).
+// - A profile that belongs to an account uses the account uid as its document ID
+//   (`patients/{uid}`, `nurses/{uid}`) and stores it again as `userId`. Profiles created
+//   without an account (e.g. patients added by staff) keep a generated ID and `userId: null`.
+// - References between documents always use IDs: `patients.primaryNurseId` and
+//   `appointments.nurseId` hold the nurse's profile ID, which is also the uid the security
+//   rules compare with `request.auth.uid`. Names (`primaryNurse`, `nurseName`...) are
+//   display copies only and are never used to look anything up.
+
+import type { AppRole } from "@/lib/authz";
+
+export type ProfileCollection = "patients" | "nurses";
+
+export const PROFILE_COLLECTION_BY_ROLE: Partial<Record<AppRole, ProfileCollection>> = {
+  patient: "patients",
+  nurse: "nurses",
+  infirmiere: "nurses",
+};
+
+export function profileCollectionForRole(role: AppRole | string | null | undefined): ProfileCollection | null {
+  return (role && PROFILE_COLLECTION_BY_ROLE[role as AppRole]) || null;
+}
+
+// Display name stored next to `primaryNurseId` when no nurse is assigned.
+export const UNASSIGNED_NURSE_NAME = "Not Assigned";
@@ -0,0 +1,106 @@
+// Paging, filtering and sorting of the list actions (fetchPatients, fetchNurses,
+// fetchAppointments, fetchCareLogs, fetchVideoConsults), shared by the list pages (client)
+// and the server actions.
+//
+// - Pages are cursor based: an action called with `pageSize` returns `nextCursor`, the ID of
+//   the last document of the page (null on the last page), and the next call with that
+//   `cursor` starts after it (Firestore `startAfter`).
+// - Without `pageSize` the whole filtered list is returned; pickers (patient and nurse
+//   selects) rely on that.
+// - Filters that Firestore can express run in the query; the patient scope of clinicians,
+//   derived nurse statuses and text search are applied on the server while reading, so
+//   pages are still full.
+// - List pages keep filters, sort and cursor in the URL query string (see
+//   hooks/use-list-params.ts) so that filtered views can be bookmarked.
+
+import { z } from "zod";
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+import { NURSE_STATUSES } from "@/lib/availability";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const SORT_DIRECTIONS = ["desc", "asc"] as const;
+export type SortDirection = (typeof SORT_DIRECTIONS)[number];
+
+export const PATIENT_SORT_FIELDS = ["createdAt", "name", "lastVisit"] as const;
+export const NURSE_SORT_FIELDS = ["createdAt", "name"] as const;
+
+// Clinical statuses offered by the patient list filter (the field itself is free text).
+export const PATIENT_STATUSES = ["Stable", "Improving", "Needs Follow-up"] as const;
+export const APPOINTMENT_STATUSES = ["Scheduled", "Completed", "Cancelled"] as const;
+export const VIDEO_CONSULT_STATUSES = ["scheduled", "completed", "cancelled"] as const;
+
+const ListPageSchema = z.object({
+  pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE, `Pages hold at most ${MAX_PAGE_SIZE} items.`).optional(),
+  cursor: z.string().min(1).max(200).nullish(),
+  sortDirection: z.enum(SORT_DIRECTIONS).optional(),
+});
+
+const DateRangeSchema = z.object({
+  from: z.date().optional(),
+  to: z.date().optional(),
+});
+
+const hasOrderedDateRange = (range: { from?: Date; to?: Date }) => !range.from || !range.to || range.from <= range.to;
+const DATE_RANGE_ERROR = { message: "The start date must be before the end date.", path: ["to"] };
+
+const SearchSchema = z.string().trim().max(100, "Search terms must be 100 characters or fewer.").optional();
+
+export const PatientListQuerySchema = ListPageSchema.extend({
+  includeArchived: z.boolean().optional(),
+  status: z.string().min(1).max(100).optional(),
+  nurseId: z.string().min(1).optional(),
+  search: SearchSchema,
+  sortBy: z.enum(PATIENT_SORT_FIELDS).optional(),
+});
+export type PatientListQuery = z.infer<typeof PatientListQuerySchema>;
+
+export const NurseListQuerySchema = ListPageSchema.extend({
+  includeArchived: z.boolean().optional(),
+  status: z.enum(NURSE_STATUSES).optional(),
+  search: SearchSchema,
+  sortBy: z.enum(NURSE_SORT_FIELDS).optional(),
+});
+export type NurseListQuery = z.infer<typeof NurseListQuerySchema>;
+
+export const AppointmentListQuerySchema = ListPageSchema.merge(DateRangeSchema).extend({
+  status: z.enum(APPOINTMENT_STATUSES).optional(),
+  nurseId: z.string().min(1).optional(),
+  patientId: z.string().min(1).optional(),
+}).refine(hasOrderedDateRange, DATE_RANGE_ERROR);
+export type AppointmentListQuery = z.infer<typeof AppointmentListQuerySchema>;
+
+export const CareLogListQuerySchema = ListPageSchema.merge(DateRangeSchema).extend({
+  patientId: z.string().min(1).optional(),
+  careType: z.string().min(1).max(100).optional(),
+}).refine(hasOrderedDateRange, DATE_RANGE_ERROR);
+export type CareLogListQuery = z.infer<typeof CareLogListQuerySchema>;
+
+export const VideoConsultListQuerySchema = ListPageSchema.merge(DateRangeSchema).extend({
+  status: z.enum(VIDEO_CONSULT_STATUSES).optional(),
+  nurseId: z.string().min(1).optional(),
+}).refine(hasOrderedDateRange, DATE_RANGE_ERROR);
+export type VideoConsultListQuery = z.infer<typeof VideoConsultListQuerySchema>;
+
+// Case-insensitive match of a search term against any of the given fields.
+export function matchesListSearch(search: string | undefined, fields: Array<string | null | undefined>): boolean {
+  if (!search) return true;
+  const term = search.toLowerCase();
+  return fields.some(field => field?.toLowerCase().includes(term));
+}
+
+// URL query values are plain strings: "yyyy-MM-dd" dates become the start or end of that
+// day in the browser's time zone, unknown enum values are dropped.
+export function dateRangeFromParams(from: string, to: string): { from?: Date; to?: Date } {
+  const fromDate = from ? parseISO(from) : undefined;
+  const toDate = to ? parseISO(to) : undefined;
+  return {
+    from: fromDate && isValid(fromDate) ? startOfDay(fromDate) : undefined,
+    to: toDate && isValid(toDate) ? endOfDay(toDate) : undefined,
+  };
+}
+
+export function enumFromParam<T extends string>(values: readonly T[], value: string): T | undefined {
+  return (values as readonly string[]).includes(value) ? (value as T) : undefined;
+}
@@ -0,0 +1,20 @@
+// Server-only nodemailer transporter shared by the server actions and the background jobs.
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Ensure EMAIL_USER and EMAIL_PASS are correctly set in .env.
+// For Gmail, use an App Password if 2-Step Verification is ON.
+
+import nodemailer from "nodemailer";
+
+export const transporter = nodemailer.createTransport({
+  service: "gmail",
+  auth: {
+    user: process.env.EMAIL_USER,
+    pass: process.env.EMAIL_PASS, // Ensure this is an App Password for Gmail if 2FA is ON
+  },
+});
+
+// Without real credentials, callers log the email instead of sending it.
+export function isEmailConfigured(): boolean {
+  return !!process.env.EMAIL_USER && !!process.env.EMAIL_PASS && process.env.EMAIL_USER !== "your-email@example.com";
+}
@@ -0,0 +1,146 @@
+// Medication administration record (MAR) model shared by the MAR page (client) and
+// the prescription / administration server actions.
+//
+// Firestore layout:
+// - `prescriptions/{id}`: one prescribed medication for one patient.
+// - `medicationAdministrations/{prescriptionId}_{yyyyMMddHHmm}`: the outcome of one
+//   scheduled dose. The deterministic ID guarantees a single record per dose. A second
+//   record for the same dose is a correction: it needs a reason, and the record it
+//   replaces is kept in `medicationAdministrations/{id}/revisions/{version}`, the same
+//   way care logs keep their superseded versions (lib/care-logs.ts).
+
+import type { PrescriptionConflict } from "@/lib/drug-interactions";
+
+export const MEDICATION_ROUTES = [
+  "Oral",
+  "Sublingual",
+  "Intravenous (IV)",
+  "Intramuscular (IM)",
+  "Subcutaneous (SC)",
+  "Topical",
+  "Transdermal",
+  "Inhaled",
+  "Rectal",
+  "Ophthalmic",
+  "Other",
+] as const;
+export type MedicationRoute = (typeof MEDICATION_ROUTES)[number];
+
+// `times` are the default administration times (local "HH:mm") offered when prescribing.
+export const MEDICATION_FREQUENCIES = [
+  { value: "Once daily", times: ["08:00"] },
+  { value: "Twice daily", times: ["08:00", "20:00"] },
+  { value: "Three times daily", times: ["08:00", "14:00", "20:00"] },
+  { value: "Four times daily", times: ["06:00", "12:00", "18:00", "22:00"] },
+  { value: "Every 8 hours", times: ["06:00", "14:00", "22:00"] },
+  { value: "At bedtime", times: ["21:00"] },
+  { value: "As needed (PRN)", times: [] },
+] as const;
+export type MedicationFrequency = (typeof MEDICATION_FREQUENCIES)[number]["value"];
+
+export const PRN_FREQUENCY: MedicationFrequency = "As needed (PRN)";
+
+export const ADMINISTRATION_STATUSES = ["administered", "refused", "missed"] as const;
+export type AdministrationStatus = (typeof ADMINISTRATION_STATUSES)[number];
+
+export const ADMINISTRATION_REVISIONS_SUBCOLLECTION = "revisions";
+
+export const TIME_OF_DAY_REGEX = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+export type PrescriptionStatus = "active" | "discontinued";
+
+export type PrescriptionItem = {
+  id: string;
+  patientId: string;
+  patientName: string;
+  drug: string;
+  dose: string; // e.g. "500 mg", "2 puffs"
+  route: MedicationRoute | string;
+  frequency: MedicationFrequency | string;
+  scheduleTimes: string[]; // local "HH:mm"; empty for PRN
+  startDate: string; // ISO string
+  endDate?: string; // ISO string, inclusive
+  prescriber: string;
+  instructions?: string;
+  status: PrescriptionStatus;
+  discontinuedReason?: string;
+  // Set when a clinician saved the prescription despite allergy/interaction conflicts.
+  safetyOverride?: PrescriptionSafetyOverride;
+  createdAt: string; // ISO string
+};
+
+export type PrescriptionSafetyOverride = {
+  reason: string;
+  conflicts: PrescriptionConflict[];
+  overriddenBy: string; // uid
+  overriddenByName: string;
+  overriddenAt: string; // ISO string
+};
+
+export type MedicationAdministrationItem = {
+  id: string;
+  prescriptionId: string;
+  patientId: string;
+  drug: string;
+  dose: string;
+  scheduledFor: string; // ISO string; time of the administration itself for PRN doses
+  status: AdministrationStatus;
+  notes?: string;
+  recordedBy: string; // uid
+  recordedByName: string;
+  recordedAt: string; // ISO string
+  version: number; // 1 for the original record, incremented by each correction
+  correctionReason?: string; // why this version corrected the previous one
+};
+
+export type ScheduledDose = {
+  prescription: PrescriptionItem;
+  scheduledFor: Date;
+  administration?: MedicationAdministrationItem;
+};
+
+export function getDefaultScheduleTimes(frequency: string): string[] {
+  return [...(MEDICATION_FREQUENCIES.find(f => f.value === frequency)?.times ?? [])];
+}
+
+export function administrationId(prescriptionId: string, scheduledFor: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp = `${scheduledFor.getUTCFullYear()}${pad(scheduledFor.getUTCMonth() + 1)}${pad(scheduledFor.getUTCDate())}${pad(scheduledFor.getUTCHours())}${pad(scheduledFor.getUTCMinutes())}`;
+  return `${prescriptionId}_${stamp}`;
+}
+
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Discontinuing a prescription moves its end date to the discontinuation day, so past
+// days keep their doses in the record.
+export function isPrescriptionActiveOn(prescription: PrescriptionItem, day: Date): boolean {
+  const dayStart = startOfLocalDay(day).getTime();
+  if (startOfLocalDay(new Date(prescription.startDate)).getTime() > dayStart) return false;
+  return !prescription.endDate || startOfLocalDay(new Date(prescription.endDate)).getTime() >= dayStart;
+}
+
+// Expands the prescriptions active on `day` into one entry per scheduled dose, in the
+// browser's local time, and attaches the matching administration record if any.
+export function buildDoseSchedule(
+  prescriptions: PrescriptionItem[],
+  administrations: MedicationAdministrationItem[],
+  day: Date
+): ScheduledDose[] {
+  const byId = new Map(administrations.map(a => [a.id, a]));
+  const doses: ScheduledDose[] = [];
+  for (const prescription of prescriptions) {
+    if (!isPrescriptionActiveOn(prescription, day)) continue;
+    for (const time of prescription.scheduleTimes) {
+      const [hours, minutes] = time.split(":").map(Number);
+      const scheduledFor = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+      doses.push({ prescription, scheduledFor, administration: byId.get(administrationId(prescription.id, scheduledFor)) });
+    }
+  }
+  return doses.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+}
+
+export function formatPrescriptionSummary(prescription: Pick<PrescriptionItem, "dose" | "route" | "frequency">): string {
+  return `${prescription.dose}, ${prescription.route}, ${prescription.frequency}`;
+}
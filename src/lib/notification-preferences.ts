@@ -0,0 +1,56 @@
+// Notification channels and per-user channel preferences, shared by the settings page
+// (client) and the notification service (server, see lib/notification-service.ts).
+//
+// Preferences are stored on the user document as `users/{uid}.notificationPreferences`.
+
+import { z } from "zod";
+import { EMAIL_LOCALES, type EmailLocale } from "@/lib/email-templates";
+
+export const NOTIFICATION_CHANNELS = ["email", "sms", "inApp", "push"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email Notifications",
+  sms: "SMS Notifications",
+  inApp: "In-App Notifications",
+  push: "Browser Push Notifications",
+};
+
+// Every event the application notifies users about.
+export const NOTIFICATION_EVENTS = ["consultScheduled", "appointmentChanged", "chatMessage", "fileUploaded", "reminder"] as const;
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export type NotificationPreferences = {
+  channels: Record<NotificationChannel, boolean>;
+  smsPhone?: string; // defaults to the phone number of the patient / nurse profile
+  locale?: EmailLocale; // language of emails; defaults to English
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: { email: true, sms: false, inApp: true, push: false },
+};
+
+export const NotificationPreferencesSchema = z.object({
+  channels: z.object({
+    email: z.boolean(),
+    sms: z.boolean(),
+    inApp: z.boolean(),
+    push: z.boolean(),
+  }),
+  smsPhone: z.string().trim().regex(/^\+?[0-9 ]{8,20}$/, "Enter a valid phone number for SMS.").optional().or(z.literal("")),
+  locale: z.enum(EMAIL_LOCALES).optional(),
+});
+
+// Missing channels fall back to the defaults, so new channels can be added safely.
+export function resolveNotificationPreferences(stored: unknown): NotificationPreferences {
+  const value = (stored ?? {}) as Partial<NotificationPreferences>;
+  const channels = { ...DEFAULT_NOTIFICATION_PREFERENCES.channels };
+  for (const channel of NOTIFICATION_CHANNELS) {
+    if (typeof value.channels?.[channel] === "boolean") channels[channel] = value.channels[channel];
+  }
+  return {
+    channels,
+    ...(value.smsPhone ? { smsPhone: value.smsPhone } : {}),
+    ...(value.locale && (EMAIL_LOCALES as readonly string[]).includes(value.locale) ? { locale: value.locale } : {}),
+  };
+}
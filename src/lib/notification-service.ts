@@ -0,0 +1,282 @@
+// Server-only NotificationService: routes every application event (consult scheduled,
+// appointment changed, chat message, file uploaded, reminder) to the channels each
+// recipient enabled in their settings (see lib/notification-preferences.ts).
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Channel adapters:
+// - email: the shared nodemailer transporter (lib/mailer.ts), rendered from the template
+//   registry (lib/email-templates.ts) in the recipient's locale; simulated without credentials.
+// - sms: an SmsGateway. SMS_GATEWAY_URL (+ SMS_GATEWAY_API_KEY) selects the HTTP gateway;
+//   otherwise the local fake logs messages and keeps them in memory.
+// - inApp: `users/{uid}/notifications`, read by the notifications page.
+// - push: Web Push through Firebase Cloud Messaging, to the tokens registered by the
+//   browser in `users/{uid}.pushTokens`.
+//
+// A failing channel never fails the event that triggered it: results are returned per
+// channel and logged.
+
+import { addDoc, arrayRemove, collection, doc, getDoc, serverTimestamp, setDoc, updateDoc } from "firebase/firestore";
+import { getMessaging } from "firebase-admin/messaging";
+import { db } from "@/lib/firebase";
+import { adminApp } from "@/lib/firebase-admin";
+import { transporter, isEmailConfigured } from "@/lib/mailer";
+import { renderEmail, resolveEmailLocale, type EmailLocale, type EmailTemplateId, type EmailVariables } from "@/lib/email-templates";
+import {
+  resolveNotificationPreferences, type NotificationChannel, type NotificationEvent, type NotificationPreferences,
+} from "@/lib/notification-preferences";
+
+export type NotificationRecipient = {
+  uid: string | null; // null when the patient / nurse profile has no user account
+  name: string;
+  email?: string;
+  phone?: string;
+  preferences: NotificationPreferences;
+  locale: EmailLocale;
+  pushTokens: string[];
+};
+
+export type NotificationMessage = {
+  event: NotificationEvent;
+  type: "Reminder" | "Alert" | "Update";
+  title: string;
+  body: string;
+  link?: string; // app-relative, e.g. "/appointments/123"
+  // In-app entries with the same ID replace each other instead of piling up.
+  notificationId?: string;
+  // `name` is filled in from the recipient.
+  email: {
+    template: EmailTemplateId;
+    variables: EmailVariables;
+    icalEvent?: { filename: string; method: string; content: string };
+  };
+};
+
+export type NotificationDeliveryResult = {
+  delivered: NotificationChannel[];
+  failed: { channel: NotificationChannel; message: string }[];
+};
+
+export type NotificationChannelAdapter = {
+  channel: NotificationChannel;
+  // Whether the recipient can be reached on this channel at all (address, account, token).
+  canDeliver: (recipient: NotificationRecipient) => boolean;
+  // Throws when delivery fails.
+  send: (recipient: NotificationRecipient, message: NotificationMessage) => Promise<void>;
+};
+
+// Absolute link for emails, SMS and push, e.g. appUrl("/chat").
+export function appUrl(path: string = ""): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}${path}`;
+}
+
+// --- Email ---
+
+export type TemplatedEmail = {
+  to: string;
+  name: string;
+  locale: EmailLocale;
+  template: EmailTemplateId;
+  variables: EmailVariables;
+  icalEvent?: { filename: string; method: string; content: string };
+};
+
+// Account emails (welcome, onboarding, password reset) go through here directly: they are
+// not notifications, so the recipient's channel preferences do not apply.
+export async function sendTemplatedEmail({ to, name, locale, template, variables, icalEvent }: TemplatedEmail): Promise<void> {
+  const rendered = renderEmail(template, locale, { ...variables, name });
+  if (!isEmailConfigured()) {
+    console.log(`[EMAIL_SIMULATION] Would send "${rendered.subject}" (${locale}) to ${to}:\n${rendered.text}`);
+    return;
+  }
+  const info = await transporter.sendMail({
+    from: process.env.EMAIL_USER,
+    to,
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text,
+    ...(icalEvent ? { icalEvent } : {}),
+  });
+  console.log(`[EMAIL_LOG] ${template} email sent to ${to}. Message ID: ${info.messageId}`);
+}
+
+export const emailChannel: NotificationChannelAdapter = {
+  channel: "email",
+  canDeliver: recipient => !!recipient.email,
+  send: (recipient, message) => sendTemplatedEmail({
+    to: recipient.email!,
+    name: recipient.name,
+    locale: recipient.locale,
+    ...message.email,
+  }),
+};
+
+// --- SMS ---
+
+export type SmsGateway = {
+  send: (to: string, text: string) => Promise<{ id: string }>;
+};
+
+// Local fake: logs instead of sending and keeps what it "sent" for inspection.
+export function createFakeSmsGateway(): SmsGateway & { sent: { to: string; text: string; at: Date }[] } {
+  const sent: { to: string; text: string; at: Date }[] = [];
+  return {
+    sent,
+    send: async (to, text) => {
+      sent.push({ to, text, at: new Date() });
+      console.log(`[SMS_SIMULATION] To ${to}: ${text}`);
+      return { id: `fake-sms-${sent.length}` };
+    },
+  };
+}
+
+// Generic JSON gateway: POST { to, text } with a bearer key, expects { id } back.
+export function createHttpSmsGateway(url: string, apiKey?: string): SmsGateway {
+  return {
+    send: async (to, text) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({ to, text }),
+      });
+      if (!response.ok) throw new Error(`SMS gateway responded with HTTP ${response.status}.`);
+      const payload = await response.json().catch(() => ({}));
+      return { id: String(payload.id ?? "") };
+    },
+  };
+}
+
+export function createSmsChannel(gateway: SmsGateway): NotificationChannelAdapter {
+  return {
+    channel: "sms",
+    canDeliver: recipient => !!(recipient.preferences.smsPhone || recipient.phone),
+    send: async (recipient, message) => {
+      const to = (recipient.preferences.smsPhone || recipient.phone)!;
+      const text = `SanHome: ${message.body}${message.link ? ` ${appUrl(message.link)}` : ""}`;
+      await gateway.send(to, text);
+    },
+  };
+}
+
+// --- In-app ---
+
+export const inAppChannel: NotificationChannelAdapter = {
+  channel: "inApp",
+  canDeliver: recipient => !!recipient.uid,
+  send: async (recipient, message) => {
+    if (!db) throw new Error("Firestore is not available.");
+    const data = {
+      userId: recipient.uid,
+      type: message.type,
+      event: message.event,
+      message: message.body,
+      read: false,
+      ...(message.link ? { link: message.link } : {}),
+      createdAt: serverTimestamp(),
+    };
+    if (message.notificationId) {
+      await setDoc(doc(db, "users", recipient.uid!, "notifications", message.notificationId), data);
+    } else {
+      await addDoc(collection(db, "users", recipient.uid!, "notifications"), data);
+    }
+  },
+};
+
+// --- Web Push ---
+
+const STALE_PUSH_TOKEN_ERRORS = ["messaging/registration-token-not-registered", "messaging/invalid-registration-token"];
+
+export const webPushChannel: NotificationChannelAdapter = {
+  channel: "push",
+  canDeliver: recipient => !!recipient.uid && recipient.pushTokens.length > 0,
+  send: async (recipient, message) => {
+    if (!adminApp) throw new Error("Firebase Admin SDK is not available for push notifications.");
+    const response = await getMessaging(adminApp).sendEachForMulticast({
+      tokens: recipient.pushTokens,
+      notification: { title: `SanHome - ${message.title}`, body: message.body },
+      webpush: message.link ? { fcmOptions: { link: `${appUrl(message.link)}` } } : undefined,
+    });
+    // Browsers that unsubscribed leave dead tokens behind; drop them.
+    const staleTokens = response.responses
+      .map((result, index) => (result.error && STALE_PUSH_TOKEN_ERRORS.includes(result.error.code) ? recipient.pushTokens[index] : null))
+      .filter((token): token is string => !!token);
+    if (staleTokens.length > 0 && db) {
+      await updateDoc(doc(db, "users", recipient.uid!), { pushTokens: arrayRemove(...staleTokens) });
+    }
+    if (response.successCount === 0) {
+      throw new Error(response.responses.find(result => result.error)?.error?.message || "No push subscription accepted the message.");
+    }
+  },
+};
+
+// --- Service ---
+
+export function smsGatewayFromEnv(): SmsGateway {
+  return process.env.SMS_GATEWAY_URL
+    ? createHttpSmsGateway(process.env.SMS_GATEWAY_URL, process.env.SMS_GATEWAY_API_KEY)
+    : createFakeSmsGateway();
+}
+
+export function createNotificationService(adapters: NotificationChannelAdapter[]) {
+  return {
+    async notify(recipient: NotificationRecipient, message: NotificationMessage): Promise<NotificationDeliveryResult> {
+      const result: NotificationDeliveryResult = { delivered: [], failed: [] };
+      const enabled = adapters.filter(adapter => recipient.preferences.channels[adapter.channel] && adapter.canDeliver(recipient));
+      await Promise.all(enabled.map(async adapter => {
+        try {
+          await adapter.send(recipient, message);
+          result.delivered.push(adapter.channel);
+        } catch (error: any) {
+          console.error(`[NOTIFY_ERROR] ${message.event} via ${adapter.channel} to ${recipient.uid ?? recipient.email}:`, error.code, error.message);
+          result.failed.push({ channel: adapter.channel, message: error.message });
+        }
+      }));
+      console.log(`[NOTIFY_LOG] ${message.event} for ${recipient.uid ?? recipient.email ?? recipient.name}: delivered via ${result.delivered.join(", ") || "no channel"}${result.failed.length > 0 ? `, failed via ${result.failed.map(f => f.channel).join(", ")}` : ""}.`);
+      return result;
+    },
+  };
+}
+
+export const notificationService = createNotificationService([
+  emailChannel,
+  createSmsChannel(smsGatewayFromEnv()),
+  inAppChannel,
+  webPushChannel,
+]);
+
+export function describeNotificationDelivery(name: string, result: NotificationDeliveryResult): string {
+  if (result.failed.length > 0) {
+    return `${name}: failed via ${result.failed.map(failure => `${failure.channel} (${failure.message})`).join(", ")}.`;
+  }
+  return result.delivered.length > 0 ? `${name}: notified via ${result.delivered.join(", ")}.` : `${name}: no notification channel available.`;
+}
+
+// --- Recipients ---
+
+async function recipientFromUser(uid: string | null, profile: Record<string, any>, fallbackName: string): Promise<NotificationRecipient> {
+  const userData = uid && db ? (await getDoc(doc(db, "users", uid))).data() ?? {} : {};
+  const preferences = resolveNotificationPreferences(userData.notificationPreferences);
+  return {
+    uid,
+    name: profile.name || [userData.firstName, userData.lastName].filter(Boolean).join(" ") || fallbackName,
+    email: profile.email || userData.email || undefined,
+    phone: profile.phone && profile.phone !== "N/A" ? profile.phone : undefined,
+    preferences,
+    locale: resolveEmailLocale(preferences.locale),
+    pushTokens: Array.isArray(userData.pushTokens) ? userData.pushTokens : [],
+  };
+}
+
+// The account behind a profile is `profile.userId` (lib/identity.ts). Profiles without an
+// account (`userId: null`) can only be reached by email / SMS, with the default preferences.
+export async function resolveProfileRecipient(profileCollection: "patients" | "nurses", profileId: string, fallbackName: string): Promise<NotificationRecipient | null> {
+  if (!db || !profileId) return null;
+  const profileDoc = await getDoc(doc(db, profileCollection, profileId));
+  if (!profileDoc.exists()) return null;
+  const profile = profileDoc.data();
+  return recipientFromUser(profile.userId || null, profile, fallbackName);
+}
+
+export async function resolveUserRecipient(uid: string, fallbackName: string): Promise<NotificationRecipient | null> {
+  if (!db || !uid) return null;
+  return recipientFromUser(uid, {}, fallbackName);
+}
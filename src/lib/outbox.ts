@@ -0,0 +1,188 @@
+// Offline outbox of the chat page and the care tracking form, for home-care visits with poor
+// connectivity (client only). Items are kept in IndexedDB, so they survive reloads and closed tabs.
+//
+// - Chat text messages are written with the client SDK, whose persistent cache (lib/firebase.ts)
+//   queues them while offline; they show as pending until the server has them. The outbox
+//   holds what that cache cannot: the notification of each message (`notifyChatMessage`),
+//   sent once the message has reached the server.
+// - Care logs go through the addCareLog server action. A care log saved offline waits here
+//   under a client-generated ID that becomes the ID of the care log, so a retry after a lost
+//   response never records it twice.
+// - useOutboxSync (hooks/use-outbox.ts) sends the items of the signed-in user when the
+//   connection comes back, when the app opens and after each new item, from one tab at a time.
+//   A request that fails (no connection, server unreachable) is retried with exponential
+//   backoff. An item the server rejects (validation, care team ended, archived record) is a
+//   conflict: it stays, marked, until the user retries, edits or discards it. Chat
+//   notifications are best-effort and are dropped instead.
+
+import type { AddCareLogFormValues } from "@/app/actions";
+
+const OUTBOX_DB_NAME = "sanhome-outbox";
+const OUTBOX_DB_VERSION = 1;
+const ITEMS_STORE = "items";
+const CACHE_STORE = "cache"; // last known data the offline forms need, e.g. the patient list
+const OUTBOX_CHANNEL = "sanhome-outbox";
+
+export const OUTBOX_RETRY_BASE_MS = 5_000;
+export const OUTBOX_RETRY_MAX_MS = 5 * 60_000;
+export const CHAT_NOTIFICATION_MAX_AGE_MS = 24 * 60 * 60_000;
+
+export type OutboxPayloads = {
+  careLog: { values: AddCareLogFormValues; loggedByName: string; patientName: string };
+  chatNotification: { chatId: string; messageId: string };
+};
+export type OutboxKind = keyof OutboxPayloads;
+
+export type OutboxStatus = "pending" | "conflict";
+
+type OutboxItemBase = {
+  id: string; // client-generated; the idempotency key of the item
+  ownerUid: string; // the signed-in user who queued it
+  createdAt: Date;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+};
+
+export type OutboxItem = { [K in OutboxKind]: OutboxItemBase & { kind: K; payload: OutboxPayloads[K] } }[OutboxKind];
+export type OutboxItemOf<K extends OutboxKind> = Extract<OutboxItem, { kind: K }>;
+
+export function isOutboxAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openOutboxDb(): Promise<IDBDatabase> {
+  if (!isOutboxAvailable()) return Promise.reject(new Error("Offline storage is not available in this browser."));
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const items = request.result.createObjectStore(ITEMS_STORE, { keyPath: "id" });
+      items.createIndex("ownerUid", "ownerUid");
+      request.result.createObjectStore(CACHE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openOutboxDb();
+  return requestResult(run(database.transaction(storeName, mode).objectStore(storeName)));
+}
+
+// --- Change notifications, in this tab and the others ---
+
+const listeners = new Set<() => void>();
+let channel: BroadcastChannel | null = null;
+
+function outboxChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(OUTBOX_CHANNEL);
+    channel.onmessage = () => listeners.forEach(listener => listener());
+  }
+  return channel;
+}
+
+function notifyOutboxChanged() {
+  listeners.forEach(listener => listener());
+  outboxChannel()?.postMessage("changed");
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  outboxChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// --- Items ---
+
+export async function listOutboxItems(ownerUid: string): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>(ITEMS_STORE, "readonly", store => store.index("ownerUid").getAll(ownerUid));
+  return items.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function addOutboxItem<K extends OutboxKind>(ownerUid: string, kind: K, payload: OutboxPayloads[K]): Promise<OutboxItemOf<K>> {
+  const now = new Date();
+  const item = {
+    id: crypto.randomUUID(), ownerUid, kind, payload, createdAt: now, status: "pending", attempts: 0, nextAttemptAt: now, lastError: null,
+  } as OutboxItemOf<K>;
+  await withStore(ITEMS_STORE, "readwrite", store => store.put(item));
+  notifyOutboxChanged();
+  return item;
+}
+
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore(ITEMS_STORE, "readwrite", store => store.put(item));
+  notifyOutboxChanged();
+}
+
+export async function removeOutboxItem(id: string): Promise<void> {
+  await withStore(ITEMS_STORE, "readwrite", store => store.delete(id));
+  notifyOutboxChanged();
+}
+
+// A conflict the user chose to send again, as if it had just been queued.
+export async function retryOutboxItem(item: OutboxItem): Promise<void> {
+  await putOutboxItem({ ...item, status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null });
+}
+
+export function outboxRetryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_RETRY_MAX_MS);
+}
+
+// --- Sending ---
+
+// What the server said about an item. `send` throws instead when the request could not be made.
+export type OutboxSendOutcome = { ok: true } | { ok: false; rejection: string };
+
+// One pass over the due items of `ownerUid`; returns when the next pending item is due, if any.
+export async function syncOutboxItems(ownerUid: string, send: (item: OutboxItem) => Promise<OutboxSendOutcome>): Promise<number | null> {
+  for (const item of await listOutboxItems(ownerUid)) {
+    if (item.status !== "pending" || item.nextAttemptAt.getTime() > Date.now()) continue;
+    try {
+      const outcome = await send(item);
+      if (outcome.ok || item.kind === "chatNotification") {
+        if (!outcome.ok) console.warn("[syncOutboxItems] Chat notification not sent:", outcome.rejection);
+        await removeOutboxItem(item.id);
+      } else {
+        await putOutboxItem({ ...item, status: "conflict", lastError: outcome.rejection });
+      }
+    } catch (error: any) {
+      if (item.kind === "chatNotification" && Date.now() - item.createdAt.getTime() > CHAT_NOTIFICATION_MAX_AGE_MS) {
+        await removeOutboxItem(item.id);
+        continue;
+      }
+      const attempts = item.attempts + 1;
+      await putOutboxItem({ ...item, attempts, nextAttemptAt: new Date(Date.now() + outboxRetryDelayMs(attempts)), lastError: error.message });
+      if (typeof navigator !== "undefined" && !navigator.onLine) break;
+    }
+  }
+  const pending = (await listOutboxItems(ownerUid)).filter(item => item.status === "pending");
+  return pending.length > 0 ? Math.min(...pending.map(item => item.nextAttemptAt.getTime())) : null;
+}
+
+// --- Cache ---
+
+export async function saveOutboxCache<T>(key: string, value: T): Promise<void> {
+  await withStore(CACHE_STORE, "readwrite", store => store.put(value, key));
+}
+
+export async function readOutboxCache<T>(key: string): Promise<T | undefined> {
+  return withStore<T | undefined>(CACHE_STORE, "readonly", store => store.get(key));
+}
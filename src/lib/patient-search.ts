@@ -0,0 +1,224 @@
+// Full-text patient search, used by the `searchPatients` server action (which builds and caches
+// the index) and the global search box in the app header (client).
+//
+// The index lives in the server process; there is no external search engine. It covers each
+// patient's name, phone, email, condition and pathologies plus the notes of their care logs
+// (struck "entered in error" logs are left out).
+//
+// - Text is lowercased and stripped of accents, so "Ostéoporose" matches "osteoporose".
+// - Every query word must match (in any field). A word matches an indexed word exactly, as a
+//   prefix (search as you type) or within a small edit distance (typos: 1 edit from 4
+//   letters, 2 from 8).
+// - Digits are matched inside phone numbers whatever their formatting.
+// - Results are ranked by field (a name match outweighs a note match) and match quality.
+// Role scoping is applied by the action, which drops patients outside the caller's scope.
+
+import type { RecordStatus } from "@/lib/record-status";
+
+export const PATIENT_SEARCH_FIELDS = ["name", "phone", "email", "condition", "pathologies", "careNotes"] as const;
+export type PatientSearchField = (typeof PATIENT_SEARCH_FIELDS)[number];
+
+export const PATIENT_SEARCH_FIELD_LABELS: Record<PatientSearchField, string> = {
+  name: "Name",
+  phone: "Phone",
+  email: "Email",
+  condition: "Condition",
+  pathologies: "Pathologies",
+  careNotes: "Care log notes",
+};
+
+const FIELD_WEIGHTS: Record<PatientSearchField, number> = {
+  name: 5,
+  phone: 3,
+  email: 3,
+  condition: 3,
+  pathologies: 3,
+  careNotes: 1,
+};
+
+export const PATIENT_SEARCH_MIN_QUERY_LENGTH = 2;
+export const PATIENT_SEARCH_RESULT_LIMIT = 20;
+
+export type PatientSearchDocument = {
+  patientId: string;
+  name: string;
+  phone: string;
+  email: string;
+  condition: string;
+  pathologies: string[];
+  careNotes: string[];
+  avatarUrl: string;
+  recordStatus: RecordStatus;
+};
+
+export type PatientSearchMatch = {
+  field: PatientSearchField;
+  snippet: string; // the matching text, shortened around the match for care log notes
+};
+
+export type PatientSearchResult = {
+  patientId: string;
+  name: string;
+  avatarUrl: string;
+  condition: string;
+  recordStatus: RecordStatus;
+  score: number;
+  matches: PatientSearchMatch[];
+};
+
+type Posting = { patientId: string; field: PatientSearchField };
+
+export type PatientSearchIndex = {
+  documents: Map<string, PatientSearchDocument>;
+  postings: Map<string, Posting[]>; // indexed word -> where it occurs
+  phoneDigits: Map<string, string>; // patientId -> phone number without formatting
+};
+
+export function normalizeSearchText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeSearchText(text).split(/[^a-z0-9]+/).filter(token => token.length >= 2);
+}
+
+function fieldTexts(document: PatientSearchDocument, field: PatientSearchField): string[] {
+  const value = document[field];
+  return Array.isArray(value) ? value : [value];
+}
+
+export function buildPatientSearchIndex(documents: PatientSearchDocument[]): PatientSearchIndex {
+  const index: PatientSearchIndex = { documents: new Map(), postings: new Map(), phoneDigits: new Map() };
+  for (const document of documents) {
+    index.documents.set(document.patientId, document);
+    index.phoneDigits.set(document.patientId, document.phone.replace(/\D/g, ""));
+    for (const field of PATIENT_SEARCH_FIELDS) {
+      const tokens = new Set(fieldTexts(document, field).flatMap(tokenizeSearchText));
+      for (const token of tokens) {
+        const postings = index.postings.get(token);
+        if (postings) postings.push({ patientId: document.patientId, field });
+        else index.postings.set(token, [{ patientId: document.patientId, field }]);
+      }
+    }
+  }
+  return index;
+}
+
+function maxTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+// Edit distance counting a swap of adjacent letters as one typo (optimal string alignment),
+// giving up (returning max + 1) as soon as it exceeds `max`.
+function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well an indexed word matches a query word, from 1 (exact) down; 0 when it does not.
+// Also used by the chat message search (lib/chat-messages.ts).
+export function termMatchQuality(queryTerm: string, indexedTerm: string): number {
+  if (indexedTerm === queryTerm) return 1;
+  if (indexedTerm.startsWith(queryTerm)) return 0.8;
+  const max = maxTypos(queryTerm);
+  if (max === 0) return 0;
+  const distance = boundedEditDistance(queryTerm, indexedTerm, max);
+  return distance <= max ? 0.7 - 0.2 * (distance - 1) : 0;
+}
+
+function buildSnippet(document: PatientSearchDocument, field: PatientSearchField, matchedTerms: Set<string>): string {
+  const texts = fieldTexts(document, field);
+  const text = texts.find(candidate => tokenizeSearchText(candidate).some(token => matchedTerms.has(token))) ?? texts[0] ?? "";
+  if (field !== "careNotes") return text;
+  const words = text.split(/\s+/);
+  const position = words.findIndex(word => tokenizeSearchText(word).some(token => matchedTerms.has(token)));
+  const start = Math.max(0, position - 6);
+  const end = Math.min(words.length, Math.max(position, 0) + 7);
+  return `${start > 0 ? "… " : ""}${words.slice(start, end).join(" ")}${end < words.length ? " …" : ""}`;
+}
+
+export function searchPatientIndex(
+  index: PatientSearchIndex,
+  queryText: string,
+  options: { isAllowed?: (patientId: string) => boolean; limit?: number } = {},
+): PatientSearchResult[] {
+  const queryTerms = [...new Set(tokenizeSearchText(queryText))];
+  if (queryTerms.length === 0) return [];
+  const isAllowed = options.isAllowed ?? (() => true);
+
+  // patientId -> total score, plus the indexed words that matched in each field.
+  const scores = new Map<string, number>();
+  const matchedTerms = new Map<string, Map<PatientSearchField, Set<string>>>();
+
+  for (const [termIndex, queryTerm] of queryTerms.entries()) {
+    const best = new Map<string, number>(); // best score of this query word per patient
+    const record = (patientId: string, field: PatientSearchField, quality: number, indexedTerm: string | null) => {
+      if (!isAllowed(patientId)) return;
+      const score = FIELD_WEIGHTS[field] * quality;
+      if (score > (best.get(patientId) ?? 0)) best.set(patientId, score);
+      const fields = matchedTerms.get(patientId) ?? new Map<PatientSearchField, Set<string>>();
+      const terms = fields.get(field) ?? new Set<string>();
+      if (indexedTerm) terms.add(indexedTerm);
+      matchedTerms.set(patientId, fields.set(field, terms));
+    };
+
+    for (const [indexedTerm, postings] of index.postings) {
+      const quality = termMatchQuality(queryTerm, indexedTerm);
+      if (quality === 0) continue;
+      for (const posting of postings) record(posting.patientId, posting.field, quality, indexedTerm);
+    }
+    if (/^\d{3,}$/.test(queryTerm)) {
+      for (const [patientId, digits] of index.phoneDigits) {
+        if (digits.includes(queryTerm)) record(patientId, "phone", 1, null);
+      }
+    }
+
+    // Every query word must match: keep only patients matched by all words so far.
+    for (const patientId of termIndex === 0 ? best.keys() : scores.keys()) {
+      const score = best.get(patientId);
+      if (score === undefined) scores.delete(patientId);
+      else scores.set(patientId, (scores.get(patientId) ?? 0) + score);
+    }
+  }
+
+  return [...scores.entries()]
+    .map(([patientId, score]) => {
+      const document = index.documents.get(patientId)!;
+      const fields = matchedTerms.get(patientId) ?? new Map<PatientSearchField, Set<string>>();
+      return {
+        patientId,
+        name: document.name,
+        avatarUrl: document.avatarUrl,
+        condition: document.condition,
+        recordStatus: document.recordStatus,
+        score,
+        matches: PATIENT_SEARCH_FIELDS
+          .filter(field => fields.has(field))
+          .map(field => ({ field, snippet: buildSnippet(document, field, fields.get(field)!) })),
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, options.limit ?? PATIENT_SEARCH_RESULT_LIMIT);
+}
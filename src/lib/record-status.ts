@@ -0,0 +1,37 @@
+// Archival of patient and nurse records, shared by the list/edit pages (client) and the
+// server actions.
+//
+// Records are never deleted: archiving sets `recordStatus` (plus `archivedAt`, `archivedBy`,
+// `archiveReason`), which hides the record from lists and pickers while its history
+// (care logs, appointments, files...) stays readable from the profile page. Restoring sets
+// `recordStatus` back to "Active". Documents written before archival existed have no
+// `recordStatus` and count as active.
+//
+// `recordStatus` is unrelated to the patient's clinical `status` ("Stable", "Improving"...).
+
+import { z } from "zod";
+
+export const PATIENT_ARCHIVE_STATUSES = ["Discharged", "Deceased", "Inactive"] as const;
+export type PatientArchiveStatus = (typeof PATIENT_ARCHIVE_STATUSES)[number];
+
+// Staff leave; only patients are discharged or deceased.
+export const NURSE_ARCHIVE_STATUSES = ["Inactive"] as const;
+export type NurseArchiveStatus = (typeof NURSE_ARCHIVE_STATUSES)[number];
+
+export type RecordStatus = "Active" | PatientArchiveStatus;
+
+export function recordStatusFromData(data: { recordStatus?: unknown }): RecordStatus {
+  return (PATIENT_ARCHIVE_STATUSES as readonly unknown[]).includes(data.recordStatus)
+    ? (data.recordStatus as PatientArchiveStatus)
+    : "Active";
+}
+
+export function isArchivedRecord(data: { recordStatus?: unknown }): boolean {
+  return recordStatusFromData(data) !== "Active";
+}
+
+export const ArchiveRecordInputSchema = z.object({
+  status: z.enum(PATIENT_ARCHIVE_STATUSES),
+  reason: z.string().trim().max(500, "The reason must be 500 characters or fewer.").optional(),
+});
+export type ArchiveRecordInput = z.infer<typeof ArchiveRecordInputSchema>;
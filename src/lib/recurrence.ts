@@ -0,0 +1,152 @@
+// RRULE-style recurrence for appointment series, shared by the appointment forms (client)
+// and the appointment server actions.
+//
+// Firestore layout:
+// - `appointmentSeries/{id}`: the rule plus the fields shared by every occurrence.
+// - `appointments/{id}`: one document per occurrence, linked by `seriesId`. Occurrences are
+//   generated up front so that each one goes through the nurse's conflict checks.
+
+import { z } from "zod";
+import { WEEKDAYS, type Weekday } from "@/lib/availability";
+
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+// Upper bound on generated occurrences, whatever the rule says.
+export const MAX_SERIES_OCCURRENCES = 100;
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days / weeks
+  byWeekday?: Weekday[]; // weekly only; defaults to the weekday of the first occurrence
+  until?: string; // "yyyy-MM-dd", inclusive
+  count?: number;
+};
+
+// Which occurrences an edit applies to.
+export const SERIES_EDIT_SCOPES = ["this", "following", "series"] as const;
+export type SeriesEditScope = (typeof SERIES_EDIT_SCOPES)[number];
+
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1, "Repeat interval must be at least 1.").max(52, "Repeat interval is too large."),
+  byWeekday: z.array(z.enum(WEEKDAYS)).optional(),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must use the yyyy-MM-dd format.").optional(),
+  count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES, `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences.`).optional(),
+}).refine(rule => !!rule.until !== !!rule.count, {
+  message: "A recurring appointment needs either an end date or a number of occurrences.",
+}).refine(rule => rule.frequency !== "weekly" || !rule.byWeekday || rule.byWeekday.length > 0, {
+  message: "Select at least one day of the week.",
+});
+
+const RRULE_DAYS: Record<Weekday, string> = {
+  sunday: "SU", monday: "MO", tuesday: "TU", wednesday: "WE", thursday: "TH", friday: "FR", saturday: "SA",
+};
+
+function parseLocalDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addLocalDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+}
+
+// Start times of every occurrence on or after `first` (which is itself an occurrence
+// unless a weekly rule excludes its weekday). Times of day stay fixed across DST changes.
+export function expandRecurrence(rule: RecurrenceRule, first: Date): Date[] {
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const untilMs = rule.until ? addLocalDays(parseLocalDate(rule.until), 1).getTime() : Infinity;
+  const occurrences: Date[] = [];
+
+  if (rule.frequency === "daily") {
+    for (let current = first; occurrences.length < limit && current.getTime() < untilMs; current = addLocalDays(current, rule.interval)) {
+      occurrences.push(current);
+    }
+    return occurrences;
+  }
+
+  const weekdays = new Set(rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[first.getDay()]]);
+  // Walk day by day from the start of the first week, keeping the selected weekdays of
+  // every `interval`-th week.
+  const weekStart = addLocalDays(first, -first.getDay());
+  for (let dayOffset = 0; occurrences.length < limit; dayOffset++) {
+    const current = addLocalDays(weekStart, dayOffset);
+    if (current.getTime() >= untilMs) break;
+    const weekIndex = Math.floor(dayOffset / 7);
+    if (current < first || weekIndex % rule.interval !== 0 || !weekdays.has(WEEKDAYS[current.getDay()])) continue;
+    occurrences.push(current);
+    if (dayOffset > 7 * rule.interval * MAX_SERIES_OCCURRENCES) break;
+  }
+  return occurrences;
+}
+
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_DAYS[day]).join(",")}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = rule.frequency === "daily" ? "day" : "week";
+  let description = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    description += ` on ${rule.byWeekday.map(day => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(", ")}`;
+  }
+  if (rule.until) description += ` until ${rule.until}`;
+  if (rule.count) description += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  return description;
+}
+
+// Moving an occurrence by `dayDelta` days moves the weekdays of the rule with it.
+export function shiftRecurrenceRule(rule: RecurrenceRule, dayDelta: number): RecurrenceRule {
+  if (!rule.byWeekday?.length || dayDelta % 7 === 0) return rule;
+  const shift = ((dayDelta % 7) + 7) % 7;
+  return { ...rule, byWeekday: rule.byWeekday.map(day => WEEKDAYS[(WEEKDAYS.indexOf(day) + shift) % 7]) };
+}
+
+// An occurrence of a series as stored, for planning an edit.
+export type SeriesOccurrence = { id: string; start: Date; status?: string };
+
+export type SeriesEditPlan = {
+  targets: Array<{ id: string; start: Date }>; // in chronological order, with their new start times
+  earlierOccurrences: number; // left in the original series by a "following" edit
+  dayDelta: number; // days the edited occurrence moves by
+};
+
+// Moving occurrence `editedId` from `previousStart` to `newStart`: the other occurrences in
+// `scope` move by the same number of days to the new time of day. Completed ones stay put.
+export function planSeriesEdit(
+  occurrences: SeriesOccurrence[],
+  editedId: string,
+  previousStart: Date,
+  newStart: Date,
+  scope: SeriesEditScope
+): SeriesEditPlan {
+  const dayDelta = Math.round(
+    (new Date(newStart.getFullYear(), newStart.getMonth(), newStart.getDate()).getTime()
+      - new Date(previousStart.getFullYear(), previousStart.getMonth(), previousStart.getDate()).getTime()) / 86_400_000
+  );
+  if (scope === "this") return { targets: [{ id: editedId, start: newStart }], earlierOccurrences: 0, dayDelta };
+
+  const targets: SeriesEditPlan["targets"] = [];
+  let earlierOccurrences = 0;
+  for (const occurrence of occurrences) {
+    if (scope === "following" && occurrence.id !== editedId && occurrence.start < previousStart) {
+      earlierOccurrences++;
+      continue;
+    }
+    if (occurrence.id !== editedId && occurrence.status === "Completed") continue;
+    const { start } = occurrence;
+    targets.push({
+      id: occurrence.id,
+      start: new Date(start.getFullYear(), start.getMonth(), start.getDate() + dayDelta, newStart.getHours(), newStart.getMinutes()),
+    });
+  }
+  targets.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return { targets, earlierOccurrences, dayDelta };
+}
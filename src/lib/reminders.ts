@@ -0,0 +1,210 @@
+// Server-only: appointment and video consult reminders, sent by the reminder worker
+// (src/jobs/reminder-worker.ts, `npm run reminders`).
+// IMPORTANT: Never import this file from a "use client" component.
+//
+// Each sweep looks at the events starting within the largest reminder offset. For every
+// participant, the nearest offset that has been reached is delivered once through the
+// NotificationService, on the channels the participant enabled.
+//
+// Idempotency: before delivering, the sweep claims `reminderDeliveries/{key}` in a
+// transaction, where the key combines the event, its start time, the offset and the
+// recipient. An existing claim means the reminder was already handled, so concurrent or
+// restarted workers never send the same reminder twice. A rescheduled event has a new
+// start time and therefore gets fresh reminders.
+
+import { collection, doc, getDocs, query, where, runTransaction, serverTimestamp, updateDoc, Timestamp } from "firebase/firestore";
+import { format } from "date-fns";
+import { db } from "@/lib/firebase";
+import { ensureServerIdentity } from "@/lib/firebase-admin";
+import { appUrl, notificationService, resolveProfileRecipient, type NotificationRecipient } from "@/lib/notification-service";
+
+export const REMINDER_DELIVERIES_COLLECTION = "reminderDeliveries";
+
+export const DEFAULT_REMINDER_OFFSETS_MINUTES = [24 * 60, 60];
+
+type ReminderEventKind = "appointment" | "videoConsult";
+
+type ReminderEvent = {
+  kind: ReminderEventKind;
+  id: string;
+  start: Date;
+  title: string;
+  link: string;
+  patientId: string;
+  patientName: string;
+  nurseId: string;
+  nurseName: string;
+};
+
+export type ReminderSweepResult = {
+  scanned: number;
+  delivered: number;
+  skipped: number; // already delivered by a previous sweep
+  failed: number;
+};
+
+// "24h,1h,30m" -> [1440, 60, 30]. Invalid entries are ignored.
+export function parseReminderOffsets(value: string | undefined): number[] {
+  if (!value?.trim()) return DEFAULT_REMINDER_OFFSETS_MINUTES;
+  const offsets = value.split(",").map(part => {
+    const match = part.trim().match(/^(\d+)\s*([hm])$/i);
+    if (!match) return NaN;
+    return Number(match[1]) * (match[2].toLowerCase() === "h" ? 60 : 1);
+  }).filter(minutes => Number.isFinite(minutes) && minutes > 0);
+  return offsets.length > 0 ? Array.from(new Set(offsets)).sort((a, b) => b - a) : DEFAULT_REMINDER_OFFSETS_MINUTES;
+}
+
+function formatOffset(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+}
+
+// The smallest offset whose reminder time has passed, or null when none is due yet.
+export function dueReminderOffset(start: Date, offsetsMinutes: number[], now: Date): number | null {
+  if (start.getTime() <= now.getTime()) return null;
+  const due = offsetsMinutes.filter(offset => start.getTime() - offset * 60_000 <= now.getTime());
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+export function reminderDeliveryKey(event: Pick<ReminderEvent, "kind" | "id" | "start">, offsetMinutes: number, recipientKey: string): string {
+  return `${event.kind}_${event.id}_${event.start.getTime()}_${formatOffset(offsetMinutes)}_${recipientKey}`;
+}
+
+async function fetchUpcomingEvents(now: Date, horizon: Date): Promise<ReminderEvent[]> {
+  if (!db) throw new Error("Firestore `db` instance is not available in fetchUpcomingEvents.");
+  // Single-field range queries: no composite index needed. Statuses are filtered here.
+  const [appointmentsSnapshot, consultsSnapshot] = await Promise.all([
+    getDocs(query(
+      collection(db, "appointments"),
+      where("appointmentDate", ">", Timestamp.fromDate(now)),
+      where("appointmentDate", "<=", Timestamp.fromDate(horizon))
+    )),
+    getDocs(query(
+      collection(db, "videoConsults"),
+      where("consultationTime", ">", Timestamp.fromDate(now)),
+      where("consultationTime", "<=", Timestamp.fromDate(horizon))
+    )),
+  ]);
+
+  const events: ReminderEvent[] = [];
+  for (const docSnap of appointmentsSnapshot.docs) {
+    const data = docSnap.data();
+    if (data.status !== "Scheduled" || !(data.appointmentDate instanceof Timestamp)) continue;
+    events.push({
+      kind: "appointment",
+      id: docSnap.id,
+      start: data.appointmentDate.toDate(),
+      title: data.appointmentType || "Appointment",
+      link: `/appointments/${docSnap.id}`,
+      patientId: data.patientId,
+      patientName: data.patientName || "the patient",
+      nurseId: data.nurseId,
+      nurseName: data.nurseName || "the nurse",
+    });
+  }
+  for (const docSnap of consultsSnapshot.docs) {
+    const data = docSnap.data();
+    if (data.status !== "scheduled" || !(data.consultationTime instanceof Timestamp)) continue;
+    events.push({
+      kind: "videoConsult",
+      id: docSnap.id,
+      start: data.consultationTime.toDate(),
+      title: "Video consultation",
+      link: `/video-consult?roomId=${data.roomId}`,
+      patientId: data.patientId,
+      patientName: data.patientName || "the patient",
+      nurseId: data.nurseId,
+      nurseName: data.nurseName || "the nurse",
+    });
+  }
+  return events;
+}
+
+function reminderMessage(event: ReminderEvent, role: "patient" | "nurse"): string {
+  const counterpart = role === "patient" ? `with ${event.nurseName}` : `for ${event.patientName}`;
+  return `Reminder: ${event.title} ${counterpart} on ${format(event.start, "eeee, MMMM d 'at' h:mm a")}.`;
+}
+
+// Returns false when another sweep already claimed this reminder.
+async function claimDelivery(key: string, event: ReminderEvent, offsetMinutes: number, recipient: NotificationRecipient): Promise<boolean> {
+  if (!db) return false;
+  const deliveryRef = doc(db, REMINDER_DELIVERIES_COLLECTION, key);
+  return runTransaction(db, async transaction => {
+    const existing = await transaction.get(deliveryRef);
+    if (existing.exists()) return false;
+    transaction.set(deliveryRef, {
+      eventKind: event.kind,
+      eventId: event.id,
+      eventStart: Timestamp.fromDate(event.start),
+      offsetMinutes,
+      recipientUid: recipient.uid,
+      recipientEmail: recipient.email || null,
+      status: "sending",
+      createdAt: serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+async function deliverReminder(event: ReminderEvent, offsetMinutes: number, recipient: NotificationRecipient, role: "patient" | "nurse"): Promise<"delivered" | "skipped" | "failed"> {
+  if (!db) return "failed";
+  const key = reminderDeliveryKey(event, offsetMinutes, recipient.uid ?? recipient.email ?? role);
+  if (!(await claimDelivery(key, event, offsetMinutes, recipient))) return "skipped";
+
+  const delivery = await notificationService.notify(recipient, {
+    event: "reminder",
+    type: "Reminder",
+    title: `Upcoming ${event.kind === "videoConsult" ? "Video Consultation" : "Appointment"}`,
+    body: reminderMessage(event, role),
+    link: event.link,
+    // Deterministic ID: a retried write overwrites instead of duplicating.
+    notificationId: `reminder-${key}`,
+    email: {
+      template: "reminder",
+      variables: {
+        eventTitle: event.title,
+        patientName: event.patientName,
+        nurseName: event.nurseName,
+        dateTime: event.start,
+        detailsUrl: appUrl(event.link),
+      },
+    },
+  });
+
+  // The claim stays in place even on failure: a reminder is never retried, so it can never be sent twice.
+  await updateDoc(doc(db, REMINDER_DELIVERIES_COLLECTION, key), {
+    // "noChannel": the recipient turned every reachable channel off.
+    status: delivery.delivered.length > 0 ? "sent" : delivery.failed.length > 0 ? "failed" : "noChannel",
+    channels: delivery.delivered,
+    ...(delivery.failed.length > 0 ? { errors: delivery.failed.map(failure => `${failure.channel}: ${failure.message}`) } : {}),
+    completedAt: serverTimestamp(),
+  });
+  return delivery.delivered.length === 0 && delivery.failed.length > 0 ? "failed" : "delivered";
+}
+
+export async function runReminderSweep(offsetsMinutes: number[], now: Date = new Date()): Promise<ReminderSweepResult> {
+  if (!db || !(await ensureServerIdentity())) {
+    throw new Error("Firestore is not available for reminders. Check the Firebase client and Admin SDK configuration.");
+  }
+  const horizon = new Date(now.getTime() + Math.max(...offsetsMinutes) * 60_000);
+  const events = await fetchUpcomingEvents(now, horizon);
+  const result: ReminderSweepResult = { scanned: events.length, delivered: 0, skipped: 0, failed: 0 };
+
+  for (const event of events) {
+    const offset = dueReminderOffset(event.start, offsetsMinutes, now);
+    if (offset === null) continue;
+    const [patient, nurse] = await Promise.all([
+      resolveProfileRecipient("patients", event.patientId, event.patientName),
+      resolveProfileRecipient("nurses", event.nurseId, event.nurseName),
+    ]);
+    for (const [recipient, role] of [[patient, "patient"], [nurse, "nurse"]] as const) {
+      if (!recipient) continue;
+      try {
+        result[await deliverReminder(event, offset, recipient, role)]++;
+      } catch (error: any) {
+        result.failed++;
+        console.error(`[REMINDER_ERROR] Failed to deliver ${event.kind} ${event.id} reminder to ${recipient.uid ?? recipient.email}:`, error.code, error.message);
+      }
+    }
+  }
+  return result;
+}
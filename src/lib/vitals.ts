@@ -0,0 +1,211 @@
+// Structured vital-signs model shared by the care-tracking form (client) and the
+// care log server actions. Ranges below are physiologically plausible limits used
+// for input validation, not clinical "normal" ranges.
+
+import { z } from "zod";
+
+export const VITAL_SIGN_DEFINITIONS = [
+  { key: "bpSystolic", label: "Systolic BP", unit: "mmHg", min: 50, max: 260, step: 1 },
+  { key: "bpDiastolic", label: "Diastolic BP", unit: "mmHg", min: 30, max: 160, step: 1 },
+  { key: "heartRate", label: "Heart Rate", unit: "bpm", min: 20, max: 250, step: 1 },
+  { key: "temperature", label: "Temperature", unit: "°C", min: 30, max: 45, step: 0.1 },
+  { key: "spo2", label: "SpO2", unit: "%", min: 50, max: 100, step: 1 },
+  { key: "glucose", label: "Blood Glucose", unit: "mg/dL", min: 20, max: 600, step: 1 },
+  { key: "weight", label: "Weight", unit: "kg", min: 1, max: 350, step: 0.1 },
+  { key: "respiratoryRate", label: "Respiratory Rate", unit: "breaths/min", min: 4, max: 60, step: 1 },
+  { key: "painScore", label: "Pain Score", unit: "/10", min: 0, max: 10, step: 1 },
+] as const;
+
+export type VitalSignDefinition = (typeof VITAL_SIGN_DEFINITIONS)[number];
+export type VitalSignKey = VitalSignDefinition["key"];
+export type VitalSigns = Partial<Record<VitalSignKey, number>>;
+
+// One entry of the per-patient time series (Firestore `vitalSigns` collection, one
+// document per care log, keyed by the care log ID).
+export type VitalSignsReading = VitalSigns & {
+  id: string;
+  patientId: string;
+  careLogId: string;
+  recordedAt: string; // ISO string
+  recordedBy: string;
+};
+
+export function getVitalSignDefinition(key: VitalSignKey): VitalSignDefinition {
+  return VITAL_SIGN_DEFINITIONS.find(def => def.key === key)!;
+}
+
+function vitalSignField(key: VitalSignKey) {
+  const { label, unit, min, max } = getVitalSignDefinition(key);
+  let field = z
+    .number({ invalid_type_error: `${label} must be a number.` })
+    .min(min, `${label} must be at least ${min} ${unit}.`)
+    .max(max, `${label} must be at most ${max} ${unit}.`);
+  if (key === "painScore") {
+    field = field.int(`${label} must be a whole number.`);
+  }
+  return field.optional();
+}
+
+export const VitalSignsSchema = z
+  .object({
+    bpSystolic: vitalSignField("bpSystolic"),
+    bpDiastolic: vitalSignField("bpDiastolic"),
+    heartRate: vitalSignField("heartRate"),
+    temperature: vitalSignField("temperature"),
+    spo2: vitalSignField("spo2"),
+    glucose: vitalSignField("glucose"),
+    weight: vitalSignField("weight"),
+    respiratoryRate: vitalSignField("respiratoryRate"),
+    painScore: vitalSignField("painScore"),
+  })
+  .refine(v => (v.bpSystolic === undefined) === (v.bpDiastolic === undefined), {
+    message: "Enter both systolic and diastolic blood pressure.",
+    path: ["bpDiastolic"],
+  })
+  .refine(v => v.bpSystolic === undefined || v.bpDiastolic === undefined || v.bpSystolic > v.bpDiastolic, {
+    message: "Systolic BP must be higher than diastolic BP.",
+    path: ["bpSystolic"],
+  });
+
+// Drops missing values so the result can be written to Firestore as-is.
+export function compactVitalSigns(vitals: VitalSigns | undefined | null): VitalSigns {
+  const result: VitalSigns = {};
+  if (!vitals) return result;
+  for (const { key } of VITAL_SIGN_DEFINITIONS) {
+    const value = vitals[key];
+    if (typeof value === "number") result[key] = value;
+  }
+  return result;
+}
+
+export function hasVitalSigns(vitals: VitalSigns | undefined | null): boolean {
+  return Object.keys(compactVitalSigns(vitals)).length > 0;
+}
+
+// Converts the string values of form inputs. Blank inputs are omitted; anything that
+// is not a number becomes NaN so that VitalSignsSchema reports it.
+export function vitalSignsFromInput(input: Partial<Record<string, string>> | undefined): VitalSigns {
+  const result: VitalSigns = {};
+  if (!input) return result;
+  for (const { key } of VITAL_SIGN_DEFINITIONS) {
+    const raw = input[key]?.trim();
+    if (raw) result[key] = Number(raw.replace(",", "."));
+  }
+  return result;
+}
+
+export function vitalSignsToInput(vitals: VitalSigns | undefined): Record<VitalSignKey, string> {
+  const result = {} as Record<VitalSignKey, string>;
+  for (const { key } of VITAL_SIGN_DEFINITIONS) {
+    result[key] = vitals?.[key] !== undefined ? String(vitals[key]) : "";
+  }
+  return result;
+}
+
+// Reads a Firestore document's data back into VitalSigns, ignoring unknown fields.
+export function vitalSignsFromData(data: Record<string, any> | undefined): VitalSigns {
+  return compactVitalSigns(data as VitalSigns | undefined);
+}
+
+export function formatVitalSign(key: VitalSignKey, value: number | undefined): string {
+  if (value === undefined) return "—";
+  const { unit } = getVitalSignDefinition(key);
+  return unit.startsWith("/") ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+export function formatBloodPressure(vitals: VitalSigns): string {
+  if (vitals.bpSystolic === undefined || vitals.bpDiastolic === undefined) return "—";
+  return `${vitals.bpSystolic}/${vitals.bpDiastolic} mmHg`;
+}
+
+// --- Alert thresholds ---
+// Default adult thresholds outside of which a reading raises an alert for the
+// patient's primary nurse. Patients may override any bound (patients/{id}.vitalThresholds).
+
+export type VitalSignThreshold = { low?: number; high?: number };
+export type VitalSignThresholds = Partial<Record<VitalSignKey, VitalSignThreshold>>;
+
+export const DEFAULT_VITAL_SIGN_THRESHOLDS: VitalSignThresholds = {
+  bpSystolic: { low: 90, high: 160 },
+  bpDiastolic: { low: 50, high: 100 },
+  heartRate: { low: 50, high: 110 },
+  temperature: { low: 35.5, high: 38.3 },
+  spo2: { low: 92 },
+  glucose: { low: 70, high: 250 },
+  respiratoryRate: { low: 10, high: 24 },
+  painScore: { high: 7 },
+};
+
+function thresholdBound(key: VitalSignKey) {
+  const { label, unit, min, max } = getVitalSignDefinition(key);
+  return z
+    .number({ invalid_type_error: `${label} threshold must be a number.` })
+    .min(min, `${label} threshold must be at least ${min} ${unit}.`)
+    .max(max, `${label} threshold must be at most ${max} ${unit}.`)
+    .optional();
+}
+
+function thresholdField(key: VitalSignKey) {
+  return z
+    .object({ low: thresholdBound(key), high: thresholdBound(key) })
+    .refine(t => t.low === undefined || t.high === undefined || t.low < t.high, {
+      message: `${getVitalSignDefinition(key).label}: the low threshold must be below the high threshold.`,
+    })
+    .optional();
+}
+
+export const VitalSignThresholdsSchema = z.object({
+  bpSystolic: thresholdField("bpSystolic"),
+  bpDiastolic: thresholdField("bpDiastolic"),
+  heartRate: thresholdField("heartRate"),
+  temperature: thresholdField("temperature"),
+  spo2: thresholdField("spo2"),
+  glucose: thresholdField("glucose"),
+  weight: thresholdField("weight"),
+  respiratoryRate: thresholdField("respiratoryRate"),
+  painScore: thresholdField("painScore"),
+});
+
+// Per-patient bounds replace the default bound of the same side only.
+export function resolveVitalSignThresholds(overrides: VitalSignThresholds | undefined | null): VitalSignThresholds {
+  const result: VitalSignThresholds = {};
+  for (const { key } of VITAL_SIGN_DEFINITIONS) {
+    const merged = { ...DEFAULT_VITAL_SIGN_THRESHOLDS[key], ...compactThreshold(overrides?.[key]) };
+    if (merged.low !== undefined || merged.high !== undefined) result[key] = merged;
+  }
+  return result;
+}
+
+function compactThreshold(threshold: VitalSignThreshold | undefined): VitalSignThreshold {
+  const result: VitalSignThreshold = {};
+  if (typeof threshold?.low === "number") result.low = threshold.low;
+  if (typeof threshold?.high === "number") result.high = threshold.high;
+  return result;
+}
+
+export type OutOfRangeVitalSign = {
+  key: VitalSignKey;
+  value: number;
+  bound: "low" | "high";
+  threshold: number;
+};
+
+export function findOutOfRangeVitalSigns(vitals: VitalSigns, thresholds: VitalSignThresholds): OutOfRangeVitalSign[] {
+  const results: OutOfRangeVitalSign[] = [];
+  for (const { key } of VITAL_SIGN_DEFINITIONS) {
+    const value = vitals[key];
+    const threshold = thresholds[key];
+    if (value === undefined || !threshold) continue;
+    if (threshold.low !== undefined && value < threshold.low) {
+      results.push({ key, value, bound: "low", threshold: threshold.low });
+    } else if (threshold.high !== undefined && value > threshold.high) {
+      results.push({ key, value, bound: "high", threshold: threshold.high });
+    }
+  }
+  return results;
+}
+
+export function describeOutOfRangeVitalSign({ key, value, bound, threshold }: OutOfRangeVitalSign): string {
+  const { label } = getVitalSignDefinition(key);
+  return `${label} ${formatVitalSign(key, value)} (${bound === "low" ? "below" : "above"} ${formatVitalSign(key, threshold)})`;
+}